@@ -278,14 +278,19 @@ call_function_sse_200() {
     return 1
   fi
 
-  sse_text="$(sed -n 's/^data: //p' "${body_file}" | sed '/^\[DONE\]$/d')"
-  if [[ -z "${sse_text}" ]]; then
-    echo "FAIL endpoint=${label} status=200 request_id=${rid} error=empty_sse_stream" >&2
+  done_json="$(awk '/^event: done$/ { getline; sub(/^data: /, ""); print }' "${body_file}")"
+  if [[ -z "${done_json}" ]]; then
+    echo "FAIL endpoint=${label} status=200 request_id=${rid} error=missing_done_event" >&2
+    rm -f "${body_file}" "${header_file}"
+    return 1
+  fi
+  if [[ "$(printf '%s' "${done_json}" | jq -r '.ok // false')" != "true" ]]; then
+    echo "FAIL endpoint=${label} status=200 request_id=${rid} code=$(printf '%s' "${done_json}" | jq -r '.code // "n/a"') error=$(printf '%s' "${done_json}" | jq -r '.error // "none"')" >&2
     rm -f "${body_file}" "${header_file}"
     return 1
   fi
 
-  parsed_json="$(printf '%s\n' "${sse_text}" | jq -r '.choices[0].delta.content // empty' | tr -d '\n')"
+  parsed_json="$(printf '%s' "${done_json}" | jq -c '.payload // empty')"
   if [[ -z "${parsed_json}" ]] || ! printf '%s' "${parsed_json}" | jq -e . >/dev/null 2>&1; then
     echo "FAIL endpoint=${label} status=200 request_id=${rid} error=non_parseable_sse_payload" >&2
     rm -f "${body_file}" "${header_file}"
@@ -53,6 +53,11 @@ endpoints=(
   mythic-inventory-unequip
   mythic-recompute-character
   mythic-shop-buy
+  mythic-shop-sell
+  mythic-shop-repair
+  mythic-crafting-bench
+  mythic-craft-salvage
+  mythic-craft-item
   mythic-shop-stock
   mythic-tts
 )
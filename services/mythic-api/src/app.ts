@@ -3,8 +3,16 @@ import cors from "@fastify/cors";
 import rateLimit from "@fastify/rate-limit";
 import { randomUUID } from "node:crypto";
 
+import { resolveStalledCombatTurn } from "./functions/mythic-combat-tick.js";
+import { createSupabaseCombatTurnStore, startCombatTurnSweeper } from "./lib/combat/turnClock.js";
 import { registerFunctionsRoutes } from "./routes/functions.js";
+import { listLlmProviders } from "./shared/ai_provider.js";
+import { configureCampaignChannel, createCampaignChannel } from "./shared/campaign_channel.js";
 import { getConfig } from "./shared/env.js";
+import { createGuardStore } from "./shared/guard_store.js";
+import { configureGuardStore } from "./shared/request_guard.js";
+import { sanitizeError } from "./shared/redact.js";
+import { createServiceClient } from "./shared/supabase.js";
 
 function isLocalDevOrigin(origin: string): boolean {
   try {
@@ -99,6 +107,49 @@ export async function buildApp() {
     }),
   });
 
+  const guardStore = createGuardStore(config);
+  configureGuardStore(guardStore, (error, op) => {
+    app.log.warn({ op, driver: guardStore.driver, error: sanitizeError(error).message }, "request_guard.store_unavailable");
+  });
+  app.addHook("onClose", async () => {
+    await guardStore.close();
+  });
+
+  const campaignChannel = createCampaignChannel(config);
+  configureCampaignChannel(campaignChannel, (error, event) => {
+    app.log.warn({ driver: campaignChannel.driver, type: event.type, error: sanitizeError(error).message }, "campaign_channel.publish_failed");
+  });
+  app.addHook("onClose", async () => {
+    await campaignChannel.close();
+  });
+
+  if (config.combatSweepIntervalMs > 0) {
+    const sweeperLog = app.log.child({ component: "combat_turn_sweeper" });
+    const combatSweeper = startCombatTurnSweeper({
+      intervalMs: config.combatSweepIntervalMs,
+      store: createSupabaseCombatTurnStore(createServiceClient()),
+      advance: async (session) => {
+        await resolveStalledCombatTurn(session, {
+          debug: (msg, data) => sweeperLog.debug({ ...data }, msg),
+          info: (msg, data) => sweeperLog.info({ ...data }, msg),
+          warn: (msg, data) => sweeperLog.warn({ ...data }, msg),
+          error: (msg, data) => sweeperLog.error({ ...data }, msg),
+        });
+      },
+      onError: (error, session) => {
+        sweeperLog.warn({ combat_session_id: session?.id ?? null, error: sanitizeError(error).message }, "combat_turn_sweeper.failed");
+      },
+    });
+    app.addHook("onClose", async () => {
+      await combatSweeper.stop();
+    });
+  }
+
+  app.log.info({
+    requested: (process.env.LLM_PROVIDER ?? "").trim() || "auto",
+    providers: listLlmProviders().filter((provider) => provider.configured),
+  }, "llm.providers");
+
   app.get("/healthz", async () => ({ ok: true }));
 
   await registerFunctionsRoutes(app);
@@ -9,6 +9,7 @@ import {
   MOTION_VERBS,
   PROCEDURAL_TEMPLATES,
   conciseCountLabel,
+  describeConditions,
   describeContextClue,
 } from "./templates.js";
 import {
@@ -33,9 +34,9 @@ function normalizeBiome(value: string | null): string {
   const key = (value ?? "").trim().toLowerCase();
   if (!key) return "default";
   if (key.includes("forest")) return "forest";
-  if (key.includes("desert")) return "desert";
-  if (key.includes("swamp")) return "swamp";
-  if (key.includes("arctic") || key.includes("ice") || key.includes("snow")) return "arctic";
+  if (key.includes("desert") || key.includes("dune")) return "desert";
+  if (key.includes("swamp") || key.includes("marsh") || key.includes("fen") || key.includes("bog")) return "swamp";
+  if (key.includes("arctic") || key.includes("ice") || key.includes("snow") || key.includes("frost")) return "arctic";
   if (key.includes("city") || key.includes("town") || key.includes("market")) return "city";
   if (key.includes("dungeon") || key.includes("crypt") || key.includes("cave")) return "dungeon";
   return "default";
@@ -275,11 +276,12 @@ export function generateProceduralNarration(input: ProceduralNarratorInput): Pro
     flavorNoun,
   };
 
+  const conditions = describeConditions(input.weather, input.timeOfDay);
   const secondaryLine = secondaryEvent
     ? `${conciseCountLabel("event", mappedEvents.length)} unfolding. ${asText(secondaryEvent.context.actor, "The board")} pressures ${asText(secondaryEvent.context.target, "the seam")}.`
-    : `${input.boardNarration} ${input.summaryObjective ?? input.summaryRumor ?? input.recoveryBeat}`;
+    : `${input.boardNarration}${conditions ? ` Overhead: ${conditions}.` : ""} ${input.summaryObjective ?? input.summaryRumor ?? input.recoveryBeat}`;
   const introLine = input.introOpening
-    ? `Opening scene locks around ${input.boardAnchor}.`
+    ? `Opening scene locks around ${input.boardAnchor}${conditions ? ` under ${conditions}` : ""}.`
     : "";
   const errorLine = input.suppressNarrationOnError && input.executionError
     ? `Action blocked: ${input.executionError}.`
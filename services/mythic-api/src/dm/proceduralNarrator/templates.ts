@@ -195,6 +195,23 @@ export function describeContextClue(biome: string, amount: number): string {
   return pool[index]!;
 }
 
+export const WEATHER_HINTS: Record<string, string> = {
+  clear: "clear skies",
+  cloudy: "low cloud",
+  rain: "steady rain",
+  storm: "a breaking storm",
+  snow: "driving snow",
+  fog: "thick fog",
+  scorching: "scorching heat",
+};
+
+export function describeConditions(weather: string | null | undefined, timeOfDay: string | null | undefined): string {
+  const sky = WEATHER_HINTS[(weather ?? "").trim().toLowerCase()] ?? "";
+  const time = (timeOfDay ?? "").trim().toLowerCase().replace(/_/g, " ");
+  if (sky && time) return `${sky} at ${time}`;
+  return sky || (time ? `the ${time} hours` : "");
+}
+
 export function conciseCountLabel(label: string, count: number): string {
   return `${count} ${pluralize(label, count)}`;
 }
@@ -36,6 +36,8 @@ export interface ProceduralNarratorInput {
   eventId: string;
   boardType: string;
   biome: string | null;
+  weather?: string | null;
+  timeOfDay?: string | null;
   tone: string;
   intensity: string;
   actionSummary: string;
@@ -1,6 +1,8 @@
 import type { FunctionHandler } from "./types.js";
 import { mythicApplyXp } from "./mythic-apply-xp.js";
 import { mythicBootstrap } from "./mythic-bootstrap.js";
+import { mythicCampaignRules } from "./mythic-campaign-rules.js";
+import { mythicCombatReplay } from "./mythic-combat-replay.js";
 import { mythicCombatStart } from "./mythic-combat-start.js";
 import { mythicCombatTick } from "./mythic-combat-tick.js";
 import { mythicCombatUseSkill } from "./mythic-combat-use-skill.js";
@@ -8,16 +10,23 @@ import { mythicCreateCampaign } from "./mythic-create-campaign.js";
 import { mythicCreateCharacter } from "./mythic-create-character.js";
 import { mythicDmContext } from "./mythic-dm-context.js";
 import { mythicDungeonMaster } from "./mythic-dungeon-master.js";
+import { mythicEncounterPreview } from "./mythic-encounter-preview.js";
 import { mythicFieldGenerate } from "./mythic-field-generate.js";
 import { mythicGenerateLoot } from "./mythic-generate-loot.js";
 import { mythicJoinCampaign } from "./mythic-join-campaign.js";
 import { mythicListCampaigns } from "./mythic-list-campaigns.js";
 import { mythicNarratorTest } from "./mythic-narrator-test.js";
+import { mythicPartyQueue } from "./mythic-party-queue.js";
 import { mythicRuntimeTransition } from "./mythic-runtime-transition.js";
 import { mythicInventoryEquip } from "./mythic-inventory-equip.js";
 import { mythicInventoryUnequip } from "./mythic-inventory-unequip.js";
 import { mythicRecomputeCharacter } from "./mythic-recompute-character.js";
 import { mythicShopBuy } from "./mythic-shop-buy.js";
+import { mythicShopSell } from "./mythic-shop-sell.js";
+import { mythicShopRepair } from "./mythic-shop-repair.js";
+import { mythicCraftingBench } from "./mythic-crafting-bench.js";
+import { mythicCraftSalvage } from "./mythic-craft-salvage.js";
+import { mythicCraftItem } from "./mythic-craft-item.js";
 import { mythicShopStock } from "./mythic-shop-stock.js";
 import { mythicTts } from "./mythic-tts.js";
 
@@ -26,7 +35,9 @@ const includeNarratorTest = (process.env.NODE_ENV ?? "development").trim().toLow
 const handlers: FunctionHandler[] = [
   mythicApplyXp,
   mythicBootstrap,
+  mythicCampaignRules,
   mythicRuntimeTransition,
+  mythicCombatReplay,
   mythicCombatStart,
   mythicCombatTick,
   mythicCombatUseSkill,
@@ -34,15 +45,22 @@ const handlers: FunctionHandler[] = [
   mythicCreateCharacter,
   mythicDmContext,
   mythicDungeonMaster,
+  mythicEncounterPreview,
   mythicFieldGenerate,
   mythicGenerateLoot,
   mythicJoinCampaign,
   mythicListCampaigns,
   ...(includeNarratorTest ? [mythicNarratorTest] : []),
+  mythicPartyQueue,
   mythicInventoryEquip,
   mythicInventoryUnequip,
   mythicRecomputeCharacter,
   mythicShopBuy,
+  mythicShopSell,
+  mythicShopRepair,
+  mythicCraftingBench,
+  mythicCraftSalvage,
+  mythicCraftItem,
   mythicShopStock,
   mythicTts,
 ];
@@ -4,6 +4,7 @@ import { createServiceClient } from "../shared/supabase.js";
 import { AuthError, requireUser } from "../shared/auth.js";
 import { AuthzError, assertCampaignAccess } from "../shared/authz.js";
 import { sanitizeError } from "../shared/redact.js";
+import { loadCampaignRules, scaleXpGrant } from "../lib/rules/houseRules.js";
 import type { FunctionContext, FunctionHandler } from "./types.js";
 
 const RequestSchema = z.object({
@@ -60,16 +61,24 @@ export const mythicApplyXp: FunctionHandler = {
         });
       }
 
+      const rules = await loadCampaignRules(svc, campaignId);
+      const granted = scaleXpGrant(amount, rules.tunables);
+
       const { data: result, error: xpErr } = await svc
         .rpc("mythic_apply_xp", {
           character_id: character.id,
-          amount,
+          amount: granted,
           reason: reason ?? "manual",
-          metadata: metadata ?? {},
+          metadata: {
+            ...(metadata ?? {}),
+            requested_xp: amount,
+            xp_preset: rules.tunables.xpPreset,
+            rule_version: rules.ruleVersion,
+          },
         });
       if (xpErr) throw xpErr;
 
-      return new Response(JSON.stringify({ ok: true, result }), {
+      return new Response(JSON.stringify({ ok: true, result, granted_xp: granted, xp_preset: rules.tunables.xpPreset }), {
         status: 200,
         headers: { "Content-Type": "application/json" },
       });
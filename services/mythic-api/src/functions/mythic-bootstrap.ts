@@ -216,7 +216,7 @@ export const mythicBootstrap: FunctionHandler = {
   name: "mythic-bootstrap",
   auth: "required",
   async handle(req: Request, ctx: FunctionContext): Promise<Response> {
-    const rateLimited = enforceRateLimit({
+    const rateLimited = await enforceRateLimit({
       req,
       route: "mythic-bootstrap",
       limit: 30,
@@ -0,0 +1,98 @@
+import { z } from "zod";
+
+import { createServiceClient } from "../shared/supabase.js";
+import { AuthError, requireUser } from "../shared/auth.js";
+import { AuthzError, assertCampaignAccess, assertCampaignOwner } from "../shared/authz.js";
+import { enforceRateLimit } from "../shared/request_guard.js";
+import { sanitizeError } from "../shared/redact.js";
+import { HouseRulesSchema, parseHouseRules, resolveCampaignTunables } from "../lib/rules/houseRules.js";
+import { RULE_VERSION } from "../lib/rules/version.js";
+import type { FunctionContext, FunctionHandler } from "./types.js";
+
+// Omitting houseRules reads the campaign's rules; sending them saves (owner only).
+const RequestSchema = z.object({
+  campaignId: z.string().uuid(),
+  houseRules: HouseRulesSchema.optional(),
+});
+
+export const mythicCampaignRules: FunctionHandler = {
+  name: "mythic-campaign-rules",
+  auth: "required",
+  async handle(req: Request, ctx: FunctionContext): Promise<Response> {
+    const requestId = ctx.requestId;
+    const baseHeaders = { "Content-Type": "application/json", "x-request-id": requestId };
+
+    const rateLimited = await enforceRateLimit({
+      req,
+      route: "mythic-campaign-rules",
+      limit: 30,
+      windowMs: 60_000,
+      corsHeaders: {},
+      requestId,
+    });
+    if (rateLimited) return rateLimited;
+
+    try {
+      const user = await requireUser(req.headers);
+
+      const parsed = RequestSchema.safeParse(await req.json().catch(() => null));
+      if (!parsed.success) {
+        return new Response(JSON.stringify({ error: "Invalid request", code: "invalid_request", details: parsed.error.flatten(), requestId }), {
+          status: 400,
+          headers: baseHeaders,
+        });
+      }
+
+      const { campaignId, houseRules } = parsed.data;
+      const svc = createServiceClient();
+
+      await assertCampaignAccess(svc, campaignId, user.userId);
+
+      if (houseRules) {
+        await assertCampaignOwner(svc, campaignId, user.userId);
+        const { error: updateErr } = await svc
+          .from("campaigns")
+          .update({ house_rules: houseRules, rule_version: RULE_VERSION, updated_at: new Date().toISOString() })
+          .eq("id", campaignId);
+        if (updateErr) throw updateErr;
+        ctx.log.info("campaign_rules.saved", { request_id: requestId, campaign_id: campaignId, xp_preset: houseRules.xpPreset });
+      }
+
+      const { data: campaign, error: campaignErr } = await svc
+        .from("campaigns")
+        .select("id, owner_id, house_rules, rule_version")
+        .eq("id", campaignId)
+        .maybeSingle();
+      if (campaignErr) throw campaignErr;
+      if (!campaign) {
+        return new Response(JSON.stringify({ error: "Campaign not found", code: "campaign_not_found", requestId }), { status: 404, headers: baseHeaders });
+      }
+
+      const stored = parseHouseRules((campaign as { house_rules?: unknown }).house_rules);
+      return new Response(JSON.stringify({
+        ok: true,
+        campaign_id: campaignId,
+        rule_version: (campaign as { rule_version?: string | null }).rule_version ?? RULE_VERSION,
+        house_rules: stored,
+        tunables: resolveCampaignTunables(stored),
+        can_edit: (campaign as { owner_id?: string }).owner_id === user.userId,
+        requestId,
+      }), { status: 200, headers: baseHeaders });
+    } catch (error) {
+      if (error instanceof AuthError) {
+        const code = error.code === "auth_required" ? "auth_required" : "auth_invalid";
+        const message = code === "auth_required" ? "Authentication required" : "Invalid or expired authentication token";
+        return new Response(JSON.stringify({ error: message, code, requestId }), { status: 401, headers: baseHeaders });
+      }
+      if (error instanceof AuthzError) {
+        return new Response(JSON.stringify({ error: error.message, code: error.code, requestId }), { status: error.status, headers: baseHeaders });
+      }
+      const normalized = sanitizeError(error);
+      ctx.log.error("campaign_rules.failed", { request_id: requestId, error: normalized.message, code: normalized.code });
+      return new Response(
+        JSON.stringify({ error: normalized.message || "Failed to load house rules", code: normalized.code ?? "campaign_rules_failed", requestId }),
+        { status: 500, headers: baseHeaders },
+      );
+    }
+  },
+};
@@ -0,0 +1,148 @@
+import { z } from "zod";
+
+import { createServiceClient } from "../shared/supabase.js";
+import { AuthError, requireUser } from "../shared/auth.js";
+import { AuthzError, assertCampaignAccess } from "../shared/authz.js";
+import { enforceRateLimit } from "../shared/request_guard.js";
+import { sanitizeError } from "../shared/redact.js";
+import {
+  replayCombatLog,
+  replayCombatantFromRow,
+  type ReplayCombatant,
+  type ReplayEvent,
+} from "../lib/combat/replay.js";
+import type { FunctionContext, FunctionHandler } from "./types.js";
+
+const RequestSchema = z.object({
+  campaignId: z.string().uuid(),
+  combatSessionId: z.string().uuid(),
+});
+
+const COMBATANT_COLUMNS = "id, name, entity_type, hp, hp_max, armor, power, x, y, is_alive, lvl, offense, defense, mobility, utility, weapon_power, resist";
+
+function asObject(value: unknown): Record<string, unknown> {
+  return value && typeof value === "object" && !Array.isArray(value) ? value as Record<string, unknown> : {};
+}
+
+function toCombatants(rows: unknown): ReplayCombatant[] {
+  if (!Array.isArray(rows)) return [];
+  return rows
+    .map((row) => replayCombatantFromRow(asObject(row)))
+    .filter((row): row is ReplayCombatant => row !== null);
+}
+
+export const mythicCombatReplay: FunctionHandler = {
+  name: "mythic-combat-replay",
+  auth: "required",
+  async handle(req: Request, ctx: FunctionContext): Promise<Response> {
+    const requestId = ctx.requestId;
+    const baseHeaders = { "Content-Type": "application/json", "x-request-id": requestId };
+
+    const rateLimited = await enforceRateLimit({
+      req,
+      route: "mythic-combat-replay",
+      limit: 20,
+      windowMs: 60_000,
+      corsHeaders: {},
+      requestId,
+    });
+    if (rateLimited) return rateLimited;
+
+    try {
+      const user = await requireUser(req.headers);
+
+      const parsed = RequestSchema.safeParse(await req.json().catch(() => null));
+      if (!parsed.success) {
+        return new Response(JSON.stringify({ error: "Invalid request", code: "invalid_request", details: parsed.error.flatten(), requestId }), {
+          status: 400,
+          headers: baseHeaders,
+        });
+      }
+
+      const { campaignId, combatSessionId } = parsed.data;
+      const svc = createServiceClient();
+
+      await assertCampaignAccess(svc, campaignId, user.userId);
+
+      const { data: session, error: sessionErr } = await svc
+        .schema("mythic")
+        .from("combat_sessions")
+        .select("id, seed, status")
+        .eq("id", combatSessionId)
+        .eq("campaign_id", campaignId)
+        .maybeSingle();
+      if (sessionErr) throw sessionErr;
+      if (!session) {
+        return new Response(JSON.stringify({ error: "Combat session not found", code: "combat_not_found", requestId }), {
+          status: 404,
+          headers: baseHeaders,
+        });
+      }
+
+      const { data: eventRows, error: eventsErr } = await svc
+        .schema("mythic")
+        .from("action_events")
+        .select("id, seq, turn_index, actor_combatant_id, event_type, payload")
+        .eq("combat_session_id", combatSessionId)
+        .order("seq", { ascending: true });
+      if (eventsErr) throw eventsErr;
+      const events = (eventRows ?? []) as ReplayEvent[];
+
+      const { data: combatantRows, error: combatantsErr } = await svc
+        .schema("mythic")
+        .from("combatants")
+        .select(COMBATANT_COLUMNS)
+        .eq("combat_session_id", combatSessionId);
+      if (combatantsErr) throw combatantsErr;
+      const current = toCombatants(combatantRows);
+
+      // Sessions started before the round_start snapshot existed replay from the current rows at full hp.
+      const roundStart = events.find((event) => event.event_type === "round_start" && Array.isArray(asObject(event.payload).combatants));
+      const snapshot = roundStart ? toCombatants(asObject(roundStart.payload).combatants) : [];
+      const snapshotSource = snapshot.length > 0 ? "round_start" : "current_rows";
+      const initial = snapshot.length > 0
+        ? snapshot
+        : current.map((row) => ({ ...row, hp: row.hp_max, armor: 0, is_alive: true }));
+
+      const report = replayCombatLog({
+        seed: Number((session as any).seed ?? 0),
+        combatants: initial,
+        events,
+        current,
+      });
+
+      if (!report.ok) {
+        ctx.log.warn("combat_replay.mismatch", {
+          request_id: requestId,
+          campaign_id: campaignId,
+          combat_session_id: combatSessionId,
+          mismatches: report.mismatches.length,
+        });
+      }
+
+      return new Response(JSON.stringify({
+        ok: true,
+        combat_session_id: combatSessionId,
+        status: (session as any).status ?? null,
+        snapshot_source: snapshotSource,
+        replay: report,
+        requestId,
+      }), { status: 200, headers: baseHeaders });
+    } catch (error) {
+      if (error instanceof AuthError) {
+        const code = error.code === "auth_required" ? "auth_required" : "auth_invalid";
+        const message = code === "auth_required" ? "Authentication required" : "Invalid or expired authentication token";
+        return new Response(JSON.stringify({ error: message, code, requestId }), { status: 401, headers: baseHeaders });
+      }
+      if (error instanceof AuthzError) {
+        return new Response(JSON.stringify({ error: error.message, code: error.code, requestId }), { status: error.status, headers: baseHeaders });
+      }
+      const normalized = sanitizeError(error);
+      ctx.log.error("combat_replay.failed", { request_id: requestId, error: normalized.message, code: normalized.code });
+      return new Response(
+        JSON.stringify({ ok: false, error: normalized.message || "Failed to replay combat", code: normalized.code ?? "combat_replay_failed", requestId }),
+        { status: 500, headers: baseHeaders },
+      );
+    }
+  },
+};
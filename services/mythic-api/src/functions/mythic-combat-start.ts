@@ -4,7 +4,35 @@ import { createServiceClient } from "../shared/supabase.js";
 import { AuthError, requireUser } from "../shared/auth.js";
 import { AuthzError, assertCampaignAccess } from "../shared/authz.js";
 import { clampInt, rngInt } from "../shared/mythic_rng.js";
+import {
+  arenaRuntimeState,
+  arenaSpawnPoint,
+  generateCombatArena,
+  resolveArenaSource,
+} from "../lib/combat/arena.js";
+import { behaviorStatusEntry, resolveEnemyBehaviorProfile } from "../lib/combat/behavior.js";
+import { composeEncounter, encounterSummary } from "../lib/combat/encounters.js";
+import { replayCombatantFromRow } from "../lib/combat/replay.js";
+import { combatTurnClock } from "../lib/combat/turnClock.js";
+import { readCharacterVitals } from "../lib/environment/camp.js";
+import { combatEnvironment, readWorldClock } from "../lib/environment/worldClock.js";
+import { isItemBroken } from "../lib/gear/durability.js";
+import { loadCampaignRules } from "../lib/rules/houseRules.js";
+import {
+  buildNemesisCombatantStats,
+  findDueNemesisStrike,
+  loadNemesisArc,
+  markNemesisStrikeLaunched,
+  nemesisStatusEntry,
+} from "../lib/nemesis/index.js";
+import {
+  coerceCampaignContextFromProfile,
+  type BiomeMap,
+  type CreaturePools,
+  type LethalityLevel,
+} from "../lib/worldforge/index.js";
 import { sanitizeError } from "../shared/redact.js";
+import { publishCampaignEvent } from "../shared/campaign_channel.js";
 import type { FunctionContext, FunctionHandler } from "./types.js";
 
 const RequestSchema = z.object({
@@ -49,26 +77,6 @@ function uniqueName(base: string, seen: Set<string>): string {
   return candidate;
 }
 
-function enemyNamePool(themeHint: string): string[] {
-  const lower = themeHint.toLowerCase();
-  if (/(crypt|grave|horror|dark|gothic|night)/.test(lower)) {
-    return ["Lantern Wraith", "Moonflare Revenant", "Grave Choir Hound", "Velvet Cryptmimic", "Dusk Bell Specter"];
-  }
-  if (/(ruin|sci|tech|machine|arc|metal)/.test(lower)) {
-    return ["Arc Golem", "Crystal Spider", "Turbo Prism Drone", "Storm Sprite", "Thunder Drake"];
-  }
-  if (/(forest|wild|road|travel|frontier)/.test(lower)) {
-    return ["Thornbound Stalker", "Bubble Wyrm", "Bramble Drake", "Dire Goose", "Storm Kitty"];
-  }
-  return ["Cinder Marauder", "Rainbow Treant", "Thunder Crab", "Shadow Mimic", "Ancient Slime"];
-}
-
-function pickEnemyName(seed: number, combatId: string, index: number, themeHint: string, seen: Set<string>): string {
-  const pool = enemyNamePool(themeHint);
-  const base = pool[rngInt(seed, `enemy_name:${combatId}:${index}`, 0, pool.length - 1)] ?? pool[0]!;
-  return uniqueName(base, seen);
-}
-
 function toErrorMessage(error: unknown, context: string): string {
   if (!error) return `${context} failed`;
   if (error instanceof Error) return `${context}: ${error.message}`;
@@ -88,9 +96,11 @@ function throwIfError(error: unknown, context: string): void {
   throw new Error(toErrorMessage(error, context));
 }
 
-function sumEquipmentBonuses(rows: Array<{ item?: { stat_mods?: unknown; slot?: string } | null }>) {
+function sumEquipmentBonuses(rows: Array<{ item?: { stat_mods?: unknown; durability_json?: unknown; slot?: string } | null }>) {
   const totals: Record<string, number> = {};
   for (const row of rows) {
+    // Broken gear stays equipped but stops contributing until it is repaired.
+    if (isItemBroken(row?.item)) continue;
     const statMods = asObject(row?.item?.stat_mods);
     for (const [k, v] of Object.entries(statMods)) {
       const add = num(v, 0);
@@ -172,7 +182,7 @@ export const mythicCombatStart: FunctionHandler = {
       const { data: character, error: charError } = await svc
         .schema("mythic")
         .from("characters")
-        .select("id, name, level, offense, defense, control, support, mobility, utility")
+        .select("id, name, level, offense, defense, control, support, mobility, utility, resources")
         .eq("campaign_id", campaignId)
         .eq("player_id", user.userId)
         .order("updated_at", { ascending: false })
@@ -190,13 +200,13 @@ export const mythicCombatStart: FunctionHandler = {
       const { data: equippedItems, error: equipError } = await svc
         .schema("mythic")
         .from("inventory")
-        .select("id, container, item:items(stat_mods, slot)")
+        .select("id, container, item:items(stat_mods, slot, durability_json)")
         .eq("character_id", character.id)
         .eq("container", "equipment");
 
       throwIfError(equipError, "equipment lookup");
 
-      const equipBonuses = sumEquipmentBonuses((equippedItems ?? []) as Array<{ item?: { stat_mods?: unknown } | null }>);
+      const equipBonuses = sumEquipmentBonuses((equippedItems ?? []) as Array<{ item?: { stat_mods?: unknown; durability_json?: unknown } | null }>);
 
       const derivedStats = STAT_KEYS.reduce((acc, key) => {
         const base = num((character as any)[key], 0);
@@ -212,10 +222,53 @@ export const mythicCombatStart: FunctionHandler = {
       const hpBonus = Math.max(0, num(equipBonuses.hp_max, 0));
       const powerBonus = Math.max(0, num(equipBonuses.power_max, 0));
 
+      // Arena size, walls and hazards come from the board we left, the dungeon room and the world's biomes.
+      const activeState = asObject((activeRuntime as { state_json?: unknown } | null)?.state_json);
+      const activeMode = (activeRuntime as { mode?: string } | null)?.mode ?? null;
+      const arenaBoardType = activeMode === "combat"
+        ? (typeof activeState.return_mode === "string" ? activeState.return_mode : null)
+        : activeMode;
+      let biomeMap: BiomeMap | null = null;
+      let creaturePools: CreaturePools | null = null;
+      let lethality: LethalityLevel | null = null;
+      try {
+        const { data: worldProfile, error: worldProfileError } = await svc
+          .schema("mythic")
+          .from("world_profiles")
+          .select("seed_title, seed_description, template_key, world_profile_json")
+          .eq("campaign_id", campaignId)
+          .maybeSingle();
+        throwIfError(worldProfileError, "world profile lookup");
+        if (worldProfile) {
+          const worldContext = coerceCampaignContextFromProfile({
+            seedTitle: String((worldProfile as any).seed_title ?? "Mythic Campaign"),
+            seedDescription: String((worldProfile as any).seed_description ?? "Mythic campaign"),
+            templateKey: typeof (worldProfile as any).template_key === "string" ? (worldProfile as any).template_key : "custom",
+            worldProfileJson: asObject((worldProfile as any).world_profile_json),
+          }).worldContext;
+          biomeMap = worldContext.biomeMap;
+          creaturePools = worldContext.creaturePools;
+          lethality = worldContext.worldSeed.forgeInput.lethality ?? null;
+        }
+      } catch (worldError) {
+        ctx.log.warn("combat_start.arena_biome_warning", {
+          request_id: requestId,
+          campaign_id: campaignId,
+          reason: sanitizeError(worldError).message,
+        });
+      }
+      const arenaSource = resolveArenaSource({ seed, boardType: arenaBoardType, runtimeState: activeState, biomeMap });
+      const arena = generateCombatArena(seed, arenaSource);
+
+      // Weather and daylight at the moment the fight starts shift aim and footing for its whole length.
+      const environment = combatEnvironment(readWorldClock(activeState.world_clock), arenaBoardType);
+
       // Start combat session + activate combat board + transition + combat_start event.
       const sceneJson = {
         kind: "encounter",
-        started_from: (activeRuntime as { mode?: string } | null)?.mode ?? null,
+        started_from: activeMode,
+        arena,
+        environment,
       };
 
       const startRes = await svc.rpc("mythic_start_combat_session", {
@@ -243,8 +296,7 @@ export const mythicCombatStart: FunctionHandler = {
             status: "active",
             state_json: {
               combat_session_id: combatId,
-              grid: { width: 12, height: 8 },
-              blocked_tiles: [],
+              ...arenaRuntimeState(arena),
               seed,
             },
             ui_hints_json: { camera: { x: 0, y: 0, zoom: 1 }, board_theme: "combat" },
@@ -269,6 +321,10 @@ export const mythicCombatStart: FunctionHandler = {
       const playerInit = clampInt((derivedStats.mobility as number) + rngInt(seed, `init:player:${character.id}`, 0, 25), 0, 999);
       const hpMaxFinal = Math.max(1, Math.floor(((hpMaxRes.data as number | null) ?? 100) + hpBonus));
       const powerMaxFinal = Math.max(0, Math.floor(((powerMaxRes.data as number | null) ?? 50) + powerBonus));
+      // Wounds from the last fight carry over until the party rests; a gear change keeps the missing amount, not the ratio.
+      const vitals = readCharacterVitals(asObject((character as { resources?: unknown }).resources));
+      const hpStart = vitals ? clampInt(hpMaxFinal - (vitals.hp_max - vitals.hp), 1, hpMaxFinal) : hpMaxFinal;
+      const powerStart = vitals ? clampInt(powerMaxFinal - (vitals.power_max - vitals.power), 0, powerMaxFinal) : powerMaxFinal;
 
       const usedNames = new Set<string>();
       const playerCombatant = {
@@ -277,8 +333,7 @@ export const mythicCombatStart: FunctionHandler = {
         player_id: user.userId,
         character_id: character.id,
         name: uniqueName(character.name, usedNames),
-        x: 1,
-        y: 1,
+        ...arenaSpawnPoint(arena, "ally", 0),
         lvl,
         offense: derivedStats.offense,
         defense: derivedStats.defense,
@@ -288,9 +343,9 @@ export const mythicCombatStart: FunctionHandler = {
         utility: derivedStats.utility,
         weapon_power: weaponPower,
         armor_power: armorPower,
-        hp: hpMaxFinal,
+        hp: hpStart,
         hp_max: hpMaxFinal,
-        power: powerMaxFinal,
+        power: powerStart,
         power_max: powerMaxFinal,
         armor: armorBonus,
         resist: resistBonus,
@@ -336,8 +391,7 @@ export const mythicCombatStart: FunctionHandler = {
               : `Companion ${index + 1}`,
             usedNames,
           ),
-          x: 1 + (index % 2),
-          y: 2 + Math.floor(index / 2),
+          ...arenaSpawnPoint(arena, "ally", index + 1),
           lvl: companionLevel,
           offense,
           defense,
@@ -369,7 +423,6 @@ export const mythicCombatStart: FunctionHandler = {
         };
       });
 
-      const enemyCount = rngInt(seed, `enemy_count:${combatId}`, 2, 4);
       const themeHint = [
         reason,
         typeof (activeRuntime as { mode?: unknown } | null)?.mode === "string"
@@ -378,38 +431,69 @@ export const mythicCombatStart: FunctionHandler = {
       ]
         .filter((entry) => entry.length > 0)
         .join(" ");
+      // Enemy groups come from the world's creature pools for this region, sized to the party and the world's lethality.
+      const encounter = composeEncounter({
+        seed,
+        partySize: 1 + companions.length,
+        partyLevel: lvl,
+        lethality,
+        pools: creaturePools,
+        regionId: arenaSource.biome?.regionId ?? null,
+        themeHint,
+        bossRoom: arenaSource.roomTags.includes("boss"),
+      });
+      const enemyCount = encounter.slots.length;
+      const { data: templateRows, error: templateErr } = await svc
+        .schema("mythic")
+        .from("enemy_templates")
+        .select("name,behavior_profile")
+        .in("name", [...new Set(encounter.slots.map((slot) => slot.creature))]);
+      if (templateErr) {
+        ctx.log.warn("combat_start.enemy_templates_warning", {
+          request_id: requestId,
+          campaign_id: campaignId,
+          reason: sanitizeError(templateErr).message,
+        });
+      }
+      const enemyTemplates = new Map<string, unknown>(
+        (templateRows ?? []).map((row: any) => [String(row.name ?? "").trim().toLowerCase(), row.behavior_profile]),
+      );
       const enemies: Array<Record<string, unknown>> = [];
-      for (let i = 0; i < enemyCount; i += 1) {
+      for (const [i, slot] of encounter.slots.entries()) {
         const base = 35 + rngInt(seed, `enemy:base:${i}`, 0, 25);
-        const mobility = clampInt(base + rngInt(seed, `enemy:mob:${i}`, -5, 10), 0, 100);
-        const offense = clampInt(base + rngInt(seed, `enemy:off:${i}`, -5, 15), 0, 100);
-        const defense = clampInt(base + rngInt(seed, `enemy:def:${i}`, -5, 15), 0, 100);
-        const control = clampInt(base + rngInt(seed, `enemy:ctl:${i}`, -10, 10), 0, 100);
-        const support = clampInt(base + rngInt(seed, `enemy:sup:${i}`, -10, 10), 0, 100);
-        const utility = clampInt(base + rngInt(seed, `enemy:uti:${i}`, -10, 10), 0, 100);
+        const mobility = clampInt(base + slot.stats.mobility + rngInt(seed, `enemy:mob:${i}`, -5, 10), 0, 100);
+        const offense = clampInt(base + slot.stats.offense + rngInt(seed, `enemy:off:${i}`, -5, 15), 0, 100);
+        const defense = clampInt(base + slot.stats.defense + rngInt(seed, `enemy:def:${i}`, -5, 15), 0, 100);
+        const control = clampInt(base + slot.stats.control + rngInt(seed, `enemy:ctl:${i}`, -10, 10), 0, 100);
+        const support = clampInt(base + slot.stats.support + rngInt(seed, `enemy:sup:${i}`, -10, 10), 0, 100);
+        const utility = clampInt(base + slot.stats.utility + rngInt(seed, `enemy:uti:${i}`, -10, 10), 0, 100);
         const initiative = clampInt(mobility + rngInt(seed, `init:enemy:${i}`, 0, 25), 0, 999);
 
-        const x = 8 + rngInt(seed, `enemy:x:${i}`, 0, 2);
-        const y = 1 + i;
+        const { x, y } = arenaSpawnPoint(arena, "enemy", i);
         const hpBaseRes = await svc.rpc("mythic_max_hp", {
-          lvl,
+          lvl: slot.lvl,
           defense,
           support,
         });
         throwIfError(hpBaseRes.error, "enemy max_hp");
         const hpBase = Math.max(1, Math.floor(Number(hpBaseRes.data ?? 100)));
         const hpVariancePct = rngInt(seed, `enemy:hp_variance:${i}`, -10, 10);
-        const enemyHpMax = Math.max(50, Math.floor(hpBase * (1 + (hpVariancePct / 100))));
+        const enemyHpMax = Math.max(50, Math.floor(hpBase * slot.hp_mult * (1 + (hpVariancePct / 100))));
+        const behavior = resolveEnemyBehaviorProfile({
+          name: slot.creature,
+          templates: enemyTemplates,
+          creatureProfiles: creaturePools?.behaviorProfiles ?? null,
+        });
 
         enemies.push({
           combat_session_id: combatId,
           entity_type: "npc",
           player_id: null,
           character_id: null,
-          name: pickEnemyName(seed, combatId, i, themeHint, usedNames),
+          name: uniqueName(slot.name, usedNames),
           x,
           y,
-          lvl,
+          lvl: slot.lvl,
           offense,
           defense,
           control,
@@ -424,17 +508,68 @@ export const mythicCombatStart: FunctionHandler = {
           power_max: 0,
           armor: 0,
           resist: 0,
-          statuses: [],
+          statuses: [behaviorStatusEntry(behavior)],
           initiative,
           is_alive: true,
         });
       }
 
+      // A due revenge arc sends its nemesis back in place of the first enemy, built to counter the player.
+      const runtimeMode = typeof (activeRuntime as { mode?: unknown } | null)?.mode === "string"
+        ? String((activeRuntime as { mode: string }).mode)
+        : null;
+      const pendingStrike = asObject(runtimeState.nemesis_strike);
+      let nemesisStrike: Awaited<ReturnType<typeof findDueNemesisStrike>> = null;
+      try {
+        if (pendingStrike.pending === true && typeof pendingStrike.arc_id === "string") {
+          nemesisStrike = await loadNemesisArc(svc, pendingStrike.arc_id);
+        } else if (runtimeMode === "travel" || runtimeMode === "dungeon") {
+          nemesisStrike = await findDueNemesisStrike({ svc, campaignId, playerId: user.userId });
+        }
+      } catch (nemesisError) {
+        ctx.log.warn("combat_start.nemesis_warning", {
+          request_id: requestId,
+          campaign_id: campaignId,
+          reason: sanitizeError(nemesisError).message,
+        });
+      }
+      if (nemesisStrike && enemies.length > 0) {
+        const { arc, nemesis } = nemesisStrike;
+        const nemesisStats = buildNemesisCombatantStats({ seed, nemesis, partyLevel: lvl });
+        const nemesisHpRes = await svc.rpc("mythic_max_hp", {
+          lvl: nemesisStats.lvl,
+          defense: nemesisStats.defense,
+          support: nemesisStats.support,
+        });
+        throwIfError(nemesisHpRes.error, "nemesis max_hp");
+        const nemesisHpMax = Math.max(80, Math.floor(num(nemesisHpRes.data, 100) * nemesisStats.hp_mult));
+        enemies[0] = {
+          ...enemies[0],
+          name: uniqueName(nemesis.name, usedNames),
+          lvl: nemesisStats.lvl,
+          offense: nemesisStats.offense,
+          defense: nemesisStats.defense,
+          control: nemesisStats.control,
+          support: nemesisStats.support,
+          mobility: nemesisStats.mobility,
+          utility: nemesisStats.utility,
+          weapon_power: Math.max(2, nemesis.escalation * 3),
+          hp: nemesisHpMax,
+          hp_max: nemesisHpMax,
+          resist: nemesisStats.resist,
+          statuses: [nemesisStatusEntry(arc.id, nemesis)],
+          initiative: clampInt(nemesisStats.mobility + rngInt(seed, `init:nemesis:${arc.id}`, 10, 30), 0, 999),
+        };
+      }
+
       const { data: insertedCombatants, error: combatantsError } = await svc
         .schema("mythic")
         .from("combatants")
-        .insert([playerCombatant, ...companions, ...enemies])
-        .select("id, name, initiative");
+        .insert([playerCombatant, ...companions, ...enemies].map((row) => ({
+          ...row,
+          mobility: clampInt(num(row.mobility, 0) + (environment?.mobility ?? 0), 0, 100),
+        })))
+        .select("id, name, initiative, entity_type, hp, hp_max, armor, power, x, y, is_alive, lvl, offense, defense, mobility, utility, weapon_power, resist");
 
       throwIfError(combatantsError, "combatants insert");
       if (!insertedCombatants || insertedCombatants.length < 2) throw new Error("Failed to insert combatants");
@@ -458,13 +593,40 @@ export const mythicCombatStart: FunctionHandler = {
         .insert(turnRows);
       throwIfError(turnError, "turn_order insert");
 
-      const initiativeSnapshot = sorted.map((c: any) => ({ combatant_id: c.id, name: c.name, initiative: c.initiative }));
+      const { tunables: houseTunables } = await loadCampaignRules(svc, campaignId);
+      const { error: clockError } = await svc
+        .schema("mythic")
+        .from("combat_sessions")
+        .update({
+          ...combatTurnClock({
+            now: new Date(),
+            entityType: (sorted[0] as any)?.entity_type ?? null,
+            turnSeconds: houseTunables.turnSeconds,
+          }),
+          scene_json: { ...sceneJson, encounter: encounterSummary(encounter) },
+        })
+        .eq("id", combatId);
+      throwIfError(clockError, "combat turn clock");
+
+      if (nemesisStrike) {
+        try {
+          await markNemesisStrikeLaunched({
+            svc,
+            arc: nemesisStrike.arc,
+            nemesis: nemesisStrike.nemesis,
+            combatSessionId: combatId,
+          });
+        } catch (nemesisError) {
+          ctx.log.warn("combat_start.nemesis_warning", {
+            request_id: requestId,
+            campaign_id: campaignId,
+            combat_session_id: combatId,
+            reason: sanitizeError(nemesisError).message,
+          });
+        }
+      }
 
-      // Add a simple deterministic combat grid with blocked tiles for LOS checks.
-      const blockedTiles = Array.from({ length: rngInt(seed, "walls:count", 3, 6) }).map((_, i) => ({
-        x: rngInt(seed, `walls:x:${i}`, 2, 7),
-        y: rngInt(seed, `walls:y:${i}`, 1, 4),
-      }));
+      const initiativeSnapshot = sorted.map((c: any) => ({ combatant_id: c.id, name: c.name, initiative: c.initiative }));
 
       if (!runtimeId) throw new Error("Runtime row missing during combat start");
       const previousMode = typeof (activeRuntime as { mode?: unknown } | null)?.mode === "string"
@@ -474,9 +636,11 @@ export const mythicCombatStart: FunctionHandler = {
         ...runtimeState,
         combat_session_id: combatId,
         return_mode: previousMode && previousMode !== "combat" ? previousMode : (runtimeState.return_mode ?? "town"),
-        grid: { width: 12, height: 8 },
-        blocked_tiles: blockedTiles,
+        ...arenaRuntimeState(arena),
         seed,
+        nemesis_strike: nemesisStrike
+          ? { pending: false, arc_id: nemesisStrike.arc.id, combat_session_id: combatId }
+          : null,
       };
       const { error: runtimeUpdateError } = await svc
         .schema("mythic")
@@ -495,7 +659,11 @@ export const mythicCombatStart: FunctionHandler = {
         turn_index: 0,
         actor_combatant_id: null,
         event_type: "round_start",
-        payload: { round_index: 0, initiative_snapshot: initiativeSnapshot },
+        payload: {
+          round_index: 0,
+          initiative_snapshot: initiativeSnapshot,
+          combatants: sorted.map((c: any) => replayCombatantFromRow(c)).filter(Boolean),
+        },
       });
       throwIfError(roundStartRes.error, "append_action_event round_start");
 
@@ -508,6 +676,13 @@ export const mythicCombatStart: FunctionHandler = {
       });
       throwIfError(turnStartRes.error, "append_action_event turn_start");
 
+      void publishCampaignEvent({
+        campaignId,
+        type: "board.transition",
+        actorUserId: user.userId,
+        payload: { mode: "combat", combat_session_id: combatId },
+      });
+
       ctx.log.info("combat_start.success", {
         request_id: requestId,
         campaign_id: campaignId,
@@ -515,10 +690,18 @@ export const mythicCombatStart: FunctionHandler = {
         duration_ms: Date.now() - t0,
         enemy_count: enemyCount,
         companion_count: companions.length,
+        nemesis_arc_id: nemesisStrike?.arc.id ?? null,
       });
 
       return new Response(
-        JSON.stringify({ ok: true, combat_session_id: combatId, requestId }),
+        JSON.stringify({
+          ok: true,
+          combat_session_id: combatId,
+          nemesis: nemesisStrike
+            ? { arc_id: nemesisStrike.arc.id, name: nemesisStrike.nemesis.name, title: nemesisStrike.nemesis.title }
+            : null,
+          requestId,
+        }),
         { status: 200, headers: { ...baseHeaders, "Content-Type": "application/json" } },
       );
     } catch (error) {
@@ -3,7 +3,7 @@ import { z } from "zod";
 import { createServiceClient } from "../shared/supabase.js";
 import { AuthError, requireUser } from "../shared/auth.js";
 import { AuthzError, assertCampaignAccess } from "../shared/authz.js";
-import { rngInt, rngPick } from "../shared/mythic_rng.js";
+import { rngPick } from "../shared/mythic_rng.js";
 import {
   enforceRateLimit,
   getIdempotentResponse,
@@ -11,10 +11,56 @@ import {
   storeIdempotentResponse,
 } from "../shared/request_guard.js";
 import { sanitizeError } from "../shared/redact.js";
+import { publishCampaignEvent } from "../shared/campaign_channel.js";
 import { settleCombat } from "../lib/combat/settlement.js";
 import { resolveDeterministicHit } from "../lib/combat/hitResolution.js";
+import { readCombatEnvironment } from "../lib/environment/worldClock.js";
+import { buildRollAudit } from "../lib/combat/replay.js";
+import {
+  ARENA_HAZARD_STATUS_TURNS,
+  arenaBlockedSet,
+  arenaHazardAt,
+  arenaHazardStatus,
+  readCombatArena,
+  type CombatArena,
+} from "../lib/combat/arena.js";
+import {
+  BEHAVIOR_PROFILES,
+  BEHAVIOR_STATUS_ID,
+  DEFAULT_BEHAVIOR_PROFILE_ID,
+  activeBehavior,
+  behaviorFromStatuses,
+  behaviorStatusEntry,
+  parseBehaviorProfile,
+  pickBehaviorSkill,
+  pickBehaviorTarget,
+  pickBehaviorWard,
+  shouldRetreat,
+} from "../lib/combat/behavior.js";
+import {
+  manhattan,
+  planApproach,
+  planRetreat,
+  telegraphedZones,
+  type ApproachPlan,
+  type TelegraphEvent,
+} from "../lib/combat/pathfinding.js";
+import { nemesisFromStatuses, type NemesisCounterSkill, type NemesisTargetPreference } from "../lib/nemesis/index.js";
 import { RULE_VERSION } from "../lib/rules/version.js";
-import type { FunctionContext, FunctionHandler } from "./types.js";
+import { loadCampaignRules } from "../lib/rules/houseRules.js";
+import {
+  COMBAT_TURN_SWEEP_LEASE_MS,
+  COMBAT_TURN_SWEEP_MAX_STEPS,
+  claimCombatTurn,
+  combatTurnClock,
+  isCombatTurnExpired,
+  type StalledCombatSession,
+} from "../lib/combat/turnClock.js";
+import { tallyCombatWear, type CombatWearTally } from "../lib/gear/durability.js";
+import { applyCombatWear } from "../lib/gear/store.js";
+import { companionConsumablePlan, resolveConsumable, type ConsumableStack } from "../lib/consumables/effects.js";
+import { loadConsumablePouch, spendConsumable } from "../lib/consumables/store.js";
+import type { FunctionContext, FunctionHandler, FunctionLogger } from "./types.js";
 
 const RequestSchema = z.object({
   campaignId: z.string().uuid(),
@@ -55,17 +101,12 @@ type CompanionCommand = {
   directive: "focus" | "protect" | "harry" | "hold";
   targetHint: string | null;
 };
-type Position = { x: number; y: number };
 
 function asRecord(value: unknown): Record<string, unknown> | null {
   if (!value || typeof value !== "object" || Array.isArray(value)) return null;
   return value as Record<string, unknown>;
 }
 
-function toBlockedSet(blockedTiles: Array<{ x: number; y: number }>): Set<string> {
-  return new Set(blockedTiles.map((tile) => `${Math.floor(tile.x)},${Math.floor(tile.y)}`));
-}
-
 function occupiedSet(combatants: Combatant[], excludeId: string | null = null): Set<string> {
   const out = new Set<string>();
   for (const combatant of combatants) {
@@ -81,48 +122,39 @@ function isAlive(combatant: Combatant | null | undefined): combatant is Combatan
   return Boolean(combatant.is_alive) && Number(combatant.hp ?? 0) > 0;
 }
 
-function inBounds(point: Position, cols = 14, rows = 10): boolean {
-  return point.x >= 0 && point.y >= 0 && point.x < cols && point.y < rows;
-}
-
-function canStand(point: Position, blocked: Set<string>, occupied: Set<string>): boolean {
-  return !blocked.has(`${point.x},${point.y}`) && !occupied.has(`${point.x},${point.y}`);
-}
-
-function chooseStep(current: Position, target: Position, blocked: Set<string>, occupied: Set<string>): Position | null {
-  const dx = target.x - current.x;
-  const dy = target.y - current.y;
-  if (dx === 0 && dy === 0) return null;
-  const stepX = dx === 0 ? 0 : dx / Math.abs(dx);
-  const stepY = dy === 0 ? 0 : dy / Math.abs(dy);
-  const candidates = Math.abs(dx) >= Math.abs(dy)
-    ? [{ x: current.x + stepX, y: current.y }, { x: current.x, y: current.y + stepY }]
-    : [{ x: current.x, y: current.y + stepY }, { x: current.x + stepX, y: current.y }];
-  for (const candidate of candidates) {
-    if (!inBounds(candidate)) continue;
-    if (!canStand(candidate, blocked, occupied)) continue;
-    return candidate;
-  }
-  return null;
-}
+// Path costs: hazards are worth a short detour, a telegraphed blast a longer one.
+const HAZARD_PATH_COST = 4;
+const TELEGRAPH_PATH_COST = 6;
 
-function moveToward(args: {
-  start: Position;
-  target: Position;
-  maxSteps: number;
-  blocked: Set<string>;
-  occupied: Set<string>;
-}): { to: Position; steps: number } {
-  let current = { ...args.start };
-  let steps = 0;
-  const max = Math.max(0, Math.floor(args.maxSteps));
-  for (let i = 0; i < max; i += 1) {
-    const next = chooseStep(current, args.target, args.blocked, args.occupied);
-    if (!next) break;
-    current = next;
-    steps += 1;
-  }
-  return { to: current, steps };
+async function loadDangerMap(args: {
+  svc: ReturnType<typeof createServiceClient>;
+  combatSessionId: string;
+  turnIndex: number;
+  arena: CombatArena;
+  actor: Combatant;
+  living: Combatant[];
+}): Promise<Map<string, number>> {
+  const danger = new Map<string, number>();
+  for (const hazard of args.arena.hazard_tiles) danger.set(`${hazard.x},${hazard.y}`, HAZARD_PATH_COST);
+  const { data: recentCasts, error } = await args.svc
+    .schema("mythic")
+    .from("action_events")
+    .select("actor_combatant_id,turn_index,payload")
+    .eq("combat_session_id", args.combatSessionId)
+    .eq("event_type", "skill_used")
+    .gte("turn_index", Math.max(0, args.turnIndex - args.living.length))
+    .order("created_at", { ascending: false })
+    .limit(24);
+  if (error) throw error;
+  const zones = telegraphedZones({
+    events: (recentCasts ?? []) as TelegraphEvent[],
+    casterIds: new Set(args.living.filter((entry) => !sameTeam(args.actor, entry)).map((entry) => entry.id)),
+    sinceTurn: Math.max(0, args.turnIndex - args.living.length),
+    width: args.arena.width,
+    height: args.arena.height,
+  });
+  for (const key of zones) danger.set(key, Math.max(danger.get(key) ?? 0, TELEGRAPH_PATH_COST));
+  return danger;
 }
 
 function moveBudget(mobility: number): number {
@@ -229,11 +261,6 @@ function nextAliveTurnIndex(order: TurnRow[], aliveSet: Set<string>, currentInde
   return currentIndex;
 }
 
-function pickBossSkill(seed: number, label: string, phaseSkills: string[]) {
-  if (!phaseSkills.length) return "boss_strike";
-  return rngPick(seed, `${label}:boss_skill`, phaseSkills);
-}
-
 function skillMultFor(skillName: string, targetHpPct: number): number {
   if (skillName === "boss_execute") return targetHpPct <= 0.4 ? 2.0 : 1.3;
   if (skillName === "boss_cleave") return 1.35;
@@ -260,23 +287,23 @@ function tileDistance(a: Combatant, b: Combatant): number {
   return Math.abs(Number(a.x) - Number(b.x)) + Math.abs(Number(a.y) - Number(b.y));
 }
 
-function pickPrimaryTarget(args: {
-  actor: Combatant;
+function pickNemesisTarget(args: {
   opponents: Combatant[];
-  seed: number;
-  label: string;
+  primaryTarget: Combatant;
+  prefer: NemesisTargetPreference;
 }): Combatant {
-  const ranked = [...args.opponents].sort((left, right) => {
-    const hpDelta = hpPercentOf(left) - hpPercentOf(right);
-    if (Math.abs(hpDelta) > 0.001) return hpDelta;
-    const distDelta = tileDistance(args.actor, left) - tileDistance(args.actor, right);
-    if (distDelta !== 0) return distDelta;
-    return String(left.id).localeCompare(String(right.id));
-  });
-  const top = ranked.slice(0, Math.min(2, ranked.length));
-  if (top.length === 1) return top[0]!;
-  const pick = rngInt(args.seed, `${args.label}:target_pick`, 0, top.length - 1);
-  return top[pick]!;
+  if (args.prefer === "companions") {
+    const companions = args.opponents
+      .filter((entry) => entry.entity_type === "summon")
+      .sort((left, right) => hpPercentOf(left) - hpPercentOf(right) || String(left.id).localeCompare(String(right.id)));
+    if (companions[0]) return companions[0];
+  }
+  if (args.prefer === "casters") {
+    const casters = [...args.opponents]
+      .sort((left, right) => Number(right.power_max) - Number(left.power_max) || String(left.id).localeCompare(String(right.id)));
+    if (casters[0] && Number(casters[0].power_max) > 0) return casters[0];
+  }
+  return args.primaryTarget;
 }
 
 function companionSkillPlan(args: {
@@ -327,663 +354,1046 @@ function companionSkillPlan(args: {
   };
 }
 
-export const mythicCombatTick: FunctionHandler = {
-  name: "mythic-combat-tick",
-  auth: "required",
-  async handle(req: Request, ctx: FunctionContext): Promise<Response> {
-    const requestId = ctx.requestId;
-    const baseHeaders = { "Content-Type": "application/json", "x-request-id": requestId };
+type CombatAdvanceArgs = {
+  svc: ReturnType<typeof createServiceClient>;
+  campaignId: string;
+  combatSessionId: string;
+  maxSteps: number;
+  /** The caller; their own live turn stops the loop. Null when the turn sweeper drives the session. */
+  userId: string | null;
+  /** Turn index the sweeper claimed as expired; that player turn is taken with the campaign's AFK action. */
+  stalledTurnIndex?: number | null;
+  requestId: string;
+  log: FunctionLogger;
+};
 
-    const rateLimited = enforceRateLimit({
-      req,
-      route: "mythic-combat-tick",
-      limit: 80,
-      windowMs: 60_000,
-      corsHeaders: {},
-      requestId,
-    });
-    if (rateLimited) return rateLimited;
+export type CombatAdvanceResult = {
+  ticks: number;
+  ended: boolean;
+  requiresPlayerAction: boolean;
+  waitingOnPlayer: boolean;
+  autoResolvedTurns: number;
+  currentTurnIndex: number;
+  nextActorCombatantId: string | null;
+};
 
-    try {
-      const user = await requireUser(req.headers);
+/**
+ * Runs NPC and companion turns until a live player turn, the end of combat or `maxSteps`. Player turns
+ * whose deadline has passed are taken for the player with the campaign's AFK action.
+ */
+export async function advanceCombatTurns(args: CombatAdvanceArgs): Promise<CombatAdvanceResult> {
+  const { svc, campaignId, combatSessionId, maxSteps, requestId } = args;
+  const { tunables: houseTunables } = await loadCampaignRules(svc, campaignId);
+
+  const { data: runtimeRow } = await svc
+    .schema("mythic")
+    .from("campaign_runtime")
+    .select("state_json")
+    .eq("campaign_id", campaignId)
+    .eq("status", "active")
+    .order("updated_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  const runtimeState = asRecord((runtimeRow as { state_json?: unknown } | null)?.state_json) ?? {};
+  let arena: CombatArena | null = null;
+  let environmentAccuracy = 0;
+  let blockedSet = new Set<string>();
+  const companionCommandMap = parseCompanionCommandMap(runtimeState);
+
+  let ticks = 0;
+  let ended = false;
+  let requiresPlayerAction = false;
+  let waitingOnPlayer = false;
+  let autoResolvedTurns = 0;
+  let stalledTurnIndex = args.stalledTurnIndex ?? null;
+  let finalTurnIndex = 0;
+  let finalNextActor: string | null = null;
+  // Equipment wear is tallied across every turn this call resolves and written once at the end.
+  const wear = new Map<string, CombatWearTally>();
+  const combatantByCharacter = new Map<string, string>();
+  const turnClockFor = (rows: Array<{ id?: unknown; entity_type?: unknown }>, combatantId: string | null) => combatTurnClock({
+    now: new Date(),
+    entityType: String(rows.find((row) => row.id === combatantId)?.entity_type ?? "") || null,
+    turnSeconds: houseTunables.turnSeconds,
+  });
 
-      const parsed = RequestSchema.safeParse(await req.json().catch(() => null));
-      if (!parsed.success) {
-        return new Response(JSON.stringify({ error: "Invalid request", details: parsed.error.flatten() }), {
-          status: 400,
-          headers: baseHeaders,
-        });
+  while (ticks < maxSteps && !ended) {
+    ticks += 1;
+
+    const { data: session, error: sessionErr } = await svc
+      .schema("mythic")
+      .from("combat_sessions")
+      .select("id, seed, status, current_turn_index, turn_deadline_at, scene_json")
+      .eq("id", combatSessionId)
+      .eq("campaign_id", campaignId)
+      .maybeSingle();
+    if (sessionErr) throw sessionErr;
+    if (!session || (session as any).status !== "active") break;
+    if (!arena) {
+      arena = readCombatArena((session as any).scene_json, runtimeState);
+      blockedSet = arenaBlockedSet(arena);
+      environmentAccuracy = readCombatEnvironment((session as any).scene_json)?.accuracy ?? 0;
+    }
+
+    const turnIndex = Number((session as any).current_turn_index ?? 0);
+    finalTurnIndex = turnIndex;
+    const seed = Number((session as any).seed ?? 0);
+
+    const { data: orderRows, error: orderErr } = await svc
+      .schema("mythic")
+      .from("turn_order")
+      .select("turn_index, combatant_id")
+      .eq("combat_session_id", combatSessionId)
+      .order("turn_index", { ascending: true });
+    if (orderErr) throw orderErr;
+    const order = (orderRows ?? []) as TurnRow[];
+    if (!order.length) throw new Error("Turn order missing");
+    const currentTurn = order.find((r) => r.turn_index === turnIndex);
+    if (!currentTurn) throw new Error("Current turn is invalid");
+
+    const { data: actor, error: actorErr } = await svc
+      .schema("mythic")
+      .from("combatants")
+      .select("*")
+      .eq("id", currentTurn.combatant_id)
+      .eq("combat_session_id", combatSessionId)
+      .maybeSingle<Combatant>();
+    if (actorErr) throw actorErr;
+    if (!actor) throw new Error("Turn actor not found");
+
+    const actorAlive = Boolean(actor.is_alive) && Number(actor.hp ?? 0) > 0;
+    if (!actorAlive) {
+      if (Number(actor.hp ?? 0) <= 0 && actor.is_alive) {
+        await svc
+          .schema("mythic")
+          .from("combatants")
+          .update({ is_alive: false, updated_at: new Date().toISOString() })
+          .eq("id", actor.id)
+          .eq("combat_session_id", combatSessionId);
       }
+      const { data: aliveRows, error: aliveErr } = await svc
+        .schema("mythic")
+        .from("combatants")
+        .select("id, entity_type, is_alive, hp")
+        .eq("combat_session_id", combatSessionId);
+      if (aliveErr) throw aliveErr;
+      const aliveSet = new Set(
+        (aliveRows ?? [])
+          .filter((r: any) => r.is_alive && Number(r.hp ?? 0) > 0)
+          .map((r: any) => r.id),
+      );
+      const nextIndex = nextAliveTurnIndex(order, aliveSet, turnIndex);
+      const nextActor = order[nextIndex]?.combatant_id ?? null;
+      finalNextActor = nextActor;
+      await svc.schema("mythic").from("combat_sessions").update({
+        current_turn_index: nextIndex,
+        ...turnClockFor(aliveRows ?? [], nextActor),
+        updated_at: new Date().toISOString(),
+      }).eq("id", combatSessionId).eq("current_turn_index", turnIndex);
+      continue;
+    }
 
-      const { campaignId, combatSessionId, maxSteps } = parsed.data;
-      const svc = createServiceClient();
+    // A player's turn waits for them until its deadline; after that it is taken for them.
+    let afkTurn = false;
+    if ((actor as any).entity_type === "player") {
+      const expired = turnIndex === stalledTurnIndex || isCombatTurnExpired((session as any).turn_deadline_at, Date.now());
+      if (!expired) {
+        if ((actor as any).player_id === args.userId) requiresPlayerAction = true;
+        else waitingOnPlayer = true;
+        finalNextActor = (actor as any).id;
+        break;
+      }
+      afkTurn = true;
+      stalledTurnIndex = null;
+    }
 
-      const idempotencyHeader = idempotencyKeyFromRequest(req);
-      const idempotencyKey = idempotencyHeader ? `${user.userId}:${idempotencyHeader}` : null;
-      if (idempotencyKey) {
-        const cached = getIdempotentResponse(idempotencyKey);
-        if (cached) {
-          ctx.log.info("combat_tick.idempotent_hit", {
-            request_id: requestId,
-            campaign_id: campaignId,
-            combat_session_id: combatSessionId,
-            rule_version: RULE_VERSION,
-          });
-          return cached;
-        }
+    // The sweeper and client ticks can both reach the same turn; only the one that wins its deadline resolves it,
+    // and the loser stops here without touching the board.
+    const claimed = await claimCombatTurn(svc, {
+      id: combatSessionId,
+      current_turn_index: turnIndex,
+      turn_deadline_at: (session as any).turn_deadline_at ?? null,
+    }, new Date(Date.now() + COMBAT_TURN_SWEEP_LEASE_MS));
+    if (!claimed) {
+      ticks -= 1;
+      break;
+    }
+
+    await svc.rpc("mythic_resolve_status_tick", {
+      combat_session_id: combatSessionId,
+      combatant_id: (actor as any).id,
+      turn_index: turnIndex,
+      phase: "start",
+    });
+
+    const { data: actorAfterTickRow, error: actorAfterTickErr } = await svc
+      .schema("mythic")
+      .from("combatants")
+      .select("*")
+      .eq("id", (actor as any).id)
+      .eq("combat_session_id", combatSessionId)
+      .maybeSingle<Combatant>();
+    if (actorAfterTickErr) throw actorAfterTickErr;
+    if (!actorAfterTickRow) {
+      continue;
+    }
+    let actorAfterTick = actorAfterTickRow;
+    const actorAfterTickAlive = Boolean(actorAfterTick.is_alive) && Number(actorAfterTick.hp ?? 0) > 0;
+    if (!actorAfterTickAlive) {
+      if (Number(actorAfterTick.hp ?? 0) <= 0 && actorAfterTick.is_alive) {
+        await svc
+          .schema("mythic")
+          .from("combatants")
+          .update({ is_alive: false, updated_at: new Date().toISOString() })
+          .eq("id", actorAfterTick.id)
+          .eq("combat_session_id", combatSessionId);
       }
+      const { data: aliveRows, error: aliveErr } = await svc
+        .schema("mythic")
+        .from("combatants")
+        .select("id, entity_type, is_alive, hp")
+        .eq("combat_session_id", combatSessionId);
+      if (aliveErr) throw aliveErr;
+      const aliveSet = new Set(
+        (aliveRows ?? [])
+          .filter((r: any) => r.is_alive && Number(r.hp ?? 0) > 0)
+          .map((r: any) => r.id),
+      );
+      const nextIndex = nextAliveTurnIndex(order, aliveSet, turnIndex);
+      const nextActor = order[nextIndex]?.combatant_id ?? null;
+      finalNextActor = nextActor;
+      await svc.schema("mythic").from("combat_sessions").update({
+        current_turn_index: nextIndex,
+        ...turnClockFor(aliveRows ?? [], nextActor),
+        updated_at: new Date().toISOString(),
+      }).eq("id", combatSessionId).eq("current_turn_index", turnIndex);
+      continue;
+    }
 
-      await assertCampaignAccess(svc, campaignId, user.userId);
+    const { data: livingRows, error: livingErr } = await svc
+      .schema("mythic")
+      .from("combatants")
+      .select("*")
+      .eq("combat_session_id", combatSessionId)
+      .eq("is_alive", true);
+    if (livingErr) throw livingErr;
+    const living = ((livingRows ?? []) as Combatant[]).filter((entry) => Number(entry.hp ?? 0) > 0);
+    const combatantNames = new Map<string, string>();
+    living.forEach((entry) => {
+      const id = String(entry.id ?? "").trim();
+      const name = String(entry.name ?? "").trim();
+      if (!id || !name) return;
+      combatantNames.set(id, name);
+    });
+    const opponents = living.filter((entry) => !sameTeam(actorAfterTick as Combatant, entry));
+    if (!opponents.length) {
+      ended = true;
+      break;
+    }
 
-      const { data: runtimeRow } = await svc
+    const isCompanionTurn = (actorAfterTick as any).entity_type === "summon" && isAllyTeamMember(actorAfterTick);
+    const companionId = isCompanionTurn ? companionIdFromStatuses((actorAfterTick as any).statuses) : null;
+    const companionCommand = companionId ? companionCommandMap.get(companionId) ?? null : null;
+    const nemesisPlan = isCompanionTurn || afkTurn ? null : nemesisFromStatuses((actorAfterTick as any).statuses);
+    const usesNemesisPlan = Boolean(nemesisPlan && nemesisPlan.counterSkills.length > 0);
+    const { data: bossRow } = isCompanionTurn || afkTurn || usesNemesisPlan
+      ? { data: null }
+      : await svc
         .schema("mythic")
-        .from("campaign_runtime")
-        .select("state_json")
-        .eq("campaign_id", campaignId)
-        .eq("status", "active")
-        .order("updated_at", { ascending: false })
-        .limit(1)
+        .from("boss_instances")
+        .select("id,current_phase,enrage_turn,boss_templates(phases_json,behavior_profile)")
+        .eq("combat_session_id", combatSessionId)
+        .eq("combatant_id", (actorAfterTick as any).id)
         .maybeSingle();
-      const runtimeState = asRecord((runtimeRow as { state_json?: unknown } | null)?.state_json) ?? {};
-      const blockedTiles = Array.isArray(runtimeState.blocked_tiles)
-        ? runtimeState.blocked_tiles
-          .map((entry) => asRecord(entry))
-          .filter((entry): entry is Record<string, unknown> => Boolean(entry))
-          .map((entry) => ({ x: Math.floor(Number(entry.x ?? -1)), y: Math.floor(Number(entry.y ?? -1)) }))
-          .filter((entry) => Number.isFinite(entry.x) && Number.isFinite(entry.y) && entry.x >= 0 && entry.y >= 0)
-        : [];
-      const blockedSet = toBlockedSet(blockedTiles);
-      const companionCommandMap = parseCompanionCommandMap(runtimeState);
 
-      let ticks = 0;
-      let ended = false;
-      let requiresPlayerAction = false;
-      let finalTurnIndex = 0;
-      let finalNextActor: string | null = null;
+    // Companions and nemeses keep their own plans; every other unit reads its behaviour profile.
+    const teammates = living.filter((entry) => entry.id !== (actorAfterTick as any).id && sameTeam(actorAfterTick as Combatant, entry));
+    const storedBehavior = isCompanionTurn || afkTurn || usesNemesisPlan ? null : behaviorFromStatuses((actorAfterTick as any).statuses);
+    const behaviorProfile = storedBehavior?.profile
+      ?? (bossRow ? parseBehaviorProfile((bossRow as any).boss_templates?.behavior_profile) : null);
+    const behavior = activeBehavior(behaviorProfile ?? BEHAVIOR_PROFILES[DEFAULT_BEHAVIOR_PROFILE_ID]!, {
+      hpPct: hpPercentOf(actorAfterTick),
+      turnIndex,
+      alliesLeft: teammates.length,
+    });
+    const tuning = behavior.tuning;
+    const ward = tuning.guard ? pickBehaviorWard(teammates, tuning.guard) : null;
+    if (behaviorProfile && behavior.phaseId !== (storedBehavior?.phaseId ?? null)) {
+      const behaviorStatuses = [
+        ...(Array.isArray((actorAfterTick as any).statuses) ? (actorAfterTick as any).statuses : [])
+          .filter((entry: any) => entry?.id !== BEHAVIOR_STATUS_ID),
+        behaviorStatusEntry(behaviorProfile, behavior.phaseId),
+      ];
+      const { error: behaviorErr } = await svc
+        .schema("mythic")
+        .from("combatants")
+        .update({ statuses: behaviorStatuses, updated_at: new Date().toISOString() })
+        .eq("id", (actorAfterTick as any).id)
+        .eq("combat_session_id", combatSessionId);
+      if (behaviorErr) throw behaviorErr;
+      actorAfterTick = { ...(actorAfterTick as any), statuses: behaviorStatuses };
+      if (behavior.phaseId) {
+        await appendEvent(svc, combatSessionId, turnIndex, (actorAfterTick as any).id, "phase_shift", {
+          combatant_id: (actorAfterTick as any).id,
+          phase: behavior.phaseId,
+          behavior_profile: behaviorProfile.id,
+          hp_pct: hpPercentOf(actorAfterTick),
+        }, combatantNames);
+      }
+    }
 
-      while (ticks < maxSteps && !ended) {
-        ticks += 1;
+    const primaryTarget = pickBehaviorTarget({
+      actor: actorAfterTick as Combatant,
+      opponents,
+      tuning,
+      ward,
+      seed,
+      label: `tick:${turnIndex}`,
+    });
+    const targetHpPct = hpPercentOf(primaryTarget);
+
+    let skillName = "Savage Swipe";
+    let skillKey = "npc_swipe";
+    let targets: Combatant[] = [primaryTarget];
+    let nemesisSkill: NemesisCounterSkill | null = null;
+    let itemPlan: { stack: ConsumableStack; targets: Combatant[] } | null = null;
+
+    if (afkTurn) {
+      await appendEvent(svc, combatSessionId, turnIndex, (actorAfterTick as any).id, "turn_timeout", {
+        actor_combatant_id: (actorAfterTick as any).id,
+        afk_action: houseTunables.afkAction,
+        deadline_at: (session as any).turn_deadline_at ?? null,
+      }, combatantNames);
+      autoResolvedTurns += 1;
+    }
 
-        const { data: session, error: sessionErr } = await svc
-          .schema("mythic")
-          .from("combat_sessions")
-          .select("id, seed, status, current_turn_index")
-          .eq("id", combatSessionId)
-          .eq("campaign_id", campaignId)
-          .maybeSingle();
-        if (sessionErr) throw sessionErr;
-        if (!session || (session as any).status !== "active") break;
-
-        const turnIndex = Number((session as any).current_turn_index ?? 0);
-        finalTurnIndex = turnIndex;
-        const seed = Number((session as any).seed ?? 0);
-
-        const { data: orderRows, error: orderErr } = await svc
-          .schema("mythic")
-          .from("turn_order")
-          .select("turn_index, combatant_id")
-          .eq("combat_session_id", combatSessionId)
-          .order("turn_index", { ascending: true });
-        if (orderErr) throw orderErr;
-        const order = (orderRows ?? []) as TurnRow[];
-        if (!order.length) throw new Error("Turn order missing");
-        const currentTurn = order.find((r) => r.turn_index === turnIndex);
-        if (!currentTurn) throw new Error("Current turn is invalid");
-
-        const { data: actor, error: actorErr } = await svc
-          .schema("mythic")
-          .from("combatants")
-          .select("*")
-          .eq("id", currentTurn.combatant_id)
-          .eq("combat_session_id", combatSessionId)
-          .maybeSingle<Combatant>();
-        if (actorErr) throw actorErr;
-        if (!actor) throw new Error("Turn actor not found");
-
-        const actorAlive = Boolean(actor.is_alive) && Number(actor.hp ?? 0) > 0;
-        if (!actorAlive) {
-          if (Number(actor.hp ?? 0) <= 0 && actor.is_alive) {
-            await svc
-              .schema("mythic")
-              .from("combatants")
-              .update({ is_alive: false, updated_at: new Date().toISOString() })
-              .eq("id", actor.id)
-              .eq("combat_session_id", combatSessionId);
-          }
-          const { data: aliveRows, error: aliveErr } = await svc
-            .schema("mythic")
-            .from("combatants")
-            .select("id, is_alive, hp")
-            .eq("combat_session_id", combatSessionId);
-          if (aliveErr) throw aliveErr;
-          const aliveSet = new Set(
-            (aliveRows ?? [])
-              .filter((r: any) => r.is_alive && Number(r.hp ?? 0) > 0)
-              .map((r: any) => r.id),
-          );
-          const nextIndex = nextAliveTurnIndex(order, aliveSet, turnIndex);
-          const nextActor = order[nextIndex]?.combatant_id ?? null;
-          finalNextActor = nextActor;
-          await svc.schema("mythic").from("combat_sessions").update({
-            current_turn_index: nextIndex,
-            updated_at: new Date().toISOString(),
-          }).eq("id", combatSessionId);
-          continue;
+    if (isCompanionTurn || (afkTurn && houseTunables.afkAction === "companion")) {
+      const plan = companionSkillPlan({
+        actor: actorAfterTick,
+        primaryTarget,
+        opponents,
+        command: companionCommand,
+      });
+      skillKey = plan.skillKey;
+      skillName = plan.skillName;
+      targets = plan.targets;
+      // Companions draw on their player's backpack; the stance decides when an item beats the plan above.
+      const pouchOwnerId = (actorAfterTick as any).character_id
+        ?? living.find((entry) => entry.entity_type === "player" && entry.player_id === (actorAfterTick as any).player_id)?.character_id
+        ?? null;
+      const pouch = pouchOwnerId ? await loadConsumablePouch(svc, pouchOwnerId) : [];
+      itemPlan = pouch.length > 0
+        ? companionConsumablePlan({
+          stance: companionCommand?.stance ?? "balanced",
+          actor: actorAfterTick as Combatant,
+          allies: teammates,
+          opponents,
+          pouch,
+        })
+        : null;
+      if (itemPlan) {
+        skillKey = "use_item";
+        skillName = itemPlan.stack.name;
+        targets = itemPlan.targets;
+      }
+    } else if (afkTurn) {
+      skillKey = "basic_defend";
+      skillName = "Defend";
+      targets = [actorAfterTick as Combatant];
+    } else if (nemesisPlan && usesNemesisPlan) {
+      nemesisSkill = rngPick(seed, `tick:${turnIndex}:nemesis`, nemesisPlan.counterSkills);
+      skillKey = nemesisSkill.id;
+      skillName = nemesisSkill.name;
+      targets = [pickNemesisTarget({ opponents, primaryTarget, prefer: nemesisPlan.preferTargets })];
+    } else if (bossRow) {
+      const phases = Array.isArray((bossRow as any)?.boss_templates?.phases_json)
+        ? ((bossRow as any).boss_templates.phases_json as Array<Record<string, unknown>>)
+        : [];
+      const hpPct = (actorAfterTick as any).hp_max > 0 ? Number((actorAfterTick as any).hp) / Number((actorAfterTick as any).hp_max) : 1;
+      let nextPhase = Number((bossRow as any).current_phase ?? 1);
+      for (const phaseRow of phases) {
+        const p = Number(phaseRow.phase ?? 1);
+        const threshold = Number(phaseRow.hp_below_pct ?? 1);
+        if (Number.isFinite(p) && Number.isFinite(threshold) && hpPct <= threshold) {
+          nextPhase = Math.max(nextPhase, p);
         }
+      }
+      if (nextPhase !== Number((bossRow as any).current_phase ?? 1)) {
+        await svc.schema("mythic").from("boss_instances").update({
+          current_phase: nextPhase,
+          updated_at: new Date().toISOString(),
+        }).eq("id", (bossRow as any).id);
+        await appendEvent(svc, combatSessionId, turnIndex, (actorAfterTick as any).id, "phase_shift", {
+          combatant_id: (actorAfterTick as any).id,
+          phase: nextPhase,
+          hp_pct: hpPct,
+        }, combatantNames);
+      }
 
-        if ((actor as any).entity_type === "player" && (actor as any).player_id === user.userId) {
-          requiresPlayerAction = true;
-          finalNextActor = (actor as any).id;
-          break;
-        }
+      const phaseRow = phases.find((row) => Number(row.phase ?? 1) === nextPhase) ?? phases[0] ?? {};
+      const pool = Array.isArray((phaseRow as any).skill_pool) ? (phaseRow as any).skill_pool.map((x: unknown) => String(x)) : [];
+      skillKey = pickBehaviorSkill(seed, `tick:${turnIndex}:boss`, pool, tuning.skill_weights);
+      skillName = skillKey.replaceAll("_", " ");
 
-        await svc.rpc("mythic_resolve_status_tick", {
-          combat_session_id: combatSessionId,
-          combatant_id: (actor as any).id,
-          turn_index: turnIndex,
-          phase: "start",
-        });
+      if (skillKey === "boss_cleave") {
+        targets = opponents;
+      }
+    }
 
-        const { data: actorAfterTickRow, error: actorAfterTickErr } = await svc
+    // Low-HP units whose profile says so fall back and brace instead of attacking.
+    const retreating = !isCompanionTurn && !afkTurn && !usesNemesisPlan && shouldRetreat(tuning, hpPercentOf(actorAfterTick));
+    if (retreating) {
+      skillKey = "basic_defend";
+      skillName = "Defend";
+      targets = [actorAfterTick as Combatant];
+    }
+
+    const movementTarget = targets[0] ?? primaryTarget;
+    if (
+      retreating
+      || (movementTarget
+        && skillKey !== "basic_defend"
+        && skillKey !== "basic_recover_mp"
+        && skillKey !== "use_item")
+    ) {
+      const rangeTiles = nemesisSkill
+        ? nemesisSkill.range_tiles
+        : tuning.reach ?? attackRangeFor(actorAfterTick as Combatant, skillKey);
+      const minRange = tuning.kite_range === null ? 0 : Math.min(rangeTiles, tuning.kite_range);
+      const currentDistance = tileDistance(actorAfterTick as Combatant, movementTarget);
+      const start = { x: Math.floor((actorAfterTick as any).x), y: Math.floor((actorAfterTick as any).y) };
+      const danger = await loadDangerMap({
+        svc,
+        combatSessionId,
+        turnIndex,
+        arena: arena!,
+        actor: actorAfterTick as Combatant,
+        living,
+      });
+      const budget = moveBudget((actorAfterTick as any).mobility);
+      const grid = {
+        width: arena!.width,
+        height: arena!.height,
+        blocked: blockedSet,
+        occupied: occupiedSet(living, (actorAfterTick as any).id),
+        danger,
+      };
+      const tie = { seed, label: `tick:${turnIndex}:path:${(actorAfterTick as any).id}` };
+      const leash = ward && tuning.guard
+        ? { anchor: { x: Math.floor(ward.x), y: Math.floor(ward.y) }, radius: tuning.guard.radius }
+        : null;
+      let moved: ApproachPlan | null = null;
+      if (retreating) {
+        moved = planRetreat({
+          grid,
+          start,
+          threats: opponents.map((entry) => ({ x: Math.floor(entry.x), y: Math.floor(entry.y) })),
+          budget,
+          tie,
+        });
+      } else if (leash && manhattan(start, leash.anchor) > leash.radius) {
+        moved = planApproach({ grid, start, target: leash.anchor, range: leash.radius, budget, teammates: [], tie });
+      } else if (
+        (currentDistance > rangeTiles && (tuning.movement !== "hold" || leash))
+        || currentDistance < minRange
+        || danger.has(`${start.x},${start.y}`)
+      ) {
+        moved = planApproach({
+          grid,
+          start,
+          target: { x: Math.floor((movementTarget as any).x), y: Math.floor((movementTarget as any).y) },
+          range: rangeTiles,
+          minRange,
+          budget,
+          teammates: tuning.movement === "flank"
+            ? teammates.map((entry) => ({ x: Math.floor(entry.x), y: Math.floor(entry.y) }))
+            : [],
+          leash,
+          tie,
+        });
+      }
+      if (moved && moved.steps > 0) {
+        const from = { x: Math.floor((actorAfterTick as any).x), y: Math.floor((actorAfterTick as any).y) };
+        const hazard = arenaHazardAt(arena!, moved.to);
+        const hazardStatus = hazard ? arenaHazardStatus(hazard, turnIndex) : null;
+        const movedStatuses = hazardStatus
+          ? [
+              ...(Array.isArray((actorAfterTick as any).statuses) ? (actorAfterTick as any).statuses : [])
+                .filter((entry: any) => entry?.id !== hazardStatus.id),
+              hazardStatus,
+            ]
+          : (actorAfterTick as any).statuses;
+        const { error: moveUpdateErr } = await svc
           .schema("mythic")
           .from("combatants")
-          .select("*")
-          .eq("id", (actor as any).id)
-          .eq("combat_session_id", combatSessionId)
-          .maybeSingle<Combatant>();
-        if (actorAfterTickErr) throw actorAfterTickErr;
-        if (!actorAfterTickRow) {
-          continue;
+          .update({
+            x: moved.to.x,
+            y: moved.to.y,
+            statuses: movedStatuses,
+            updated_at: new Date().toISOString(),
+          })
+          .eq("id", (actorAfterTick as any).id)
+          .eq("combat_session_id", combatSessionId);
+        if (moveUpdateErr) throw moveUpdateErr;
+        actorAfterTick = {
+          ...(actorAfterTick as any),
+          x: moved.to.x,
+          y: moved.to.y,
+          statuses: movedStatuses,
+        };
+        await appendEvent(svc, combatSessionId, turnIndex, (actorAfterTick as any).id, "moved", {
+          target_combatant_id: (actorAfterTick as any).id,
+          from,
+          to: moved.to,
+          dash_tiles: budget,
+          tiles_used: moved.steps,
+          path: moved.path,
+          flanking: moved.flanking,
+          retreat: retreating,
+          ai_move: true,
+        }, combatantNames);
+        if (hazard && hazardStatus) {
+          await appendEvent(svc, combatSessionId, turnIndex, (actorAfterTick as any).id, "status_applied", {
+            target_combatant_id: (actorAfterTick as any).id,
+            status: { id: hazardStatus.id, duration_turns: ARENA_HAZARD_STATUS_TURNS, damage_per_turn: hazard.damage },
+            hazard: hazard.kind,
+          }, combatantNames);
         }
-        let actorAfterTick = actorAfterTickRow;
-        const actorAfterTickAlive = Boolean(actorAfterTick.is_alive) && Number(actorAfterTick.hp ?? 0) > 0;
-        if (!actorAfterTickAlive) {
-          if (Number(actorAfterTick.hp ?? 0) <= 0 && actorAfterTick.is_alive) {
-            await svc
-              .schema("mythic")
-              .from("combatants")
-              .update({ is_alive: false, updated_at: new Date().toISOString() })
-              .eq("id", actorAfterTick.id)
-              .eq("combat_session_id", combatSessionId);
+      }
+      const afterMoveDistance = tileDistance(actorAfterTick as Combatant, movementTarget);
+      if (!retreating && afterMoveDistance > rangeTiles) {
+        if (isCompanionTurn || afkTurn) {
+          const fallback = companionSkillPlan({
+            actor: actorAfterTick as Combatant,
+            primaryTarget,
+            opponents,
+            command: companionCommand,
+          });
+          if (fallback.skillKey === "basic_attack") {
+            skillKey = "basic_defend";
+            skillName = "Defend";
+            targets = [actorAfterTick as Combatant];
+          } else {
+            skillKey = fallback.skillKey;
+            skillName = fallback.skillName;
+            targets = fallback.targets;
           }
-          const { data: aliveRows, error: aliveErr } = await svc
-            .schema("mythic")
-            .from("combatants")
-            .select("id, is_alive, hp")
-            .eq("combat_session_id", combatSessionId);
-          if (aliveErr) throw aliveErr;
-          const aliveSet = new Set(
-            (aliveRows ?? [])
-              .filter((r: any) => r.is_alive && Number(r.hp ?? 0) > 0)
-              .map((r: any) => r.id),
-          );
-          const nextIndex = nextAliveTurnIndex(order, aliveSet, turnIndex);
-          const nextActor = order[nextIndex]?.combatant_id ?? null;
-          finalNextActor = nextActor;
-          await svc.schema("mythic").from("combat_sessions").update({
-            current_turn_index: nextIndex,
-            updated_at: new Date().toISOString(),
-          }).eq("id", combatSessionId);
-          continue;
+        } else {
+          skillKey = "basic_defend";
+          skillName = "Defend";
+          targets = [actorAfterTick as Combatant];
         }
+      }
+    }
 
-        const { data: livingRows, error: livingErr } = await svc
+    await appendEvent(svc, combatSessionId, turnIndex, (actorAfterTick as any).id, "skill_used", {
+      skill_id: skillKey,
+      skill_name: skillName,
+      target_count: targets.length,
+      ...(itemPlan ? { item_id: itemPlan.stack.item_id, item_name: itemPlan.stack.name, consumable: itemPlan.stack.profile.key } : {}),
+    }, combatantNames);
+
+    if (skillKey === "basic_defend") {
+      const armorGain = Math.max(4, Math.floor(Number((actorAfterTick as any).defense) * 0.22) + Math.floor(Number((actorAfterTick as any).support) * 0.12));
+      const nextArmor = Math.max(0, Number((actorAfterTick as any).armor ?? 0) + armorGain);
+      const currentStatuses = Array.isArray((actorAfterTick as any).statuses) ? (actorAfterTick as any).statuses : [];
+      const nextStatuses = currentStatuses.filter((status: any) => {
+        const id = String(status?.id ?? "");
+        return id !== "barrier" && id !== "guard";
+      });
+      nextStatuses.push({
+        id: "barrier",
+        expires_turn: turnIndex + 1,
+        stacks: 1,
+        data: { amount: armorGain, source: skillKey },
+      });
+      nextStatuses.push({
+        id: "guard",
+        expires_turn: turnIndex + 1,
+        stacks: 1,
+        data: { amount: armorGain, source: skillKey },
+      });
+      const { error: updateErr } = await svc
+        .schema("mythic")
+        .from("combatants")
+        .update({
+          armor: nextArmor,
+          statuses: nextStatuses,
+          updated_at: new Date().toISOString(),
+        })
+        .eq("id", (actorAfterTick as any).id)
+        .eq("combat_session_id", combatSessionId);
+      if (updateErr) throw updateErr;
+
+      await appendEvent(svc, combatSessionId, turnIndex, (actorAfterTick as any).id, "status_applied", {
+        target_combatant_id: (actorAfterTick as any).id,
+        status: { id: "barrier", amount: armorGain, duration_turns: 1 },
+      }, combatantNames);
+      await appendEvent(svc, combatSessionId, turnIndex, (actorAfterTick as any).id, "status_applied", {
+        target_combatant_id: (actorAfterTick as any).id,
+        status: { id: "guard", amount: armorGain, duration_turns: 1 },
+      }, combatantNames);
+    } else if (skillKey === "basic_recover_mp") {
+      const recoverAmount = Math.max(6, Math.floor(Number((actorAfterTick as any).utility) * 0.18) + Math.floor(Number((actorAfterTick as any).support) * 0.12));
+      const beforePower = Math.max(0, Number((actorAfterTick as any).power ?? 0));
+      const nextPower = Math.min(Math.max(0, Number((actorAfterTick as any).power_max ?? 0)), beforePower + recoverAmount);
+      const gained = Math.max(0, nextPower - beforePower);
+      const { error: recoverErr } = await svc
+        .schema("mythic")
+        .from("combatants")
+        .update({
+          power: nextPower,
+          updated_at: new Date().toISOString(),
+        })
+        .eq("id", (actorAfterTick as any).id)
+        .eq("combat_session_id", combatSessionId);
+      if (recoverErr) throw recoverErr;
+      await appendEvent(svc, combatSessionId, turnIndex, (actorAfterTick as any).id, "power_gain", {
+        target_combatant_id: (actorAfterTick as any).id,
+        amount: gained,
+        power_after: nextPower,
+      }, combatantNames);
+    } else if (itemPlan) {
+      const outcome = resolveConsumable({
+        profile: itemPlan.stack.profile,
+        user: actorAfterTick as Combatant,
+        targets: itemPlan.targets,
+        item: { id: itemPlan.stack.item_id, name: itemPlan.stack.name },
+      });
+      for (const { combatant_id, ...patch } of outcome.patches) {
+        const { error: patchErr } = await svc
           .schema("mythic")
           .from("combatants")
-          .select("*")
-          .eq("combat_session_id", combatSessionId)
-          .eq("is_alive", true);
-        if (livingErr) throw livingErr;
-        const living = ((livingRows ?? []) as Combatant[]).filter((entry) => Number(entry.hp ?? 0) > 0);
-        const combatantNames = new Map<string, string>();
-        living.forEach((entry) => {
-          const id = String(entry.id ?? "").trim();
-          const name = String(entry.name ?? "").trim();
-          if (!id || !name) return;
-          combatantNames.set(id, name);
+          .update({ ...patch, updated_at: new Date().toISOString() })
+          .eq("id", combatant_id)
+          .eq("combat_session_id", combatSessionId);
+        if (patchErr) throw patchErr;
+      }
+      for (const event of outcome.events) {
+        await appendEvent(svc, combatSessionId, turnIndex, (actorAfterTick as any).id, event.event_type, event.payload, combatantNames);
+      }
+      await spendConsumable(svc, itemPlan.stack);
+    } else {
+      const turnDamage: Array<{ event_type: string; payload: Record<string, unknown> }> = [];
+      for (const t of targets) {
+        const damageLabel = `tick:${combatSessionId}:turn:${turnIndex}:actor:${(actorAfterTick as any).id}:target:${(t as any).id}`;
+        const skillMult = nemesisSkill
+          ? nemesisSkill.skill_mult
+          : skillMultFor(skillKey, targetHpPct) * (tuning.skill_mult_scale[skillKey] ?? 1);
+        const rollAudit = (defender: Record<string, unknown>) => buildRollAudit({
+          hitLabel: `${damageLabel}:hit`,
+          damageLabel,
+          skillMult,
+          spreadPct: 0.1,
+          critMultBase: houseTunables.critMultiplier,
+          critChanceMax: houseTunables.critChanceMax,
+          environmentAccuracy,
+          attacker: actorAfterTick as Record<string, unknown>,
+          defender,
         });
-        const opponents = living.filter((entry) => !sameTeam(actorAfterTick as Combatant, entry));
-        if (!opponents.length) {
-          ended = true;
-          break;
-        }
-
-        const primaryTarget = pickPrimaryTarget({
-          actor: actorAfterTick as Combatant,
-          opponents,
+        const hit = resolveDeterministicHit({
           seed,
-          label: `tick:${turnIndex}`,
+          label: `${damageLabel}:hit`,
+          attacker: {
+            offense: (actorAfterTick as any).offense,
+            defense: (actorAfterTick as any).defense,
+            mobility: (actorAfterTick as any).mobility,
+            utility: (actorAfterTick as any).utility,
+            statuses: (actorAfterTick as any).statuses,
+          },
+          defender: {
+            offense: (t as any).offense,
+            defense: (t as any).defense,
+            mobility: (t as any).mobility,
+            utility: (t as any).utility,
+            statuses: (t as any).statuses,
+          },
+          environmentAccuracy,
         });
-        const targetHpPct = hpPercentOf(primaryTarget);
-
-        let skillName = "Savage Swipe";
-        let skillKey = "npc_swipe";
-        let targets: Combatant[] = [primaryTarget];
-
-        const isCompanionTurn = (actorAfterTick as any).entity_type === "summon" && isAllyTeamMember(actorAfterTick);
-        const companionId = isCompanionTurn ? companionIdFromStatuses((actorAfterTick as any).statuses) : null;
-        const companionCommand = companionId ? companionCommandMap.get(companionId) ?? null : null;
-        if (isCompanionTurn) {
-          const plan = companionSkillPlan({
-            actor: actorAfterTick,
-            primaryTarget,
-            opponents,
-            command: companionCommand,
-          });
-          skillKey = plan.skillKey;
-          skillName = plan.skillName;
-          targets = plan.targets;
-        } else {
-          const { data: bossRow } = await svc
-            .schema("mythic")
-            .from("boss_instances")
-            .select("id,current_phase,enrage_turn,boss_templates(phases_json)")
-            .eq("combat_session_id", combatSessionId)
-            .eq("combatant_id", (actorAfterTick as any).id)
-            .maybeSingle();
-
-          if (bossRow) {
-            const phases = Array.isArray((bossRow as any)?.boss_templates?.phases_json)
-              ? ((bossRow as any).boss_templates.phases_json as Array<Record<string, unknown>>)
-              : [];
-            const hpPct = (actorAfterTick as any).hp_max > 0 ? Number((actorAfterTick as any).hp) / Number((actorAfterTick as any).hp_max) : 1;
-            let nextPhase = Number((bossRow as any).current_phase ?? 1);
-            for (const phaseRow of phases) {
-              const p = Number(phaseRow.phase ?? 1);
-              const threshold = Number(phaseRow.hp_below_pct ?? 1);
-              if (Number.isFinite(p) && Number.isFinite(threshold) && hpPct <= threshold) {
-                nextPhase = Math.max(nextPhase, p);
-              }
-            }
-            if (nextPhase !== Number((bossRow as any).current_phase ?? 1)) {
-              await svc.schema("mythic").from("boss_instances").update({
-                current_phase: nextPhase,
-                updated_at: new Date().toISOString(),
-              }).eq("id", (bossRow as any).id);
-              await appendEvent(svc, combatSessionId, turnIndex, (actorAfterTick as any).id, "phase_shift", {
-                combatant_id: (actorAfterTick as any).id,
-                phase: nextPhase,
-                hp_pct: hpPct,
-              }, combatantNames);
-            }
-
-            const phaseRow = phases.find((row) => Number(row.phase ?? 1) === nextPhase) ?? phases[0] ?? {};
-            const pool = Array.isArray((phaseRow as any).skill_pool) ? (phaseRow as any).skill_pool.map((x: unknown) => String(x)) : [];
-            skillKey = pickBossSkill(seed, `tick:${turnIndex}:boss`, pool);
-            skillName = skillKey.replaceAll("_", " ");
-
-            if (skillKey === "boss_cleave") {
-              targets = opponents;
-            }
-          }
+        if (!hit.hit) {
+          await appendEvent(svc, combatSessionId, turnIndex, (actorAfterTick as any).id, "miss", {
+            source_combatant_id: (actorAfterTick as any).id,
+            target_combatant_id: (t as any).id,
+            skill_id: skillKey,
+            roll_d20: hit.rollD20,
+            required_roll: hit.requiredRoll,
+            hit_chance: hit.hitChance,
+            reason: hit.reason,
+            audit: rollAudit(t as Record<string, unknown>),
+          }, combatantNames);
+          continue;
         }
 
-        const movementTarget = targets[0] ?? primaryTarget;
-        if (
-          movementTarget
-          && skillKey !== "basic_defend"
-          && skillKey !== "basic_recover_mp"
-        ) {
-          const rangeTiles = attackRangeFor(actorAfterTick as Combatant, skillKey);
-          const currentDistance = tileDistance(actorAfterTick as Combatant, movementTarget);
-          if (currentDistance > rangeTiles) {
-            const budget = moveBudget((actorAfterTick as any).mobility);
-            const moved = moveToward({
-              start: { x: Math.floor((actorAfterTick as any).x), y: Math.floor((actorAfterTick as any).y) },
-              target: { x: Math.floor((movementTarget as any).x), y: Math.floor((movementTarget as any).y) },
-              maxSteps: budget,
-              blocked: blockedSet,
-              occupied: occupiedSet(living, (actorAfterTick as any).id),
-            });
-            if (moved.steps > 0) {
-              const from = { x: Math.floor((actorAfterTick as any).x), y: Math.floor((actorAfterTick as any).y) };
-              const { error: moveUpdateErr } = await svc
-                .schema("mythic")
-                .from("combatants")
-                .update({
-                  x: moved.to.x,
-                  y: moved.to.y,
-                  updated_at: new Date().toISOString(),
-                })
-                .eq("id", (actorAfterTick as any).id)
-                .eq("combat_session_id", combatSessionId);
-              if (moveUpdateErr) throw moveUpdateErr;
-              actorAfterTick = {
-                ...(actorAfterTick as any),
-                x: moved.to.x,
-                y: moved.to.y,
-              };
-              await appendEvent(svc, combatSessionId, turnIndex, (actorAfterTick as any).id, "moved", {
-                target_combatant_id: (actorAfterTick as any).id,
-                from,
-                to: moved.to,
-                dash_tiles: budget,
-                tiles_used: moved.steps,
-                ai_move: true,
-              }, combatantNames);
-            }
-          }
-          const afterMoveDistance = tileDistance(actorAfterTick as Combatant, movementTarget);
-          if (afterMoveDistance > rangeTiles) {
-            if (isCompanionTurn) {
-              const fallback = companionSkillPlan({
-                actor: actorAfterTick as Combatant,
-                primaryTarget,
-                opponents,
-                command: companionCommand,
-              });
-              if (fallback.skillKey === "basic_attack") {
-                skillKey = "basic_defend";
-                skillName = "Defend";
-                targets = [actorAfterTick as Combatant];
-              } else {
-                skillKey = fallback.skillKey;
-                skillName = fallback.skillName;
-                targets = fallback.targets;
-              }
-            } else {
-              skillKey = "basic_defend";
-              skillName = "Defend";
-              targets = [actorAfterTick as Combatant];
-            }
-          }
+        const { data: dmgJson, error: dmgErr } = await svc.rpc("mythic_compute_damage", {
+          seed,
+          label: damageLabel,
+          lvl: (actorAfterTick as any).lvl,
+          offense: (actorAfterTick as any).offense,
+          mobility: (actorAfterTick as any).mobility,
+          utility: (actorAfterTick as any).utility,
+          weapon_power: (actorAfterTick as any).weapon_power ?? 0,
+          skill_mult: skillMult,
+          resist: Number((t as any).resist ?? 0),
+          spread_pct: 0.1,
+          crit_mult_base: houseTunables.critMultiplier,
+          crit_chance_max: houseTunables.critChanceMax,
+        });
+        if (dmgErr) throw dmgErr;
+        const roll = (dmgJson ?? {}) as Record<string, unknown>;
+        const rawDamage = Math.max(0, Math.floor(Number((roll as any).final_damage ?? 0)));
+        const armorBefore = Math.max(0, Math.floor(Number((t as any).armor ?? 0)));
+        const armorBroken = nemesisSkill?.effect === "armor_break" && armorBefore > 0;
+        const shield = armorBroken ? 0 : armorBefore;
+        const absorbed = Math.min(shield, rawDamage);
+        const hpDelta = Math.max(0, rawDamage - absorbed);
+        const nextArmor = Math.max(0, shield - absorbed);
+        const currentHp = Math.max(0, Math.floor(Number((t as any).hp ?? 0)));
+        const nextHp = Math.max(0, currentHp - hpDelta);
+        const died = nextHp <= 0;
+
+        const { error: updateTargetErr } = await svc
+          .schema("mythic")
+          .from("combatants")
+          .update({
+            armor: nextArmor,
+            hp: nextHp,
+            is_alive: nextHp > 0,
+            updated_at: new Date().toISOString(),
+          })
+          .eq("id", (t as any).id)
+          .eq("combat_session_id", combatSessionId);
+        if (updateTargetErr) throw updateTargetErr;
+
+        if (armorBroken) {
+          await appendEvent(svc, combatSessionId, turnIndex, (actorAfterTick as any).id, "armor_shred", {
+            source_combatant_id: (actorAfterTick as any).id,
+            target_combatant_id: (t as any).id,
+            amount: armorBefore,
+            armor_after: 0,
+          }, combatantNames);
         }
 
-        await appendEvent(svc, combatSessionId, turnIndex, (actorAfterTick as any).id, "skill_used", {
-          skill_id: skillKey,
-          skill_name: skillName,
-          target_count: targets.length,
+        turnDamage.push({
+          event_type: "damage",
+          payload: { source_combatant_id: (actorAfterTick as any).id, target_combatant_id: (t as any).id, shield_absorbed: absorbed, damage_to_hp: hpDelta },
+        });
+        await appendEvent(svc, combatSessionId, turnIndex, (actorAfterTick as any).id, "damage", {
+          source_combatant_id: (actorAfterTick as any).id,
+          target_combatant_id: (t as any).id,
+          roll,
+          shield_absorbed: absorbed,
+          damage_to_hp: hpDelta,
+          hp_after: nextHp,
+          armor_after: nextArmor,
+          audit: rollAudit({ ...(t as Record<string, unknown>), armor: shield }),
         }, combatantNames);
 
-        if (skillKey === "basic_defend") {
-          const armorGain = Math.max(4, Math.floor(Number((actorAfterTick as any).defense) * 0.22) + Math.floor(Number((actorAfterTick as any).support) * 0.12));
-          const nextArmor = Math.max(0, Number((actorAfterTick as any).armor ?? 0) + armorGain);
-          const currentStatuses = Array.isArray((actorAfterTick as any).statuses) ? (actorAfterTick as any).statuses : [];
-          const nextStatuses = currentStatuses.filter((status: any) => {
-            const id = String(status?.id ?? "");
-            return id !== "barrier" && id !== "guard";
-          });
-          nextStatuses.push({
-            id: "barrier",
-            expires_turn: turnIndex + 1,
-            stacks: 1,
-            data: { amount: armorGain, source: skillKey },
-          });
-          nextStatuses.push({
-            id: "guard",
-            expires_turn: turnIndex + 1,
-            stacks: 1,
-            data: { amount: armorGain, source: skillKey },
-          });
-          const { error: updateErr } = await svc
-            .schema("mythic")
-            .from("combatants")
-            .update({
-              armor: nextArmor,
-              statuses: nextStatuses,
-              updated_at: new Date().toISOString(),
-            })
-            .eq("id", (actorAfterTick as any).id)
-            .eq("combat_session_id", combatSessionId);
-          if (updateErr) throw updateErr;
-
-          await appendEvent(svc, combatSessionId, turnIndex, (actorAfterTick as any).id, "status_applied", {
-            target_combatant_id: (actorAfterTick as any).id,
-            status: { id: "barrier", amount: armorGain, duration_turns: 1 },
-          }, combatantNames);
-          await appendEvent(svc, combatSessionId, turnIndex, (actorAfterTick as any).id, "status_applied", {
-            target_combatant_id: (actorAfterTick as any).id,
-            status: { id: "guard", amount: armorGain, duration_turns: 1 },
-          }, combatantNames);
-        } else if (skillKey === "basic_recover_mp") {
-          const recoverAmount = Math.max(6, Math.floor(Number((actorAfterTick as any).utility) * 0.18) + Math.floor(Number((actorAfterTick as any).support) * 0.12));
-          const beforePower = Math.max(0, Number((actorAfterTick as any).power ?? 0));
-          const nextPower = Math.min(Math.max(0, Number((actorAfterTick as any).power_max ?? 0)), beforePower + recoverAmount);
-          const gained = Math.max(0, nextPower - beforePower);
-          const { error: recoverErr } = await svc
-            .schema("mythic")
-            .from("combatants")
-            .update({
-              power: nextPower,
-              updated_at: new Date().toISOString(),
-            })
-            .eq("id", (actorAfterTick as any).id)
-            .eq("combat_session_id", combatSessionId);
-          if (recoverErr) throw recoverErr;
-          await appendEvent(svc, combatSessionId, turnIndex, (actorAfterTick as any).id, "power_gain", {
-            target_combatant_id: (actorAfterTick as any).id,
-            amount: gained,
-            power_after: nextPower,
-          }, combatantNames);
-        } else {
-          for (const t of targets) {
-            const hit = resolveDeterministicHit({
-              seed,
-              label: `tick:${combatSessionId}:turn:${turnIndex}:actor:${(actorAfterTick as any).id}:target:${(t as any).id}:hit`,
-              attacker: {
-                offense: (actorAfterTick as any).offense,
-                defense: (actorAfterTick as any).defense,
-                mobility: (actorAfterTick as any).mobility,
-                utility: (actorAfterTick as any).utility,
-                statuses: (actorAfterTick as any).statuses,
-              },
-              defender: {
-                offense: (t as any).offense,
-                defense: (t as any).defense,
-                mobility: (t as any).mobility,
-                utility: (t as any).utility,
-                statuses: (t as any).statuses,
-              },
-            });
-            if (!hit.hit) {
-              await appendEvent(svc, combatSessionId, turnIndex, (actorAfterTick as any).id, "miss", {
-                source_combatant_id: (actorAfterTick as any).id,
-                target_combatant_id: (t as any).id,
-                skill_id: skillKey,
-                roll_d20: hit.rollD20,
-                required_roll: hit.requiredRoll,
-                hit_chance: hit.hitChance,
-                reason: hit.reason,
-              }, combatantNames);
-              continue;
-            }
-
-            const { data: dmgJson, error: dmgErr } = await svc.rpc("mythic_compute_damage", {
-              seed,
-              label: `tick:${combatSessionId}:turn:${turnIndex}:actor:${(actorAfterTick as any).id}:target:${(t as any).id}`,
-              lvl: (actorAfterTick as any).lvl,
-              offense: (actorAfterTick as any).offense,
-              mobility: (actorAfterTick as any).mobility,
-              utility: (actorAfterTick as any).utility,
-              weapon_power: (actorAfterTick as any).weapon_power ?? 0,
-              skill_mult: skillMultFor(skillKey, targetHpPct),
-              resist: Number((t as any).resist ?? 0),
-              spread_pct: 0.1,
-            });
-            if (dmgErr) throw dmgErr;
-            const roll = (dmgJson ?? {}) as Record<string, unknown>;
-            const rawDamage = Math.max(0, Math.floor(Number((roll as any).final_damage ?? 0)));
-            const shield = Math.max(0, Math.floor(Number((t as any).armor ?? 0)));
-            const absorbed = Math.min(shield, rawDamage);
-            const hpDelta = Math.max(0, rawDamage - absorbed);
-            const nextArmor = Math.max(0, shield - absorbed);
-            const currentHp = Math.max(0, Math.floor(Number((t as any).hp ?? 0)));
-            const nextHp = Math.max(0, currentHp - hpDelta);
-            const died = nextHp <= 0;
-
-            const { error: updateTargetErr } = await svc
+        if (nemesisSkill?.effect === "drain" && !died) {
+          const powerBefore = Math.max(0, Math.floor(Number((t as any).power ?? 0)));
+          const drained = Math.min(powerBefore, Math.max(4, Math.floor(Number((actorAfterTick as any).control ?? 0) * 0.2)));
+          if (drained > 0) {
+            const { error: drainErr } = await svc
               .schema("mythic")
               .from("combatants")
-              .update({
-                armor: nextArmor,
-                hp: nextHp,
-                is_alive: nextHp > 0,
-                updated_at: new Date().toISOString(),
-              })
+              .update({ power: powerBefore - drained, updated_at: new Date().toISOString() })
               .eq("id", (t as any).id)
               .eq("combat_session_id", combatSessionId);
-            if (updateTargetErr) throw updateTargetErr;
-
-            await appendEvent(svc, combatSessionId, turnIndex, (actorAfterTick as any).id, "damage", {
+            if (drainErr) throw drainErr;
+            await appendEvent(svc, combatSessionId, turnIndex, (actorAfterTick as any).id, "power_drain", {
               source_combatant_id: (actorAfterTick as any).id,
               target_combatant_id: (t as any).id,
-              roll,
-              shield_absorbed: absorbed,
-              damage_to_hp: hpDelta,
-              hp_after: nextHp,
-              armor_after: nextArmor,
+              amount: drained,
+              power_after: powerBefore - drained,
             }, combatantNames);
-
-            if (skillKey === "boss_mark" || skillKey === "boss_vuln") {
-              const { data: targetRow } = await svc
-                .schema("mythic")
-                .from("combatants")
-                .select("statuses")
-                .eq("id", (t as any).id)
-                .eq("combat_session_id", combatSessionId)
-                .maybeSingle();
-              const statusList = Array.isArray((targetRow as any)?.statuses) ? (targetRow as any).statuses : [];
-              const nextStatuses = statusList.filter((s: any) => String(s?.id ?? "") !== "vulnerable");
-              nextStatuses.push({
-                id: "vulnerable",
-                expires_turn: turnIndex + 2,
-                stacks: 1,
-                data: { source: skillKey },
-              });
-              await svc
-                .schema("mythic")
-                .from("combatants")
-                .update({ statuses: nextStatuses, updated_at: new Date().toISOString() })
-                .eq("id", (t as any).id)
-                .eq("combat_session_id", combatSessionId);
-              await appendEvent(svc, combatSessionId, turnIndex, (actorAfterTick as any).id, "status_applied", {
-                target_combatant_id: (t as any).id,
-                status: { id: "vulnerable", duration_turns: 2 },
-              }, combatantNames);
-            }
-
-            if (died) {
-              await appendEvent(svc, combatSessionId, turnIndex, (actorAfterTick as any).id, "death", {
-                target_combatant_id: (t as any).id,
-                by: { combatant_id: (actorAfterTick as any).id, skill_id: skillKey },
-              }, combatantNames);
-            }
           }
         }
 
-        await svc.rpc("mythic_resolve_status_tick", {
-          combat_session_id: combatSessionId,
-          combatant_id: (actorAfterTick as any).id,
-          turn_index: turnIndex,
-          phase: "end",
-        });
-
-        const { data: aliveRows, error: aliveErr } = await svc
-          .schema("mythic")
-          .from("combatants")
-          .select("id,entity_type,is_alive,hp,character_id,player_id,lvl")
-          .eq("combat_session_id", combatSessionId);
-        if (aliveErr) throw aliveErr;
-
-        const alivePlayers = (aliveRows ?? []).filter((r: any) => r.is_alive && Number(r.hp ?? 0) > 0 && r.entity_type === "player");
-        const aliveNpcs = (aliveRows ?? []).filter((r: any) => r.is_alive && Number(r.hp ?? 0) > 0 && r.entity_type === "npc");
-
-        if (alivePlayers.length === 0 || aliveNpcs.length === 0) {
-          ended = true;
-          await settleCombat({
-            svc,
-            campaignId,
-            combatSessionId,
-            turnIndex,
-            seed,
-            source: "combat_tick",
-            requestId,
-            logger: ctx.log,
-            aliveRows: (aliveRows ?? []).map((row: any) => ({
-              id: String(row.id),
-              entity_type: row.entity_type === "npc" || row.entity_type === "summon" ? row.entity_type : "player",
-              is_alive: Boolean(row.is_alive) && Number(row.hp ?? 0) > 0,
-              character_id: typeof row.character_id === "string" ? row.character_id : null,
-              player_id: typeof row.player_id === "string" ? row.player_id : null,
-              lvl: typeof row.lvl === "number" ? row.lvl : null,
-            })),
-            appendActionEvent: async (eventType, payload, actorId, eventTurnIndex) => {
-              await appendEvent(
-                svc,
-                combatSessionId,
-                eventTurnIndex ?? turnIndex,
-                actorId ?? null,
-                eventType,
-                payload,
-                combatantNames,
-              );
-            },
+        if (skillKey === "boss_mark" || skillKey === "boss_vuln" || nemesisSkill?.effect === "vulnerable") {
+          const { data: targetRow } = await svc
+            .schema("mythic")
+            .from("combatants")
+            .select("statuses")
+            .eq("id", (t as any).id)
+            .eq("combat_session_id", combatSessionId)
+            .maybeSingle();
+          const statusList = Array.isArray((targetRow as any)?.statuses) ? (targetRow as any).statuses : [];
+          const nextStatuses = statusList.filter((s: any) => String(s?.id ?? "") !== "vulnerable");
+          nextStatuses.push({
+            id: "vulnerable",
+            expires_turn: turnIndex + 2,
+            stacks: 1,
+            data: { source: skillKey },
           });
-          finalNextActor = null;
-          break;
+          await svc
+            .schema("mythic")
+            .from("combatants")
+            .update({ statuses: nextStatuses, updated_at: new Date().toISOString() })
+            .eq("id", (t as any).id)
+            .eq("combat_session_id", combatSessionId);
+          await appendEvent(svc, combatSessionId, turnIndex, (actorAfterTick as any).id, "status_applied", {
+            target_combatant_id: (t as any).id,
+            status: { id: "vulnerable", duration_turns: 2 },
+          }, combatantNames);
         }
 
-        const aliveSet = new Set(
-          (aliveRows ?? [])
-            .filter((r: any) => r.is_alive && Number(r.hp ?? 0) > 0)
-            .map((r: any) => r.id),
-        );
-        const nextIndex = nextAliveTurnIndex(order, aliveSet, turnIndex);
-        const nextActorId = order[nextIndex]?.combatant_id ?? null;
-        finalTurnIndex = nextIndex;
-        finalNextActor = nextActorId;
-
-        await svc.schema("mythic").from("combat_sessions").update({
-          current_turn_index: nextIndex,
-          updated_at: new Date().toISOString(),
-        }).eq("id", combatSessionId);
-
-        await appendEvent(
-          svc,
-          combatSessionId,
-          turnIndex,
-          (actorAfterTick as any).id,
-          "turn_end",
-          { actor_combatant_id: (actorAfterTick as any).id },
-          combatantNames,
-        );
-        if (nextActorId) {
+        if (died) {
+          await appendEvent(svc, combatSessionId, turnIndex, (actorAfterTick as any).id, "death", {
+            target_combatant_id: (t as any).id,
+            by: { combatant_id: (actorAfterTick as any).id, skill_id: skillKey },
+          }, combatantNames);
+        }
+      }
+      for (const entry of living) {
+        if (entry.character_id) combatantByCharacter.set(entry.character_id, entry.id);
+      }
+      tallyCombatWear(turnDamage, new Map(Array.from(combatantByCharacter, ([characterId, combatantId]) => [combatantId, characterId])), wear);
+    }
+
+    await svc.rpc("mythic_resolve_status_tick", {
+      combat_session_id: combatSessionId,
+      combatant_id: (actorAfterTick as any).id,
+      turn_index: turnIndex,
+      phase: "end",
+    });
+
+    const { data: aliveRows, error: aliveErr } = await svc
+      .schema("mythic")
+      .from("combatants")
+      .select("id,entity_type,is_alive,hp,hp_max,power,power_max,character_id,player_id,lvl,name,statuses")
+      .eq("combat_session_id", combatSessionId);
+    if (aliveErr) throw aliveErr;
+
+    const alivePlayers = (aliveRows ?? []).filter((r: any) => r.is_alive && Number(r.hp ?? 0) > 0 && r.entity_type === "player");
+    const aliveNpcs = (aliveRows ?? []).filter((r: any) => r.is_alive && Number(r.hp ?? 0) > 0 && r.entity_type === "npc");
+
+    if (alivePlayers.length === 0 || aliveNpcs.length === 0) {
+      ended = true;
+      await settleCombat({
+        svc,
+        campaignId,
+        combatSessionId,
+        turnIndex,
+        seed,
+        source: "combat_tick",
+        requestId,
+        logger: args.log,
+        aliveRows: (aliveRows ?? []).map((row: any) => ({
+          id: String(row.id),
+          entity_type: row.entity_type === "npc" || row.entity_type === "summon" ? row.entity_type : "player",
+          is_alive: Boolean(row.is_alive) && Number(row.hp ?? 0) > 0,
+          character_id: typeof row.character_id === "string" ? row.character_id : null,
+          player_id: typeof row.player_id === "string" ? row.player_id : null,
+          lvl: typeof row.lvl === "number" ? row.lvl : null,
+          name: typeof row.name === "string" ? row.name : null,
+          hp_max: Number.isFinite(Number(row.hp_max)) ? Number(row.hp_max) : null,
+          hp: Number.isFinite(Number(row.hp)) ? Number(row.hp) : null,
+          power: Number.isFinite(Number(row.power)) ? Number(row.power) : null,
+          power_max: Number.isFinite(Number(row.power_max)) ? Number(row.power_max) : null,
+          statuses: row.statuses,
+        })),
+        appendActionEvent: async (eventType, payload, actorId, eventTurnIndex) => {
           await appendEvent(
             svc,
             combatSessionId,
-            nextIndex,
-            nextActorId,
-            "turn_start",
-            { actor_combatant_id: nextActorId },
+            eventTurnIndex ?? turnIndex,
+            actorId ?? null,
+            eventType,
+            payload,
             combatantNames,
           );
+        },
+      });
+      finalNextActor = null;
+      break;
+    }
+
+    const aliveSet = new Set(
+      (aliveRows ?? [])
+        .filter((r: any) => r.is_alive && Number(r.hp ?? 0) > 0)
+        .map((r: any) => r.id),
+    );
+    const nextIndex = nextAliveTurnIndex(order, aliveSet, turnIndex);
+    const nextActorId = order[nextIndex]?.combatant_id ?? null;
+    finalTurnIndex = nextIndex;
+    finalNextActor = nextActorId;
+
+    await svc.schema("mythic").from("combat_sessions").update({
+      current_turn_index: nextIndex,
+      ...turnClockFor(aliveRows ?? [], nextActorId),
+      updated_at: new Date().toISOString(),
+    }).eq("id", combatSessionId).eq("current_turn_index", turnIndex);
+
+    await appendEvent(
+      svc,
+      combatSessionId,
+      turnIndex,
+      (actorAfterTick as any).id,
+      "turn_end",
+      { actor_combatant_id: (actorAfterTick as any).id },
+      combatantNames,
+    );
+    if (nextActorId) {
+      await appendEvent(
+        svc,
+        combatSessionId,
+        nextIndex,
+        nextActorId,
+        "turn_start",
+        { actor_combatant_id: nextActorId },
+        combatantNames,
+      );
+    }
+  }
+
+  for (const broken of await applyCombatWear(svc, wear)) {
+    const combatantId = combatantByCharacter.get(broken.character_id) ?? null;
+    await appendEvent(svc, combatSessionId, finalTurnIndex, combatantId, "gear_broken", {
+      target_combatant_id: combatantId,
+      item_id: broken.item_id,
+      item_name: broken.name,
+      slot: broken.slot,
+    });
+  }
+
+  return {
+    ticks,
+    ended,
+    requiresPlayerAction,
+    waitingOnPlayer,
+    autoResolvedTurns,
+    currentTurnIndex: finalTurnIndex,
+    nextActorCombatantId: finalNextActor,
+  };
+}
+
+function publishCombatAdvance(campaignId: string, combatSessionId: string, actorUserId: string | null, result: CombatAdvanceResult) {
+  void publishCampaignEvent({
+    campaignId,
+    type: result.ended ? "combat.ended" : "combat.action",
+    actorUserId,
+    payload: {
+      combat_session_id: combatSessionId,
+      ticks: result.ticks,
+      current_turn_index: result.currentTurnIndex,
+      next_actor_combatant_id: result.nextActorCombatantId,
+      requires_player_action: result.requiresPlayerAction,
+      auto_resolved_turns: result.autoResolvedTurns,
+    },
+  });
+}
+
+/** Turn sweeper entry point: takes a claimed, expired turn and runs on until someone has to act. */
+export async function resolveStalledCombatTurn(session: StalledCombatSession, log: FunctionLogger): Promise<CombatAdvanceResult> {
+  const requestId = `turn-sweeper:${session.id}:${session.current_turn_index}`;
+  const result = await advanceCombatTurns({
+    svc: createServiceClient(),
+    campaignId: session.campaign_id,
+    combatSessionId: session.id,
+    maxSteps: COMBAT_TURN_SWEEP_MAX_STEPS,
+    userId: null,
+    stalledTurnIndex: session.current_turn_index,
+    requestId,
+    log,
+  });
+  if (result.ticks > 0) publishCombatAdvance(session.campaign_id, session.id, null, result);
+  log.info("combat_tick.turn_swept", {
+    rule_version: RULE_VERSION,
+    request_id: requestId,
+    campaign_id: session.campaign_id,
+    combat_session_id: session.id,
+    ticks: result.ticks,
+    ended: result.ended,
+    auto_resolved_turns: result.autoResolvedTurns,
+  });
+  return result;
+}
+
+export const mythicCombatTick: FunctionHandler = {
+  name: "mythic-combat-tick",
+  auth: "required",
+  async handle(req: Request, ctx: FunctionContext): Promise<Response> {
+    const requestId = ctx.requestId;
+    const baseHeaders = { "Content-Type": "application/json", "x-request-id": requestId };
+
+    const rateLimited = await enforceRateLimit({
+      req,
+      route: "mythic-combat-tick",
+      limit: 80,
+      windowMs: 60_000,
+      corsHeaders: {},
+      requestId,
+    });
+    if (rateLimited) return rateLimited;
+
+    try {
+      const user = await requireUser(req.headers);
+
+      const parsed = RequestSchema.safeParse(await req.json().catch(() => null));
+      if (!parsed.success) {
+        return new Response(JSON.stringify({ error: "Invalid request", details: parsed.error.flatten() }), {
+          status: 400,
+          headers: baseHeaders,
+        });
+      }
+
+      const { campaignId, combatSessionId, maxSteps } = parsed.data;
+      const svc = createServiceClient();
+
+      const idempotencyHeader = idempotencyKeyFromRequest(req);
+      const idempotencyKey = idempotencyHeader ? `${user.userId}:${idempotencyHeader}` : null;
+      if (idempotencyKey) {
+        const cached = await getIdempotentResponse(idempotencyKey);
+        if (cached) {
+          ctx.log.info("combat_tick.idempotent_hit", {
+            request_id: requestId,
+            campaign_id: campaignId,
+            combat_session_id: combatSessionId,
+            rule_version: RULE_VERSION,
+          });
+          return cached;
         }
       }
 
+      await assertCampaignAccess(svc, campaignId, user.userId);
+      const result = await advanceCombatTurns({
+        svc,
+        campaignId,
+        combatSessionId,
+        maxSteps,
+        userId: user.userId,
+        requestId,
+        log: ctx.log,
+      });
+
       const response = new Response(JSON.stringify({
         ok: true,
         rule_version: RULE_VERSION,
-        ticks,
-        ended,
-        requires_player_action: requiresPlayerAction,
-        current_turn_index: finalTurnIndex,
-        next_actor_combatant_id: finalNextActor,
+        ticks: result.ticks,
+        ended: result.ended,
+        requires_player_action: result.requiresPlayerAction,
+        waiting_on_player: result.waitingOnPlayer,
+        auto_resolved_turns: result.autoResolvedTurns,
+        current_turn_index: result.currentTurnIndex,
+        next_actor_combatant_id: result.nextActorCombatantId,
       }), {
         status: 200,
         headers: baseHeaders,
       });
       if (idempotencyKey) {
-        storeIdempotentResponse(idempotencyKey, response, 15_000);
+        await storeIdempotentResponse(idempotencyKey, response, 15_000);
       }
 
+      publishCombatAdvance(campaignId, combatSessionId, user.userId, result);
+
       ctx.log.info("combat_tick.success", {
         rule_version: RULE_VERSION,
         request_id: requestId,
         campaign_id: campaignId,
         combat_session_id: combatSessionId,
-        ticks,
-        ended,
-        requires_player_action: requiresPlayerAction,
+        ticks: result.ticks,
+        ended: result.ended,
+        requires_player_action: result.requiresPlayerAction,
+        auto_resolved_turns: result.autoResolvedTurns,
       });
 
       return response;
@@ -13,9 +13,30 @@ import {
   storeIdempotentResponse,
 } from "../shared/request_guard.js";
 import { sanitizeError } from "../shared/redact.js";
+import { publishCampaignEvent } from "../shared/campaign_channel.js";
 import { settleCombat } from "../lib/combat/settlement.js";
 import { resolveDeterministicHit } from "../lib/combat/hitResolution.js";
+import { readCombatEnvironment } from "../lib/environment/worldClock.js";
+import { buildRollAudit } from "../lib/combat/replay.js";
+import {
+  ARENA_HAZARD_STATUS_TURNS,
+  arenaBlockedSet,
+  arenaHazardAt,
+  arenaHazardStatus,
+  arenaInBounds,
+  readCombatArena,
+  type ArenaHazardTile,
+  type CombatArena,
+} from "../lib/combat/arena.js";
+import { findGridPath, type PathTieBreak } from "../lib/combat/pathfinding.js";
 import { RULE_VERSION } from "../lib/rules/version.js";
+import { loadCampaignRules } from "../lib/rules/houseRules.js";
+import { combatTurnClock } from "../lib/combat/turnClock.js";
+import { tallyCombatWear } from "../lib/gear/durability.js";
+import { applyCombatWear } from "../lib/gear/store.js";
+import { consumableTargets, readConsumable, resolveConsumable, type ConsumableStack } from "../lib/consumables/effects.js";
+import { spendConsumable } from "../lib/consumables/store.js";
+import { recordPlayerModelSignal, scoreCombatAction } from "../lib/playerModel/index.js";
 import type { FunctionContext, FunctionHandler } from "./types.js";
 
 const TargetSchema = z.union([
@@ -30,7 +51,9 @@ const RequestSchema = z.object({
   campaignId: z.string().uuid(),
   combatSessionId: z.string().uuid(),
   actorCombatantId: z.string().uuid(),
-  skillId: z.union([z.string().uuid(), BuiltInSkillSchema]),
+  skillId: z.union([z.string().uuid(), BuiltInSkillSchema, z.literal("use_item")]),
+  /** The backpack consumable to use when skillId is use_item. */
+  inventoryId: z.string().uuid().optional(),
   target: TargetSchema,
 });
 
@@ -117,10 +140,6 @@ function metricFromTargetingJson(targetingJson: Record<string, unknown>): Metric
   return "manhattan";
 }
 
-function toBlockedSet(blocked: Array<{ x: number; y: number }>) {
-  return new Set(blocked.map((t) => `${t.x},${t.y}`));
-}
-
 function hasLineOfSight(
   ax: number,
   ay: number,
@@ -142,6 +161,7 @@ function advanceAlongLine(
   endX: number,
   endY: number,
   steps: number,
+  arena: CombatArena,
   blocked: Set<string>,
 ): { x: number; y: number } {
   const line = bresenhamLine(startX, startY, endX, endY);
@@ -150,7 +170,7 @@ function advanceAlongLine(
   let last = line[0]!;
   for (let i = 1; i <= maxIdx; i++) {
     const p = line[i]!;
-    if (blocked.has(`${p.x},${p.y}`)) break;
+    if (!arenaInBounds(arena, p) || blocked.has(`${p.x},${p.y}`)) break;
     last = p;
   }
   return { x: last.x, y: last.y };
@@ -162,6 +182,7 @@ function advanceAlongLineAvoidingOccupied(
   endX: number,
   endY: number,
   steps: number,
+  arena: CombatArena,
   blocked: Set<string>,
   occupied: Set<string>,
 ): { x: number; y: number } {
@@ -172,7 +193,7 @@ function advanceAlongLineAvoidingOccupied(
   for (let i = 1; i <= maxIdx; i += 1) {
     const p = line[i]!;
     const key = `${p.x},${p.y}`;
-    if (blocked.has(key) || occupied.has(key)) break;
+    if (!arenaInBounds(arena, p) || blocked.has(key) || occupied.has(key)) break;
     last = p;
   }
   return { x: last.x, y: last.y };
@@ -184,6 +205,7 @@ function stepAway(
   targetX: number,
   targetY: number,
   steps: number,
+  arena: CombatArena,
   blocked: Set<string>,
 ): { x: number; y: number } {
   const dx = targetX - fromX;
@@ -192,7 +214,7 @@ function stepAway(
   const stepY = dy === 0 ? 0 : dy / Math.abs(dy);
   const endX = targetX + stepX * Math.max(0, Math.floor(steps));
   const endY = targetY + stepY * Math.max(0, Math.floor(steps));
-  return advanceAlongLine(targetX, targetY, endX, endY, steps, blocked);
+  return advanceAlongLine(targetX, targetY, endX, endY, steps, arena, blocked);
 }
 
 function removeStatusId(statuses: StatusEntry[], id: string): StatusEntry[] {
@@ -232,14 +254,6 @@ function isCombatantAlive(combatant: CombatantRow | null | undefined): combatant
   return Boolean(combatant.is_alive) && Number(combatant.hp ?? 0) > 0;
 }
 
-function inBounds(point: Position, cols = 14, rows = 10): boolean {
-  return point.x >= 0 && point.y >= 0 && point.x < cols && point.y < rows;
-}
-
-function canStandAt(point: Position, blocked: Set<string>, occupied: Set<string>): boolean {
-  return !blocked.has(`${point.x},${point.y}`) && !occupied.has(`${point.x},${point.y}`);
-}
-
 function enrichEventPayloadNames(
   payload: Record<string, unknown>,
   actorCombatantId: string | null,
@@ -274,39 +288,27 @@ function enrichEventPayloadNames(
   };
 }
 
-function chooseMoveStep(current: Position, target: Position, blocked: Set<string>, occupied: Set<string>): Position | null {
-  const dx = target.x - current.x;
-  const dy = target.y - current.y;
-  if (dx === 0 && dy === 0) return null;
-  const stepX = dx === 0 ? 0 : dx / Math.abs(dx);
-  const stepY = dy === 0 ? 0 : dy / Math.abs(dy);
-  const prioritized = Math.abs(dx) >= Math.abs(dy)
-    ? [{ x: current.x + stepX, y: current.y }, { x: current.x, y: current.y + stepY }]
-    : [{ x: current.x, y: current.y + stepY }, { x: current.x + stepX, y: current.y }];
-  for (const candidate of prioritized) {
-    if (!inBounds(candidate)) continue;
-    if (canStandAt(candidate, blocked, occupied)) return candidate;
-  }
-  return null;
-}
-
+// Routes around walls and other units; a combatant target is approached to an adjacent tile.
 function moveToward(args: {
   start: Position;
   target: Position;
+  range: number;
   maxSteps: number;
+  arena: CombatArena;
   blocked: Set<string>;
   occupied: Set<string>;
-}): { to: Position; steps: number } {
-  let current: Position = { x: args.start.x, y: args.start.y };
-  let steps = 0;
-  const max = Math.max(0, Math.floor(args.maxSteps));
-  for (let i = 0; i < max; i += 1) {
-    const next = chooseMoveStep(current, args.target, args.blocked, args.occupied);
-    if (!next) break;
-    current = next;
-    steps += 1;
-  }
-  return { to: current, steps };
+  tie: PathTieBreak;
+}): { to: Position; steps: number; path: Position[] } {
+  const path = findGridPath(
+    { width: args.arena.width, height: args.arena.height, blocked: args.blocked, occupied: args.occupied },
+    args.start,
+    args.target,
+    args.tie,
+    args.range,
+  );
+  if (!path) return { to: args.start, steps: 0, path: [args.start] };
+  const walked = path.slice(0, Math.max(0, Math.floor(args.maxSteps)) + 1);
+  return { to: walked[walked.length - 1]!, steps: walked.length - 1, path: walked };
 }
 
 function getTargetsForShape(args: {
@@ -391,6 +393,19 @@ function setSimpleStatus(statuses: StatusEntry[], id: string, expiresTurn: numbe
   return next;
 }
 
+function setHazardStatus(statuses: StatusEntry[], hazard: ArenaHazardTile, turnIndex: number): StatusEntry[] {
+  const status = arenaHazardStatus(hazard, turnIndex);
+  return setSimpleStatus(statuses, status.id, status.expires_turn, status.data);
+}
+
+function hazardAppliedPayload(targetId: string, hazard: ArenaHazardTile): Record<string, unknown> {
+  return {
+    target_combatant_id: targetId,
+    status: { id: `hazard_${hazard.kind}`, duration_turns: ARENA_HAZARD_STATUS_TURNS, damage_per_turn: hazard.damage },
+    hazard: hazard.kind,
+  };
+}
+
 function stripStatuses(statuses: StatusEntry[], removeIds: string[] | null): StatusEntry[] {
   if (!removeIds || removeIds.length === 0) {
     return statuses.filter((s) => !s.id.startsWith("cd:"));
@@ -528,6 +543,32 @@ function buildBuiltInSkill(args: {
   };
 }
 
+// Items resolve through lib/consumables; the skill row only carries their range and targeting through validation.
+function buildItemSkill(args: { stack: ConsumableStack; actor: CombatantRow }): SkillRow {
+  const { profile } = args.stack;
+  const radius = Math.max(0, ...profile.effects.map((effect) => (effect.kind === "blast" ? effect.radius : 0)));
+  return {
+    id: "use_item",
+    character_id: args.actor.character_id ?? "builtin",
+    kind: "active",
+    targeting: profile.targeting === "self" ? "self" : profile.targeting === "ally" ? "single" : "tile",
+    targeting_json: {
+      shape: profile.targeting === "self" ? "self" : profile.targeting === "ally" ? "single" : "area",
+      metric: "manhattan",
+      radius,
+      requires_los: profile.targeting === "area",
+      blocks_on_walls: true,
+      friendly_fire: profile.targeting === "ally",
+    },
+    name: args.stack.name,
+    description: "Use a consumable from the backpack.",
+    range_tiles: profile.range_tiles,
+    cooldown_turns: 0,
+    cost_json: { amount: 0, resource_id: "mp" },
+    effects_json: {},
+  };
+}
+
 export const mythicCombatUseSkill: FunctionHandler = {
   name: "mythic-combat-use-skill",
   auth: "required",
@@ -535,7 +576,7 @@ export const mythicCombatUseSkill: FunctionHandler = {
     const requestId = ctx.requestId;
     const baseHeaders = { "Content-Type": "application/json", "x-request-id": requestId };
 
-    const rateLimited = enforceRateLimit({
+    const rateLimited = await enforceRateLimit({
       req,
       route: "mythic-combat-use-skill",
       limit: 120,
@@ -551,7 +592,7 @@ export const mythicCombatUseSkill: FunctionHandler = {
       const idempotencyHeader = idempotencyKeyFromRequest(req);
       const idempotencyKey = idempotencyHeader ? `${user.userId}:${idempotencyHeader}` : null;
       if (idempotencyKey) {
-        const cached = getIdempotentResponse(idempotencyKey);
+        const cached = await getIdempotentResponse(idempotencyKey);
         if (cached) {
           ctx.log.info("combat_use_skill.idempotent_hit", { request_id: requestId });
           return cached;
@@ -570,11 +611,12 @@ export const mythicCombatUseSkill: FunctionHandler = {
       const svc = createServiceClient();
 
       await assertCampaignAccess(svc, campaignId, user.userId);
+      const { tunables: houseTunables } = await loadCampaignRules(svc, campaignId);
 
       const { data: session, error: sessionError } = await svc
         .schema("mythic")
         .from("combat_sessions")
-        .select("id, seed, status, current_turn_index")
+        .select("id, seed, status, current_turn_index, scene_json")
         .eq("id", combatSessionId)
         .eq("campaign_id", campaignId)
         .maybeSingle();
@@ -595,7 +637,7 @@ export const mythicCombatUseSkill: FunctionHandler = {
       if (expectedActorError) throw expectedActorError;
       if (!expectedActor) return new Response(JSON.stringify({ error: "Turn order is missing" }), { status: 409, headers: baseHeaders });
       if ((expectedActor as any).combatant_id !== actorCombatantId) {
-        return new Response(JSON.stringify({ error: "Not your turn" }), { status: 409, headers: baseHeaders });
+        return new Response(JSON.stringify({ error: "Not your turn", code: "not_your_turn" }), { status: 409, headers: baseHeaders });
       }
 
       const { data: actor, error: actorError } = await svc
@@ -622,14 +664,47 @@ export const mythicCombatUseSkill: FunctionHandler = {
         return new Response(JSON.stringify({ error: "Actor is not alive" }), { status: 409, headers: baseHeaders });
       }
       if ((actor as any).player_id !== user.userId) {
-        return new Response(JSON.stringify({ error: "Actor does not belong to you" }), { status: 403, headers: baseHeaders });
+        return new Response(JSON.stringify({ error: "Actor does not belong to you", code: "turn_owned_by_other_player" }), {
+          status: 403,
+          headers: baseHeaders,
+        });
       }
 
       const builtInSkillId = asBuiltInSkillId(skillId);
       let skill: SkillRow | null = null;
+      let consumable: ConsumableStack | null = null;
 
       if (builtInSkillId) {
         skill = buildBuiltInSkill({ id: builtInSkillId, actor });
+      } else if (skillId === "use_item") {
+        if (!parsed.data.inventoryId) {
+          return new Response(JSON.stringify({ error: "Pick an item to use", code: "inventory_required" }), { status: 400, headers: baseHeaders });
+        }
+        if (!(actor as any).character_id) {
+          return new Response(JSON.stringify({ error: "Only characters can use items", code: "item_user_invalid" }), { status: 409, headers: baseHeaders });
+        }
+        const { data: invRow, error: invErr } = await svc
+          .schema("mythic")
+          .from("inventory")
+          .select("id, character_id, item_id, container, quantity, item:items(name, slot, effects_json)")
+          .eq("id", parsed.data.inventoryId)
+          .maybeSingle();
+        if (invErr) throw invErr;
+        if (!invRow || (invRow as any).character_id !== (actor as any).character_id || (invRow as any).container !== "backpack") {
+          return new Response(JSON.stringify({ error: "Item not found", code: "inventory_not_found" }), { status: 404, headers: baseHeaders });
+        }
+        const profile = readConsumable(asObject((invRow as any).item));
+        if (!profile) {
+          return new Response(JSON.stringify({ error: "That item cannot be used in combat", code: "item_not_consumable" }), { status: 409, headers: baseHeaders });
+        }
+        consumable = {
+          inventory_id: String((invRow as any).id),
+          item_id: String((invRow as any).item_id),
+          name: String((invRow as any).item?.name ?? "Consumable"),
+          quantity: Math.max(1, Math.floor(Number((invRow as any).quantity ?? 1))),
+          profile,
+        };
+        skill = buildItemSkill({ stack: consumable, actor });
       } else {
         const { data: skillRow, error: skillError } = await svc
           .schema("mythic")
@@ -706,6 +781,20 @@ export const mythicCombatUseSkill: FunctionHandler = {
         return new Response(JSON.stringify({ error: "Target not found" }), { status: 404, headers: baseHeaders });
       }
 
+      const { data: runtimeRow } = await svc
+        .schema("mythic")
+        .from("campaign_runtime")
+        .select("state_json")
+        .eq("campaign_id", campaignId)
+        .eq("status", "active")
+        .maybeSingle();
+      const arena = readCombatArena((session as any).scene_json, (runtimeRow as any)?.state_json);
+      const blockedSet = arenaBlockedSet(arena);
+      const environmentAccuracy = readCombatEnvironment((session as any).scene_json)?.accuracy ?? 0;
+      if (resolved.kind === "tile" && !arenaInBounds(arena, { x: resolved.tx, y: resolved.ty })) {
+        return new Response(JSON.stringify({ error: "Target tile is outside the arena" }), { status: 409, headers: baseHeaders });
+      }
+
       const targeting = String((skill as any).targeting);
       if (targeting === "self" && resolved.combatant?.id !== (actor as any).id) {
         return new Response(JSON.stringify({ error: "This skill can only target self" }), { status: 409, headers: baseHeaders });
@@ -719,18 +808,6 @@ export const mythicCombatUseSkill: FunctionHandler = {
         return new Response(JSON.stringify({ error: "Target out of range" }), { status: 409, headers: baseHeaders });
       }
 
-      const { data: runtimeRow } = await svc
-        .schema("mythic")
-        .from("campaign_runtime")
-        .select("state_json")
-        .eq("campaign_id", campaignId)
-        .eq("status", "active")
-        .maybeSingle();
-      const blockedTiles = Array.isArray((runtimeRow as any)?.state_json?.blocked_tiles)
-        ? ((runtimeRow as any).state_json.blocked_tiles as Array<{ x: number; y: number }>)
-        : [];
-      const blockedSet = toBlockedSet(blockedTiles);
-
       if (requiresLos && blocksOnWalls) {
         const los = hasLineOfSight((actor as any).x, (actor as any).y, resolved.tx, resolved.ty, blockedSet);
         if (!los) {
@@ -786,12 +863,15 @@ export const mythicCombatUseSkill: FunctionHandler = {
           skill_id: (skill as any).id,
           skill_name: (skill as any).name,
           targeting,
+          shape,
+          radius,
           at: { x: (actor as any).x, y: (actor as any).y },
           target: resolved.combatant
             ? { kind: "combatant", combatant_id: (resolved.combatant as any).id, x: resolved.tx, y: resolved.ty }
             : { kind: "tile", x: resolved.tx, y: resolved.ty },
           cost: cost.amount,
           cooldown_turns: (skill as any).cooldown_turns,
+          ...(consumable ? { item_id: consumable.item_id, item_name: consumable.name, consumable: consumable.profile.key } : {}),
         },
         actor_id: (actor as any).id,
         turn_index: turnIndex,
@@ -801,16 +881,20 @@ export const mythicCombatUseSkill: FunctionHandler = {
       if (Object.keys(move).length > 0 && typeof (move as any).dash_tiles === "number") {
         const dash = Math.max(0, Math.floor((move as any).dash_tiles));
         const occupied = occupiedPositionSet((allCombatants ?? []) as CombatantRow[], (actor as any).id);
-        const targetPoint = resolved.kind === "combatant" && resolved.combatant && (resolved.combatant as any).id !== (actor as any).id
+        const towardCombatant = resolved.kind === "combatant" && resolved.combatant && (resolved.combatant as any).id !== (actor as any).id;
+        const targetPoint = towardCombatant
           ? { x: Math.floor((resolved.combatant as any).x), y: Math.floor((resolved.combatant as any).y) }
           : { x: Math.floor(resolved.tx), y: Math.floor(resolved.ty) };
         const startPoint = { x: Math.floor((actor as any).x), y: Math.floor((actor as any).y) };
         const moved = moveToward({
           start: startPoint,
           target: targetPoint,
+          range: towardCombatant ? 1 : 0,
           maxSteps: dash,
+          arena,
           blocked: blockedSet,
           occupied,
+          tie: { seed, label: `skill:${turnIndex}:path:${(actor as any).id}` },
         });
         if (builtInSkillId === "basic_move" && moved.steps <= 0) {
           return new Response(JSON.stringify({ error: "Cannot move to selected tile" }), { status: 409, headers: baseHeaders });
@@ -824,6 +908,7 @@ export const mythicCombatUseSkill: FunctionHandler = {
               target_combatant_id: (actor as any).id,
               from: startPoint,
               to: moved.to,
+              path: moved.path,
               dash_tiles: dash,
               tiles_used: moved.steps,
               onomatopoeia: (effects as any).onomatopoeia ?? null,
@@ -847,7 +932,7 @@ export const mythicCombatUseSkill: FunctionHandler = {
         const tx = resolved.tx;
         const ty = resolved.ty;
         const occupied = occupiedPositionSet((allCombatants ?? []) as CombatantRow[], (actor as any).id);
-        if (!blockedSet.has(`${tx},${ty}`) && !occupied.has(`${tx},${ty}`)) {
+        if (arenaInBounds(arena, { x: tx, y: ty }) && !blockedSet.has(`${tx},${ty}`) && !occupied.has(`${tx},${ty}`)) {
           (updates as any).x = tx;
           (updates as any).y = ty;
           events.push({
@@ -864,6 +949,19 @@ export const mythicCombatUseSkill: FunctionHandler = {
         }
       }
 
+      const landedHazard = typeof (updates as any).x === "number" && typeof (updates as any).y === "number"
+        ? arenaHazardAt(arena, { x: (updates as any).x, y: (updates as any).y })
+        : null;
+      if (landedHazard) {
+        nextStatuses = setHazardStatus(nextStatuses, landedHazard, turnIndex);
+        events.push({
+          event_type: "status_applied",
+          payload: hazardAppliedPayload((actor as any).id, landedHazard),
+          actor_id: (actor as any).id,
+          turn_index: turnIndex,
+        });
+      }
+
       const pull = asObject((effects as any).pull);
       if (Object.keys(pull).length > 0 && typeof (pull as any).tiles === "number") {
         const tiles = Math.max(0, Math.floor(Number((pull as any).tiles)));
@@ -876,14 +974,24 @@ export const mythicCombatUseSkill: FunctionHandler = {
             (actor as any).x,
             (actor as any).y,
             tiles,
+            arena,
             blockedSet,
             occupied,
           );
           if (next.x === (target as any).x && next.y === (target as any).y) continue;
+          const forcedHazard = arenaHazardAt(arena, next);
+          if (forcedHazard) {
+            (target as any).statuses = setHazardStatus(nowStatuses((target as any).statuses), forcedHazard, turnIndex);
+          }
           const { error: moveErr } = await svc
             .schema("mythic")
             .from("combatants")
-            .update({ x: next.x, y: next.y, updated_at: new Date().toISOString() })
+            .update({
+              x: next.x,
+              y: next.y,
+              ...(forcedHazard ? { statuses: (target as any).statuses } : {}),
+              updated_at: new Date().toISOString(),
+            })
             .eq("id", (target as any).id)
             .eq("combat_session_id", combatSessionId);
           if (moveErr) throw moveErr;
@@ -893,6 +1001,14 @@ export const mythicCombatUseSkill: FunctionHandler = {
             actor_id: (actor as any).id,
             turn_index: turnIndex,
           });
+          if (forcedHazard) {
+            events.push({
+              event_type: "status_applied",
+              payload: hazardAppliedPayload((target as any).id, forcedHazard),
+              actor_id: (actor as any).id,
+              turn_index: turnIndex,
+            });
+          }
         }
       }
 
@@ -902,21 +1018,31 @@ export const mythicCombatUseSkill: FunctionHandler = {
         const targets = filteredTargets.filter((t) => (t as any).id !== (actor as any).id);
         for (const target of targets) {
           const occupied = occupiedPositionSet((allCombatants ?? []) as CombatantRow[], (target as any).id);
-          const pushed = stepAway((actor as any).x, (actor as any).y, (target as any).x, (target as any).y, tiles, blockedSet);
+          const pushed = stepAway((actor as any).x, (actor as any).y, (target as any).x, (target as any).y, tiles, arena, blockedSet);
           const next = advanceAlongLineAvoidingOccupied(
             (target as any).x,
             (target as any).y,
             pushed.x,
             pushed.y,
             tiles,
+            arena,
             blockedSet,
             occupied,
           );
           if (next.x === (target as any).x && next.y === (target as any).y) continue;
+          const forcedHazard = arenaHazardAt(arena, next);
+          if (forcedHazard) {
+            (target as any).statuses = setHazardStatus(nowStatuses((target as any).statuses), forcedHazard, turnIndex);
+          }
           const { error: moveErr } = await svc
             .schema("mythic")
             .from("combatants")
-            .update({ x: next.x, y: next.y, updated_at: new Date().toISOString() })
+            .update({
+              x: next.x,
+              y: next.y,
+              ...(forcedHazard ? { statuses: (target as any).statuses } : {}),
+              updated_at: new Date().toISOString(),
+            })
             .eq("id", (target as any).id)
             .eq("combat_session_id", combatSessionId);
           if (moveErr) throw moveErr;
@@ -926,6 +1052,14 @@ export const mythicCombatUseSkill: FunctionHandler = {
             actor_id: (actor as any).id,
             turn_index: turnIndex,
           });
+          if (forcedHazard) {
+            events.push({
+              event_type: "status_applied",
+              payload: hazardAppliedPayload((target as any).id, forcedHazard),
+              actor_id: (actor as any).id,
+              turn_index: turnIndex,
+            });
+          }
         }
       }
 
@@ -1009,6 +1143,17 @@ export const mythicCombatUseSkill: FunctionHandler = {
         const attacker = effectiveAttackerStats(actor);
 
         for (const target of targets) {
+          const rollAudit = (defender: Record<string, unknown>) => buildRollAudit({
+            hitLabel: `${labelBase}:hit:t:${(target as any).id}`,
+            damageLabel: `${labelBase}:t:${(target as any).id}`,
+            skillMult: Number.isFinite(skillMult) ? skillMult : 1,
+            spreadPct: 0.10,
+            critMultBase: houseTunables.critMultiplier,
+            critChanceMax: houseTunables.critChanceMax,
+            environmentAccuracy,
+            attacker: { ...(actor as Record<string, unknown>), ...attacker },
+            defender,
+          });
           const hit = resolveDeterministicHit({
             seed,
             label: `${labelBase}:hit:t:${(target as any).id}`,
@@ -1026,6 +1171,7 @@ export const mythicCombatUseSkill: FunctionHandler = {
               utility: (target as any).utility,
               statuses: (target as any).statuses,
             },
+            environmentAccuracy,
           });
 
           if (!hit.hit) {
@@ -1039,6 +1185,7 @@ export const mythicCombatUseSkill: FunctionHandler = {
                 required_roll: hit.requiredRoll,
                 hit_chance: hit.hitChance,
                 reason: hit.reason,
+                audit: rollAudit(target as Record<string, unknown>),
               },
               actor_id: (actor as any).id,
               turn_index: turnIndex,
@@ -1057,6 +1204,8 @@ export const mythicCombatUseSkill: FunctionHandler = {
             skill_mult: Number.isFinite(skillMult) ? skillMult : 1,
             resist: Number((target as any).resist ?? 0),
             spread_pct: 0.10,
+            crit_mult_base: houseTunables.critMultiplier,
+            crit_chance_max: houseTunables.critChanceMax,
           });
           if (dmgErr) throw dmgErr;
           const dmgObj = asObject(dmgJson);
@@ -1096,6 +1245,7 @@ export const mythicCombatUseSkill: FunctionHandler = {
               hp_after: newHp,
               armor_after: newArmor,
               onomatopoeia: (effects as any).onomatopoeia ?? null,
+              audit: rollAudit(target as Record<string, unknown>),
             },
             actor_id: (actor as any).id,
             turn_index: turnIndex,
@@ -1267,6 +1417,43 @@ export const mythicCombatUseSkill: FunctionHandler = {
         }
       }
 
+      if (consumable) {
+        const itemTargets = consumableTargets({
+          profile: consumable.profile,
+          user: actor,
+          at: { x: resolved.tx, y: resolved.ty },
+          combatants: (allCombatants ?? []) as CombatantRow[],
+        });
+        if (itemTargets.length === 0) {
+          return new Response(JSON.stringify({ error: "No valid targets for that item" }), { status: 409, headers: baseHeaders });
+        }
+        const outcome = resolveConsumable({
+          profile: consumable.profile,
+          user: actor,
+          targets: itemTargets,
+          item: { id: consumable.item_id, name: consumable.name },
+        });
+        for (const { combatant_id, ...patch } of outcome.patches) {
+          // The actor's own row is written once below, so its changes fold into that update.
+          if (combatant_id === (actor as any).id) {
+            if (patch.statuses) nextStatuses = removeStatusId(nowStatuses(patch.statuses), MOVE_SPENT_STATUS_ID);
+            if (patch.hp !== undefined) (updates as any).hp = patch.hp;
+            if (patch.power !== undefined) (updates as any).power = patch.power;
+            continue;
+          }
+          const { error: patchErr } = await svc
+            .schema("mythic")
+            .from("combatants")
+            .update({ ...patch, updated_at: new Date().toISOString() })
+            .eq("id", combatant_id)
+            .eq("combat_session_id", combatSessionId);
+          if (patchErr) throw patchErr;
+        }
+        for (const e of outcome.events) {
+          events.push({ ...e, actor_id: (actor as any).id, turn_index: turnIndex });
+        }
+      }
+
       const powerGain = asObject((effects as any).power_gain);
       if (Object.keys(powerGain).length > 0) {
         const amount = Math.max(0, Math.floor(Number((powerGain as any).amount ?? 0)));
@@ -1289,17 +1476,103 @@ export const mythicCombatUseSkill: FunctionHandler = {
         .eq("id", (actor as any).id)
         .eq("combat_session_id", combatSessionId);
       if (actorUpdateErr) throw actorUpdateErr;
+      if (consumable) await spendConsumable(svc, consumable);
 
-      for (const e of events) {
-        await svc.rpc("mythic_append_action_event", {
-          combat_session_id: combatSessionId,
-          turn_index: e.turn_index,
-          actor_combatant_id: e.actor_id,
-          event_type: e.event_type,
-          payload: enrichEventPayloadNames(e.payload, e.actor_id, combatantNames),
+      // Wear is charged with the action's own events: a retry of this skill on this turn finds its skill_used
+      // event already logged and leaves the gear alone.
+      const { count: loggedUses, error: loggedUsesErr } = await svc
+        .schema("mythic")
+        .from("action_events")
+        .select("id", { count: "exact", head: true })
+        .eq("combat_session_id", combatSessionId)
+        .eq("turn_index", turnIndex)
+        .eq("actor_combatant_id", (actor as any).id)
+        .eq("event_type", "skill_used")
+        .eq("payload->>skill_id", String((skill as any).id));
+      if (loggedUsesErr) throw loggedUsesErr;
+
+      const appendEvents = async (batch: typeof events) => {
+        for (const e of batch) {
+          await svc.rpc("mythic_append_action_event", {
+            combat_session_id: combatSessionId,
+            turn_index: e.turn_index,
+            actor_combatant_id: e.actor_id,
+            event_type: e.event_type,
+            payload: enrichEventPayloadNames(e.payload, e.actor_id, combatantNames),
+          });
+        }
+      };
+      await appendEvents(events);
+      const actionEventCount = events.length;
+
+      // Weapons wear on each skill use that lands, armor on each hit its wearer takes.
+      const combatantByCharacter = new Map<string, string>();
+      for (const row of (allCombatants ?? []) as CombatantRow[]) {
+        if (row.character_id) combatantByCharacter.set(row.character_id, row.id);
+      }
+      const characterByCombatant = new Map(Array.from(combatantByCharacter, ([characterId, combatantId]) => [combatantId, characterId]));
+      const brokenGear = Number(loggedUses ?? 0) > 0
+        ? []
+        : await applyCombatWear(svc, tallyCombatWear(events, characterByCombatant));
+      for (const broken of brokenGear) {
+        events.push({
+          event_type: "gear_broken",
+          payload: {
+            target_combatant_id: combatantByCharacter.get(broken.character_id) ?? null,
+            item_id: broken.item_id,
+            item_name: broken.name,
+            slot: broken.slot,
+          },
+          actor_id: (actor as any).id,
+          turn_index: turnIndex,
         });
       }
 
+      await appendEvents(events.slice(actionEventCount));
+
+      if ((actor as any).entity_type === "player" && typeof (actor as any).player_id === "string") {
+        try {
+          const { count: priorSkillCount, error: priorSkillErr } = await svc
+            .schema("mythic")
+            .from("action_events")
+            .select("id", { count: "exact", head: true })
+            .eq("combat_session_id", combatSessionId)
+            .eq("actor_combatant_id", (actor as any).id)
+            .eq("event_type", "skill_used");
+          if (priorSkillErr) throw priorSkillErr;
+          const targetIdOf = (e: { payload: Record<string, unknown> }) =>
+            typeof e.payload.target_combatant_id === "string" ? e.payload.target_combatant_id : null;
+          const targetBefore = resolved.combatant as any;
+          await recordPlayerModelSignal({
+            svc,
+            campaignId,
+            playerId: (actor as any).player_id,
+            kind: "combat_action",
+            signal: scoreCombatAction({
+              skillId: String((skill as any).id),
+              skillName: String((skill as any).name ?? ""),
+              targeting,
+              isOpener: Number(priorSkillCount ?? 0) <= 1,
+              targetsHit: new Set(events.filter((e) => e.event_type === "damage").map(targetIdOf).filter(Boolean)).size,
+              kills: events.filter((e) => e.event_type === "death").length,
+              healedAllies: new Set(events.filter((e) => e.event_type === "healed").map(targetIdOf).filter(Boolean)).size,
+              revivedAllies: events.filter((e) => e.event_type === "revive").length,
+              statusesApplied: events.filter((e) => e.event_type === "status_applied" && targetIdOf(e) !== (actor as any).id).length,
+              targetHpPctBefore: targetBefore && Number(targetBefore.hp_max) > 0
+                ? Number(targetBefore.hp) / Number(targetBefore.hp_max)
+                : null,
+            }),
+          });
+        } catch (modelError) {
+          ctx.log.warn("combat_use_skill.player_model_warning", {
+            request_id: requestId,
+            campaign_id: campaignId,
+            combat_session_id: combatSessionId,
+            reason: sanitizeError(modelError).message,
+          });
+        }
+      }
+
       if (builtInSkillId === "basic_move") {
         const response = new Response(JSON.stringify({
           ok: true,
@@ -1312,8 +1585,21 @@ export const mythicCombatUseSkill: FunctionHandler = {
           headers: baseHeaders,
         });
         if (idempotencyKey) {
-          storeIdempotentResponse(idempotencyKey, response, 10_000);
+          await storeIdempotentResponse(idempotencyKey, response, 10_000);
         }
+        void publishCampaignEvent({
+          campaignId,
+          type: "combat.action",
+          actorUserId: user.userId,
+          payload: {
+            combat_session_id: combatSessionId,
+            actor_combatant_id: (actor as any).id,
+            skill_id: builtInSkillId,
+            turn_index: turnIndex,
+            next_turn_index: turnIndex,
+            next_actor_combatant_id: (actor as any).id,
+          },
+        });
         ctx.log.info("combat_use_skill.move_success", {
           rule_version: RULE_VERSION,
           request_id: requestId,
@@ -1361,7 +1647,7 @@ export const mythicCombatUseSkill: FunctionHandler = {
       const { data: aliveCombatants, error: aliveCombatantsErr } = await svc
         .schema("mythic")
         .from("combatants")
-        .select("id, entity_type, is_alive, hp, character_id, player_id, lvl")
+        .select("id, entity_type, is_alive, hp, hp_max, power, power_max, character_id, player_id, lvl, name, statuses")
         .eq("combat_session_id", combatSessionId);
       if (aliveCombatantsErr) throw aliveCombatantsErr;
       const alivePlayers = (aliveCombatants ?? []).filter((c: any) => c.is_alive && Number(c.hp ?? 0) > 0 && c.entity_type === "player").length;
@@ -1399,6 +1685,12 @@ export const mythicCombatUseSkill: FunctionHandler = {
             character_id: typeof row.character_id === "string" ? row.character_id : null,
             player_id: typeof row.player_id === "string" ? row.player_id : null,
             lvl: typeof row.lvl === "number" ? row.lvl : null,
+            name: typeof row.name === "string" ? row.name : null,
+            hp_max: Number.isFinite(Number(row.hp_max)) ? Number(row.hp_max) : null,
+            hp: Number.isFinite(Number(row.hp)) ? Number(row.hp) : null,
+            power: Number.isFinite(Number(row.power)) ? Number(row.power) : null,
+            power_max: Number.isFinite(Number(row.power_max)) ? Number(row.power_max) : null,
+            statuses: row.statuses,
           })),
           appendActionEvent,
         });
@@ -1413,8 +1705,18 @@ export const mythicCombatUseSkill: FunctionHandler = {
           headers: baseHeaders,
         });
         if (idempotencyKey) {
-          storeIdempotentResponse(idempotencyKey, response, 15_000);
+          await storeIdempotentResponse(idempotencyKey, response, 15_000);
         }
+        void publishCampaignEvent({
+          campaignId,
+          type: "combat.ended",
+          actorUserId: user.userId,
+          payload: {
+            combat_session_id: combatSessionId,
+            actor_combatant_id: (actor as any).id,
+            won: outcome.won,
+          },
+        });
         ctx.log.info("combat_use_skill.ended", {
           rule_version: RULE_VERSION,
           request_id: requestId,
@@ -1429,11 +1731,16 @@ export const mythicCombatUseSkill: FunctionHandler = {
       }
 
       const nextCombatantId = order[nextIndex]!.combatant_id;
+      const nextClock = combatTurnClock({
+        now: new Date(),
+        entityType: (aliveCombatants ?? []).find((c: any) => c.id === nextCombatantId)?.entity_type ?? null,
+        turnSeconds: houseTunables.turnSeconds,
+      });
 
       const { error: advanceErr } = await svc
         .schema("mythic")
         .from("combat_sessions")
-        .update({ current_turn_index: nextIndex, updated_at: new Date().toISOString() })
+        .update({ current_turn_index: nextIndex, ...nextClock, updated_at: new Date().toISOString() })
         .eq("id", combatSessionId)
         .eq("campaign_id", campaignId);
       if (advanceErr) throw advanceErr;
@@ -1472,8 +1779,21 @@ export const mythicCombatUseSkill: FunctionHandler = {
         headers: baseHeaders,
       });
       if (idempotencyKey) {
-        storeIdempotentResponse(idempotencyKey, response, 10_000);
+        await storeIdempotentResponse(idempotencyKey, response, 10_000);
       }
+      void publishCampaignEvent({
+        campaignId,
+        type: "combat.action",
+        actorUserId: user.userId,
+        payload: {
+          combat_session_id: combatSessionId,
+          actor_combatant_id: (actor as any).id,
+          skill_id: (skill as any).id,
+          turn_index: turnIndex,
+          next_turn_index: nextIndex,
+          next_actor_combatant_id: nextCombatantId,
+        },
+      });
       ctx.log.info("combat_use_skill.success", {
         rule_version: RULE_VERSION,
         request_id: requestId,
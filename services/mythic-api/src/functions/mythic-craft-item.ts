@@ -0,0 +1,291 @@
+import { z } from "zod";
+
+import { createServiceClient } from "../shared/supabase.js";
+import { AuthError, requireUser } from "../shared/auth.js";
+import { AuthzError, assertCampaignAccess } from "../shared/authz.js";
+import {
+  STAT_KEYS,
+  craftItem,
+  craftSeed,
+  findRecipe,
+  missingMaterials,
+  recipeError,
+  recipeMaterials,
+} from "../lib/crafting/recipes.js";
+import {
+  findWorkshop,
+  loadCraftingProficiency,
+  loadLootFlavor,
+  loadMaterialStacks,
+  readCraftLedger,
+  recordCraftLedger,
+  removeInventoryUnit,
+  spendMaterials,
+  stackTotals,
+  uuidFromKey,
+} from "../lib/crafting/store.js";
+import type { LootFlavorProfile } from "../lib/worldforge/index.js";
+import { sanitizeError } from "../shared/redact.js";
+import {
+  enforceRateLimit,
+  getIdempotentResponse,
+  idempotencyKeyFromRequest,
+  storeIdempotentResponse,
+} from "../shared/request_guard.js";
+import type { FunctionContext, FunctionHandler } from "./types.js";
+
+const RequestSchema = z.object({
+  campaignId: z.string().uuid(),
+  characterId: z.string().uuid(),
+  recipeId: z.string().min(1).max(40),
+  /** The backpack item the recipe consumes and remakes. */
+  inventoryId: z.string().uuid(),
+  focus: z.enum(STAT_KEYS).optional(),
+});
+
+const RECIPE_ERRORS: Record<string, string> = {
+  recipe_locked: "Your crafting rank is too low for this recipe.",
+  base_not_gear: "Only gear can be used as a recipe base.",
+  base_rarity: "This recipe does not take a base of that rarity.",
+  focus_required: "Pick a stat to attune toward.",
+};
+
+function asRecord(value: unknown): Record<string, unknown> | null {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return null;
+  return value as Record<string, unknown>;
+}
+
+export const mythicCraftItem: FunctionHandler = {
+  name: "mythic-craft-item",
+  auth: "required",
+  async handle(req: Request, ctx: FunctionContext): Promise<Response> {
+    const requestId = ctx.requestId;
+    const baseHeaders = { "Content-Type": "application/json", "x-request-id": requestId };
+
+    const rateLimited = await enforceRateLimit({
+      req,
+      route: "mythic-craft-item",
+      limit: 20,
+      windowMs: 60_000,
+      corsHeaders: {},
+      requestId,
+    });
+    if (rateLimited) return rateLimited;
+
+    const idemKey = idempotencyKeyFromRequest(req);
+    if (!idemKey) {
+      return new Response(JSON.stringify({ error: "Missing x-idempotency-key header", code: "idempotency_required", requestId }), {
+        status: 400,
+        headers: baseHeaders,
+      });
+    }
+
+    const cached = await getIdempotentResponse(idemKey);
+    if (cached) {
+      return cached;
+    }
+
+    try {
+      const user = await requireUser(req.headers);
+
+      const parsed = RequestSchema.safeParse(await req.json().catch(() => null));
+      if (!parsed.success) {
+        return new Response(JSON.stringify({ error: "Invalid request", code: "invalid_request", details: parsed.error.flatten(), requestId }), {
+          status: 400,
+          headers: baseHeaders,
+        });
+      }
+
+      const { campaignId, characterId, recipeId, inventoryId } = parsed.data;
+      const focus = parsed.data.focus ?? null;
+      const recipe = findRecipe(recipeId);
+      if (!recipe) {
+        return new Response(JSON.stringify({ error: "Unknown recipe", code: "recipe_not_found", requestId }), { status: 404, headers: baseHeaders });
+      }
+      const svc = createServiceClient();
+
+      const access = await assertCampaignAccess(svc, campaignId, user.userId);
+
+      const { data: character, error: charErr } = await svc
+        .schema("mythic")
+        .from("characters")
+        .select("id, player_id, level, utility, resources")
+        .eq("id", characterId)
+        .eq("campaign_id", campaignId)
+        .maybeSingle();
+      if (charErr) throw charErr;
+      if (!character) {
+        return new Response(JSON.stringify({ error: "Character not found", code: "character_not_found", requestId }), {
+          status: 404,
+          headers: baseHeaders,
+        });
+      }
+      if (!access.isDm && (character as any).player_id !== user.userId) {
+        return new Response(JSON.stringify({ error: "Not authorized for this character", code: "character_access_denied", requestId }), {
+          status: 403,
+          headers: baseHeaders,
+        });
+      }
+
+      // The crafted rows take ids from the key, and the key is ledgered before the base and materials are spent,
+      // so a retry neither crafts a second item nor spends twice; a ledgered key reports the item it made.
+      const resources = asRecord((character as any).resources) ?? {};
+      const ledger = readCraftLedger(resources, "craft_ledger");
+      const itemId = uuidFromKey(idemKey, "craft:item");
+      if (ledger.includes(idemKey)) {
+        const { data: crafted, error: craftedErr } = await svc.schema("mythic").from("items").select("*").eq("id", itemId).maybeSingle();
+        if (craftedErr) throw craftedErr;
+        const effects = asRecord((crafted as any)?.effects_json) ?? {};
+        const payload = {
+          ok: true,
+          itemId,
+          item: crafted ?? { id: itemId },
+          masterwork: effects.masterwork === true,
+          recipeId: typeof effects.recipe === "string" ? effects.recipe : recipe.id,
+          spent: null,
+          replayed: true,
+          requestId,
+        };
+        const response = new Response(JSON.stringify(payload), { status: 200, headers: baseHeaders });
+        await storeIdempotentResponse(idemKey, response, 60_000);
+        return response;
+      }
+
+      const proficiency = await loadCraftingProficiency(svc, character as { id: string; level?: unknown; utility?: unknown });
+      const workshop = await findWorkshop(svc, campaignId);
+      if (!workshop && !proficiency.field_crafting) {
+        return new Response(JSON.stringify({ error: "You need a town workshop, or a crafting skill to work in the field.", code: "no_workshop", requestId }), {
+          status: 409,
+          headers: baseHeaders,
+        });
+      }
+
+      const { data: row, error: rowErr } = await svc
+        .schema("mythic")
+        .from("inventory")
+        .select("id, character_id, item_id, container, quantity, item:items(*)")
+        .eq("id", inventoryId)
+        .maybeSingle();
+      if (rowErr) throw rowErr;
+      if (!row || (row as any).character_id !== characterId) {
+        return new Response(JSON.stringify({ error: "Inventory entry not found", code: "inventory_not_found", requestId }), {
+          status: 404,
+          headers: baseHeaders,
+        });
+      }
+      if ((row as any).container !== "backpack") {
+        return new Response(JSON.stringify({ error: "Unequip the item before crafting with it.", code: "item_equipped", requestId }), {
+          status: 409,
+          headers: baseHeaders,
+        });
+      }
+      const base = asRecord((row as any).item) ?? {};
+      const invalid = recipeError({ recipe, base, focus, proficiency });
+      if (invalid) {
+        return new Response(JSON.stringify({ error: RECIPE_ERRORS[invalid], code: invalid, requestId }), { status: 409, headers: baseHeaders });
+      }
+
+      const cost = recipeMaterials(recipe, focus);
+      const stacks = await loadMaterialStacks(svc, characterId);
+      const missing = missingMaterials(stackTotals(stacks), cost);
+      if (Object.keys(missing).length > 0) {
+        return new Response(JSON.stringify({ error: "Not enough materials", code: "insufficient_materials", details: { missing }, requestId }), {
+          status: 409,
+          headers: baseHeaders,
+        });
+      }
+
+      // Flavor only names the item; a broken world profile falls back to the workbench pools.
+      let flavor: LootFlavorProfile | null = null;
+      try {
+        flavor = await loadLootFlavor(svc, campaignId);
+      } catch (flavorError) {
+        ctx.log.warn("crafting.craft.flavor_warning", { request_id: requestId, campaign_id: campaignId, reason: sanitizeError(flavorError).message });
+      }
+
+      const baseItemId = String((row as any).item_id);
+      const { item, masterwork } = craftItem({
+        seed: craftSeed({ campaignId, baseItemId, recipeId: recipe.id, focus }),
+        recipe,
+        base: { ...base, id: baseItemId },
+        focus,
+        proficiency,
+        flavor,
+        level: Number((character as any).level ?? 1),
+        campaignId,
+        characterId,
+      });
+
+      const { error: itemErr } = await svc.schema("mythic").from("items").upsert({ ...item, id: itemId }, { onConflict: "id" });
+      if (itemErr) throw itemErr;
+      const { error: invErr } = await svc.schema("mythic").from("inventory").upsert(
+        {
+          id: uuidFromKey(idemKey, "craft:inv"),
+          character_id: characterId,
+          item_id: itemId,
+          container: "backpack",
+          quantity: 1,
+          updated_at: new Date().toISOString(),
+        },
+        { onConflict: "id" },
+      );
+      if (invErr) throw invErr;
+
+      await recordCraftLedger(svc, { characterId, resources, field: "craft_ledger", ledger, key: idemKey });
+      await spendMaterials(svc, stacks, cost);
+      await removeInventoryUnit(svc, {
+        inventory_id: inventoryId,
+        item_id: baseItemId,
+        quantity: Math.max(1, Math.floor(Number((row as any).quantity ?? 1))),
+      });
+
+      await svc.schema("mythic").from("dm_memory_events").insert({
+        campaign_id: campaignId,
+        player_id: user.userId,
+        category: "crafting",
+        severity: masterwork ? 2 : 1,
+        payload: {
+          character_id: characterId,
+          recipe: recipe.id,
+          focus,
+          base_item_name: base.name ?? null,
+          item_id: itemId,
+          item_name: item.name,
+          rarity: item.rarity,
+          masterwork,
+          workshop: workshop?.name ?? null,
+        },
+      });
+
+      const payload = {
+        ok: true,
+        itemId,
+        item: { ...item, id: itemId },
+        masterwork,
+        recipeId: recipe.id,
+        spent: cost,
+        requestId,
+      };
+      const response = new Response(JSON.stringify(payload), { status: 200, headers: baseHeaders });
+      await storeIdempotentResponse(idemKey, response, 60_000);
+
+      ctx.log.info("crafting.craft.success", { request_id: requestId, campaign_id: campaignId, character_id: characterId, recipe: recipe.id, item_id: itemId, masterwork });
+      return response;
+    } catch (error) {
+      if (error instanceof AuthError) {
+        const code = error.code === "auth_required" ? "auth_required" : "auth_invalid";
+        const message = code === "auth_required" ? "Authentication required" : "Invalid or expired authentication token";
+        return new Response(JSON.stringify({ error: message, code, requestId }), { status: 401, headers: baseHeaders });
+      }
+      if (error instanceof AuthzError) {
+        return new Response(JSON.stringify({ error: error.message, code: error.code, requestId }), { status: error.status, headers: baseHeaders });
+      }
+      const normalized = sanitizeError(error);
+      ctx.log.error("crafting.craft.failed", { request_id: requestId, error: normalized.message, code: normalized.code });
+      return new Response(
+        JSON.stringify({ ok: false, error: normalized.message || "Crafting failed", code: normalized.code ?? "craft_item_failed", requestId }),
+        { status: 500, headers: baseHeaders },
+      );
+    }
+  },
+};
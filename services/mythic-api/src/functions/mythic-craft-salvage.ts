@@ -0,0 +1,191 @@
+import { z } from "zod";
+
+import { createServiceClient } from "../shared/supabase.js";
+import { AuthError, requireUser } from "../shared/auth.js";
+import { AuthzError, assertCampaignAccess } from "../shared/authz.js";
+import { isGearSlot, salvageYield } from "../lib/crafting/recipes.js";
+import {
+  grantMaterials,
+  loadCraftingProficiency,
+  loadMaterialStacks,
+  readCraftLedger,
+  recordCraftLedger,
+  removeInventoryUnit,
+} from "../lib/crafting/store.js";
+import { sanitizeError } from "../shared/redact.js";
+import {
+  enforceRateLimit,
+  getIdempotentResponse,
+  idempotencyKeyFromRequest,
+  storeIdempotentResponse,
+} from "../shared/request_guard.js";
+import type { FunctionContext, FunctionHandler } from "./types.js";
+
+const RequestSchema = z.object({
+  campaignId: z.string().uuid(),
+  characterId: z.string().uuid(),
+  inventoryId: z.string().uuid(),
+});
+
+function asRecord(value: unknown): Record<string, unknown> | null {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return null;
+  return value as Record<string, unknown>;
+}
+
+export const mythicCraftSalvage: FunctionHandler = {
+  name: "mythic-craft-salvage",
+  auth: "required",
+  async handle(req: Request, ctx: FunctionContext): Promise<Response> {
+    const requestId = ctx.requestId;
+    const baseHeaders = { "Content-Type": "application/json", "x-request-id": requestId };
+
+    const rateLimited = await enforceRateLimit({
+      req,
+      route: "mythic-craft-salvage",
+      limit: 30,
+      windowMs: 60_000,
+      corsHeaders: {},
+      requestId,
+    });
+    if (rateLimited) return rateLimited;
+
+    const idemKey = idempotencyKeyFromRequest(req);
+    if (!idemKey) {
+      return new Response(JSON.stringify({ error: "Missing x-idempotency-key header", code: "idempotency_required", requestId }), {
+        status: 400,
+        headers: baseHeaders,
+      });
+    }
+
+    const cached = await getIdempotentResponse(idemKey);
+    if (cached) {
+      return cached;
+    }
+
+    try {
+      const user = await requireUser(req.headers);
+
+      const parsed = RequestSchema.safeParse(await req.json().catch(() => null));
+      if (!parsed.success) {
+        return new Response(JSON.stringify({ error: "Invalid request", code: "invalid_request", details: parsed.error.flatten(), requestId }), {
+          status: 400,
+          headers: baseHeaders,
+        });
+      }
+
+      const { campaignId, characterId, inventoryId } = parsed.data;
+      const svc = createServiceClient();
+
+      const access = await assertCampaignAccess(svc, campaignId, user.userId);
+
+      const { data: character, error: charErr } = await svc
+        .schema("mythic")
+        .from("characters")
+        .select("id, player_id, level, utility, resources")
+        .eq("id", characterId)
+        .eq("campaign_id", campaignId)
+        .maybeSingle();
+      if (charErr) throw charErr;
+      if (!character) {
+        return new Response(JSON.stringify({ error: "Character not found", code: "character_not_found", requestId }), {
+          status: 404,
+          headers: baseHeaders,
+        });
+      }
+      if (!access.isDm && (character as any).player_id !== user.userId) {
+        return new Response(JSON.stringify({ error: "Not authorized for this character", code: "character_access_denied", requestId }), {
+          status: 403,
+          headers: baseHeaders,
+        });
+      }
+
+      // A ledgered key means the salvage already went through; a late retry reports it instead of salvaging again.
+      const resources = asRecord((character as any).resources) ?? {};
+      const ledger = readCraftLedger(resources, "salvage_ledger");
+      if (ledger.includes(idemKey)) {
+        const payload = { ok: true, itemId: null, materials: null, replayed: true, requestId };
+        const response = new Response(JSON.stringify(payload), { status: 200, headers: baseHeaders });
+        await storeIdempotentResponse(idemKey, response, 60_000);
+        return response;
+      }
+
+      const { data: row, error: rowErr } = await svc
+        .schema("mythic")
+        .from("inventory")
+        .select("id, character_id, item_id, container, quantity, item:items(*)")
+        .eq("id", inventoryId)
+        .maybeSingle();
+      if (rowErr) throw rowErr;
+      if (!row || (row as any).character_id !== characterId) {
+        return new Response(JSON.stringify({ error: "Inventory entry not found", code: "inventory_not_found", requestId }), {
+          status: 404,
+          headers: baseHeaders,
+        });
+      }
+      if ((row as any).container !== "backpack") {
+        return new Response(JSON.stringify({ error: "Unequip the item before salvaging it.", code: "item_equipped", requestId }), {
+          status: 409,
+          headers: baseHeaders,
+        });
+      }
+      const item = asRecord((row as any).item) ?? {};
+      if (!isGearSlot(item.slot)) {
+        return new Response(JSON.stringify({ error: "Only gear can be salvaged.", code: "item_not_salvageable", requestId }), {
+          status: 409,
+          headers: baseHeaders,
+        });
+      }
+      const itemId = String((row as any).item_id);
+
+      const proficiency = await loadCraftingProficiency(svc, character as { id: string; level?: unknown; utility?: unknown });
+      const materials = salvageYield(item, proficiency);
+      const stacks = await loadMaterialStacks(svc, characterId);
+
+      // Ledger first, then the materials, then the gear: a failure partway never repeats a grant on retry and never
+      // takes the gear without paying out.
+      await recordCraftLedger(svc, { characterId, resources, field: "salvage_ledger", ledger, key: idemKey });
+      await grantMaterials(svc, { campaignId, characterId, stacks, materials });
+      await removeInventoryUnit(svc, {
+        inventory_id: inventoryId,
+        item_id: itemId,
+        quantity: Math.max(1, Math.floor(Number((row as any).quantity ?? 1))),
+      });
+
+      await svc.schema("mythic").from("dm_memory_events").insert({
+        campaign_id: campaignId,
+        player_id: user.userId,
+        category: "crafting_salvage",
+        severity: 1,
+        payload: {
+          character_id: characterId,
+          item_id: itemId,
+          item_name: item.name ?? null,
+          rarity: item.rarity ?? null,
+          materials,
+        },
+      });
+
+      const payload = { ok: true, itemId, materials, requestId };
+      const response = new Response(JSON.stringify(payload), { status: 200, headers: baseHeaders });
+      await storeIdempotentResponse(idemKey, response, 60_000);
+
+      ctx.log.info("crafting.salvage.success", { request_id: requestId, campaign_id: campaignId, character_id: characterId, item_id: itemId });
+      return response;
+    } catch (error) {
+      if (error instanceof AuthError) {
+        const code = error.code === "auth_required" ? "auth_required" : "auth_invalid";
+        const message = code === "auth_required" ? "Authentication required" : "Invalid or expired authentication token";
+        return new Response(JSON.stringify({ error: message, code, requestId }), { status: 401, headers: baseHeaders });
+      }
+      if (error instanceof AuthzError) {
+        return new Response(JSON.stringify({ error: error.message, code: error.code, requestId }), { status: error.status, headers: baseHeaders });
+      }
+      const normalized = sanitizeError(error);
+      ctx.log.error("crafting.salvage.failed", { request_id: requestId, error: normalized.message, code: normalized.code });
+      return new Response(
+        JSON.stringify({ ok: false, error: normalized.message || "Salvage failed", code: normalized.code ?? "craft_salvage_failed", requestId }),
+        { status: 500, headers: baseHeaders },
+      );
+    }
+  },
+};
@@ -0,0 +1,146 @@
+import { z } from "zod";
+
+import { createServiceClient } from "../shared/supabase.js";
+import { AuthError, requireUser } from "../shared/auth.js";
+import { AuthzError, assertCampaignAccess } from "../shared/authz.js";
+import { enforceRateLimit } from "../shared/request_guard.js";
+import { sanitizeError } from "../shared/redact.js";
+import { CRAFT_RECIPES, MATERIAL_NAMES, isGearSlot, recipeMaterials, salvageYield } from "../lib/crafting/recipes.js";
+import { findWorkshop, loadCraftingProficiency, loadMaterialStacks, stackTotals } from "../lib/crafting/store.js";
+import type { FunctionContext, FunctionHandler } from "./types.js";
+
+const RequestSchema = z.object({
+  campaignId: z.string().uuid(),
+  characterId: z.string().uuid(),
+});
+
+function asRecord(value: unknown): Record<string, unknown> | null {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return null;
+  return value as Record<string, unknown>;
+}
+
+export const mythicCraftingBench: FunctionHandler = {
+  name: "mythic-crafting-bench",
+  auth: "required",
+  async handle(req: Request, ctx: FunctionContext): Promise<Response> {
+    const requestId = ctx.requestId;
+    const baseHeaders = { "Content-Type": "application/json", "x-request-id": requestId };
+
+    const rateLimited = await enforceRateLimit({
+      req,
+      route: "mythic-crafting-bench",
+      limit: 40,
+      windowMs: 60_000,
+      corsHeaders: {},
+      requestId,
+    });
+    if (rateLimited) return rateLimited;
+
+    try {
+      const user = await requireUser(req.headers);
+
+      const parsed = RequestSchema.safeParse(await req.json().catch(() => null));
+      if (!parsed.success) {
+        return new Response(JSON.stringify({ error: "Invalid request", code: "invalid_request", details: parsed.error.flatten(), requestId }), {
+          status: 400,
+          headers: baseHeaders,
+        });
+      }
+
+      const { campaignId, characterId } = parsed.data;
+      const svc = createServiceClient();
+
+      const access = await assertCampaignAccess(svc, campaignId, user.userId);
+
+      const { data: character, error: charErr } = await svc
+        .schema("mythic")
+        .from("characters")
+        .select("id, player_id, level, utility")
+        .eq("id", characterId)
+        .eq("campaign_id", campaignId)
+        .maybeSingle();
+      if (charErr) throw charErr;
+      if (!character) {
+        return new Response(JSON.stringify({ error: "Character not found", code: "character_not_found", requestId }), {
+          status: 404,
+          headers: baseHeaders,
+        });
+      }
+      if (!access.isDm && (character as any).player_id !== user.userId) {
+        return new Response(JSON.stringify({ error: "Not authorized for this character", code: "character_access_denied", requestId }), {
+          status: 403,
+          headers: baseHeaders,
+        });
+      }
+
+      const { data: rows, error: invErr } = await svc
+        .schema("mythic")
+        .from("inventory")
+        .select("id, item_id, quantity, item:items(*)")
+        .eq("character_id", characterId)
+        .eq("container", "backpack");
+      if (invErr) throw invErr;
+
+      const proficiency = await loadCraftingProficiency(svc, character as { id: string; level?: unknown; utility?: unknown });
+      const stacks = await loadMaterialStacks(svc, characterId);
+      const workshop = await findWorkshop(svc, campaignId);
+
+      const gear = ((rows ?? []) as Array<Record<string, unknown>>).flatMap((row) => {
+        const item = asRecord(row.item);
+        if (!item || !isGearSlot(item.slot)) return [];
+        return [{
+          inventory_id: row.id,
+          item_id: row.item_id,
+          quantity: Math.max(1, Math.floor(Number(row.quantity ?? 1))),
+          name: typeof item.name === "string" ? item.name : "Item",
+          rarity: typeof item.rarity === "string" ? item.rarity : "common",
+          slot: item.slot,
+          item_power: Number(item.item_power ?? 0),
+          salvage: salvageYield(item, proficiency),
+        }];
+      });
+      const totals = stackTotals(stacks);
+      const materials = Object.entries(MATERIAL_NAMES)
+        .map(([key, name]) => ({ key, name, quantity: totals[key as keyof typeof totals] ?? 0 }))
+        .filter((entry) => entry.quantity > 0);
+      const recipes = CRAFT_RECIPES.map((recipe) => ({
+        id: recipe.id,
+        name: recipe.name,
+        description: recipe.description,
+        materials: recipeMaterials(recipe, null),
+        focus_shards: recipe.focusShards,
+        rarity_step: recipe.rarityStep,
+        min_base_rarity: recipe.minBaseRarity,
+        max_base_rarity: recipe.maxBaseRarity,
+        min_rank: recipe.minRank,
+        locked: proficiency.rank < recipe.minRank,
+      }));
+
+      return new Response(JSON.stringify({
+        ok: true,
+        proficiency,
+        workshop,
+        canCraft: Boolean(workshop) || proficiency.field_crafting,
+        recipes,
+        materials,
+        gear,
+        requestId,
+      }), { status: 200, headers: baseHeaders });
+    } catch (error) {
+      if (error instanceof AuthError) {
+        const code = error.code === "auth_required" ? "auth_required" : "auth_invalid";
+        const message = code === "auth_required" ? "Authentication required" : "Invalid or expired authentication token";
+        return new Response(JSON.stringify({ error: message, code, requestId }), { status: 401, headers: baseHeaders });
+      }
+      if (error instanceof AuthzError) {
+        return new Response(JSON.stringify({ error: error.message, code: error.code, requestId }), { status: error.status, headers: baseHeaders });
+      }
+      const normalized = sanitizeError(error);
+      ctx.log.error("crafting.bench.failed", { request_id: requestId, error: normalized.message, code: normalized.code });
+      return new Response(
+        JSON.stringify({ ok: false, error: normalized.message || "Failed to load crafting bench", code: normalized.code ?? "crafting_bench_failed", requestId }),
+        { status: 500, headers: baseHeaders },
+      );
+    }
+  },
+};
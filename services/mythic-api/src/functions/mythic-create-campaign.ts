@@ -18,6 +18,7 @@ import {
   storeIdempotentResponse,
 } from "../shared/request_guard.js";
 import { sanitizeError } from "../shared/redact.js";
+import { RULE_VERSION } from "../lib/rules/version.js";
 import type { FunctionContext, FunctionHandler } from "./types.js";
 
 const TEMPLATE_KEYS = [
@@ -423,7 +424,7 @@ export const mythicCreateCampaign: FunctionHandler = {
   name: "mythic-create-campaign",
   auth: "required",
   async handle(req: Request, ctx: FunctionContext): Promise<Response> {
-    const rateLimited = enforceRateLimit({
+    const rateLimited = await enforceRateLimit({
       req,
       route: "mythic-create-campaign",
       limit: 25,
@@ -458,7 +459,7 @@ export const mythicCreateCampaign: FunctionHandler = {
       const idempotencyHeader = idempotencyKeyFromRequest(req);
       const idempotencyKey = idempotencyHeader ? `${user.userId}:${idempotencyHeader}` : null;
       if (idempotencyKey) {
-        const cached = getIdempotentResponse(idempotencyKey);
+        const cached = await getIdempotentResponse(idempotencyKey);
         if (cached) {
           ctx.log.info("create_campaign.idempotent_hit", { request_id: ctx.requestId, user_id: user.userId });
           return cached;
@@ -475,6 +476,7 @@ export const mythicCreateCampaign: FunctionHandler = {
           owner_id: user.userId,
           invite_code: inviteCodeValue,
           is_active: true,
+          rule_version: RULE_VERSION,
         })
         .select("id, name, description, invite_code, owner_id, is_active, updated_at")
         .single();
@@ -696,7 +698,7 @@ export const mythicCreateCampaign: FunctionHandler = {
       );
 
       if (idempotencyKey) {
-        storeIdempotentResponse(idempotencyKey, response, 60_000);
+        await storeIdempotentResponse(idempotencyKey, response, 60_000);
       }
 
       ctx.log.info("create_campaign.success", { request_id: ctx.requestId, campaign_id: campaign.id, user_id: user.userId, seed_status: seedStatus });
@@ -963,7 +963,7 @@ export const mythicCreateCharacter: FunctionHandler = {
             ],
           },
           "gpt-4o-mini",
-          { timeoutMs: CLASS_FORGE_PRIMARY_TIMEOUT_MS },
+          { timeoutMs: CLASS_FORGE_PRIMARY_TIMEOUT_MS, jsonMode: true },
         );
 
         provider = primary.provider;
@@ -1018,7 +1018,7 @@ export const mythicCreateCharacter: FunctionHandler = {
                 messages: repairMessages,
               },
               "gpt-4o-mini",
-              { timeoutMs: remaining },
+              { timeoutMs: remaining, jsonMode: true },
             );
 
             provider = repair.provider;
@@ -13,6 +13,8 @@ import {
   summarizeWorldContext,
   WORLD_FORGE_VERSION,
 } from "../lib/worldforge/index.js";
+import { describeTownGossip, readTownGossip } from "../lib/town/gossip.js";
+import { describeWorldClock, readWorldClock } from "../lib/environment/worldClock.js";
 import type { FunctionContext, FunctionHandler } from "./types.js";
 
 const RequestSchema = z.object({
@@ -92,6 +94,10 @@ function summarizeBoardState(boardType: unknown, stateJson: unknown) {
   const raw = stateJson && typeof stateJson === "object" ? stateJson as Record<string, unknown> : {};
   const companionPresence = sampleEntries(raw.companion_presence, 3);
   const companionCheckins = sampleEntries(raw.companion_checkins, 3);
+  const clock = readWorldClock(raw.world_clock);
+  const environment = clock
+    ? { period: clock.period, daylight: clock.daylight, weather: clock.weather, biome: clock.biome, summary: describeWorldClock(clock) }
+    : null;
   if (safeType === "town") {
     const worldSeed =
       raw.world_seed && typeof raw.world_seed === "object"
@@ -110,11 +116,26 @@ function summarizeBoardState(boardType: unknown, stateJson: unknown) {
       relationship: entry.relationship ?? null,
       grudge: entry.grudge ?? null,
       schedule_state: entry.schedule_state ?? null,
+      destination: entry.destination ?? null,
+      back_at_work: entry.back_at_work ?? null,
     }));
     const relationshipPressure = npcSamples.reduce((acc, entry) => {
       const rel = Number(entry.relationship ?? 0);
       return acc + (Number.isFinite(rel) ? Math.abs(Math.floor(rel)) : 0);
     }, 0);
+    const npcNames = new Map(townNpcs.map((entry) => [String(entry.id), String(entry.name ?? entry.id)]));
+    const gossipSamples = readTownGossip(raw.town_gossip).slice(-4).map((entry) => ({
+      story: describeTownGossip(entry),
+      about: entry.about_npc_name,
+      started_tick: entry.started_tick,
+      heard_by: Object.entries(entry.heard)
+        .filter(([npcId]) => npcId !== entry.about_npc_id)
+        .map(([npcId, heard]) => ({
+          name: npcNames.get(npcId) ?? npcId,
+          from: heard.from ? npcNames.get(heard.from) ?? heard.from : null,
+          tick: heard.tick,
+        })),
+    }));
     const grudgeSamples = npcSamples
       .filter((entry) => Number(entry.grudge ?? 0) > 0)
       .slice(0, 4)
@@ -133,12 +154,15 @@ function summarizeBoardState(boardType: unknown, stateJson: unknown) {
       objective_samples: sampleEntries(raw.objectives, 4),
       faction_count: Array.isArray(raw.factions_present) ? raw.factions_present.length : 0,
       guard_alertness: raw.guard_alertness ?? null,
+      town_clock: raw.town_clock ?? null,
       npc_count: townNpcs.length,
       npc_samples: npcSamples,
       relationship_pressure: relationshipPressure,
       grudge_samples: grudgeSamples,
+      gossip_samples: gossipSamples,
       companion_presence: companionPresence,
       companion_checkins: companionCheckins,
+      environment,
     };
   }
   if (safeType === "travel") {
@@ -155,15 +179,26 @@ function summarizeBoardState(boardType: unknown, stateJson: unknown) {
       discovery_samples: sampleEntries(raw.discovery_log, 4),
       companion_presence: companionPresence,
       companion_checkins: companionCheckins,
+      environment,
     };
   }
   if (safeType === "dungeon") {
     const roomGraph = raw.room_graph && typeof raw.room_graph === "object"
       ? raw.room_graph as Record<string, unknown>
       : null;
+    const fog = raw.fog_of_war && typeof raw.fog_of_war === "object"
+      ? raw.fog_of_war as Record<string, unknown>
+      : null;
+    // Only rooms the party can see go to the narrator, so fog keeps the boss and secrets hidden.
+    const revealed = Array.isArray(fog?.revealed) ? fog.revealed : null;
+    const visibleRooms = Array.isArray(roomGraph?.rooms) && revealed
+      ? roomGraph.rooms.filter((room) => revealed.includes((room as Record<string, unknown>)?.id))
+      : roomGraph?.rooms;
     return {
       room_count: Array.isArray(roomGraph?.rooms) ? roomGraph?.rooms.length : 0,
-      room_samples: sampleEntries(roomGraph?.rooms, 4),
+      revealed_room_count: Array.isArray(visibleRooms) ? visibleRooms.length : 0,
+      current_room_id: fog?.current_room_id ?? null,
+      room_samples: sampleEntries(visibleRooms, 4),
       loot_nodes: raw.loot_nodes ?? null,
       trap_signals: raw.trap_signals ?? null,
       faction_presence_count: Array.isArray(raw.faction_presence) ? raw.faction_presence.length : 0,
@@ -171,6 +206,7 @@ function summarizeBoardState(boardType: unknown, stateJson: unknown) {
       discovery_samples: sampleEntries(raw.discovery_log, 4),
       companion_presence: companionPresence,
       companion_checkins: companionCheckins,
+      environment,
     };
   }
   if (safeType === "combat") {
@@ -180,13 +216,17 @@ function summarizeBoardState(boardType: unknown, stateJson: unknown) {
       grid_width: grid?.width ?? null,
       grid_height: grid?.height ?? null,
       blocked_tile_count: Array.isArray(raw.blocked_tiles) ? raw.blocked_tiles.length : 0,
+      hazard_tile_count: Array.isArray(raw.hazard_tiles) ? raw.hazard_tiles.length : 0,
+      arena_source: raw.arena_source ?? null,
       seed: raw.seed ?? null,
       scene_cache: raw.scene_cache ?? null,
       companion_checkins: companionCheckins,
+      environment,
     };
   }
   return {
     board_type: safeType,
+    environment,
   };
 }
 
@@ -310,7 +350,7 @@ export const mythicDmContext: FunctionHandler = {
   name: "mythic-dm-context",
   auth: "required",
   async handle(req: Request, ctx: FunctionContext): Promise<Response> {
-    const rateLimited = enforceRateLimit({
+    const rateLimited = await enforceRateLimit({
       req,
       route: "mythic-dm-context",
       limit: 60,
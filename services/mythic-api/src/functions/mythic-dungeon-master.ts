@@ -19,7 +19,17 @@ import {
   parseDmNarratorOutput,
   type DmNarratorOutput,
 } from "../shared/turn_contract.js";
+import {
+  DM_STREAM_HEADERS,
+  DM_STREAM_PROTOCOL,
+  buildDmTurnEvents,
+  createDmTurnStream,
+  createNarrationExtractor,
+  encodeDmTurnReplay,
+  type DmTurnStream,
+} from "../shared/turn_stream.js";
 import { getConfig } from "../shared/env.js";
+import { publishCampaignEvent } from "../shared/campaign_channel.js";
 import {
   buildDmContextPayload,
   buildPromptWorldContextBlock,
@@ -28,6 +38,7 @@ import {
   summarizeWorldContext,
   WORLD_FORGE_VERSION,
 } from "../lib/worldforge/index.js";
+import { loadCampaignRules, lootRarityScale, scaleXpGrant } from "../lib/rules/houseRules.js";
 import {
   BANNED_PLAYER_PHRASES,
   buildBoardNarration,
@@ -41,6 +52,26 @@ import {
   type ToneMode,
 } from "../lib/presentation/index.js";
 import { generateProceduralNarration } from "../dm/proceduralNarrator/index.js";
+import {
+  loadPlayerModel,
+  playerModelTags,
+  recordPlayerModelSignal,
+  scoreDmTurn,
+  summarizePlayerModel,
+  type PlayerModelState,
+} from "../lib/playerModel/index.js";
+import { planQuestUpserts, saveQuestUpserts, tickCampaignQuests, type QuestUpsertPlan } from "../lib/quests/index.js";
+import { refreshRuntimeContractPostings, turnInContract, type ContractPayout } from "../lib/contracts/index.js";
+import {
+  claimPartyAction,
+  loadCombatNarrationRecord,
+  loadPartyMembers,
+  resolvePartyAction,
+  unqueuedDmTurnAllowed,
+  type PartyActionRow,
+} from "../lib/party/queue.js";
+import { describeTownGossip, readTownGossip } from "../lib/town/gossip.js";
+import { describeWorldClock, readWorldClock } from "../lib/environment/worldClock.js";
 import { buildAiVoicePromptTemplate, buildDmVoiceProfile } from "../dm/proceduralNarrator/voiceEngine.js";
 import type { FunctionContext, FunctionHandler } from "./types.js";
 
@@ -54,6 +85,7 @@ const RequestSchema = z.object({
   narratorMode: z.enum(["ai", "procedural", "hybrid"]).optional(),
   messages: z.array(MessageSchema).max(80),
   actionContext: z.record(z.unknown()).nullable().optional(),
+  partyActionId: z.string().uuid().optional(),
 });
 
 const config = getConfig();
@@ -118,7 +150,9 @@ OUTPUT CONTRACT (STRICT)
   Action labels must start with a strong verb and a concrete object (target, room, route, vendor, gate).
   Each action item must be an object with:
   - id (string), label (string), intent (enum), optional hint_key (string), optional prompt (string), optional payload (object).
-  - intent must be one of: quest_action, combat_start, combat_action, shop_action, open_panel, companion_action, dm_prompt, refresh.
+  - intent must be one of: quest_action, combat_start, combat_action, shop_action, open_panel, companion_action, camp_action, dm_prompt, refresh.
+  When the party is hurt or drained on a travel or dungeon board, you may suggest resting:
+  - intent "camp_action", optional payload {"guard": "sleep" | "watch" | "vigil"}. Never suggest it in town or combat.
   When suggesting a shop/vendor in town:
   - intent MUST be "shop_action"
   - payload MUST include {"vendorId": "<id from board.state_summary.vendors>"}.
@@ -128,7 +162,11 @@ OUTPUT CONTRACT (STRICT)
     - FACT_CREATE / FACT_SUPERSEDE (fact_key, data)
     - ENTITY_UPSERT (entity_key, entity_type, data, tags[])
     - REL_SET (subject_key, object_key, rel_type, data)
-    - QUEST_UPSERT (quest_key, data)
+    - QUEST_UPSERT (quest_key, data). data: title, description, brief_description, giver, state (available|active|completed|failed|abandoned),
+      importance (side|main|legendary), time_limit (turns), rewards {xp, coins, items[]}, objectives[] of
+      {id, type (kill|kill_type|collect|deliver|escort|explore|talk|protect|survive|craft|reach_level|use_item), description,
+      targetId, targetType, required, optional, hidden}. New quests need a title and objectives; kill_type targetType is the
+      creature family (last word of the enemy name). Progress is tracked by the server; only mark completed when it is.
     - LOCATION_STATE_UPDATE (location_key, data)
   - "roll_log": array of deterministic roll log entries (may be empty).
 - Optional keys: npcs, suggestions, loot, persistentData.
@@ -554,6 +592,7 @@ function canonicalIntent(value: string): NarratorUiAction["intent"] {
     key === "shop_action" ||
     key === "open_panel" ||
     key === "companion_action" ||
+    key === "camp_action" ||
     key === "dm_prompt" ||
     key === "refresh"
   ) {
@@ -564,6 +603,7 @@ function canonicalIntent(value: string): NarratorUiAction["intent"] {
   if (key === "panel" || key === "open_menu" || key === "open_panel" || key === "loadout" || key === "loadout_action" || key === "gear") return "open_panel";
   if (key === "shop" || key === "vendor") return "shop_action";
   if (key === "companion") return "companion_action";
+  if (key === "camp" || key === "rest" || key === "make_camp") return "camp_action";
   if (key === "prompt" || key === "narrate") return "dm_prompt";
   if (
     key === "board_transition_town" ||
@@ -648,6 +688,7 @@ function repairActionLabel(args: {
     return "Advance Quest";
   }
   if (args.intent === "companion_action") return "Follow Companion";
+  if (args.intent === "camp_action") return "Make Camp";
 
   const anchor = typeof args.boardSummary?.travel_goal === "string"
     ? args.boardSummary.travel_goal
@@ -698,6 +739,7 @@ function synthesizeActionPrompt(action: NarratorUiAction, boardType: string): st
   }
   if (action.intent === "combat_action") return "I focus that target and prepare the next strike.";
   if (action.intent === "companion_action") return "I follow companion guidance and request the next concrete step.";
+  if (action.intent === "camp_action") return "I make camp here, set a watch and rest until we can move again.";
   if (action.intent === "refresh") {
     return boardType === "combat"
       ? "Recheck turn order, target pressure, and immediate combat deltas from committed state."
@@ -756,6 +798,9 @@ function sanitizeUiActions(args: {
       if (boardType === "combat" && (intent === "quest_action" || intent === "combat_start")) {
         intent = "dm_prompt";
       }
+      if (intent === "camp_action" && boardType !== "travel" && boardType !== "dungeon") {
+        intent = "dm_prompt";
+      }
       const label = repairActionLabel({
         action,
         intent,
@@ -803,29 +848,7 @@ function sanitizeUiActions(args: {
   return deduped.slice(0, 6);
 }
 
-function streamOpenAiDelta(text: string): ReadableStream<Uint8Array> {
-  const encoder = new TextEncoder();
-  const chunkSize = 120;
-  return new ReadableStream<Uint8Array>({
-    start(controller) {
-      try {
-        for (let i = 0; i < text.length; i += chunkSize) {
-          const chunk = text.slice(i, i + chunkSize);
-          const payload = {
-            choices: [{ delta: { content: chunk } }],
-          };
-          controller.enqueue(encoder.encode(`data: ${JSON.stringify(payload)}\n\n`));
-        }
-        controller.enqueue(encoder.encode("data: [DONE]\n\n"));
-        controller.close();
-      } catch (error) {
-        controller.error(error);
-      }
-    },
-  });
-}
-
-async function readModelStreamText(response: Response): Promise<string> {
+async function readModelStreamText(response: Response, onDelta?: (text: string) => void): Promise<string> {
   if (!response.body) return "";
   const reader = response.body.getReader();
   const decoder = new TextDecoder();
@@ -854,10 +877,14 @@ async function readModelStreamText(response: Response): Promise<string> {
         const first = choices[0] && typeof choices[0] === "object" ? choices[0] as Record<string, unknown> : null;
         const delta = first && typeof first.delta === "object" ? first.delta as Record<string, unknown> : null;
         const message = first && typeof first.message === "object" ? first.message as Record<string, unknown> : null;
-        if (typeof delta?.content === "string") {
-          out += delta.content;
-        } else if (typeof message?.content === "string") {
-          out += message.content;
+        const content = typeof delta?.content === "string"
+          ? delta.content
+          : typeof message?.content === "string"
+            ? message.content
+            : null;
+        if (content) {
+          out += content;
+          onDelta?.(content);
         }
       } catch {
         // Ignore malformed event fragments.
@@ -949,6 +976,10 @@ function summarizeBoardState(boardType: unknown, stateJson: unknown) {
   const raw = stateJson && typeof stateJson === "object" ? stateJson as Record<string, unknown> : {};
   const companionPresence = sampleNarrativeEntries(raw.companion_presence, 3);
   const companionCheckins = sampleNarrativeEntries(raw.companion_checkins, 3);
+  const clock = readWorldClock(raw.world_clock);
+  const environment = clock
+    ? { period: clock.period, daylight: clock.daylight, weather: clock.weather, biome: clock.biome, summary: describeWorldClock(clock) }
+    : null;
   if (safeType === "town") {
     const worldSeed =
       raw.world_seed && typeof raw.world_seed === "object"
@@ -972,6 +1003,19 @@ function summarizeBoardState(boardType: unknown, stateJson: unknown) {
         return { id, name, services };
       })
       .filter((entry): entry is { id: string; name: string; services: string[] } => Boolean(entry));
+    const npcNames = new Map(
+      (Array.isArray(raw.town_npcs) ? raw.town_npcs : [])
+        .filter((entry): entry is Record<string, unknown> => Boolean(entry) && typeof entry === "object")
+        .map((entry) => [String(entry.id), String(entry.name ?? entry.id)]),
+    );
+    // Who in town has heard how the player treated whom, so NPC reactions can reference it.
+    const gossip = readTownGossip(raw.town_gossip).slice(-3).map((entry) => ({
+      story: describeTownGossip(entry),
+      heard_by: Object.keys(entry.heard)
+        .filter((npcId) => npcId !== entry.about_npc_id)
+        .map((npcId) => npcNames.get(npcId) ?? npcId)
+        .slice(0, 6),
+    }));
     return {
       template_key: raw.template_key ?? null,
       world_title: worldSeed?.title ?? null,
@@ -984,8 +1028,10 @@ function summarizeBoardState(boardType: unknown, stateJson: unknown) {
       objective_samples: sampleNarrativeEntries(raw.objectives, 4),
       faction_count: Array.isArray(raw.factions_present) ? raw.factions_present.length : 0,
       guard_alertness: raw.guard_alertness ?? null,
+      town_gossip: gossip,
       companion_presence: companionPresence,
       companion_checkins: companionCheckins,
+      environment,
     };
   }
   if (safeType === "travel") {
@@ -1001,21 +1047,33 @@ function summarizeBoardState(boardType: unknown, stateJson: unknown) {
       discovery_samples: sampleNarrativeEntries(raw.discovery_log, 4),
       companion_presence: companionPresence,
       companion_checkins: companionCheckins,
+      environment,
     };
   }
   if (safeType === "dungeon") {
     const roomGraph = raw.room_graph && typeof raw.room_graph === "object"
       ? raw.room_graph as Record<string, unknown>
       : null;
+    const fog = raw.fog_of_war && typeof raw.fog_of_war === "object"
+      ? raw.fog_of_war as Record<string, unknown>
+      : null;
+    // Only rooms the party can see go to the narrator, so fog keeps the boss and secrets hidden.
+    const revealed = Array.isArray(fog?.revealed) ? fog.revealed : null;
+    const visibleRooms = Array.isArray(roomGraph?.rooms) && revealed
+      ? roomGraph.rooms.filter((room) => revealed.includes((room as Record<string, unknown>)?.id))
+      : roomGraph?.rooms;
     return {
       room_count: Array.isArray(roomGraph?.rooms) ? roomGraph?.rooms.length : 0,
-      room_samples: sampleNarrativeEntries(roomGraph?.rooms, 4),
+      revealed_room_count: Array.isArray(visibleRooms) ? visibleRooms.length : 0,
+      current_room_id: fog?.current_room_id ?? null,
+      room_samples: sampleNarrativeEntries(visibleRooms, 4),
       loot_nodes: raw.loot_nodes ?? null,
       trap_signals: raw.trap_signals ?? null,
       faction_presence_count: Array.isArray(raw.faction_presence) ? raw.faction_presence.length : 0,
       discovery_samples: sampleNarrativeEntries(raw.discovery_log, 4),
       companion_presence: companionPresence,
       companion_checkins: companionCheckins,
+      environment,
     };
   }
   if (safeType === "combat") {
@@ -1025,13 +1083,17 @@ function summarizeBoardState(boardType: unknown, stateJson: unknown) {
       grid_width: grid?.width ?? null,
       grid_height: grid?.height ?? null,
       blocked_tile_count: Array.isArray(raw.blocked_tiles) ? raw.blocked_tiles.length : 0,
+      hazard_tile_count: Array.isArray(raw.hazard_tiles) ? raw.hazard_tiles.length : 0,
+      arena_source: raw.arena_source ?? null,
       seed: raw.seed ?? null,
       scene_cache: raw.scene_cache ?? null,
       companion_checkins: companionCheckins,
+      environment,
     };
   }
   return {
     board_type: safeType,
+    environment,
   };
 }
 
@@ -1473,7 +1535,8 @@ async function applyDeterministicStoryReward(args: {
     if (boardFlags.dungeon_traces_found === true) xp += 12;
     if (typeof actionPayload.job_action === "string" && actionPayload.job_action === "complete") xp += 24;
     if (typeof actionPayload.action === "string" && String(actionPayload.action).includes("loot")) xp += 8;
-    xp = clampInt(xp, 12, 120);
+    const rules = await loadCampaignRules(args.svc, args.campaignId);
+    xp = scaleXpGrant(clampInt(xp, 12, 120), rules.tunables);
 
     const xpResult = await args.svc.rpc("mythic_apply_xp", {
       character_id: characterId,
@@ -1512,7 +1575,7 @@ async function applyDeterministicStoryReward(args: {
 
     if (grantLoot) {
       const rewardSeed = stableIntFromText(`${args.turnSeed}:story_reward:item`);
-      const lootRarity = pickLootRarity(rewardSeed, `story:rarity:${args.turnId}`, level);
+      const lootRarity = pickLootRarity(rewardSeed, `story:rarity:${args.turnId}`, level, lootRarityScale(rules.tunables));
       const itemPayload = rollLootItem({
         seed: rewardSeed,
         label: `story:${args.turnId}:item`,
@@ -1638,6 +1701,7 @@ function synthesizeRecoveryPayload(args: {
   boardSummary: Record<string, unknown> | null;
   boardState: Record<string, unknown> | null;
   actionContext: Record<string, unknown> | null;
+  playerModelTags?: string[];
   lastErrors: string[];
 }): DmNarratorOutput {
   const context = args.actionContext ?? null;
@@ -1776,7 +1840,7 @@ function synthesizeRecoveryPayload(args: {
     };
   })();
   const playerReputationTags = (() => {
-    const tags: string[] = [];
+    const tags: string[] = [...(args.playerModelTags ?? [])].slice(0, 4);
     const behaviorFlags = Array.isArray(contextPayload?.behavior_flags)
       ? contextPayload.behavior_flags
       : [];
@@ -1839,6 +1903,7 @@ function synthesizeRecoveryPayload(args: {
     lastOpenerId: boardStatePresentation.last_board_opener_id ?? null,
   });
 
+  const environment = asObject(args.boardSummary?.environment);
   const enemyTraitsByCombatantId: Record<string, Partial<EnemyPersonalityTraits>> = {};
   for (const event of combatEventBatch) {
     const payload = asObject(event.payload);
@@ -1872,11 +1937,15 @@ function synthesizeRecoveryPayload(args: {
     sessionId: `${boardType}:${typeof context?.action_trace_id === "string" ? context.action_trace_id : "recovery"}`,
     eventId: `${typeof context?.action_id === "string" ? context.action_id : actionIntent}:${combatEventBatch.length}`,
     boardType,
-    biome: typeof args.boardSummary?.weather === "string"
+    biome: typeof environment?.biome === "string"
+      ? environment.biome
+      : typeof args.boardSummary?.weather === "string"
       ? args.boardSummary.weather
       : typeof args.boardSummary?.world_title === "string"
         ? args.boardSummary.world_title
         : null,
+    weather: typeof environment?.weather === "string" ? environment.weather : null,
+    timeOfDay: typeof environment?.period === "string" ? environment.period : null,
     tone: tone.tone,
     intensity: enemyThreatLevel >= 0.72 ? "high" : enemyThreatLevel <= 0.38 ? "low" : "med",
     actionSummary,
@@ -2102,539 +2171,601 @@ function synthesizeRecoveryPayload(args: {
   };
 }
 
-export const mythicDungeonMaster: FunctionHandler = {
-  name: "mythic-dungeon-master",
-  auth: "required",
-  async handle(req: Request, ctx: FunctionContext): Promise<Response> {
-    const rateLimited = enforceRateLimit({
-      req,
-      route: "mythic-dungeon-master",
-      limit: 24,
-      windowMs: 60_000,
-      corsHeaders: {},
-      requestId: ctx.requestId,
-    });
-    if (rateLimited) return rateLimited;
+async function runDmTurn(req: Request, ctx: FunctionContext, turnStream: DmTurnStream): Promise<Response> {
+  const rateLimited = await enforceRateLimit({
+    req,
+    route: "mythic-dungeon-master",
+    limit: 24,
+    windowMs: 60_000,
+    corsHeaders: {},
+    requestId: ctx.requestId,
+  });
+  if (rateLimited) return rateLimited;
 
-    try {
-      const user = await requireUser(req.headers);
+  try {
+    const user = await requireUser(req.headers);
+
+    const raw = await req.json().catch(() => null);
+    const parsed = RequestSchema.safeParse(raw);
+    if (!parsed.success) {
+      return new Response(JSON.stringify({ error: "Invalid request", code: "invalid_request", details: parsed.error.flatten(), requestId: ctx.requestId }), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
 
-      const raw = await req.json().catch(() => null);
-      const parsed = RequestSchema.safeParse(raw);
-      if (!parsed.success) {
-        return new Response(JSON.stringify({ error: "Invalid request", code: "invalid_request", details: parsed.error.flatten(), requestId: ctx.requestId }), {
-          status: 400,
-          headers: { "Content-Type": "application/json" },
+    const { campaignId, actionContext, narratorMode, partyActionId } = parsed.data;
+    let messages = parsed.data.messages;
+    const actionContextRecord = actionContext && typeof actionContext === "object"
+      ? actionContext as Record<string, unknown>
+      : null;
+    const actionContextNarratorMode = normalizeNarratorModeToken(actionContextRecord?.narrator_mode);
+    const bodyNarratorMode = normalizeNarratorModeToken(narratorMode);
+    const requestedNarratorMode = actionContextNarratorMode ?? bodyNarratorMode ?? config.dmNarratorMode;
+    const idempotencyHeader = idempotencyKeyFromRequest(req);
+    const idempotencyKey = idempotencyHeader ? `${user.userId}:${idempotencyHeader}` : null;
+    if (idempotencyKey) {
+      const cached = await getIdempotentResponse(idempotencyKey);
+      if (cached) {
+        ctx.log.info("dm.idempotent_hit", {
+          request_id: ctx.requestId,
+          campaign_id: campaignId,
+          user_id: user.userId,
         });
+        return cached;
       }
+    }
+    const svc = createServiceClient();
 
-      const { campaignId, messages, actionContext, narratorMode } = parsed.data;
-      const actionContextRecord = actionContext && typeof actionContext === "object"
-        ? actionContext as Record<string, unknown>
-        : null;
-      const actionContextNarratorMode = normalizeNarratorModeToken(actionContextRecord?.narrator_mode);
-      const bodyNarratorMode = normalizeNarratorModeToken(narratorMode);
-      const requestedNarratorMode = actionContextNarratorMode ?? bodyNarratorMode ?? config.dmNarratorMode;
-      const idempotencyHeader = idempotencyKeyFromRequest(req);
-      const idempotencyKey = idempotencyHeader ? `${user.userId}:${idempotencyHeader}` : null;
-      if (idempotencyKey) {
-        const cached = getIdempotentResponse(idempotencyKey);
-        if (cached) {
-          ctx.log.info("dm.idempotent_hit", {
-            request_id: ctx.requestId,
-            campaign_id: campaignId,
-            user_id: user.userId,
-          });
-          return cached;
-        }
+    await assertCampaignAccess(svc, campaignId, user.userId);
+
+    // Party queue turns narrate the accepted proposal, not whatever the resolving client typed.
+    let partyAction: PartyActionRow | null = null;
+    if (partyActionId) {
+      const claim = await claimPartyAction(svc, { campaignId, actionId: partyActionId });
+      if (!claim.ok) {
+        return new Response(JSON.stringify({ error: claim.message, code: claim.code, requestId: ctx.requestId }), {
+          status: 409,
+          headers: { "Content-Type": "application/json" },
+        });
       }
-      const svc = createServiceClient();
+      partyAction = claim.action;
+      const lastUser = [...messages].reverse().find((entry) => entry.role === "user");
+      if (lastUser?.content !== partyAction.prompt) {
+        messages = [...messages, { role: "user", content: partyAction.prompt }];
+      }
+    }
 
-      await assertCampaignAccess(svc, campaignId, user.userId);
+    const warnings: string[] = [];
+
+    // Turn context: compute next turn index and a deterministic seed up-front.
+    const { data: latestTurn, error: latestTurnErr } = await svc
+      .schema("mythic")
+      .from("turns")
+      .select("turn_index")
+      .eq("campaign_id", campaignId)
+      .order("turn_index", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+    if (latestTurnErr) {
+      ctx.log.error("dm.turn_index.failed", {
+        request_id: ctx.requestId,
+        campaign_id: campaignId,
+        hint: errMessage(latestTurnErr, "query failed"),
+      });
+      return new Response(
+        JSON.stringify({
+          error: "Turn engine not ready (missing mythic.turns). Apply migrations and retry.",
+          code: "turn_engine_not_ready",
+          details: { hint: errMessage(latestTurnErr, "query failed") },
+          requestId: ctx.requestId,
+        }),
+        { status: 503, headers: { "Content-Type": "application/json" } },
+      );
+    }
 
-      const warnings: string[] = [];
+    const expectedTurnIndex = (latestTurn?.turn_index ?? -1) + 1;
 
-      // Turn context: compute next turn index and a deterministic seed up-front.
-      const { data: latestTurn, error: latestTurnErr } = await svc
-        .schema("mythic")
-        .from("turns")
-        .select("turn_index")
-        .eq("campaign_id", campaignId)
-        .order("turn_index", { ascending: false })
-        .limit(1)
-        .maybeSingle();
-      if (latestTurnErr) {
-        ctx.log.error("dm.turn_index.failed", {
-          request_id: ctx.requestId,
-          campaign_id: campaignId,
-          hint: errMessage(latestTurnErr, "query failed"),
-        });
+    // Co-op parties take turns through the queue; an unclaimed turn here would race the other members.
+    if (!partyAction) {
+      const party = await loadPartyMembers(svc, campaignId);
+      const source = typeof actionContextRecord?.source === "string" ? actionContextRecord.source : null;
+      // Combat beats are checked against the session and combatant they name, not the client's source label.
+      const actionPayload = actionContextRecord?.payload && typeof actionContextRecord.payload === "object"
+        ? actionContextRecord.payload as Record<string, unknown>
+        : null;
+      const combatSessionId = typeof actionPayload?.combat_session_id === "string" ? actionPayload.combat_session_id : null;
+      const actorCombatantId = source === "combat_enemy_tick" ? actionPayload?.active_turn_combatant_id : actionPayload?.actor_combatant_id;
+      const combat = party.userIds.length > 1 && source?.startsWith("combat_") && combatSessionId
+        ? await loadCombatNarrationRecord(svc, {
+          campaignId,
+          combatSessionId,
+          actorCombatantId: typeof actorCombatantId === "string" ? actorCombatantId : null,
+        })
+        : null;
+      const allowed = unqueuedDmTurnAllowed({
+        partySize: party.userIds.length,
+        source,
+        userId: user.userId,
+        firstTurn: expectedTurnIndex === 0,
+        combat,
+        nowMs: Date.now(),
+      });
+      if (!allowed) {
         return new Response(
           JSON.stringify({
-            error: "Turn engine not ready (missing mythic.turns). Apply migrations and retry.",
-            code: "turn_engine_not_ready",
-            details: { hint: errMessage(latestTurnErr, "query failed") },
+            error: "This party takes turns through the action queue. Propose the action and resolve it once accepted.",
+            code: "party_claim_required",
             requestId: ctx.requestId,
           }),
-          { status: 503, headers: { "Content-Type": "application/json" } },
+          { status: 409, headers: { "Content-Type": "application/json" } },
         );
       }
+    }
+    const salt = config.mythicTurnSalt;
+    if (!salt) {
+      warnings.push("missing_turn_salt:determinism_weak");
+    }
+    const turnSeed = await computeTurnSeed({
+      campaignSeed: campaignId,
+      turnIndex: expectedTurnIndex,
+      playerId: user.userId,
+      salt,
+    });
 
-      const expectedTurnIndex = (latestTurn?.turn_index ?? -1) + 1;
-      const salt = config.mythicTurnSalt;
-      if (!salt) {
-        warnings.push("missing_turn_salt:determinism_weak");
-      }
-      const turnSeed = await computeTurnSeed({
-        campaignSeed: campaignId,
-        turnIndex: expectedTurnIndex,
-        playerId: user.userId,
-        salt,
-      });
+    const prng = createTurnPrng(turnSeed);
 
-      const prng = createTurnPrng(turnSeed);
+    // Canonical rules/script.
+    const [
+      { data: rulesRow, error: rulesError },
+      { data: scriptRow, error: scriptError },
+      { data: worldProfilePrimary, error: worldProfilePrimaryError },
+    ] = await Promise.all([
+      svc.schema("mythic").from("game_rules").select("name, version, rules").eq("name", "mythic-weave-rules-v1").maybeSingle(),
+      svc
+        .schema("mythic")
+        .from("generator_scripts")
+        .select("name, version, is_active, content")
+        .eq("name", "mythic-weave-core")
+        .eq("is_active", true)
+        .order("version", { ascending: false })
+        .limit(1)
+        .maybeSingle(),
+      svc
+        .schema("mythic")
+        .from("world_profiles")
+        .select("seed_title, seed_description, template_key, world_profile_json")
+        .eq("campaign_id", campaignId)
+        .maybeSingle(),
+    ]);
 
-      // Canonical rules/script.
-      const [
-        { data: rulesRow, error: rulesError },
-        { data: scriptRow, error: scriptError },
-        { data: worldProfilePrimary, error: worldProfilePrimaryError },
-      ] = await Promise.all([
-        svc.schema("mythic").from("game_rules").select("name, version, rules").eq("name", "mythic-weave-rules-v1").maybeSingle(),
-        svc
-          .schema("mythic")
-          .from("generator_scripts")
-          .select("name, version, is_active, content")
-          .eq("name", "mythic-weave-core")
-          .eq("is_active", true)
-          .order("version", { ascending: false })
-          .limit(1)
-          .maybeSingle(),
-        svc
-          .schema("mythic")
-          .from("world_profiles")
-          .select("seed_title, seed_description, template_key, world_profile_json")
-          .eq("campaign_id", campaignId)
-          .maybeSingle(),
-      ]);
-
-      if (rulesError) throw rulesError;
-      if (scriptError) throw scriptError;
-      if (worldProfilePrimaryError) {
-        warnings.push(`world_profiles unavailable: ${errMessage(worldProfilePrimaryError, "query failed")}`);
+    if (rulesError) throw rulesError;
+    if (scriptError) throw scriptError;
+    if (worldProfilePrimaryError) {
+      warnings.push(`world_profiles unavailable: ${errMessage(worldProfilePrimaryError, "query failed")}`);
+    }
+
+    let board: Record<string, unknown> | null = null;
+    {
+      const runtimeRows = await svc
+        .schema("mythic")
+        .from("campaign_runtime")
+        .select("id,campaign_id,mode,status,state_json,ui_hints_json,combat_session_id,updated_at")
+        .eq("campaign_id", campaignId)
+        .eq("status", "active")
+        .order("updated_at", { ascending: false })
+        .limit(2);
+      if (runtimeRows.error) {
+        warnings.push(`campaign_runtime unavailable: ${errMessage(runtimeRows.error, "query failed")}`);
+      } else {
+        const rows = ((runtimeRows.data ?? []) as Record<string, unknown>[]);
+        if (rows.length > 1) {
+          warnings.push("duplicate_active_runtime_rows_detected:using_latest_runtime_row");
+        }
+        const activeRuntime = rows[0] ?? null;
+        if (activeRuntime) {
+          const transitions = await svc
+            .schema("mythic")
+            .from("runtime_events")
+            .select("id,from_mode,to_mode,reason,payload_json,created_at")
+            .eq("campaign_id", campaignId)
+            .order("created_at", { ascending: false })
+            .limit(12);
+          if (transitions.error) {
+            warnings.push(`runtime_events unavailable: ${errMessage(transitions.error, "query failed")}`);
+          }
+          board = {
+            ...activeRuntime,
+            board_type: activeRuntime.mode,
+            recent_transitions: transitions.data ?? [],
+          };
+        }
       }
 
-      let board: Record<string, unknown> | null = null;
-      {
-        const runtimeRows = await svc
+      if (!board) {
+        const seedRuntime = await svc
           .schema("mythic")
           .from("campaign_runtime")
+          .insert({
+            campaign_id: campaignId,
+            mode: "town",
+            status: "active",
+            state_json: {},
+            ui_hints_json: {},
+          })
           .select("id,campaign_id,mode,status,state_json,ui_hints_json,combat_session_id,updated_at")
-          .eq("campaign_id", campaignId)
-          .eq("status", "active")
-          .order("updated_at", { ascending: false })
-          .limit(2);
-        if (runtimeRows.error) {
-          warnings.push(`campaign_runtime unavailable: ${errMessage(runtimeRows.error, "query failed")}`);
+          .single();
+        if (seedRuntime.error) {
+          warnings.push(`campaign_runtime seed failed: ${errMessage(seedRuntime.error, "query failed")}`);
         } else {
-          const rows = ((runtimeRows.data ?? []) as Record<string, unknown>[]);
-          if (rows.length > 1) {
-            warnings.push("duplicate_active_runtime_rows_detected:using_latest_runtime_row");
-          }
-          const activeRuntime = rows[0] ?? null;
-          if (activeRuntime) {
-            const transitions = await svc
-              .schema("mythic")
-              .from("runtime_events")
-              .select("id,from_mode,to_mode,reason,payload_json,created_at")
-              .eq("campaign_id", campaignId)
-              .order("created_at", { ascending: false })
-              .limit(12);
-            if (transitions.error) {
-              warnings.push(`runtime_events unavailable: ${errMessage(transitions.error, "query failed")}`);
-            }
-            board = {
-              ...activeRuntime,
-              board_type: activeRuntime.mode,
-              recent_transitions: transitions.data ?? [],
-            };
-          }
-        }
-
-        if (!board) {
-          const seedRuntime = await svc
-            .schema("mythic")
-            .from("campaign_runtime")
-            .insert({
-              campaign_id: campaignId,
-              mode: "town",
-              status: "active",
-              state_json: {},
-              ui_hints_json: {},
-            })
-            .select("id,campaign_id,mode,status,state_json,ui_hints_json,combat_session_id,updated_at")
-            .single();
-          if (seedRuntime.error) {
-            warnings.push(`campaign_runtime seed failed: ${errMessage(seedRuntime.error, "query failed")}`);
-          } else {
-            const runtime = seedRuntime.data as Record<string, unknown>;
-            board = {
-              ...runtime,
-              board_type: runtime.mode,
-              recent_transitions: [],
-            };
-          }
+          const runtime = seedRuntime.data as Record<string, unknown>;
+          board = {
+            ...runtime,
+            board_type: runtime.mode,
+            recent_transitions: [],
+          };
         }
       }
+    }
 
-      const preferredCharacterQuery = await svc
+    const preferredCharacterQuery = await svc
+      .schema("mythic")
+      .from("v_character_state_for_dm")
+      .select("*")
+      .eq("campaign_id", campaignId)
+      .eq("player_id", user.userId)
+      .order("updated_at", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    let character = preferredCharacterQuery.data;
+    if (preferredCharacterQuery.error) {
+      // Backward-compatible fallback for environments where the view is stale.
+      const fallbackQuery = await svc
         .schema("mythic")
         .from("v_character_state_for_dm")
         .select("*")
         .eq("campaign_id", campaignId)
         .eq("player_id", user.userId)
-        .order("updated_at", { ascending: false })
         .limit(1)
         .maybeSingle();
-
-      let character = preferredCharacterQuery.data;
-      if (preferredCharacterQuery.error) {
-        // Backward-compatible fallback for environments where the view is stale.
-        const fallbackQuery = await svc
-          .schema("mythic")
-          .from("v_character_state_for_dm")
-          .select("*")
-          .eq("campaign_id", campaignId)
-          .eq("player_id", user.userId)
-          .limit(1)
-          .maybeSingle();
-        if (fallbackQuery.error) {
-          throw fallbackQuery.error;
-        }
-        character = fallbackQuery.data;
-      }
-
-      let combat: unknown = null;
-      const combatSessionId = (board as { combat_session_id?: string | null } | null)?.combat_session_id ?? null;
-      if (combatSessionId) {
-        const { data: cs, error: csError } = await svc
-          .schema("mythic")
-          .from("v_combat_state_for_dm")
-          .select("combat_session_id, campaign_id, status, seed, scene_json, current_turn_index, dm_payload")
-          .eq("combat_session_id", combatSessionId)
-          .maybeSingle();
-        if (csError) throw csError;
-        combat = cs;
+      if (fallbackQuery.error) {
+        throw fallbackQuery.error;
       }
+      character = fallbackQuery.data;
+    }
 
-      const { data: dmCampaignState } = await svc
+    let combat: unknown = null;
+    const combatSessionId = (board as { combat_session_id?: string | null } | null)?.combat_session_id ?? null;
+    if (combatSessionId) {
+      const { data: cs, error: csError } = await svc
         .schema("mythic")
-        .from("dm_campaign_state")
-        .select("*")
-        .eq("campaign_id", campaignId)
+        .from("v_combat_state_for_dm")
+        .select("combat_session_id, campaign_id, status, seed, scene_json, current_turn_index, dm_payload")
+        .eq("combat_session_id", combatSessionId)
         .maybeSingle();
+      if (csError) throw csError;
+      combat = cs;
+    }
 
-      const { data: dmWorldTension } = await svc
-        .schema("mythic")
-        .from("dm_world_tension")
-        .select("*")
-        .eq("campaign_id", campaignId)
-        .maybeSingle();
+    const { data: dmCampaignState } = await svc
+      .schema("mythic")
+      .from("dm_campaign_state")
+      .select("*")
+      .eq("campaign_id", campaignId)
+      .maybeSingle();
+
+    let playerModelState: PlayerModelState | null = null;
+    try {
+      playerModelState = await loadPlayerModel(svc, campaignId, user.userId);
+    } catch (error) {
+      warnings.push(`dm_player_model unavailable: ${errMessage(error, "query failed")}`);
+    }
+    const playerModelSummary = playerModelState ? summarizePlayerModel(playerModelState) : null;
+    const playerModelTagList = playerModelSummary ? playerModelTags(playerModelSummary) : [];
+
+    const { data: dmWorldTension } = await svc
+      .schema("mythic")
+      .from("dm_world_tension")
+      .select("*")
+      .eq("campaign_id", campaignId)
+      .maybeSingle();
+
+    const { data: companionsRaw, error: companionsError } = await svc
+      .schema("mythic")
+      .from("campaign_companions")
+      .select("companion_id,name,archetype,voice,mood,cadence_turns,urgency_bias,metadata")
+      .eq("campaign_id", campaignId)
+      .order("companion_id", { ascending: true });
+    if (companionsError) {
+      warnings.push(`campaign_companions unavailable: ${errMessage(companionsError, "query failed")}`);
+    }
+
+    const compactRules = {
+      name: rulesRow?.name ?? "mythic-weave-rules-v1",
+      version: rulesRow?.version ?? null,
+      content_policy: (rulesRow?.rules as Record<string, unknown> | null)?.content_policy ?? null,
+      boards: (rulesRow?.rules as Record<string, unknown> | null)?.boards
+        ? {
+            types: ((rulesRow?.rules as Record<string, unknown>).boards as Record<string, unknown>).types ?? null,
+            transition_animation: ((rulesRow?.rules as Record<string, unknown>).boards as Record<string, unknown>)
+              .transition_animation ?? null,
+          }
+        : null,
+      combat_event_contract: (rulesRow?.rules as Record<string, unknown> | null)?.combat_event_contract
+        ? {
+            append_only: ((rulesRow?.rules as Record<string, unknown>).combat_event_contract as Record<string, unknown>)
+              .append_only ?? null,
+            event_types: ((rulesRow?.rules as Record<string, unknown>).combat_event_contract as Record<string, unknown>)
+              .event_types ?? null,
+          }
+        : null,
+    };
+
+    const compactScript = {
+      name: scriptRow?.name ?? "mythic-weave-core",
+      version: scriptRow?.version ?? null,
+      is_active: scriptRow?.is_active ?? null,
+      key_rules: [
+        "DB state is authoritative.",
+        "Combat/logs are append-only and deterministic.",
+        "Violence/gore allowed; mild sexuality/banter allowed; sexual violence/coercion forbidden.",
+        "Grid and board state are truth for narration.",
+      ],
+    };
 
-      const { data: companionsRaw, error: companionsError } = await svc
+    const compactBoard = compactBoardPayload(board);
+    const compactCharacter = compactCharacterPayload(character);
+    const compactCombat = compactCombatPayload(combat);
+    const boardPayloadRecord = asObject(compactBoard);
+    const boardSummaryRecord = asObject(boardPayloadRecord?.state_summary);
+    const boardStateRecord = asObject((board as Record<string, unknown> | null)?.state_json);
+    const worldSeedFromBoard = asObject(boardStateRecord?.world_seed ?? boardStateRecord?.worldSeed);
+    const worldSummaryFromBoard = asObject(boardStateRecord?.world_context ?? boardStateRecord?.worldContext);
+    const dmContextFromBoard = asObject(boardStateRecord?.dm_context ?? boardStateRecord?.dmContext);
+    const campaignContextFromBoard = asObject(boardStateRecord?.campaign_context ?? boardStateRecord?.campaignContext);
+    const worldStateFromBoard = asObject(boardStateRecord?.world_state ?? boardStateRecord?.worldState);
+    const worldProfilePrimaryRow = asObject(worldProfilePrimary);
+    let worldProfileJson = asObject(worldProfilePrimaryRow?.world_profile_json);
+    let worldSeedTitle = String(worldProfilePrimaryRow?.seed_title ?? worldSeedFromBoard?.title ?? campaignId).trim();
+    let worldSeedDescription = String(
+      worldProfilePrimaryRow?.seed_description
+        ?? worldSeedFromBoard?.description
+        ?? "World profile reconstructed from runtime state.",
+    ).trim();
+    let worldTemplateKey = typeof worldProfilePrimaryRow?.template_key === "string" && worldProfilePrimaryRow.template_key.trim().length > 0
+      ? worldProfilePrimaryRow.template_key.trim()
+      : "custom";
+    if (!worldProfileJson || Object.keys(worldProfileJson).length === 0) {
+      const fallbackProfile = await svc
         .schema("mythic")
-        .from("campaign_companions")
-        .select("companion_id,name,archetype,voice,mood,cadence_turns,urgency_bias,metadata")
+        .from("campaign_world_profiles")
+        .select("seed_title, seed_description, template_key, world_profile_json")
         .eq("campaign_id", campaignId)
-        .order("companion_id", { ascending: true });
-      if (companionsError) {
-        warnings.push(`campaign_companions unavailable: ${errMessage(companionsError, "query failed")}`);
+        .maybeSingle();
+      if (!fallbackProfile.error && fallbackProfile.data) {
+        const fallbackRow = asObject(fallbackProfile.data);
+        worldProfileJson = asObject(fallbackRow?.world_profile_json);
+        worldSeedTitle = String(fallbackRow?.seed_title ?? worldSeedTitle).trim() || worldSeedTitle;
+        worldSeedDescription = String(fallbackRow?.seed_description ?? worldSeedDescription).trim() || worldSeedDescription;
+        worldTemplateKey = typeof fallbackRow?.template_key === "string" && fallbackRow.template_key.trim().length > 0
+          ? fallbackRow.template_key.trim()
+          : worldTemplateKey;
+      } else if (fallbackProfile.error) {
+        warnings.push(`campaign_world_profiles unavailable: ${errMessage(fallbackProfile.error, "query failed")}`);
       }
-
-      const compactRules = {
-        name: rulesRow?.name ?? "mythic-weave-rules-v1",
-        version: rulesRow?.version ?? null,
-        content_policy: (rulesRow?.rules as Record<string, unknown> | null)?.content_policy ?? null,
-        boards: (rulesRow?.rules as Record<string, unknown> | null)?.boards
-          ? {
-              types: ((rulesRow?.rules as Record<string, unknown>).boards as Record<string, unknown>).types ?? null,
-              transition_animation: ((rulesRow?.rules as Record<string, unknown>).boards as Record<string, unknown>)
-                .transition_animation ?? null,
-            }
-          : null,
-        combat_event_contract: (rulesRow?.rules as Record<string, unknown> | null)?.combat_event_contract
-          ? {
-              append_only: ((rulesRow?.rules as Record<string, unknown>).combat_event_contract as Record<string, unknown>)
-                .append_only ?? null,
-              event_types: ((rulesRow?.rules as Record<string, unknown>).combat_event_contract as Record<string, unknown>)
-                .event_types ?? null,
-            }
-          : null,
-      };
-
-      const compactScript = {
-        name: scriptRow?.name ?? "mythic-weave-core",
-        version: scriptRow?.version ?? null,
-        is_active: scriptRow?.is_active ?? null,
-        key_rules: [
-          "DB state is authoritative.",
-          "Combat/logs are append-only and deterministic.",
-          "Violence/gore allowed; mild sexuality/banter allowed; sexual violence/coercion forbidden.",
-          "Grid and board state are truth for narration.",
-        ],
+    }
+    let worldForgeVersion = WORLD_FORGE_VERSION;
+    let campaignContextForPrompt = campaignContextFromBoard;
+    let worldSummaryForPrompt = worldSummaryFromBoard;
+    let dmContextForPrompt = dmContextFromBoard;
+    let worldSeedForPrompt = worldSeedFromBoard;
+    let worldStateForPrompt = worldStateFromBoard;
+    if (!campaignContextForPrompt || !worldSummaryForPrompt || !dmContextForPrompt || !worldSeedForPrompt) {
+      try {
+        const campaignContext = coerceCampaignContextFromProfile({
+          seedTitle: worldSeedTitle || "Mythic Campaign",
+          seedDescription: worldSeedDescription || "World profile reconstructed from runtime state.",
+          templateKey: worldTemplateKey,
+          worldProfileJson: worldProfileJson ?? {},
+        });
+        worldForgeVersion = campaignContext.worldForgeVersion;
+        campaignContextForPrompt = campaignContext as unknown as Record<string, unknown>;
+        worldSummaryForPrompt = summarizeWorldContext(campaignContext);
+        dmContextForPrompt = buildDmContextPayload(campaignContext, {
+          includeProfile: true,
+          narrativeLimit: 12,
+          tacticalLimit: 12,
+        });
+        worldSeedForPrompt = buildWorldSeedPayload(campaignContext, {
+          includeTitleDescription: true,
+          includeThemeTags: true,
+          includeToneVector: true,
+        });
+        worldStateForPrompt = campaignContext.worldContext.worldState as unknown as Record<string, unknown>;
+      } catch (error) {
+        warnings.push(`world_context_coerce_failed:${errMessage(error, "world context reconstruction failed")}`);
+      }
+    }
+    const boardDiscoveryFlags = asObject(boardStateRecord?.discovery_flags);
+    const introPendingBefore = boardDiscoveryFlags?.intro_pending === true;
+    const actionContextPayload = asObject(actionContextRecord?.payload);
+    const introMode = introPendingBefore
+      || (typeof actionContextRecord?.source === "string" && actionContextRecord.source === "campaign_intro_auto")
+      || actionContextPayload?.intro_opening === true;
+    const introVersion = Number.isFinite(Number(boardDiscoveryFlags?.intro_version))
+      ? Math.max(1, Number(boardDiscoveryFlags?.intro_version))
+      : 1;
+    const introSource = typeof boardDiscoveryFlags?.intro_source === "string"
+      ? boardDiscoveryFlags.intro_source
+      : "bootstrap";
+    const compactCompanions = Array.isArray(companionsRaw)
+      ? companionsRaw
+        .map((row) => asObject(row))
+        .filter((entry): entry is Record<string, unknown> => Boolean(entry))
+        .slice(0, 8)
+        .map((entry) => ({
+          companion_id: entry.companion_id ?? null,
+          name: entry.name ?? null,
+          archetype: entry.archetype ?? null,
+          voice: entry.voice ?? null,
+          mood: entry.mood ?? null,
+          cadence_turns: entry.cadence_turns ?? null,
+          urgency_bias: entry.urgency_bias ?? null,
+          metadata: asObject(entry.metadata) ?? null,
+        }))
+      : [];
+    const boardNarrativeSamples = (() => {
+      const rawBoard = asObject(board);
+      const state = asObject(rawBoard?.state_json);
+      if (!state) return null;
+      return {
+        rumors: sampleNarrativeEntries(state.rumors, 4),
+        objectives: sampleNarrativeEntries(state.objectives, 4),
+        discovery_log: sampleNarrativeEntries(state.discovery_log, 4),
+        companion_checkins: sampleNarrativeEntries(state.companion_checkins, 3),
       };
+    })();
 
-      const compactBoard = compactBoardPayload(board);
-      const compactCharacter = compactCharacterPayload(character);
-      const compactCombat = compactCombatPayload(combat);
-      const boardPayloadRecord = asObject(compactBoard);
-      const boardSummaryRecord = asObject(boardPayloadRecord?.state_summary);
-      const boardStateRecord = asObject((board as Record<string, unknown> | null)?.state_json);
-      const worldSeedFromBoard = asObject(boardStateRecord?.world_seed ?? boardStateRecord?.worldSeed);
-      const worldSummaryFromBoard = asObject(boardStateRecord?.world_context ?? boardStateRecord?.worldContext);
-      const dmContextFromBoard = asObject(boardStateRecord?.dm_context ?? boardStateRecord?.dmContext);
-      const campaignContextFromBoard = asObject(boardStateRecord?.campaign_context ?? boardStateRecord?.campaignContext);
-      const worldStateFromBoard = asObject(boardStateRecord?.world_state ?? boardStateRecord?.worldState);
-      const worldProfilePrimaryRow = asObject(worldProfilePrimary);
-      let worldProfileJson = asObject(worldProfilePrimaryRow?.world_profile_json);
-      let worldSeedTitle = String(worldProfilePrimaryRow?.seed_title ?? worldSeedFromBoard?.title ?? campaignId).trim();
-      let worldSeedDescription = String(
-        worldProfilePrimaryRow?.seed_description
-          ?? worldSeedFromBoard?.description
-          ?? "World profile reconstructed from runtime state.",
-      ).trim();
-      let worldTemplateKey = typeof worldProfilePrimaryRow?.template_key === "string" && worldProfilePrimaryRow.template_key.trim().length > 0
-        ? worldProfilePrimaryRow.template_key.trim()
-        : "custom";
-      if (!worldProfileJson || Object.keys(worldProfileJson).length === 0) {
-        const fallbackProfile = await svc
-          .schema("mythic")
-          .from("campaign_world_profiles")
-          .select("seed_title, seed_description, template_key, world_profile_json")
-          .eq("campaign_id", campaignId)
-          .maybeSingle();
-        if (!fallbackProfile.error && fallbackProfile.data) {
-          const fallbackRow = asObject(fallbackProfile.data);
-          worldProfileJson = asObject(fallbackRow?.world_profile_json);
-          worldSeedTitle = String(fallbackRow?.seed_title ?? worldSeedTitle).trim() || worldSeedTitle;
-          worldSeedDescription = String(fallbackRow?.seed_description ?? worldSeedDescription).trim() || worldSeedDescription;
-          worldTemplateKey = typeof fallbackRow?.template_key === "string" && fallbackRow.template_key.trim().length > 0
-            ? fallbackRow.template_key.trim()
-            : worldTemplateKey;
-        } else if (fallbackProfile.error) {
-          warnings.push(`campaign_world_profiles unavailable: ${errMessage(fallbackProfile.error, "query failed")}`);
+    // Consume deterministic rolls in a stable order. These are authoritative for the turn.
+    const rollContext = (() => {
+      const boardType = (compactBoard as Record<string, unknown> | null)?.board_type;
+      const bt = typeof boardType === "string" ? boardType : "unknown";
+      // A couple of general-purpose rolls used for pacing/scene variation.
+      const scene_variant = prng.next01("scene_variant", { board_type: bt });
+      const tension = prng.next01("tension", { board_type: bt });
+      // Board-specific rolls (kept minimal for now, but logged for replay).
+      const encounter = prng.next01("encounter_check", { board_type: bt });
+      const discovery = prng.next01("discovery_check", { board_type: bt });
+      return { board_type: bt, scene_variant, tension, encounter, discovery };
+    })();
+
+    const allowedVendorIds = (() => {
+      const vendors = (compactBoard as Record<string, unknown> | null)?.state_summary
+        && typeof (compactBoard as Record<string, unknown>).state_summary === "object"
+        ? ((compactBoard as Record<string, unknown>).state_summary as Record<string, unknown>).vendors
+        : null;
+      if (!Array.isArray(vendors)) return new Set<string>();
+      const ids = vendors
+        .map((entry) => (entry && typeof entry === "object" ? (entry as Record<string, unknown>).id : null))
+        .filter((id): id is string => typeof id === "string" && id.trim().length > 0)
+        .map((id) => id.trim());
+      return new Set(ids);
+    })();
+    const introPromptDirective = introMode
+      ? [
+        "INTRO MODE IS ACTIVE.",
+        "This is the first campaign entry and must provide immediate, concrete direction.",
+        "Narration must open the scenario tied to seeded world hooks, then present 3-4 actionable next moves.",
+        "runtime_delta.discovery_flags must set intro_pending=false.",
+      ].join("\n")
+      : "";
+    const worldPromptBlock = buildPromptWorldContextBlock({
+      worldForgeVersion,
+      worldSeed: worldSeedForPrompt,
+      worldContext: worldSummaryForPrompt,
+      dmContext: dmContextForPrompt,
+      worldState: worldStateForPrompt,
+      campaignContext: campaignContextForPrompt,
+      playerModel: playerModelSummary as unknown as Record<string, unknown> | null,
+    });
+    if (worldPromptBlock.meta.trimmed) {
+      warnings.push([
+        "world_prompt_budget_trimmed",
+        `raw=${worldPromptBlock.meta.rawChars}`,
+        `final=${worldPromptBlock.meta.finalChars}`,
+        `dropped=${worldPromptBlock.meta.droppedSections.join("|") || "none"}`,
+        `reduced=${worldPromptBlock.meta.reductions.join("|") || "none"}`,
+      ].join(":"));
+    }
+    const promptPresentationState = readPresentationState(boardStateRecord);
+    const promptBoardRow = asObject(compactBoard);
+    const promptBoardType = typeof promptBoardRow?.board_type === "string" ? promptBoardRow.board_type : "town";
+    const promptHooks = [
+      typeof boardSummaryRecord?.travel_goal === "string" ? boardSummaryRecord.travel_goal : null,
+      typeof boardSummaryRecord?.search_target === "string" ? boardSummaryRecord.search_target : null,
+      ...(Array.isArray(boardSummaryRecord?.objective_samples) ? boardSummaryRecord.objective_samples : []),
+      ...(Array.isArray(boardSummaryRecord?.rumor_samples) ? boardSummaryRecord.rumor_samples : []),
+    ]
+      .map((entry) => {
+        if (!entry) return "";
+        if (typeof entry === "string") return entry.trim();
+        if (typeof entry === "object") {
+          const row = entry as Record<string, unknown>;
+          const title = typeof row.title === "string" ? row.title : "";
+          const detail = typeof row.detail === "string" ? row.detail : "";
+          return `${title} ${detail}`.trim();
         }
-      }
-      let worldForgeVersion = WORLD_FORGE_VERSION;
-      let campaignContextForPrompt = campaignContextFromBoard;
-      let worldSummaryForPrompt = worldSummaryFromBoard;
-      let dmContextForPrompt = dmContextFromBoard;
-      let worldSeedForPrompt = worldSeedFromBoard;
-      let worldStateForPrompt = worldStateFromBoard;
-      if (!campaignContextForPrompt || !worldSummaryForPrompt || !dmContextForPrompt || !worldSeedForPrompt) {
-        try {
-          const campaignContext = coerceCampaignContextFromProfile({
-            seedTitle: worldSeedTitle || "Mythic Campaign",
-            seedDescription: worldSeedDescription || "World profile reconstructed from runtime state.",
-            templateKey: worldTemplateKey,
-            worldProfileJson: worldProfileJson ?? {},
-          });
-          worldForgeVersion = campaignContext.worldForgeVersion;
-          campaignContextForPrompt = campaignContext as unknown as Record<string, unknown>;
-          worldSummaryForPrompt = summarizeWorldContext(campaignContext);
-          dmContextForPrompt = buildDmContextPayload(campaignContext, {
-            includeProfile: true,
-            narrativeLimit: 12,
-            tacticalLimit: 12,
-          });
-          worldSeedForPrompt = buildWorldSeedPayload(campaignContext, {
-            includeTitleDescription: true,
-            includeThemeTags: true,
-            includeToneVector: true,
-          });
-          worldStateForPrompt = campaignContext.worldContext.worldState as unknown as Record<string, unknown>;
-        } catch (error) {
-          warnings.push(`world_context_coerce_failed:${errMessage(error, "world context reconstruction failed")}`);
+        return "";
+      })
+      .filter((entry) => entry.length > 0)
+      .slice(0, 5);
+    const promptToneVector = (() => {
+      const worldSeed = asObject(worldSeedForPrompt) ?? {};
+      const vector = asObject(worldSeed.tone_vector ?? worldSeed.toneVector) ?? {};
+      return asNumberRecord(vector);
+    })();
+    const promptVoiceProfile = buildDmVoiceProfile({
+      seedKey: `${campaignId}:${expectedTurnIndex}:ai-voice`,
+      worldToneVector: promptToneVector,
+    });
+    const promptPlayerHpPct = (() => {
+      const resources = asObject(asObject(compactCharacter)?.resources) ?? {};
+      const bars = Array.isArray(resources.bars) ? resources.bars : [];
+      const firstBar = bars.find((entry) => entry && typeof entry === "object") as Record<string, unknown> | undefined;
+      const current = Number(firstBar?.current ?? Number.NaN);
+      const max = Number(firstBar?.max ?? Number.NaN);
+      if (!Number.isFinite(current) || !Number.isFinite(max) || max <= 0) return 0.65;
+      return Math.max(0, Math.min(1, current / max));
+    })();
+    const promptThreatLevel = (() => {
+      const combatRow = asObject(compactCombat) ?? {};
+      const events = Array.isArray(combatRow?.recent_events) ? combatRow.recent_events : [];
+      if (events.length === 0) return 0.45;
+      let score = 0.3;
+      for (const entry of events) {
+        const row = asObject(entry) ?? {};
+        const amount = Number(row.amount ?? Number.NaN);
+        if (Number.isFinite(amount) && amount > 0) {
+          score += Math.min(0.15, amount / 250);
+        } else {
+          score += 0.03;
         }
       }
-      const boardDiscoveryFlags = asObject(boardStateRecord?.discovery_flags);
-      const introPendingBefore = boardDiscoveryFlags?.intro_pending === true;
-      const actionContextPayload = asObject(actionContextRecord?.payload);
-      const introMode = introPendingBefore
-        || (typeof actionContextRecord?.source === "string" && actionContextRecord.source === "campaign_intro_auto")
-        || actionContextPayload?.intro_opening === true;
-      const introVersion = Number.isFinite(Number(boardDiscoveryFlags?.intro_version))
-        ? Math.max(1, Number(boardDiscoveryFlags?.intro_version))
-        : 1;
-      const introSource = typeof boardDiscoveryFlags?.intro_source === "string"
-        ? boardDiscoveryFlags.intro_source
-        : "bootstrap";
-      const compactCompanions = Array.isArray(companionsRaw)
-        ? companionsRaw
-          .map((row) => asObject(row))
-          .filter((entry): entry is Record<string, unknown> => Boolean(entry))
-          .slice(0, 8)
-          .map((entry) => ({
-            companion_id: entry.companion_id ?? null,
-            name: entry.name ?? null,
-            archetype: entry.archetype ?? null,
-            voice: entry.voice ?? null,
-            mood: entry.mood ?? null,
-            cadence_turns: entry.cadence_turns ?? null,
-            urgency_bias: entry.urgency_bias ?? null,
-            metadata: asObject(entry.metadata) ?? null,
-          }))
-        : [];
-      const boardNarrativeSamples = (() => {
-        const rawBoard = asObject(board);
-        const state = asObject(rawBoard?.state_json);
-        if (!state) return null;
-        return {
-          rumors: sampleNarrativeEntries(state.rumors, 4),
-          objectives: sampleNarrativeEntries(state.objectives, 4),
-          discovery_log: sampleNarrativeEntries(state.discovery_log, 4),
-          companion_checkins: sampleNarrativeEntries(state.companion_checkins, 3),
-        };
-      })();
-
-      // Consume deterministic rolls in a stable order. These are authoritative for the turn.
-      const rollContext = (() => {
-        const boardType = (compactBoard as Record<string, unknown> | null)?.board_type;
-        const bt = typeof boardType === "string" ? boardType : "unknown";
-        // A couple of general-purpose rolls used for pacing/scene variation.
-        const scene_variant = prng.next01("scene_variant", { board_type: bt });
-        const tension = prng.next01("tension", { board_type: bt });
-        // Board-specific rolls (kept minimal for now, but logged for replay).
-        const encounter = prng.next01("encounter_check", { board_type: bt });
-        const discovery = prng.next01("discovery_check", { board_type: bt });
-        return { board_type: bt, scene_variant, tension, encounter, discovery };
-      })();
-
-      const allowedVendorIds = (() => {
-        const vendors = (compactBoard as Record<string, unknown> | null)?.state_summary
-          && typeof (compactBoard as Record<string, unknown>).state_summary === "object"
-          ? ((compactBoard as Record<string, unknown>).state_summary as Record<string, unknown>).vendors
-          : null;
-        if (!Array.isArray(vendors)) return new Set<string>();
-        const ids = vendors
-          .map((entry) => (entry && typeof entry === "object" ? (entry as Record<string, unknown>).id : null))
-          .filter((id): id is string => typeof id === "string" && id.trim().length > 0)
-          .map((id) => id.trim());
-        return new Set(ids);
-      })();
-      const introPromptDirective = introMode
-        ? [
-          "INTRO MODE IS ACTIVE.",
-          "This is the first campaign entry and must provide immediate, concrete direction.",
-          "Narration must open the scenario tied to seeded world hooks, then present 3-4 actionable next moves.",
-          "runtime_delta.discovery_flags must set intro_pending=false.",
-        ].join("\n")
-        : "";
-      const worldPromptBlock = buildPromptWorldContextBlock({
-        worldForgeVersion,
-        worldSeed: worldSeedForPrompt,
-        worldContext: worldSummaryForPrompt,
-        dmContext: dmContextForPrompt,
-        worldState: worldStateForPrompt,
-        campaignContext: campaignContextForPrompt,
-      });
-      if (worldPromptBlock.meta.trimmed) {
-        warnings.push([
-          "world_prompt_budget_trimmed",
-          `raw=${worldPromptBlock.meta.rawChars}`,
-          `final=${worldPromptBlock.meta.finalChars}`,
-          `dropped=${worldPromptBlock.meta.droppedSections.join("|") || "none"}`,
-          `reduced=${worldPromptBlock.meta.reductions.join("|") || "none"}`,
-        ].join(":"));
+      return Math.max(0, Math.min(1, score));
+    })();
+    const promptReputationTags = (() => {
+      const tags: string[] = [...playerModelTagList];
+      const behavior = asObject(asObject(dmCampaignState)?.behavior_flags) ?? {};
+      for (const [key, value] of Object.entries(behavior)) {
+        if (value === true) tags.push(key);
       }
-      const promptPresentationState = readPresentationState(boardStateRecord);
-      const promptBoardRow = asObject(compactBoard);
-      const promptBoardType = typeof promptBoardRow?.board_type === "string" ? promptBoardRow.board_type : "town";
-      const promptHooks = [
-        typeof boardSummaryRecord?.travel_goal === "string" ? boardSummaryRecord.travel_goal : null,
-        typeof boardSummaryRecord?.search_target === "string" ? boardSummaryRecord.search_target : null,
-        ...(Array.isArray(boardSummaryRecord?.objective_samples) ? boardSummaryRecord.objective_samples : []),
-        ...(Array.isArray(boardSummaryRecord?.rumor_samples) ? boardSummaryRecord.rumor_samples : []),
-      ]
-        .map((entry) => {
-          if (!entry) return "";
-          if (typeof entry === "string") return entry.trim();
-          if (typeof entry === "object") {
-            const row = entry as Record<string, unknown>;
-            const title = typeof row.title === "string" ? row.title : "";
-            const detail = typeof row.detail === "string" ? row.detail : "";
-            return `${title} ${detail}`.trim();
-          }
-          return "";
-        })
-        .filter((entry) => entry.length > 0)
-        .slice(0, 5);
-      const promptToneVector = (() => {
-        const worldSeed = asObject(worldSeedForPrompt) ?? {};
-        const vector = asObject(worldSeed.tone_vector ?? worldSeed.toneVector) ?? {};
-        return asNumberRecord(vector);
-      })();
-      const promptVoiceProfile = buildDmVoiceProfile({
-        seedKey: `${campaignId}:${expectedTurnIndex}:ai-voice`,
+      return Array.from(new Set(tags)).slice(0, 8);
+    })();
+    const aiVoicePromptTemplate = buildAiVoicePromptTemplate({
+      context: {
+        boardType: promptBoardType,
+        biome: typeof boardSummaryRecord?.weather === "string"
+          ? boardSummaryRecord.weather
+          : promptBoardType,
+        activeHooks: promptHooks,
+        factionTension: typeof boardSummaryRecord?.faction_count === "number"
+          ? `${boardSummaryRecord.faction_count} factions active`
+          : typeof boardSummaryRecord?.guard_alertness === "number"
+            ? `guard alertness ${Math.round(boardSummaryRecord.guard_alertness * 100)}%`
+            : "moderate",
+        playerHpPct: promptPlayerHpPct,
+        enemyThreatLevel: promptThreatLevel,
+        recentEvents: [],
+        playerReputationTags: promptReputationTags,
         worldToneVector: promptToneVector,
-      });
-      const promptPlayerHpPct = (() => {
-        const resources = asObject(asObject(compactCharacter)?.resources) ?? {};
-        const bars = Array.isArray(resources.bars) ? resources.bars : [];
-        const firstBar = bars.find((entry) => entry && typeof entry === "object") as Record<string, unknown> | undefined;
-        const current = Number(firstBar?.current ?? Number.NaN);
-        const max = Number(firstBar?.max ?? Number.NaN);
-        if (!Number.isFinite(current) || !Number.isFinite(max) || max <= 0) return 0.65;
-        return Math.max(0, Math.min(1, current / max));
-      })();
-      const promptThreatLevel = (() => {
-        const combatRow = asObject(compactCombat) ?? {};
-        const events = Array.isArray(combatRow?.recent_events) ? combatRow.recent_events : [];
-        if (events.length === 0) return 0.45;
-        let score = 0.3;
-        for (const entry of events) {
-          const row = asObject(entry) ?? {};
-          const amount = Number(row.amount ?? Number.NaN);
-          if (Number.isFinite(amount) && amount > 0) {
-            score += Math.min(0.15, amount / 250);
-          } else {
-            score += 0.03;
-          }
-        }
-        return Math.max(0, Math.min(1, score));
-      })();
-      const promptReputationTags = (() => {
-        const tags: string[] = [];
-        const behavior = asObject(asObject(dmCampaignState)?.behavior_flags) ?? {};
-        for (const [key, value] of Object.entries(behavior)) {
-          if (value === true) tags.push(key);
-        }
-        return tags.slice(0, 8);
-      })();
-      const aiVoicePromptTemplate = buildAiVoicePromptTemplate({
-        context: {
-          boardType: promptBoardType,
-          biome: typeof boardSummaryRecord?.weather === "string"
-            ? boardSummaryRecord.weather
-            : promptBoardType,
-          activeHooks: promptHooks,
-          factionTension: typeof boardSummaryRecord?.faction_count === "number"
-            ? `${boardSummaryRecord.faction_count} factions active`
-            : typeof boardSummaryRecord?.guard_alertness === "number"
-              ? `guard alertness ${Math.round(boardSummaryRecord.guard_alertness * 100)}%`
-              : "moderate",
-          playerHpPct: promptPlayerHpPct,
-          enemyThreatLevel: promptThreatLevel,
-          recentEvents: [],
-          playerReputationTags: promptReputationTags,
-          worldToneVector: promptToneVector,
-          dmVoiceProfile: promptVoiceProfile,
-        },
-        recentLines: promptPresentationState.recent_lines ?? [],
-        recentFragments: promptPresentationState.recent_fragments ?? [],
-      });
+        dmVoiceProfile: promptVoiceProfile,
+      },
+      recentLines: promptPresentationState.recent_lines ?? [],
+      recentFragments: promptPresentationState.recent_fragments ?? [],
+    });
 
-      const systemPrompt = `
+    const systemPrompt = `
 You are the Mythic Weave Dungeon Master entity.
 You must narrate a living dungeon comic that strictly matches authoritative DB state.
 
@@ -2702,836 +2833,1037 @@ ${introPromptDirective}
 ${jsonOnlyContract()}
 `;
 
-      const requestedModel = "gpt-4o-mini";
-      ctx.log.info("dm.request.start", {
-        request_id: ctx.requestId,
-        campaign_id: campaignId,
-        user_id: user.userId,
-        board_type: (compactBoard as Record<string, unknown> | null)?.board_type ?? null,
-        has_character: Boolean(compactCharacter),
-        has_combat: Boolean(compactCombat),
-        model: requestedModel,
-        provider: "openai",
-        warning_count: warnings.length,
-        intro_mode: introMode,
-        intro_pending_before: introPendingBefore,
-        world_prompt_chars: worldPromptBlock.meta.finalChars,
-        world_prompt_budget_chars: worldPromptBlock.meta.maxChars,
-        world_prompt_trimmed: worldPromptBlock.meta.trimmed,
-        prompt_chars: systemPrompt.length,
-        narrator_mode: requestedNarratorMode,
-      });
-      ctx.log.info("dm.intro.mode", {
-        request_id: ctx.requestId,
-        campaign_id: campaignId,
-        intro_mode: introMode,
-        intro_pending_before: introPendingBefore,
-        intro_version: introVersion,
-        intro_source: introSource,
-      });
-
-      const compactMessages = compactModelMessages(messages);
-      const isFreeformNarrationTurn = actionContextRecord?.intent === "dm_prompt";
-      const maxAttempts = introMode || isFreeformNarrationTurn ? 3 : 2;
-      let lastErrors: string[] = [];
-      let dmText = "";
-      let dmParsed: ReturnType<typeof parseDmNarratorOutput> | null = null;
-      let validationAttempts = 0;
-      let dmRecoveryUsed = false;
-      let dmRecoveryReason: string | null = null;
-      let dmFastRecovery = false;
-      let dmNarratorSource: "ai" | "procedural" = requestedNarratorMode === "procedural" ? "procedural" : "ai";
-      let proceduralError: string | null = null;
-      let introCleared = false;
-      const actionBoardType = (() => {
-        const boardTypeFromPayload = typeof boardPayloadRecord?.board_type === "string"
-          ? String(boardPayloadRecord.board_type)
-          : "town";
-        const hasCombatEventBatch = Array.isArray(actionContextRecord?.combat_event_batch)
-          && actionContextRecord.combat_event_batch.length > 0;
-        if (hasCombatEventBatch) return "combat";
-        return boardTypeFromPayload;
-      })();
-      const fallbackVendorId = Array.from(allowedVendorIds.values())[0] ?? null;
-      const buildIntroFallbackActions = (): NarratorUiAction[] => {
-        const vendors = extractVendorsFromBoardSummary(boardSummaryRecord);
-        const base: NarratorUiAction[] = [
-          {
-            id: "intro-opening-brief",
-            label: "Read Local Briefing",
-            intent: "dm_prompt",
-            hint_key: "intro:opening_brief",
-            prompt: "Open with the immediate threat, best leverage path, and first concrete move from board truth.",
-            payload: { intro_opening: true, board_feature: "notice_board" },
-          },
-          {
-            id: "intro-opening-travel",
-            label: "Scout Outer Route",
-            intent: "quest_action",
-            boardTarget: "travel",
-            hint_key: "intro:travel_probe",
-            prompt: "I scout the outer route and pressure the first high-value lead.",
-            payload: { intro_opening: true, mode: "travel", travel_probe: "scout_route" },
-          },
-          {
-            id: "intro-opening-dungeon",
-            label: "Press The Hotspot",
-            intent: "quest_action",
-            boardTarget: "dungeon",
-            hint_key: "intro:dungeon_push",
-            prompt: "I press the nearest hotspot and force an immediate consequence.",
-            payload: { intro_opening: true, mode: "dungeon", search_target: "hotspot" },
-          },
-        ];
-        if (vendors[0]) {
-          base.splice(1, 0, {
-            id: `intro-opening-shop-${vendors[0].id}`,
-            label: `Check ${vendors[0].name}`,
-            intent: "shop_action",
-            hint_key: "intro:vendor_scan",
-            payload: { vendorId: vendors[0].id, intro_opening: true },
-            prompt: `I check ${vendors[0].name} for mission-critical supplies and leverage.`,
-          });
-        }
-        return sanitizeUiActions({
-          actions: base,
-          boardType: actionBoardType,
-          boardSummary: boardSummaryRecord,
-        }).slice(0, 4);
-      };
-      const applyIntroTurnNormalization = (payload: DmNarratorOutput): DmNarratorOutput => {
-        if (!introMode) return payload;
+    const requestedModel = "gpt-4o-mini";
+    ctx.log.info("dm.request.start", {
+      request_id: ctx.requestId,
+      campaign_id: campaignId,
+      user_id: user.userId,
+      board_type: (compactBoard as Record<string, unknown> | null)?.board_type ?? null,
+      has_character: Boolean(compactCharacter),
+      has_combat: Boolean(compactCombat),
+      model: requestedModel,
+      provider: "openai",
+      warning_count: warnings.length,
+      intro_mode: introMode,
+      intro_pending_before: introPendingBefore,
+      world_prompt_chars: worldPromptBlock.meta.finalChars,
+      world_prompt_budget_chars: worldPromptBlock.meta.maxChars,
+      world_prompt_trimmed: worldPromptBlock.meta.trimmed,
+      prompt_chars: systemPrompt.length,
+      narrator_mode: requestedNarratorMode,
+    });
+    ctx.log.info("dm.intro.mode", {
+      request_id: ctx.requestId,
+      campaign_id: campaignId,
+      intro_mode: introMode,
+      intro_pending_before: introPendingBefore,
+      intro_version: introVersion,
+      intro_source: introSource,
+    });
 
-        const fallbackActions = buildIntroFallbackActions();
-        const mergedActions = sanitizeUiActions({
-          actions: [...(payload.ui_actions ?? []), ...fallbackActions],
-          boardType: actionBoardType,
-          boardSummary: boardSummaryRecord,
+    const compactMessages = compactModelMessages(messages);
+    const isFreeformNarrationTurn = actionContextRecord?.intent === "dm_prompt";
+    const maxAttempts = introMode || isFreeformNarrationTurn ? 3 : 2;
+    let lastErrors: string[] = [];
+    let dmText = "";
+    let dmParsed: ReturnType<typeof parseDmNarratorOutput> | null = null;
+    let validationAttempts = 0;
+    let dmRecoveryUsed = false;
+    let dmRecoveryReason: string | null = null;
+    let dmFastRecovery = false;
+    let dmNarratorSource: "ai" | "procedural" = requestedNarratorMode === "procedural" ? "procedural" : "ai";
+    let dmAiModel = requestedModel;
+    let dmAiProvider: string | null = null;
+    let proceduralError: string | null = null;
+    let introCleared = false;
+    const actionBoardType = (() => {
+      const boardTypeFromPayload = typeof boardPayloadRecord?.board_type === "string"
+        ? String(boardPayloadRecord.board_type)
+        : "town";
+      const hasCombatEventBatch = Array.isArray(actionContextRecord?.combat_event_batch)
+        && actionContextRecord.combat_event_batch.length > 0;
+      if (hasCombatEventBatch) return "combat";
+      return boardTypeFromPayload;
+    })();
+    const fallbackVendorId = Array.from(allowedVendorIds.values())[0] ?? null;
+    const buildIntroFallbackActions = (): NarratorUiAction[] => {
+      const vendors = extractVendorsFromBoardSummary(boardSummaryRecord);
+      const base: NarratorUiAction[] = [
+        {
+          id: "intro-opening-brief",
+          label: "Read Local Briefing",
+          intent: "dm_prompt",
+          hint_key: "intro:opening_brief",
+          prompt: "Open with the immediate threat, best leverage path, and first concrete move from board truth.",
+          payload: { intro_opening: true, board_feature: "notice_board" },
+        },
+        {
+          id: "intro-opening-travel",
+          label: "Scout Outer Route",
+          intent: "quest_action",
+          boardTarget: "travel",
+          hint_key: "intro:travel_probe",
+          prompt: "I scout the outer route and pressure the first high-value lead.",
+          payload: { intro_opening: true, mode: "travel", travel_probe: "scout_route" },
+        },
+        {
+          id: "intro-opening-dungeon",
+          label: "Press The Hotspot",
+          intent: "quest_action",
+          boardTarget: "dungeon",
+          hint_key: "intro:dungeon_push",
+          prompt: "I press the nearest hotspot and force an immediate consequence.",
+          payload: { intro_opening: true, mode: "dungeon", search_target: "hotspot" },
+        },
+      ];
+      if (vendors[0]) {
+        base.splice(1, 0, {
+          id: `intro-opening-shop-${vendors[0].id}`,
+          label: `Check ${vendors[0].name}`,
+          intent: "shop_action",
+          hint_key: "intro:vendor_scan",
+          payload: { vendorId: vendors[0].id, intro_opening: true },
+          prompt: `I check ${vendors[0].name} for mission-critical supplies and leverage.`,
         });
-        const dedupedActions: NarratorUiAction[] = [];
-        const seenActionKeys = new Set<string>();
-        for (const action of mergedActions) {
-          const key = `${action.hint_key ?? action.id}:${action.intent}`;
-          if (seenActionKeys.has(key)) continue;
-          seenActionKeys.add(key);
-          dedupedActions.push(action);
-          if (dedupedActions.length >= 4) break;
-        }
-        let introActions = dedupedActions;
-        if (introActions.length < 3) {
-          introActions = fallbackActions.slice(0, 4);
-        }
-
-        const introScene = asObject(payload.scene) ?? {};
-        const environment = typeof introScene.environment === "string"
-          ? introScene.environment
-          : typeof boardSummaryRecord?.weather === "string"
-            ? boardSummaryRecord.weather
-            : titleCaseWords(actionBoardType);
-        const mood = typeof introScene.mood === "string" ? introScene.mood : "urgent onboarding momentum";
-        const focus = typeof introScene.focus === "string"
-          ? introScene.focus
-          : "Immediate starter hooks and first tactical commitment.";
-        const travelGoal = typeof introScene.travel_goal === "string"
-          ? introScene.travel_goal
-          : typeof boardSummaryRecord?.travel_goal === "string"
-            ? boardSummaryRecord.travel_goal
-            : null;
+      }
+      return sanitizeUiActions({
+        actions: base,
+        boardType: actionBoardType,
+        boardSummary: boardSummaryRecord,
+      }).slice(0, 4);
+    };
+    const applyIntroTurnNormalization = (payload: DmNarratorOutput): DmNarratorOutput => {
+      if (!introMode) return payload;
+
+      const fallbackActions = buildIntroFallbackActions();
+      const mergedActions = sanitizeUiActions({
+        actions: [...(payload.ui_actions ?? []), ...fallbackActions],
+        boardType: actionBoardType,
+        boardSummary: boardSummaryRecord,
+      });
+      const dedupedActions: NarratorUiAction[] = [];
+      const seenActionKeys = new Set<string>();
+      for (const action of mergedActions) {
+        const key = `${action.hint_key ?? action.id}:${action.intent}`;
+        if (seenActionKeys.has(key)) continue;
+        seenActionKeys.add(key);
+        dedupedActions.push(action);
+        if (dedupedActions.length >= 4) break;
+      }
+      let introActions = dedupedActions;
+      if (introActions.length < 3) {
+        introActions = fallbackActions.slice(0, 4);
+      }
 
-        const introRuntimeDeltaBase = asObject(payload.runtime_delta ?? payload.board_delta) ?? {};
-        const introRumors = Array.isArray(introRuntimeDeltaBase.rumors) && introRuntimeDeltaBase.rumors.length > 0
-          ? introRuntimeDeltaBase.rumors
-          : [{ title: "Starter Pressure", detail: focus }];
-        const introObjectives = Array.isArray(introRuntimeDeltaBase.objectives) && introRuntimeDeltaBase.objectives.length > 0
-          ? introRuntimeDeltaBase.objectives
-          : [{ title: "Make First Move", description: "Commit one starter action and lock initial momentum." }];
-        const introDiscovery = Array.isArray(introRuntimeDeltaBase.discovery_log)
-          ? [...introRuntimeDeltaBase.discovery_log]
-          : [];
-        if (introDiscovery.length === 0) {
-          introDiscovery.push({
-            kind: "intro_opening",
-            detail: "Opening narration committed from seeded starter direction.",
-            intro_version: introVersion,
-          });
-        }
+      const introScene = asObject(payload.scene) ?? {};
+      const environment = typeof introScene.environment === "string"
+        ? introScene.environment
+        : typeof boardSummaryRecord?.weather === "string"
+          ? boardSummaryRecord.weather
+          : titleCaseWords(actionBoardType);
+      const mood = typeof introScene.mood === "string" ? introScene.mood : "urgent onboarding momentum";
+      const focus = typeof introScene.focus === "string"
+        ? introScene.focus
+        : "Immediate starter hooks and first tactical commitment.";
+      const travelGoal = typeof introScene.travel_goal === "string"
+        ? introScene.travel_goal
+        : typeof boardSummaryRecord?.travel_goal === "string"
+          ? boardSummaryRecord.travel_goal
+          : null;
 
-        const existingDeltaFlags = asObject(introRuntimeDeltaBase.discovery_flags) ?? {};
-        const normalizedFlags: Record<string, unknown> = {
-          ...boardDiscoveryFlags,
-          ...existingDeltaFlags,
-          intro_pending: false,
+      const introRuntimeDeltaBase = asObject(payload.runtime_delta ?? payload.board_delta) ?? {};
+      const introRumors = Array.isArray(introRuntimeDeltaBase.rumors) && introRuntimeDeltaBase.rumors.length > 0
+        ? introRuntimeDeltaBase.rumors
+        : [{ title: "Starter Pressure", detail: focus }];
+      const introObjectives = Array.isArray(introRuntimeDeltaBase.objectives) && introRuntimeDeltaBase.objectives.length > 0
+        ? introRuntimeDeltaBase.objectives
+        : [{ title: "Make First Move", description: "Commit one starter action and lock initial momentum." }];
+      const introDiscovery = Array.isArray(introRuntimeDeltaBase.discovery_log)
+        ? [...introRuntimeDeltaBase.discovery_log]
+        : [];
+      if (introDiscovery.length === 0) {
+        introDiscovery.push({
+          kind: "intro_opening",
+          detail: "Opening narration committed from seeded starter direction.",
           intro_version: introVersion,
-          intro_source: introSource,
-        };
-        introCleared = normalizedFlags.intro_pending === false;
+        });
+      }
+
+      const existingDeltaFlags = asObject(introRuntimeDeltaBase.discovery_flags) ?? {};
+      const normalizedFlags: Record<string, unknown> = {
+        ...boardDiscoveryFlags,
+        ...existingDeltaFlags,
+        intro_pending: false,
+        intro_version: introVersion,
+        intro_source: introSource,
+      };
+      introCleared = normalizedFlags.intro_pending === false;
 
-        return {
-          ...payload,
-          scene: {
-            ...introScene,
+      return {
+        ...payload,
+        scene: {
+          ...introScene,
+          environment,
+          mood,
+          focus,
+          travel_goal: travelGoal,
+        },
+        ui_actions: introActions,
+        runtime_delta: {
+          ...introRuntimeDeltaBase,
+          rumors: introRumors,
+          objectives: introObjectives,
+          discovery_log: introDiscovery,
+          discovery_flags: normalizedFlags,
+          scene_cache: {
+            ...(asObject(introRuntimeDeltaBase.scene_cache) ?? {}),
             environment,
             mood,
             focus,
             travel_goal: travelGoal,
           },
-          ui_actions: introActions,
-          runtime_delta: {
-            ...introRuntimeDeltaBase,
-            rumors: introRumors,
-            objectives: introObjectives,
-            discovery_log: introDiscovery,
-            discovery_flags: normalizedFlags,
-            scene_cache: {
-              ...(asObject(introRuntimeDeltaBase.scene_cache) ?? {}),
-              environment,
-              mood,
-              focus,
-              travel_goal: travelGoal,
-            },
-            action_chips: sanitizeUiActions({
-              actions: introActions,
-              boardType: actionBoardType,
-              boardSummary: boardSummaryRecord,
-            }).slice(0, 6),
+          action_chips: sanitizeUiActions({
+            actions: introActions,
+            boardType: actionBoardType,
+            boardSummary: boardSummaryRecord,
+          }).slice(0, 6),
+        },
+        board_delta: {
+          ...introRuntimeDeltaBase,
+          rumors: introRumors,
+          objectives: introObjectives,
+          discovery_log: introDiscovery,
+          discovery_flags: normalizedFlags,
+          scene_cache: {
+            ...(asObject(introRuntimeDeltaBase.scene_cache) ?? {}),
+            environment,
+            mood,
+            focus,
+            travel_goal: travelGoal,
           },
-          board_delta: {
-            ...introRuntimeDeltaBase,
-            rumors: introRumors,
-            objectives: introObjectives,
-            discovery_log: introDiscovery,
-            discovery_flags: normalizedFlags,
-            scene_cache: {
-              ...(asObject(introRuntimeDeltaBase.scene_cache) ?? {}),
-              environment,
-              mood,
-              focus,
-              travel_goal: travelGoal,
-            },
-            action_chips: sanitizeUiActions({
-              actions: introActions,
-              boardType: actionBoardType,
-              boardSummary: boardSummaryRecord,
-            }).slice(0, 6),
-          },
-        };
+          action_chips: sanitizeUiActions({
+            actions: introActions,
+            boardType: actionBoardType,
+            boardSummary: boardSummaryRecord,
+          }).slice(0, 6),
+        },
       };
+    };
 
-      const shouldFastRecover = (attempt: number, errors: string[]) => {
-        const minAttemptForRecovery = introMode || isFreeformNarrationTurn ? 3 : 2;
-        if (attempt < minAttemptForRecovery) return false;
-        const critical = errors.some((entry) =>
-          entry.includes("runtime_delta_missing_or_invalid")
-          || entry.includes("scene_missing_or_invalid")
-          || entry.includes("ui_actions_count_out_of_bounds")
-          || entry.includes("vendorId_invalid")
-          || entry.includes("json_parse_failed")
-          || entry.includes("invalid_json"),
-        );
-        if (critical) return true;
-        if (attempt >= minAttemptForRecovery) {
-          return errors.some((entry) => entry.includes("narration_word_count_out_of_bounds"));
-        }
-        return false;
-      };
+    const shouldFastRecover = (attempt: number, errors: string[]) => {
+      const minAttemptForRecovery = introMode || isFreeformNarrationTurn ? 3 : 2;
+      if (attempt < minAttemptForRecovery) return false;
+      const critical = errors.some((entry) =>
+        entry.includes("runtime_delta_missing_or_invalid")
+        || entry.includes("scene_missing_or_invalid")
+        || entry.includes("ui_actions_count_out_of_bounds")
+        || entry.includes("vendorId_invalid")
+        || entry.includes("json_parse_failed")
+        || entry.includes("invalid_json"),
+      );
+      if (critical) return true;
+      if (attempt >= minAttemptForRecovery) {
+        return errors.some((entry) => entry.includes("narration_word_count_out_of_bounds"));
+      }
+      return false;
+    };
 
-      if (requestedNarratorMode === "procedural") {
-        try {
-          const recovery = applyIntroTurnNormalization(synthesizeRecoveryPayload({
-            boardType: actionBoardType,
-            boardSummary: boardSummaryRecord,
-            boardState: boardStateRecord,
-            actionContext: actionContextRecord,
-            lastErrors: ["procedural_mode_requested"],
-          }));
-          dmParsed = { ok: true, value: recovery };
-          validationAttempts = 1;
-          dmNarratorSource = "procedural";
-        } catch (error) {
-          proceduralError = errMessage(error, "procedural_narration_failed");
-          dmRecoveryUsed = true;
-          dmRecoveryReason = `procedural_error:${proceduralError}`;
-          const proceduralEmergencyActions = sanitizeUiActions({
-            actions: buildIntroFallbackActions(),
-            boardType: actionBoardType,
-            boardSummary: boardSummaryRecord,
-          }).slice(0, 4);
-          const proceduralEmergencyNarration = actionContextRecord?.suppress_narration_on_error === true
-            ? "Action blocked by committed rules. Pick a legal move from the board."
-            : actionBoardType === "combat"
-              ? "The exchange holds on a hard edge. Choose one legal action and drive the next beat."
-              : "The scene steadies around you. Pick one concrete move and commit it.";
-          dmParsed = {
-            ok: true,
-            value: applyIntroTurnNormalization({
-              narration: sanitizeNarrationForPlayer(proceduralEmergencyNarration, actionBoardType),
-              scene: {
-                environment: typeof boardSummaryRecord?.weather === "string"
-                  ? boardSummaryRecord.weather
-                  : titleCaseWords(actionBoardType),
-                mood: actionBoardType === "combat" ? "knife-edge pressure" : "forward momentum",
-                focus: actionBoardType === "combat"
-                  ? "Use a legal combat action from committed state."
-                  : "Use a grounded board action tied to current hooks.",
-              },
-              runtime_delta: {
-                discovery_log: [{
-                  kind: "procedural_recovery",
-                  detail: "Procedural narrator recovered locally without AI fallback.",
-                  reason: proceduralError,
-                }],
-                action_chips: proceduralEmergencyActions,
-              },
-              ui_actions: proceduralEmergencyActions.length > 0
-                ? proceduralEmergencyActions
-                : [{
-                  id: "procedural-recovery-followup",
-                  label: "Press The Lead",
-                  intent: "dm_prompt",
-                  prompt: "Give me the best legal move from this exact board state.",
-                  hint_key: "procedural:recovery_followup",
-                }],
-            }),
-          };
-          validationAttempts = 1;
-          dmNarratorSource = "procedural";
-        }
+    // From here on the client is listening on the stream; failures are reported in its `done` event.
+    turnStream.emit({ event: "phase", data: { phase: "resolving_narration", attempt: 1 } });
+
+    if (requestedNarratorMode === "procedural") {
+      try {
+        const recovery = applyIntroTurnNormalization(synthesizeRecoveryPayload({
+          boardType: actionBoardType,
+          boardSummary: boardSummaryRecord,
+          boardState: boardStateRecord,
+          actionContext: actionContextRecord,
+          playerModelTags: playerModelTagList,
+          lastErrors: ["procedural_mode_requested"],
+        }));
+        dmParsed = { ok: true, value: recovery };
+        validationAttempts = 1;
+        dmNarratorSource = "procedural";
+      } catch (error) {
+        proceduralError = errMessage(error, "procedural_narration_failed");
+        dmRecoveryUsed = true;
+        dmRecoveryReason = `procedural_error:${proceduralError}`;
+        const proceduralEmergencyActions = sanitizeUiActions({
+          actions: buildIntroFallbackActions(),
+          boardType: actionBoardType,
+          boardSummary: boardSummaryRecord,
+        }).slice(0, 4);
+        const proceduralEmergencyNarration = actionContextRecord?.suppress_narration_on_error === true
+          ? "Action blocked by committed rules. Pick a legal move from the board."
+          : actionBoardType === "combat"
+            ? "The exchange holds on a hard edge. Choose one legal action and drive the next beat."
+            : "The scene steadies around you. Pick one concrete move and commit it.";
+        dmParsed = {
+          ok: true,
+          value: applyIntroTurnNormalization({
+            narration: sanitizeNarrationForPlayer(proceduralEmergencyNarration, actionBoardType),
+            scene: {
+              environment: typeof boardSummaryRecord?.weather === "string"
+                ? boardSummaryRecord.weather
+                : titleCaseWords(actionBoardType),
+              mood: actionBoardType === "combat" ? "knife-edge pressure" : "forward momentum",
+              focus: actionBoardType === "combat"
+                ? "Use a legal combat action from committed state."
+                : "Use a grounded board action tied to current hooks.",
+            },
+            runtime_delta: {
+              discovery_log: [{
+                kind: "procedural_recovery",
+                detail: "Procedural narrator recovered locally without AI fallback.",
+                reason: proceduralError,
+              }],
+              action_chips: proceduralEmergencyActions,
+            },
+            ui_actions: proceduralEmergencyActions.length > 0
+              ? proceduralEmergencyActions
+              : [{
+                id: "procedural-recovery-followup",
+                label: "Press The Lead",
+                intent: "dm_prompt",
+                prompt: "Give me the best legal move from this exact board state.",
+                hint_key: "procedural:recovery_followup",
+              }],
+          }),
+        };
+        validationAttempts = 1;
+        dmNarratorSource = "procedural";
       }
+    }
 
-      if (requestedNarratorMode !== "procedural" || !dmParsed?.ok) {
-        for (let attempt = 1; attempt <= maxAttempts; attempt += 1) {
-          validationAttempts = attempt;
-          const attemptMessages = (() => {
-            if (attempt === 1) {
-              return [{ role: "system" as const, content: systemPrompt }, ...compactMessages];
-            }
-          if (attempt === 2) {
-            return [
-              { role: "system" as const, content: systemPrompt },
-              ...compactMessages,
-              {
-                role: "system" as const,
-                content: `Validation errors on previous output: ${JSON.stringify(lastErrors).slice(0, 2400)}. Regenerate one valid JSON object that satisfies every contract field.`,
-              },
-            ];
+    if (requestedNarratorMode !== "procedural" || !dmParsed?.ok) {
+      for (let attempt = 1; attempt <= maxAttempts; attempt += 1) {
+        validationAttempts = attempt;
+        if (attempt > 1) {
+          turnStream.emit({ event: "phase", data: { phase: "resolving_narration", attempt } });
+        }
+        const attemptMessages = (() => {
+          if (attempt === 1) {
+            return [{ role: "system" as const, content: systemPrompt }, ...compactMessages];
           }
+        if (attempt === 2) {
           return [
             { role: "system" as const, content: systemPrompt },
             ...compactMessages,
             {
               role: "system" as const,
-              content: [
-                "REPAIR PASS REQUIRED.",
-                `Previous validation errors: ${JSON.stringify(lastErrors).slice(0, 2400)}.`,
-                "Previous invalid JSON candidate (may be malformed):",
-                dmText.slice(0, 3200),
-                "Rewrite from scratch as ONE valid JSON object with scene + runtime_delta + 2-4 ui_actions.",
-              ].join("\n"),
+              content: `Validation errors on previous output: ${JSON.stringify(lastErrors).slice(0, 2400)}. Regenerate one valid JSON object that satisfies every contract field.`,
             },
           ];
-        })();
+        }
+        return [
+          { role: "system" as const, content: systemPrompt },
+          ...compactMessages,
+          {
+            role: "system" as const,
+            content: [
+              "REPAIR PASS REQUIRED.",
+              `Previous validation errors: ${JSON.stringify(lastErrors).slice(0, 2400)}.`,
+              "Previous invalid JSON candidate (may be malformed):",
+              dmText.slice(0, 3200),
+              "Rewrite from scratch as ONE valid JSON object with scene + runtime_delta + 2-4 ui_actions.",
+            ].join("\n"),
+          },
+        ];
+      })();
 
-          const { response, model } = await mythicOpenAIChatCompletionsStream(
-            {
-              messages: attemptMessages,
-              stream: true,
-              temperature: 0.55,
-            },
-            requestedModel,
-          );
-          dmText = await readModelStreamText(response);
-
-          const parsedOut = parseDmNarratorOutput(dmText);
-          if (!parsedOut.ok) {
-            lastErrors = parsedOut.errors;
-            ctx.log.warn("dm.request.validation_failed", { attempt, model, request_id: ctx.requestId, errors: lastErrors });
-            dmParsed = parsedOut;
-            if (shouldFastRecover(attempt, lastErrors)) {
-              dmFastRecovery = true;
-              break;
-            }
-            continue;
+        const { response, model, provider } = await mythicOpenAIChatCompletionsStream(
+          {
+            messages: attemptMessages,
+            stream: true,
+            temperature: 0.55,
+          },
+          requestedModel,
+          { jsonMode: true },
+        );
+        dmAiModel = model;
+        dmAiProvider = provider;
+        const narration = createNarrationExtractor();
+        dmText = await readModelStreamText(response, (chunk) => {
+          const text = narration.push(chunk);
+          if (text) turnStream.emit({ event: "narration_delta", data: { text } });
+        });
+        turnStream.emit({ event: "phase", data: { phase: "validating", attempt } });
+
+        const parsedOut = parseDmNarratorOutput(dmText);
+        if (!parsedOut.ok) {
+          lastErrors = parsedOut.errors;
+          ctx.log.warn("dm.request.validation_failed", { attempt, model, request_id: ctx.requestId, errors: lastErrors });
+          dmParsed = parsedOut;
+          if (shouldFastRecover(attempt, lastErrors)) {
+            dmFastRecovery = true;
+            break;
           }
+          continue;
+        }
 
-          const narrationWords = countWords(parsedOut.value.narration);
-          if (narrationWords > NARRATION_MAX_WORDS + 34 || narrationWords < Math.max(20, NARRATION_MIN_WORDS - 26)) {
-            lastErrors = [`narration_word_count_out_of_bounds:${narrationWords}:expected_${NARRATION_MIN_WORDS}-${NARRATION_MAX_WORDS}`];
-            ctx.log.warn("dm.request.validation_failed", { attempt, model, request_id: ctx.requestId, errors: lastErrors });
-            dmParsed = { ok: false, errors: lastErrors };
-            if (shouldFastRecover(attempt, lastErrors)) {
-              dmFastRecovery = true;
-              break;
-            }
-            continue;
+        const narrationWords = countWords(parsedOut.value.narration);
+        if (narrationWords > NARRATION_MAX_WORDS + 34 || narrationWords < Math.max(20, NARRATION_MIN_WORDS - 26)) {
+          lastErrors = [`narration_word_count_out_of_bounds:${narrationWords}:expected_${NARRATION_MIN_WORDS}-${NARRATION_MAX_WORDS}`];
+          ctx.log.warn("dm.request.validation_failed", { attempt, model, request_id: ctx.requestId, errors: lastErrors });
+          dmParsed = { ok: false, errors: lastErrors };
+          if (shouldFastRecover(attempt, lastErrors)) {
+            dmFastRecovery = true;
+            break;
           }
+          continue;
+        }
 
-          if (!parsedOut.value.scene || typeof parsedOut.value.scene !== "object") {
-            lastErrors = ["scene_missing_or_invalid"];
-            ctx.log.warn("dm.request.validation_failed", { attempt, model, request_id: ctx.requestId, errors: lastErrors });
-            dmParsed = { ok: false, errors: lastErrors };
-            if (shouldFastRecover(attempt, lastErrors)) {
-              dmFastRecovery = true;
-              break;
-            }
-            continue;
+        if (!parsedOut.value.scene || typeof parsedOut.value.scene !== "object") {
+          lastErrors = ["scene_missing_or_invalid"];
+          ctx.log.warn("dm.request.validation_failed", { attempt, model, request_id: ctx.requestId, errors: lastErrors });
+          dmParsed = { ok: false, errors: lastErrors };
+          if (shouldFastRecover(attempt, lastErrors)) {
+            dmFastRecovery = true;
+            break;
           }
+          continue;
+        }
 
-          const deltaPayload = asObject(parsedOut.value.runtime_delta ?? parsedOut.value.board_delta);
-          if (!deltaPayload) {
-            lastErrors = ["runtime_delta_missing_or_invalid"];
-            ctx.log.warn("dm.request.validation_failed", { attempt, model, request_id: ctx.requestId, errors: lastErrors });
-            dmParsed = { ok: false, errors: lastErrors };
-            if (shouldFastRecover(attempt, lastErrors)) {
-              dmFastRecovery = true;
-              break;
-            }
-            continue;
+        const deltaPayload = asObject(parsedOut.value.runtime_delta ?? parsedOut.value.board_delta);
+        if (!deltaPayload) {
+          lastErrors = ["runtime_delta_missing_or_invalid"];
+          ctx.log.warn("dm.request.validation_failed", { attempt, model, request_id: ctx.requestId, errors: lastErrors });
+          dmParsed = { ok: false, errors: lastErrors };
+          if (shouldFastRecover(attempt, lastErrors)) {
+            dmFastRecovery = true;
+            break;
           }
+          continue;
+        }
 
-          let actions: NarratorUiAction[] = sanitizeUiActions({
-            actions: parsedOut.value.ui_actions ?? [],
-            boardType: actionBoardType,
-            boardSummary: boardSummaryRecord,
-          })
-            .map((action): NarratorUiAction => {
-            if (action.intent !== "shop_action") return action;
-            const payload = action.payload && typeof action.payload === "object" ? action.payload as Record<string, unknown> : {};
-            const vendorId = typeof payload.vendorId === "string" ? payload.vendorId : null;
-            if (vendorId && allowedVendorIds.has(vendorId)) return action;
-            if (fallbackVendorId) {
-              return {
-                ...action,
-                payload: { ...payload, vendorId: fallbackVendorId },
-              } as NarratorUiAction;
-            }
+        let actions: NarratorUiAction[] = sanitizeUiActions({
+          actions: parsedOut.value.ui_actions ?? [],
+          boardType: actionBoardType,
+          boardSummary: boardSummaryRecord,
+        })
+          .map((action): NarratorUiAction => {
+          if (action.intent !== "shop_action") return action;
+          const payload = action.payload && typeof action.payload === "object" ? action.payload as Record<string, unknown> : {};
+          const vendorId = typeof payload.vendorId === "string" ? payload.vendorId : null;
+          if (vendorId && allowedVendorIds.has(vendorId)) return action;
+          if (fallbackVendorId) {
             return {
               ...action,
-              intent: "dm_prompt" as const,
-              label: "Work A Lead",
-              prompt: action.prompt ?? "I press a concrete lead from current runtime hooks and commit the next move.",
-              payload: { ...payload, vendor_unavailable: true },
+              payload: { ...payload, vendorId: fallbackVendorId },
             } as NarratorUiAction;
-            });
-
-          const checkin = latestCompanionCheckin(boardStateRecord);
-          if (checkin && !isCompanionFollowupResolved(boardStateRecord, checkin)) {
-            const hasCompanionAction = actions.some((action) => {
-              const payload = action.payload && typeof action.payload === "object" ? action.payload as Record<string, unknown> : null;
-              return payload?.companion_id === checkin.companion_id && payload?.resolved !== true;
-            });
-            if (!hasCompanionAction && actions.length < 4) {
-              actions = [...actions, buildCompanionFollowupAction(checkin)];
-            }
-          }
-
-          actions = sanitizeUiActions({
-            actions,
-            boardType: actionBoardType,
-            boardSummary: boardSummaryRecord,
-          }).slice(0, 4);
-
-          if (actions.length < 2 || actions.length > 4) {
-            lastErrors = [`ui_actions_count_out_of_bounds:${actions.length}:expected_2_4`];
-            ctx.log.warn("dm.request.validation_failed", { attempt, model, request_id: ctx.requestId, errors: lastErrors });
-            dmParsed = { ok: false, errors: lastErrors };
-            if (shouldFastRecover(attempt, lastErrors)) {
-              dmFastRecovery = true;
-              break;
-            }
-            continue;
           }
+          return {
+            ...action,
+            intent: "dm_prompt" as const,
+            label: "Work A Lead",
+            prompt: action.prompt ?? "I press a concrete lead from current runtime hooks and commit the next move.",
+            payload: { ...payload, vendor_unavailable: true },
+          } as NarratorUiAction;
+          });
 
-          // Additional validation: if suggesting shop actions, vendorId must match board summary.
-          const badShop = actions.find((action) => {
-            if (action.intent !== "shop_action") return false;
-            const vendorId = (action.payload as Record<string, unknown> | undefined)?.vendorId;
-            return typeof vendorId !== "string" || !allowedVendorIds.has(vendorId);
+        const checkin = latestCompanionCheckin(boardStateRecord);
+        if (checkin && !isCompanionFollowupResolved(boardStateRecord, checkin)) {
+          const hasCompanionAction = actions.some((action) => {
+            const payload = action.payload && typeof action.payload === "object" ? action.payload as Record<string, unknown> : null;
+            return payload?.companion_id === checkin.companion_id && payload?.resolved !== true;
           });
-          if (badShop) {
-            const vendorId = (badShop.payload as Record<string, unknown> | undefined)?.vendorId;
-            lastErrors = [`ui_actions.shop.vendorId_invalid:${typeof vendorId === "string" ? vendorId : "missing"}`];
-            ctx.log.warn("dm.request.validation_failed", { attempt, model, request_id: ctx.requestId, errors: lastErrors });
-            dmParsed = { ok: false, errors: lastErrors };
-            if (shouldFastRecover(attempt, lastErrors)) {
-              dmFastRecovery = true;
-              break;
-            }
-            continue;
+          if (!hasCompanionAction && actions.length < 4) {
+            actions = [...actions, buildCompanionFollowupAction(checkin)];
           }
+        }
 
-          let boardDeltaActionChips = sanitizeUiActions({
-            actions: (deltaPayload.action_chips as NarratorUiAction[] | undefined) ?? actions,
-            boardType: actionBoardType,
-            boardSummary: boardSummaryRecord,
-          });
+        actions = sanitizeUiActions({
+          actions,
+          boardType: actionBoardType,
+          boardSummary: boardSummaryRecord,
+        }).slice(0, 4);
 
-          const checkinForChips = latestCompanionCheckin(boardStateRecord);
-          if (checkinForChips && !isCompanionFollowupResolved(boardStateRecord, checkinForChips)) {
-            const hasCompanionChip = boardDeltaActionChips.some((chip) => {
-              const payload = chip.payload && typeof chip.payload === "object" ? chip.payload as Record<string, unknown> : null;
-              return payload?.companion_id === checkinForChips.companion_id && payload?.resolved !== true;
-            });
-            if (!hasCompanionChip) {
-              boardDeltaActionChips = [...boardDeltaActionChips.slice(0, 5), buildCompanionFollowupAction(checkinForChips)];
-            }
+        if (actions.length < 2 || actions.length > 4) {
+          lastErrors = [`ui_actions_count_out_of_bounds:${actions.length}:expected_2_4`];
+          ctx.log.warn("dm.request.validation_failed", { attempt, model, request_id: ctx.requestId, errors: lastErrors });
+          dmParsed = { ok: false, errors: lastErrors };
+          if (shouldFastRecover(attempt, lastErrors)) {
+            dmFastRecovery = true;
+            break;
           }
+          continue;
+        }
 
-          boardDeltaActionChips = appendCompanionResolutionChip({
-            chips: boardDeltaActionChips,
-            actionContext: actionContextRecord,
-          }).slice(-6);
+        // Additional validation: if suggesting shop actions, vendorId must match board summary.
+        const badShop = actions.find((action) => {
+          if (action.intent !== "shop_action") return false;
+          const vendorId = (action.payload as Record<string, unknown> | undefined)?.vendorId;
+          return typeof vendorId !== "string" || !allowedVendorIds.has(vendorId);
+        });
+        if (badShop) {
+          const vendorId = (badShop.payload as Record<string, unknown> | undefined)?.vendorId;
+          lastErrors = [`ui_actions.shop.vendorId_invalid:${typeof vendorId === "string" ? vendorId : "missing"}`];
+          ctx.log.warn("dm.request.validation_failed", { attempt, model, request_id: ctx.requestId, errors: lastErrors });
+          dmParsed = { ok: false, errors: lastErrors };
+          if (shouldFastRecover(attempt, lastErrors)) {
+            dmFastRecovery = true;
+            break;
+          }
+          continue;
+        }
 
-          const runtimeDelta = {
-            ...deltaPayload,
-            action_chips: boardDeltaActionChips,
-          };
-          const normalizedPayload = applyIntroTurnNormalization({
-            ...parsedOut.value,
-            ui_actions: actions,
-            runtime_delta: runtimeDelta,
-            board_delta: runtimeDelta,
+        let boardDeltaActionChips = sanitizeUiActions({
+          actions: (deltaPayload.action_chips as NarratorUiAction[] | undefined) ?? actions,
+          boardType: actionBoardType,
+          boardSummary: boardSummaryRecord,
+        });
+
+        const checkinForChips = latestCompanionCheckin(boardStateRecord);
+        if (checkinForChips && !isCompanionFollowupResolved(boardStateRecord, checkinForChips)) {
+          const hasCompanionChip = boardDeltaActionChips.some((chip) => {
+            const payload = chip.payload && typeof chip.payload === "object" ? chip.payload as Record<string, unknown> : null;
+            return payload?.companion_id === checkinForChips.companion_id && payload?.resolved !== true;
           });
-          dmParsed = {
-            ok: true,
-            value: normalizedPayload,
-          };
-          dmNarratorSource = "ai";
-          break;
+          if (!hasCompanionChip) {
+            boardDeltaActionChips = [...boardDeltaActionChips.slice(0, 5), buildCompanionFollowupAction(checkinForChips)];
+          }
         }
-      }
 
-      if (!dmParsed || !dmParsed.ok) {
-        dmRecoveryUsed = true;
-        dmRecoveryReason = dmFastRecovery
-          ? `fast_recovery:${lastErrors.join("|").slice(0, 360)}`
-          : lastErrors.join("|").slice(0, 400) || "validation_failed";
-        ctx.log.warn("dm.request.auto_recovery", {
-          request_id: ctx.requestId,
-          validation_attempts: validationAttempts,
-          reason: dmRecoveryReason,
-          fast_recovery: dmFastRecovery,
+        boardDeltaActionChips = appendCompanionResolutionChip({
+          chips: boardDeltaActionChips,
+          actionContext: actionContextRecord,
+        }).slice(-6);
+
+        const runtimeDelta = {
+          ...deltaPayload,
+          action_chips: boardDeltaActionChips,
+        };
+        const normalizedPayload = applyIntroTurnNormalization({
+          ...parsedOut.value,
+          ui_actions: actions,
+          runtime_delta: runtimeDelta,
+          board_delta: runtimeDelta,
         });
         dmParsed = {
           ok: true,
-          value: applyIntroTurnNormalization(synthesizeRecoveryPayload({
-            boardType: actionBoardType,
-            boardSummary: boardSummaryRecord,
-            boardState: boardStateRecord,
-            actionContext: actionContextRecord,
-            lastErrors,
-          })),
+          value: normalizedPayload,
         };
-        dmNarratorSource = "procedural";
+        dmNarratorSource = "ai";
+        break;
       }
+    }
 
-      if (dmParsed.ok) {
-        const suppressNarrationOnError = actionContextRecord?.suppress_narration_on_error === true
-          && typeof actionContextRecord?.execution_error === "string"
-          && actionContextRecord.execution_error.trim().length > 0;
-        if (suppressNarrationOnError) {
-          dmParsed.value.narration = sanitizeNarrationForPlayer(
-            `Action blocked: ${compactLabel(String(actionContextRecord.execution_error), 180)}.`,
-            String(actionBoardType || "combat"),
-          );
-          dmParsed.value.ui_actions = [];
-        }
+    if (!dmParsed || !dmParsed.ok) {
+      dmRecoveryUsed = true;
+      dmRecoveryReason = dmFastRecovery
+        ? `fast_recovery:${lastErrors.join("|").slice(0, 360)}`
+        : lastErrors.join("|").slice(0, 400) || "validation_failed";
+      ctx.log.warn("dm.request.auto_recovery", {
+        request_id: ctx.requestId,
+        validation_attempts: validationAttempts,
+        reason: dmRecoveryReason,
+        fast_recovery: dmFastRecovery,
+      });
+      dmParsed = {
+        ok: true,
+        value: applyIntroTurnNormalization(synthesizeRecoveryPayload({
+          boardType: actionBoardType,
+          boardSummary: boardSummaryRecord,
+          boardState: boardStateRecord,
+          actionContext: actionContextRecord,
+          playerModelTags: playerModelTagList,
+          lastErrors,
+        })),
+      };
+      dmNarratorSource = "procedural";
+    }
 
-        const contextCursor = parseEventCursor(actionContextRecord?.combat_event_cursor);
-        const presentationCurrent = readPresentationState(boardStateRecord);
-        const presentationCursor = parseEventCursor(presentationCurrent.last_event_cursor ?? null);
-        const effectiveCursor = contextCursor ?? presentationCursor;
-        const combatantStateHint = readCombatantStateHint(actionContextRecord?.combatant_state);
-        const combatBatch = Array.isArray(actionContextRecord?.combat_event_batch)
-          ? actionContextRecord.combat_event_batch
-            .filter((entry): entry is Record<string, unknown> => Boolean(entry) && typeof entry === "object")
-            .filter((entry) => isBatchEventAfterCursor(entry, effectiveCursor))
-            .filter((entry) => {
-              const payload = asObject(entry.payload) ?? {};
-              const eventType = typeof entry.event_type === "string" ? entry.event_type.toLowerCase() : "";
-              if (eventType === "death") return true;
-              const actorId = typeof payload.source_combatant_id === "string"
-                ? payload.source_combatant_id
-                : typeof payload.actor_combatant_id === "string"
-                  ? payload.actor_combatant_id
-                  : typeof entry.actor_combatant_id === "string"
-                    ? entry.actor_combatant_id
-                    : null;
-              if (!actorId) return true;
-              const hinted = combatantStateHint[actorId];
-              if (!hinted) return true;
-              return hinted.is_alive && hinted.hp > 0;
-            })
-            .slice(-10)
-          : [];
-        if (!suppressNarrationOnError && combatBatch.length > 0) {
-          const tone = selectToneMode({
-            seedKey: `${campaignId}:${expectedTurnIndex}:combat-step`,
-            lastTone: presentationCurrent.last_tone ?? null,
-            tension: 62,
-            bossPresent: combatBatch.some((entry) => asObject(entry.payload)?.boss === true),
-            playerHpPct: 0.62,
-            regionTheme: "combat",
-          });
-          const middleware = buildNarrativeLinesFromEvents({
-            seedKey: `${campaignId}:${expectedTurnIndex}:combat-step`,
-            tone: tone.tone,
-            events: combatBatch as Array<{ event_type: string; payload?: Record<string, unknown> }>,
-            recentLineHashes: presentationCurrent.recent_line_hashes ?? [],
-            recentVerbKeys: presentationCurrent.last_verb_keys ?? [],
-            maxLines: 4,
-          });
-          const generatedNarration = sanitizeNarrationForPlayer(
-            middleware.lines.join(" "),
-            "combat",
-          );
-          const hasLeak = NON_PLAYER_NARRATION_PATTERNS.some((pattern) => {
-            pattern.lastIndex = 0;
-            return pattern.test(dmParsed.value.narration);
-          })
-            || /\bA combatant\b/i.test(dmParsed.value.narration);
-          if (hasLeak || generatedNarration.length > 0) {
-            dmParsed.value.narration = generatedNarration;
-          }
+    if (dmParsed.ok) {
+      const suppressNarrationOnError = actionContextRecord?.suppress_narration_on_error === true
+        && typeof actionContextRecord?.execution_error === "string"
+        && actionContextRecord.execution_error.trim().length > 0;
+      if (suppressNarrationOnError) {
+        dmParsed.value.narration = sanitizeNarrationForPlayer(
+          `Action blocked: ${compactLabel(String(actionContextRecord.execution_error), 180)}.`,
+          String(actionBoardType || "combat"),
+        );
+        dmParsed.value.ui_actions = [];
+      }
 
-          const mergedPresentation = mergePresentationState(presentationCurrent, {
-            last_tone: tone.tone,
-            recent_line_hashes: middleware.lineHashes,
-            last_verb_keys: middleware.verbKeys,
-            last_template_ids: middleware.templateIds,
-            last_event_cursor: middleware.lastEventCursor ?? presentationCurrent.last_event_cursor ?? null,
-          });
-          const delta = asObject(dmParsed.value.runtime_delta ?? dmParsed.value.board_delta) ?? {};
-          dmParsed.value.runtime_delta = {
-            ...delta,
-            dm_presentation: { ...mergedPresentation },
-          };
-          dmParsed.value.board_delta = {
-            ...delta,
-            dm_presentation: { ...mergedPresentation },
-          };
+      const contextCursor = parseEventCursor(actionContextRecord?.combat_event_cursor);
+      const presentationCurrent = readPresentationState(boardStateRecord);
+      const presentationCursor = parseEventCursor(presentationCurrent.last_event_cursor ?? null);
+      const effectiveCursor = contextCursor ?? presentationCursor;
+      const combatantStateHint = readCombatantStateHint(actionContextRecord?.combatant_state);
+      const combatBatch = Array.isArray(actionContextRecord?.combat_event_batch)
+        ? actionContextRecord.combat_event_batch
+          .filter((entry): entry is Record<string, unknown> => Boolean(entry) && typeof entry === "object")
+          .filter((entry) => isBatchEventAfterCursor(entry, effectiveCursor))
+          .filter((entry) => {
+            const payload = asObject(entry.payload) ?? {};
+            const eventType = typeof entry.event_type === "string" ? entry.event_type.toLowerCase() : "";
+            if (eventType === "death") return true;
+            const actorId = typeof payload.source_combatant_id === "string"
+              ? payload.source_combatant_id
+              : typeof payload.actor_combatant_id === "string"
+                ? payload.actor_combatant_id
+                : typeof entry.actor_combatant_id === "string"
+                  ? entry.actor_combatant_id
+                  : null;
+            if (!actorId) return true;
+            const hinted = combatantStateHint[actorId];
+            if (!hinted) return true;
+            return hinted.is_alive && hinted.hp > 0;
+          })
+          .slice(-10)
+        : [];
+      if (!suppressNarrationOnError && combatBatch.length > 0) {
+        const tone = selectToneMode({
+          seedKey: `${campaignId}:${expectedTurnIndex}:combat-step`,
+          lastTone: presentationCurrent.last_tone ?? null,
+          tension: 62,
+          bossPresent: combatBatch.some((entry) => asObject(entry.payload)?.boss === true),
+          playerHpPct: 0.62,
+          regionTheme: "combat",
+        });
+        const middleware = buildNarrativeLinesFromEvents({
+          seedKey: `${campaignId}:${expectedTurnIndex}:combat-step`,
+          tone: tone.tone,
+          events: combatBatch as Array<{ event_type: string; payload?: Record<string, unknown> }>,
+          recentLineHashes: presentationCurrent.recent_line_hashes ?? [],
+          recentVerbKeys: presentationCurrent.last_verb_keys ?? [],
+          maxLines: 4,
+        });
+        const generatedNarration = sanitizeNarrationForPlayer(
+          middleware.lines.join(" "),
+          "combat",
+        );
+        const hasLeak = NON_PLAYER_NARRATION_PATTERNS.some((pattern) => {
+          pattern.lastIndex = 0;
+          return pattern.test(dmParsed.value.narration);
+        })
+          || /\bA combatant\b/i.test(dmParsed.value.narration);
+        if (hasLeak || generatedNarration.length > 0) {
+          dmParsed.value.narration = generatedNarration;
         }
-      }
 
-      const boardType = (compactBoard as Record<string, unknown> | null)?.board_type;
-      const boardId = (compactBoard as Record<string, unknown> | null)?.board_id;
-      if (typeof boardType !== "string" || typeof boardId !== "string") {
-        return new Response(JSON.stringify({ error: "Active runtime not found", code: "runtime_not_found", requestId: ctx.requestId }), {
-          status: 404,
-          headers: { "Content-Type": "application/json" },
+        const mergedPresentation = mergePresentationState(presentationCurrent, {
+          last_tone: tone.tone,
+          recent_line_hashes: middleware.lineHashes,
+          last_verb_keys: middleware.verbKeys,
+          last_template_ids: middleware.templateIds,
+          last_event_cursor: middleware.lastEventCursor ?? presentationCurrent.last_event_cursor ?? null,
         });
+        const delta = asObject(dmParsed.value.runtime_delta ?? dmParsed.value.board_delta) ?? {};
+        dmParsed.value.runtime_delta = {
+          ...delta,
+          dm_presentation: { ...mergedPresentation },
+        };
+        dmParsed.value.board_delta = {
+          ...delta,
+          dm_presentation: { ...mergedPresentation },
+        };
       }
+    }
 
-      const { patches, dropped } = normalizeWorldPatches(dmParsed.value.patches);
-      if (dropped > 0) {
-        warnings.push(`dropped_invalid_patches:${dropped}`);
-      }
+    const boardType = (compactBoard as Record<string, unknown> | null)?.board_type;
+    const boardId = (compactBoard as Record<string, unknown> | null)?.board_id;
+    if (typeof boardType !== "string" || typeof boardId !== "string") {
+      return new Response(JSON.stringify({ error: "Active runtime not found", code: "runtime_not_found", requestId: ctx.requestId }), {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
 
-      const dmRequestJson = {
-        schema_version: "mythic.turn.request.v1",
-        campaign_id: campaignId,
-        player_id: user.userId,
-        board_id: boardId,
-        board_type: boardType,
+    const normalizedPatches = normalizeWorldPatches(dmParsed.value.patches);
+    if (normalizedPatches.dropped > 0) {
+      warnings.push(`dropped_invalid_patches:${normalizedPatches.dropped}`);
+    }
+    // Quest patches must fit the stored quest; the ones that do not are dropped before the turn commits.
+    let questPlan: QuestUpsertPlan = { accepted: [], rejected: [] };
+    try {
+      questPlan = await planQuestUpserts(svc, campaignId, normalizedPatches.patches);
+    } catch (error) {
+      warnings.push(`quest_upsert_plan_failed:${errMessage(error, "quest plan failed")}`);
+    }
+    for (const rejected of questPlan.rejected) {
+      warnings.push(`quest_upsert_rejected:${rejected.quest_key}:${rejected.reason}`);
+    }
+    const acceptedQuestKeys = new Set(questPlan.accepted.map((quest) => quest.quest_key));
+    const patches = normalizedPatches.patches.filter((patch) =>
+      patch.op !== "QUEST_UPSERT" || acceptedQuestKeys.has(patch.quest_key.trim()));
+
+    const dmRequestJson = {
+      schema_version: "mythic.turn.request.v1",
+      campaign_id: campaignId,
+      player_id: user.userId,
+      board_id: boardId,
+      board_type: boardType,
+      expected_turn_index: expectedTurnIndex,
+      turn_seed: turnSeed.toString(),
+      model: requestedModel,
+      narrator_mode: requestedNarratorMode,
+      messages,
+      actionContext: actionContextRecord ?? null,
+      party_action: partyAction
+        ? {
+          id: partyAction.id,
+          kind: partyAction.kind,
+          proposed_by: partyAction.proposed_by,
+          approved_by: partyAction.approved_by,
+          approved_via: partyAction.approved_via,
+        }
+        : null,
+      warnings,
+    };
+
+    const dmResponseJson: Record<string, unknown> = {
+      ...dmParsed.value,
+      narration: compactNarration(
+        sanitizeNarrationForPlayer(dmParsed.value.narration, String(boardType)),
+        NARRATION_MAX_WORDS,
+      ),
+      schema_version: dmParsed.value.schema_version ?? "mythic.dm.narrator.v1",
+      roll_log: prng.rollLog,
+      meta: {
+        dm_validation_attempts: validationAttempts,
+        dm_recovery_used: dmRecoveryUsed,
+        dm_recovery_reason: dmRecoveryReason,
+        dm_narrator_mode: requestedNarratorMode,
+        dm_narrator_source: dmNarratorSource,
+        dm_procedural_error: proceduralError,
+        dm_ai_model: dmNarratorSource === "ai" ? dmAiModel : null,
+        dm_ai_provider: dmNarratorSource === "ai" ? dmAiProvider : null,
+        dm_intro_mode: introMode,
+        dm_intro_pending_before: introPendingBefore,
+        dm_intro_cleared: introCleared,
+      },
+      turn: {
         expected_turn_index: expectedTurnIndex,
         turn_seed: turnSeed.toString(),
-        model: requestedModel,
-        narrator_mode: requestedNarratorMode,
-        messages,
-        actionContext: actionContextRecord ?? null,
-        warnings,
-      };
+      },
+    };
 
-      const dmResponseJson: Record<string, unknown> = {
-        ...dmParsed.value,
-        narration: compactNarration(
-          sanitizeNarrationForPlayer(dmParsed.value.narration, String(boardType)),
-          NARRATION_MAX_WORDS,
-        ),
-        schema_version: dmParsed.value.schema_version ?? "mythic.dm.narrator.v1",
-        roll_log: prng.rollLog,
-        meta: {
-          dm_validation_attempts: validationAttempts,
-          dm_recovery_used: dmRecoveryUsed,
-          dm_recovery_reason: dmRecoveryReason,
-          dm_narrator_mode: requestedNarratorMode,
-          dm_narrator_source: dmNarratorSource,
-          dm_procedural_error: proceduralError,
-          dm_ai_model: dmNarratorSource === "ai" ? requestedModel : null,
-          dm_intro_mode: introMode,
-          dm_intro_pending_before: introPendingBefore,
-          dm_intro_cleared: introCleared,
-        },
-        turn: {
-          expected_turn_index: expectedTurnIndex,
-          turn_seed: turnSeed.toString(),
-        },
-      };
+    turnStream.emit({ event: "phase", data: { phase: "committing_turn" } });
+    const commit = await svc.rpc("mythic_commit_turn", {
+      campaign_id: campaignId,
+      player_id: user.userId,
+      board_id: boardId,
+      board_type: boardType,
+      turn_seed: turnSeed.toString(),
+      dm_request_json: dmRequestJson,
+      dm_response_json: dmResponseJson,
+      patches_json: patches,
+      roll_log_json: prng.rollLog,
+    });
 
-      const commit = await svc.rpc("mythic_commit_turn", {
+    if (commit.error) {
+      ctx.log.error("dm.turn_commit.failed", {
+        request_id: ctx.requestId,
         campaign_id: campaignId,
-        player_id: user.userId,
-        board_id: boardId,
-        board_type: boardType,
-        turn_seed: turnSeed.toString(),
-        dm_request_json: dmRequestJson,
-        dm_response_json: dmResponseJson,
-        patches_json: patches,
-        roll_log_json: prng.rollLog,
+        hint: errMessage(commit.error, "commit failed"),
+        code: (commit.error as { code?: unknown }).code ?? null,
       });
+      const msg = errMessage(commit.error, "unknown");
+      const isConflict = String((commit.error as { code?: unknown }).code ?? "").includes("40001")
+        || msg.includes("expected_turn_index_")
+        || msg.includes("40001");
+      return new Response(
+        JSON.stringify({
+          error: isConflict
+            ? "Another turn committed concurrently. Retry your action."
+            : `Failed to commit turn: ${msg}`,
+          code: isConflict ? "turn_conflict" : "turn_commit_failed",
+          requestId: ctx.requestId,
+        }),
+        { status: isConflict ? 409 : 500, headers: { "Content-Type": "application/json" } },
+      );
+    }
 
-      if (commit.error) {
-        ctx.log.error("dm.turn_commit.failed", {
+    const commitPayload = commit.data && typeof commit.data === "object" ? commit.data as Record<string, unknown> : null;
+    if (commitPayload?.ok !== true) {
+      ctx.log.error("dm.turn_commit.rejected", { request_id: ctx.requestId, commit: commitPayload });
+      return new Response(
+        JSON.stringify({
+          error: "Turn commit rejected",
+          code: "turn_commit_rejected",
+          details: commitPayload,
+          requestId: ctx.requestId,
+        }),
+        { status: 500, headers: { "Content-Type": "application/json" } },
+      );
+    }
+
+    if (partyAction) {
+      try {
+        await resolvePartyAction(svc, {
+          actionId: partyAction.id,
+          claimedAt: partyAction.claimed_at,
+          turnId: typeof commitPayload.turn_id === "string" ? commitPayload.turn_id : null,
+        });
+      } catch (error) {
+        ctx.log.warn("dm.party_action.resolve_failed", {
           request_id: ctx.requestId,
           campaign_id: campaignId,
-          hint: errMessage(commit.error, "commit failed"),
-          code: (commit.error as { code?: unknown }).code ?? null,
+          party_action_id: partyAction.id,
+          hint: errMessage(error, "resolve failed"),
         });
-        const msg = errMessage(commit.error, "unknown");
-        const isConflict = String((commit.error as { code?: unknown }).code ?? "").includes("40001")
-          || msg.includes("expected_turn_index_")
-          || msg.includes("40001");
-        return new Response(
-          JSON.stringify({
-            error: isConflict
-              ? "Another turn committed concurrently. Retry your action."
-              : `Failed to commit turn: ${msg}`,
-            code: isConflict ? "turn_conflict" : "turn_commit_failed",
-            requestId: ctx.requestId,
-          }),
-          { status: isConflict ? 409 : 500, headers: { "Content-Type": "application/json" } },
-        );
       }
+    }
 
-      const commitPayload = commit.data && typeof commit.data === "object" ? commit.data as Record<string, unknown> : null;
-      if (commitPayload?.ok !== true) {
-        ctx.log.error("dm.turn_commit.rejected", { request_id: ctx.requestId, commit: commitPayload });
-        return new Response(
-          JSON.stringify({
-            error: "Turn commit rejected",
-            code: "turn_commit_rejected",
-            details: commitPayload,
-            requestId: ctx.requestId,
-          }),
-          { status: 500, headers: { "Content-Type": "application/json" } },
-        );
+    let committedBoardState = boardStateRecord;
+    const committedRuntimeId =
+      typeof commitPayload.runtime_id === "string"
+        ? commitPayload.runtime_id
+        : typeof commitPayload.board_id === "string"
+          ? commitPayload.board_id
+          : null;
+    if (committedRuntimeId) {
+      const committedRuntime = await svc
+        .schema("mythic")
+        .from("campaign_runtime")
+        .select("state_json")
+        .eq("id", committedRuntimeId)
+        .maybeSingle();
+      if (!committedRuntime.error && committedRuntime.data) {
+        committedBoardState = asObject((committedRuntime.data as Record<string, unknown>).state_json);
       }
+    }
 
-      let committedBoardState = boardStateRecord;
-      const committedRuntimeId =
-        typeof commitPayload.runtime_id === "string"
-          ? commitPayload.runtime_id
-          : typeof commitPayload.board_id === "string"
-            ? commitPayload.board_id
-            : null;
-      if (committedRuntimeId) {
-        const committedRuntime = await svc
+    const rewardSummary = await applyDeterministicStoryReward({
+      svc,
+      campaignId,
+      playerId: user.userId,
+      boardType: boardType,
+      turnId: typeof commitPayload.turn_id === "string" ? commitPayload.turn_id : null,
+      turnSeed: turnSeed.toString(),
+      actionContext: actionContextRecord,
+      boardState: committedBoardState,
+      boardDelta: asObject(dmParsed.value.runtime_delta ?? dmParsed.value.board_delta),
+      requestId: ctx.requestId,
+      log: ctx.log,
+    });
+
+    // Timed quests lose a turn before this turn's upserts land, so a quest opened now starts with its full limit.
+    try {
+      await tickCampaignQuests(svc, campaignId);
+      await saveQuestUpserts({ svc, campaignId, playerId: user.userId, quests: questPlan.accepted });
+    } catch (error) {
+      ctx.log.warn("dm.quests.persist_failed", {
+        request_id: ctx.requestId,
+        campaign_id: campaignId,
+        hint: errMessage(error, "quest persist failed"),
+      });
+    }
+
+    // Turning in a finished job board contract pays out against this turn.
+    let contractPayout: ContractPayout | null = null;
+    const turnInPostingId = actionContextPayload?.job_action === "complete" && typeof actionContextPayload.job_posting_id === "string"
+      ? actionContextPayload.job_posting_id.trim()
+      : "";
+    if (turnInPostingId && typeof commitPayload.turn_id === "string") {
+      try {
+        const factionsQuery = await svc
           .schema("mythic")
-          .from("campaign_runtime")
-          .select("state_json")
-          .eq("id", committedRuntimeId)
-          .maybeSingle();
-        if (!committedRuntime.error && committedRuntime.data) {
-          committedBoardState = asObject((committedRuntime.data as Record<string, unknown>).state_json);
-        }
+          .from("factions")
+          .select("id,name")
+          .eq("campaign_id", campaignId);
+        if (factionsQuery.error) throw factionsQuery.error;
+        contractPayout = await turnInContract({
+          svc,
+          campaignId,
+          playerId: user.userId,
+          postingId: turnInPostingId,
+          turnId: commitPayload.turn_id,
+          factions: (factionsQuery.data ?? []) as Array<{ id: string; name: string }>,
+          requestId: ctx.requestId,
+        });
+        if (contractPayout.applied) await refreshRuntimeContractPostings(svc, campaignId);
+      } catch (error) {
+        ctx.log.warn("dm.contract_turn_in.failed", {
+          request_id: ctx.requestId,
+          campaign_id: campaignId,
+          posting_id: turnInPostingId,
+          hint: errMessage(error, "contract turn-in failed"),
+        });
       }
+    }
 
-      const rewardSummary = await applyDeterministicStoryReward({
+    // Typed commands carry the player's own words; UI chips and combat narration only carry intent.
+    try {
+      const typedPrompt = actionContextRecord === null || actionContextRecord.source === "typed_command";
+      const lastUserMessage = [...messages].reverse().find((entry) => entry.role === "user")?.content ?? null;
+      const playerPrompt = typedPrompt
+        ? (typeof actionContextPayload?.command === "string" ? actionContextPayload.command : lastUserMessage)
+        : null;
+      await recordPlayerModelSignal({
         svc,
         campaignId,
         playerId: user.userId,
-        boardType: boardType,
-        turnId: typeof commitPayload.turn_id === "string" ? commitPayload.turn_id : null,
-        turnSeed: turnSeed.toString(),
-        actionContext: actionContextRecord,
-        boardState: committedBoardState,
-        boardDelta: asObject(dmParsed.value.runtime_delta ?? dmParsed.value.board_delta),
-        requestId: ctx.requestId,
-        log: ctx.log,
+        kind: "dm_turn",
+        prompt: playerPrompt,
+        current: playerModelState,
+        signal: scoreDmTurn({
+          intent: typeof actionContextRecord?.intent === "string" ? actionContextRecord.intent : null,
+          parsedIntent: typeof actionContextPayload?.parsed_intent === "string" ? actionContextPayload.parsed_intent : null,
+          prompt: playerPrompt,
+          recentPrompts: playerModelState?.preferred_tactics.recent_prompts ?? [],
+        }),
       });
+    } catch (error) {
+      ctx.log.warn("dm.player_model.update_failed", {
+        request_id: ctx.requestId,
+        campaign_id: campaignId,
+        hint: errMessage(error, "player model update failed"),
+      });
+    }
 
-      dmResponseJson.meta = {
-        ...(typeof dmResponseJson.meta === "object" && dmResponseJson.meta ? dmResponseJson.meta : {}),
-        turn_id: commitPayload.turn_id ?? null,
-        turn_index: commitPayload.turn_index ?? expectedTurnIndex,
-        turn_seed: turnSeed.toString(),
-        world_time: commitPayload.world_time ?? null,
-        heat: commitPayload.heat ?? null,
-        reward_summary: rewardSummary,
-        world_forge_version: worldForgeVersion,
-        world_tick: Number(
-          worldStateForPrompt?.tick
-            ?? asObject(worldSummaryForPrompt?.world_state)?.tick
-            ?? Number.NaN,
-        ),
-      };
+    dmResponseJson.meta = {
+      ...(typeof dmResponseJson.meta === "object" && dmResponseJson.meta ? dmResponseJson.meta : {}),
+      turn_id: commitPayload.turn_id ?? null,
+      turn_index: commitPayload.turn_index ?? expectedTurnIndex,
+      turn_seed: turnSeed.toString(),
+      party_action_id: partyAction?.id ?? null,
+      world_time: commitPayload.world_time ?? null,
+      heat: commitPayload.heat ?? null,
+      reward_summary: rewardSummary,
+      contract_payout: contractPayout,
+      world_forge_version: worldForgeVersion,
+      world_tick: Number(
+        worldStateForPrompt?.tick
+          ?? asObject(worldSummaryForPrompt?.world_state)?.tick
+          ?? Number.NaN,
+      ),
+    };
 
-      ctx.log.info("dm.request.completed", {
+    ctx.log.info("dm.request.completed", {
+      request_id: ctx.requestId,
+      campaign_id: campaignId,
+      turn_id: commitPayload.turn_id ?? null,
+      turn_index: commitPayload.turn_index ?? expectedTurnIndex,
+      dm_validation_attempts: validationAttempts,
+      dm_recovery_used: dmRecoveryUsed,
+      dm_recovery_reason: dmRecoveryReason,
+      dm_narrator_mode: requestedNarratorMode,
+      dm_narrator_source: dmNarratorSource,
+      dm_procedural_error: proceduralError,
+      dm_ai_model: dmNarratorSource === "ai" ? dmAiModel : null,
+      dm_ai_provider: dmNarratorSource === "ai" ? dmAiProvider : null,
+      dm_intro_mode: introMode,
+      dm_intro_pending_before: introPendingBefore,
+      dm_intro_cleared: introCleared,
+      story_reward_applied: rewardSummary.applied,
+      story_reward_xp: rewardSummary.xp_awarded,
+      story_reward_loot_item_id: rewardSummary.loot_item_id,
+      story_reward_reason: rewardSummary.reason,
+    });
+    if (introMode) {
+      ctx.log.info("dm.intro.cleared", {
         request_id: ctx.requestId,
         campaign_id: campaignId,
+        intro_pending_before: introPendingBefore,
+        intro_cleared: introCleared,
         turn_id: commitPayload.turn_id ?? null,
-        turn_index: commitPayload.turn_index ?? expectedTurnIndex,
-        dm_validation_attempts: validationAttempts,
-        dm_recovery_used: dmRecoveryUsed,
-        dm_recovery_reason: dmRecoveryReason,
-        dm_narrator_mode: requestedNarratorMode,
-        dm_narrator_source: dmNarratorSource,
-        dm_procedural_error: proceduralError,
-        dm_ai_model: dmNarratorSource === "ai" ? requestedModel : null,
-        dm_intro_mode: introMode,
-        dm_intro_pending_before: introPendingBefore,
-        dm_intro_cleared: introCleared,
-        story_reward_applied: rewardSummary.applied,
-        story_reward_xp: rewardSummary.xp_awarded,
-        story_reward_loot_item_id: rewardSummary.loot_item_id,
-        story_reward_reason: rewardSummary.reason,
       });
-      if (introMode) {
-        ctx.log.info("dm.intro.cleared", {
-          request_id: ctx.requestId,
-          campaign_id: campaignId,
-          intro_pending_before: introPendingBefore,
-          intro_cleared: introCleared,
-          turn_id: commitPayload.turn_id ?? null,
-        });
-      }
+    }
 
-      const outText = JSON.stringify(dmResponseJson);
-      const response = new Response(streamOpenAiDelta(outText), {
-        status: 200,
-        headers: {
-          "Content-Type": "text/event-stream",
-          "Cache-Control": "no-cache",
-          "x-request-id": ctx.requestId,
-        },
+    // Patches, actions and rolls are only released once the turn validated and committed.
+    const released = buildDmTurnEvents({ payload: dmResponseJson, patches });
+    if (released.errors.length > 0) {
+      ctx.log.warn("dm.stream.contract_drift", { request_id: ctx.requestId, errors: released.errors });
+    }
+    const response = new Response(encodeDmTurnReplay(String(dmResponseJson.narration ?? ""), released.events), {
+      status: 200,
+      headers: { ...DM_STREAM_HEADERS, "x-request-id": ctx.requestId },
+    });
+    if (idempotencyKey) {
+      await storeIdempotentResponse(idempotencyKey, response, DM_IDEMPOTENCY_TTL_MS);
+    }
+    // The acting client already has the full stream; everyone else gets the committed narration.
+    void publishCampaignEvent({
+      campaignId,
+      type: "dm.turn",
+      actorUserId: user.userId,
+      payload: {
+        turn_id: commitPayload.turn_id ?? null,
+        turn_index: commitPayload.turn_index ?? expectedTurnIndex,
+        player_message: [...messages].reverse().find((entry) => entry.role === "user")?.content ?? null,
+        narration: String(dmResponseJson.narration ?? ""),
+        scene: asObject(dmResponseJson.scene),
+        party_action_id: partyAction?.id ?? null,
+        proposed_by: partyAction?.proposed_by ?? null,
+        approved_by: partyAction?.approved_by ?? null,
+      },
+    });
+    if (!turnStream.started) return response;
+    for (const event of released.events) turnStream.emit(event);
+    return response;
+  } catch (error) {
+    if (error instanceof AuthError) {
+      const code = error.code === "auth_required" ? "auth_required" : "auth_invalid";
+      const message = code === "auth_required" ? "Authentication required" : "Invalid or expired authentication token";
+      return new Response(JSON.stringify({ error: message, code, requestId: ctx.requestId }), {
+        status: 401,
+        headers: { "Content-Type": "application/json" },
       });
-      if (idempotencyKey) {
-        storeIdempotentResponse(idempotencyKey, response, DM_IDEMPOTENCY_TTL_MS);
-      }
-      return response;
-    } catch (error) {
-      if (error instanceof AuthError) {
-        const code = error.code === "auth_required" ? "auth_required" : "auth_invalid";
-        const message = code === "auth_required" ? "Authentication required" : "Invalid or expired authentication token";
-        return new Response(JSON.stringify({ error: message, code, requestId: ctx.requestId }), {
-          status: 401,
-          headers: { "Content-Type": "application/json" },
-        });
-      }
-      const normalized = sanitizeError(error);
-      ctx.log.error("dm.request.failed", { request_id: ctx.requestId, error: normalized.message, code: normalized.code });
-      const code = errCode(error) ?? normalized.code ?? "dm_request_failed";
-      const message = errMessage(error, normalized.message || "Failed to reach Mythic DM");
-      const status = errStatus(error) ?? (code === "openai_not_configured" ? 503 : 500);
-      return new Response(
-        JSON.stringify({
-          error: message,
-          status,
-          code,
-          details: errDetails(error),
-          requestId: ctx.requestId,
-        }),
-        { status, headers: { "Content-Type": "application/json" } },
-      );
     }
+    const normalized = sanitizeError(error);
+    ctx.log.error("dm.request.failed", { request_id: ctx.requestId, error: normalized.message, code: normalized.code });
+    const code = errCode(error) ?? normalized.code ?? "dm_request_failed";
+    const message = errMessage(error, normalized.message || "Failed to reach Mythic DM");
+    const status = errStatus(error) ?? (code === "openai_not_configured" ? 503 : 500);
+    return new Response(
+      JSON.stringify({
+        error: message,
+        status,
+        code,
+        details: errDetails(error),
+        requestId: ctx.requestId,
+      }),
+      { status, headers: { "Content-Type": "application/json" } },
+    );
+  }
+}
+
+async function finishDmTurnStream(turnStream: DmTurnStream, response: Response, requestId: string) {
+  if (!turnStream.finished) {
+    const body = await response.json().catch(() => null) as Record<string, unknown> | null;
+    const status = response.ok ? 500 : response.status;
+    turnStream.emit({
+      event: "done",
+      data: {
+        ok: false,
+        protocol: DM_STREAM_PROTOCOL,
+        error: typeof body?.error === "string" ? body.error : "Turn ended without a result",
+        code: typeof body?.code === "string" ? body.code : "dm_stream_incomplete",
+        status: typeof body?.status === "number" ? body.status : status,
+        details: body?.details,
+        requestId,
+      },
+    });
+  }
+  turnStream.close();
+}
+
+export const mythicDungeonMaster: FunctionHandler = {
+  name: "mythic-dungeon-master",
+  auth: "required",
+  async handle(req: Request, ctx: FunctionContext): Promise<Response> {
+    const turnStream = createDmTurnStream();
+    const settled = runDmTurn(req, ctx, turnStream);
+    // Rejections before narration starts (auth, rate limit, missing runtime) keep their JSON status codes.
+    const early = await Promise.race([settled, turnStream.opened]);
+    if (!turnStream.started && early) return early;
+
+    void settled
+      .then((response) => finishDmTurnStream(turnStream, response, ctx.requestId))
+      .catch((error) => {
+        const normalized = sanitizeError(error);
+        ctx.log.error("dm.stream.failed", { request_id: ctx.requestId, error: normalized.message, code: normalized.code });
+        return finishDmTurnStream(
+          turnStream,
+          new Response(JSON.stringify({ error: normalized.message || "Failed to reach Mythic DM", code: normalized.code ?? "dm_request_failed" }), { status: 500 }),
+          ctx.requestId,
+        );
+      });
+    return new Response(turnStream.readable, {
+      status: 200,
+      headers: { ...DM_STREAM_HEADERS, "x-request-id": ctx.requestId },
+    });
   },
 };
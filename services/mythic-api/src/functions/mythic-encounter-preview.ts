@@ -0,0 +1,127 @@
+import { z } from "zod";
+
+import { createServiceClient } from "../shared/supabase.js";
+import { AuthError, requireUser } from "../shared/auth.js";
+import { AuthzError, assertCampaignAccess } from "../shared/authz.js";
+import { enforceRateLimit } from "../shared/request_guard.js";
+import { sanitizeError } from "../shared/redact.js";
+import { MAX_ENCOUNTER_SIZE, composeEncounter } from "../lib/combat/encounters.js";
+import {
+  LethalityLevelSchema,
+  coerceCampaignContextFromProfile,
+  type CreaturePools,
+  type LethalityLevel,
+} from "../lib/worldforge/index.js";
+import type { FunctionContext, FunctionHandler } from "./types.js";
+
+// The BalancePanel's encounter preview. It runs the same table as mythic-combat-start against the campaign's
+// creature pools, so a combat seed previews the exact group that fight fields.
+const RequestSchema = z.object({
+  campaignId: z.string().uuid(),
+  seed: z.number().int().min(0).max(2_147_483_647),
+  partySize: z.number().int().min(1).max(MAX_ENCOUNTER_SIZE),
+  partyLevel: z.number().int().min(1).max(99),
+  /** Defaults to the world's forge lethality. */
+  lethality: LethalityLevelSchema.optional(),
+  regionId: z.string().max(120).nullable().optional(),
+  /** Combat start's reason and board mode, used only when the campaign has no creature pools. */
+  themeHint: z.string().max(240).optional(),
+  bossRoom: z.boolean().optional(),
+});
+
+function asObject(value: unknown): Record<string, unknown> {
+  return value && typeof value === "object" && !Array.isArray(value) ? value as Record<string, unknown> : {};
+}
+
+export const mythicEncounterPreview: FunctionHandler = {
+  name: "mythic-encounter-preview",
+  auth: "required",
+  async handle(req: Request, ctx: FunctionContext): Promise<Response> {
+    const requestId = ctx.requestId;
+    const baseHeaders = { "Content-Type": "application/json", "x-request-id": requestId };
+
+    const rateLimited = await enforceRateLimit({
+      req,
+      route: "mythic-encounter-preview",
+      limit: 60,
+      windowMs: 60_000,
+      corsHeaders: {},
+      requestId,
+    });
+    if (rateLimited) return rateLimited;
+
+    try {
+      const user = await requireUser(req.headers);
+
+      const parsed = RequestSchema.safeParse(await req.json().catch(() => null));
+      if (!parsed.success) {
+        return new Response(JSON.stringify({ error: "Invalid request", code: "invalid_request", details: parsed.error.flatten(), requestId }), {
+          status: 400,
+          headers: baseHeaders,
+        });
+      }
+
+      const { campaignId, seed, partySize, partyLevel } = parsed.data;
+      const svc = createServiceClient();
+
+      await assertCampaignAccess(svc, campaignId, user.userId);
+
+      const { data: worldProfile, error: worldProfileError } = await svc
+        .schema("mythic")
+        .from("world_profiles")
+        .select("seed_title, seed_description, template_key, world_profile_json")
+        .eq("campaign_id", campaignId)
+        .maybeSingle();
+      if (worldProfileError) throw worldProfileError;
+
+      let creaturePools: CreaturePools | null = null;
+      let worldLethality: LethalityLevel | null = null;
+      if (worldProfile) {
+        const worldContext = coerceCampaignContextFromProfile({
+          seedTitle: String((worldProfile as any).seed_title ?? "Mythic Campaign"),
+          seedDescription: String((worldProfile as any).seed_description ?? "Mythic campaign"),
+          templateKey: typeof (worldProfile as any).template_key === "string" ? (worldProfile as any).template_key : "custom",
+          worldProfileJson: asObject((worldProfile as any).world_profile_json),
+        }).worldContext;
+        creaturePools = worldContext.creaturePools;
+        worldLethality = worldContext.worldSeed.forgeInput.lethality ?? null;
+      }
+
+      const encounter = composeEncounter({
+        seed,
+        partySize,
+        partyLevel,
+        lethality: parsed.data.lethality ?? worldLethality,
+        pools: creaturePools,
+        regionId: parsed.data.regionId ?? null,
+        themeHint: parsed.data.themeHint ?? "",
+        bossRoom: parsed.data.bossRoom === true,
+      });
+
+      return new Response(JSON.stringify({
+        ok: true,
+        campaign_id: campaignId,
+        seed,
+        world_lethality: worldLethality,
+        regions: Object.keys(creaturePools?.byBiome ?? {}),
+        encounter,
+        requestId,
+      }), { status: 200, headers: baseHeaders });
+    } catch (error) {
+      if (error instanceof AuthError) {
+        const code = error.code === "auth_required" ? "auth_required" : "auth_invalid";
+        const message = code === "auth_required" ? "Authentication required" : "Invalid or expired authentication token";
+        return new Response(JSON.stringify({ error: message, code, requestId }), { status: 401, headers: baseHeaders });
+      }
+      if (error instanceof AuthzError) {
+        return new Response(JSON.stringify({ error: error.message, code: error.code, requestId }), { status: error.status, headers: baseHeaders });
+      }
+      const normalized = sanitizeError(error);
+      ctx.log.error("encounter_preview.failed", { request_id: requestId, error: normalized.message, code: normalized.code });
+      return new Response(
+        JSON.stringify({ ok: false, error: normalized.message || "Failed to preview encounter", code: normalized.code ?? "encounter_preview_failed", requestId }),
+        { status: 500, headers: baseHeaders },
+      );
+    }
+  },
+};
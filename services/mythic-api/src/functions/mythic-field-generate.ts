@@ -154,7 +154,7 @@ export const mythicFieldGenerate: FunctionHandler = {
   name: "mythic-field-generate",
   auth: "required",
   async handle(req: Request, ctx: FunctionContext): Promise<Response> {
-    const rateLimited = enforceRateLimit({
+    const rateLimited = await enforceRateLimit({
       req,
       route: "mythic-field-generate",
       limit: 60,
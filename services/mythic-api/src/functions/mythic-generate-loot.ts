@@ -5,6 +5,7 @@ import { AuthError, requireUser } from "../shared/auth.js";
 import { AuthzError, assertCampaignAccess } from "../shared/authz.js";
 import { pickLootRarity, rollLootItem, type LootRarity, LOOT_RARITIES, rarityBudget } from "../shared/loot_roll.js";
 import { sanitizeError } from "../shared/redact.js";
+import { loadCampaignRules, lootRarityScale } from "../lib/rules/houseRules.js";
 import type { FunctionContext, FunctionHandler } from "./types.js";
 
 const RequestSchema = z.object({
@@ -75,9 +76,11 @@ export const mythicGenerateLoot: FunctionHandler = {
         : "";
       const level = Math.max(1, Math.min(99, rowToInt((character as any).level, 1)));
       const baseSeed = seed ?? (Math.floor(Date.now() / 1000) % 2_147_483_647);
+      const rules = await loadCampaignRules(svc, campaignId);
+      const rarityScale = lootRarityScale(rules.tunables);
 
       const generatedItems = Array.from({ length: count }).map((_, idx) => {
-        const itemRarity = rarity ?? pickLootRarity(baseSeed, `loot:rarity:${idx}`, level);
+        const itemRarity = rarity ?? pickLootRarity(baseSeed, `loot:rarity:${idx}`, level, rarityScale);
         return rollLootItem({
           seed: baseSeed,
           label: `loot:${campaignId}:${(character as any).id}:${idx}`,
@@ -127,6 +130,7 @@ export const mythicGenerateLoot: FunctionHandler = {
             generated_count: generatedItems.length,
             level,
             role,
+            rule_version: rules.ruleVersion,
           },
         });
       if (dropErr) throw dropErr;
@@ -63,6 +63,13 @@ export const mythicInventoryEquip: FunctionHandler = {
           headers: baseHeaders,
         });
       }
+      if (slot === "material" || slot === "consumable") {
+        const error = slot === "material" ? "Crafting materials cannot be equipped" : "Consumables are used from the backpack, not equipped";
+        return new Response(JSON.stringify({ error, code: "item_not_equippable", requestId: ctx.requestId }), {
+          status: 409,
+          headers: baseHeaders,
+        });
+      }
 
       if (!unlimitedSlots.has(slot)) {
         const { error: clearErr } = await svc
@@ -113,7 +113,7 @@ export const mythicJoinCampaign: FunctionHandler = {
   name: "mythic-join-campaign",
   auth: "required",
   async handle(req: Request, ctx: FunctionContext): Promise<Response> {
-    const rateLimited = enforceRateLimit({
+    const rateLimited = await enforceRateLimit({
       req,
       route: "mythic-join-campaign",
       limit: 30,
@@ -148,7 +148,7 @@ export const mythicJoinCampaign: FunctionHandler = {
       const idempotencyHeader = idempotencyKeyFromRequest(req);
       const idempotencyKey = idempotencyHeader ? `${user.userId}:${idempotencyHeader}` : null;
       if (idempotencyKey) {
-        const cached = getIdempotentResponse(idempotencyKey);
+        const cached = await getIdempotentResponse(idempotencyKey);
         if (cached) {
           ctx.log.info("join_campaign.idempotent_hit", { request_id: ctx.requestId, user_id: user.userId });
           return cached;
@@ -364,7 +364,7 @@ export const mythicJoinCampaign: FunctionHandler = {
       });
 
       if (idempotencyKey) {
-        storeIdempotentResponse(idempotencyKey, response, 60_000);
+        await storeIdempotentResponse(idempotencyKey, response, 60_000);
       }
 
       ctx.log.info("join_campaign.success", { request_id: ctx.requestId, campaign_id: campaign.id, user_id: user.userId });
@@ -39,7 +39,7 @@ export const mythicListCampaigns: FunctionHandler = {
   async handle(req: Request, ctx: FunctionContext): Promise<Response> {
     const startMs = nowMs();
 
-    const rateLimited = enforceRateLimit({
+    const rateLimited = await enforceRateLimit({
       req,
       route: "mythic-list-campaigns",
       limit: 60,
@@ -0,0 +1,209 @@
+import { z } from "zod";
+
+import { createServiceClient } from "../shared/supabase.js";
+import { AuthError, requireUser } from "../shared/auth.js";
+import { AuthzError, assertCampaignAccess } from "../shared/authz.js";
+import { enforceRateLimit } from "../shared/request_guard.js";
+import { sanitizeError } from "../shared/redact.js";
+import { publishCampaignEvent } from "../shared/campaign_channel.js";
+import {
+  PARTY_ACTION_KINDS,
+  loadPartyMembers,
+  loadPartyQueue,
+  loadPartyVotes,
+  nextResolvablePartyAction,
+  tallyPartyVotes,
+  type PartyActionRow,
+} from "../lib/party/queue.js";
+import type { FunctionContext, FunctionHandler } from "./types.js";
+
+const ActionIdSchema = z.object({ campaignId: z.string().uuid(), actionId: z.string().uuid() });
+
+const RequestSchema = z.discriminatedUnion("op", [
+  z.object({ op: z.literal("list"), campaignId: z.string().uuid() }),
+  z.object({
+    op: z.literal("propose"),
+    campaignId: z.string().uuid(),
+    kind: z.enum(PARTY_ACTION_KINDS),
+    prompt: z.string().trim().min(1).max(2000),
+    action: z.record(z.unknown()).nullable().optional(),
+  }),
+  ActionIdSchema.extend({ op: z.literal("vote"), vote: z.enum(["yes", "no"]) }),
+  ActionIdSchema.extend({ op: z.literal("decide"), decision: z.enum(["accept", "reject"]) }),
+  ActionIdSchema.extend({ op: z.literal("withdraw") }),
+]);
+
+function queueError(status: number, code: string, message: string, requestId: string, headers: Record<string, string>) {
+  return new Response(JSON.stringify({ error: message, code, requestId }), { status, headers });
+}
+
+export const mythicPartyQueue: FunctionHandler = {
+  name: "mythic-party-queue",
+  auth: "required",
+  async handle(req: Request, ctx: FunctionContext): Promise<Response> {
+    const requestId = ctx.requestId;
+    const baseHeaders = { "Content-Type": "application/json", "x-request-id": requestId };
+
+    const rateLimited = await enforceRateLimit({
+      req,
+      route: "mythic-party-queue",
+      limit: 90,
+      windowMs: 60_000,
+      corsHeaders: {},
+      requestId,
+    });
+    if (rateLimited) return rateLimited;
+
+    try {
+      const user = await requireUser(req.headers);
+
+      const parsed = RequestSchema.safeParse(await req.json().catch(() => null));
+      if (!parsed.success) {
+        return new Response(JSON.stringify({ error: "Invalid request", code: "invalid_request", details: parsed.error.flatten(), requestId }), {
+          status: 400,
+          headers: baseHeaders,
+        });
+      }
+
+      const body = parsed.data;
+      const campaignId = body.campaignId;
+      const svc = createServiceClient();
+
+      await assertCampaignAccess(svc, campaignId, user.userId);
+      const party = await loadPartyMembers(svc, campaignId);
+      const partySize = party.userIds.length;
+      const isOwner = party.ownerId === user.userId;
+
+      const loadAction = async (actionId: string): Promise<PartyActionRow | null> => {
+        const { data, error } = await svc
+          .schema("mythic")
+          .from("party_actions")
+          .select("*")
+          .eq("id", actionId)
+          .eq("campaign_id", campaignId)
+          .maybeSingle();
+        if (error) throw error;
+        return (data ?? null) as PartyActionRow | null;
+      };
+
+      // Status moves are conditional on the status we read, so concurrent votes cannot settle an action twice.
+      const settle = async (actionId: string, patch: Partial<PartyActionRow>) => {
+        const { error } = await svc
+          .schema("mythic")
+          .from("party_actions")
+          .update(patch)
+          .eq("id", actionId)
+          .eq("status", "pending");
+        if (error) throw error;
+      };
+
+      let changedActionId: string | null = null;
+
+      if (body.op === "propose") {
+        const { data: inserted, error: insertErr } = await svc
+          .schema("mythic")
+          .from("party_actions")
+          .insert({
+            campaign_id: campaignId,
+            proposed_by: user.userId,
+            kind: body.kind,
+            prompt: body.prompt,
+            action_json: body.kind === "ui_action" ? body.action ?? {} : null,
+          })
+          .select("*")
+          .single();
+        if (insertErr) throw insertErr;
+        const action = inserted as PartyActionRow;
+        const { error: voteErr } = await svc
+          .schema("mythic")
+          .from("party_action_votes")
+          .insert({ action_id: action.id, user_id: user.userId, vote: "yes" });
+        if (voteErr) throw voteErr;
+        // The proposer's own vote settles it at a solo table.
+        if (tallyPartyVotes({ [user.userId]: "yes" }, partySize).decision === "accepted") {
+          await settle(action.id, { status: "accepted", approved_by: user.userId, approved_via: "vote" });
+        }
+        changedActionId = action.id;
+        ctx.log.info("party_queue.proposed", { request_id: requestId, campaign_id: campaignId, action_id: action.id, kind: body.kind });
+      } else if (body.op !== "list") {
+        const action = await loadAction(body.actionId);
+        if (!action) return queueError(404, "party_action_not_found", "Party action not found", requestId, baseHeaders);
+        if (action.status !== "pending") {
+          return queueError(409, "party_action_closed", `Party action is already ${action.status}`, requestId, baseHeaders);
+        }
+
+        if (body.op === "vote") {
+          const { error: voteErr } = await svc
+            .schema("mythic")
+            .from("party_action_votes")
+            .upsert({ action_id: action.id, user_id: user.userId, vote: body.vote }, { onConflict: "action_id,user_id" });
+          if (voteErr) throw voteErr;
+          const votes = (await loadPartyVotes(svc, [action.id])).get(action.id) ?? {};
+          const tally = tallyPartyVotes(votes, partySize);
+          if (tally.decision === "accepted") {
+            await settle(action.id, { status: "accepted", approved_by: user.userId, approved_via: "vote" });
+          } else if (tally.decision === "rejected") {
+            await settle(action.id, { status: "rejected" });
+          }
+          ctx.log.info("party_queue.voted", {
+            request_id: requestId,
+            campaign_id: campaignId,
+            action_id: action.id,
+            yes: tally.yes,
+            no: tally.no,
+            decision: tally.decision,
+          });
+        } else if (body.op === "decide") {
+          if (!isOwner) throw new AuthzError("campaign_owner_required", "Only the campaign owner can accept or reject actions", 403);
+          await settle(action.id, body.decision === "accept"
+            ? { status: "accepted", approved_by: user.userId, approved_via: "owner" }
+            : { status: "rejected", approved_by: user.userId, approved_via: "owner" });
+          ctx.log.info("party_queue.decided", { request_id: requestId, campaign_id: campaignId, action_id: action.id, decision: body.decision });
+        } else {
+          if (action.proposed_by !== user.userId) {
+            return queueError(403, "party_action_not_yours", "Only the proposer can withdraw this action", requestId, baseHeaders);
+          }
+          await settle(action.id, { status: "withdrawn" });
+        }
+        changedActionId = action.id;
+      }
+
+      const queue = await loadPartyQueue(svc, campaignId, partySize);
+      const next = nextResolvablePartyAction(queue, Date.now());
+
+      if (changedActionId) {
+        void publishCampaignEvent({
+          campaignId,
+          type: "party.queue",
+          actorUserId: user.userId,
+          payload: { op: body.op, action_id: changedActionId, next_action_id: next?.id ?? null },
+        });
+      }
+
+      return new Response(JSON.stringify({
+        ok: true,
+        campaign_id: campaignId,
+        party_size: partySize,
+        can_decide: isOwner,
+        next_action_id: next?.id ?? null,
+        queue,
+        requestId,
+      }), { status: 200, headers: baseHeaders });
+    } catch (error) {
+      if (error instanceof AuthError) {
+        const code = error.code === "auth_required" ? "auth_required" : "auth_invalid";
+        const message = code === "auth_required" ? "Authentication required" : "Invalid or expired authentication token";
+        return new Response(JSON.stringify({ error: message, code, requestId }), { status: 401, headers: baseHeaders });
+      }
+      if (error instanceof AuthzError) {
+        return new Response(JSON.stringify({ error: error.message, code: error.code, requestId }), { status: error.status, headers: baseHeaders });
+      }
+      const normalized = sanitizeError(error);
+      ctx.log.error("party_queue.failed", { request_id: requestId, error: normalized.message, code: normalized.code });
+      return new Response(
+        JSON.stringify({ error: normalized.message || "Failed to update party queue", code: normalized.code ?? "party_queue_failed", requestId }),
+        { status: 500, headers: baseHeaders },
+      );
+    }
+  },
+};
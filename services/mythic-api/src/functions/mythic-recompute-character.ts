@@ -3,6 +3,7 @@ import { z } from "zod";
 import { createServiceClient } from "../shared/supabase.js";
 import { AuthError, requireUser } from "../shared/auth.js";
 import { AuthzError, assertCampaignAccess } from "../shared/authz.js";
+import { isItemBroken } from "../lib/gear/durability.js";
 import { sanitizeError } from "../shared/redact.js";
 import type { FunctionContext, FunctionHandler } from "./types.js";
 
@@ -28,9 +29,11 @@ function clampStat(n: number): number {
   return Math.min(100, Math.max(0, Math.floor(n)));
 }
 
-function sumEquipmentBonuses(rows: Array<{ item?: { stat_mods?: unknown } | null }>) {
+function sumEquipmentBonuses(rows: Array<{ item?: { stat_mods?: unknown; durability_json?: unknown } | null }>) {
   const totals: Record<string, number> = {};
   for (const row of rows) {
+    // Broken gear stays equipped but stops contributing until it is repaired.
+    if (isItemBroken(row?.item)) continue;
     const statMods = asObject(row?.item?.stat_mods);
     for (const [k, v] of Object.entries(statMods)) {
       const add = num(v, 0);
@@ -86,12 +89,12 @@ export const mythicRecomputeCharacter: FunctionHandler = {
       const { data: equippedItems, error: equipError } = await svc
         .schema("mythic")
         .from("inventory")
-        .select("id, container, item:items(stat_mods)")
+        .select("id, container, item:items(stat_mods, durability_json)")
         .eq("character_id", (character as any).id)
         .eq("container", "equipment");
       if (equipError) throw equipError;
 
-      const equipBonuses = sumEquipmentBonuses((equippedItems ?? []) as Array<{ item?: { stat_mods?: unknown } | null }>);
+      const equipBonuses = sumEquipmentBonuses((equippedItems ?? []) as Array<{ item?: { stat_mods?: unknown; durability_json?: unknown } | null }>);
 
       const derivedStats = STAT_KEYS.reduce((acc, key) => {
         const base = num((character as any)[key], 0);
@@ -11,9 +11,53 @@ import {
   coerceCampaignContextFromProfile,
   WORLD_FORGE_VERSION,
   type CampaignContext,
+  type DensityLevel,
+  type LethalityLevel,
   type PlayerWorldAction,
 } from "../lib/worldforge/index.js";
+import {
+  applyDungeonAction,
+  dungeonDensityLevel,
+  generateDungeonGraph,
+  initialDungeonProgress,
+  readDungeonGraph,
+  readDungeonProgress,
+  revealedDungeonRooms,
+} from "../lib/dungeon/graph.js";
+import {
+  buildTownNpcSchedule,
+  describeTownNpcMove,
+  readTownNpcErrand,
+  readTownNpcSchedule,
+  stepTownNpc,
+  townClockState,
+} from "../lib/town/schedule.js";
+import { gossipKindForTone, readTownGossip, spreadTownGossip, syncTownSocialTies } from "../lib/town/gossip.js";
+import { findDueNemesisStrike } from "../lib/nemesis/index.js";
+import { applyReputationDelta } from "../lib/reputation/store.js";
+import { encounterCreatureNames } from "../lib/combat/encounters.js";
+import { acceptContract, readContractPosting, recordContractProgress, withContractPostings } from "../lib/contracts/index.js";
+import { recordQuestEvents, type QuestEvent } from "../lib/quests/index.js";
+import {
+  biomeDanger,
+  campCheckins,
+  readCampGuard,
+  readCharacterVitals,
+  recoverVitals,
+  rollCamp,
+  type CampOutcome,
+} from "../lib/environment/camp.js";
+import {
+  advanceWorldClock,
+  environmentModifiers,
+  readWorldClock,
+  resolveClockRegion,
+  transitionClockTicks,
+  vendorHours,
+  type WorldClock,
+} from "../lib/environment/worldClock.js";
 import { sanitizeError } from "../shared/redact.js";
+import { publishCampaignEvent } from "../shared/campaign_channel.js";
 import type { FunctionContext, FunctionHandler } from "./types.js";
 
 const RuntimeModeSchema = z.enum(["town", "travel", "dungeon", "combat"]);
@@ -65,11 +109,15 @@ interface ContinuityState {
   companion_checkins: unknown[];
   job_postings: unknown[];
   room_state: Record<string, unknown>;
+  room_graph: unknown;
+  dungeon_progress: unknown;
   town_npcs: unknown[];
   town_relationships: Record<string, unknown>;
   town_grudges: Record<string, unknown>;
   town_activity_log: unknown[];
   town_clock: Record<string, unknown>;
+  town_social_ties: Record<string, unknown>;
+  town_gossip: unknown[];
 }
 
 interface CompanionState {
@@ -130,17 +178,6 @@ const templateTerrains: Record<TemplateKey, string[]> = {
   post_apocalypse: ["dust_highway", "collapsed_suburb", "rust_channel", "scorchline", "radio_tower_trail"],
 };
 
-const templateWeather: Record<TemplateKey, string[]> = {
-  custom: ["clear", "wind", "rain", "dust", "storm"],
-  graphic_novel_fantasy: ["clear", "golden_mist", "wind", "storm"],
-  sci_fi_ruins: ["ion_wind", "acid_rain", "smog", "electro_storm"],
-  post_apoc_warlands: ["dust", "ashfall", "heat_haze", "storm"],
-  gothic_horror: ["fog", "drizzle", "cold_wind", "thunder"],
-  mythic_chaos: ["rift_static", "mana_storm", "chaos_rain", "clear"],
-  dark_mythic_horror: ["blood_mist", "funeral_rain", "black_wind", "fog"],
-  post_apocalypse: ["dust", "acid_rain", "clear", "storm"],
-};
-
 const templateServices: Record<TemplateKey, string[]> = {
   custom: ["inn", "healer", "notice_board"],
   graphic_novel_fantasy: ["inn", "apothecary", "guild_board"],
@@ -177,7 +214,6 @@ const townNpcTitles = [
   "Dusk Herbalist",
 ];
 const townNpcMoods = ["steady", "wary", "eager", "tired", "suspicious", "hopeful"];
-const townNpcScheduleStates = ["market", "square", "gate", "alley", "notice_board", "chapel"];
 
 function nowIso() {
   return new Date().toISOString();
@@ -438,7 +474,7 @@ function normalizeJobPosting(entry: unknown, fallbackId: string): Record<string,
   const summary = typeof raw.summary === "string" && raw.summary.trim().length > 0 ? raw.summary.trim() : null;
   if (!title && !summary) return null;
   const statusRaw = typeof raw.status === "string" ? raw.status.trim().toLowerCase() : "open";
-  const status = statusRaw === "accepted" || statusRaw === "completed" ? statusRaw : "open";
+  const status = ["accepted", "ready", "completed", "failed"].includes(statusRaw) ? statusRaw : "open";
   return {
     ...raw,
     id,
@@ -465,6 +501,9 @@ function buildTownJobPostings(args: {
       summary: `Hit ${factionB}'s courier chain before dusk and recover what they are hiding.`,
       reward_hint: "xp_medium_loot_low",
       danger: tensionTier,
+      template: "supply_ring",
+      issuer: factionA,
+      target: factionB,
       status: "open",
     },
     {
@@ -473,6 +512,9 @@ function buildTownJobPostings(args: {
       summary: `Track ${factionA} scouts from gate to safehouse without burning your cover.`,
       reward_hint: "xp_medium_loot_medium",
       danger: tensionTier === "high" ? "high" : "medium",
+      template: "scout_cell",
+      issuer: factionB,
+      target: factionA,
       status: "open",
     },
     {
@@ -481,6 +523,9 @@ function buildTownJobPostings(args: {
       summary: "Find the ledger, verify it, and decide who gets exposed in public.",
       reward_hint: "xp_low_loot_medium",
       danger: "medium",
+      template: "lost_ledger",
+      issuer: factionA,
+      target: null,
       status: "open",
     },
   ];
@@ -539,11 +584,15 @@ function readContinuity(activeState: Record<string, unknown> | null): Continuity
     companion_checkins: asArray(state.companion_checkins),
     job_postings: asArray(state.job_postings),
     room_state: asRecord(state.room_state),
+    room_graph: state.room_graph ?? null,
+    dungeon_progress: state.dungeon_progress ?? null,
     town_npcs: asArray(state.town_npcs),
     town_relationships: asRecord(state.town_relationships),
     town_grudges: asRecord(state.town_grudges),
     town_activity_log: asArray(state.town_activity_log),
     town_clock: asRecord(state.town_clock),
+    town_social_ties: asRecord(state.town_social_ties),
+    town_gossip: asArray(state.town_gossip),
   };
 }
 
@@ -632,11 +681,6 @@ function buildDefaultTownNpcs(args: {
       mood: rngPick(args.seed, `town:npc:mood:${index}`, townNpcMoods),
       relationship: rngInt(args.seed, `town:npc:rel:${index}`, -12, 20),
       grudge: rngInt(args.seed, `town:npc:grudge:${index}`, 0, 18),
-      schedule_state: rngPick(args.seed, `town:npc:schedule:${index}`, townNpcScheduleStates),
-      location_tile: {
-        x: rngInt(args.seed, `town:npc:x:${index}`, 0, 11),
-        y: rngInt(args.seed, `town:npc:y:${index}`, 4, 7),
-      },
       updated_at: nowIso(),
     };
   });
@@ -646,6 +690,7 @@ function buildTownLiveness(args: {
   seed: number;
   continuity: ContinuityState;
   factionNames: string[];
+  factionsPresent: string[];
   payload: Record<string, unknown>;
 }): {
   town_npcs: Record<string, unknown>[];
@@ -653,6 +698,8 @@ function buildTownLiveness(args: {
   town_grudges: Record<string, unknown>;
   town_activity_log: Record<string, unknown>[];
   town_clock: Record<string, unknown>;
+  town_social_ties: Record<string, unknown>;
+  town_gossip: Record<string, unknown>[];
 } {
   const baseClockTick = clampInt(Number(args.continuity.town_clock.tick ?? 0), 0, 999999);
   const tick = baseClockTick + 1;
@@ -688,14 +735,36 @@ function buildTownLiveness(args: {
     const relationshipBase = clampScore(Number(relationshipMap[id] ?? entry.relationship ?? 0), -100, 100);
     const grudgeBase = clampScore(Number(grudgeMap[id] ?? entry.grudge ?? 0), 0, 100);
     const stanceDelta = rngInt(args.seed, `town:npc:drift:${tick}:${id}`, -2, 2);
-    const mood = rngPick(args.seed, `town:npc:mood:${tick}:${id}`, townNpcMoods);
-    const scheduleState = rngPick(args.seed, `town:npc:schedule:${tick}:${id}`, townNpcScheduleStates);
-    const tileX = rngInt(args.seed, `town:npc:x:${tick}:${id}`, 0, 11);
-    const tileY = rngInt(args.seed, `town:npc:y:${tick}:${id}`, 4, 7);
+    const interacted = Boolean(interactionNpcId) && interactionNpcId === id;
+    // Moods carry over between visits and only sometimes turn.
+    const previousMood = typeof entry.mood === "string" ? entry.mood : "steady";
+    const mood = rngInt(args.seed, `town:npc:mood:shift:${tick}:${id}`, 0, 3) === 0
+      ? rngPick(args.seed, `town:npc:mood:${tick}:${id}`, townNpcMoods)
+      : previousMood;
+    // Legacy rows without a stored routine get the one their seed and role imply.
+    const schedule = readTownNpcSchedule(entry.schedule)
+      ?? buildTownNpcSchedule(args.seed, { id, role: typeof entry.role === "string" ? entry.role : "local" });
+    const whereabouts = stepTownNpc({
+      seed: args.seed,
+      npcId: id,
+      tick,
+      schedule,
+      location: entry.location_tile ?? null,
+      errand: readTownNpcErrand(entry.errand),
+      interaction: interacted ? { action: interactionAction || "talk", tone: interactionTone } : null,
+    });
+    const move = describeTownNpcMove({
+      name: String(entry.name),
+      schedule,
+      before: typeof entry.destination === "string" && typeof entry.schedule_state === "string"
+        ? { schedule_state: entry.schedule_state, destination: entry.destination }
+        : null,
+      after: whereabouts,
+    });
     let relationship = clampScore(relationshipBase + stanceDelta, -100, 100);
     let grudge = clampScore(grudgeBase + (stanceDelta < 0 ? 1 : 0), 0, 100);
 
-    if (interactionNpcId && interactionNpcId === id) {
+    if (interacted) {
       const relationshipDelta = interactionTone === "helpful"
         ? 8
         : interactionTone === "hostile"
@@ -722,13 +791,13 @@ function buildTownLiveness(args: {
         grudge,
         happened_at: nowIso(),
       });
-    } else {
+    } else if (move) {
       activityLog.push({
         tick,
         npc_id: id,
         npc_name: entry.name,
-        action: "patrol",
-        detail: `${entry.name} rotates through ${scheduleState}.`,
+        action: whereabouts.schedule_state === "walking" ? "moves" : "settles",
+        detail: move,
         relationship,
         grudge,
         happened_at: nowIso(),
@@ -739,24 +808,63 @@ function buildTownLiveness(args: {
     grudgeMap[id] = grudge;
     return {
       ...entry,
+      id,
+      name: String(entry.name),
+      faction: typeof entry.faction === "string" ? entry.faction : "independent",
       mood,
       relationship,
       grudge,
-      schedule_state: scheduleState,
-      location_tile: { x: tileX, y: tileY },
+      schedule,
+      ...whereabouts,
       updated_at: nowIso(),
     };
   });
 
+  // Word of how the player treated someone travels along friendships, a retelling per tick.
+  const socialNpcs = updatedNpcs.map((npc) => ({ id: npc.id, name: npc.name, faction: npc.faction, workplace: npc.schedule.workplace }));
+  const socialTies = syncTownSocialTies(args.seed, socialNpcs, args.continuity.town_social_ties);
+  const gossipKind = interactionNpcId ? gossipKindForTone(interactionTone) : null;
+  const spread = spreadTownGossip({
+    seed: args.seed,
+    tick,
+    npcs: socialNpcs,
+    ties: socialTies.ties,
+    gossip: readTownGossip(args.continuity.town_gossip),
+    factionsPresent: args.factionsPresent,
+    started: gossipKind ? { kind: gossipKind, about_npc_id: interactionNpcId } : null,
+  });
+  for (const hearing of spread.hearings) {
+    const npc = updatedNpcs.find((entry) => entry.id === hearing.npc_id);
+    if (!npc) continue;
+    npc.relationship = clampScore(npc.relationship + hearing.relationship_delta, -100, 100);
+    npc.grudge = clampScore(npc.grudge + hearing.grudge_delta, 0, 100);
+    relationshipMap[npc.id] = npc.relationship;
+    grudgeMap[npc.id] = npc.grudge;
+    activityLog.push({
+      tick,
+      npc_id: npc.id,
+      npc_name: npc.name,
+      action: "hears",
+      detail: hearing.detail,
+      gossip_id: hearing.gossip_id,
+      from_npc_id: hearing.from_npc_id,
+      relationship: npc.relationship,
+      grudge: npc.grudge,
+      happened_at: nowIso(),
+    });
+  }
+
   return {
     town_npcs: updatedNpcs.slice(0, 12),
     town_relationships: relationshipMap,
     town_grudges: grudgeMap,
     town_activity_log: activityLog.slice(-24),
     town_clock: {
-      tick,
+      ...townClockState(tick),
       updated_at: nowIso(),
     },
+    town_social_ties: { ...socialTies },
+    town_gossip: spread.gossip.map((entry) => ({ ...entry })),
   };
 }
 
@@ -768,8 +876,9 @@ function buildTownState(args: {
   tension: number;
   companions: CompanionState[];
   payload: Record<string, unknown>;
+  clock: WorldClock;
 }): Record<string, unknown> {
-  const { seed, world, continuity, factionNames, tension, companions, payload } = args;
+  const { seed, world, continuity, factionNames, tension, companions, payload, clock } = args;
   const vendorCount = rngInt(seed, "town:vendors", 2, 5);
   const services = templateServices[world.template_key] ?? templateServices.custom;
   const dynamicHooks = buildDynamicHooks({
@@ -779,15 +888,26 @@ function buildTownState(args: {
     factionNames,
     tension,
   });
-  const vendors = Array.from({ length: vendorCount }).map((_, idx) => ({
-    id: `vendor_${idx + 1}`,
-    name: makeName(seed, `town:vendor:${idx}`),
-    services: rngPick(seed, `town:vendor:svc:${idx}`, [
+  const factionsPresent = uniqueUnknownArray([
+    ...pickFactionNames(seed, factionNames, 4, "town:factions"),
+    ...continuity.factions_present,
+  ]).slice(0, 6);
+  // Vendors trade under one of the factions in town; selling to them leans on that faction's reputation.
+  const vendorFactions = factionsPresent.filter((entry): entry is string => typeof entry === "string");
+  const vendors = Array.from({ length: vendorCount }).map((_, idx) => {
+    const vendorServices = rngPick(seed, `town:vendor:svc:${idx}`, [
       services.slice(0, 2),
       services.slice(-2),
       [...services],
-    ]),
-  }));
+    ]);
+    return {
+      id: `vendor_${idx + 1}`,
+      name: makeName(seed, `town:vendor:${idx}`),
+      services: vendorServices,
+      faction: vendorFactions.length > 0 ? rngPick(seed, `town:vendor:faction:${idx}`, vendorFactions) : null,
+      ...vendorHours(vendorServices, clock.tick),
+    };
+  });
   const jobPostings = buildTownJobPostings({
     seed,
     factionNames,
@@ -804,6 +924,7 @@ function buildTownState(args: {
     seed,
     continuity,
     factionNames,
+    factionsPresent: factionsPresent.filter((entry): entry is string => typeof entry === "string"),
     payload,
   });
 
@@ -818,10 +939,7 @@ function buildTownState(args: {
     services,
     gossip: asArray(payload.gossip).length > 0 ? asArray(payload.gossip) : [],
     rumors: uniqueUnknownArray([...continuity.rumors, ...dynamicHooks.rumors, ...asArray(payload.rumors)]).slice(-24),
-    factions_present: uniqueUnknownArray([
-      ...pickFactionNames(seed, factionNames, 4, "town:factions"),
-      ...continuity.factions_present,
-    ]).slice(0, 6),
+    factions_present: factionsPresent,
     guard_alertness: Math.max(
       0,
       Math.min(
@@ -852,6 +970,10 @@ function buildTownState(args: {
   };
 }
 
+function travelSegmentCount(seed: number): number {
+  return rngInt(seed, "travel:segments", 4, 8);
+}
+
 function buildTravelState(args: {
   seed: number;
   world: WorldProfile;
@@ -862,12 +984,13 @@ function buildTravelState(args: {
   tension: number;
   companions: CompanionState[];
   payload: Record<string, unknown>;
+  clock: WorldClock;
 }): Record<string, unknown> {
-  const { seed, world, continuity, factionNames, reasonCode, reasonLabel, tension, companions, payload } = args;
+  const { seed, world, continuity, factionNames, reasonCode, reasonLabel, tension, companions, payload, clock } = args;
   const terrains = templateTerrains[world.template_key] ?? templateTerrains.custom;
-  const weatherPool = templateWeather[world.template_key] ?? templateWeather.custom;
-  const weather = rngPick(seed, "travel:weather", weatherPool);
-  const segmentCount = rngInt(seed, "travel:segments", 4, 8);
+  const segmentCount = travelSegmentCount(seed);
+  // Night and fog bring the road closer; storms and snow keep raiders home.
+  const encounterShift = environmentModifiers(clock, "travel").encounter_chance;
   const travelGoal = resolveTravelGoal(payload, continuity, "explore_wilds");
   const searchTarget = resolveSearchTarget(payload, continuity);
   const probeKind = typeof payload.travel_probe === "string" ? payload.travel_probe.toLowerCase() : null;
@@ -890,7 +1013,7 @@ function buildTravelState(args: {
   const encounterRoll = rngInt(seed, "travel:encounter:roll", 1, 100);
   const treasureRoll = rngInt(seed, "travel:treasure:roll", 1, 100);
   const dungeonTraceRoll = rngInt(seed, "travel:dungeon_trace:roll", 1, 100);
-  const encounterTriggered = explicitProbe ? encounterRoll <= 74 : encounterRoll <= 46;
+  const encounterTriggered = encounterRoll <= (explicitProbe ? 74 : 46) + encounterShift;
   const treasureTriggered = explicitProbe ? treasureRoll <= 66 : treasureRoll <= 34;
   const dungeonTracesFound =
     searchTarget === "dungeon"
@@ -911,6 +1034,7 @@ function buildTravelState(args: {
     { kind: "search_target", detail: searchTarget ?? "none" },
     { kind: "probe", detail: explicitProbe ? probeKind : "passive" },
     { kind: "encounter", detail: encounterTriggered ? "triggered" : "none" },
+    { kind: "weather", detail: `${clock.period}:${clock.weather}` },
     { kind: "treasure", detail: treasureTriggered ? "triggered" : "none" },
     { kind: "dungeon_traces", detail: dungeonTracesFound ? "found" : "none" },
     {
@@ -936,7 +1060,7 @@ function buildTravelState(args: {
       description: world.seed_description,
     },
     terrain_bands: terrains,
-    weather,
+    weather: clock.weather,
     route_style: world.template_key,
     travel_goal: travelGoal,
     search_target: searchTarget,
@@ -978,6 +1102,8 @@ function buildTravelState(args: {
     town_grudges: continuity.town_grudges,
     town_activity_log: continuity.town_activity_log,
     town_clock: continuity.town_clock,
+    town_social_ties: continuity.town_social_ties,
+    town_gossip: continuity.town_gossip,
     companion_presence: buildCompanionPresence(companions),
     companion_checkins: uniqueUnknownArray([...continuity.companion_checkins, ...asArray(payload.companion_checkins)]).slice(-24),
   };
@@ -991,6 +1117,8 @@ function buildDungeonState(args: {
   tension: number;
   companions: CompanionState[];
   payload: Record<string, unknown>;
+  density: DensityLevel;
+  lethality: LethalityLevel;
 }): Record<string, unknown> {
   const { seed, world, continuity, factionNames, tension, companions, payload } = args;
   const dynamicHooks = buildDynamicHooks({
@@ -1000,43 +1128,71 @@ function buildDungeonState(args: {
     factionNames,
     tension,
   });
-  const roomCount = rngInt(seed, "dungeon:rooms", 6, 11);
-  const rooms = Array.from({ length: roomCount }).map((_, i) => ({
-    id: `room_${i + 1}`,
-    name: makeName(seed, `dungeon:room:${i}`),
-    tags: [rngPick(seed, `dungeon:tag:${i}`, ["trap", "altar", "lair", "cache", "puzzle", "vault"])],
-    danger: rngInt(seed, `dungeon:danger:${i}`, 1, 6),
-  }));
-  const edges = rooms.slice(1).map((room, i) => ({
-    from: rooms[i]!.id,
-    to: room.id,
-  }));
-  const roomState = {
-    ...continuity.room_state,
-  };
+  // Actions inside a dungeon keep its graph; entering from another board generates a fresh one.
+  const existingGraph = readDungeonGraph(continuity.room_graph);
+  const graph = existingGraph ?? generateDungeonGraph({
+    seed,
+    density: args.density,
+    lethality: args.lethality,
+    nameFor: (label) => makeName(seed, label),
+  });
+  const roomState: Record<string, unknown> = existingGraph ? { ...continuity.room_state } : {};
+  let progress = existingGraph ? readDungeonProgress(graph, continuity.dungeon_progress) : initialDungeonProgress(graph);
+  if (!existingGraph) {
+    roomState[graph.entrance_id] = {
+      room_id: graph.entrance_id,
+      last_action: "enter",
+      visits: 1,
+      status: "active",
+      updated_at: nowIso(),
+    };
+  }
+
   const roomId = typeof payload.room_id === "string" && payload.room_id.trim().length > 0 ? payload.room_id.trim() : null;
+  const toRoomId = typeof payload.to_room_id === "string" && payload.to_room_id.trim().length > 0 ? payload.to_room_id.trim() : null;
   const roomAction = typeof payload.action === "string" && payload.action.trim().length > 0 ? payload.action.trim().toLowerCase() : null;
-  if (roomId) {
-    const current = asRecord(roomState[roomId]);
-    const visits = Number.isFinite(Number(current?.visits)) ? Math.max(0, Math.floor(Number(current?.visits))) : 0;
-    roomState[roomId] = {
-      ...(current ?? {}),
-      room_id: roomId,
-      last_action: roomAction ?? "assess_room",
-      visits: visits + 1,
-      status: roomAction === "loot_cache"
-        ? "looted"
-        : roomAction === "disarm_traps"
-          ? "secured"
-          : roomAction === "study_puzzle"
-            ? "investigating"
-            : current?.status ?? "active",
-      updated_at: nowIso(),
+  const roomDiscovery: Array<{ kind: string; detail: string }> = [];
+  let lastRoomAction: Record<string, unknown> | null = null;
+  if (roomId || toRoomId) {
+    const result = applyDungeonAction(graph, progress, { roomId, toRoomId, action: roomAction });
+    progress = result.progress;
+    lastRoomAction = {
+      action: roomAction ?? "assess_room",
+      outcome: result.outcome,
+      room_id: result.room_id,
+      door_id: result.edge_id,
+      keys_found: result.keys_found,
     };
+    const touched = result.outcome === "moved" || result.outcome === "unlocked" ? result.room_id : roomId;
+    if (touched && result.outcome !== "unreachable" && result.outcome !== "no_route") {
+      const current = asRecord(roomState[touched]);
+      const visits = Number.isFinite(Number(current?.visits)) ? Math.max(0, Math.floor(Number(current?.visits))) : 0;
+      roomState[touched] = {
+        ...(current ?? {}),
+        room_id: touched,
+        last_action: roomAction ?? "assess_room",
+        visits: visits + 1,
+        status: roomAction === "loot_cache"
+          ? "looted"
+          : roomAction === "disarm_traps"
+            ? "secured"
+            : roomAction === "study_puzzle"
+              ? "investigating"
+              : current?.status ?? "active",
+        updated_at: nowIso(),
+      };
+    }
+    roomDiscovery.push({ kind: "room_state", detail: `${roomId ?? progress.current_room_id}:${roomAction ?? "assess_room"}:${result.outcome}` });
+    if (result.edge_id && (result.outcome === "locked" || result.outcome === "unlocked" || result.outcome === "secret_found")) {
+      roomDiscovery.push({ kind: "door", detail: `${result.edge_id}:${result.outcome}` });
+    }
+    for (const keyId of result.keys_found) {
+      roomDiscovery.push({ kind: "key", detail: `${keyId}:${result.room_id ?? progress.current_room_id}` });
+    }
   }
-  const roomDiscovery = roomId
-    ? [{ kind: "room_state", detail: `${roomId}:${roomAction ?? "assess_room"}` }]
-    : [];
+  const revealed = revealedDungeonRooms(graph, progress);
+  const revealedRooms = graph.rooms.filter((room) => revealed.includes(room.id));
+  const roomStatus = (id: string) => String(asRecord(roomState[id]).status ?? "");
 
   return {
     seed,
@@ -1045,10 +1201,13 @@ function buildDungeonState(args: {
       title: world.seed_title,
       description: world.seed_description,
     },
-    room_graph: { rooms, edges },
-    fog_of_war: { revealed: [rooms[0]!.id] },
-    trap_signals: rngInt(seed, "dungeon:traps", 1, 5),
-    loot_nodes: rngInt(seed, "dungeon:loot", 1, 6),
+    room_graph: graph,
+    dungeon_progress: progress,
+    dungeon_last_action: lastRoomAction,
+    fog_of_war: { revealed, visited: progress.visited, current_room_id: progress.current_room_id },
+    trap_signals: revealedRooms.filter((room) => room.tags.includes("trap") && roomStatus(room.id) !== "secured").length,
+    loot_nodes: revealedRooms.filter((room) =>
+      (room.role === "treasure" || room.role === "secret" || room.tags.includes("cache")) && roomStatus(room.id) !== "looted").length,
     faction_presence: pickFactionNames(seed, factionNames, 2, "dungeon:factions"),
     rumors: uniqueUnknownArray([...continuity.rumors, ...dynamicHooks.rumors, ...asArray(payload.rumors)]).slice(-24),
     objectives: uniqueUnknownArray([...continuity.objectives, ...dynamicHooks.objectives, ...asArray(payload.objectives)]).slice(-16),
@@ -1064,6 +1223,7 @@ function buildDungeonState(args: {
       ...continuity.discovery_flags,
       ...asRecord(payload.discovery_flags),
       entered_dungeon: true,
+      boss_room_revealed: revealed.includes(graph.boss_room_id),
     },
     discovery_log: mergeDiscoveryLog(
       continuity.discovery_log,
@@ -1079,6 +1239,8 @@ function buildDungeonState(args: {
     town_grudges: continuity.town_grudges,
     town_activity_log: continuity.town_activity_log,
     town_clock: continuity.town_clock,
+    town_social_ties: continuity.town_social_ties,
+    town_gossip: continuity.town_gossip,
     companion_presence: buildCompanionPresence(companions),
     companion_checkins: uniqueUnknownArray([...continuity.companion_checkins, ...asArray(payload.companion_checkins)]).slice(-24),
   };
@@ -1275,57 +1437,6 @@ async function appendMemoryEvent(args: {
   if (error) throw error;
 }
 
-async function applyReputationDelta(args: {
-  svc: ReturnType<typeof createServiceClient>;
-  campaignId: string;
-  playerId: string;
-  factionId: string;
-  delta: number;
-  severity: number;
-  evidence: Record<string, unknown>;
-}) {
-  if (args.delta === 0) return;
-
-  const { error: repEventError } = await args.svc
-    .schema("mythic")
-    .from("reputation_events")
-    .insert({
-      campaign_id: args.campaignId,
-      faction_id: args.factionId,
-      player_id: args.playerId,
-      severity: clampInt(args.severity, 1, 5),
-      delta: clampInt(args.delta, -1000, 1000),
-      evidence: args.evidence,
-    });
-  if (repEventError) throw repEventError;
-
-  const currentRepQuery = await args.svc
-    .schema("mythic")
-    .from("faction_reputation")
-    .select("rep")
-    .eq("campaign_id", args.campaignId)
-    .eq("faction_id", args.factionId)
-    .eq("player_id", args.playerId)
-    .maybeSingle();
-  if (currentRepQuery.error) throw currentRepQuery.error;
-  const currentRep = Number((currentRepQuery.data as any)?.rep ?? 0);
-  const nextRep = clampInt(currentRep + args.delta, -1000, 1000);
-  const { error: upsertError } = await args.svc
-    .schema("mythic")
-    .from("faction_reputation")
-    .upsert(
-      {
-        campaign_id: args.campaignId,
-        faction_id: args.factionId,
-        player_id: args.playerId,
-        rep: nextRep,
-        updated_at: nowIso(),
-      },
-      { onConflict: "campaign_id,faction_id,player_id" },
-    );
-  if (upsertError) throw upsertError;
-}
-
 export const mythicRuntimeTransition: FunctionHandler = {
   name: "mythic-runtime-transition",
   auth: "required",
@@ -1413,6 +1524,17 @@ export const mythicRuntimeTransition: FunctionHandler = {
         ? combatResolution.return_mode
         : null;
       const continuity = readContinuity(activeRuntime ? activeState : null);
+
+      // Camp is made where the party stands: only on the open road or in a dungeon, and never as a board change.
+      const campRequest = payload.camp === undefined ? null : asRecord(payload.camp);
+      const campBoard = toMode === "travel" || toMode === "dungeon" ? toMode : null;
+      if (campRequest && (!campBoard || activeRuntime?.mode !== toMode)) {
+        return new Response(
+          JSON.stringify({ error: "You can only make camp on travel and dungeon boards.", code: "camp_unavailable", requestId }),
+          { status: 409, headers: baseHeaders },
+        );
+      }
+
       const transitionCountQuery = await svc
         .schema("mythic")
         .from("runtime_events")
@@ -1444,9 +1566,68 @@ export const mythicRuntimeTransition: FunctionHandler = {
         playerAction: worldAction,
       });
 
+      // The campaign clock follows the party's region. Weather is seeded from the world, not from this transition.
+      const previousClock = readWorldClock(activeState.world_clock);
+      const climateSeed = Number.isFinite(worldSeedBase) ? worldSeedBase : hashSeed(campaignId);
+      const clockRegion = resolveClockRegion({
+        seed: climateSeed,
+        biomeMap: campaignContext.worldContext.biomeMap,
+        requestedRegionId: typeof payload.region_id === "string" ? payload.region_id : null,
+        previous: previousClock,
+      });
+
+      // The night is judged by the hour the party beds down, then the clock runs through it.
+      let campOutcome: CampOutcome | null = null;
+      if (campRequest && campBoard) {
+        const biomeMap = campaignContext.worldContext.biomeMap;
+        const campRegion = biomeMap.regions.find((entry) => entry.id === clockRegion?.id) ?? null;
+        const corruptionZone = biomeMap.corruptionZones.find((entry) => entry.regionId === campRegion?.id) ?? null;
+        campOutcome = rollCamp({
+          seed,
+          label: `camp:${previousClock?.tick ?? 0}`,
+          clock: previousClock,
+          boardType: campBoard,
+          guard: readCampGuard(campRequest.guard),
+          tension: worldTension,
+          danger: biomeDanger(campRegion, corruptionZone?.severity ?? 0),
+        });
+      }
+
+      const worldClock = advanceWorldClock({
+        seed: climateSeed,
+        previous: previousClock,
+        ticks: campOutcome ? campOutcome.ticks : transitionClockTicks(toMode, toMode === "travel" ? travelSegmentCount(seed) : 0),
+        region: clockRegion,
+      });
+
       let nextState: Record<string, unknown>;
-      if (toMode === "town") {
-        nextState = buildTownState({ seed, world, continuity, factionNames, tension: worldTension, companions, payload });
+      const campCheckinRows = campOutcome
+        ? campCheckins({ seed, label: `camp:${worldClock.tick}`, outcome: campOutcome, companions, turnIndex: worldClock.tick })
+        : [];
+      if (campOutcome) {
+        // The board stays as it was; rebuilding it would re-roll the road or the dungeon under a sleeping party.
+        nextState = {
+          ...activeState,
+          camp: campOutcome,
+          encounter_triggered: campOutcome.ambushed,
+          encounter_type: campOutcome.ambushed ? "camp_ambush" : null,
+          discovery_flags: {
+            ...continuity.discovery_flags,
+            encounter_triggered: campOutcome.ambushed,
+            camp_ambush: campOutcome.ambushed,
+          },
+          discovery_log: mergeDiscoveryLog(continuity.discovery_log, [{
+            kind: "camp",
+            detail: campOutcome.ambushed ? "ambushed" : campOutcome.quality,
+            guard: campOutcome.guard,
+            quality: campOutcome.quality,
+            ambush_chance: campOutcome.ambush_chance,
+          }], 48),
+          companion_presence: buildCompanionPresence(companions),
+          companion_checkins: uniqueUnknownArray([...continuity.companion_checkins, ...campCheckinRows]).slice(-24),
+        };
+      } else if (toMode === "town") {
+        nextState = buildTownState({ seed, world, continuity, factionNames, tension: worldTension, companions, payload, clock: worldClock });
       } else if (toMode === "travel") {
         nextState = buildTravelState({
           seed,
@@ -1458,9 +1639,20 @@ export const mythicRuntimeTransition: FunctionHandler = {
           tension: worldTension,
           companions,
           payload,
+          clock: worldClock,
         });
       } else if (toMode === "dungeon") {
-        nextState = buildDungeonState({ seed, world, continuity, factionNames, tension: worldTension, companions, payload });
+        nextState = buildDungeonState({
+          seed,
+          world,
+          continuity,
+          factionNames,
+          tension: worldTension,
+          companions,
+          payload,
+          density: dungeonDensityLevel(campaignContext.worldContext.biomeMap.averageDungeonDensity),
+          lethality: campaignContext.worldSeed.forgeInput.lethality ?? "medium",
+        });
       } else {
         nextState = {
           ...activeState,
@@ -1473,6 +1665,8 @@ export const mythicRuntimeTransition: FunctionHandler = {
           town_grudges: continuity.town_grudges,
           town_activity_log: continuity.town_activity_log,
           town_clock: continuity.town_clock,
+          town_social_ties: continuity.town_social_ties,
+          town_gossip: continuity.town_gossip,
           companion_presence: buildCompanionPresence(companions),
           companion_checkins: uniqueUnknownArray([...continuity.companion_checkins, ...asArray(payload.companion_checkins)]).slice(-24),
         };
@@ -1487,6 +1681,7 @@ export const mythicRuntimeTransition: FunctionHandler = {
       nextState = {
         ...nextState,
         ...runtimeBindings,
+        world_clock: worldClock,
       };
 
       nextState = applyCompanionCommand({
@@ -1495,6 +1690,118 @@ export const mythicRuntimeTransition: FunctionHandler = {
         command: companionCommand,
       });
 
+      // A due revenge arc turns this leg of the journey into the nemesis' ambush.
+      let nemesisStrike: Record<string, unknown> | null = null;
+      if (toMode === "travel" || toMode === "dungeon") {
+        try {
+          const due = await findDueNemesisStrike({ svc, campaignId, playerId: user.userId });
+          if (due) {
+            nemesisStrike = {
+              pending: true,
+              arc_id: due.arc.id,
+              name: due.nemesis.name,
+              title: due.nemesis.title,
+              escalation: due.arc.escalation,
+              board_type: toMode,
+              scheduled_at: nowIso(),
+            };
+            nextState = {
+              ...nextState,
+              nemesis_strike: nemesisStrike,
+              encounter_triggered: true,
+              encounter_type: "nemesis_ambush",
+              discovery_flags: {
+                ...asRecord(nextState.discovery_flags),
+                encounter_triggered: true,
+                nemesis_strike: true,
+              },
+              discovery_log: mergeDiscoveryLog(asArray(nextState.discovery_log), [{
+                kind: "nemesis",
+                detail: `${due.nemesis.name} ${due.nemesis.title}`.trim(),
+                arc_id: due.arc.id,
+                escalation: due.arc.escalation,
+              }], 48),
+            };
+          }
+        } catch (error) {
+          warnings.push(`nemesis_strike:${sanitizeError(error).message}`);
+        }
+      }
+
+      // Accepting a notice board posting opens its contract; every transition can move contract objectives.
+      let acceptedContractId: string | null = null;
+      try {
+        const jobAction = typeof payload.job_action === "string" ? payload.job_action.trim().toLowerCase() : "";
+        const jobPostingId = typeof payload.job_posting_id === "string" ? payload.job_posting_id.trim() : "";
+        const posting = toMode === "town" && jobAction === "accept" && jobPostingId
+          ? readContractPosting(asArray(nextState.job_postings).find((entry) => asRecord(entry).id === jobPostingId))
+          : null;
+        if (posting) {
+          const characterQuery = await svc
+            .schema("mythic")
+            .from("characters")
+            .select("id")
+            .eq("campaign_id", campaignId)
+            .eq("player_id", user.userId)
+            .order("updated_at", { ascending: false })
+            .limit(1)
+            .maybeSingle();
+          if (characterQuery.error) throw characterQuery.error;
+          const accepted = await acceptContract({
+            svc,
+            campaignId,
+            playerId: user.userId,
+            characterId: (characterQuery.data as { id?: string } | null)?.id ?? null,
+            seed,
+            posting,
+            creatureNames: encounterCreatureNames(campaignContext.worldContext.creaturePools, world.template_key),
+            companions,
+            factions,
+          });
+          acceptedContractId = accepted.contract.id;
+        }
+
+        const dungeonGraph = toMode === "dungeon" ? readDungeonGraph(nextState.room_graph) : null;
+        const currentRoomId = dungeonGraph ? readDungeonProgress(dungeonGraph, nextState.dungeon_progress).current_room_id : null;
+        const currentRoom = dungeonGraph?.rooms.find((room) => room.id === currentRoomId) ?? null;
+        await recordContractProgress({
+          svc,
+          campaignId,
+          event: {
+            kind: "runtime",
+            mode: toMode,
+            roomRoles: currentRoom ? [currentRoom.role] : [],
+            companionIds: companions.map((companion) => companion.companion_id),
+          },
+        });
+        nextState = await withContractPostings(svc, campaignId, nextState);
+      } catch (error) {
+        warnings.push(`job_contracts:${sanitizeError(error).message}`);
+      }
+
+      // Quests count the board the party arrives on, the dungeon room they stand in and who they talk to.
+      try {
+        const questEvents: QuestEvent[] = [{ kind: "explore", locationId: toMode }];
+        for (const location of [nextState.travel_goal, nextState.search_target]) {
+          if (typeof location === "string" && location.trim().length > 0) questEvents.push({ kind: "explore", locationId: location });
+        }
+        const dungeonGraph = toMode === "dungeon" ? readDungeonGraph(nextState.room_graph) : null;
+        if (dungeonGraph) {
+          const roomId = readDungeonProgress(dungeonGraph, nextState.dungeon_progress).current_room_id;
+          const room = dungeonGraph.rooms.find((entry) => entry.id === roomId);
+          if (room) questEvents.push(...[room.id, room.name, room.role].map((locationId) => ({ kind: "explore" as const, locationId })));
+        }
+        const questNpc = asRecord(payload.npc_interaction);
+        if (toMode === "town" && typeof questNpc.npc_id === "string" && questNpc.npc_id.trim().length > 0) {
+          const npc = asArray(nextState.town_npcs).map(asRecord).find((entry) => entry.id === questNpc.npc_id);
+          questEvents.push({ kind: "talk", npcId: questNpc.npc_id });
+          if (typeof npc?.name === "string") questEvents.push({ kind: "talk", npcId: npc.name });
+        }
+        await recordQuestEvents({ svc, campaignId, events: questEvents });
+      } catch (error) {
+        warnings.push(`quests:${sanitizeError(error).message}`);
+      }
+
       const clearCombatResolution = (
         combatResolutionPending
         && typeof activeRuntime?.mode === "string"
@@ -1593,6 +1900,7 @@ export const mythicRuntimeTransition: FunctionHandler = {
         travel_probe: (payload as any).travel_probe ?? null,
         search_target: (nextState as any).search_target ?? null,
         discovery_flags: asRecord((nextState as any).discovery_flags),
+        camp: campOutcome,
         combat_resolution_pending_before: combatResolutionPending,
         combat_resolution_return_mode: combatResolutionReturnMode,
         combat_resolution_cleared: (
@@ -1636,6 +1944,46 @@ export const mythicRuntimeTransition: FunctionHandler = {
         warnings.push(`dm_memory_events:${sanitizeError(error).message}`);
       }
 
+      if (campOutcome) {
+        // Everyone in the party sleeps off part of what they are missing; fresh characters have nothing stored to restore.
+        try {
+          const partyQuery = await svc
+            .schema("mythic")
+            .from("characters")
+            .select("id, resources")
+            .eq("campaign_id", campaignId);
+          if (partyQuery.error) throw partyQuery.error;
+          for (const row of (partyQuery.data ?? []) as Array<{ id: string; resources: unknown }>) {
+            const resources = asRecord(row.resources);
+            const vitals = readCharacterVitals(resources);
+            if (!vitals) continue;
+            const { error } = await svc
+              .schema("mythic")
+              .from("characters")
+              .update({ resources: { ...resources, ...recoverVitals(vitals, campOutcome) }, updated_at: nowIso() })
+              .eq("id", row.id);
+            if (error) throw error;
+          }
+        } catch (error) {
+          warnings.push(`camp_recovery:${sanitizeError(error).message}`);
+        }
+
+        for (const checkin of campCheckinRows) {
+          try {
+            await appendMemoryEvent({
+              svc,
+              campaignId,
+              playerId: user.userId,
+              category: "companion_checkin",
+              severity: checkin.urgency === "high" ? 3 : checkin.urgency === "medium" ? 2 : 1,
+              payload: { turn_index: checkin.turn_index, runtime_id: runtimeId, companion_checkin: checkin },
+            });
+          } catch (error) {
+            warnings.push(`camp_checkin:${sanitizeError(error).message}`);
+          }
+        }
+      }
+
       const npcInteraction = asRecord(payload.npc_interaction);
       if (toMode === "town" && npcInteraction) {
         const npcId = typeof npcInteraction.npc_id === "string" ? npcInteraction.npc_id.trim() : "";
@@ -1747,6 +2095,13 @@ export const mythicRuntimeTransition: FunctionHandler = {
         }
       }
 
+      void publishCampaignEvent({
+        campaignId,
+        type: "board.transition",
+        actorUserId: user.userId,
+        payload: { mode: toMode, runtime_id: runtimeId, reason_code: reasonCode },
+      });
+
       ctx.log.info("runtime_transition.success", {
         request_id: requestId,
         campaign_id: campaignId,
@@ -1766,6 +2121,9 @@ export const mythicRuntimeTransition: FunctionHandler = {
           travel_goal: (nextState as any).travel_goal ?? null,
           search_target: (nextState as any).search_target ?? null,
           discovery_flags: asRecord((nextState as any).discovery_flags),
+          nemesis_strike: nemesisStrike,
+          contract_id: acceptedContractId,
+          camp: campOutcome,
           warnings,
           requestId,
         }),
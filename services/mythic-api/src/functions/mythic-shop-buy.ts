@@ -5,6 +5,11 @@ import { z } from "zod";
 import { createServiceClient } from "../shared/supabase.js";
 import { AuthError, requireUser } from "../shared/auth.js";
 import { AuthzError, assertCampaignAccess } from "../shared/authz.js";
+import { vendorHoursInState } from "../lib/environment/worldClock.js";
+import { applyHaggle, readBuyback, rollHaggle } from "../lib/shop/pricing.js";
+import { vendorRelationship } from "../lib/shop/store.js";
+import { readConsumable } from "../lib/consumables/effects.js";
+import { addToConsumableStack, findConsumableStack } from "../lib/consumables/store.js";
 import { sanitizeError } from "../shared/redact.js";
 import {
   enforceRateLimit,
@@ -18,7 +23,12 @@ const RequestSchema = z.object({
   campaignId: z.string().uuid(),
   characterId: z.string().uuid(),
   vendorId: z.string().min(1).max(80),
-  stockItemId: z.string().min(1).max(80),
+  stockItemId: z.string().min(1).max(80).optional(),
+  /** Buys back an item this character sold to the vendor since the last restock. */
+  buybackId: z.string().min(1).max(80).optional(),
+  haggle: z.boolean().optional().default(false),
+}).refine((value) => Boolean(value.stockItemId) !== Boolean(value.buybackId), {
+  message: "Provide either stockItemId or buybackId",
 });
 
 function uuidFromKey(key: string, label: string): string {
@@ -42,6 +52,19 @@ function asRecord(value: unknown): Record<string, unknown> | null {
   return value as Record<string, unknown>;
 }
 
+/** Stack purchases recorded with their charge, keyed by idempotency key; only keys still in the ledger are kept. */
+function readPurchaseStacks(resources: Record<string, unknown>, ledger: string[]): Record<string, { inventory_id: string; item_id: string }> {
+  const raw = asRecord(resources.purchase_stacks) ?? {};
+  const stacks: Record<string, { inventory_id: string; item_id: string }> = {};
+  for (const key of ledger) {
+    const entry = asRecord(raw[key]);
+    if (typeof entry?.inventory_id === "string" && typeof entry.item_id === "string") {
+      stacks[key] = { inventory_id: entry.inventory_id, item_id: entry.item_id };
+    }
+  }
+  return stacks;
+}
+
 function pullVendorStock(state: Record<string, unknown>, vendorId: string) {
   const vendorStockRoot = (state.vendor_stock && typeof state.vendor_stock === "object") ? (state.vendor_stock as Record<string, unknown>) : {};
   const stock = vendorStockRoot[vendorId];
@@ -56,7 +79,7 @@ export const mythicShopBuy: FunctionHandler = {
     const requestId = ctx.requestId;
     const baseHeaders = { "Content-Type": "application/json", "x-request-id": requestId };
 
-    const rateLimited = enforceRateLimit({
+    const rateLimited = await enforceRateLimit({
       req,
       route: "mythic-shop-buy",
       limit: 30,
@@ -74,7 +97,7 @@ export const mythicShopBuy: FunctionHandler = {
       });
     }
 
-    const cached = getIdempotentResponse(idemKey);
+    const cached = await getIdempotentResponse(idemKey);
     if (cached) {
       return cached;
     }
@@ -90,7 +113,7 @@ export const mythicShopBuy: FunctionHandler = {
         });
       }
 
-      const { campaignId, characterId, vendorId, stockItemId } = parsed.data;
+      const { campaignId, characterId, vendorId, stockItemId, buybackId, haggle } = parsed.data;
       const svc = createServiceClient();
 
       const access = await assertCampaignAccess(svc, campaignId, user.userId);
@@ -140,6 +163,13 @@ export const mythicShopBuy: FunctionHandler = {
       }
 
       const state = ((runtime as any).state_json && typeof (runtime as any).state_json === "object") ? ((runtime as any).state_json as Record<string, unknown>) : {};
+      const hours = vendorHoursInState(state, vendorId);
+      if (hours && !hours.open) {
+        return new Response(JSON.stringify({ error: "The vendor has shut for now.", code: "vendor_closed", opens_in_ticks: hours.opens_in_ticks, requestId }), {
+          status: 409,
+          headers: baseHeaders,
+        });
+      }
       const { vendorStockRoot, stock } = pullVendorStock(state, vendorId);
       if (!stock) {
         return new Response(JSON.stringify({ error: "Vendor stock not found. Open the shop first.", code: "vendor_stock_missing", requestId }), {
@@ -148,17 +178,38 @@ export const mythicShopBuy: FunctionHandler = {
         });
       }
       const itemsRaw = Array.isArray((stock as any).items) ? ((stock as any).items as Array<Record<string, unknown>>) : [];
-      const stockItem = itemsRaw.find((entry) => String((entry as any)?.id ?? "") === stockItemId) ?? null;
-      if (!stockItem) {
+      const buybackRaw = readBuyback(stock);
+      const stockItem = stockItemId ? itemsRaw.find((entry) => String((entry as any)?.id ?? "") === stockItemId) ?? null : null;
+      const buybackEntry = buybackId ? buybackRaw.find((entry) => entry.id === buybackId) ?? null : null;
+      if (stockItemId && !stockItem) {
         return new Response(JSON.stringify({ error: "Stock item not found", code: "stock_item_not_found", requestId }), {
           status: 404,
           headers: baseHeaders,
         });
       }
+      if (buybackId && !buybackEntry) {
+        return new Response(JSON.stringify({ error: "The vendor no longer has that item.", code: "buyback_not_found", requestId }), {
+          status: 404,
+          headers: baseHeaders,
+        });
+      }
+      if (buybackEntry && buybackEntry.character_id !== characterId) {
+        return new Response(JSON.stringify({ error: "Only the seller can buy an item back", code: "buyback_access_denied", requestId }), {
+          status: 403,
+          headers: baseHeaders,
+        });
+      }
 
-      const sold = Boolean((stockItem as any).sold);
-      const soldTo = typeof (stockItem as any).sold_to === "string" ? (stockItem as any).sold_to : null;
-      const purchaseKey = typeof (stockItem as any).purchase_key === "string" ? (stockItem as any).purchase_key : null;
+      // Consumables are shelved as stacks; each purchase takes one and the entry sells out at zero.
+      const consumableStock = stockItem && readConsumable(asRecord((stockItem as any).item)) ? stockItem : null;
+      const shelfQuantity = consumableStock ? Math.max(0, Math.floor(Number((consumableStock as any).quantity ?? 1))) : 1;
+      const sold = stockItem ? Boolean((stockItem as any).sold) : Boolean(buybackEntry?.bought_back);
+      const soldTo = stockItem
+        ? (typeof (stockItem as any).sold_to === "string" ? (stockItem as any).sold_to : null)
+        : buybackEntry?.character_id ?? null;
+      const purchaseKey = stockItem
+        ? (typeof (stockItem as any).purchase_key === "string" ? (stockItem as any).purchase_key : null)
+        : buybackEntry?.purchase_key ?? null;
       if (sold && soldTo && soldTo !== characterId) {
         return new Response(JSON.stringify({ error: "Item already sold", code: "sold_out", requestId }), {
           status: 409,
@@ -172,13 +223,25 @@ export const mythicShopBuy: FunctionHandler = {
         });
       }
 
-      const price = toCoins((stockItem as any).price);
       const resources = asRecord((character as any).resources) ?? {};
       const coins = toCoins((resources as any).coins);
       const ledgerRaw = Array.isArray((resources as any).purchase_ledger) ? ((resources as any).purchase_ledger as unknown[]) : [];
       const ledger = ledgerRaw.filter((v): v is string => typeof v === "string").slice(-50);
       const alreadyPaid = ledger.includes(idemKey);
 
+      // Buybacks cost exactly what the vendor paid, so they cannot be haggled. A haggle is one roll per item per visit
+      // (stock seed + town clock tick) and only moves the price the first time it is rolled; the paid attempt keeps it.
+      const listedPrice = stockItem ? toCoins((stockItem as any).price) : buybackEntry!.price;
+      const visit = Math.max(0, Math.floor(Number(asRecord(state.town_clock)?.tick ?? 0) || 0));
+      const relationship = vendorRelationship(state, vendorId);
+      const haggleRoll = haggle && stockItemId
+        ? rollHaggle({ seed: toCoins(stock.seed), visit, vendorId, kind: "buy", itemKey: stockItemId, relationship })
+        : null;
+      const haggled = Array.isArray(stock.haggled) ? stock.haggled.filter((v): v is string => typeof v === "string") : [];
+      const firstHaggle = Boolean(haggleRoll) && !haggled.includes(haggleRoll!.key);
+      const haggleApplied = firstHaggle || alreadyPaid ? haggleRoll : null;
+      const price = applyHaggle(listedPrice, haggleApplied);
+
       if (!alreadyPaid && coins < price) {
         return new Response(JSON.stringify({ error: "Insufficient funds", code: "insufficient_funds", details: { price, coins }, requestId }), {
           status: 400,
@@ -188,74 +251,139 @@ export const mythicShopBuy: FunctionHandler = {
 
       const nextCoins = alreadyPaid ? coins : Math.max(0, coins - price);
       const nextLedger = alreadyPaid ? ledger : [...ledger, idemKey].slice(-50);
-      const nextResources = {
+      const purchaseStacks = readPurchaseStacks(resources, nextLedger);
+      const nextResources: Record<string, unknown> = {
         ...resources,
         coins: nextCoins,
         purchase_ledger: nextLedger,
+        purchase_stacks: purchaseStacks,
       };
 
-      const itemPayload = asRecord((stockItem as any).item) ?? {};
-      const itemId = uuidFromKey(idemKey, "shop:item");
       const invId = uuidFromKey(idemKey, "shop:inv");
-
-      const effectsJson = asRecord((itemPayload as any).effects_json) ?? {};
-      const mergedEffects = {
-        ...effectsJson,
-        purchase: {
-          vendor_id: vendorId,
-          stock_item_id: stockItemId,
-          idempotency_key: idemKey,
-          price,
-          purchased_at: new Date().toISOString(),
-        },
-      };
-
-      const { error: itemErr } = await svc
-        .schema("mythic")
-        .from("items")
-        .upsert(
-          {
-            id: itemId,
-            campaign_id: campaignId,
-            owner_character_id: characterId,
-            name: String((itemPayload as any).name ?? "Item"),
-            rarity: (typeof (itemPayload as any).rarity === "string" ? (itemPayload as any).rarity : "common"),
-            item_type: String((itemPayload as any).item_type ?? "gear"),
-            slot: String((itemPayload as any).slot ?? "other"),
-            weapon_family: (itemPayload as any).weapon_family ?? null,
-            weapon_profile: (itemPayload as any).weapon_profile ?? {},
-            affixes: (itemPayload as any).affixes ?? [],
-            stat_mods: (itemPayload as any).stat_mods ?? {},
-            effects_json: mergedEffects,
-            drawback_json: (itemPayload as any).drawback_json ?? {},
-            narrative_hook: (itemPayload as any).narrative_hook ?? null,
-            durability_json: (itemPayload as any).durability_json ?? {},
-            required_level: Number((itemPayload as any).required_level ?? 1),
-            item_power: Number((itemPayload as any).item_power ?? 0),
-            set_tag: (itemPayload as any).set_tag ?? null,
-            drop_tier: String((itemPayload as any).drop_tier ?? "common"),
-            bind_policy: String((itemPayload as any).bind_policy ?? "bind_on_equip"),
-            updated_at: new Date().toISOString(),
+      let itemId: string;
+      // Adding to a stack cannot be repeated safely, so the charge and the stack it lands on are written first under the
+      // key. A paid retry adds nothing: it reports the recorded stack, or the fresh row the paid attempt upserted.
+      // Buying back one unit of a partly sold stack joins the units still in the backpack.
+      let stacked = alreadyPaid
+        ? purchaseStacks[idemKey] ?? (consumableStock ? { inventory_id: invId, item_id: uuidFromKey(idemKey, "shop:item") } : null)
+        : null;
+      if (!alreadyPaid && (consumableStock || buybackEntry)) {
+        let stack: { inventory_id: string; item_id: string; quantity: number } | null = null;
+        if (consumableStock) {
+          stack = await findConsumableStack(svc, { characterId, item: asRecord((consumableStock as any).item) ?? {} });
+        } else {
+          const { data: held, error: heldErr } = await svc
+            .schema("mythic")
+            .from("inventory")
+            .select("id, item_id, quantity")
+            .eq("character_id", characterId)
+            .eq("item_id", buybackEntry!.item_id)
+            .eq("container", "backpack")
+            .limit(1)
+            .maybeSingle();
+          if (heldErr) throw heldErr;
+          stack = held
+            ? { inventory_id: String((held as any).id), item_id: String((held as any).item_id), quantity: Math.max(1, Math.floor(Number((held as any).quantity ?? 1))) }
+            : null;
+        }
+        // The row this key upserts is not a stack to join: a failed first attempt may already have written it.
+        if (stack && stack.inventory_id !== invId) {
+          stacked = { inventory_id: stack.inventory_id, item_id: stack.item_id };
+          nextResources.purchase_stacks = { ...purchaseStacks, [idemKey]: stacked };
+          const { error: chargeErr } = await svc
+            .schema("mythic")
+            .from("characters")
+            .update({ resources: nextResources, updated_at: new Date().toISOString() })
+            .eq("id", characterId);
+          if (chargeErr) throw chargeErr;
+          await addToConsumableStack(svc, stack);
+        }
+      }
+      if (stacked) {
+        itemId = stacked.item_id;
+      } else if (buybackEntry) {
+        // Sold items stay in the items table without an owner while they sit on the buyback shelf.
+        itemId = buybackEntry.item_id;
+        const { data: reclaimed, error: reclaimErr } = await svc
+          .schema("mythic")
+          .from("items")
+          .update({ owner_character_id: characterId, updated_at: new Date().toISOString() })
+          .eq("id", itemId)
+          .eq("campaign_id", campaignId)
+          .select("id")
+          .maybeSingle();
+        if (reclaimErr) throw reclaimErr;
+        if (!reclaimed) {
+          return new Response(JSON.stringify({ error: "The vendor no longer has that item.", code: "buyback_expired", requestId }), {
+            status: 410,
+            headers: baseHeaders,
+          });
+        }
+      } else {
+        const itemPayload = asRecord((stockItem as any).item) ?? {};
+        itemId = uuidFromKey(idemKey, "shop:item");
+
+        const effectsJson = asRecord((itemPayload as any).effects_json) ?? {};
+        const mergedEffects = {
+          ...effectsJson,
+          purchase: {
+            vendor_id: vendorId,
+            stock_item_id: stockItemId,
+            idempotency_key: idemKey,
+            price,
+            purchased_at: new Date().toISOString(),
           },
-          { onConflict: "id" },
-        );
-      if (itemErr) throw itemErr;
+        };
 
-      const { error: invErr } = await svc
-        .schema("mythic")
-        .from("inventory")
-        .upsert(
-          {
-            id: invId,
-            character_id: characterId,
-            item_id: itemId,
-            container: "backpack",
-            quantity: 1,
-            updated_at: new Date().toISOString(),
-          },
-          { onConflict: "id" },
-        );
-      if (invErr) throw invErr;
+        const { error: itemErr } = await svc
+          .schema("mythic")
+          .from("items")
+          .upsert(
+            {
+              id: itemId,
+              campaign_id: campaignId,
+              owner_character_id: characterId,
+              name: String((itemPayload as any).name ?? "Item"),
+              rarity: (typeof (itemPayload as any).rarity === "string" ? (itemPayload as any).rarity : "common"),
+              item_type: String((itemPayload as any).item_type ?? "gear"),
+              slot: String((itemPayload as any).slot ?? "other"),
+              weapon_family: (itemPayload as any).weapon_family ?? null,
+              weapon_profile: (itemPayload as any).weapon_profile ?? {},
+              affixes: (itemPayload as any).affixes ?? [],
+              stat_mods: (itemPayload as any).stat_mods ?? {},
+              effects_json: mergedEffects,
+              drawback_json: (itemPayload as any).drawback_json ?? {},
+              narrative_hook: (itemPayload as any).narrative_hook ?? null,
+              durability_json: (itemPayload as any).durability_json ?? {},
+              required_level: Number((itemPayload as any).required_level ?? 1),
+              item_power: Number((itemPayload as any).item_power ?? 0),
+              set_tag: (itemPayload as any).set_tag ?? null,
+              drop_tier: String((itemPayload as any).drop_tier ?? "common"),
+              bind_policy: String((itemPayload as any).bind_policy ?? "bind_on_equip"),
+              updated_at: new Date().toISOString(),
+            },
+            { onConflict: "id" },
+          );
+        if (itemErr) throw itemErr;
+      }
+
+      if (!stacked) {
+        const { error: invErr } = await svc
+          .schema("mythic")
+          .from("inventory")
+          .upsert(
+            {
+              id: invId,
+              character_id: characterId,
+              item_id: itemId,
+              container: "backpack",
+              quantity: 1,
+              updated_at: new Date().toISOString(),
+            },
+            { onConflict: "id" },
+          );
+        if (invErr) throw invErr;
+      }
 
       const { error: resErr } = await svc
         .schema("mythic")
@@ -265,7 +393,18 @@ export const mythicShopBuy: FunctionHandler = {
       if (resErr) throw resErr;
 
       const nextItems = itemsRaw.map((entry) => {
-        if (String((entry as any).id ?? "") !== stockItemId) return entry;
+        if (!stockItemId || String((entry as any).id ?? "") !== stockItemId) return entry;
+        if (consumableStock) {
+          const remaining = alreadyPaid ? shelfQuantity : Math.max(0, shelfQuantity - 1);
+          return {
+            ...entry,
+            quantity: remaining,
+            sold: remaining <= 0,
+            sold_to: characterId,
+            sold_at: new Date().toISOString(),
+            purchase_key: idemKey,
+          };
+        }
         return {
           ...entry,
           sold: true,
@@ -274,16 +413,24 @@ export const mythicShopBuy: FunctionHandler = {
           purchase_key: idemKey,
         };
       });
+      const nextBuyback = buybackRaw.map((entry) => (entry.id === buybackId ? { ...entry, bought_back: true, purchase_key: idemKey } : entry));
       const nextVendorStock = {
         ...stock,
         items: nextItems,
+        ...(buybackEntry ? { buyback: nextBuyback } : {}),
+        ...(firstHaggle ? { haggled: [...haggled, haggleRoll!.key].slice(-40) } : {}),
       };
+      // A soured haggle costs the vendor's goodwill once per visit.
+      const relationshipAfter = firstHaggle ? Math.max(-100, Math.min(100, relationship + haggleRoll!.relationship_delta)) : relationship;
       const nextState: Record<string, unknown> = {
         ...state,
         vendor_stock: {
           ...vendorStockRoot,
           [vendorId]: nextVendorStock,
         },
+        ...(relationshipAfter !== relationship
+          ? { town_relationships: { ...(asRecord(state.town_relationships) ?? {}), [vendorId]: relationshipAfter } }
+          : {}),
       };
 
       const { error: boardUpdErr } = await svc
@@ -297,12 +444,14 @@ export const mythicShopBuy: FunctionHandler = {
         campaign_id: campaignId,
         player_id: user.userId,
         category: "shop_purchase",
-        severity: 1,
+        severity: haggleApplied?.outcome === "soured" ? 2 : 1,
         payload: {
           vendor_id: vendorId,
-          stock_item_id: stockItemId,
+          stock_item_id: stockItemId ?? null,
+          buyback_id: buybackId ?? null,
           item_id: itemId,
           price,
+          haggle: haggleApplied?.outcome ?? null,
           coins_after: nextCoins,
         },
       });
@@ -312,13 +461,16 @@ export const mythicShopBuy: FunctionHandler = {
         itemId,
         coins: nextCoins,
         vendorId,
-        stockItemId,
+        stockItemId: stockItemId ?? null,
+        buybackId: buybackId ?? null,
+        price,
+        haggle: haggleApplied ? { outcome: haggleApplied.outcome, relationship: relationshipAfter } : null,
         requestId,
       };
       const response = new Response(JSON.stringify(payload), { status: 200, headers: baseHeaders });
-      storeIdempotentResponse(idemKey, response, 60_000);
+      await storeIdempotentResponse(idemKey, response, 60_000);
 
-      ctx.log.info("shop.buy.success", { request_id: requestId, campaign_id: campaignId, vendor_id: vendorId, stock_item_id: stockItemId, item_id: itemId });
+      ctx.log.info("shop.buy.success", { request_id: requestId, campaign_id: campaignId, vendor_id: vendorId, stock_item_id: stockItemId ?? null, buyback_id: buybackId ?? null, item_id: itemId, haggle: haggleApplied?.outcome ?? null });
       return response;
     } catch (error) {
       if (error instanceof AuthError) {
@@ -0,0 +1,272 @@
+import { z } from "zod";
+
+import { createServiceClient } from "../shared/supabase.js";
+import { AuthError, requireUser } from "../shared/auth.js";
+import { AuthzError, assertCampaignAccess } from "../shared/authz.js";
+import { vendorHoursInState } from "../lib/environment/worldClock.js";
+import { readDurability, repairCost, vendorRepairs } from "../lib/gear/durability.js";
+import { inflationMultiplier, loadCampaignRules } from "../lib/rules/houseRules.js";
+import { findVendor, loadVendorStanding } from "../lib/shop/store.js";
+import { sanitizeError } from "../shared/redact.js";
+import {
+  enforceRateLimit,
+  getIdempotentResponse,
+  idempotencyKeyFromRequest,
+  storeIdempotentResponse,
+} from "../shared/request_guard.js";
+import type { FunctionContext, FunctionHandler } from "./types.js";
+
+const RequestSchema = z.object({
+  campaignId: z.string().uuid(),
+  characterId: z.string().uuid(),
+  vendorId: z.string().min(1).max(80),
+  /** Omit to repair everything the character carries that has taken wear. */
+  inventoryId: z.string().uuid().optional(),
+});
+
+function toCoins(value: unknown): number {
+  const n = Number(value);
+  if (!Number.isFinite(n)) return 0;
+  return Math.max(0, Math.floor(n));
+}
+
+function asRecord(value: unknown): Record<string, unknown> | null {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return null;
+  return value as Record<string, unknown>;
+}
+
+export const mythicShopRepair: FunctionHandler = {
+  name: "mythic-shop-repair",
+  auth: "required",
+  async handle(req: Request, ctx: FunctionContext): Promise<Response> {
+    const requestId = ctx.requestId;
+    const baseHeaders = { "Content-Type": "application/json", "x-request-id": requestId };
+
+    const rateLimited = await enforceRateLimit({
+      req,
+      route: "mythic-shop-repair",
+      limit: 30,
+      windowMs: 60_000,
+      corsHeaders: {},
+      requestId,
+    });
+    if (rateLimited) return rateLimited;
+
+    const idemKey = idempotencyKeyFromRequest(req);
+    if (!idemKey) {
+      return new Response(JSON.stringify({ error: "Missing x-idempotency-key header", code: "idempotency_required", requestId }), {
+        status: 400,
+        headers: baseHeaders,
+      });
+    }
+
+    const cached = await getIdempotentResponse(idemKey);
+    if (cached) {
+      return cached;
+    }
+
+    try {
+      const user = await requireUser(req.headers);
+
+      const parsed = RequestSchema.safeParse(await req.json().catch(() => null));
+      if (!parsed.success) {
+        return new Response(JSON.stringify({ error: "Invalid request", code: "invalid_request", details: parsed.error.flatten(), requestId }), {
+          status: 400,
+          headers: baseHeaders,
+        });
+      }
+
+      const { campaignId, characterId, vendorId, inventoryId } = parsed.data;
+      const svc = createServiceClient();
+
+      const access = await assertCampaignAccess(svc, campaignId, user.userId);
+
+      const { data: character, error: charErr } = await svc
+        .schema("mythic")
+        .from("characters")
+        .select("id, campaign_id, player_id, resources, updated_at")
+        .eq("id", characterId)
+        .eq("campaign_id", campaignId)
+        .maybeSingle();
+      if (charErr) throw charErr;
+      if (!character) {
+        return new Response(JSON.stringify({ error: "Character not found", code: "character_not_found", requestId }), {
+          status: 404,
+          headers: baseHeaders,
+        });
+      }
+      if (!access.isDm && (character as any).player_id !== user.userId) {
+        return new Response(JSON.stringify({ error: "Not authorized for this character", code: "character_access_denied", requestId }), {
+          status: 403,
+          headers: baseHeaders,
+        });
+      }
+
+      const { data: runtime, error: runtimeErr } = await svc
+        .schema("mythic")
+        .from("campaign_runtime")
+        .select("id, mode, state_json, updated_at")
+        .eq("campaign_id", campaignId)
+        .eq("status", "active")
+        .order("updated_at", { ascending: false })
+        .limit(1)
+        .maybeSingle();
+      if (runtimeErr) throw runtimeErr;
+      if (!runtime) {
+        return new Response(JSON.stringify({ error: "No active runtime found", code: "runtime_missing", requestId }), {
+          status: 404,
+          headers: baseHeaders,
+        });
+      }
+      if ((runtime as any).mode !== "town") {
+        return new Response(JSON.stringify({ error: "Shops are only available in town.", code: "runtime_not_town", requestId }), {
+          status: 409,
+          headers: baseHeaders,
+        });
+      }
+
+      const state = asRecord((runtime as any).state_json) ?? {};
+      if (!findVendor(state, vendorId)) {
+        return new Response(JSON.stringify({ error: "Vendor not found", code: "vendor_not_found", requestId }), { status: 404, headers: baseHeaders });
+      }
+      const hours = vendorHoursInState(state, vendorId);
+      if (hours && !hours.open) {
+        return new Response(JSON.stringify({ error: "The vendor has shut for now.", code: "vendor_closed", opens_in_ticks: hours.opens_in_ticks, requestId }), {
+          status: 409,
+          headers: baseHeaders,
+        });
+      }
+      const standing = await loadVendorStanding(svc, { campaignId, playerId: String((character as any).player_id ?? user.userId), state, vendorId });
+      if (!vendorRepairs(standing.services)) {
+        return new Response(JSON.stringify({ error: "This vendor does not take repairs.", code: "vendor_no_repairs", requestId }), {
+          status: 409,
+          headers: baseHeaders,
+        });
+      }
+
+      const resources = asRecord((character as any).resources) ?? {};
+      const coins = toCoins(resources.coins);
+      const ledgerRaw = Array.isArray(resources.repair_ledger) ? (resources.repair_ledger as unknown[]) : [];
+      const ledger = ledgerRaw.filter((v): v is string => typeof v === "string").slice(-50);
+      // The ledger is written after the gear, so a ledgered key was repaired in full; mending again would fix new wear for free.
+      if (ledger.includes(idemKey)) {
+        const response = new Response(JSON.stringify({ ok: true, repaired: [], price: null, coins, vendorId, replayed: true, requestId }), {
+          status: 200,
+          headers: baseHeaders,
+        });
+        await storeIdempotentResponse(idemKey, response, 60_000);
+        return response;
+      }
+
+      let rowsQuery = svc
+        .schema("mythic")
+        .from("inventory")
+        .select("id, character_id, item_id, container, item:items(*)")
+        .eq("character_id", characterId);
+      if (inventoryId) rowsQuery = rowsQuery.eq("id", inventoryId);
+      const { data: rows, error: rowsErr } = await rowsQuery;
+      if (rowsErr) throw rowsErr;
+      if (inventoryId && (!rows || rows.length === 0)) {
+        return new Response(JSON.stringify({ error: "Inventory entry not found", code: "inventory_not_found", requestId }), {
+          status: 404,
+          headers: baseHeaders,
+        });
+      }
+
+      const rules = await loadCampaignRules(svc, campaignId);
+      const inflation = inflationMultiplier({ act: Number(state.act ?? 0), chapter: Number(state.chapter ?? 0) }, rules.tunables);
+      // A stack shares one item row, so each item is mended (and charged) once.
+      const seen = new Set<string>();
+      const repairs: Array<{ item_id: string; name: string; item: Record<string, unknown>; cost: number }> = [];
+      for (const row of (rows ?? []) as Array<Record<string, unknown>>) {
+        const item = asRecord(row.item);
+        if (!item || seen.has(String(row.item_id))) continue;
+        seen.add(String(row.item_id));
+        const cost = repairCost(item, inflation);
+        if (cost <= 0) continue;
+        repairs.push({ item_id: String(row.item_id), name: typeof item.name === "string" ? item.name : "Item", item, cost });
+      }
+      if (repairs.length === 0) {
+        return new Response(JSON.stringify({ error: "Nothing needs repairing.", code: "nothing_to_repair", requestId }), {
+          status: 409,
+          headers: baseHeaders,
+        });
+      }
+      const price = repairs.reduce((sum, entry) => sum + entry.cost, 0);
+
+      if (coins < price) {
+        return new Response(JSON.stringify({ error: "Insufficient funds", code: "insufficient_funds", details: { price, coins }, requestId }), {
+          status: 409,
+          headers: baseHeaders,
+        });
+      }
+      const nextCoins = coins - price;
+      const now = new Date().toISOString();
+
+      for (const entry of repairs) {
+        const durability = readDurability(entry.item.durability_json)!;
+        const { error: itemErr } = await svc
+          .schema("mythic")
+          .from("items")
+          .update({
+            durability_json: { ...(asRecord(entry.item.durability_json) ?? {}), current: durability.max },
+            updated_at: now,
+          })
+          .eq("id", entry.item_id);
+        if (itemErr) throw itemErr;
+      }
+
+      const { error: resErr } = await svc
+        .schema("mythic")
+        .from("characters")
+        .update({
+          resources: { ...resources, coins: nextCoins, repair_ledger: [...ledger, idemKey].slice(-50) },
+          updated_at: now,
+        })
+        .eq("id", characterId);
+      if (resErr) throw resErr;
+
+      await svc.schema("mythic").from("dm_memory_events").insert({
+        campaign_id: campaignId,
+        player_id: user.userId,
+        category: "gear_repair",
+        severity: 1,
+        payload: {
+          vendor_id: vendorId,
+          items: repairs.map((entry) => ({ item_id: entry.item_id, item_name: entry.name, cost: entry.cost })),
+          price,
+          coins_after: nextCoins,
+        },
+      });
+
+      const payload = {
+        ok: true,
+        repaired: repairs.map((entry) => ({ itemId: entry.item_id, name: entry.name, cost: entry.cost })),
+        price,
+        coins: nextCoins,
+        vendorId,
+        requestId,
+      };
+      const response = new Response(JSON.stringify(payload), { status: 200, headers: baseHeaders });
+      await storeIdempotentResponse(idemKey, response, 60_000);
+
+      ctx.log.info("shop.repair.success", { request_id: requestId, campaign_id: campaignId, vendor_id: vendorId, items: repairs.length, price });
+      return response;
+    } catch (error) {
+      if (error instanceof AuthError) {
+        const code = error.code === "auth_required" ? "auth_required" : "auth_invalid";
+        const message = code === "auth_required" ? "Authentication required" : "Invalid or expired authentication token";
+        return new Response(JSON.stringify({ error: message, code, requestId }), { status: 401, headers: baseHeaders });
+      }
+      if (error instanceof AuthzError) {
+        return new Response(JSON.stringify({ error: error.message, code: error.code, requestId }), { status: error.status, headers: baseHeaders });
+      }
+      const normalized = sanitizeError(error);
+      ctx.log.error("shop.repair.failed", { request_id: requestId, error: normalized.message, code: normalized.code });
+      return new Response(
+        JSON.stringify({ ok: false, error: normalized.message || "Repair failed", code: normalized.code ?? "shop_repair_failed", requestId }),
+        { status: 500, headers: baseHeaders },
+      );
+    }
+  },
+};
@@ -0,0 +1,351 @@
+import { createHash } from "node:crypto";
+
+import { z } from "zod";
+
+import { createServiceClient } from "../shared/supabase.js";
+import { AuthError, requireUser } from "../shared/auth.js";
+import { AuthzError, assertCampaignAccess } from "../shared/authz.js";
+import { vendorHoursInState } from "../lib/environment/worldClock.js";
+import { inflationMultiplier, loadCampaignRules } from "../lib/rules/houseRules.js";
+import { applyHaggle, pushBuyback, quoteSellPrice, readBuyback, rollHaggle } from "../lib/shop/pricing.js";
+import { discardBuyback, findVendor, loadVendorStanding } from "../lib/shop/store.js";
+import { sanitizeError } from "../shared/redact.js";
+import {
+  enforceRateLimit,
+  getIdempotentResponse,
+  idempotencyKeyFromRequest,
+  storeIdempotentResponse,
+} from "../shared/request_guard.js";
+import type { FunctionContext, FunctionHandler } from "./types.js";
+
+const RequestSchema = z.object({
+  campaignId: z.string().uuid(),
+  characterId: z.string().uuid(),
+  vendorId: z.string().min(1).max(80),
+  inventoryId: z.string().uuid(),
+  haggle: z.boolean().optional().default(false),
+});
+
+function uuidFromKey(key: string, label: string): string {
+  const hash = createHash("sha256").update(`${label}:${key}`).digest();
+  const bytes = Uint8Array.from(hash.subarray(0, 16));
+  // Version 5-ish and RFC4122 variant.
+  bytes[6] = (bytes[6] & 0x0f) | 0x50;
+  bytes[8] = (bytes[8] & 0x3f) | 0x80;
+  const hex = Buffer.from(bytes).toString("hex");
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+function toCoins(value: unknown): number {
+  const n = Number(value);
+  if (!Number.isFinite(n)) return 0;
+  return Math.max(0, Math.floor(n));
+}
+
+function asRecord(value: unknown): Record<string, unknown> | null {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return null;
+  return value as Record<string, unknown>;
+}
+
+export const mythicShopSell: FunctionHandler = {
+  name: "mythic-shop-sell",
+  auth: "required",
+  async handle(req: Request, ctx: FunctionContext): Promise<Response> {
+    const requestId = ctx.requestId;
+    const baseHeaders = { "Content-Type": "application/json", "x-request-id": requestId };
+
+    const rateLimited = await enforceRateLimit({
+      req,
+      route: "mythic-shop-sell",
+      limit: 30,
+      windowMs: 60_000,
+      corsHeaders: {},
+      requestId,
+    });
+    if (rateLimited) return rateLimited;
+
+    const idemKey = idempotencyKeyFromRequest(req);
+    if (!idemKey) {
+      return new Response(JSON.stringify({ error: "Missing x-idempotency-key header", code: "idempotency_required", requestId }), {
+        status: 400,
+        headers: baseHeaders,
+      });
+    }
+
+    const cached = await getIdempotentResponse(idemKey);
+    if (cached) {
+      return cached;
+    }
+
+    try {
+      const user = await requireUser(req.headers);
+
+      const parsed = RequestSchema.safeParse(await req.json().catch(() => null));
+      if (!parsed.success) {
+        return new Response(JSON.stringify({ error: "Invalid request", code: "invalid_request", details: parsed.error.flatten(), requestId }), {
+          status: 400,
+          headers: baseHeaders,
+        });
+      }
+
+      const { campaignId, characterId, vendorId, inventoryId, haggle } = parsed.data;
+      const svc = createServiceClient();
+
+      const access = await assertCampaignAccess(svc, campaignId, user.userId);
+
+      const { data: character, error: charErr } = await svc
+        .schema("mythic")
+        .from("characters")
+        .select("id, campaign_id, player_id, resources, updated_at")
+        .eq("id", characterId)
+        .eq("campaign_id", campaignId)
+        .maybeSingle();
+      if (charErr) throw charErr;
+      if (!character) {
+        return new Response(JSON.stringify({ error: "Character not found", code: "character_not_found", requestId }), {
+          status: 404,
+          headers: baseHeaders,
+        });
+      }
+      if (!access.isDm && (character as any).player_id !== user.userId) {
+        return new Response(JSON.stringify({ error: "Not authorized for this character", code: "character_access_denied", requestId }), {
+          status: 403,
+          headers: baseHeaders,
+        });
+      }
+
+      const { data: runtime, error: runtimeErr } = await svc
+        .schema("mythic")
+        .from("campaign_runtime")
+        .select("id, mode, state_json, updated_at")
+        .eq("campaign_id", campaignId)
+        .eq("status", "active")
+        .order("updated_at", { ascending: false })
+        .limit(1)
+        .maybeSingle();
+      if (runtimeErr) throw runtimeErr;
+      if (!runtime) {
+        return new Response(JSON.stringify({ error: "No active runtime found", code: "runtime_missing", requestId }), {
+          status: 404,
+          headers: baseHeaders,
+        });
+      }
+      if ((runtime as any).mode !== "town") {
+        return new Response(JSON.stringify({ error: "Shops are only available in town.", code: "runtime_not_town", requestId }), {
+          status: 409,
+          headers: baseHeaders,
+        });
+      }
+
+      const state = asRecord((runtime as any).state_json) ?? {};
+      if (!findVendor(state, vendorId)) {
+        return new Response(JSON.stringify({ error: "Vendor not found", code: "vendor_not_found", requestId }), { status: 404, headers: baseHeaders });
+      }
+      const hours = vendorHoursInState(state, vendorId);
+      if (hours && !hours.open) {
+        return new Response(JSON.stringify({ error: "The vendor has shut for now.", code: "vendor_closed", opens_in_ticks: hours.opens_in_ticks, requestId }), {
+          status: 409,
+          headers: baseHeaders,
+        });
+      }
+      const vendorStockRoot = asRecord(state.vendor_stock) ?? {};
+      const stock = asRecord(vendorStockRoot[vendorId]);
+      if (!stock) {
+        return new Response(JSON.stringify({ error: "Vendor stock not found. Open the shop first.", code: "vendor_stock_missing", requestId }), {
+          status: 404,
+          headers: baseHeaders,
+        });
+      }
+
+      const resources = asRecord((character as any).resources) ?? {};
+      const coins = toCoins(resources.coins);
+      const ledgerRaw = Array.isArray(resources.sale_ledger) ? (resources.sale_ledger as unknown[]) : [];
+      const ledger = ledgerRaw.filter((v): v is string => typeof v === "string").slice(-50);
+      const buybackId = uuidFromKey(idemKey, "shop:buyback");
+      // A key in the ledger means the sale went through in full; a late retry reports it instead of selling another unit.
+      if (ledger.includes(idemKey)) {
+        const sold = readBuyback(stock).find((entry) => entry.id === buybackId) ?? null;
+        const payload = {
+          ok: true,
+          itemId: sold?.item_id ?? null,
+          buybackId,
+          price: sold?.price ?? null,
+          quote: null,
+          haggle: null,
+          coins,
+          vendorId,
+          replayed: true,
+          requestId,
+        };
+        const response = new Response(JSON.stringify(payload), { status: 200, headers: baseHeaders });
+        await storeIdempotentResponse(idemKey, response, 60_000);
+        return response;
+      }
+
+      const { data: row, error: rowErr } = await svc
+        .schema("mythic")
+        .from("inventory")
+        .select("id, character_id, item_id, container, quantity, item:items(*)")
+        .eq("id", inventoryId)
+        .maybeSingle();
+      if (rowErr) throw rowErr;
+      if (!row || (row as any).character_id !== characterId) {
+        return new Response(JSON.stringify({ error: "Inventory entry not found", code: "inventory_not_found", requestId }), {
+          status: 404,
+          headers: baseHeaders,
+        });
+      }
+      if ((row as any).container !== "backpack") {
+        return new Response(JSON.stringify({ error: "Unequip the item before selling it.", code: "item_equipped", requestId }), {
+          status: 409,
+          headers: baseHeaders,
+        });
+      }
+      const item = asRecord((row as any).item) ?? {};
+      const itemId = String((row as any).item_id);
+
+      const standing = await loadVendorStanding(svc, { campaignId, playerId: String((character as any).player_id ?? user.userId), state, vendorId });
+      const rules = await loadCampaignRules(svc, campaignId);
+      const inflation = inflationMultiplier({ act: Number(state.act ?? 0), chapter: Number(state.chapter ?? 0) }, rules.tunables);
+      const quote = quoteSellPrice({ item, services: standing.services, reputation: standing.reputation, relationship: standing.relationship, inflation });
+
+      // The haggle is seeded by the stock and the town clock, so it is one roll per item per visit; only that first roll
+      // moves the price, so selling more units of the same item later in the visit pays the plain quote.
+      const visit = Math.max(0, Math.floor(Number(asRecord(state.town_clock)?.tick ?? 0) || 0));
+      const haggleRoll = haggle
+        ? rollHaggle({ seed: toCoins(stock.seed), visit, vendorId, kind: "sell", itemKey: itemId, relationship: standing.relationship })
+        : null;
+      const haggled = Array.isArray(stock.haggled) ? stock.haggled.filter((v): v is string => typeof v === "string") : [];
+      const firstHaggle = Boolean(haggleRoll) && !haggled.includes(haggleRoll!.key);
+      const haggleApplied = firstHaggle ? haggleRoll : null;
+      const price = applyHaggle(quote, haggleApplied);
+
+      const nextCoins = coins + price;
+      const nextResources = {
+        ...resources,
+        coins: nextCoins,
+        sale_ledger: [...ledger, idemKey].slice(-50),
+      };
+
+      const quantity = Math.max(1, Math.floor(Number((row as any).quantity ?? 1)));
+      const now = new Date().toISOString();
+      if (quantity > 1) {
+        const { error: invErr } = await svc
+          .schema("mythic")
+          .from("inventory")
+          .update({ quantity: quantity - 1, updated_at: now })
+          .eq("id", inventoryId);
+        if (invErr) throw invErr;
+      } else {
+        const { error: invErr } = await svc.schema("mythic").from("inventory").delete().eq("id", inventoryId);
+        if (invErr) throw invErr;
+        // The vendor holds the item until it is bought back or the shelf is cleared at restock.
+        const { count: remaining, error: countErr } = await svc
+          .schema("mythic")
+          .from("inventory")
+          .select("id", { count: "exact", head: true })
+          .eq("item_id", itemId);
+        if (countErr) throw countErr;
+        if (!remaining) {
+          const { error: itemErr } = await svc
+            .schema("mythic")
+            .from("items")
+            .update({ owner_character_id: null, updated_at: now })
+            .eq("id", itemId);
+          if (itemErr) throw itemErr;
+        }
+      }
+
+      const { error: resErr } = await svc
+        .schema("mythic")
+        .from("characters")
+        .update({ resources: nextResources, updated_at: now })
+        .eq("id", characterId);
+      if (resErr) throw resErr;
+
+      const shelf = readBuyback(stock);
+      const buyback = pushBuyback(shelf, {
+        id: buybackId,
+        item_id: itemId,
+        name: typeof item.name === "string" ? item.name : "Item",
+        rarity: typeof item.rarity === "string" ? item.rarity : "common",
+        slot: typeof item.slot === "string" ? item.slot : "other",
+        price,
+        sold_at: now,
+        character_id: characterId,
+      });
+      const relationships = asRecord(state.town_relationships) ?? {};
+      const relationshipAfter = firstHaggle && haggleRoll!.relationship_delta !== 0
+        ? Math.max(-100, Math.min(100, standing.relationship + haggleRoll!.relationship_delta))
+        : standing.relationship;
+      const nextState: Record<string, unknown> = {
+        ...state,
+        vendor_stock: {
+          ...vendorStockRoot,
+          [vendorId]: {
+            ...stock,
+            buyback,
+            haggled: firstHaggle ? [...haggled, haggleRoll!.key].slice(-40) : haggled,
+          },
+        },
+        town_relationships: relationshipAfter === standing.relationship ? relationships : { ...relationships, [vendorId]: relationshipAfter },
+      };
+
+      const { error: boardUpdErr } = await svc
+        .schema("mythic")
+        .from("campaign_runtime")
+        .update({ state_json: nextState, updated_at: now })
+        .eq("id", (runtime as any).id);
+      if (boardUpdErr) throw boardUpdErr;
+      await discardBuyback(svc, campaignId, shelf.filter((entry) => !buyback.some((kept) => kept.id === entry.id)));
+
+      await svc.schema("mythic").from("dm_memory_events").insert({
+        campaign_id: campaignId,
+        player_id: user.userId,
+        category: "shop_sale",
+        severity: haggleApplied?.outcome === "soured" ? 2 : 1,
+        payload: {
+          vendor_id: vendorId,
+          item_id: itemId,
+          item_name: item.name ?? null,
+          price,
+          quote,
+          haggle: haggleApplied?.outcome ?? null,
+          coins_after: nextCoins,
+        },
+      });
+
+      const payload = {
+        ok: true,
+        itemId,
+        buybackId,
+        price,
+        quote,
+        haggle: haggleApplied ? { outcome: haggleApplied.outcome, relationship: relationshipAfter } : null,
+        coins: nextCoins,
+        vendorId,
+        requestId,
+      };
+      const response = new Response(JSON.stringify(payload), { status: 200, headers: baseHeaders });
+      await storeIdempotentResponse(idemKey, response, 60_000);
+
+      ctx.log.info("shop.sell.success", { request_id: requestId, campaign_id: campaignId, vendor_id: vendorId, item_id: itemId, price, haggle: haggleApplied?.outcome ?? null });
+      return response;
+    } catch (error) {
+      if (error instanceof AuthError) {
+        const code = error.code === "auth_required" ? "auth_required" : "auth_invalid";
+        const message = code === "auth_required" ? "Authentication required" : "Invalid or expired authentication token";
+        return new Response(JSON.stringify({ error: message, code, requestId }), { status: 401, headers: baseHeaders });
+      }
+      if (error instanceof AuthzError) {
+        return new Response(JSON.stringify({ error: error.message, code: error.code, requestId }), { status: error.status, headers: baseHeaders });
+      }
+      const normalized = sanitizeError(error);
+      ctx.log.error("shop.sell.failed", { request_id: requestId, error: normalized.message, code: normalized.code });
+      return new Response(
+        JSON.stringify({ ok: false, error: normalized.message || "Sale failed", code: normalized.code ?? "shop_sell_failed", requestId }),
+        { status: 500, headers: baseHeaders },
+      );
+    }
+  },
+};
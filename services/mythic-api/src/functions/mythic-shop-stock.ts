@@ -3,17 +3,28 @@ import { z } from "zod";
 import { createServiceClient } from "../shared/supabase.js";
 import { AuthError, requireUser } from "../shared/auth.js";
 import { AuthzError, assertCampaignAccess } from "../shared/authz.js";
+import { pickLootRarity } from "../shared/loot_roll.js";
 import { rngInt, rngPick, weightedPick } from "../shared/mythic_rng.js";
 import { enforceRateLimit } from "../shared/request_guard.js";
 import { sanitizeError } from "../shared/redact.js";
+import { inflationMultiplier, loadCampaignRules, lootRarityScale } from "../lib/rules/houseRules.js";
+import { vendorHoursInState } from "../lib/environment/worldClock.js";
+import { durabilityState, readDurability, repairCost, vendorRepairs } from "../lib/gear/durability.js";
+import { quoteSellPrice, readBuyback } from "../lib/shop/pricing.js";
+import { readConsumable, rollConsumableStock } from "../lib/consumables/effects.js";
+import { discardBuyback, loadVendorStanding } from "../lib/shop/store.js";
 import type { FunctionContext, FunctionHandler } from "./types.js";
 
 const RequestSchema = z.object({
   campaignId: z.string().uuid(),
   vendorId: z.string().min(1).max(80),
   refresh: z.boolean().optional().default(false),
+  /** When set, the response quotes what the vendor would pay for this character's backpack. */
+  characterId: z.string().uuid().optional(),
 });
 
+type ServiceClient = ReturnType<typeof createServiceClient>;
+
 type Rarity = "common" | "magical" | "unique" | "legendary" | "mythic" | "unhinged";
 const SLOT_POOL = ["weapon", "armor", "helm", "gloves", "boots", "belt", "amulet", "ring", "trinket"] as const;
 const ITEM_TYPES = ["gear", "artifact", "relic"] as const;
@@ -38,17 +49,7 @@ function hashSeed(input: string): number {
   return hash % 2_147_483_647;
 }
 
-function pickRarity(seed: number, label: string, level: number): Rarity {
-  const late = Math.max(0, level - 25);
-  return weightedPick(seed, label, [
-    { item: "common" as const, weight: Math.max(5, 65 - late) },
-    { item: "magical" as const, weight: Math.max(10, 26 + Math.floor(late * 0.3)) },
-    { item: "unique" as const, weight: Math.max(6, 8 + Math.floor(late * 0.25)) },
-    { item: "legendary" as const, weight: Math.max(2, Math.floor(level / 12)) },
-    { item: "mythic" as const, weight: Math.max(1, Math.floor(level / 20)) },
-    { item: "unhinged" as const, weight: level >= 70 ? 1 : 0 },
-  ]);
-}
+
 
 function rarityTier(rarity: Rarity): "common" | "elite" | "boss" | "mythic" | "event" {
   if (rarity === "common" || rarity === "magical") return "common";
@@ -122,12 +123,18 @@ function sanitizeCachedStock(args: {
   seed: number;
   level: number;
   classRole: string;
+  priceMultiplier: number;
 }): { items: Array<Record<string, unknown>>; repairsApplied: number } {
   const out: Array<Record<string, unknown>> = [];
   let repairsApplied = 0;
   for (let idx = 0; idx < args.items.length; idx += 1) {
     const entry = args.items[idx]!;
     const item = asRecord(entry.item) ?? {};
+    // Consumable stacks carry no stat mods to repair.
+    if (readConsumable(item)) {
+      out.push(entry);
+      continue;
+    }
     const rarity = toRarity(item.rarity);
     const rolled = rollStockItem({
       seed: args.seed,
@@ -135,6 +142,7 @@ function sanitizeCachedStock(args: {
       level: args.level,
       rarity,
       classRole: args.classRole,
+      priceMultiplier: args.priceMultiplier,
     });
     const rolledItem = asRecord(rolled.item) ?? {};
 
@@ -196,14 +204,88 @@ function sanitizeCachedStock(args: {
   return { items: out, repairsApplied };
 }
 
+/**
+ * What the vendor would pay for the character's backpack and, when it takes repairs, what mending their worn gear
+ * costs. repairQuotes is null at vendors without a repair service.
+ */
+async function loadCounterQuotes(svc: ServiceClient, args: {
+  campaignId: string;
+  characterId: string;
+  userId: string;
+  isDm: boolean;
+  state: Record<string, unknown>;
+  vendorId: string;
+  inflation: number;
+}): Promise<{ sellQuotes: Array<Record<string, unknown>>; repairQuotes: Array<Record<string, unknown>> | null }> {
+  const { data: character, error: charErr } = await svc
+    .schema("mythic")
+    .from("characters")
+    .select("id, player_id")
+    .eq("id", args.characterId)
+    .eq("campaign_id", args.campaignId)
+    .maybeSingle();
+  if (charErr) throw charErr;
+  const playerId = (character as { player_id?: string | null } | null)?.player_id ?? null;
+  if (!character || (!args.isDm && playerId !== args.userId)) return { sellQuotes: [], repairQuotes: null };
+
+  const { data: rows, error: invErr } = await svc
+    .schema("mythic")
+    .from("inventory")
+    .select("id, item_id, container, quantity, item:items(*)")
+    .eq("character_id", args.characterId);
+  if (invErr) throw invErr;
+
+  const standing = await loadVendorStanding(svc, { campaignId: args.campaignId, playerId: playerId ?? args.userId, state: args.state, vendorId: args.vendorId });
+  const inventory = (rows ?? []) as Array<Record<string, unknown>>;
+  const repairQuotes = vendorRepairs(standing.services)
+    ? inventory.flatMap((row) => {
+      const item = asRecord(row.item) ?? {};
+      const cost = repairCost(item, args.inflation);
+      const durability = readDurability(item.durability_json);
+      if (cost <= 0 || !durability) return [];
+      return [{
+        inventory_id: row.id,
+        item_id: row.item_id,
+        container: row.container,
+        name: typeof item.name === "string" ? item.name : "Item",
+        slot: typeof item.slot === "string" ? item.slot : "other",
+        durability: { current: durability.current, max: durability.max },
+        state: durabilityState(durability),
+        price: cost,
+      }];
+    })
+    : null;
+  const sellQuotes = inventory.filter((row) => row.container === "backpack").map((row) => {
+    const item = asRecord(row.item) ?? {};
+    return {
+      inventory_id: row.id,
+      item_id: row.item_id,
+      quantity: Math.max(1, Math.floor(Number(row.quantity ?? 1))),
+      name: typeof item.name === "string" ? item.name : "Item",
+      rarity: typeof item.rarity === "string" ? item.rarity : "common",
+      slot: typeof item.slot === "string" ? item.slot : "other",
+      item_power: Number(item.item_power ?? 0),
+      price: quoteSellPrice({
+        item,
+        services: standing.services,
+        reputation: standing.reputation,
+        relationship: standing.relationship,
+        inflation: args.inflation,
+      }),
+    };
+  });
+  return { sellQuotes, repairQuotes };
+}
+
 function rollStockItem(args: {
   seed: number;
   label: string;
   level: number;
   rarity: Rarity;
   classRole: string;
+  priceMultiplier?: number;
 }) {
-  const { seed, label, level, rarity, classRole } = args;
+  const { seed, label, level, rarity, classRole, priceMultiplier = 1 } = args;
   const budget = BUDGETS[rarity];
 
   const slot = weightedPick(seed, `${label}:slot`, SLOT_POOL.map((s) => {
@@ -239,7 +321,7 @@ function rollStockItem(args: {
   const itemPower = Math.max(1, Math.floor(level * (1 + budget / 40)));
   const price = Math.max(
     5,
-    Math.floor(itemPower * (rarity === "common" ? 1.2 : rarity === "magical" ? 1.6 : rarity === "unique" ? 2.2 : rarity === "legendary" ? 3.0 : 3.6)),
+    Math.floor(itemPower * (rarity === "common" ? 1.2 : rarity === "magical" ? 1.6 : rarity === "unique" ? 2.2 : rarity === "legendary" ? 3.0 : 3.6) * priceMultiplier),
   );
 
   return {
@@ -278,7 +360,7 @@ export const mythicShopStock: FunctionHandler = {
     const requestId = ctx.requestId;
     const baseHeaders = { "Content-Type": "application/json", "x-request-id": requestId };
 
-    const rateLimited = enforceRateLimit({
+    const rateLimited = await enforceRateLimit({
       req,
       route: "mythic-shop-stock",
       limit: 40,
@@ -299,10 +381,10 @@ export const mythicShopStock: FunctionHandler = {
         });
       }
 
-      const { campaignId, vendorId, refresh } = parsed.data;
+      const { campaignId, vendorId, refresh, characterId } = parsed.data;
       const svc = createServiceClient();
 
-      await assertCampaignAccess(svc, campaignId, user.userId);
+      const access = await assertCampaignAccess(svc, campaignId, user.userId);
 
       const { data: runtime, error: runtimeErr } = await svc
         .schema("mythic")
@@ -328,6 +410,13 @@ export const mythicShopStock: FunctionHandler = {
         return new Response(JSON.stringify({ error: "Vendor not found", code: "vendor_not_found", requestId }), { status: 404, headers: baseHeaders });
       }
       const vendorName = String((vendorRow as any).name ?? "Merchant");
+      const hours = vendorHoursInState(state, vendorId);
+      if (hours && !hours.open) {
+        return new Response(
+          JSON.stringify({ error: `${vendorName} has shut for now.`, code: "vendor_closed", opens_in_ticks: hours.opens_in_ticks, requestId }),
+          { status: 409, headers: baseHeaders },
+        );
+      }
 
       const vendorStockRoot = ((state as any).vendor_stock && typeof (state as any).vendor_stock === "object") ? ((state as any).vendor_stock as Record<string, unknown>) : {};
       const existingStock = vendorStockRoot[vendorId];
@@ -345,6 +434,13 @@ export const mythicShopStock: FunctionHandler = {
       const boardSeed = Number((state as any).seed ?? 0) || 0;
       const baseSeed = (hashSeed(`shop-stock:${campaignId}:${vendorId}`) ^ boardSeed) >>> 0;
       const classRole = pickClassRole(baseSeed, "shop:role");
+      const rules = await loadCampaignRules(svc, campaignId);
+      const rarityScale = lootRarityScale(rules.tunables);
+      // Act/chapter come from runtime state (the DM can advance them via runtime_delta); both default to 0.
+      const inflation = inflationMultiplier({ act: Number((state as any).act ?? 0), chapter: Number((state as any).chapter ?? 0) }, rules.tunables);
+      const { sellQuotes, repairQuotes } = characterId
+        ? await loadCounterQuotes(svc, { campaignId, characterId, userId: user.userId, isDm: access.isDm, state, vendorId, inflation })
+        : { sellQuotes: [], repairQuotes: null };
       if (!refresh && existingStock && typeof existingStock === "object") {
         const existingRecord = existingStock as Record<string, unknown>;
         const existingItems = Array.isArray(existingRecord.items)
@@ -364,6 +460,7 @@ export const mythicShopStock: FunctionHandler = {
             seed: cachedSeed,
             level,
             classRole,
+            priceMultiplier: inflation,
           });
           if (repairsApplied > 0) {
             const repairedStock = {
@@ -395,7 +492,7 @@ export const mythicShopStock: FunctionHandler = {
               shop_stock_source: "cached_repaired",
             });
             return new Response(
-              JSON.stringify({ ok: true, vendorId, vendorName, source: "cached_repaired", repairs_applied: repairsApplied, stock: repairedStock, requestId }),
+              JSON.stringify({ ok: true, vendorId, vendorName, source: "cached_repaired", repairs_applied: repairsApplied, stock: repairedStock, sellQuotes, repairQuotes, requestId }),
               { status: 200, headers: baseHeaders },
             );
           }
@@ -406,7 +503,7 @@ export const mythicShopStock: FunctionHandler = {
             shop_stock_source: "cached",
           });
           return new Response(
-            JSON.stringify({ ok: true, vendorId, vendorName, source: "cached", stock: existingRecord, requestId }),
+            JSON.stringify({ ok: true, vendorId, vendorName, source: "cached", stock: existingRecord, sellQuotes, repairQuotes, requestId }),
             { status: 200, headers: baseHeaders },
           );
         }
@@ -420,24 +517,37 @@ export const mythicShopStock: FunctionHandler = {
       const stockSource = refresh ? "refreshed" : "generated";
 
       const count = 6;
-      const items = Array.from({ length: count }).map((_, idx) => {
-        const rarity = pickRarity(seed, `shop:rarity:${idx}`, level);
+      const gear = Array.from({ length: count }).map((_, idx) => {
+        const rarity = pickLootRarity(seed, `shop:rarity:${idx}`, level, rarityScale);
         return rollStockItem({
           seed,
           label: `shop:item:${idx}`,
           level,
           rarity,
           classRole,
+          priceMultiplier: inflation,
         });
       });
-
+      const services = Array.isArray((vendorRow as any).services)
+        ? ((vendorRow as any).services as unknown[]).filter((service): service is string => typeof service === "string")
+        : [];
+      const items = [
+        ...rollConsumableStock({ seed, label: "shop:consumable", level, services, priceMultiplier: inflation }),
+        ...gear,
+      ];
+
+      // The buyback shelf lasts until the next restock.
+      const previousBuyback = readBuyback(asRecord(existingStock));
       const stock = {
         vendor_id: vendorId,
         vendor_name: vendorName,
         generated_at: new Date().toISOString(),
         seed,
         generation,
+        inflation,
+        rule_version: rules.ruleVersion,
         items,
+        buyback: refresh ? [] : previousBuyback,
       };
 
       const nextState: Record<string, unknown> = {
@@ -454,16 +564,17 @@ export const mythicShopStock: FunctionHandler = {
         .update({ state_json: nextState, updated_at: new Date().toISOString() })
         .eq("id", (runtime as any).id);
       if (updErr) throw updErr;
+      if (refresh) await discardBuyback(svc, campaignId, previousBuyback);
 
       ctx.log.info("shop.stock.generated", {
         request_id: requestId,
         campaign_id: campaignId,
         vendor_id: vendorId,
-        items: count,
+        items: items.length,
         shop_stock_source: stockSource,
       });
 
-      return new Response(JSON.stringify({ ok: true, vendorId, vendorName, source: stockSource, stock, requestId }), { status: 200, headers: baseHeaders });
+      return new Response(JSON.stringify({ ok: true, vendorId, vendorName, source: stockSource, stock, sellQuotes, repairQuotes, requestId }), { status: 200, headers: baseHeaders });
     } catch (error) {
       if (error instanceof AuthError) {
         const code = error.code === "auth_required" ? "auth_required" : "auth_invalid";
@@ -33,7 +33,7 @@ export const mythicTts: FunctionHandler = {
   name: "mythic-tts",
   auth: "required",
   async handle(req: Request, ctx: FunctionContext): Promise<Response> {
-    const rateLimited = enforceRateLimit({
+    const rateLimited = await enforceRateLimit({
       req,
       route: "mythic-tts",
       limit: 90,
@@ -0,0 +1,144 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import {
+  arenaHazardAt,
+  arenaHazardStatus,
+  arenaInBounds,
+  arenaSpawnPoint,
+  generateCombatArena,
+  readCombatArena,
+  resolveArenaSource,
+  type CombatArenaSource,
+} from "./arena.js";
+
+function source(patch: Partial<CombatArenaSource>): CombatArenaSource {
+  return {
+    boardType: "unknown",
+    roomId: null,
+    roomTags: [],
+    roomDanger: 1,
+    terrain: null,
+    biome: null,
+    ...patch,
+  };
+}
+
+test("arena dimensions follow the board we left", () => {
+  for (let seed = 1; seed <= 20; seed += 1) {
+    const town = generateCombatArena(seed, source({ boardType: "town" }));
+    const travel = generateCombatArena(seed, source({ boardType: "travel" }));
+    assert.ok(town.width >= 10 && town.width <= 12 && town.height <= 8);
+    assert.ok(travel.width >= 14 && travel.height >= 9);
+  }
+  const lair = generateCombatArena(5, source({ boardType: "dungeon", roomTags: ["lair"], roomDanger: 6 }));
+  const vault = generateCombatArena(5, source({ boardType: "dungeon", roomTags: ["vault"] }));
+  assert.ok(lair.width > vault.width);
+  assert.deepEqual(generateCombatArena(5, source({ boardType: "dungeon", roomTags: ["lair"], roomDanger: 6 })), lair);
+});
+
+test("walls never seal the flanks and spawn columns stay clear", () => {
+  for (let seed = 1; seed <= 40; seed += 1) {
+    const arena = generateCombatArena(seed, source({ boardType: "dungeon", roomTags: ["puzzle"], terrain: "mountain pass" }));
+    const blocked = new Set(arena.blocked_tiles.map((tile) => `${tile.x},${tile.y}`));
+    for (let i = 0; i < 6; i += 1) {
+      const ally = arenaSpawnPoint(arena, "ally", i);
+      const enemy = arenaSpawnPoint(arena, "enemy", i);
+      assert.ok(arenaInBounds(arena, ally) && arenaInBounds(arena, enemy));
+      assert.equal(blocked.has(`${ally.x},${ally.y}`), false);
+      assert.equal(blocked.has(`${enemy.x},${enemy.y}`), false);
+      assert.equal(arenaHazardAt(arena, ally), null);
+    }
+
+    const seen = new Set<string>(["1,0"]);
+    const queue = [{ x: 1, y: 0 }];
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      for (const next of [
+        { x: current.x + 1, y: current.y },
+        { x: current.x - 1, y: current.y },
+        { x: current.x, y: current.y + 1 },
+        { x: current.x, y: current.y - 1 },
+      ]) {
+        const key = `${next.x},${next.y}`;
+        if (!arenaInBounds(arena, next) || blocked.has(key) || seen.has(key)) continue;
+        seen.add(key);
+        queue.push(next);
+      }
+    }
+    const enemySpawn = arenaSpawnPoint(arena, "enemy", 0);
+    assert.ok(seen.has(`${enemySpawn.x},${enemySpawn.y}`), `seed ${seed} sealed the enemy flank`);
+  }
+});
+
+test("biomes and dungeon rooms seed hazards", () => {
+  const volcanic = generateCombatArena(11, source({
+    boardType: "travel",
+    biome: { regionId: "r1", dominantBiome: "volcanic ashfield", corruption: 0.7, tags: [] },
+  }));
+  const kinds = volcanic.hazard_tiles.map((tile) => tile.kind);
+  assert.ok(kinds.includes("fire"));
+  assert.ok(kinds.includes("corruption"));
+
+  const trapRoom = generateCombatArena(11, source({ boardType: "dungeon", roomTags: ["trap"], roomDanger: 4 }));
+  const spikes = trapRoom.hazard_tiles.filter((tile) => tile.kind === "spikes");
+  assert.equal(spikes.length, 2);
+  assert.equal(spikes[0]!.damage, 7);
+
+  const status = arenaHazardStatus(spikes[0]!, 3);
+  assert.equal(status.id, "hazard_spikes");
+  assert.equal(status.expires_turn, 5);
+  assert.equal(status.data.damage_per_turn, 7);
+});
+
+test("resolveArenaSource picks the current or last visited room and the travel terrain", () => {
+  const dungeon = resolveArenaSource({
+    seed: 3,
+    boardType: "dungeon",
+    runtimeState: {
+      room_graph: {
+        rooms: [
+          { id: "room_1", tags: ["cache"], danger: 2 },
+          { id: "room_2", tags: ["lair"], danger: 6 },
+        ],
+      },
+      room_state: {
+        room_1: { room_id: "room_1", updated_at: "2026-02-01T00:00:00.000Z" },
+        room_2: { room_id: "room_2", updated_at: "2026-02-02T00:00:00.000Z" },
+      },
+    },
+  });
+  assert.equal(dungeon.roomId, "room_2");
+  assert.deepEqual(dungeon.roomTags, ["lair"]);
+  assert.equal(dungeon.roomDanger, 6);
+
+  const walked = resolveArenaSource({
+    seed: 3,
+    boardType: "dungeon",
+    runtimeState: {
+      room_graph: { rooms: [{ id: "room_1", tags: ["cache"], danger: 2 }, { id: "room_2", tags: ["lair"], danger: 6 }] },
+      room_state: { room_2: { room_id: "room_2", updated_at: "2026-02-02T00:00:00.000Z" } },
+      fog_of_war: { current_room_id: "room_1" },
+    },
+  });
+  assert.equal(walked.roomId, "room_1");
+
+  const travel = resolveArenaSource({
+    seed: 3,
+    boardType: "travel",
+    runtimeState: { route_segments: [{ id: "seg_1", terrain: "marsh causeway" }] },
+  });
+  assert.equal(travel.terrain, "marsh causeway");
+  assert.equal(travel.roomId, null);
+});
+
+test("readCombatArena prefers the session arena and falls back for older sessions", () => {
+  const arena = generateCombatArena(9, source({ boardType: "travel" }));
+  assert.deepEqual(readCombatArena({ kind: "encounter", arena }), arena);
+
+  const legacy = readCombatArena({ kind: "encounter" }, { blocked_tiles: [{ x: 3, y: 2 }, { x: 40, y: 2 }] });
+  assert.equal(legacy.width, 14);
+  assert.equal(legacy.height, 10);
+  assert.deepEqual(legacy.blocked_tiles, [{ x: 3, y: 2 }]);
+  assert.deepEqual(legacy.hazard_tiles, []);
+});
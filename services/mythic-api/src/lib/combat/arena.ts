@@ -0,0 +1,409 @@
+import { clampInt, rngInt, rngPick } from "../../shared/mythic_rng.js";
+import type { BiomeMap } from "../worldforge/schema.js";
+
+export const ARENA_MIN_WIDTH = 8;
+export const ARENA_MAX_WIDTH = 20;
+export const ARENA_MIN_HEIGHT = 6;
+export const ARENA_MAX_HEIGHT = 14;
+
+// Sessions created before arenas were stored fell back to this rectangle.
+const LEGACY_ARENA_WIDTH = 14;
+const LEGACY_ARENA_HEIGHT = 10;
+
+// Columns on each flank kept clear so both sides always have room to deploy.
+const SPAWN_COLUMNS = 3;
+export const ARENA_HAZARD_STATUS_TURNS = 2;
+
+export type ArenaBoardType = "town" | "travel" | "dungeon" | "unknown";
+
+export type ArenaHazardKind =
+  | "fire"
+  | "spikes"
+  | "corruption"
+  | "frost"
+  | "bog"
+  | "thorns"
+  | "quicksand"
+  | "rockfall";
+
+export interface ArenaTile {
+  x: number;
+  y: number;
+}
+
+export interface ArenaHazardTile extends ArenaTile {
+  kind: ArenaHazardKind;
+  damage: number;
+}
+
+export interface CombatArena {
+  version: 1;
+  width: number;
+  height: number;
+  blocked_tiles: ArenaTile[];
+  hazard_tiles: ArenaHazardTile[];
+  source: {
+    board_type: ArenaBoardType;
+    room_id: string | null;
+    biome: string | null;
+    terrain: string | null;
+  };
+}
+
+export interface CombatArenaSource {
+  boardType: ArenaBoardType;
+  roomId: string | null;
+  roomTags: string[];
+  roomDanger: number;
+  terrain: string | null;
+  biome: {
+    regionId: string;
+    dominantBiome: string;
+    corruption: number;
+    tags: string[];
+  } | null;
+}
+
+interface TerrainProfile {
+  obstacleDensity: number;
+  hazardKind: ArenaHazardKind | null;
+  hazardCount: number;
+}
+
+const HAZARD_DAMAGE: Record<ArenaHazardKind, number> = {
+  fire: 6,
+  spikes: 5,
+  corruption: 5,
+  rockfall: 4,
+  frost: 3,
+  thorns: 3,
+  quicksand: 3,
+  bog: 2,
+};
+
+const TERRAIN_RULES: Array<{ pattern: RegExp; profile: TerrainProfile }> = [
+  { pattern: /(volcan|lava|ember|ash|magma|cinder)/, profile: { obstacleDensity: 0.08, hazardKind: "fire", hazardCount: 3 } },
+  { pattern: /(swamp|marsh|bog|fen|mire)/, profile: { obstacleDensity: 0.07, hazardKind: "bog", hazardCount: 4 } },
+  { pattern: /(snow|ice|frost|tundra|glacier)/, profile: { obstacleDensity: 0.06, hazardKind: "frost", hazardCount: 3 } },
+  { pattern: /(desert|dune|sand|waste|badland)/, profile: { obstacleDensity: 0.04, hazardKind: "quicksand", hazardCount: 2 } },
+  { pattern: /(mountain|cliff|crag|canyon|peak|rock)/, profile: { obstacleDensity: 0.14, hazardKind: "rockfall", hazardCount: 2 } },
+  { pattern: /(forest|jungle|grove|wood|thicket|wild)/, profile: { obstacleDensity: 0.12, hazardKind: "thorns", hazardCount: 2 } },
+  { pattern: /(ruin|city|urban|street|market)/, profile: { obstacleDensity: 0.1, hazardKind: null, hazardCount: 0 } },
+];
+
+const DEFAULT_TERRAIN: TerrainProfile = { obstacleDensity: 0.07, hazardKind: null, hazardCount: 0 };
+
+function asRecord(value: unknown): Record<string, unknown> {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return {};
+  return value as Record<string, unknown>;
+}
+
+function asString(value: unknown): string | null {
+  return typeof value === "string" && value.trim().length > 0 ? value.trim() : null;
+}
+
+function tileKey(point: ArenaTile): string {
+  return `${point.x},${point.y}`;
+}
+
+function isHazardKind(value: unknown): value is ArenaHazardKind {
+  return typeof value === "string" && Object.prototype.hasOwnProperty.call(HAZARD_DAMAGE, value);
+}
+
+function normalizeBoardType(value: string | null): ArenaBoardType {
+  if (value === "town" || value === "travel" || value === "dungeon") return value;
+  return "unknown";
+}
+
+function activeDungeonRoom(runtimeState: Record<string, unknown>): { id: string; tags: string[]; danger: number } | null {
+  const rooms = Array.isArray(asRecord(runtimeState.room_graph).rooms)
+    ? (asRecord(runtimeState.room_graph).rooms as unknown[]).map(asRecord)
+    : [];
+  if (rooms.length === 0) return null;
+  const roomState = asRecord(runtimeState.room_state);
+  const lastVisited = Object.values(roomState)
+    .map(asRecord)
+    .filter((entry) => asString(entry.room_id))
+    .sort((a, b) => String(b.updated_at ?? "").localeCompare(String(a.updated_at ?? "")))[0];
+  const roomId = asString(asRecord(runtimeState.fog_of_war).current_room_id) ?? asString(lastVisited?.room_id);
+  const room = rooms.find((entry) => asString(entry.id) === roomId) ?? rooms[0]!;
+  return {
+    id: asString(room.id) ?? "room_1",
+    tags: Array.isArray(room.tags) ? room.tags.filter((tag): tag is string => typeof tag === "string") : [],
+    danger: clampInt(Number(room.danger ?? 1) || 1, 1, 10),
+  };
+}
+
+export function resolveArenaSource(args: {
+  seed: number;
+  boardType: string | null;
+  runtimeState: Record<string, unknown>;
+  biomeMap?: BiomeMap | null;
+}): CombatArenaSource {
+  const boardType = normalizeBoardType(args.boardType);
+  const room = boardType === "dungeon" ? activeDungeonRoom(args.runtimeState) : null;
+
+  const segments = Array.isArray(args.runtimeState.route_segments)
+    ? (args.runtimeState.route_segments as unknown[]).map(asRecord).filter((entry) => asString(entry.terrain))
+    : [];
+  const terrain = boardType === "travel" && segments.length > 0
+    ? asString(rngPick(args.seed, "arena:segment", segments).terrain)
+    : null;
+
+  const regions = args.biomeMap?.regions ?? [];
+  const requestedRegion = asString(args.runtimeState.region_id);
+  const region = regions.length > 0
+    ? regions.find((entry) => entry.id === requestedRegion) ?? rngPick(args.seed, "arena:region", regions)
+    : null;
+
+  return {
+    boardType,
+    roomId: room?.id ?? null,
+    roomTags: room?.tags ?? [],
+    roomDanger: room?.danger ?? 1,
+    terrain,
+    biome: region
+      ? {
+          regionId: region.id,
+          dominantBiome: region.dominantBiome,
+          corruption: region.corruption,
+          tags: region.tags,
+        }
+      : null,
+  };
+}
+
+function terrainProfile(source: CombatArenaSource): TerrainProfile {
+  const text = [source.terrain, source.biome?.dominantBiome, ...(source.biome?.tags ?? [])]
+    .filter((entry): entry is string => Boolean(entry))
+    .join(" ")
+    .toLowerCase();
+  return TERRAIN_RULES.find((rule) => rule.pattern.test(text))?.profile ?? DEFAULT_TERRAIN;
+}
+
+function arenaDimensions(seed: number, source: CombatArenaSource): { width: number; height: number } {
+  let width: number;
+  let height: number;
+  if (source.boardType === "town") {
+    width = rngInt(seed, "arena:w", 10, 12);
+    height = rngInt(seed, "arena:h", 7, 8);
+  } else if (source.boardType === "travel") {
+    width = rngInt(seed, "arena:w", 14, 18);
+    height = rngInt(seed, "arena:h", 9, 11);
+  } else if (source.boardType === "dungeon") {
+    width = rngInt(seed, "arena:w", 9, 13);
+    height = rngInt(seed, "arena:h", 7, 10);
+    if (source.roomTags.includes("lair")) {
+      width += 3;
+      height += 2;
+    }
+    if (source.roomTags.includes("vault") || source.roomTags.includes("cache")) {
+      width -= 1;
+      height -= 1;
+    }
+    if (source.roomDanger >= 5) width += 1;
+  } else {
+    width = 12;
+    height = 8;
+  }
+  return {
+    width: clampInt(width, ARENA_MIN_WIDTH, ARENA_MAX_WIDTH),
+    height: clampInt(height, ARENA_MIN_HEIGHT, ARENA_MAX_HEIGHT),
+  };
+}
+
+// Flood fill from the ally flank; obstacles are only kept when the enemy flank stays reachable.
+function flanksConnected(width: number, height: number, blocked: Set<string>): boolean {
+  const start = { x: 0, y: Math.floor(height / 2) };
+  const seen = new Set<string>([tileKey(start)]);
+  const queue: ArenaTile[] = [start];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    if (current.x === width - 1) return true;
+    for (const next of [
+      { x: current.x + 1, y: current.y },
+      { x: current.x - 1, y: current.y },
+      { x: current.x, y: current.y + 1 },
+      { x: current.x, y: current.y - 1 },
+    ]) {
+      if (next.x < 0 || next.y < 0 || next.x >= width || next.y >= height) continue;
+      const key = tileKey(next);
+      if (seen.has(key) || blocked.has(key)) continue;
+      seen.add(key);
+      queue.push(next);
+    }
+  }
+  return false;
+}
+
+export function generateCombatArena(seed: number, source: CombatArenaSource): CombatArena {
+  const { width, height } = arenaDimensions(seed, source);
+  const profile = terrainProfile(source);
+  const interiorMinX = SPAWN_COLUMNS;
+  const interiorMaxX = width - SPAWN_COLUMNS - 1;
+  const interiorArea = Math.max(0, interiorMaxX - interiorMinX + 1) * height;
+
+  const puzzleBonus = source.roomTags.includes("puzzle") ? 0.04 : 0;
+  const obstacleTarget = Math.max(2, Math.round(interiorArea * (profile.obstacleDensity + puzzleBonus)));
+  const blocked = new Set<string>();
+  const blockedTiles: ArenaTile[] = [];
+  for (let attempt = 0; attempt < obstacleTarget * 4 && blockedTiles.length < obstacleTarget; attempt += 1) {
+    const tile = {
+      x: rngInt(seed, `arena:wall:x:${attempt}`, interiorMinX, interiorMaxX),
+      y: rngInt(seed, `arena:wall:y:${attempt}`, 0, height - 1),
+    };
+    const key = tileKey(tile);
+    if (blocked.has(key)) continue;
+    blocked.add(key);
+    if (!flanksConnected(width, height, blocked)) {
+      blocked.delete(key);
+      continue;
+    }
+    blockedTiles.push(tile);
+  }
+
+  const hazardPlan: ArenaHazardKind[] = [];
+  if (profile.hazardKind) {
+    for (let i = 0; i < profile.hazardCount; i += 1) hazardPlan.push(profile.hazardKind);
+  }
+  if (source.roomTags.includes("trap")) hazardPlan.push("spikes", "spikes");
+  if (source.roomTags.includes("altar")) hazardPlan.push("corruption");
+  if ((source.biome?.corruption ?? 0) >= 0.5) hazardPlan.push("corruption");
+
+  const dangerBonus = Math.floor(source.roomDanger / 2);
+  const hazardTiles: ArenaHazardTile[] = [];
+  const hazardKeys = new Set<string>();
+  for (let attempt = 0; attempt < hazardPlan.length * 4 && hazardTiles.length < hazardPlan.length; attempt += 1) {
+    const tile = {
+      x: rngInt(seed, `arena:hazard:x:${attempt}`, interiorMinX, interiorMaxX),
+      y: rngInt(seed, `arena:hazard:y:${attempt}`, 0, height - 1),
+    };
+    const key = tileKey(tile);
+    if (blocked.has(key) || hazardKeys.has(key)) continue;
+    hazardKeys.add(key);
+    const kind = hazardPlan[hazardTiles.length]!;
+    hazardTiles.push({ ...tile, kind, damage: HAZARD_DAMAGE[kind] + dangerBonus });
+  }
+
+  return {
+    version: 1,
+    width,
+    height,
+    blocked_tiles: blockedTiles,
+    hazard_tiles: hazardTiles,
+    source: {
+      board_type: source.boardType,
+      room_id: source.roomId,
+      biome: source.biome?.dominantBiome ?? null,
+      terrain: source.terrain,
+    },
+  };
+}
+
+function readTiles(raw: unknown, width: number, height: number): ArenaTile[] {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .map(asRecord)
+    .map((entry) => ({ x: Math.floor(Number(entry.x ?? -1)), y: Math.floor(Number(entry.y ?? -1)) }))
+    .filter((tile) => Number.isFinite(tile.x) && Number.isFinite(tile.y))
+    .filter((tile) => tile.x >= 0 && tile.y >= 0 && tile.x < width && tile.y < height);
+}
+
+function readHazards(raw: unknown, width: number, height: number): ArenaHazardTile[] {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .map(asRecord)
+    .filter((entry) => isHazardKind(entry.kind))
+    .map((entry) => ({
+      x: Math.floor(Number(entry.x ?? -1)),
+      y: Math.floor(Number(entry.y ?? -1)),
+      kind: entry.kind as ArenaHazardKind,
+      damage: Math.max(0, Math.floor(Number(entry.damage ?? HAZARD_DAMAGE[entry.kind as ArenaHazardKind]) || 0)),
+    }))
+    .filter((tile) => tile.x >= 0 && tile.y >= 0 && tile.x < width && tile.y < height);
+}
+
+// Reads the arena stored on combat_sessions.scene_json, falling back to the runtime's blocked tiles for older sessions.
+export function readCombatArena(sceneJson: unknown, runtimeState?: unknown): CombatArena {
+  const stored = asRecord(asRecord(sceneJson).arena);
+  const storedWidth = Number(stored.width);
+  const storedHeight = Number(stored.height);
+  if (Number.isFinite(storedWidth) && Number.isFinite(storedHeight)) {
+    const width = clampInt(storedWidth, ARENA_MIN_WIDTH, ARENA_MAX_WIDTH);
+    const height = clampInt(storedHeight, ARENA_MIN_HEIGHT, ARENA_MAX_HEIGHT);
+    const source = asRecord(stored.source);
+    return {
+      version: 1,
+      width,
+      height,
+      blocked_tiles: readTiles(stored.blocked_tiles, width, height),
+      hazard_tiles: readHazards(stored.hazard_tiles, width, height),
+      source: {
+        board_type: normalizeBoardType(asString(source.board_type)),
+        room_id: asString(source.room_id),
+        biome: asString(source.biome),
+        terrain: asString(source.terrain),
+      },
+    };
+  }
+  return {
+    version: 1,
+    width: LEGACY_ARENA_WIDTH,
+    height: LEGACY_ARENA_HEIGHT,
+    blocked_tiles: readTiles(asRecord(runtimeState).blocked_tiles, LEGACY_ARENA_WIDTH, LEGACY_ARENA_HEIGHT),
+    hazard_tiles: [],
+    source: { board_type: "unknown", room_id: null, biome: null, terrain: null },
+  };
+}
+
+export function arenaInBounds(arena: CombatArena, point: ArenaTile): boolean {
+  return point.x >= 0 && point.y >= 0 && point.x < arena.width && point.y < arena.height;
+}
+
+export function arenaBlockedSet(arena: CombatArena): Set<string> {
+  return new Set(arena.blocked_tiles.map(tileKey));
+}
+
+export function arenaHazardAt(arena: CombatArena, point: ArenaTile): ArenaHazardTile | null {
+  return arena.hazard_tiles.find((tile) => tile.x === Math.floor(point.x) && tile.y === Math.floor(point.y)) ?? null;
+}
+
+// Allies deploy on the left flank and enemies on the right, filling the middle rows first.
+export function arenaSpawnPoint(arena: CombatArena, side: "ally" | "enemy", index: number): ArenaTile {
+  const mid = Math.floor(arena.height / 2);
+  const rows: number[] = [mid];
+  for (let offset = 1; rows.length < arena.height; offset += 1) {
+    if (mid - offset >= 0) rows.push(mid - offset);
+    if (mid + offset < arena.height) rows.push(mid + offset);
+  }
+  const columns = side === "ally" ? [1, 0, 2] : [arena.width - 2, arena.width - 1, arena.width - 3];
+  const slot = Math.max(0, Math.floor(index));
+  return {
+    x: columns[Math.floor(slot / arena.height) % columns.length]!,
+    y: rows[slot % arena.height]!,
+  };
+}
+
+// Standing in a hazard applies a short damage-over-time status that mythic_resolve_status_tick resolves.
+export function arenaHazardStatus(hazard: ArenaHazardTile, turnIndex: number) {
+  return {
+    id: `hazard_${hazard.kind}`,
+    expires_turn: turnIndex + ARENA_HAZARD_STATUS_TURNS,
+    stacks: 1,
+    data: {
+      damage_per_turn: hazard.damage,
+      hazard: hazard.kind,
+      tile: { x: hazard.x, y: hazard.y },
+    },
+  };
+}
+
+// Shape mirrored onto campaign_runtime.state_json so the board can render the arena.
+export function arenaRuntimeState(arena: CombatArena): Record<string, unknown> {
+  return {
+    grid: { width: arena.width, height: arena.height },
+    blocked_tiles: arena.blocked_tiles,
+    hazard_tiles: arena.hazard_tiles,
+    arena_source: arena.source,
+  };
+}
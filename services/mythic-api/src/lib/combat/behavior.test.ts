@@ -0,0 +1,155 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import { rngPick } from "../../shared/mythic_rng.js";
+import { buildCampaignContext } from "../worldforge/generator.js";
+import {
+  BEHAVIOR_PROFILES,
+  activeBehavior,
+  behaviorFromStatuses,
+  behaviorProfileIdForCreature,
+  behaviorStatusEntry,
+  parseBehaviorProfile,
+  pickBehaviorSkill,
+  pickBehaviorTarget,
+  pickBehaviorWard,
+  resolveEnemyBehaviorProfile,
+  shouldRetreat,
+  type BehaviorUnit,
+} from "./behavior.js";
+
+function unit(id: string, patch: Partial<BehaviorUnit> = {}): BehaviorUnit {
+  return {
+    id,
+    entity_type: "player",
+    x: 0,
+    y: 0,
+    hp: 100,
+    hp_max: 100,
+    offense: 40,
+    support: 20,
+    power_max: 0,
+    ...patch,
+  };
+}
+
+const tuningOf = (id: string, context = { hpPct: 1, turnIndex: 0, alliesLeft: 2 }) =>
+  activeBehavior(BEHAVIOR_PROFILES[id]!, context).tuning;
+
+test("brute keeps the original weakest-of-nearest-two policy", () => {
+  const actor = unit("actor", { entity_type: "npc", x: 10, y: 2 });
+  const opponents = [
+    unit("healthy", { x: 9, y: 2 }),
+    unit("bloodied", { x: 2, y: 2, hp: 40 }),
+    unit("grazed", { x: 6, y: 2, hp: 80 }),
+  ];
+  const picks = new Set<string>();
+  for (let seed = 1; seed <= 30; seed += 1) {
+    picks.add(pickBehaviorTarget({ actor, opponents, tuning: tuningOf("brute"), seed, label: "tick:1" }).id);
+  }
+  assert.deepEqual([...picks].sort(), ["bloodied", "grazed"]);
+
+  const shambler = pickBehaviorTarget({ actor, opponents, tuning: tuningOf("shambler"), seed: 3, label: "tick:1" });
+  assert.equal(shambler.id, "healthy");
+});
+
+test("assassins focus healers and guards rank threats by distance to their ward", () => {
+  const actor = unit("actor", { entity_type: "npc", x: 10, y: 2 });
+  const opponents = [
+    unit("fighter", { x: 9, y: 2, hp: 30 }),
+    unit("cleric", { x: 1, y: 1, support: 80 }),
+    unit("raider", { x: 3, y: 5, offense: 90 }),
+  ];
+  assert.equal(pickBehaviorTarget({ actor, opponents, tuning: tuningOf("assassin"), seed: 1, label: "t" }).id, "cleric");
+
+  const allies = [
+    unit("boss", { entity_type: "npc", hp_max: 400, hp: 400, x: 3, y: 4 }),
+    unit("whelp", { entity_type: "npc", hp: 10, x: 8, y: 8 }),
+  ];
+  const tuning = tuningOf("sentinel");
+  const ward = pickBehaviorWard(allies, tuning.guard!);
+  assert.equal(ward?.id, "whelp");
+  assert.equal(pickBehaviorWard(allies, { ward: "strongest", radius: 1 })?.id, "boss");
+  const threat = pickBehaviorTarget({ actor, opponents, tuning, ward: allies[0], seed: 1, label: "t" });
+  assert.equal(threat.id, "raider");
+});
+
+test("phase triggers layer overrides onto the base profile", () => {
+  const calm = activeBehavior(BEHAVIOR_PROFILES.skirmisher!, { hpPct: 0.2, turnIndex: 3, alliesLeft: 2 });
+  assert.equal(calm.phaseId, null);
+  assert.equal(shouldRetreat(calm.tuning, 0.2), true);
+
+  const cornered = activeBehavior(BEHAVIOR_PROFILES.skirmisher!, { hpPct: 0.2, turnIndex: 3, alliesLeft: 0 });
+  assert.equal(cornered.phaseId, "cornered");
+  assert.equal(shouldRetreat(cornered.tuning, 0.2), false);
+  assert.equal(cornered.tuning.skill_mult_scale.npc_swipe, 1.2);
+
+  const warlord = activeBehavior(BEHAVIOR_PROFILES.warlord!, { hpPct: 0.25, turnIndex: 9, alliesLeft: 0 });
+  assert.equal(warlord.phaseId, "execution");
+  assert.deepEqual(warlord.tuning.target_priority, ["healer", "lowest_hp"]);
+  assert.equal(warlord.tuning.skill_weights.boss_execute, 3);
+});
+
+test("stored profiles accept built-in ids and extends-overrides, and reject bad shapes", () => {
+  assert.equal(parseBehaviorProfile("Kiter")?.id, "kiter");
+  assert.equal(parseBehaviorProfile("nope"), null);
+  assert.equal(parseBehaviorProfile({}), null);
+
+  const custom = parseBehaviorProfile({ extends: "kiter", id: "bell_caller", reach: 3, kite_range: 2 });
+  assert.equal(custom?.id, "bell_caller");
+  assert.equal(custom?.reach, 3);
+  assert.deepEqual(custom?.target_priority, BEHAVIOR_PROFILES.kiter!.target_priority);
+
+  assert.equal(parseBehaviorProfile({ extends: "brute", movement: "teleport" }), null);
+  assert.equal(parseBehaviorProfile({ phases: [{ id: "empty", when: {}, set: {} }] }), null);
+
+  const statuses = [{ id: "burn", expires_turn: 3 }, behaviorStatusEntry(custom!, "desperate")];
+  const restored = behaviorFromStatuses(statuses);
+  assert.deepEqual(restored?.profile, custom);
+  assert.equal(restored?.phaseId, "desperate");
+});
+
+test("enemy templates win over world creature pools, which win over the keyword classifier", () => {
+  const templates = new Map<string, unknown>([["dire goose", { extends: "skirmisher", retreat_below_hp_pct: 0.2 }]]);
+  const goose = resolveEnemyBehaviorProfile({ name: "Dire Goose", templates });
+  assert.equal(goose.id, "skirmisher");
+  assert.equal(goose.retreat_below_hp_pct, 0.2);
+
+  const pooled = resolveEnemyBehaviorProfile({
+    name: "Grave Choir Hound",
+    templates: new Map(),
+    creatureProfiles: { "grave hounds": "hunter", bandits: "skirmisher" },
+  });
+  assert.equal(pooled.id, "hunter");
+
+  assert.equal(resolveEnemyBehaviorProfile({ name: "Lantern Wraith", templates: new Map() }).id, "shambler");
+  assert.equal(behaviorProfileIdForCreature("ridge raiders"), "skirmisher");
+  assert.equal(behaviorProfileIdForCreature("obsidian wolves"), "hunter");
+  assert.equal(behaviorProfileIdForCreature("Mysterious Thing"), "brute");
+
+  const world = buildCampaignContext({
+    title: "Ashline Covenant",
+    description: "Grave knights and bandit caravans contest a dying frontier.",
+    tonePreset: "dark",
+  });
+  const pools = world.worldContext.creaturePools;
+  for (const creature of pools.globalPool) {
+    assert.ok(parseBehaviorProfile(pools.behaviorProfiles[creature]), `no profile for ${creature}`);
+  }
+});
+
+test("boss skill weights bias the pick while unweighted pools keep the old uniform pick", () => {
+  const pool = ["boss_strike", "boss_mark"];
+  for (let seed = 1; seed <= 10; seed += 1) {
+    assert.equal(pickBehaviorSkill(seed, "tick:2:boss", pool, {}), rngPick(seed, "tick:2:boss:boss_skill", pool));
+  }
+  assert.equal(pickBehaviorSkill(4, "tick:2:boss", [], {}), "boss_strike");
+
+  let executes = 0;
+  for (let seed = 1; seed <= 60; seed += 1) {
+    if (pickBehaviorSkill(seed, "tick:2:boss", ["boss_execute", "boss_cleave"], { boss_execute: 3, boss_cleave: 1 }) === "boss_execute") {
+      executes += 1;
+    }
+  }
+  assert.ok(executes > 30);
+});
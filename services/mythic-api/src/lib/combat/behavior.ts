@@ -0,0 +1,344 @@
+import { z } from "zod";
+
+import { rngInt, rngPick, weightedPick } from "../../shared/mythic_rng.js";
+
+export const BEHAVIOR_STATUS_ID = "behavior_profile";
+export const DEFAULT_BEHAVIOR_PROFILE_ID = "brute";
+
+const HP_TIE_EPSILON = 0.001;
+
+export const BehaviorTargetRuleSchema = z.enum([
+  "lowest_hp",
+  "nearest",
+  "healer",
+  "caster",
+  "companion",
+  "player",
+  "isolated",
+  "highest_offense",
+]);
+export type BehaviorTargetRule = z.infer<typeof BehaviorTargetRuleSchema>;
+
+export const BehaviorGuardSchema = z.object({
+  ward: z.enum(["strongest", "weakest", "support"]),
+  radius: z.number().int().min(1).max(4),
+}).strict();
+export type BehaviorGuard = z.infer<typeof BehaviorGuardSchema>;
+
+const BehaviorTuningShape = {
+  target_priority: z.array(BehaviorTargetRuleSchema).min(1).max(6),
+  // How many of the best-ranked targets the seeded pick chooses between.
+  target_spread: z.number().int().min(1).max(4),
+  movement: z.enum(["advance", "flank", "hold"]),
+  reach: z.number().int().min(1).max(8).nullable(),
+  kite_range: z.number().int().min(1).max(6).nullable(),
+  retreat_below_hp_pct: z.number().min(0).max(1).nullable(),
+  guard: BehaviorGuardSchema.nullable(),
+  skill_weights: z.record(z.number().min(0).max(20)),
+  skill_mult_scale: z.record(z.number().min(0.25).max(3)),
+};
+
+export const BehaviorTuningSchema = z.object(BehaviorTuningShape).strict();
+export type BehaviorTuning = z.infer<typeof BehaviorTuningSchema>;
+
+export const BehaviorPhaseTriggerSchema = z.object({
+  hp_below_pct: z.number().min(0).max(1).optional(),
+  turn_at_least: z.number().int().min(0).optional(),
+  allies_left_at_most: z.number().int().min(0).optional(),
+}).strict().refine((value) => Object.keys(value).length > 0, { message: "phase trigger needs at least one condition" });
+
+export const BehaviorPhaseSchema = z.object({
+  id: z.string().trim().min(1).max(40),
+  when: BehaviorPhaseTriggerSchema,
+  set: BehaviorTuningSchema.partial().strict(),
+}).strict();
+export type BehaviorPhase = z.infer<typeof BehaviorPhaseSchema>;
+
+export const BehaviorProfileSchema = z.object({
+  id: z.string().trim().min(1).max(40),
+  ...BehaviorTuningShape,
+  phases: z.array(BehaviorPhaseSchema).max(6),
+}).strict();
+export type BehaviorProfile = z.infer<typeof BehaviorProfileSchema>;
+
+export interface BehaviorUnit {
+  id: string;
+  entity_type: "player" | "npc" | "summon";
+  x: number;
+  y: number;
+  hp: number;
+  hp_max: number;
+  offense: number;
+  support: number;
+  power_max: number;
+}
+
+export interface ActiveBehavior {
+  profile: BehaviorProfile;
+  phaseId: string | null;
+  tuning: BehaviorTuning;
+}
+
+const BASE_TUNING: BehaviorTuning = {
+  target_priority: ["lowest_hp", "nearest"],
+  target_spread: 2,
+  movement: "flank",
+  reach: null,
+  kite_range: null,
+  retreat_below_hp_pct: null,
+  guard: null,
+  skill_weights: {},
+  skill_mult_scale: {},
+};
+
+function builtIn(id: string, patch: Partial<BehaviorTuning>, phases: BehaviorPhase[] = []): BehaviorProfile {
+  return { id, ...BASE_TUNING, ...patch, phases };
+}
+
+export const BEHAVIOR_PROFILES: Readonly<Record<string, BehaviorProfile>> = {
+  // Matches the original combat-tick policy: weakest of the nearest two, flanking when a teammate is engaged.
+  brute: builtIn("brute", {}),
+  shambler: builtIn("shambler", {
+    target_priority: ["nearest", "lowest_hp"],
+    target_spread: 1,
+    movement: "advance",
+  }, [
+    { id: "death_throes", when: { hp_below_pct: 0.25 }, set: { skill_mult_scale: { npc_swipe: 1.25 } } },
+  ]),
+  skirmisher: builtIn("skirmisher", {
+    target_priority: ["isolated", "lowest_hp", "nearest"],
+    retreat_below_hp_pct: 0.3,
+  }, [
+    { id: "cornered", when: { allies_left_at_most: 0 }, set: { retreat_below_hp_pct: null, skill_mult_scale: { npc_swipe: 1.2 } } },
+  ]),
+  hunter: builtIn("hunter", {
+    target_priority: ["lowest_hp", "isolated"],
+    target_spread: 1,
+    retreat_below_hp_pct: 0.15,
+  }),
+  assassin: builtIn("assassin", {
+    target_priority: ["healer", "caster", "lowest_hp"],
+    target_spread: 1,
+    retreat_below_hp_pct: 0.25,
+  }),
+  kiter: builtIn("kiter", {
+    target_priority: ["healer", "lowest_hp", "nearest"],
+    target_spread: 1,
+    reach: 4,
+    kite_range: 3,
+  }, [
+    { id: "desperate", when: { hp_below_pct: 0.3 }, set: { movement: "advance", kite_range: null } },
+  ]),
+  sentinel: builtIn("sentinel", {
+    target_priority: ["nearest", "highest_offense"],
+    target_spread: 1,
+    movement: "hold",
+    guard: { ward: "weakest", radius: 2 },
+  }, [
+    { id: "last_stand", when: { allies_left_at_most: 0 }, set: { guard: null, movement: "advance" } },
+  ]),
+  warlord: builtIn("warlord", {
+    target_priority: ["lowest_hp", "nearest"],
+    target_spread: 1,
+    movement: "advance",
+    skill_weights: { boss_mark: 2, boss_strike: 1 },
+  }, [
+    { id: "hunt_healers", when: { hp_below_pct: 0.65 }, set: { target_priority: ["healer", "lowest_hp"] } },
+    { id: "execution", when: { hp_below_pct: 0.3 }, set: { skill_weights: { boss_execute: 3, boss_cleave: 1 } } },
+  ]),
+};
+
+const CREATURE_PROFILE_KEYWORDS: Array<{ profile: string; keywords: string[] }> = [
+  { profile: "shambler", keywords: ["undead", "wraith", "revenant", "specter", "spectre", "shade", "zombie", "skeleton", "ghoul", "bone", "grave", "crypt", "plague", "rotting", "slime", "ooze"] },
+  { profile: "assassin", keywords: ["assassin", "ninja", "killer", "mimic", "duelist", "vampire", "stalker"] },
+  { profile: "skirmisher", keywords: ["bandit", "marauder", "raider", "corsair", "outlaw", "rogue", "ranger", "cutthroat", "caravan"] },
+  { profile: "kiter", keywords: ["mage", "witch", "hag", "sprite", "imp", "cultist", "apostle", "drone", "harpy", "harpies", "crow", "bat", "spirit", "angel"] },
+  { profile: "sentinel", keywords: ["golem", "construct", "sentry", "sentries", "sentinel", "guardian", "knight", "treant", "titan", "giant", "armor", "crab", "monk"] },
+  { profile: "hunter", keywords: ["hound", "wolf", "wolves", "beast", "boar", "drake", "wyrm", "serpent", "spider", "fox", "goose", "kitty", "cat", "lurker", "worm"] },
+];
+
+function tokens(value: string): string[] {
+  return value.toLowerCase().split(/[^a-z]+/).filter((token) => token.length > 2);
+}
+
+function singular(token: string): string {
+  if (token.endsWith("ies")) return `${token.slice(0, -3)}y`;
+  if (token.endsWith("ves")) return `${token.slice(0, -3)}f`;
+  if (token.endsWith("s") && !token.endsWith("ss")) return token.slice(0, -1);
+  return token;
+}
+
+/** Keyword classifier used when neither an enemy template nor the world's creature pools name a profile. */
+export function behaviorProfileIdForCreature(name: string): string {
+  const words = new Set(tokens(name).flatMap((token) => [token, singular(token)]));
+  for (const entry of CREATURE_PROFILE_KEYWORDS) {
+    if (entry.keywords.some((keyword) => words.has(keyword))) return entry.profile;
+  }
+  return DEFAULT_BEHAVIOR_PROFILE_ID;
+}
+
+/**
+ * Reads a stored profile. Accepts a built-in id, or an object that `extends` a built-in (default `brute`)
+ * and overrides any of its fields. Returns null for empty or invalid definitions.
+ */
+export function parseBehaviorProfile(raw: unknown): BehaviorProfile | null {
+  if (typeof raw === "string") return BEHAVIOR_PROFILES[raw.trim().toLowerCase()] ?? null;
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return null;
+  const { extends: extendsRaw, ...rest } = raw as Record<string, unknown>;
+  if (Object.keys(rest).length === 0 && typeof extendsRaw !== "string") return null;
+  const baseId = typeof extendsRaw === "string" ? extendsRaw.trim().toLowerCase() : DEFAULT_BEHAVIOR_PROFILE_ID;
+  const base = BEHAVIOR_PROFILES[baseId];
+  if (!base) return null;
+  const parsed = BehaviorProfileSchema.safeParse({ ...base, ...rest, id: rest.id ?? base.id });
+  return parsed.success ? parsed.data : null;
+}
+
+function creaturePoolMatch(name: string, creatureProfiles: Record<string, string>): string | null {
+  const nameWords = new Set(tokens(name).map(singular));
+  let best: { id: string; overlap: number } | null = null;
+  for (const [creature, profileId] of Object.entries(creatureProfiles)) {
+    const overlap = tokens(creature).map(singular).filter((token) => nameWords.has(token)).length;
+    if (overlap > 0 && (!best || overlap > best.overlap)) best = { id: profileId, overlap };
+  }
+  return best?.id ?? null;
+}
+
+/** Enemy template row first, then the world's creature pool mapping, then the keyword classifier. */
+export function resolveEnemyBehaviorProfile(args: {
+  name: string;
+  templates: Map<string, unknown>;
+  creatureProfiles?: Record<string, string> | null;
+}): BehaviorProfile {
+  const fromTemplate = parseBehaviorProfile(args.templates.get(args.name.trim().toLowerCase()));
+  if (fromTemplate) return fromTemplate;
+  const poolId = args.creatureProfiles ? creaturePoolMatch(args.name, args.creatureProfiles) : null;
+  const fromPool = poolId ? parseBehaviorProfile(poolId) : null;
+  if (fromPool) return fromPool;
+  return BEHAVIOR_PROFILES[behaviorProfileIdForCreature(args.name)] ?? BEHAVIOR_PROFILES[DEFAULT_BEHAVIOR_PROFILE_ID]!;
+}
+
+export function behaviorStatusEntry(profile: BehaviorProfile, phaseId: string | null = null): Record<string, unknown> {
+  return {
+    id: BEHAVIOR_STATUS_ID,
+    expires_turn: null,
+    stacks: 1,
+    data: { profile_id: profile.id, profile, phase: phaseId },
+  };
+}
+
+export function behaviorFromStatuses(statuses: unknown): { profile: BehaviorProfile; phaseId: string | null } | null {
+  const list = Array.isArray(statuses) ? statuses : [];
+  for (const entry of list) {
+    if (!entry || typeof entry !== "object" || (entry as Record<string, unknown>).id !== BEHAVIOR_STATUS_ID) continue;
+    const data = ((entry as Record<string, unknown>).data ?? {}) as Record<string, unknown>;
+    const profile = parseBehaviorProfile(data.profile) ?? parseBehaviorProfile(data.profile_id);
+    if (!profile) return null;
+    return { profile, phaseId: typeof data.phase === "string" ? data.phase : null };
+  }
+  return null;
+}
+
+/** Applies every phase whose trigger holds, in order; the last one to fire names the active phase. */
+export function activeBehavior(
+  profile: BehaviorProfile,
+  context: { hpPct: number; turnIndex: number; alliesLeft: number },
+): ActiveBehavior {
+  const { id: _id, phases: _phases, ...base } = profile;
+  let tuning: BehaviorTuning = base;
+  let phaseId: string | null = null;
+  for (const phase of profile.phases) {
+    const when = phase.when;
+    if (when.hp_below_pct !== undefined && context.hpPct > when.hp_below_pct) continue;
+    if (when.turn_at_least !== undefined && context.turnIndex < when.turn_at_least) continue;
+    if (when.allies_left_at_most !== undefined && context.alliesLeft > when.allies_left_at_most) continue;
+    tuning = { ...tuning, ...phase.set };
+    phaseId = phase.id;
+  }
+  return { profile, phaseId, tuning };
+}
+
+function hpPct(unit: BehaviorUnit): number {
+  if (Number(unit.hp_max) <= 0) return 1;
+  return Math.max(0, Math.min(1, Number(unit.hp) / Number(unit.hp_max)));
+}
+
+function distance(a: BehaviorUnit, b: BehaviorUnit): number {
+  return Math.abs(Number(a.x) - Number(b.x)) + Math.abs(Number(a.y) - Number(b.y));
+}
+
+function ruleKey(rule: BehaviorTargetRule, unit: BehaviorUnit, from: BehaviorUnit, pack: BehaviorUnit[]): number {
+  switch (rule) {
+    case "lowest_hp":
+      return hpPct(unit);
+    case "nearest":
+      return distance(from, unit);
+    case "healer":
+      return -Number(unit.support);
+    case "caster":
+      return -Number(unit.power_max);
+    case "companion":
+      return unit.entity_type === "summon" ? 0 : 1;
+    case "player":
+      return unit.entity_type === "player" ? 0 : 1;
+    case "isolated": {
+      const nearestFriend = Math.min(99, ...pack.filter((entry) => entry.id !== unit.id).map((entry) => distance(unit, entry)));
+      return -nearestFriend;
+    }
+    case "highest_offense":
+      return -Number(unit.offense);
+  }
+}
+
+/**
+ * Ranks opponents by the profile's priority rules (guards rank by distance to their ward first) and makes
+ * a seeded pick among the top `target_spread`.
+ */
+export function pickBehaviorTarget<T extends BehaviorUnit>(args: {
+  actor: BehaviorUnit;
+  opponents: T[];
+  tuning: BehaviorTuning;
+  ward?: BehaviorUnit | null;
+  seed: number;
+  label: string;
+}): T {
+  const rules: BehaviorTargetRule[] = args.ward ? ["nearest", ...args.tuning.target_priority] : args.tuning.target_priority;
+  const keyed = args.opponents.map((unit) => ({
+    unit,
+    keys: rules.map((rule, index) =>
+      ruleKey(rule, unit, index === 0 && args.ward ? args.ward : args.actor, args.opponents)),
+  }));
+  keyed.sort((left, right) => {
+    for (let i = 0; i < rules.length; i += 1) {
+      const delta = left.keys[i]! - right.keys[i]!;
+      const epsilon = rules[i] === "lowest_hp" ? HP_TIE_EPSILON : 0;
+      if (Math.abs(delta) > epsilon) return delta;
+    }
+    return String(left.unit.id).localeCompare(String(right.unit.id));
+  });
+  const top = keyed.slice(0, Math.min(args.tuning.target_spread, keyed.length));
+  if (top.length === 1) return top[0]!.unit;
+  return top[rngInt(args.seed, `${args.label}:target_pick`, 0, top.length - 1)]!.unit;
+}
+
+export function pickBehaviorWard<T extends BehaviorUnit>(allies: T[], guard: BehaviorGuard): T | null {
+  const ranked = [...allies].sort((left, right) => {
+    const delta = guard.ward === "strongest"
+      ? Number(right.hp_max) - Number(left.hp_max)
+      : guard.ward === "support"
+        ? Number(right.support) - Number(left.support)
+        : hpPct(left) - hpPct(right);
+    return delta || String(left.id).localeCompare(String(right.id));
+  });
+  return ranked[0] ?? null;
+}
+
+/** Boss skill pick; without weights for the pool this is the same uniform seeded pick as before profiles. */
+export function pickBehaviorSkill(seed: number, label: string, pool: string[], weights: Record<string, number>): string {
+  if (!pool.length) return "boss_strike";
+  if (!pool.some((skill) => weights[skill] !== undefined)) return rngPick(seed, `${label}:boss_skill`, pool);
+  return weightedPick(seed, `${label}:boss_skill`, pool.map((skill) => ({ item: skill, weight: weights[skill] ?? 1 })));
+}
+
+export function shouldRetreat(tuning: BehaviorTuning, hpPctNow: number): boolean {
+  return tuning.retreat_below_hp_pct !== null && hpPctNow <= tuning.retreat_below_hp_pct;
+}
@@ -0,0 +1,21 @@
+// Enemy names by combat theme. Job board contracts hunt the same families, so both read from here.
+
+export function enemyNamePool(themeHint: string): string[] {
+  const lower = themeHint.toLowerCase();
+  if (/(crypt|grave|horror|dark|gothic|night)/.test(lower)) {
+    return ["Lantern Wraith", "Moonflare Revenant", "Grave Choir Hound", "Velvet Cryptmimic", "Dusk Bell Specter"];
+  }
+  if (/(ruin|sci|tech|machine|arc|metal)/.test(lower)) {
+    return ["Arc Golem", "Crystal Spider", "Turbo Prism Drone", "Storm Sprite", "Thunder Drake"];
+  }
+  if (/(forest|wild|road|travel|frontier)/.test(lower)) {
+    return ["Thornbound Stalker", "Bubble Wyrm", "Bramble Drake", "Dire Goose", "Storm Kitty"];
+  }
+  return ["Cinder Marauder", "Rainbow Treant", "Thunder Crab", "Shadow Mimic", "Ancient Slime"];
+}
+
+/** "Thunder Drake 2" and "Bramble Drake" are both drakes: the family is the last word, minus duplicate suffixes. */
+export function creatureFamily(name: string): string | null {
+  const words = name.trim().toLowerCase().split(/\s+/).filter((word) => /^[a-z][a-z'-]*$/.test(word));
+  return words.length > 0 ? words[words.length - 1]! : null;
+}
@@ -0,0 +1,105 @@
+import { md5Hex } from "../../shared/mythic_rng.js";
+
+export type DamageRollInput = {
+  seed: number;
+  label: string;
+  lvl: number;
+  offense: number;
+  mobility: number;
+  utility: number;
+  weaponPower: number;
+  skillMult: number;
+  resist: number;
+  spreadPct?: number;
+  // Campaign house rules (combat.critMultiplier, caps.critChanceMax); defaults are the SQL constants.
+  critMultBase?: number;
+  critChanceMax?: number;
+};
+
+// Same keys as the jsonb returned by mythic.compute_damage, so stored rolls diff field-for-field.
+export type DamageRoll = {
+  attack_rating: number;
+  base_before_spread: number;
+  spread: number;
+  pre_mitigation: number;
+  resist: number;
+  is_crit: boolean;
+  crit_chance: number;
+  crit_mult: number;
+  final_damage: number;
+};
+
+function clampNumber(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value));
+}
+
+function finiteOr(value: number, fallback: number): number {
+  return Number.isFinite(value) ? value : fallback;
+}
+
+// Postgres casts into int params round half away from zero.
+function pgInt(value: number): number {
+  const n = finiteOr(value, 0);
+  return Math.sign(n) * Math.round(Math.abs(n));
+}
+
+// round(double precision) in Postgres is rint(): ties go to the even neighbour.
+function roundHalfEven(value: number): number {
+  const floor = Math.floor(value);
+  const diff = value - floor;
+  if (diff > 0.5) return floor + 1;
+  if (diff < 0.5) return floor;
+  return floor % 2 === 0 ? floor : floor + 1;
+}
+
+// mythic.rng01 reads the hex prefix as a signed bigint before abs(), which differs from
+// the unsigned read in shared/mythic_rng.ts whenever the top bit is set.
+export function sqlRng01(seed: number, label: string): number {
+  const h = md5Hex(`${seed}:${label ?? ""}`).slice(0, 16);
+  const signed = BigInt.asIntN(64, BigInt(`0x${h}`));
+  const n = signed < 0n ? -signed : signed;
+  return Number(n % 1000000000n) / 1_000_000_000;
+}
+
+export function attackRating(lvl: number, offense: number, weaponPower: number): number {
+  const l = clampNumber(pgInt(lvl), 1, 99);
+  const o = clampNumber(pgInt(offense), 0, 100);
+  const wp = Math.max(finiteOr(weaponPower, 0), 0);
+  return roundHalfEven(14 + (l * 1.55) + (o * 0.32) + (wp * 0.40));
+}
+
+// TypeScript port of mythic.compute_damage (20260226090000_mythic_campaign_house_rules.sql).
+export function computeDamageRoll(args: DamageRollInput): DamageRoll {
+  const offense = clampNumber(pgInt(args.offense), 0, 100);
+  const mobility = clampNumber(pgInt(args.mobility), 0, 100);
+  const utility = clampNumber(pgInt(args.utility), 0, 100);
+  const resist = Math.max(finiteOr(args.resist, 0), 0);
+  const spreadPct = clampNumber(finiteOr(args.spreadPct ?? 0.10, 0.10), 0, 0.5);
+
+  const ar = attackRating(args.lvl, args.offense, args.weaponPower);
+  const base = ar * Math.max(finiteOr(args.skillMult, 1), 0);
+  const spread = (sqlRng01(args.seed, `${args.label}:spread`) - 0.5) * 2 * spreadPct;
+  let pre = base * (1 + spread);
+
+  const critChanceMax = clampNumber(finiteOr(args.critChanceMax ?? 0.60, 0.60), 0.02, 0.95);
+  const critMultBase = clampNumber(finiteOr(args.critMultBase ?? 1.5, 1.5), 1, 4);
+  const critChance = clampNumber(0.02 + (mobility + utility) / 400, 0.02, critChanceMax);
+  const critMult = clampNumber(critMultBase + (offense + utility) / 200, critMultBase, critMultBase + 1.5);
+  const isCrit = sqlRng01(args.seed, `${args.label}:crit`) < critChance;
+  if (isCrit) pre *= critMult;
+
+  const mitigated = (Math.max(pre, 0) * 100) / (100 + resist);
+  const finalDamage = pre <= 0 ? 0 : Math.max(1, Math.round(mitigated));
+
+  return {
+    attack_rating: ar,
+    base_before_spread: base,
+    spread,
+    pre_mitigation: pre,
+    resist,
+    is_crit: isCrit,
+    crit_chance: critChance,
+    crit_mult: critMult,
+    final_damage: finalDamage,
+  };
+}
@@ -0,0 +1,88 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import { creatureFamily } from "./bestiary.js";
+import {
+  MAX_ENCOUNTER_SIZE,
+  composeEncounter,
+  creatureDisplayName,
+  creatureRole,
+  encounterCreatureNames,
+  type EncounterRequest,
+} from "./encounters.js";
+import type { CreaturePools } from "../worldforge/schema.js";
+
+const POOLS: CreaturePools = {
+  featuredFocus: [],
+  globalPool: ["bandits", "wild beasts", "cultists", "constructs", "grave hounds", "void serpents"],
+  byBiome: {
+    region_1: ["ice wraiths", "frost hounds", "pale giants", "snow cultists"],
+    region_2: ["mire serpents", "fen witches", "amber slimes", "swamp stalkers"],
+  },
+  byThreatTier: {
+    low: ["bandits", "grave hounds"],
+    medium: ["cultists", "constructs"],
+    high: ["void serpents", "ancient titans"],
+  },
+  behaviorProfiles: {},
+};
+
+function request(patch: Partial<EncounterRequest>): EncounterRequest {
+  return { seed: 11, partySize: 1, partyLevel: 5, lethality: "medium", pools: POOLS, regionId: "region_1", ...patch };
+}
+
+test("pool names become combatant names and roles", () => {
+  assert.equal(creatureDisplayName("frost hounds"), "Frost Hound");
+  assert.equal(creatureDisplayName("fen witches"), "Fen Witch");
+  assert.equal(creatureDisplayName("ash harpies"), "Ash Harpy");
+  assert.equal(creatureDisplayName("obsidian wolves"), "Obsidian Wolf");
+  assert.equal(creatureDisplayName("toxin oozes"), "Toxin Ooze");
+  assert.equal(creatureDisplayName("Lantern Wraith"), "Lantern Wraith");
+  assert.equal(creatureRole("snow cultists"), "caster");
+  assert.equal(creatureRole("swamp stalkers"), "skirmisher");
+  assert.equal(creatureRole("pale giants"), "brute");
+});
+
+test("encounters are deterministic and drawn from the region's pool", () => {
+  const plan = composeEncounter(request({}));
+  assert.deepEqual(composeEncounter(request({})), plan);
+  assert.equal(plan.pool, "biome");
+  for (const slot of plan.slots.filter((entry) => entry.rank === "standard")) {
+    assert.ok(POOLS.byBiome.region_1!.includes(slot.creature));
+  }
+  assert.equal(composeEncounter(request({ regionId: "region_9" })).pool, "global");
+  const themed = composeEncounter(request({ pools: null, themeHint: "crypt" }));
+  assert.equal(themed.pool, "theme");
+  assert.ok(themed.slots.every((slot) => slot.name.length > 0));
+});
+
+test("group size follows the party and lethality, and groups of three mix every role", () => {
+  for (let seed = 1; seed <= 40; seed += 1) {
+    const low = composeEncounter(request({ seed, lethality: "low" }));
+    const brutal = composeEncounter(request({ seed, partySize: 3, lethality: "brutal" }));
+    assert.ok(low.slots.length >= 1 && low.slots.length <= 2);
+    assert.ok(brutal.slots.length >= 5 && brutal.slots.length <= MAX_ENCOUNTER_SIZE);
+    assert.deepEqual(new Set(brutal.slots.slice(0, 3).map((slot) => slot.role)).size, 3);
+    assert.ok(low.slots.every((slot) => slot.lvl >= 3 && slot.lvl <= 5 + 2));
+    assert.ok(brutal.slots.filter((slot) => slot.rank === "elite").length <= Math.floor(brutal.slots.length / 2));
+  }
+});
+
+test("boss rooms field a tougher, titled boss that quests still recognize", () => {
+  const plan = composeEncounter(request({ bossRoom: true }));
+  const boss = plan.slots[0]!;
+  assert.equal(boss.rank, "boss");
+  assert.ok(POOLS.byThreatTier.high.includes(boss.creature));
+  assert.ok(boss.lvl >= 5 + 1);
+  assert.ok(boss.hp_mult > 1.5);
+  assert.equal(creatureFamily(boss.name), creatureFamily(creatureDisplayName(boss.creature)));
+  assert.equal(plan.slots.filter((slot) => slot.rank === "boss").length, 1);
+});
+
+test("contracts hunt the same creatures encounters can field", () => {
+  const names = encounterCreatureNames(POOLS);
+  assert.ok(names.includes("Frost Hound"));
+  assert.ok(names.includes("Ancient Titan"));
+  assert.equal(new Set(names).size, names.length);
+  assert.deepEqual(encounterCreatureNames(null, "crypt").length, 5);
+});
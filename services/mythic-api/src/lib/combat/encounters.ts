@@ -0,0 +1,191 @@
+import { clampInt, rng01, rngInt, rngPick, weightedPick } from "../../shared/mythic_rng.js";
+import type { CreaturePools, LethalityLevel } from "../worldforge/schema.js";
+import { enemyNamePool } from "./bestiary.js";
+
+// Encounter tables: enemy groups composed from the campaign's worldforge creature pools. Every roll is keyed
+// off the combat seed, so the same fight always rebuilds the same group.
+
+export const ENCOUNTER_TABLE_VERSION = "encounter-table.v1";
+export const MAX_ENCOUNTER_SIZE = 6;
+export const ENCOUNTER_ROLES = ["brute", "skirmisher", "caster"] as const;
+export type EncounterRole = (typeof ENCOUNTER_ROLES)[number];
+export type EncounterRank = "standard" | "elite" | "boss";
+export type EncounterStat = "offense" | "defense" | "control" | "support" | "mobility" | "utility";
+
+interface LethalityBand {
+  /** Enemies on top of one per party member. */
+  extra: [number, number];
+  /** Enemy level offset from the party's level. */
+  levels: [number, number];
+  elite: number;
+  boss: number;
+}
+
+export const LETHALITY_BANDS: Record<LethalityLevel, LethalityBand> = {
+  low: { extra: [0, 1], levels: [-2, 0], elite: 0.05, boss: 0 },
+  medium: { extra: [1, 3], levels: [-1, 1], elite: 0.12, boss: 0.03 },
+  high: { extra: [2, 3], levels: [0, 2], elite: 0.2, boss: 0.06 },
+  brutal: { extra: [2, 4], levels: [1, 3], elite: 0.3, boss: 0.1 },
+};
+
+const ROLE_WEIGHTS: Record<EncounterRole, number> = { brute: 3, skirmisher: 3, caster: 2 };
+
+export const ROLE_PROFILES: Record<EncounterRole, { stats: Partial<Record<EncounterStat, number>>; hp: number }> = {
+  brute: { stats: { offense: 5, defense: 10, mobility: -8 }, hp: 1.15 },
+  skirmisher: { stats: { offense: 6, defense: -6, mobility: 12 }, hp: 0.9 },
+  caster: { stats: { defense: -8, control: 12, utility: 8 }, hp: 0.85 },
+};
+
+export const RANK_PROFILES: Record<EncounterRank, { stat: number; hp: number; level: number }> = {
+  standard: { stat: 0, hp: 1, level: 0 },
+  elite: { stat: 8, hp: 1.5, level: 1 },
+  boss: { stat: 15, hp: 2.4, level: 2 },
+};
+
+// Titles go in front: quests and contracts read a creature's family from the last word of its name.
+const BOSS_TITLES = ["Alpha", "Tyrant", "Warlord", "Matriarch", "Elder"] as const;
+
+const CASTER_PATTERN = /(mage|witch|hag|cultist|shaman|priest|apostle|monk|spirit|sprite|shade|wraith|angel|imp\b|imps\b|elemental|mechanic|oracle|sorcer|warlock|choir|specter|spectre|revenant)/;
+const SKIRMISHER_PATTERN = /(hound|wol(f|ves)|fox|cat\b|cats\b|kitty|ninja|assassin|stalker|rogue|raider|bandit|corsair|ranger|bats?\b|crow|harp(y|ies)|serpent|spider|drone|scout|killer|duelist|lurker|marauder)/;
+
+export interface EncounterRequest {
+  seed: number;
+  partySize: number;
+  partyLevel: number;
+  lethality?: LethalityLevel | null;
+  pools?: CreaturePools | null;
+  regionId?: string | null;
+  /** Falls back to the themed bestiary when the campaign has no creature pools. */
+  themeHint?: string;
+  /** Boss rooms always field a boss. */
+  bossRoom?: boolean;
+}
+
+export interface EncounterSlot {
+  creature: string;
+  name: string;
+  role: EncounterRole;
+  rank: EncounterRank;
+  lvl: number;
+  stats: Record<EncounterStat, number>;
+  hp_mult: number;
+}
+
+export interface EncounterPlan {
+  version: typeof ENCOUNTER_TABLE_VERSION;
+  lethality: LethalityLevel;
+  pool: "biome" | "global" | "theme";
+  region_id: string | null;
+  slots: EncounterSlot[];
+}
+
+export function creatureRole(creature: string): EncounterRole {
+  const lower = creature.toLowerCase();
+  if (CASTER_PATTERN.test(lower)) return "caster";
+  if (SKIRMISHER_PATTERN.test(lower)) return "skirmisher";
+  return "brute";
+}
+
+function singular(word: string): string {
+  if (/ies$/.test(word)) return `${word.slice(0, -3)}y`;
+  if (/lves$/.test(word)) return `${word.slice(0, -3)}f`;
+  if (/(ch|sh|ss|x)es$/.test(word)) return word.slice(0, -2);
+  if (/(ss|us)$/.test(word)) return word;
+  return word.endsWith("s") ? word.slice(0, -1) : word;
+}
+
+/** Pool entries are plural families ("frost hounds"); combatants are one of them ("Frost Hound"). */
+export function creatureDisplayName(creature: string): string {
+  const words = creature.trim().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return "Creature";
+  words[words.length - 1] = singular(words[words.length - 1]!);
+  return words.map((word) => `${word.charAt(0).toUpperCase()}${word.slice(1)}`).join(" ");
+}
+
+function encounterPool(request: EncounterRequest): Pick<EncounterPlan, "pool" | "region_id"> & { creatures: string[] } {
+  const pools = request.pools;
+  const regionId = request.regionId && pools?.byBiome[request.regionId]?.length ? request.regionId : null;
+  if (pools && regionId) return { pool: "biome", region_id: regionId, creatures: pools.byBiome[regionId]! };
+  if (pools && pools.globalPool.length > 0) return { pool: "global", region_id: null, creatures: pools.globalPool };
+  return { pool: "theme", region_id: null, creatures: enemyNamePool(request.themeHint ?? "") };
+}
+
+/** Every creature an encounter in this world can field, as combatant names. Contracts hunt from the same list. */
+export function encounterCreatureNames(pools: CreaturePools | null | undefined, themeHint = ""): string[] {
+  if (!pools || pools.globalPool.length === 0) return enemyNamePool(themeHint);
+  const creatures = [...pools.globalPool, ...Object.values(pools.byBiome).flat(), ...pools.byThreatTier.medium, ...pools.byThreatTier.high];
+  return [...new Set(creatures.map(creatureDisplayName))];
+}
+
+function rankCandidates(request: EncounterRequest, rank: EncounterRank, creatures: string[]): string[] {
+  const tiers = request.pools?.byThreatTier;
+  if (!tiers || rank === "standard") return creatures;
+  const tiered = rank === "boss" ? tiers.high : [...tiers.medium, ...tiers.high];
+  return tiered.length > 0 ? tiered : creatures;
+}
+
+/**
+ * The first three slots cover every role once, in a seeded order, so groups of three or more always mix
+ * front line, flankers and casters. Later slots draw roles by weight.
+ */
+function slotRoles(seed: number, size: number): EncounterRole[] {
+  const rotation = rngInt(seed, "encounter:roles", 0, ENCOUNTER_ROLES.length - 1);
+  return Array.from({ length: size }, (_, index) => index < ENCOUNTER_ROLES.length
+    ? ENCOUNTER_ROLES[(index + rotation) % ENCOUNTER_ROLES.length]!
+    : weightedPick(seed, `encounter:role:${index}`, ENCOUNTER_ROLES.map((role) => ({ item: role, weight: ROLE_WEIGHTS[role] }))));
+}
+
+export function composeEncounter(request: EncounterRequest): EncounterPlan {
+  const { seed } = request;
+  const lethality = request.lethality ?? "medium";
+  const band = LETHALITY_BANDS[lethality];
+  const partySize = clampInt(request.partySize, 1, MAX_ENCOUNTER_SIZE);
+  const size = clampInt(partySize + rngInt(seed, "encounter:size", band.extra[0], band.extra[1]), 1, MAX_ENCOUNTER_SIZE);
+  const source = encounterPool(request);
+  const roles = slotRoles(seed, size);
+  const hasBoss = request.bossRoom === true || rng01(seed, "encounter:boss") < band.boss;
+  let elites = 0;
+
+  const slots = roles.map((role, index): EncounterSlot => {
+    const rank: EncounterRank = index === 0 && hasBoss
+      ? "boss"
+      : elites < Math.floor(size / 2) && rng01(seed, `encounter:elite:${index}`) < band.elite
+        ? "elite"
+        : "standard";
+    if (rank === "elite") elites += 1;
+    const candidates = rankCandidates(request, rank, source.creatures);
+    const fitting = candidates.filter((creature) => creatureRole(creature) === role);
+    const creature = rngPick(seed, `encounter:creature:${index}`, fitting.length > 0 ? fitting : candidates);
+    const display = creatureDisplayName(creature);
+    const profile = ROLE_PROFILES[role];
+    const rankProfile = RANK_PROFILES[rank];
+    const stats = {} as Record<EncounterStat, number>;
+    for (const stat of ["offense", "defense", "control", "support", "mobility", "utility"] as const) {
+      stats[stat] = (profile.stats[stat] ?? 0) + rankProfile.stat;
+    }
+    return {
+      creature,
+      name: rank === "boss"
+        ? `${rngPick(seed, `encounter:title:${index}`, BOSS_TITLES)} ${display}`
+        : rank === "elite" ? `Elite ${display}` : display,
+      role,
+      rank,
+      lvl: clampInt(request.partyLevel + rngInt(seed, `encounter:level:${index}`, band.levels[0], band.levels[1]) + rankProfile.level, 1, 99),
+      stats,
+      hp_mult: Number((profile.hp * rankProfile.hp).toFixed(2)),
+    };
+  });
+
+  return { version: ENCOUNTER_TABLE_VERSION, lethality, pool: source.pool, region_id: source.region_id, slots };
+}
+
+/** What the combat scene keeps about how its enemies were drawn. */
+export function encounterSummary(plan: EncounterPlan) {
+  return {
+    version: plan.version,
+    lethality: plan.lethality,
+    pool: plan.pool,
+    region_id: plan.region_id,
+    slots: plan.slots.map((slot) => ({ name: slot.name, creature: slot.creature, role: slot.role, rank: slot.rank, lvl: slot.lvl })),
+  };
+}
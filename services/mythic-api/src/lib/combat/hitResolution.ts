@@ -17,6 +17,8 @@ export type HitResolutionInput = {
   label: string;
   attacker: CombatantHitProfile;
   defender: CombatantHitProfile;
+  // Weather and darkness shift everyone's aim alike; see lib/environment/worldClock.ts.
+  environmentAccuracy?: number;
 };
 
 export type HitResolutionResult = {
@@ -85,7 +87,7 @@ export function resolveDeterministicHit(args: HitResolutionInput): HitResolution
     rooted: -10,
   });
 
-  const atkScore = offenseScore(args.attacker, attackerAimBonus);
+  const atkScore = offenseScore(args.attacker, attackerAimBonus + (args.environmentAccuracy ?? 0));
   const defScore = defenseScore(args.defender, defenderEvadeBonus);
   const rawChance = 0.58 + ((atkScore - defScore) / 140);
   const clampedChance = clampNumber(rawChance, 0.20, 0.92);
@@ -0,0 +1,183 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import {
+  findGridPath,
+  gridKey,
+  manhattan,
+  planApproach,
+  planRetreat,
+  reachableGridTiles,
+  telegraphedZones,
+  type GridPoint,
+  type PathGrid,
+} from "./pathfinding.js";
+
+const tie = { seed: 42, label: "test" };
+
+function grid(patch: Partial<PathGrid> & { width: number; height: number }): PathGrid {
+  return { blocked: new Set(), occupied: new Set(), ...patch };
+}
+
+function assertContiguous(path: GridPoint[], blocked: Set<string>) {
+  for (let i = 1; i < path.length; i += 1) {
+    assert.equal(manhattan(path[i - 1]!, path[i]!), 1);
+    assert.equal(blocked.has(gridKey(path[i]!)), false);
+  }
+}
+
+test("findGridPath routes around a wall through its only gap", () => {
+  const blocked = new Set(["3,0", "3,1", "3,2", "3,3"]);
+  const path = findGridPath(grid({ width: 7, height: 5, blocked }), { x: 1, y: 1 }, { x: 5, y: 1 }, tie);
+  assert.ok(path);
+  assert.deepEqual(path[0], { x: 1, y: 1 });
+  assert.deepEqual(path[path.length - 1], { x: 5, y: 1 });
+  assert.equal(path.length - 1, 10);
+  assert.ok(path.some((point) => point.x === 3 && point.y === 4));
+  assertContiguous(path, blocked);
+
+  const sealed = new Set([...blocked, "3,4"]);
+  assert.equal(findGridPath(grid({ width: 7, height: 5, blocked: sealed }), { x: 1, y: 1 }, { x: 5, y: 1 }, tie), null);
+});
+
+test("reachable tiles respect the budget and skip occupied tiles", () => {
+  const occupied = new Set(["2,2"]);
+  const reachable = reachableGridTiles(grid({ width: 5, height: 5, occupied }), { x: 2, y: 1 }, 2);
+  assert.equal(reachable.has("2,2"), false);
+  assert.equal(reachable.has("2,3"), false);
+  for (const entry of reachable.values()) {
+    assert.ok(entry.path.length - 1 <= 2);
+    assert.equal(entry.path.some((point) => occupied.has(gridKey(point))), false);
+  }
+
+  const plan = planApproach({
+    grid: grid({ width: 12, height: 3, occupied: new Set(["10,1"]) }),
+    start: { x: 0, y: 1 },
+    target: { x: 10, y: 1 },
+    range: 1,
+    budget: 3,
+    teammates: [],
+    tie,
+  });
+  assert.ok(plan);
+  assert.equal(plan.steps, 3);
+  assert.equal(plan.flanking, false);
+  assert.equal(manhattan(plan.to, { x: 10, y: 1 }), 7);
+});
+
+test("planApproach prefers the tile opposite an engaged teammate", () => {
+  const plan = planApproach({
+    grid: grid({ width: 8, height: 7, occupied: new Set(["4,2", "5,2"]) }),
+    start: { x: 5, y: 5 },
+    target: { x: 5, y: 2 },
+    range: 1,
+    budget: 4,
+    teammates: [{ x: 4, y: 2 }],
+    tie,
+  });
+  assert.ok(plan);
+  assert.deepEqual(plan.to, { x: 6, y: 2 });
+  assert.equal(plan.flanking, true);
+  assertContiguous(plan.path, new Set());
+});
+
+test("danger zones are avoided when a clear tile exists and never chosen as a stopping point", () => {
+  const danger = new Map([["5,3", 6]]);
+  const plan = planApproach({
+    grid: grid({ width: 8, height: 7, occupied: new Set(["5,2"]), danger }),
+    start: { x: 5, y: 5 },
+    target: { x: 5, y: 2 },
+    range: 1,
+    budget: 4,
+    teammates: [],
+    tie,
+  });
+  assert.ok(plan);
+  assert.notDeepEqual(plan.to, { x: 5, y: 3 });
+  assert.equal(plan.path.some((point) => gridKey(point) === "5,3"), false);
+
+  const corridor = planApproach({
+    grid: grid({ width: 10, height: 1, danger: new Map([["3,0", 4]]) }),
+    start: { x: 0, y: 0 },
+    target: { x: 9, y: 0 },
+    range: 1,
+    budget: 3,
+    teammates: [],
+    tie,
+  });
+  assert.ok(corridor);
+  assert.deepEqual(corridor.to, { x: 2, y: 0 });
+});
+
+test("kiting keeps a minimum range, leashes hold guards near their ward and retreats open distance", () => {
+  const open = grid({ width: 10, height: 5, occupied: new Set(["4,2"]) });
+  const kite = planApproach({
+    grid: open,
+    start: { x: 5, y: 2 },
+    target: { x: 4, y: 2 },
+    range: 4,
+    minRange: 3,
+    budget: 3,
+    teammates: [],
+    tie,
+  });
+  assert.ok(kite);
+  const kiteDistance = manhattan(kite.to, { x: 4, y: 2 });
+  assert.ok(kiteDistance >= 3 && kiteDistance <= 4);
+
+  const leashed = planApproach({
+    grid: grid({ width: 12, height: 3 }),
+    start: { x: 1, y: 1 },
+    target: { x: 10, y: 1 },
+    range: 1,
+    budget: 6,
+    teammates: [],
+    leash: { anchor: { x: 1, y: 1 }, radius: 2 },
+    tie,
+  });
+  assert.ok(leashed);
+  assert.deepEqual(leashed.to, { x: 3, y: 1 });
+
+  const retreat = planRetreat({
+    grid: grid({ width: 10, height: 5, danger: new Map([["9,2", 4]]) }),
+    start: { x: 6, y: 2 },
+    threats: [{ x: 4, y: 2 }],
+    budget: 3,
+    tie,
+  });
+  assert.ok(retreat);
+  assert.equal(manhattan(retreat.to, { x: 4, y: 2 }), 5);
+  assert.notDeepEqual(retreat.to, { x: 9, y: 2 });
+  assert.equal(planRetreat({ grid: open, start: { x: 0, y: 0 }, threats: [], budget: 2, tie }), null);
+});
+
+test("seeded tie-breaks make identical boards resolve identically", () => {
+  const open = grid({ width: 10, height: 10 });
+  const first = findGridPath(open, { x: 0, y: 0 }, { x: 6, y: 6 }, { seed: 7, label: "tick:3:path:a" });
+  const again = findGridPath(open, { x: 0, y: 0 }, { x: 6, y: 6 }, { seed: 7, label: "tick:3:path:a" });
+  assert.deepEqual(first, again);
+  assert.equal(first!.length - 1, 12);
+
+  const variants = new Set<string>();
+  for (let seed = 1; seed <= 12; seed += 1) {
+    const path = findGridPath(open, { x: 0, y: 0 }, { x: 6, y: 6 }, { seed, label: "tick:3:path:a" });
+    variants.add(path!.map(gridKey).join("|"));
+  }
+  assert.ok(variants.size > 1);
+});
+
+test("telegraphedZones marks area casts from the opposing side in the last round", () => {
+  const zones = telegraphedZones({
+    events: [
+      { actor_combatant_id: "enemy", turn_index: 5, payload: { shape: "area", radius: 1, target: { kind: "tile", x: 3, y: 3 } } },
+      { actor_combatant_id: "enemy", turn_index: 5, payload: { targeting: "single", target: { x: 8, y: 8 } } },
+      { actor_combatant_id: "enemy", turn_index: 1, payload: { shape: "area", radius: 2, target: { x: 0, y: 0 } } },
+      { actor_combatant_id: "friend", turn_index: 5, payload: { shape: "area", radius: 1, target: { x: 6, y: 6 } } },
+    ],
+    casterIds: new Set(["enemy"]),
+    sinceTurn: 3,
+    width: 10,
+    height: 10,
+  });
+  assert.deepEqual([...zones].sort(), ["2,3", "3,2", "3,3", "3,4", "4,3"]);
+});
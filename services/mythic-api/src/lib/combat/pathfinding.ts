@@ -0,0 +1,363 @@
+import { rng01 } from "../../shared/mythic_rng.js";
+
+export interface GridPoint {
+  x: number;
+  y: number;
+}
+
+export interface PathGrid {
+  width: number;
+  height: number;
+  blocked: Set<string>;
+  occupied: Set<string>;
+  // Extra cost for standing on or walking through a tile (hazards, telegraphed blasts).
+  danger?: Map<string, number>;
+}
+
+export interface PathTieBreak {
+  seed: number;
+  label: string;
+}
+
+export interface ApproachPlan {
+  to: GridPoint;
+  path: GridPoint[];
+  steps: number;
+  flanking: boolean;
+}
+
+export interface PathLeash {
+  anchor: GridPoint;
+  radius: number;
+}
+
+export interface TelegraphEvent {
+  actor_combatant_id: string | null;
+  turn_index: number;
+  payload: unknown;
+}
+
+const AREA_TARGETING = new Set(["area", "cone", "line", "blast", "aoe"]);
+const FLANK_BONUS = 3;
+
+export function gridKey(point: GridPoint): string {
+  return `${point.x},${point.y}`;
+}
+
+export function manhattan(a: GridPoint, b: GridPoint): number {
+  return Math.abs(a.x - b.x) + Math.abs(a.y - b.y);
+}
+
+function inGrid(grid: PathGrid, point: GridPoint): boolean {
+  return point.x >= 0 && point.y >= 0 && point.x < grid.width && point.y < grid.height;
+}
+
+function walkable(grid: PathGrid, point: GridPoint): boolean {
+  const key = gridKey(point);
+  return inGrid(grid, point) && !grid.blocked.has(key) && !grid.occupied.has(key);
+}
+
+function dangerAt(grid: PathGrid, point: GridPoint): number {
+  return grid.danger?.get(gridKey(point)) ?? 0;
+}
+
+function neighbors(point: GridPoint): GridPoint[] {
+  return [
+    { x: point.x + 1, y: point.y },
+    { x: point.x - 1, y: point.y },
+    { x: point.x, y: point.y + 1 },
+    { x: point.x, y: point.y - 1 },
+  ];
+}
+
+// Seeded jitter only decides between otherwise equal options, so replays with the same seed walk the same tiles.
+function tieBreak(tie: PathTieBreak, point: GridPoint): number {
+  return rng01(tie.seed, `${tie.label}:${gridKey(point)}`);
+}
+
+interface SearchNode {
+  point: GridPoint;
+  g: number;
+  f: number;
+  h: number;
+  steps: number;
+  jitter: number;
+  parent: string | null;
+}
+
+function rebuildPath(nodes: Map<string, SearchNode>, endKey: string): GridPoint[] {
+  const path: GridPoint[] = [];
+  let cursor: string | null = endKey;
+  while (cursor) {
+    const node: SearchNode = nodes.get(cursor)!;
+    path.unshift(node.point);
+    cursor = node.parent;
+  }
+  return path;
+}
+
+function popBest(open: Map<string, SearchNode>): [string, SearchNode] {
+  let bestKey = "";
+  let best: SearchNode | null = null;
+  for (const [key, node] of open) {
+    if (
+      !best
+      || node.f < best.f
+      || (node.f === best.f && node.h < best.h)
+      || (node.f === best.f && node.h === best.h && node.jitter < best.jitter)
+    ) {
+      bestKey = key;
+      best = node;
+    }
+  }
+  return [bestKey, best!];
+}
+
+/**
+ * A* from `start` to the nearest standable tile within `range` of `target`.
+ * The start tile is always allowed even when it is listed as occupied.
+ */
+export function findGridPath(
+  grid: PathGrid,
+  start: GridPoint,
+  target: GridPoint,
+  tie: PathTieBreak,
+  range = 0,
+): GridPoint[] | null {
+  const heuristic = (point: GridPoint) => Math.max(0, manhattan(point, target) - range);
+  const startKey = gridKey(start);
+  const nodes = new Map<string, SearchNode>();
+  const open = new Map<string, SearchNode>();
+  const closed = new Set<string>();
+  const startNode: SearchNode = {
+    point: start,
+    g: 0,
+    h: heuristic(start),
+    f: heuristic(start),
+    steps: 0,
+    jitter: tieBreak(tie, start),
+    parent: null,
+  };
+  nodes.set(startKey, startNode);
+  open.set(startKey, startNode);
+
+  while (open.size > 0) {
+    const [currentKey, current] = popBest(open);
+    open.delete(currentKey);
+    if (current.h === 0) return rebuildPath(nodes, currentKey);
+    closed.add(currentKey);
+
+    for (const next of neighbors(current.point)) {
+      const nextKey = gridKey(next);
+      if (closed.has(nextKey) || !walkable(grid, next)) continue;
+      const g = current.g + 1 + dangerAt(grid, next);
+      const known = open.get(nextKey);
+      if (known && known.g <= g) continue;
+      const h = heuristic(next);
+      const node: SearchNode = {
+        point: next,
+        g,
+        h,
+        f: g + h,
+        steps: current.steps + 1,
+        jitter: tieBreak(tie, next),
+        parent: currentKey,
+      };
+      nodes.set(nextKey, node);
+      open.set(nextKey, node);
+    }
+  }
+  return null;
+}
+
+/** Every tile reachable within `budget` steps, keyed by tile, with the cheapest danger-weighted route to it. */
+export function reachableGridTiles(
+  grid: PathGrid,
+  start: GridPoint,
+  budget: number,
+): Map<string, { point: GridPoint; cost: number; path: GridPoint[] }> {
+  const maxSteps = Math.max(0, Math.floor(budget));
+  const out = new Map<string, { point: GridPoint; cost: number; path: GridPoint[] }>();
+  out.set(gridKey(start), { point: start, cost: 0, path: [start] });
+  let frontier = [start];
+  for (let step = 0; step < maxSteps && frontier.length > 0; step += 1) {
+    const nextFrontier: GridPoint[] = [];
+    for (const point of frontier) {
+      const from = out.get(gridKey(point))!;
+      for (const next of neighbors(point)) {
+        if (!walkable(grid, next)) continue;
+        const key = gridKey(next);
+        const cost = from.cost + 1 + dangerAt(grid, next);
+        const known = out.get(key);
+        if (known && known.cost <= cost) continue;
+        if (!known) nextFrontier.push(next);
+        out.set(key, { point: next, cost, path: [...from.path, next] });
+      }
+    }
+    frontier = nextFrontier;
+  }
+  return out;
+}
+
+// A tile flanks when a teammate already pressures the target from the opposite side.
+function isFlankingTile(tile: GridPoint, target: GridPoint, teammates: GridPoint[]): boolean {
+  const dx = Math.sign(tile.x - target.x);
+  const dy = Math.sign(tile.y - target.y);
+  if (dx === 0 && dy === 0) return false;
+  return teammates.some((mate) => {
+    if (manhattan(mate, target) > 1) return false;
+    const mx = Math.sign(mate.x - target.x);
+    const my = Math.sign(mate.y - target.y);
+    return dx * mx + dy * my < 0;
+  });
+}
+
+function truncatePath(grid: PathGrid, path: GridPoint[], budget: number): GridPoint[] {
+  const limit = Math.min(path.length - 1, Math.max(0, Math.floor(budget)));
+  let end = limit;
+  // Do not stop mid-route inside a danger zone when an earlier tile on the same route is clear.
+  while (end > 0 && dangerAt(grid, path[end]!) > 0) end -= 1;
+  return path.slice(0, (end > 0 ? end : limit) + 1);
+}
+
+// Distance outside the [minRange, range] band; zero when the tile is already a valid attack position.
+function bandGap(distance: number, minRange: number, range: number): number {
+  if (distance > range) return distance - range;
+  if (distance < minRange) return minRange - distance;
+  return 0;
+}
+
+/**
+ * Chooses where a unit should stand this turn: a clear flanking tile within range when one is reachable,
+ * otherwise the furthest safe tile along the A* route toward the target. `minRange` keeps kiting units
+ * out of melee and `leash` keeps guards within reach of their ward.
+ */
+export function planApproach(args: {
+  grid: PathGrid;
+  start: GridPoint;
+  target: GridPoint;
+  range: number;
+  minRange?: number;
+  budget: number;
+  teammates: GridPoint[];
+  leash?: PathLeash | null;
+  tie: PathTieBreak;
+}): ApproachPlan | null {
+  const minRange = Math.max(0, Math.min(args.range, args.minRange ?? 0));
+  const leash = args.leash ?? null;
+  const reachable = [...reachableGridTiles(args.grid, args.start, args.budget).values()]
+    .filter((entry) => !leash || manhattan(entry.point, leash.anchor) <= leash.radius);
+  const inRange = reachable.filter((entry) => bandGap(manhattan(entry.point, args.target), minRange, args.range) === 0);
+  if (inRange.length > 0) {
+    const scored = inRange.map((entry) => {
+      const flanking = isFlankingTile(entry.point, args.target, args.teammates);
+      return {
+        entry,
+        flanking,
+        score: dangerAt(args.grid, entry.point) * 10 + entry.cost - (flanking ? FLANK_BONUS : 0),
+        jitter: tieBreak(args.tie, entry.point),
+      };
+    });
+    scored.sort((left, right) => left.score - right.score || left.jitter - right.jitter);
+    const best = scored[0]!;
+    return {
+      to: best.entry.point,
+      path: best.entry.path,
+      steps: best.entry.path.length - 1,
+      flanking: best.flanking,
+    };
+  }
+
+  if (!leash && manhattan(args.start, args.target) > args.range) {
+    const route = findGridPath(args.grid, args.start, args.target, args.tie, args.range);
+    if (!route || route.length <= 1) return null;
+    const path = truncatePath(args.grid, route, args.budget);
+    return {
+      to: path[path.length - 1]!,
+      path,
+      steps: path.length - 1,
+      flanking: false,
+    };
+  }
+
+  // Leashed or too close: settle for the reachable tile that gets nearest the attack band.
+  const closest = reachable
+    .map((entry) => ({
+      entry,
+      gap: bandGap(manhattan(entry.point, args.target), minRange, args.range),
+      score: dangerAt(args.grid, entry.point) * 10 + entry.cost,
+      jitter: tieBreak(args.tie, entry.point),
+    }))
+    .sort((left, right) => left.gap - right.gap || left.score - right.score || left.jitter - right.jitter)[0];
+  if (!closest || closest.entry.path.length <= 1) return null;
+  return {
+    to: closest.entry.point,
+    path: closest.entry.path,
+    steps: closest.entry.path.length - 1,
+    flanking: false,
+  };
+}
+
+/** Furthest reachable tile from every threat, preferring clear ground; null when staying put is already best. */
+export function planRetreat(args: {
+  grid: PathGrid;
+  start: GridPoint;
+  threats: GridPoint[];
+  budget: number;
+  tie: PathTieBreak;
+}): ApproachPlan | null {
+  if (args.threats.length === 0) return null;
+  const nearestThreat = (point: GridPoint) => Math.min(...args.threats.map((threat) => manhattan(point, threat)));
+  const best = [...reachableGridTiles(args.grid, args.start, args.budget).values()]
+    .map((entry) => ({
+      entry,
+      distance: nearestThreat(entry.point),
+      danger: dangerAt(args.grid, entry.point),
+      jitter: tieBreak(args.tie, entry.point),
+    }))
+    .sort((left, right) =>
+      left.danger - right.danger
+      || right.distance - left.distance
+      || left.entry.cost - right.entry.cost
+      || left.jitter - right.jitter)[0];
+  if (!best || best.entry.path.length <= 1) return null;
+  return {
+    to: best.entry.point,
+    path: best.entry.path,
+    steps: best.entry.path.length - 1,
+    flanking: false,
+  };
+}
+
+/**
+ * Blast footprints from area skills the other side used during the last round. Units treat those tiles
+ * as telegraphed: the caster is likely to drop the same blast again next turn.
+ */
+export function telegraphedZones(args: {
+  events: TelegraphEvent[];
+  casterIds: Set<string>;
+  sinceTurn: number;
+  width: number;
+  height: number;
+}): Set<string> {
+  const zones = new Set<string>();
+  for (const event of args.events) {
+    if (!event.actor_combatant_id || !args.casterIds.has(event.actor_combatant_id)) continue;
+    if (event.turn_index < args.sinceTurn) continue;
+    const payload = event.payload && typeof event.payload === "object" ? event.payload as Record<string, unknown> : {};
+    if (!AREA_TARGETING.has(String(payload.shape ?? payload.targeting ?? "").toLowerCase())) continue;
+    const target = payload.target && typeof payload.target === "object" ? payload.target as Record<string, unknown> : {};
+    const cx = Math.floor(Number(target.x));
+    const cy = Math.floor(Number(target.y));
+    if (!Number.isFinite(cx) || !Number.isFinite(cy)) continue;
+    const radius = Math.max(1, Math.min(4, Math.floor(Number(payload.radius ?? 1)) || 1));
+    for (let y = cy - radius; y <= cy + radius; y += 1) {
+      for (let x = cx - radius; x <= cx + radius; x += 1) {
+        if (x < 0 || y < 0 || x >= args.width || y >= args.height) continue;
+        if (Math.abs(x - cx) + Math.abs(y - cy) > radius) continue;
+        zones.add(`${x},${y}`);
+      }
+    }
+  }
+  return zones;
+}
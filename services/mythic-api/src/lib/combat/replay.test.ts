@@ -0,0 +1,196 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import { rng01 } from "../../shared/mythic_rng.js";
+import { computeDamageRoll, sqlRng01 } from "./damageRoll.js";
+import { resolveDeterministicHit } from "./hitResolution.js";
+import { buildRollAudit, replayCombatLog, type ReplayCombatant, type ReplayEvent } from "./replay.js";
+
+const SEED = 90210;
+
+function combatant(id: string, patch: Partial<ReplayCombatant> = {}): ReplayCombatant {
+  return {
+    id,
+    name: id,
+    entity_type: "npc",
+    hp: 120,
+    hp_max: 120,
+    armor: 0,
+    power: 0,
+    x: 0,
+    y: 0,
+    is_alive: true,
+    lvl: 4,
+    offense: 40,
+    defense: 20,
+    mobility: 30,
+    utility: 25,
+    weapon_power: 6,
+    resist: 10,
+    ...patch,
+  };
+}
+
+// Plays attacks the way combat-tick does and records the log it would have written.
+function simulate(
+  initial: ReplayCombatant[],
+  swings: Array<{ turn: number; from: string; to: string }>,
+  environmentAccuracy = 0,
+) {
+  const state = new Map(initial.map((c) => [c.id, { ...c }]));
+  const events: ReplayEvent[] = [];
+  for (const swing of swings) {
+    const attacker = state.get(swing.from)!;
+    const target = state.get(swing.to)!;
+    const damageLabel = `tick:s:turn:${swing.turn}:actor:${attacker.id}:target:${target.id}`;
+    const audit = buildRollAudit({
+      hitLabel: `${damageLabel}:hit`,
+      damageLabel,
+      skillMult: 1.1,
+      spreadPct: 0.1,
+      environmentAccuracy,
+      attacker: { ...attacker, statuses: [{ id: "focused" }] },
+      defender: { ...target, statuses: [] },
+    });
+    events.push({ id: `e${events.length}`, turn_index: swing.turn, actor_combatant_id: attacker.id, event_type: "skill_used", payload: { skill_id: "basic_attack" } });
+    const hit = resolveDeterministicHit({
+      seed: SEED,
+      label: audit.hit_label,
+      attacker: { ...attacker, statuses: [{ id: "focused" }] },
+      defender: { ...target, statuses: [] },
+      environmentAccuracy,
+    });
+    if (!hit.hit) {
+      events.push({
+        id: `e${events.length}`,
+        turn_index: swing.turn,
+        actor_combatant_id: attacker.id,
+        event_type: "miss",
+        payload: { source_combatant_id: attacker.id, target_combatant_id: target.id, roll_d20: hit.rollD20, required_roll: hit.requiredRoll, audit },
+      });
+      continue;
+    }
+    const roll = computeDamageRoll({
+      seed: SEED,
+      label: damageLabel,
+      lvl: attacker.lvl,
+      offense: attacker.offense,
+      mobility: attacker.mobility,
+      utility: attacker.utility,
+      weaponPower: attacker.weapon_power,
+      skillMult: 1.1,
+      resist: target.resist,
+    });
+    const absorbed = Math.min(target.armor, roll.final_damage);
+    const toHp = roll.final_damage - absorbed;
+    target.armor -= absorbed;
+    target.hp = Math.max(0, target.hp - toHp);
+    target.is_alive = target.hp > 0;
+    events.push({
+      id: `e${events.length}`,
+      turn_index: swing.turn,
+      actor_combatant_id: attacker.id,
+      event_type: "damage",
+      payload: {
+        source_combatant_id: attacker.id,
+        target_combatant_id: target.id,
+        roll,
+        shield_absorbed: absorbed,
+        damage_to_hp: toHp,
+        hp_after: target.hp,
+        armor_after: target.armor,
+        audit,
+      },
+    });
+  }
+  return { events, final: [...state.values()] };
+}
+
+const initial = [combatant("hero", { entity_type: "player", armor: 8, offense: 55 }), combatant("wolf", { x: 3 })];
+const swings = Array.from({ length: 8 }, (_, i) => (i % 2 === 0
+  ? { turn: i, from: "hero", to: "wolf" }
+  : { turn: i, from: "wolf", to: "hero" }));
+
+test("sqlRng01 follows Postgres' signed read of the md5 prefix", () => {
+  let same = 0;
+  let flipped = 0;
+  for (let i = 0; i < 64; i += 1) {
+    const label = `probe:${i}`;
+    if (sqlRng01(7, label) === rng01(7, label)) same += 1;
+    else flipped += 1;
+    assert.ok(sqlRng01(7, label) >= 0 && sqlRng01(7, label) < 1);
+  }
+  assert.ok(same > 0);
+  assert.ok(flipped > 0);
+});
+
+test("a clean log replays with every roll and ledger entry matching", () => {
+  const { events, final } = simulate(initial, swings);
+  const report = replayCombatLog({ seed: SEED, combatants: initial, events, current: final });
+  assert.equal(report.ok, true, JSON.stringify(report.mismatches));
+  assert.equal(report.inputs.length, swings.length);
+  assert.equal(report.checked.hits, swings.length);
+  assert.ok(report.checked.damage_rolls > 0);
+  assert.equal(report.checked.ledger, report.checked.damage_rolls);
+  assert.equal(report.unaudited, 0);
+  assert.deepEqual(
+    report.final_state.map((c) => [c.id, c.hp, c.armor]),
+    final.map((c) => [c.id, c.hp, c.armor]),
+  );
+});
+
+test("tampered rolls and rows are reported once without cascading", () => {
+  const { events, final } = simulate(initial, swings);
+  const firstDamage = events.find((event) => event.event_type === "damage")!;
+  const payload = firstDamage.payload as Record<string, any>;
+  firstDamage.payload = {
+    ...payload,
+    roll: { ...payload.roll, final_damage: payload.roll.final_damage + 50 },
+    damage_to_hp: payload.damage_to_hp + 50,
+    hp_after: Math.max(0, payload.hp_after - 50),
+  };
+  const edited = final.map((c) => (c.id === "wolf" ? { ...c, hp: c.hp + 5 } : c));
+  const report = replayCombatLog({ seed: SEED, combatants: initial, events, current: edited });
+
+  assert.equal(report.ok, false);
+  const fields = report.mismatches.map((m) => `${m.event_type}:${m.field}`);
+  assert.ok(fields.includes("damage:roll.final_damage"));
+  assert.ok(fields.includes("damage:damage_to_hp"));
+  assert.ok(fields.includes("damage:hp_after"));
+  assert.ok(fields.includes("final_state:hp"));
+  const laterHpBefore = report.mismatches.filter((m) => m.field === "hp_before" && m.event_id !== firstDamage.id);
+  assert.ok(laterHpBefore.length <= 1);
+});
+
+test("legacy events without an audit still get ledger checks", () => {
+  const { events, final } = simulate(initial, swings);
+  for (const event of events) {
+    const payload = event.payload as Record<string, unknown>;
+    delete payload.audit;
+  }
+  const report = replayCombatLog({ seed: SEED, combatants: initial, events, current: final });
+  assert.equal(report.ok, true, JSON.stringify(report.mismatches));
+  assert.equal(report.checked.hits, 0);
+  assert.equal(report.unaudited, swings.length);
+  assert.ok(report.checked.ledger > 0);
+
+  const heal: ReplayEvent = { id: "heal", turn_index: 9, actor_combatant_id: "hero", event_type: "healed", payload: { target_combatant_id: "hero", amount: 500, hp_after: 999 } };
+  const healed = replayCombatLog({ seed: SEED, combatants: initial, events: [...events, heal] });
+  assert.deepEqual(healed.mismatches.map((m) => [m.field, m.replayed]), [["hp_after", 120]]);
+});
+
+test("weather and darkness aim shifts replay from the audit", () => {
+  const stormSwings = Array.from({ length: 24 }, (_, i) => ({ turn: i, from: i % 2 === 0 ? "hero" : "wolf", to: i % 2 === 0 ? "wolf" : "hero" }));
+  const { events, final } = simulate(initial, stormSwings, -20);
+  const report = replayCombatLog({ seed: SEED, combatants: initial, events, current: final });
+  assert.equal(report.ok, true, JSON.stringify(report.mismatches));
+  assert.equal(report.checked.hits, stormSwings.length);
+
+  const missing = events.map((event) => {
+    const payload = event.payload as Record<string, any>;
+    if (!payload.audit) return event;
+    return { ...event, payload: { ...payload, audit: { ...payload.audit, environment_accuracy: undefined } } };
+  });
+  const unshifted = replayCombatLog({ seed: SEED, combatants: initial, events: missing });
+  assert.ok(unshifted.mismatches.some((m) => m.field === "hit" || m.field === "required_roll"));
+});
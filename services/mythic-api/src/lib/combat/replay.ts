@@ -0,0 +1,387 @@
+import { computeDamageRoll } from "./damageRoll.js";
+import { resolveDeterministicHit } from "./hitResolution.js";
+
+export const ROLL_AUDIT_VERSION = 1;
+
+export type ReplayCombatant = {
+  id: string;
+  name: string;
+  entity_type: string;
+  hp: number;
+  hp_max: number;
+  armor: number;
+  power: number;
+  x: number;
+  y: number;
+  is_alive: boolean;
+  lvl: number;
+  offense: number;
+  defense: number;
+  mobility: number;
+  utility: number;
+  weapon_power: number;
+  resist: number;
+};
+
+export type ReplayEvent = {
+  id?: string | null;
+  turn_index: number;
+  actor_combatant_id: string | null;
+  event_type: string;
+  payload: unknown;
+};
+
+export type RollAuditSide = {
+  lvl: number;
+  offense: number;
+  defense: number;
+  mobility: number;
+  utility: number;
+  weapon_power: number;
+  resist: number;
+  hp: number;
+  armor: number;
+  statuses: string[];
+};
+
+// Stamped onto miss/damage payloads: the labels and the exact stats each roll consumed.
+export type RollAudit = {
+  v: number;
+  hit_label: string;
+  damage_label: string;
+  skill_mult: number;
+  spread_pct: number;
+  crit_mult_base: number;
+  crit_chance_max: number;
+  // Weather and daylight aim shift applied to the attacker's offense score.
+  environment_accuracy: number;
+  attacker: RollAuditSide;
+  defender: RollAuditSide;
+};
+
+export type ReplayMismatch = {
+  event_id: string | null;
+  turn_index: number;
+  event_type: string;
+  combatant_id: string | null;
+  field: string;
+  stored: unknown;
+  replayed: unknown;
+};
+
+export type ReplayInput = {
+  turn_index: number;
+  actor_combatant_id: string | null;
+  skill_id: string | null;
+  skill_name: string | null;
+};
+
+export type CombatReplayReport = {
+  ok: boolean;
+  events: number;
+  inputs: ReplayInput[];
+  checked: { hits: number; damage_rolls: number; ledger: number };
+  unaudited: number;
+  mismatches: ReplayMismatch[];
+  final_state: Array<Pick<ReplayCombatant, "id" | "name" | "hp" | "armor" | "power" | "x" | "y" | "is_alive">>;
+};
+
+// Stats that never change mid-fight; an audit that disagrees with the snapshot means the rows were edited.
+const STATIC_FIELDS = ["lvl", "offense", "defense", "mobility", "weapon_power", "resist"] as const;
+
+function asObject(value: unknown): Record<string, unknown> {
+  return value && typeof value === "object" && !Array.isArray(value) ? value as Record<string, unknown> : {};
+}
+
+function num(value: unknown, fallback = 0): number {
+  const n = Number(value);
+  return Number.isFinite(n) ? n : fallback;
+}
+
+function str(value: unknown): string | null {
+  return typeof value === "string" && value.trim().length > 0 ? value : null;
+}
+
+function statusIds(raw: unknown): string[] {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .map((entry) => String(typeof entry === "string" ? entry : asObject(entry).id ?? "").trim())
+    .filter((id) => id.length > 0);
+}
+
+export function rollAuditSide(row: Record<string, unknown>): RollAuditSide {
+  return {
+    lvl: num(row.lvl, 1),
+    offense: num(row.offense),
+    defense: num(row.defense),
+    mobility: num(row.mobility),
+    utility: num(row.utility),
+    weapon_power: num(row.weapon_power),
+    resist: num(row.resist),
+    hp: Math.max(0, Math.floor(num(row.hp))),
+    armor: Math.max(0, Math.floor(num(row.armor))),
+    statuses: statusIds(row.statuses),
+  };
+}
+
+export function buildRollAudit(args: {
+  hitLabel: string;
+  damageLabel: string;
+  skillMult: number;
+  spreadPct: number;
+  critMultBase?: number;
+  critChanceMax?: number;
+  environmentAccuracy?: number;
+  attacker: Record<string, unknown>;
+  defender: Record<string, unknown>;
+}): RollAudit {
+  return {
+    v: ROLL_AUDIT_VERSION,
+    hit_label: args.hitLabel,
+    damage_label: args.damageLabel,
+    skill_mult: args.skillMult,
+    spread_pct: args.spreadPct,
+    crit_mult_base: args.critMultBase ?? 1.5,
+    crit_chance_max: args.critChanceMax ?? 0.6,
+    environment_accuracy: args.environmentAccuracy ?? 0,
+    attacker: rollAuditSide(args.attacker),
+    defender: rollAuditSide(args.defender),
+  };
+}
+
+function parseRollAudit(raw: unknown): RollAudit | null {
+  const audit = asObject(raw);
+  const hitLabel = str(audit.hit_label);
+  const damageLabel = str(audit.damage_label);
+  if (!hitLabel || !damageLabel) return null;
+  return {
+    v: num(audit.v, ROLL_AUDIT_VERSION),
+    hit_label: hitLabel,
+    damage_label: damageLabel,
+    skill_mult: num(audit.skill_mult, 1),
+    spread_pct: num(audit.spread_pct, 0.1),
+    // Audits written before house rules ran on the fixed SQL crit constants.
+    crit_mult_base: num(audit.crit_mult_base, 1.5),
+    crit_chance_max: num(audit.crit_chance_max, 0.6),
+    environment_accuracy: num(audit.environment_accuracy, 0),
+    attacker: rollAuditSide(asObject(audit.attacker)),
+    defender: rollAuditSide(asObject(audit.defender)),
+  };
+}
+
+export function replayCombatantFromRow(row: Record<string, unknown>): ReplayCombatant | null {
+  const id = str(row.id);
+  if (!id) return null;
+  return {
+    id,
+    name: String(row.name ?? id),
+    entity_type: String(row.entity_type ?? "npc"),
+    hp: Math.max(0, Math.floor(num(row.hp))),
+    hp_max: Math.max(1, Math.floor(num(row.hp_max, 1))),
+    armor: Math.max(0, Math.floor(num(row.armor))),
+    power: Math.max(0, Math.floor(num(row.power))),
+    x: Math.floor(num(row.x)),
+    y: Math.floor(num(row.y)),
+    is_alive: row.is_alive !== false,
+    lvl: num(row.lvl, 1),
+    offense: num(row.offense),
+    defense: num(row.defense),
+    mobility: num(row.mobility),
+    utility: num(row.utility),
+    weapon_power: num(row.weapon_power),
+    resist: num(row.resist),
+  };
+}
+
+/**
+ * Rebuilds a combat session from its starting combatants and the ordered event log.
+ * Every audited miss/damage is re-rolled through the same hit resolution and damage math,
+ * and every hp/armor ledger entry is recomputed from the replayed state. Stored values are
+ * adopted after each check so one bad entry is reported once instead of cascading.
+ */
+export function replayCombatLog(args: {
+  seed: number;
+  combatants: ReplayCombatant[];
+  events: ReplayEvent[];
+  current?: ReplayCombatant[];
+}): CombatReplayReport {
+  const state = new Map(args.combatants.map((c) => [c.id, { ...c }]));
+  const snapshot = new Map(args.combatants.map((c) => [c.id, c]));
+  const mismatches: ReplayMismatch[] = [];
+  const inputs: ReplayInput[] = [];
+  const checked = { hits: 0, damage_rolls: 0, ledger: 0 };
+  let unaudited = 0;
+
+  for (const event of args.events) {
+    const payload = asObject(event.payload);
+    const targetId = str(payload.target_combatant_id);
+    const target = targetId ? state.get(targetId) ?? null : null;
+    const diff = (field: string, stored: unknown, replayed: unknown, combatantId: string | null = targetId) => {
+      if (stored === replayed) return;
+      mismatches.push({
+        event_id: event.id ?? null,
+        turn_index: event.turn_index,
+        event_type: event.event_type,
+        combatant_id: combatantId,
+        field,
+        stored,
+        replayed,
+      });
+    };
+
+    switch (event.event_type) {
+      case "skill_used": {
+        inputs.push({
+          turn_index: event.turn_index,
+          actor_combatant_id: event.actor_combatant_id,
+          skill_id: str(payload.skill_id),
+          skill_name: str(payload.skill_name),
+        });
+        break;
+      }
+      case "miss":
+      case "damage": {
+        const audit = parseRollAudit(payload.audit);
+        const sourceId = str(payload.source_combatant_id) ?? event.actor_combatant_id;
+        let finalDamage = Math.max(0, Math.floor(num(asObject(payload.roll).final_damage)));
+        let shield = target?.armor ?? 0;
+
+        if (!audit) {
+          unaudited += 1;
+        } else {
+          const source = sourceId ? snapshot.get(sourceId) : undefined;
+          const victim = targetId ? snapshot.get(targetId) : undefined;
+          for (const field of STATIC_FIELDS) {
+            if (source) diff(`attacker.${field}`, audit.attacker[field], source[field], sourceId);
+            if (victim) diff(`defender.${field}`, audit.defender[field], victim[field]);
+          }
+          if (target && event.event_type === "damage") diff("hp_before", audit.defender.hp, target.hp);
+
+          const hit = resolveDeterministicHit({
+            seed: args.seed,
+            label: audit.hit_label,
+            attacker: { ...audit.attacker, statuses: audit.attacker.statuses.map((id) => ({ id })) },
+            defender: { ...audit.defender, statuses: audit.defender.statuses.map((id) => ({ id })) },
+            environmentAccuracy: audit.environment_accuracy,
+          });
+          checked.hits += 1;
+          diff("hit", event.event_type === "damage", hit.hit);
+          if (event.event_type === "miss") {
+            diff("roll_d20", num(payload.roll_d20), hit.rollD20);
+            diff("required_roll", num(payload.required_roll), hit.requiredRoll);
+          } else {
+            const roll = computeDamageRoll({
+              seed: args.seed,
+              label: audit.damage_label,
+              lvl: audit.attacker.lvl,
+              offense: audit.attacker.offense,
+              mobility: audit.attacker.mobility,
+              utility: audit.attacker.utility,
+              weaponPower: audit.attacker.weapon_power,
+              skillMult: audit.skill_mult,
+              resist: audit.defender.resist,
+              spreadPct: audit.spread_pct,
+              critMultBase: audit.crit_mult_base,
+              critChanceMax: audit.crit_chance_max,
+            });
+            const stored = asObject(payload.roll);
+            checked.damage_rolls += 1;
+            diff("roll.attack_rating", num(stored.attack_rating), roll.attack_rating);
+            diff("roll.is_crit", stored.is_crit === true, roll.is_crit);
+            diff("roll.final_damage", finalDamage, roll.final_damage);
+            finalDamage = roll.final_damage;
+            shield = audit.defender.armor;
+          }
+        }
+
+        if (event.event_type === "damage" && target) {
+          const absorbed = Math.min(shield, finalDamage);
+          const toHp = Math.max(0, finalDamage - absorbed);
+          checked.ledger += 1;
+          diff("shield_absorbed", num(payload.shield_absorbed), absorbed);
+          diff("damage_to_hp", num(payload.damage_to_hp), toHp);
+          diff("hp_after", num(payload.hp_after), Math.max(0, target.hp - toHp));
+          diff("armor_after", num(payload.armor_after), Math.max(0, shield - absorbed));
+          target.hp = Math.max(0, Math.floor(num(payload.hp_after, target.hp)));
+          target.armor = Math.max(0, Math.floor(num(payload.armor_after, target.armor)));
+          target.is_alive = target.hp > 0;
+        }
+        break;
+      }
+      case "healed": {
+        if (!target) break;
+        checked.ledger += 1;
+        diff("hp_after", num(payload.hp_after), Math.min(target.hp_max, target.hp + Math.max(0, num(payload.amount))));
+        target.hp = Math.max(0, Math.floor(num(payload.hp_after, target.hp)));
+        break;
+      }
+      case "revive": {
+        if (!target) break;
+        target.hp = Math.max(1, Math.floor(num(payload.hp_after, 1)));
+        target.is_alive = true;
+        break;
+      }
+      case "status_tick": {
+        if (!target) break;
+        target.hp = Math.max(0, Math.floor(num(payload.hp_after, target.hp)));
+        target.is_alive = payload.is_alive === undefined ? target.hp > 0 : payload.is_alive === true;
+        break;
+      }
+      case "death": {
+        if (target) target.is_alive = false;
+        break;
+      }
+      case "armor_shred": {
+        if (target && payload.armor_after !== undefined) target.armor = Math.max(0, Math.floor(num(payload.armor_after)));
+        break;
+      }
+      case "power_gain":
+      case "power_drain": {
+        if (target && payload.power_after !== undefined) target.power = Math.max(0, Math.floor(num(payload.power_after)));
+        break;
+      }
+      case "moved": {
+        const to = asObject(payload.to);
+        if (target && to.x !== undefined && to.y !== undefined) {
+          target.x = Math.floor(num(to.x));
+          target.y = Math.floor(num(to.y));
+        }
+        break;
+      }
+      default:
+        break;
+    }
+  }
+
+  for (const row of args.current ?? []) {
+    const replayed = state.get(row.id);
+    if (!replayed) continue;
+    const diffFinal = (field: "hp" | "is_alive" | "x" | "y", stored: unknown, value: unknown) => {
+      if (stored === value) return;
+      mismatches.push({ event_id: null, turn_index: -1, event_type: "final_state", combatant_id: row.id, field, stored, replayed: value });
+    };
+    diffFinal("hp", row.hp, replayed.hp);
+    diffFinal("is_alive", row.is_alive, replayed.is_alive);
+    diffFinal("x", row.x, replayed.x);
+    diffFinal("y", row.y, replayed.y);
+  }
+
+  return {
+    ok: mismatches.length === 0,
+    events: args.events.length,
+    inputs,
+    checked,
+    unaudited,
+    mismatches,
+    final_state: [...state.values()].map((c) => ({
+      id: c.id,
+      name: c.name,
+      hp: c.hp,
+      armor: c.armor,
+      power: c.power,
+      x: c.x,
+      y: c.y,
+      is_alive: c.is_alive,
+    })),
+  };
+}
@@ -1,3 +1,8 @@
+import { recordContractProgress, withContractPostings } from "../contracts/index.js";
+import { recordCombatNemesisOutcome } from "../nemesis/index.js";
+import { killEventsFor, recordQuestEvents } from "../quests/index.js";
+import { applyReputationDelta } from "../reputation/store.js";
+import { DEFAULT_CAMPAIGN_RULES, loadCampaignRules, scaleXpGrant } from "../rules/houseRules.js";
 import { rngInt, rngPick } from "../../shared/mythic_rng.js";
 import { sanitizeError } from "../../shared/redact.js";
 import { createServiceClient } from "../../shared/supabase.js";
@@ -18,6 +23,12 @@ export type CombatSettlementRow = {
   character_id: string | null;
   player_id: string | null;
   lvl?: number | null;
+  name?: string | null;
+  hp_max?: number | null;
+  hp?: number | null;
+  power?: number | null;
+  power_max?: number | null;
+  statuses?: unknown;
 };
 
 type SettlementArgs = {
@@ -65,52 +76,6 @@ async function appendMemoryEvent(args: {
   if (error) throw error;
 }
 
-async function applyReputationDelta(args: {
-  svc: ServiceClient;
-  campaignId: string;
-  playerId: string;
-  factionId: string;
-  delta: number;
-  severity: number;
-  evidence: Record<string, unknown>;
-}) {
-  if (args.delta === 0) return;
-
-  const { error: repEventError } = await args.svc.schema("mythic").from("reputation_events").insert({
-    campaign_id: args.campaignId,
-    faction_id: args.factionId,
-    player_id: args.playerId,
-    severity: clampInt(args.severity, 1, 5),
-    delta: clampInt(args.delta, -1000, 1000),
-    evidence: args.evidence,
-  });
-  if (repEventError) throw repEventError;
-
-  const currentRepQuery = await args.svc
-    .schema("mythic")
-    .from("faction_reputation")
-    .select("rep")
-    .eq("campaign_id", args.campaignId)
-    .eq("faction_id", args.factionId)
-    .eq("player_id", args.playerId)
-    .maybeSingle();
-  if (currentRepQuery.error) throw currentRepQuery.error;
-
-  const currentRep = Number((currentRepQuery.data as { rep?: number } | null)?.rep ?? 0);
-  const nextRep = clampInt(currentRep + args.delta, -1000, 1000);
-  const { error: upsertError } = await args.svc
-    .schema("mythic")
-    .from("faction_reputation")
-    .upsert({
-      campaign_id: args.campaignId,
-      faction_id: args.factionId,
-      player_id: args.playerId,
-      rep: nextRep,
-      updated_at: new Date().toISOString(),
-    }, { onConflict: "campaign_id,faction_id,player_id" });
-  if (upsertError) throw upsertError;
-}
-
 async function hasXpAwardForCombat(
   svc: ServiceClient,
   characterId: string,
@@ -227,6 +192,41 @@ async function grantSimpleLoot(args: {
   return item as { id: string; name: string; rarity: string };
 }
 
+/** Wounds outlive the fight: survivors keep their HP and power, the fallen come to on 1 HP until they rest. */
+async function recordPlayerVitals(svc: ServiceClient, rows: CombatSettlementRow[]): Promise<void> {
+  for (const row of rows) {
+    if (!row.character_id || !Number.isFinite(Number(row.hp_max)) || Number(row.hp_max) <= 0) continue;
+    const { data, error } = await svc
+      .schema("mythic")
+      .from("characters")
+      .select("resources")
+      .eq("id", row.character_id)
+      .maybeSingle();
+    if (error) throw error;
+    if (!data) continue;
+    const resources = data.resources && typeof data.resources === "object" && !Array.isArray(data.resources)
+      ? data.resources as Record<string, unknown>
+      : {};
+    const hpMax = Math.floor(Number(row.hp_max));
+    const powerMax = Math.max(0, Math.floor(Number(row.power_max ?? 0) || 0));
+    const { error: updateError } = await svc
+      .schema("mythic")
+      .from("characters")
+      .update({
+        resources: {
+          ...resources,
+          hp: clampInt(row.is_alive ? Number(row.hp ?? hpMax) : 1, 1, hpMax),
+          hp_max: hpMax,
+          power: clampInt(Number(row.power ?? 0) || 0, 0, powerMax),
+          power_max: powerMax,
+        },
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", row.character_id);
+    if (updateError) throw updateError;
+  }
+}
+
 async function getFactions(svc: ServiceClient, campaignId: string): Promise<FactionSummary[]> {
   const query = await svc
     .schema("mythic")
@@ -268,10 +268,23 @@ export async function settleCombat(args: SettlementArgs): Promise<SettlementResu
     outcome: { alive_players: alivePlayers.length, alive_npcs: aliveNpcs.length },
   });
 
+  try {
+    await recordPlayerVitals(svc, playerRowsAll);
+  } catch (vitalsError) {
+    logger?.warn("combat_settlement.vitals_warning", {
+      request_id: requestId,
+      campaign_id: campaignId,
+      combat_session_id: combatSessionId,
+      reason: sanitizeError(vitalsError).message,
+    });
+  }
+
   const factionPool = await getFactions(svc, campaignId);
   const primaryFaction = factionPool[0] ?? null;
   const bossAlive = aliveRows.some((row) => row.entity_type === "npc" && row.is_alive);
-  const xpPer = won ? 180 + aliveRows.length * 35 + (bossAlive ? 0 : 220) : 0;
+  const baseXp = won ? 180 + aliveRows.length * 35 + (bossAlive ? 0 : 220) : 0;
+  const rules = won ? await loadCampaignRules(svc, campaignId) : DEFAULT_CAMPAIGN_RULES;
+  const xpPer = scaleXpGrant(baseXp, rules.tunables);
   let xpAwardedTotal = 0;
   const lootNames: string[] = [];
 
@@ -304,7 +317,7 @@ export async function settleCombat(args: SettlementArgs): Promise<SettlementResu
       }
 
       if (!(await hasLootAwardForCombat(svc, characterId, combatSessionId))) {
-        const rarity = xpPer > 420 ? "legendary" : xpPer > 280 ? "unique" : "magical";
+        const rarity = baseXp > 420 ? "legendary" : baseXp > 280 ? "unique" : "magical";
         lootItem = await grantSimpleLoot({
           svc,
           seed,
@@ -410,6 +423,76 @@ export async function settleCombat(args: SettlementArgs): Promise<SettlementResu
     }
   }
 
+  try {
+    const nemesisOutcome = await recordCombatNemesisOutcome({
+      svc,
+      campaignId,
+      combatSessionId,
+      seed,
+      won,
+      rows: aliveRows,
+    });
+    if (nemesisOutcome.opened.length > 0 || nemesisOutcome.escalated.length > 0 || nemesisOutcome.resolved.length > 0) {
+      logger?.info("combat_settlement.nemesis", {
+        request_id: requestId,
+        campaign_id: campaignId,
+        combat_session_id: combatSessionId,
+        opened: nemesisOutcome.opened,
+        escalated: nemesisOutcome.escalated,
+        resolved: nemesisOutcome.resolved,
+      });
+    }
+  } catch (nemesisError) {
+    logger?.warn("combat_settlement.nemesis_warning", {
+      request_id: requestId,
+      campaign_id: campaignId,
+      combat_session_id: combatSessionId,
+      reason: sanitizeError(nemesisError).message,
+    });
+  }
+
+  // Enemies that fell count toward hunt contracts and quests whether or not the party won.
+  const defeated = aliveRows
+    .filter((row) => row.entity_type === "npc" && !row.is_alive && typeof row.name === "string")
+    .map((row) => row.name as string);
+  let contractsChanged = false;
+  try {
+    if (defeated.length > 0) {
+      const updated = await recordContractProgress({
+        svc,
+        campaignId,
+        event: { kind: "kills", sourceId: combatSessionId, names: defeated },
+      });
+      contractsChanged = updated.length > 0;
+    }
+  } catch (contractError) {
+    logger?.warn("combat_settlement.contract_warning", {
+      request_id: requestId,
+      campaign_id: campaignId,
+      combat_session_id: combatSessionId,
+      reason: sanitizeError(contractError).message,
+    });
+  }
+
+  try {
+    await recordQuestEvents({
+      svc,
+      campaignId,
+      sourceRef: `combat:${combatSessionId}`,
+      events: [
+        ...killEventsFor(defeated),
+        ...lootNames.map((name) => ({ kind: "collect" as const, itemId: name })),
+      ],
+    });
+  } catch (questError) {
+    logger?.warn("combat_settlement.quest_warning", {
+      request_id: requestId,
+      campaign_id: campaignId,
+      combat_session_id: combatSessionId,
+      reason: sanitizeError(questError).message,
+    });
+  }
+
   const runtimeQuery = await svc
     .schema("mythic")
     .from("campaign_runtime")
@@ -421,9 +504,21 @@ export async function settleCombat(args: SettlementArgs): Promise<SettlementResu
 
   const runtimeRow = runtimeQuery.data as { id: string; mode: string; state_json: Record<string, unknown> } | null;
   if (runtimeRow) {
-    const rawState = runtimeRow.state_json && typeof runtimeRow.state_json === "object"
+    let rawState = runtimeRow.state_json && typeof runtimeRow.state_json === "object"
       ? runtimeRow.state_json
       : {};
+    if (contractsChanged) {
+      try {
+        rawState = await withContractPostings(svc, campaignId, rawState);
+      } catch (contractError) {
+        logger?.warn("combat_settlement.contract_warning", {
+          request_id: requestId,
+          campaign_id: campaignId,
+          combat_session_id: combatSessionId,
+          reason: sanitizeError(contractError).message,
+        });
+      }
+    }
     const returnModeRaw = typeof rawState.return_mode === "string" ? rawState.return_mode : null;
     const fallbackMode = runtimeRow.mode === "combat" ? "town" : runtimeRow.mode;
     const nextMode = returnModeRaw === "town" || returnModeRaw === "travel" || returnModeRaw === "dungeon" || returnModeRaw === "combat"
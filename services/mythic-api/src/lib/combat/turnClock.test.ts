@@ -0,0 +1,102 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import {
+  COMBAT_NPC_TURN_SECONDS,
+  COMBAT_TURN_SWEEP_LEASE_MS,
+  combatTurnClock,
+  isCombatTurnExpired,
+  startCombatTurnSweeper,
+  type CombatTurnStore,
+  type StalledCombatSession,
+} from "./turnClock.js";
+
+const NOW = new Date("2026-03-01T12:00:00.000Z");
+
+function stalled(id: string): StalledCombatSession {
+  return { id, campaign_id: "camp", current_turn_index: 2, turn_deadline_at: "2026-03-01T11:59:00.000Z" };
+}
+
+test("player turns get the campaign timer and NPC turns a short fuse", () => {
+  const player = combatTurnClock({ now: NOW, entityType: "player", turnSeconds: 45 });
+  assert.equal(player.turn_started_at, NOW.toISOString());
+  assert.equal(Date.parse(player.turn_deadline_at) - NOW.getTime(), 45_000);
+
+  const npc = combatTurnClock({ now: NOW, entityType: "npc", turnSeconds: 45 });
+  assert.equal(Date.parse(npc.turn_deadline_at) - NOW.getTime(), COMBAT_NPC_TURN_SECONDS * 1000);
+
+  assert.equal(isCombatTurnExpired(player.turn_deadline_at, NOW.getTime()), false);
+  assert.equal(isCombatTurnExpired(player.turn_deadline_at, NOW.getTime() + 45_000), true);
+  assert.equal(isCombatTurnExpired(null, NOW.getTime()), false);
+  assert.equal(isCombatTurnExpired("not a date", NOW.getTime()), false);
+});
+
+test("the sweeper advances what it claims, skips lost claims and keeps going past failures", async () => {
+  const leases: string[] = [];
+  const store: CombatTurnStore = {
+    listStalled: async ({ now, limit }) => {
+      assert.equal(now.toISOString(), NOW.toISOString());
+      assert.equal(limit, 5);
+      return [stalled("taken"), stalled("boom"), stalled("ok")];
+    },
+    claim: async (session, leaseUntil) => {
+      leases.push(leaseUntil.toISOString());
+      return session.id !== "taken";
+    },
+  };
+  const advanced: string[] = [];
+  const errors: Array<string | null> = [];
+  const sweeper = startCombatTurnSweeper({
+    intervalMs: 60_000,
+    batchSize: 5,
+    store,
+    now: () => NOW,
+    advance: async (session) => {
+      if (session.id === "boom") throw new Error("tick failed");
+      advanced.push(session.id);
+    },
+    onError: (_error, session) => errors.push(session?.id ?? null),
+  });
+
+  assert.equal(await sweeper.sweep(), 1);
+  assert.deepEqual(advanced, ["ok"]);
+  assert.deepEqual(errors, ["boom"]);
+  assert.equal(Date.parse(leases[0]!) - NOW.getTime(), COMBAT_TURN_SWEEP_LEASE_MS);
+  await sweeper.stop();
+  assert.equal(await sweeper.sweep(), 0);
+});
+
+test("sweeps never overlap and stop waits for the one in flight", async () => {
+  let release: () => void = () => {};
+  let listCalls = 0;
+  const store: CombatTurnStore = {
+    listStalled: async () => {
+      listCalls += 1;
+      return [stalled("slow")];
+    },
+    claim: async () => true,
+  };
+  let finished = false;
+  const sweeper = startCombatTurnSweeper({
+    intervalMs: 60_000,
+    store,
+    advance: () => new Promise<void>((resolve) => {
+      release = () => {
+        finished = true;
+        resolve();
+      };
+    }),
+    onError: () => assert.fail("no errors expected"),
+  });
+
+  const first = sweeper.sweep();
+  const second = sweeper.sweep();
+  assert.equal(first, second);
+  await new Promise((resolve) => setImmediate(resolve));
+  const stopping = sweeper.stop();
+  release();
+  await stopping;
+  assert.equal(finished, true);
+  assert.equal(await first, 1);
+  assert.equal(listCalls, 1);
+});
@@ -0,0 +1,170 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+// Server-side turn clock for combat sessions. Every move of current_turn_index stamps a deadline;
+// once it passes, the turn sweeper resolves the turn without waiting for a client to tick.
+
+/** NPC and companion turns normally advance as soon as a client ticks; this only bounds an empty table. */
+export const COMBAT_NPC_TURN_SECONDS = 10;
+/** A sweeper claim pushes the deadline out this far, so a crashed sweep is retried rather than lost. */
+export const COMBAT_TURN_SWEEP_LEASE_MS = 30_000;
+/** Turns one sweep may resolve per session: the stalled player turn plus the NPC turns that follow it. */
+export const COMBAT_TURN_SWEEP_MAX_STEPS = 10;
+const DEFAULT_SWEEP_BATCH = 20;
+
+export type CombatTurnClock = {
+  turn_started_at: string;
+  turn_deadline_at: string;
+};
+
+export type StalledCombatSession = {
+  id: string;
+  campaign_id: string;
+  current_turn_index: number;
+  turn_deadline_at: string;
+};
+
+export interface CombatTurnStore {
+  listStalled: (args: { now: Date; limit: number }) => Promise<StalledCombatSession[]>;
+  /** Compare-and-swap on the observed deadline and turn; false when another sweep or a tick got there first. */
+  claim: (session: StalledCombatSession, leaseUntil: Date) => Promise<boolean>;
+}
+
+export interface CombatTurnSweeper {
+  sweep: () => Promise<number>;
+  stop: () => Promise<void>;
+}
+
+/** Clock columns for a turn that starts now. Player turns get the campaign's turn timer. */
+export function combatTurnClock(args: { now: Date; entityType: string | null; turnSeconds: number }): CombatTurnClock {
+  const seconds = args.entityType === "player"
+    ? Math.max(1, Math.floor(args.turnSeconds))
+    : COMBAT_NPC_TURN_SECONDS;
+  return {
+    turn_started_at: args.now.toISOString(),
+    turn_deadline_at: new Date(args.now.getTime() + seconds * 1000).toISOString(),
+  };
+}
+
+/** Sessions without a clock (created before it existed, or already settled) never expire. */
+export function isCombatTurnExpired(deadline: unknown, nowMs: number): boolean {
+  if (typeof deadline !== "string" || !deadline) return false;
+  const deadlineMs = Date.parse(deadline);
+  return Number.isFinite(deadlineMs) && deadlineMs <= nowMs;
+}
+
+/**
+ * Takes one turn for one resolver: a compare-and-swap on the observed turn index and deadline that pushes the
+ * deadline out by the sweep lease. False when the sweeper or another tick already took the turn. Sessions without
+ * a clock match on a null deadline.
+ */
+export async function claimCombatTurn(
+  svc: SupabaseClient,
+  turn: { id: string; current_turn_index: number; turn_deadline_at: string | null },
+  leaseUntil: Date,
+): Promise<boolean> {
+  const update = svc
+    .schema("mythic")
+    .from("combat_sessions")
+    .update({ turn_deadline_at: leaseUntil.toISOString() })
+    .eq("id", turn.id)
+    .eq("status", "active")
+    .eq("current_turn_index", turn.current_turn_index);
+  const { data, error } = await (turn.turn_deadline_at === null
+    ? update.is("turn_deadline_at", null)
+    : update.eq("turn_deadline_at", turn.turn_deadline_at))
+    .select("id")
+    .maybeSingle();
+  if (error) throw error;
+  return Boolean(data);
+}
+
+export function createSupabaseCombatTurnStore(svc: SupabaseClient): CombatTurnStore {
+  return {
+    async listStalled({ now, limit }) {
+      const { data, error } = await svc
+        .schema("mythic")
+        .from("combat_sessions")
+        .select("id, campaign_id, current_turn_index, turn_deadline_at")
+        .eq("status", "active")
+        .lte("turn_deadline_at", now.toISOString())
+        .order("turn_deadline_at", { ascending: true })
+        .limit(limit);
+      if (error) throw error;
+      return ((data ?? []) as Array<Record<string, unknown>>).flatMap((row): StalledCombatSession[] => {
+        if (typeof row.id !== "string" || typeof row.campaign_id !== "string" || typeof row.turn_deadline_at !== "string") return [];
+        return [{
+          id: row.id,
+          campaign_id: row.campaign_id,
+          current_turn_index: Number(row.current_turn_index ?? 0),
+          turn_deadline_at: row.turn_deadline_at,
+        }];
+      });
+    },
+    claim(session, leaseUntil) {
+      return claimCombatTurn(svc, session, leaseUntil);
+    },
+  };
+}
+
+/**
+ * Polls for sessions whose turn deadline has passed, claims each one and hands it to `advance`.
+ * Runs never overlap; a failure on one session is reported and the rest of the batch still runs.
+ */
+export function startCombatTurnSweeper(args: {
+  intervalMs: number;
+  store: CombatTurnStore;
+  advance: (session: StalledCombatSession) => Promise<void>;
+  onError: (error: unknown, session: StalledCombatSession | null) => void;
+  batchSize?: number;
+  now?: () => Date;
+}): CombatTurnSweeper {
+  const now = args.now ?? (() => new Date());
+  let running: Promise<number> | null = null;
+  let stopped = false;
+
+  const runOnce = async (): Promise<number> => {
+    let advanced = 0;
+    let stalled: StalledCombatSession[] = [];
+    try {
+      stalled = await args.store.listStalled({ now: now(), limit: args.batchSize ?? DEFAULT_SWEEP_BATCH });
+    } catch (error) {
+      args.onError(error, null);
+      return 0;
+    }
+    for (const session of stalled) {
+      if (stopped) break;
+      try {
+        const claimed = await args.store.claim(session, new Date(now().getTime() + COMBAT_TURN_SWEEP_LEASE_MS));
+        if (!claimed) continue;
+        await args.advance(session);
+        advanced += 1;
+      } catch (error) {
+        args.onError(error, session);
+      }
+    }
+    return advanced;
+  };
+
+  const sweep = (): Promise<number> => {
+    if (stopped) return Promise.resolve(0);
+    if (running) return running;
+    running = runOnce().finally(() => {
+      running = null;
+    });
+    return running;
+  };
+
+  const timer = setInterval(() => {
+    void sweep();
+  }, Math.max(1_000, args.intervalMs));
+  timer.unref?.();
+
+  return {
+    sweep,
+    async stop() {
+      stopped = true;
+      clearInterval(timer);
+      if (running) await running;
+    },
+  };
+}
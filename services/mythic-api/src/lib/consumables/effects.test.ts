@@ -0,0 +1,110 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import {
+  companionConsumablePlan,
+  consumableItem,
+  consumableName,
+  consumableProfile,
+  consumableTargets,
+  consumableTier,
+  readConsumable,
+  resolveConsumable,
+  rollConsumableStock,
+  type ConsumableCombatant,
+  type ConsumableStack,
+} from "./effects.js";
+
+function unit(id: string, overrides: Partial<ConsumableCombatant> = {}): ConsumableCombatant {
+  return {
+    id,
+    player_id: "p-1",
+    x: 0,
+    y: 0,
+    hp: 50,
+    hp_max: 100,
+    power: 10,
+    power_max: 40,
+    armor: 0,
+    statuses: [],
+    is_alive: true,
+    ...overrides,
+  };
+}
+
+const HERO = unit("hero", { x: 2, y: 2 });
+const SQUIRE = unit("squire", { x: 3, y: 2, hp: 20 });
+const GOBLIN = unit("goblin", { player_id: null, x: 6, y: 2, hp: 30, hp_max: 30, armor: 5 });
+const OGRE = unit("ogre", { player_id: null, x: 6, y: 3, hp: 80, hp_max: 80 });
+const RAT = unit("rat", { player_id: null, x: 9, y: 9, hp: 5, hp_max: 5 });
+
+function stack(key: Parameters<typeof consumableProfile>[0], quantity = 2): ConsumableStack {
+  const profile = consumableProfile(key, 1);
+  return { inventory_id: `inv-${key}`, item_id: `item-${key}`, name: consumableName(profile), quantity, profile };
+}
+
+test("tiers scale with level and vendor services decide the shelf", () => {
+  assert.equal(consumableTier(1), 1);
+  assert.equal(consumableTier(17), 3);
+  assert.equal(consumableTier(99), 5);
+  assert.equal(consumableName(consumableProfile("fire_flask", 3)), "Fire Flask III");
+
+  const apothecary = rollConsumableStock({ seed: 7, label: "shop", level: 9, services: ["potions", "lodging"] });
+  assert.deepEqual(apothecary.map((entry) => readConsumable(entry.item)?.key), ["healing_draught", "mana_tonic", "purging_salts"]);
+  assert.ok(apothecary.every((entry) => entry.quantity >= 2 && entry.price > 0));
+  assert.deepEqual(rollConsumableStock({ seed: 7, label: "shop", level: 9, services: ["repair", "craft"] }), []);
+});
+
+test("items round-trip their profile and junk does not read as a consumable", () => {
+  const profile = consumableProfile("thunder_bomb", 2);
+  assert.deepEqual(readConsumable(consumableItem(profile)), profile);
+  assert.equal(readConsumable({ slot: "consumable", effects_json: { consumable: { key: "mystery" } } }), null);
+  assert.equal(readConsumable({ ...consumableItem(profile), slot: "trinket" }), null);
+});
+
+test("potions land on one ally while bombs hit every enemy in the blast and spare the party", () => {
+  const roster = [HERO, SQUIRE, GOBLIN, OGRE, RAT];
+  const draught = consumableProfile("healing_draught", 1);
+  assert.deepEqual(consumableTargets({ profile: draught, user: HERO, at: { x: 3, y: 2 }, combatants: roster }).map((c) => c.id), ["squire"]);
+  assert.deepEqual(consumableTargets({ profile: draught, user: HERO, at: { x: 6, y: 2 }, combatants: roster }), []);
+
+  const flask = consumableProfile("fire_flask", 1);
+  const hit = consumableTargets({ profile: flask, user: HERO, at: { x: 6, y: 2 }, combatants: [...roster, unit("ally", { x: 5, y: 2 })] });
+  assert.deepEqual(hit.map((c) => c.id), ["goblin", "ogre"]);
+
+  const outcome = resolveConsumable({ profile: flask, user: HERO, targets: hit, item: { id: "i-1", name: "Fire Flask" } });
+  assert.deepEqual(outcome.patches[0], { combatant_id: "goblin", hp: 16, armor: 0 });
+  assert.equal(outcome.events.filter((e) => e.event_type === "damage").length, 2);
+  assert.equal(outcome.events[0]!.payload.item_id, "i-1");
+});
+
+test("salts purge harmful statuses, keep the rest and heal; overheal is clamped", () => {
+  const cursed = unit("cursed", {
+    hp: 98,
+    statuses: [{ id: "hazard_fire" }, { id: "ally_companion" }, { id: "vulnerable" }, { id: "barrier" }],
+  });
+  const salts = consumableProfile("purging_salts", 1);
+  const outcome = resolveConsumable({ profile: salts, user: cursed, targets: [cursed], item: { id: "i-2", name: "Purging Salts" } });
+  assert.deepEqual(outcome.patches, [{ combatant_id: "cursed", statuses: [{ id: "ally_companion" }, { id: "barrier" }], hp: 100 }]);
+  assert.deepEqual(outcome.events.map((e) => e.event_type), ["cleanse", "healed"]);
+  assert.equal(outcome.events[1]!.payload.amount, 2);
+});
+
+test("companions heal by stance, purge unless aggressive and only bomb a crowd", () => {
+  const pouch = [stack("fire_flask"), stack("healing_draught"), stack("purging_salts")];
+  const companion = unit("wolf", { x: 5, y: 2, hp: 40 });
+  const args = { actor: companion, allies: [HERO, SQUIRE], opponents: [GOBLIN, OGRE, RAT], pouch };
+
+  const defensive = companionConsumablePlan({ ...args, stance: "defensive" });
+  assert.equal(defensive?.stack.profile.key, "healing_draught");
+  assert.equal(defensive?.targets[0]!.id, "wolf");
+
+  const aggressive = companionConsumablePlan({ ...args, stance: "aggressive" });
+  assert.equal(aggressive?.stack.profile.key, "fire_flask");
+  assert.deepEqual(aggressive?.targets.map((c) => c.id), ["goblin", "ogre"]);
+
+  assert.equal(companionConsumablePlan({ ...args, stance: "balanced" }), null);
+  const burning = { ...companion, hp: 90, statuses: [{ id: "hazard_fire" }] };
+  assert.equal(companionConsumablePlan({ ...args, actor: burning, stance: "balanced" })?.stack.profile.key, "purging_salts");
+  assert.equal(companionConsumablePlan({ ...args, actor: burning, stance: "aggressive" })?.stack.profile.key, "fire_flask");
+});
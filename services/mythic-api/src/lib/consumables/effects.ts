@@ -0,0 +1,435 @@
+import { clampInt, rngInt } from "../../shared/mythic_rng.js";
+
+// Consumable items. A consumable is an item row in the consumable slot whose effects_json.consumable holds a
+// ConsumableProfile; identical profiles stack as one inventory row. Using one is a combat turn action resolved
+// here without rolls, so the player's item button, the companion AI and the tests all agree on the outcome.
+
+export const CONSUMABLE_KEYS = ["healing_draught", "mana_tonic", "purging_salts", "fire_flask", "thunder_bomb"] as const;
+export type ConsumableKey = (typeof CONSUMABLE_KEYS)[number];
+
+/** self: the user only. ally: one party member within range. area: every enemy within radius of a tile. */
+export type ConsumableTargeting = "self" | "ally" | "area";
+
+export type ConsumableEffect =
+  | { kind: "heal"; amount: number }
+  | { kind: "restore_power"; amount: number }
+  /** Null status_ids strips every harmful status; see isHarmfulStatus. */
+  | { kind: "cleanse"; status_ids: string[] | null }
+  | { kind: "blast"; amount: number; radius: number };
+
+export interface ConsumableProfile {
+  key: ConsumableKey;
+  tier: number;
+  targeting: ConsumableTargeting;
+  range_tiles: number;
+  effects: ConsumableEffect[];
+}
+
+export type ConsumableService = "potions" | "bombs";
+
+interface ConsumableTemplate {
+  name: string;
+  service: ConsumableService;
+  targeting: ConsumableTargeting;
+  range_tiles: number;
+  /** List price at tier 1, before inflation. */
+  price: number;
+  hook: string;
+  effects: (tier: number) => ConsumableEffect[];
+}
+
+export const CONSUMABLE_TEMPLATES: Record<ConsumableKey, ConsumableTemplate> = {
+  healing_draught: {
+    name: "Healing Draught",
+    service: "potions",
+    targeting: "ally",
+    range_tiles: 1,
+    price: 12,
+    hook: "Tastes like cherries and regret. Works anyway.",
+    effects: (tier) => [{ kind: "heal", amount: 18 + tier * 14 }],
+  },
+  mana_tonic: {
+    name: "Mana Tonic",
+    service: "potions",
+    targeting: "ally",
+    range_tiles: 1,
+    price: 14,
+    hook: "Fizzes blue and hums a little when shaken.",
+    effects: (tier) => [{ kind: "restore_power", amount: 12 + tier * 8 }],
+  },
+  purging_salts: {
+    name: "Purging Salts",
+    service: "potions",
+    targeting: "ally",
+    range_tiles: 1,
+    price: 16,
+    hook: "One sniff and every curse packs its bags.",
+    effects: (tier) => [{ kind: "cleanse", status_ids: null }, { kind: "heal", amount: tier * 6 }],
+  },
+  fire_flask: {
+    name: "Fire Flask",
+    service: "bombs",
+    targeting: "area",
+    range_tiles: 4,
+    price: 18,
+    hook: "Do not cork it near the campfire.",
+    effects: (tier) => [{ kind: "blast", amount: 10 + tier * 9, radius: 1 }],
+  },
+  thunder_bomb: {
+    name: "Thunder Bomb",
+    service: "bombs",
+    targeting: "area",
+    range_tiles: 3,
+    price: 24,
+    hook: "Loud enough to be heard two towns over.",
+    effects: (tier) => [{ kind: "blast", amount: 7 + tier * 6, radius: 2 }],
+  },
+};
+
+/** Debuffs a cleanse strips. Hazard statuses from the arena always count. */
+const HARMFUL_STATUS_IDS = new Set([
+  "vulnerable",
+  "stun",
+  "slow",
+  "root",
+  "poison",
+  "burn",
+  "bleed",
+  "weakened",
+  "silence",
+  "fear",
+  "taunt",
+  "blind",
+]);
+
+const TIER_NUMERALS = ["I", "II", "III", "IV", "V"];
+const MAX_TIER = TIER_NUMERALS.length;
+
+const POTION_SERVICE_PATTERN = /(potion|alchem|apothec|herb|tonic|remed)/;
+const BOMB_SERVICE_PATTERN = /(bomb|explos|powder|grenad|demoli)/;
+
+function asRecord(value: unknown): Record<string, unknown> | null {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return null;
+  return value as Record<string, unknown>;
+}
+
+function isConsumableKey(value: unknown): value is ConsumableKey {
+  return typeof value === "string" && (CONSUMABLE_KEYS as readonly string[]).includes(value);
+}
+
+/** Potency steps up every eight character levels. */
+export function consumableTier(level: number): number {
+  return clampInt(1 + Math.floor((Math.max(1, Math.floor(level)) - 1) / 8), 1, MAX_TIER);
+}
+
+export function consumableProfile(key: ConsumableKey, tier: number): ConsumableProfile {
+  const template = CONSUMABLE_TEMPLATES[key];
+  const safeTier = clampInt(Math.floor(tier), 1, MAX_TIER);
+  return {
+    key,
+    tier: safeTier,
+    targeting: template.targeting,
+    range_tiles: template.range_tiles,
+    effects: template.effects(safeTier),
+  };
+}
+
+export function consumableName(profile: ConsumableProfile): string {
+  const base = CONSUMABLE_TEMPLATES[profile.key].name;
+  return profile.tier > 1 ? `${base} ${TIER_NUMERALS[profile.tier - 1]}` : base;
+}
+
+/** Two inventory rows hold the same consumable when their stack keys match. */
+export function consumableStackKey(profile: ConsumableProfile): string {
+  return `${profile.key}:${profile.tier}`;
+}
+
+export function consumablePrice(profile: ConsumableProfile, priceMultiplier = 1): number {
+  const scale = Number.isFinite(priceMultiplier) && priceMultiplier > 0 ? priceMultiplier : 1;
+  const base = CONSUMABLE_TEMPLATES[profile.key].price;
+  return Math.max(1, Math.floor(base * (1 + (profile.tier - 1) * 0.75) * scale));
+}
+
+function readEffect(value: unknown): ConsumableEffect | null {
+  const row = asRecord(value);
+  const amount = Math.max(0, Math.floor(Number(row?.amount ?? 0)));
+  if (row?.kind === "heal") return { kind: "heal", amount };
+  if (row?.kind === "restore_power") return { kind: "restore_power", amount };
+  if (row?.kind === "cleanse") {
+    const ids = Array.isArray(row.status_ids) ? row.status_ids.map((id) => String(id)).filter(Boolean) : null;
+    return { kind: "cleanse", status_ids: ids };
+  }
+  if (row?.kind === "blast") {
+    return { kind: "blast", amount, radius: clampInt(Math.floor(Number(row.radius ?? 1)), 0, 4) };
+  }
+  return null;
+}
+
+/** The item's consumable profile, or null for anything that is not a usable consumable. */
+export function readConsumable(item: Record<string, unknown> | null | undefined): ConsumableProfile | null {
+  if (!item || item.slot !== "consumable") return null;
+  const raw = asRecord(asRecord(item.effects_json)?.consumable);
+  if (!raw || !isConsumableKey(raw.key)) return null;
+  const targeting = raw.targeting === "self" || raw.targeting === "ally" || raw.targeting === "area" ? raw.targeting : null;
+  const effects = Array.isArray(raw.effects)
+    ? raw.effects.map(readEffect).filter((effect): effect is ConsumableEffect => effect !== null)
+    : [];
+  if (!targeting || effects.length === 0) return null;
+  return {
+    key: raw.key,
+    tier: clampInt(Math.floor(Number(raw.tier ?? 1)), 1, MAX_TIER),
+    targeting,
+    range_tiles: clampInt(Math.floor(Number(raw.range_tiles ?? 0)), 0, 8),
+    effects,
+  };
+}
+
+/** An items-table payload for one consumable, shaped like vendor stock and loot rows. */
+export function consumableItem(profile: ConsumableProfile): Record<string, unknown> {
+  const name = consumableName(profile);
+  return {
+    name,
+    rarity: profile.tier >= 4 ? "magical" : "common",
+    item_type: "consumable",
+    slot: "consumable",
+    weapon_family: null,
+    weapon_profile: {},
+    affixes: [],
+    stat_mods: {},
+    effects_json: { consumable: profile },
+    drawback_json: {},
+    narrative_hook: CONSUMABLE_TEMPLATES[profile.key].hook,
+    durability_json: {},
+    required_level: 1,
+    item_power: profile.tier,
+    set_tag: null,
+    drop_tier: "common",
+    bind_policy: "unbound",
+  };
+}
+
+export function vendorConsumableServices(services: readonly string[]): ConsumableService[] {
+  const lowered = services.map((service) => service.toLowerCase());
+  const out: ConsumableService[] = [];
+  if (lowered.some((service) => POTION_SERVICE_PATTERN.test(service))) out.push("potions");
+  if (lowered.some((service) => BOMB_SERVICE_PATTERN.test(service))) out.push("bombs");
+  return out;
+}
+
+/** One stocked stack per consumable the vendor's services cover, sized by the seed. */
+export function rollConsumableStock(args: {
+  seed: number;
+  label: string;
+  level: number;
+  services: readonly string[];
+  priceMultiplier?: number;
+}): Array<{ id: string; price: number; quantity: number; item: Record<string, unknown> }> {
+  const offered = vendorConsumableServices(args.services);
+  const tier = consumableTier(args.level);
+  return CONSUMABLE_KEYS
+    .filter((key) => offered.includes(CONSUMABLE_TEMPLATES[key].service))
+    .map((key) => {
+      const profile = consumableProfile(key, tier);
+      return {
+        id: `stock_${key}_${rngInt(args.seed, `${args.label}:${key}:id`, 1000, 9_999_999)}`,
+        price: consumablePrice(profile, args.priceMultiplier),
+        quantity: rngInt(args.seed, `${args.label}:${key}:quantity`, 2, 6),
+        item: consumableItem(profile),
+      };
+    });
+}
+
+export function isHarmfulStatus(id: string): boolean {
+  return id.startsWith("hazard_") || HARMFUL_STATUS_IDS.has(id);
+}
+
+function statusIds(statuses: unknown): string[] {
+  return (Array.isArray(statuses) ? statuses : [])
+    .map((entry) => String(asRecord(entry)?.id ?? ""))
+    .filter(Boolean);
+}
+
+export interface ConsumableCombatant {
+  id: string;
+  player_id: string | null;
+  x: number;
+  y: number;
+  hp: number;
+  hp_max: number;
+  power: number;
+  power_max: number;
+  armor: number;
+  statuses: unknown;
+  is_alive: boolean;
+}
+
+export interface ConsumablePatch {
+  combatant_id: string;
+  hp?: number;
+  power?: number;
+  armor?: number;
+  statuses?: unknown[];
+  is_alive?: boolean;
+}
+
+export interface ConsumableOutcome {
+  patches: ConsumablePatch[];
+  events: Array<{ event_type: string; payload: Record<string, unknown> }>;
+}
+
+function onPartySide(combatant: { player_id: string | null }): boolean {
+  return typeof combatant.player_id === "string" && combatant.player_id.trim().length > 0;
+}
+
+function isStanding(combatant: ConsumableCombatant): boolean {
+  return Boolean(combatant.is_alive) && Number(combatant.hp) > 0;
+}
+
+function tiles(a: { x: number; y: number }, b: { x: number; y: number }): number {
+  return Math.abs(Math.floor(a.x) - Math.floor(b.x)) + Math.abs(Math.floor(a.y) - Math.floor(b.y));
+}
+
+export function consumableInRange(profile: ConsumableProfile, user: { x: number; y: number }, at: { x: number; y: number }): boolean {
+  return profile.targeting === "self" || tiles(user, at) <= profile.range_tiles;
+}
+
+/**
+ * Who a use at `at` touches. Potions land on one standing member of the user's side on that tile; bombs hit every
+ * standing enemy of the user within the blast radius and never the user's own side.
+ */
+export function consumableTargets<T extends ConsumableCombatant>(args: {
+  profile: ConsumableProfile;
+  user: T;
+  at: { x: number; y: number };
+  combatants: readonly T[];
+}): T[] {
+  const { profile, user, at } = args;
+  if (profile.targeting === "self") return [user];
+  const standing = args.combatants.filter(isStanding);
+  if (profile.targeting === "ally") {
+    const target = standing.find((entry) => entry.x === at.x && entry.y === at.y && onPartySide(entry) === onPartySide(user));
+    return target ? [target] : [];
+  }
+  const radius = Math.max(0, ...profile.effects.map((effect) => (effect.kind === "blast" ? effect.radius : 0)));
+  return standing.filter((entry) => onPartySide(entry) !== onPartySide(user) && tiles(entry, at) <= radius);
+}
+
+/** Applies every effect in order to each target; later effects see earlier ones (a cleanse then a heal, say). */
+export function resolveConsumable(args: {
+  profile: ConsumableProfile;
+  user: ConsumableCombatant;
+  targets: readonly ConsumableCombatant[];
+  item: { id: string; name: string };
+}): ConsumableOutcome {
+  const { profile, user, item } = args;
+  const events: ConsumableOutcome["events"] = [];
+  const patches: ConsumablePatch[] = [];
+  const source = { source_combatant_id: user.id, item_id: item.id, item_name: item.name };
+
+  for (const target of args.targets) {
+    let hp = Math.max(0, Math.floor(Number(target.hp)));
+    let power = Math.max(0, Math.floor(Number(target.power)));
+    let armor = Math.max(0, Math.floor(Number(target.armor)));
+    let statuses: unknown[] = Array.isArray(target.statuses) ? [...target.statuses] : [];
+    const patch: ConsumablePatch = { combatant_id: target.id };
+
+    for (const effect of profile.effects) {
+      if (hp <= 0) break;
+      if (effect.kind === "heal") {
+        const next = Math.min(Math.max(hp, Math.floor(Number(target.hp_max))), hp + effect.amount);
+        if (next === hp) continue;
+        events.push({ event_type: "healed", payload: { ...source, target_combatant_id: target.id, amount: next - hp, hp_after: next } });
+        hp = next;
+        patch.hp = hp;
+      } else if (effect.kind === "restore_power") {
+        const next = Math.min(Math.max(power, Math.floor(Number(target.power_max))), power + effect.amount);
+        if (next === power) continue;
+        events.push({ event_type: "power_gain", payload: { ...source, target_combatant_id: target.id, amount: next - power, power_after: next } });
+        power = next;
+        patch.power = power;
+      } else if (effect.kind === "cleanse") {
+        const wanted = effect.status_ids ? new Set(effect.status_ids) : null;
+        const removed = statusIds(statuses).filter((id) => (wanted ? wanted.has(id) : isHarmfulStatus(id)));
+        if (removed.length === 0) continue;
+        statuses = statuses.filter((entry) => !removed.includes(String(asRecord(entry)?.id ?? "")));
+        events.push({ event_type: "cleanse", payload: { ...source, target_combatant_id: target.id, ids: removed } });
+        patch.statuses = statuses;
+      } else {
+        const absorbed = Math.min(armor, effect.amount);
+        const toHp = Math.max(0, effect.amount - absorbed);
+        armor -= absorbed;
+        hp = Math.max(0, hp - toHp);
+        events.push({
+          event_type: "damage",
+          payload: { ...source, target_combatant_id: target.id, shield_absorbed: absorbed, damage_to_hp: toHp, hp_after: hp, armor_after: armor },
+        });
+        patch.hp = hp;
+        patch.armor = armor;
+        if (hp <= 0) {
+          patch.is_alive = false;
+          events.push({ event_type: "death", payload: { target_combatant_id: target.id, by: { combatant_id: user.id, item_id: item.id } } });
+        }
+      }
+    }
+    if (Object.keys(patch).length > 1) patches.push(patch);
+  }
+  return { patches, events };
+}
+
+export interface ConsumableStack {
+  inventory_id: string;
+  item_id: string;
+  name: string;
+  quantity: number;
+  profile: ConsumableProfile;
+}
+
+export type CompanionStance = "aggressive" | "balanced" | "defensive";
+
+/** HP share at or below which a companion drinks or hands out a healing item. */
+const COMPANION_HEAL_THRESHOLD: Record<CompanionStance, number> = { aggressive: 0.25, balanced: 0.35, defensive: 0.5 };
+/** Enemies a bomb must catch before a companion throws it; defensive companions keep bombs for the player. */
+const COMPANION_BLAST_MIN_HITS: Record<CompanionStance, number | null> = { aggressive: 2, balanced: 3, defensive: null };
+
+/**
+ * The item a companion reaches for under its stance, if any: heal the most hurt ally in reach, purge its own debuffs
+ * (unless aggressive), or throw the bomb that catches the most enemies. Ties go to the first stack in the pouch.
+ */
+export function companionConsumablePlan<T extends ConsumableCombatant>(args: {
+  stance: CompanionStance;
+  actor: T;
+  allies: readonly T[];
+  opponents: readonly T[];
+  pouch: readonly ConsumableStack[];
+}): { stack: ConsumableStack; at: { x: number; y: number }; targets: T[] } | null {
+  const { stance, actor, pouch } = args;
+  const hpPct = (entry: T) => (Number(entry.hp_max) > 0 ? Number(entry.hp) / Number(entry.hp_max) : 1);
+
+  const healer = pouch.find((stack) => stack.profile.effects.some((effect) => effect.kind === "heal") && stack.profile.targeting !== "area");
+  if (healer) {
+    const wounded = [actor, ...args.allies.filter((entry) => entry.id !== actor.id)]
+      .filter((entry) => isStanding(entry) && hpPct(entry) <= COMPANION_HEAL_THRESHOLD[stance])
+      .filter((entry) => (healer.profile.targeting === "self" ? entry.id === actor.id : consumableInRange(healer.profile, actor, entry)))
+      .sort((left, right) => hpPct(left) - hpPct(right));
+    if (wounded[0]) return { stack: healer, at: { x: wounded[0].x, y: wounded[0].y }, targets: [wounded[0]] };
+  }
+
+  if (stance !== "aggressive" && statusIds(actor.statuses).some(isHarmfulStatus)) {
+    const purge = pouch.find((stack) => stack.profile.targeting !== "area" && stack.profile.effects.some((effect) => effect.kind === "cleanse"));
+    if (purge) return { stack: purge, at: { x: actor.x, y: actor.y }, targets: [actor] };
+  }
+
+  const minHits = COMPANION_BLAST_MIN_HITS[stance];
+  if (minHits === null) return null;
+  let best: { stack: ConsumableStack; at: { x: number; y: number }; targets: T[] } | null = null;
+  for (const stack of pouch) {
+    if (stack.profile.targeting !== "area") continue;
+    for (const aim of args.opponents) {
+      if (!isStanding(aim) || !consumableInRange(stack.profile, actor, aim)) continue;
+      const at = { x: aim.x, y: aim.y };
+      const targets = consumableTargets({ profile: stack.profile, user: actor, at, combatants: args.opponents });
+      if (targets.length >= minHits && targets.length > (best?.targets.length ?? 0)) best = { stack, at, targets };
+    }
+  }
+  return best;
+}
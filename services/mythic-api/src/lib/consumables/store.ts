@@ -0,0 +1,64 @@
+import { createServiceClient } from "../../shared/supabase.js";
+import { removeInventoryUnit } from "../crafting/store.js";
+import { consumableStackKey, readConsumable, type ConsumableStack } from "./effects.js";
+
+type ServiceClient = ReturnType<typeof createServiceClient>;
+
+function asRecord(value: unknown): Record<string, unknown> | null {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return null;
+  return value as Record<string, unknown>;
+}
+
+/** The usable consumables in a character's backpack, one entry per inventory row. */
+export async function loadConsumablePouch(svc: ServiceClient, characterId: string): Promise<ConsumableStack[]> {
+  const { data, error } = await svc
+    .schema("mythic")
+    .from("inventory")
+    .select("id, item_id, quantity, item:items(name, slot, effects_json)")
+    .eq("character_id", characterId)
+    .eq("container", "backpack")
+    .order("created_at", { ascending: true });
+  if (error) throw error;
+  const pouch: ConsumableStack[] = [];
+  for (const row of (data ?? []) as unknown as Array<Record<string, unknown>>) {
+    const item = asRecord(row.item);
+    const profile = readConsumable(item);
+    const quantity = Math.max(0, Math.floor(Number(row.quantity ?? 0)));
+    if (!profile || quantity <= 0) continue;
+    pouch.push({
+      inventory_id: String(row.id),
+      item_id: String(row.item_id),
+      name: typeof item?.name === "string" ? item.name : "Consumable",
+      quantity,
+      profile,
+    });
+  }
+  return pouch;
+}
+
+/** Uses up one unit of the stack; the last one removes the row. */
+export async function spendConsumable(svc: ServiceClient, stack: ConsumableStack): Promise<void> {
+  await removeInventoryUnit(svc, { inventory_id: stack.inventory_id, item_id: stack.item_id, quantity: stack.quantity });
+}
+
+/** The backpack stack a purchased consumable would join, or null when the character holds none of it yet. */
+export async function findConsumableStack(
+  svc: ServiceClient,
+  args: { characterId: string; item: Record<string, unknown> },
+): Promise<ConsumableStack | null> {
+  const profile = readConsumable(args.item);
+  if (!profile) return null;
+  const key = consumableStackKey(profile);
+  const pouch = await loadConsumablePouch(svc, args.characterId);
+  return pouch.find((entry) => consumableStackKey(entry.profile) === key) ?? null;
+}
+
+/** Adds one unit to the stack. Not idempotent: callers record the purchase before calling it. */
+export async function addToConsumableStack(svc: ServiceClient, stack: Pick<ConsumableStack, "inventory_id" | "quantity">): Promise<void> {
+  const { error } = await svc
+    .schema("mythic")
+    .from("inventory")
+    .update({ quantity: stack.quantity + 1, updated_at: new Date().toISOString() })
+    .eq("id", stack.inventory_id);
+  if (error) throw error;
+}
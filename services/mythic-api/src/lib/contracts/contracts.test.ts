@@ -0,0 +1,139 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import { creatureFamily } from "../combat/bestiary.js";
+import {
+  applyContractProgress,
+  contractObjectivesMet,
+  contractPostingStatus,
+  draftContract,
+  readContractObjectives,
+  readContractPosting,
+  syncJobPostingsWithContracts,
+  type ContractPosting,
+} from "./objectives.js";
+
+const SEED = 4242;
+const CREATURES = ["Thornbound Stalker", "Bubble Wyrm", "Bramble Drake", "Dire Goose", "Storm Kitty"];
+const COMPANIONS = [{ companion_id: "comp_vex", name: "Vex" }];
+
+function posting(template: ContractPosting["template"], danger = "medium"): ContractPosting {
+  return {
+    id: `job-${template ?? "dm"}`,
+    title: "Test Posting",
+    summary: null,
+    danger,
+    template,
+    issuer: "Ash Guild",
+    target: "Iron Choir",
+  };
+}
+
+test("creature families ignore duplicate suffixes", () => {
+  assert.equal(creatureFamily("Thunder Drake 2"), "drake");
+  assert.equal(creatureFamily("Bramble Drake"), "drake");
+  assert.equal(creatureFamily("  "), null);
+});
+
+test("postings read templates and fall back to a plain hunt for DM postings", () => {
+  assert.equal(readContractPosting({ id: "job-1" }), null);
+  const read = readContractPosting({ id: "job-1", title: "Odd Job", template: "bogus", danger: "HIGH" });
+  assert.equal(read?.template, null);
+  assert.equal(read?.danger, "high");
+
+  const draft = draftContract({ seed: SEED, posting: read!, creatureNames: CREATURES, companions: [] });
+  assert.equal(draft.objectives.length, 1);
+  assert.equal(draft.objectives[0]!.type, "kill_type");
+  assert.ok(CREATURES.map(creatureFamily).includes(draft.objectives[0]!.targetType));
+});
+
+test("drafts are deterministic and scale rewards with danger", () => {
+  const args = { seed: SEED, creatureNames: CREATURES, companions: COMPANIONS };
+  const low = draftContract({ ...args, posting: posting("supply_ring", "low") });
+  assert.deepEqual(draftContract({ ...args, posting: posting("supply_ring", "low") }), low);
+  const high = draftContract({ ...args, posting: posting("supply_ring", "high") });
+  assert.ok(high.rewards.xp > low.rewards.xp);
+  assert.deepEqual(low.rewards.reputation, [
+    { faction_name: "Ash Guild", change: 8 },
+    { faction_name: "Iron Choir", change: -4 },
+  ]);
+  assert.deepEqual(low.objectives.map((objective) => objective.type), ["kill_type", "explore"]);
+});
+
+test("an escort is only offered when a companion can go", () => {
+  const withCompanion = draftContract({ seed: SEED, posting: posting("scout_cell"), creatureNames: CREATURES, companions: COMPANIONS });
+  const escort = withCompanion.objectives.find((objective) => objective.type === "escort");
+  assert.equal(escort?.targetId, "comp_vex");
+  const alone = draftContract({ seed: SEED, posting: posting("scout_cell"), creatureNames: CREATURES, companions: [] });
+  assert.ok(!alone.objectives.some((objective) => objective.type === "escort"));
+  assert.ok(alone.objectives.some((objective) => objective.type === "kill_type"));
+});
+
+test("kills count only the hunted family and never pass the requirement", () => {
+  const draft = draftContract({ seed: SEED, posting: posting(null), creatureNames: ["Bramble Drake"], companions: [] });
+  const hunt = draft.objectives[0]!;
+  assert.equal(hunt.targetType, "drake");
+
+  const first = applyContractProgress(draft.objectives, { kind: "kills", sourceId: "c1", names: ["Bramble Drake", "Dire Goose"] });
+  assert.equal(first.changed, true);
+  assert.equal(first.objectives[0]!.current, 1);
+  const misses = applyContractProgress(first.objectives, { kind: "kills", sourceId: "c2", names: ["Dire Goose"] });
+  assert.equal(misses.changed, false);
+
+  const flood = applyContractProgress(first.objectives, {
+    kind: "kills",
+    sourceId: "c3",
+    names: Array.from({ length: 10 }, (_, index) => `Thunder Drake ${index + 1}`),
+  });
+  assert.equal(flood.objectives[0]!.current, hunt.required);
+  assert.equal(contractObjectivesMet(flood.objectives), true);
+});
+
+test("a delivery is picked up in its room and only counts back in town", () => {
+  const draft = draftContract({ seed: SEED, posting: posting("lost_ledger"), creatureNames: CREATURES, companions: [] });
+  const elsewhere = applyContractProgress(draft.objectives, { kind: "runtime", mode: "town", roomRoles: [], companionIds: [] });
+  assert.equal(elsewhere.changed, false);
+
+  const picked = applyContractProgress(draft.objectives, { kind: "runtime", mode: "dungeon", roomRoles: ["treasure"], companionIds: [] });
+  assert.equal(picked.objectives[0]!.carrying, true);
+  assert.equal(contractObjectivesMet(picked.objectives), false);
+
+  const delivered = applyContractProgress(picked.objectives, { kind: "runtime", mode: "town", roomRoles: [], companionIds: [] });
+  assert.equal(contractObjectivesMet(delivered.objectives), true);
+});
+
+test("escorts need the companion in the room, explores only need the party", () => {
+  const draft = draftContract({ seed: SEED, posting: posting("scout_cell"), creatureNames: CREATURES, companions: COMPANIONS });
+  const without = applyContractProgress(draft.objectives, { kind: "runtime", mode: "dungeon", roomRoles: ["boss"], companionIds: [] });
+  assert.equal(without.objectives.find((objective) => objective.type === "explore")!.current, 1);
+  assert.equal(without.objectives.find((objective) => objective.type === "escort")!.current, 0);
+
+  const together = applyContractProgress(without.objectives, { kind: "runtime", mode: "dungeon", roomRoles: ["boss"], companionIds: ["comp_vex"] });
+  assert.equal(contractObjectivesMet(together.objectives), true);
+});
+
+test("stored objectives are clamped and unknown types dropped", () => {
+  const read = readContractObjectives([
+    { id: "a", type: "kill_type", targetType: "drake", current: 9, required: 3 },
+    { id: "b", type: "dance", current: 0, required: 1 },
+    "junk",
+  ]);
+  assert.equal(read.length, 1);
+  assert.equal(read[0]!.current, 3);
+});
+
+test("the board mirrors contract state and progress", () => {
+  assert.equal(contractPostingStatus({ state: "active", turned_in_at: null }), "accepted");
+  assert.equal(contractPostingStatus({ state: "completed", turned_in_at: null }), "ready");
+  assert.equal(contractPostingStatus({ state: "completed", turned_in_at: "2026-03-02T09:00:00.000Z" }), "completed");
+  assert.equal(contractPostingStatus({ state: "abandoned", turned_in_at: null }), "failed");
+
+  const draft = draftContract({ seed: SEED, posting: posting(null), creatureNames: ["Bramble Drake"], companions: [] });
+  const synced = syncJobPostingsWithContracts(
+    [{ id: draft.source_ref, title: "Hunt", status: "open" }, { id: "job-other", title: "Other", status: "open" }],
+    [{ source_ref: draft.source_ref, state: "active", turned_in_at: null, objectives: draft.objectives }],
+  ) as Array<Record<string, unknown>>;
+  assert.equal(synced[0]!.status, "accepted");
+  assert.match(String(synced[0]!.progress), /\(0\/\d\)/);
+  assert.deepEqual(synced[1], { id: "job-other", title: "Other", status: "open" });
+});
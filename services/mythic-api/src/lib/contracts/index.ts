@@ -0,0 +1,2 @@
+export * from "./objectives.js";
+export * from "./store.js";
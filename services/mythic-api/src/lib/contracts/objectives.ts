@@ -0,0 +1,304 @@
+import { clampInt, rngInt, rngPick } from "../../shared/mythic_rng.js";
+import { creatureFamily } from "../combat/bestiary.js";
+
+export const CONTRACT_QUEST_SOURCE = "job_board";
+
+export type ContractTemplate = "supply_ring" | "scout_cell" | "lost_ledger";
+export type ContractObjectiveType = "kill_type" | "explore" | "escort" | "deliver";
+export type ContractState = "active" | "completed" | "failed" | "abandoned";
+export type ContractRuntimeMode = "town" | "travel" | "dungeon" | "combat";
+
+// Same shape as the client's QuestObjective, so the quest log can render contracts as they are stored.
+// kill_type: targetType is the creature family. explore: targetType is a dungeon room role.
+// escort: targetId is the companion, targetType the room role they must reach alive.
+// deliver: targetId names the item, targetType is the room role it is picked up in; it counts once carried back to town.
+export interface ContractObjective {
+  id: string;
+  type: ContractObjectiveType;
+  description: string;
+  targetId: string | null;
+  targetType: string | null;
+  current: number;
+  required: number;
+  optional: boolean;
+  hidden: boolean;
+  carrying?: boolean;
+}
+
+export interface ContractReputationReward {
+  faction_name: string;
+  change: number;
+}
+
+export interface ContractRewards {
+  xp: number;
+  coins: number;
+  reputation: ContractReputationReward[];
+}
+
+export interface ContractPosting {
+  id: string;
+  title: string;
+  summary: string | null;
+  danger: string;
+  template: ContractTemplate | null;
+  issuer: string | null;
+  target: string | null;
+}
+
+export interface ContractDraft {
+  source_ref: string;
+  title: string;
+  summary: string | null;
+  objectives: ContractObjective[];
+  rewards: ContractRewards;
+  issuer: string | null;
+}
+
+export interface ContractCompanion {
+  companion_id: string;
+  name: string;
+}
+
+/** What a progress source saw: enemies it defeated, or where a runtime transition left the party. */
+export type ContractProgressEvent =
+  | { kind: "kills"; sourceId: string; names: string[] }
+  | { kind: "runtime"; mode: ContractRuntimeMode; roomRoles: string[]; companionIds: string[] };
+
+/** Posting status on the board for a contract; "ready" means every objective is met and it waits to be turned in. */
+export type ContractPostingStatus = "accepted" | "ready" | "completed" | "failed";
+
+export interface ContractPostingView {
+  source_ref: string;
+  state: ContractState;
+  turned_in_at: string | null;
+  objectives: ContractObjective[];
+}
+
+const CONTRACT_TEMPLATES: ContractTemplate[] = ["supply_ring", "scout_cell", "lost_ledger"];
+
+// Reward multiplier per posting danger tier.
+const DANGER_SCALE: Record<string, number> = {
+  low: 1,
+  medium: 1.25,
+  rising: 1.25,
+  high: 1.5,
+};
+
+const ROOM_LABELS: Record<string, string> = {
+  treasure: "the treasure room",
+  boss: "the deepest chamber",
+  secret: "a hidden room",
+  branch: "a side passage",
+};
+
+function asRecord(value: unknown): Record<string, unknown> | null {
+  return value && typeof value === "object" && !Array.isArray(value) ? value as Record<string, unknown> : null;
+}
+
+function text(value: unknown): string | null {
+  return typeof value === "string" && value.trim().length > 0 ? value.trim() : null;
+}
+
+function roomLabel(role: string | null): string {
+  return (role && ROOM_LABELS[role]) ?? "the marked room";
+}
+
+function titleCase(word: string): string {
+  return word.charAt(0).toUpperCase() + word.slice(1);
+}
+
+export function readContractPosting(value: unknown): ContractPosting | null {
+  const row = asRecord(value);
+  const id = text(row?.id);
+  const title = text(row?.title) ?? text(row?.summary);
+  if (!row || !id || !title) return null;
+  const template = CONTRACT_TEMPLATES.find((entry) => entry === row.template) ?? null;
+  return {
+    id,
+    title,
+    summary: text(row.summary),
+    danger: text(row.danger)?.toLowerCase() ?? "medium",
+    template,
+    issuer: text(row.issuer),
+    target: text(row.target),
+  };
+}
+
+/**
+ * Turns a posting into a contract. Base postings carry a template; postings the DM invented fall back to a
+ * plain hunt. Kill targets are families from `creatureNames`; an escort is only offered when a companion can go.
+ */
+export function draftContract(args: {
+  seed: number;
+  posting: ContractPosting;
+  creatureNames: string[];
+  companions: ContractCompanion[];
+}): ContractDraft {
+  const { seed, posting } = args;
+  const label = `contract:${posting.id}`;
+  const families = [...new Set(args.creatureNames.map(creatureFamily).filter((entry): entry is string => Boolean(entry)))];
+  const family = families.length > 0 ? rngPick(seed, `${label}:family`, families) : "marauder";
+  const objective = (
+    type: ContractObjectiveType,
+    description: string,
+    target: { id?: string | null; type?: string | null; required?: number },
+  ): ContractObjective => ({
+    id: `${posting.id}:${type}`,
+    type,
+    description,
+    targetId: target.id ?? null,
+    targetType: target.type ?? null,
+    current: 0,
+    required: Math.max(1, target.required ?? 1),
+    optional: false,
+    hidden: false,
+  });
+  const hunt = (required: number) =>
+    objective("kill_type", `Defeat ${required} ${titleCase(family)}${required === 1 ? "" : "s"}`, { type: family, required });
+
+  const objectives: ContractObjective[] = [];
+  if (posting.template === "supply_ring") {
+    objectives.push(hunt(rngInt(seed, `${label}:kills`, 3, 5)));
+    objectives.push(objective("explore", `Find the courier cache in ${roomLabel("treasure")}`, { type: "treasure" }));
+  } else if (posting.template === "scout_cell") {
+    objectives.push(objective("explore", `Trail the scouts to their safehouse in ${roomLabel("boss")}`, { type: "boss" }));
+    const companion = args.companions.length > 0 ? rngPick(seed, `${label}:escort`, args.companions) : null;
+    objectives.push(companion
+      ? objective("escort", `Bring ${companion.name} to ${roomLabel("boss")} alive`, { id: companion.companion_id, type: "boss" })
+      : hunt(2));
+  } else if (posting.template === "lost_ledger") {
+    objectives.push(objective("deliver", `Recover the lost ledger from ${roomLabel("treasure")} and bring it back to town`, {
+      id: "lost_ledger",
+      type: "treasure",
+    }));
+  } else {
+    objectives.push(hunt(rngInt(seed, `${label}:kills`, 2, 4)));
+  }
+
+  const scale = DANGER_SCALE[posting.danger] ?? 1.25;
+  const reputation: ContractReputationReward[] = [];
+  if (posting.issuer) reputation.push({ faction_name: posting.issuer, change: Math.round(8 * scale) });
+  if (posting.target && posting.target !== posting.issuer) reputation.push({ faction_name: posting.target, change: -Math.round(4 * scale) });
+  return {
+    source_ref: posting.id,
+    title: posting.title,
+    summary: posting.summary,
+    objectives,
+    rewards: {
+      xp: Math.round((40 + objectives.length * 30) * scale),
+      coins: Math.round((20 + rngInt(seed, `${label}:coins`, 0, 20)) * scale),
+      reputation,
+    },
+    issuer: posting.issuer,
+  };
+}
+
+export function readContractObjectives(value: unknown): ContractObjective[] {
+  if (!Array.isArray(value)) return [];
+  return value.flatMap((entry): ContractObjective[] => {
+    const row = asRecord(entry);
+    if (!row || typeof row.id !== "string") return [];
+    if (row.type !== "kill_type" && row.type !== "explore" && row.type !== "escort" && row.type !== "deliver") return [];
+    const required = Math.max(1, Math.floor(Number(row.required) || 1));
+    return [{
+      id: row.id,
+      type: row.type,
+      description: typeof row.description === "string" ? row.description : row.id,
+      targetId: typeof row.targetId === "string" ? row.targetId : null,
+      targetType: typeof row.targetType === "string" ? row.targetType : null,
+      current: clampInt(Number(row.current) || 0, 0, required),
+      required,
+      optional: row.optional === true,
+      hidden: row.hidden === true,
+      ...(row.type === "deliver" ? { carrying: row.carrying === true } : {}),
+    }];
+  });
+}
+
+export function readContractRewards(value: unknown): ContractRewards {
+  const row = asRecord(value) ?? {};
+  return {
+    xp: Math.max(0, Math.floor(Number(row.xp) || 0)),
+    coins: Math.max(0, Math.floor(Number(row.coins) || 0)),
+    reputation: Array.isArray(row.reputation)
+      ? row.reputation.flatMap((entry): ContractReputationReward[] => {
+        const rep = asRecord(entry);
+        const name = text(rep?.faction_name);
+        const change = Math.trunc(Number(rep?.change) || 0);
+        return name && change !== 0 ? [{ faction_name: name, change }] : [];
+      })
+      : [],
+  };
+}
+
+/** Advances objectives for one progress event. Counts never go past `required` and never go back. */
+export function applyContractProgress(
+  objectives: ContractObjective[],
+  event: ContractProgressEvent,
+): { objectives: ContractObjective[]; changed: boolean } {
+  let changed = false;
+  const next = objectives.map((objective) => {
+    if (objective.current >= objective.required) return objective;
+    let current = objective.current;
+    let carrying = objective.carrying;
+    if (event.kind === "kills") {
+      if (objective.type === "kill_type" && objective.targetType) {
+        current += event.names.filter((name) => creatureFamily(name) === objective.targetType).length;
+      }
+    } else {
+      const reached = event.mode === "dungeon" && objective.targetType !== null && event.roomRoles.includes(objective.targetType);
+      if (objective.type === "explore" && reached) current = objective.required;
+      if (objective.type === "escort" && reached && objective.targetId && event.companionIds.includes(objective.targetId)) {
+        current = objective.required;
+      }
+      if (objective.type === "deliver") {
+        if (reached) carrying = true;
+        if (event.mode === "town" && carrying) current = objective.required;
+      }
+    }
+    current = Math.min(objective.required, current);
+    if (current === objective.current && carrying === objective.carrying) return objective;
+    changed = true;
+    return { ...objective, current, ...(carrying === undefined ? {} : { carrying }) };
+  });
+  return { objectives: next, changed };
+}
+
+export function contractObjectivesMet(objectives: ContractObjective[]): boolean {
+  const required = objectives.filter((objective) => !objective.optional);
+  return required.length > 0 && required.every((objective) => objective.current >= objective.required);
+}
+
+export function describeContractProgress(objectives: ContractObjective[]): string {
+  return objectives
+    .filter((objective) => !objective.hidden)
+    .map((objective) => {
+      if (objective.type === "kill_type") return `${objective.description} (${objective.current}/${objective.required})`;
+      if (objective.current >= objective.required) return `${objective.description} (done)`;
+      if (objective.type === "deliver" && objective.carrying) return `${objective.description} (carrying)`;
+      return objective.description;
+    })
+    .join(" · ");
+}
+
+export function contractPostingStatus(contract: Pick<ContractPostingView, "state" | "turned_in_at">): ContractPostingStatus {
+  if (contract.state === "failed" || contract.state === "abandoned") return "failed";
+  if (contract.state === "completed") return contract.turned_in_at ? "completed" : "ready";
+  return "accepted";
+}
+
+/** Mirrors contract state onto the board's job_postings so the notice board shows progress without a second read. */
+export function syncJobPostingsWithContracts(postings: unknown[], contracts: ContractPostingView[]): unknown[] {
+  const byRef = new Map(contracts.map((contract) => [contract.source_ref, contract]));
+  return postings.map((entry) => {
+    const row = asRecord(entry);
+    const contract = row && typeof row.id === "string" ? byRef.get(row.id) : undefined;
+    if (!row || !contract) return entry;
+    return {
+      ...row,
+      status: contractPostingStatus(contract),
+      progress: describeContractProgress(contract.objectives),
+    };
+  });
+}
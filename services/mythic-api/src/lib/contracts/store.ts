@@ -0,0 +1,401 @@
+import { createServiceClient } from "../../shared/supabase.js";
+import { applyReputationDelta } from "../reputation/store.js";
+import { loadCampaignRules, scaleXpGrant } from "../rules/houseRules.js";
+import {
+  CONTRACT_QUEST_SOURCE,
+  applyContractProgress,
+  contractObjectivesMet,
+  draftContract,
+  readContractObjectives,
+  readContractRewards,
+  syncJobPostingsWithContracts,
+  type ContractCompanion,
+  type ContractObjective,
+  type ContractPosting,
+  type ContractProgressEvent,
+  type ContractRewards,
+  type ContractState,
+} from "./objectives.js";
+
+type ServiceClient = ReturnType<typeof createServiceClient>;
+
+export type ContractRow = {
+  id: string;
+  campaign_id: string;
+  player_id: string | null;
+  character_id: string | null;
+  source_ref: string;
+  title: string;
+  summary: string | null;
+  state: ContractState;
+  objectives: ContractObjective[];
+  rewards: ContractRewards;
+  progress_refs: string[];
+  issuer_faction_id: string | null;
+  accepted_at: string;
+  completed_at: string | null;
+  turned_in_at: string | null;
+};
+
+export type ContractPayout = {
+  applied: boolean;
+  contract_id: string | null;
+  posting_id: string;
+  xp_awarded: number;
+  coins_awarded: number;
+  reputation: Array<{ faction_id: string; faction_name: string; change: number }>;
+  reason: string;
+};
+
+const CONTRACT_COLUMNS = [
+  "id",
+  "campaign_id",
+  "player_id",
+  "character_id",
+  "source_ref",
+  "title",
+  "summary",
+  "state",
+  "objectives",
+  "rewards",
+  "progress_refs",
+  "issuer_faction_id",
+  "accepted_at",
+  "completed_at",
+  "turned_in_at",
+].join(",");
+// Enough to cover every settlement a contract could plausibly live through.
+const PROGRESS_REF_LIMIT = 24;
+
+export function contractFromRow(row: unknown): ContractRow | null {
+  if (!row || typeof row !== "object" || Array.isArray(row)) return null;
+  const raw = row as Record<string, unknown>;
+  if (typeof raw.id !== "string" || typeof raw.campaign_id !== "string" || typeof raw.source_ref !== "string") return null;
+  const state = raw.state === "completed" || raw.state === "failed" || raw.state === "abandoned" ? raw.state : "active";
+  return {
+    id: raw.id,
+    campaign_id: raw.campaign_id,
+    player_id: typeof raw.player_id === "string" ? raw.player_id : null,
+    character_id: typeof raw.character_id === "string" ? raw.character_id : null,
+    source_ref: raw.source_ref,
+    title: typeof raw.title === "string" ? raw.title : raw.source_ref,
+    summary: typeof raw.summary === "string" ? raw.summary : null,
+    state,
+    objectives: readContractObjectives(raw.objectives),
+    rewards: readContractRewards(raw.rewards),
+    progress_refs: Array.isArray(raw.progress_refs) ? raw.progress_refs.filter((ref): ref is string => typeof ref === "string") : [],
+    issuer_faction_id: typeof raw.issuer_faction_id === "string" ? raw.issuer_faction_id : null,
+    accepted_at: typeof raw.accepted_at === "string" ? raw.accepted_at : new Date(0).toISOString(),
+    completed_at: typeof raw.completed_at === "string" ? raw.completed_at : null,
+    turned_in_at: typeof raw.turned_in_at === "string" ? raw.turned_in_at : null,
+  };
+}
+
+export async function loadCampaignContracts(svc: ServiceClient, campaignId: string): Promise<ContractRow[]> {
+  const query = await svc
+    .schema("mythic")
+    .from("quests")
+    .select(CONTRACT_COLUMNS)
+    .eq("campaign_id", campaignId)
+    .eq("source", CONTRACT_QUEST_SOURCE)
+    .order("accepted_at", { ascending: false })
+    .limit(40);
+  if (query.error) throw query.error;
+  return ((query.data ?? []) as unknown[]).map(contractFromRow).filter((row): row is ContractRow => Boolean(row));
+}
+
+async function loadContractByPosting(svc: ServiceClient, campaignId: string, postingId: string): Promise<ContractRow | null> {
+  const query = await svc
+    .schema("mythic")
+    .from("quests")
+    .select(CONTRACT_COLUMNS)
+    .eq("campaign_id", campaignId)
+    .eq("source", CONTRACT_QUEST_SOURCE)
+    .eq("source_ref", postingId)
+    .maybeSingle();
+  if (query.error) throw query.error;
+  return contractFromRow(query.data);
+}
+
+/** Creates the contract for a posting. Accepting a posting someone already took returns their contract. */
+export async function acceptContract(args: {
+  svc: ServiceClient;
+  campaignId: string;
+  playerId: string;
+  characterId: string | null;
+  seed: number;
+  posting: ContractPosting;
+  creatureNames: string[];
+  companions: ContractCompanion[];
+  factions: Array<{ id: string; name: string }>;
+}): Promise<{ contract: ContractRow; created: boolean }> {
+  const existing = await loadContractByPosting(args.svc, args.campaignId, args.posting.id);
+  if (existing) return { contract: existing, created: false };
+
+  const draft = draftContract({
+    seed: args.seed,
+    posting: args.posting,
+    creatureNames: args.creatureNames,
+    companions: args.companions,
+  });
+  const issuer = draft.issuer
+    ? args.factions.find((faction) => faction.name.trim().toLowerCase() === draft.issuer!.trim().toLowerCase()) ?? null
+    : null;
+  const inserted = await args.svc
+    .schema("mythic")
+    .from("quests")
+    .insert({
+      campaign_id: args.campaignId,
+      player_id: args.playerId,
+      character_id: args.characterId,
+      source: CONTRACT_QUEST_SOURCE,
+      source_ref: draft.source_ref,
+      title: draft.title,
+      summary: draft.summary,
+      state: "active",
+      objectives: draft.objectives,
+      rewards: draft.rewards,
+      issuer_faction_id: issuer?.id ?? null,
+    })
+    .select(CONTRACT_COLUMNS)
+    .single();
+  if (inserted.error) {
+    // Someone else took the posting between the read and the insert.
+    if (inserted.error.code === "23505") {
+      const raced = await loadContractByPosting(args.svc, args.campaignId, args.posting.id);
+      if (raced) return { contract: raced, created: false };
+    }
+    throw inserted.error;
+  }
+  const contract = contractFromRow(inserted.data);
+  if (!contract) throw new Error(`contract for posting ${args.posting.id} was not stored`);
+  return { contract, created: true };
+}
+
+/**
+ * Feeds one progress event to every active contract in the campaign and persists the ones that moved.
+ * Kill events are counted once per source, so a settlement that runs twice does not double count.
+ */
+export async function recordContractProgress(args: {
+  svc: ServiceClient;
+  campaignId: string;
+  event: ContractProgressEvent;
+}): Promise<ContractRow[]> {
+  const active = (await loadCampaignContracts(args.svc, args.campaignId)).filter((contract) => contract.state === "active");
+  const updated: ContractRow[] = [];
+  for (const contract of active) {
+    const sourceRef = args.event.kind === "kills" ? `combat:${args.event.sourceId}` : null;
+    if (sourceRef && contract.progress_refs.includes(sourceRef)) continue;
+    const progress = applyContractProgress(contract.objectives, args.event);
+    if (!progress.changed) continue;
+    const met = contractObjectivesMet(progress.objectives);
+    const completedAt = met ? new Date().toISOString() : null;
+    const progressRefs = sourceRef ? [...contract.progress_refs, sourceRef].slice(-PROGRESS_REF_LIMIT) : contract.progress_refs;
+    const { data, error } = await args.svc
+      .schema("mythic")
+      .from("quests")
+      .update({
+        objectives: progress.objectives,
+        progress_refs: progressRefs,
+        ...(met ? { state: "completed", completed_at: completedAt } : {}),
+      })
+      .eq("id", contract.id)
+      .eq("state", "active")
+      .select("id")
+      .maybeSingle();
+    if (error) throw error;
+    if (!data) continue;
+    updated.push({
+      ...contract,
+      objectives: progress.objectives,
+      progress_refs: progressRefs,
+      ...(met ? { state: "completed" as const, completed_at: completedAt } : {}),
+    });
+  }
+  return updated;
+}
+
+/** Returns the runtime state with its job_postings showing current contract status and progress. */
+export async function withContractPostings(
+  svc: ServiceClient,
+  campaignId: string,
+  state: Record<string, unknown>,
+): Promise<Record<string, unknown>> {
+  const postings = Array.isArray(state.job_postings) ? state.job_postings : [];
+  if (postings.length === 0) return state;
+  const contracts = await loadCampaignContracts(svc, campaignId);
+  if (contracts.length === 0) return state;
+  return { ...state, job_postings: syncJobPostingsWithContracts(postings, contracts) };
+}
+
+/** Re-syncs the active runtime's job_postings after a contract changed outside a runtime transition. */
+export async function refreshRuntimeContractPostings(svc: ServiceClient, campaignId: string): Promise<void> {
+  const runtimeQuery = await svc
+    .schema("mythic")
+    .from("campaign_runtime")
+    .select("id,state_json")
+    .eq("campaign_id", campaignId)
+    .eq("status", "active")
+    .order("updated_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (runtimeQuery.error) throw runtimeQuery.error;
+  const runtimeRow = runtimeQuery.data as { id: string; state_json: unknown } | null;
+  if (!runtimeRow || !runtimeRow.state_json || typeof runtimeRow.state_json !== "object" || Array.isArray(runtimeRow.state_json)) return;
+  const state = runtimeRow.state_json as Record<string, unknown>;
+  const nextState = await withContractPostings(svc, campaignId, state);
+  if (nextState === state) return;
+  const { error } = await svc
+    .schema("mythic")
+    .from("campaign_runtime")
+    .update({ state_json: nextState, updated_at: new Date().toISOString() })
+    .eq("id", runtimeRow.id);
+  if (error) throw error;
+}
+
+/**
+ * Pays out a completed contract to the player turning it in. turned_in_at is claimed first, so only one
+ * turn-in can pay; the grant is recorded in turn_reward_grants and a failed payout releases the claim.
+ */
+export async function turnInContract(args: {
+  svc: ServiceClient;
+  campaignId: string;
+  playerId: string;
+  postingId: string;
+  turnId: string;
+  factions: Array<{ id: string; name: string }>;
+  requestId: string;
+}): Promise<ContractPayout> {
+  const payout: ContractPayout = {
+    applied: false,
+    contract_id: null,
+    posting_id: args.postingId,
+    xp_awarded: 0,
+    coins_awarded: 0,
+    reputation: [],
+    reason: "contract_missing",
+  };
+  const contract = await loadContractByPosting(args.svc, args.campaignId, args.postingId);
+  if (!contract) return payout;
+  payout.contract_id = contract.id;
+  if (contract.turned_in_at) return { ...payout, reason: "already_turned_in" };
+  if (contract.state !== "completed") return { ...payout, reason: "objectives_incomplete" };
+
+  const { data: character, error: charErr } = await args.svc
+    .schema("mythic")
+    .from("characters")
+    .select("id,resources")
+    .eq("campaign_id", args.campaignId)
+    .eq("player_id", args.playerId)
+    .order("updated_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (charErr) throw charErr;
+  if (!character) return { ...payout, reason: "character_missing" };
+  const characterId = String((character as Record<string, unknown>).id);
+
+  const turnedInAt = new Date().toISOString();
+  const claim = await args.svc
+    .schema("mythic")
+    .from("quests")
+    .update({ turned_in_at: turnedInAt })
+    .eq("id", contract.id)
+    .eq("state", "completed")
+    .is("turned_in_at", null)
+    .select("id")
+    .maybeSingle();
+  if (claim.error) throw claim.error;
+  if (!claim.data) return { ...payout, reason: "already_turned_in" };
+
+  const releaseClaim = async () => {
+    await args.svc.schema("mythic").from("quests").update({ turned_in_at: null }).eq("id", contract.id);
+  };
+
+  const guardPayload = {
+    source: "contract_turn_in",
+    request_id: args.requestId,
+    contract_id: contract.id,
+    posting_id: args.postingId,
+  };
+  const guard = await args.svc.rpc("turn_reward_guard", {
+    p_turn_id: args.turnId,
+    p_campaign_id: args.campaignId,
+    p_character_id: characterId,
+    p_reward_key: `contract:${contract.id}`,
+    p_payload: guardPayload,
+  });
+  const guardId = !guard.error && typeof guard.data === "string" ? guard.data : null;
+  if (!guardId) {
+    await releaseClaim();
+    if (guard.error) throw guard.error;
+    return { ...payout, reason: "duplicate_turn_reward" };
+  }
+
+  try {
+    const rules = await loadCampaignRules(args.svc, args.campaignId);
+    const xp = scaleXpGrant(contract.rewards.xp, rules.tunables);
+    if (xp > 0) {
+      const xpResult = await args.svc.rpc("mythic_apply_xp", {
+        character_id: characterId,
+        amount: xp,
+        reason: "contract_turn_in",
+        metadata: { turn_id: args.turnId, contract_id: contract.id, posting_id: args.postingId },
+      });
+      if (xpResult.error) throw xpResult.error;
+    }
+
+    const coins = contract.rewards.coins;
+    if (coins > 0) {
+      const resourcesRaw = (character as Record<string, unknown>).resources;
+      const resources = resourcesRaw && typeof resourcesRaw === "object" && !Array.isArray(resourcesRaw)
+        ? resourcesRaw as Record<string, unknown>
+        : {};
+      const current = Math.max(0, Math.floor(Number(resources.coins) || 0));
+      const { error: coinErr } = await args.svc
+        .schema("mythic")
+        .from("characters")
+        .update({ resources: { ...resources, coins: current + coins }, updated_at: new Date().toISOString() })
+        .eq("id", characterId);
+      if (coinErr) throw coinErr;
+    }
+
+    const reputation: ContractPayout["reputation"] = [];
+    for (const reward of contract.rewards.reputation) {
+      const faction = args.factions.find((entry) => entry.name.trim().toLowerCase() === reward.faction_name.trim().toLowerCase());
+      if (!faction) continue;
+      await applyReputationDelta({
+        svc: args.svc,
+        campaignId: args.campaignId,
+        playerId: args.playerId,
+        factionId: faction.id,
+        delta: reward.change,
+        severity: 2,
+        evidence: { reason: "contract_turn_in", contract_id: contract.id, posting_id: args.postingId, turn_id: args.turnId },
+      });
+      reputation.push({ faction_id: faction.id, faction_name: faction.name, change: reward.change });
+    }
+
+    const { error: grantErr } = await args.svc
+      .schema("mythic")
+      .from("turn_reward_grants")
+      .update({
+        xp_amount: xp,
+        payload: { ...guardPayload, applied: true, coins, reputation },
+      })
+      .eq("id", guardId);
+    if (grantErr) throw grantErr;
+
+    return {
+      ...payout,
+      applied: true,
+      xp_awarded: xp,
+      coins_awarded: coins,
+      reputation,
+      reason: "contract_paid",
+    };
+  } catch (error) {
+    await args.svc.schema("mythic").from("turn_reward_grants").delete().eq("id", guardId);
+    await releaseClaim();
+    throw error;
+  }
+}
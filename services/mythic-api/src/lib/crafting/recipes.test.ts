@@ -0,0 +1,88 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import {
+  craftItem,
+  craftSeed,
+  craftingProficiency,
+  findRecipe,
+  missingMaterials,
+  recipeError,
+  recipeMaterials,
+  salvageYield,
+} from "./recipes.js";
+
+const NOVICE = craftingProficiency({ craftingSkills: 0, level: 1, utility: 10 });
+const ARTISAN = craftingProficiency({ craftingSkills: 1, level: 25, utility: 40 });
+
+const BLADE = {
+  name: "Storm Lance",
+  rarity: "unique",
+  slot: "weapon",
+  item_power: 16,
+  weapon_family: "polearms",
+  affixes: [{ key: "offense", value: 13 }, { key: "weapon_power", value: 5 }, { key: "defense", value: 3 }],
+  stat_mods: { offense: 13, defense: 3, weapon_power: 5 },
+};
+
+const FLAVOR = {
+  adjectivePool: ["Grave", "Honey", "Cursed", "Willow"],
+  nounPool: ["Coil", "Gadget", "Lantern", "Spur"],
+  flourishPool: ["of Respectful Chaos", "of Tactical Nonsense", "of Ash", "of Ink"],
+  raritySuffixByTier: {},
+  whimsicalScale: 0.5,
+};
+
+test("proficiency ranks crafting skills above level and utility", () => {
+  assert.deepEqual(NOVICE, { rank: 0, budget_bonus: 0, yield_bonus: 0, masterwork_chance: 0.03, field_crafting: false });
+  assert.equal(ARTISAN.rank, 6);
+  assert.equal(ARTISAN.field_crafting, true);
+  assert.ok(Math.abs(ARTISAN.masterwork_chance - 0.18) < 1e-9);
+});
+
+test("salvage yields scrap by power, materials by rarity and shards by affix", () => {
+  assert.deepEqual(salvageYield(BLADE, NOVICE), { scrap: 3, essence: 2, core: 1, offense_shard: 2, defense_shard: 1 });
+  assert.deepEqual(salvageYield(BLADE, ARTISAN), { scrap: 4, essence: 3, core: 1, offense_shard: 3, defense_shard: 1 });
+  assert.deepEqual(salvageYield({ rarity: "common", item_power: 3 }, NOVICE), { scrap: 1 });
+});
+
+test("recipes check rank, base and focus, and price shards for the focus stat", () => {
+  const attune = findRecipe("attune")!;
+  const temper = findRecipe("temper")!;
+  assert.equal(recipeError({ recipe: attune, base: BLADE, focus: "mobility", proficiency: NOVICE }), "recipe_locked");
+  assert.equal(recipeError({ recipe: attune, base: BLADE, focus: null, proficiency: ARTISAN }), "focus_required");
+  assert.equal(recipeError({ recipe: temper, base: { ...BLADE, rarity: "legendary" }, focus: null, proficiency: ARTISAN }), "base_rarity");
+  assert.equal(recipeError({ recipe: temper, base: { ...BLADE, slot: "material" }, focus: null, proficiency: ARTISAN }), "base_not_gear");
+  assert.equal(recipeError({ recipe: temper, base: BLADE, focus: null, proficiency: ARTISAN }), null);
+  assert.deepEqual(recipeMaterials(attune, "mobility"), { scrap: 3, mobility_shard: 3 });
+  assert.deepEqual(missingMaterials({ scrap: 5, mobility_shard: 1 }, { scrap: 3, mobility_shard: 3 }), { mobility_shard: 2 });
+});
+
+test("crafted gear is seeded, steps rarity, keeps slot stats and takes its name from the world's loot flavor", () => {
+  const temper = findRecipe("temper")!;
+  const args = {
+    seed: craftSeed({ campaignId: "c-1", baseItemId: "i-1", recipeId: "temper", focus: null }),
+    recipe: temper,
+    base: BLADE,
+    focus: null,
+    proficiency: ARTISAN,
+    flavor: FLAVOR,
+    level: 20,
+    campaignId: "c-1",
+    characterId: "ch-1",
+  };
+  const first = craftItem(args);
+  assert.deepEqual(craftItem(args), first);
+  assert.equal(first.item.rarity, "legendary");
+  assert.equal(first.item.slot, "weapon");
+  assert.equal(first.item.weapon_family, "polearms");
+  const mods = first.item.stat_mods as Record<string, number>;
+  assert.ok(mods.weapon_power > BLADE.stat_mods.weapon_power);
+  const name = String(first.item.name);
+  assert.ok(FLAVOR.adjectivePool.some((word) => name.startsWith(word)));
+  assert.ok(FLAVOR.nounPool.some((word) => name.includes(word)));
+
+  const attuned = craftItem({ ...args, recipe: findRecipe("attune")!, focus: "mobility" });
+  assert.equal(attuned.item.rarity, "unique");
+  assert.ok((attuned.item.stat_mods as Record<string, number>).mobility > 0);
+});
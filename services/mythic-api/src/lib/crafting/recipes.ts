@@ -0,0 +1,309 @@
+import { rarityBudget, rarityTier, type LootRarity } from "../../shared/loot_roll.js";
+import { clampInt, md5Hex, rng01, rngInt, rngPick } from "../../shared/mythic_rng.js";
+import type { LootFlavorProfile } from "../worldforge/schema.js";
+
+// Salvage and crafting. Salvage breaks gear into materials (stacked item rows in the material slot); recipes spend
+// materials and a base item to make new gear. Everything here is pure and seeded so the bench can preview it.
+
+export const STAT_KEYS = ["offense", "defense", "control", "support", "mobility", "utility"] as const;
+export type StatKey = (typeof STAT_KEYS)[number];
+
+export const BASE_MATERIALS = ["scrap", "essence", "core", "relic_dust"] as const;
+export type MaterialKey = (typeof BASE_MATERIALS)[number] | `${StatKey}_shard`;
+export type MaterialBundle = Partial<Record<MaterialKey, number>>;
+
+/** Slots that can be salvaged or used as a recipe base. */
+export const GEAR_SLOTS = ["weapon", "offhand", "armor", "helm", "gloves", "boots", "belt", "amulet", "ring", "trinket"] as const;
+
+export const MATERIAL_NAMES: Record<MaterialKey, string> = {
+  scrap: "Salvaged Scrap",
+  essence: "Arcane Essence",
+  core: "Resonant Core",
+  relic_dust: "Relic Dust",
+  offense_shard: "Offense Shard",
+  defense_shard: "Defense Shard",
+  control_shard: "Control Shard",
+  support_shard: "Support Shard",
+  mobility_shard: "Mobility Shard",
+  utility_shard: "Utility Shard",
+};
+
+const RARITY_MATERIALS: Record<LootRarity, MaterialBundle> = {
+  common: {},
+  magical: { essence: 1 },
+  unique: { essence: 2, core: 1 },
+  legendary: { essence: 3, core: 2 },
+  mythic: { core: 2, relic_dust: 1 },
+  unhinged: { core: 3, relic_dust: 2 },
+};
+
+const RARITY_ORDER: readonly LootRarity[] = ["common", "magical", "unique", "legendary", "mythic", "unhinged"];
+
+export type CraftRecipeId = "reforge" | "attune" | "temper" | "ascend";
+
+export interface CraftRecipe {
+  id: CraftRecipeId;
+  name: string;
+  description: string;
+  materials: MaterialBundle;
+  /** Shards of the chosen focus stat the recipe also consumes. */
+  focusShards: number;
+  /** Rarity tiers gained over the base item. */
+  rarityStep: 0 | 1;
+  /** Base rarities the recipe accepts, inclusive. */
+  minBaseRarity: LootRarity;
+  maxBaseRarity: LootRarity;
+  /** Crafting rank needed; see craftingProficiency. */
+  minRank: number;
+}
+
+export const CRAFT_RECIPES: readonly CraftRecipe[] = [
+  {
+    id: "reforge",
+    name: "Reforge",
+    description: "Melt the base down and recast it: same slot and rarity, fresh affixes.",
+    materials: { scrap: 4, essence: 1 },
+    focusShards: 0,
+    rarityStep: 0,
+    minBaseRarity: "common",
+    maxBaseRarity: "unhinged",
+    minRank: 0,
+  },
+  {
+    id: "attune",
+    name: "Attune",
+    description: "Work shards into the base so its affixes lean toward one stat.",
+    materials: { scrap: 3 },
+    focusShards: 3,
+    rarityStep: 0,
+    minBaseRarity: "common",
+    maxBaseRarity: "unhinged",
+    minRank: 1,
+  },
+  {
+    id: "temper",
+    name: "Temper",
+    description: "Fold essence and a core into the base to lift it a rarity tier, up to legendary.",
+    materials: { scrap: 8, essence: 4, core: 2 },
+    focusShards: 0,
+    rarityStep: 1,
+    minBaseRarity: "common",
+    maxBaseRarity: "unique",
+    minRank: 2,
+  },
+  {
+    id: "ascend",
+    name: "Ascend",
+    description: "Bind relic dust into a legendary piece and wake it as a mythic.",
+    materials: { core: 4, relic_dust: 3 },
+    focusShards: 0,
+    rarityStep: 1,
+    minBaseRarity: "legendary",
+    maxBaseRarity: "legendary",
+    minRank: 6,
+  },
+];
+
+export interface CraftingProficiency {
+  rank: number;
+  /** Extra share of the rarity budget crafted gear is rolled with. */
+  budget_bonus: number;
+  /** Extra share of materials salvage returns. */
+  yield_bonus: number;
+  masterwork_chance: number;
+  /** Characters with a crafting skill can craft away from a town workshop. */
+  field_crafting: boolean;
+}
+
+export type CraftError = "recipe_locked" | "base_not_gear" | "base_rarity" | "focus_required";
+
+// Used when the campaign has no worldforge profile to name items from.
+const DEFAULT_FLAVOR: LootFlavorProfile = {
+  adjectivePool: ["Tempered", "Patched", "Gleaming", "Stubborn"],
+  nounPool: ["Edge", "Ward", "Knot", "Coil"],
+  flourishPool: ["of the Workbench", "of Second Chances", "of Borrowed Sparks", "of Stubborn Rivets"],
+  raritySuffixByTier: {},
+  whimsicalScale: 0.3,
+};
+
+function asRecord(value: unknown): Record<string, unknown> | null {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return null;
+  return value as Record<string, unknown>;
+}
+
+export function isLootRarity(value: unknown): value is LootRarity {
+  return typeof value === "string" && (RARITY_ORDER as readonly string[]).includes(value);
+}
+
+export function isGearSlot(slot: unknown): boolean {
+  return typeof slot === "string" && (GEAR_SLOTS as readonly string[]).includes(slot);
+}
+
+export function isMaterialKey(value: unknown): value is MaterialKey {
+  return typeof value === "string" && value in MATERIAL_NAMES;
+}
+
+export function findRecipe(id: string): CraftRecipe | null {
+  return CRAFT_RECIPES.find((recipe) => recipe.id === id) ?? null;
+}
+
+/**
+ * Crafting rank comes from the character's crafting-kind skills first, then level and utility. Each rank adds a
+ * little budget, salvage yield and masterwork chance, all capped.
+ */
+export function craftingProficiency(args: { craftingSkills: number; level: number; utility: number }): CraftingProficiency {
+  const rank = Math.max(0, Math.floor(args.craftingSkills)) * 2
+    + Math.floor(clampInt(args.level, 1, 99) / 10)
+    + Math.floor(clampInt(args.utility, 0, 100) / 20);
+  return {
+    rank,
+    budget_bonus: Math.min(0.5, rank * 0.05),
+    yield_bonus: Math.min(1, rank * 0.1),
+    masterwork_chance: Math.min(0.35, 0.03 + rank * 0.025),
+    field_crafting: args.craftingSkills > 0,
+  };
+}
+
+export function addMaterials(into: MaterialBundle, add: MaterialBundle, scale = 1): MaterialBundle {
+  const out: MaterialBundle = { ...into };
+  for (const [key, amount] of Object.entries(add) as Array<[MaterialKey, number]>) {
+    const scaled = Math.floor((amount ?? 0) * scale);
+    if (scaled > 0) out[key] = (out[key] ?? 0) + scaled;
+  }
+  return out;
+}
+
+/** Scrap by item power, rarer materials by rarity, and a shard per stat the item's affixes push. */
+export function salvageYield(item: Record<string, unknown>, proficiency: CraftingProficiency): MaterialBundle {
+  const rarity = isLootRarity(item.rarity) ? item.rarity : "common";
+  const power = Math.max(1, Number(item.item_power) || 1);
+  let out: MaterialBundle = { scrap: 1 + Math.floor(power / 8) };
+  out = addMaterials(out, RARITY_MATERIALS[rarity]);
+  const affixes = Array.isArray(item.affixes) ? item.affixes : [];
+  for (const entry of affixes) {
+    const affix = asRecord(entry);
+    const key = typeof affix?.key === "string" ? affix.key : "";
+    const value = Number(affix?.value);
+    if (!(STAT_KEYS as readonly string[]).includes(key) || !Number.isFinite(value) || value <= 0) continue;
+    out = addMaterials(out, { [`${key}_shard`]: Math.max(1, Math.floor(value / 6)) });
+  }
+  return addMaterials({}, out, 1 + proficiency.yield_bonus);
+}
+
+export function recipeMaterials(recipe: CraftRecipe, focus: StatKey | null): MaterialBundle {
+  return recipe.focusShards > 0 && focus ? addMaterials(recipe.materials, { [`${focus}_shard`]: recipe.focusShards }) : { ...recipe.materials };
+}
+
+/** What the stacks are short of; empty when the bundle is affordable. */
+export function missingMaterials(have: MaterialBundle, need: MaterialBundle): MaterialBundle {
+  const out: MaterialBundle = {};
+  for (const [key, amount] of Object.entries(need) as Array<[MaterialKey, number]>) {
+    const short = (amount ?? 0) - (have[key] ?? 0);
+    if (short > 0) out[key] = short;
+  }
+  return out;
+}
+
+export function recipeError(args: {
+  recipe: CraftRecipe;
+  base: Record<string, unknown>;
+  focus: StatKey | null;
+  proficiency: CraftingProficiency;
+}): CraftError | null {
+  if (args.proficiency.rank < args.recipe.minRank) return "recipe_locked";
+  if (!isGearSlot(args.base.slot)) return "base_not_gear";
+  const rarity = isLootRarity(args.base.rarity) ? args.base.rarity : "common";
+  const tier = RARITY_ORDER.indexOf(rarity);
+  if (tier < RARITY_ORDER.indexOf(args.recipe.minBaseRarity) || tier > RARITY_ORDER.indexOf(args.recipe.maxBaseRarity)) return "base_rarity";
+  if (args.recipe.focusShards > 0 && !args.focus) return "focus_required";
+  return null;
+}
+
+/** One outcome per base item, recipe and focus: asking the bench again gives the same roll. */
+export function craftSeed(args: { campaignId: string; baseItemId: string; recipeId: string; focus: StatKey | null }): number {
+  return parseInt(md5Hex(`craft:${args.campaignId}:${args.baseItemId}:${args.recipeId}:${args.focus ?? "none"}`).slice(0, 8), 16) % 2_147_483_647;
+}
+
+export function craftedItemName(seed: number, label: string, flavor: LootFlavorProfile | null): string {
+  const pools = flavor ?? DEFAULT_FLAVOR;
+  const adjective = rngPick(seed, `${label}:adjective`, pools.adjectivePool);
+  const noun = rngPick(seed, `${label}:noun`, pools.nounPool);
+  const flourish = rng01(seed, `${label}:flourish_roll`) < pools.whimsicalScale ? ` ${rngPick(seed, `${label}:flourish`, pools.flourishPool)}` : "";
+  return `${adjective} ${noun}${flourish}`;
+}
+
+/**
+ * Rolls the crafted item row. Affixes are rerolled from the new rarity's budget (plus the crafter's bonus); the
+ * base's slot stats (weapon_power, armor_power, ...) carry over, scaled by the budget change.
+ */
+export function craftItem(args: {
+  seed: number;
+  recipe: CraftRecipe;
+  base: Record<string, unknown>;
+  focus: StatKey | null;
+  proficiency: CraftingProficiency;
+  flavor: LootFlavorProfile | null;
+  level: number;
+  campaignId: string;
+  characterId: string;
+}): { item: Record<string, unknown>; masterwork: boolean } {
+  const { seed, recipe, base, focus, proficiency } = args;
+  const label = `craft:${recipe.id}`;
+  const baseRarity = isLootRarity(base.rarity) ? base.rarity : "common";
+  const rarity = RARITY_ORDER[Math.min(RARITY_ORDER.length - 1, RARITY_ORDER.indexOf(baseRarity) + recipe.rarityStep)]!;
+  const masterwork = rng01(seed, `${label}:masterwork`) < proficiency.masterwork_chance;
+  let budget = Math.floor(rarityBudget(rarity) * (1 + proficiency.budget_bonus));
+  if (masterwork) budget += Math.floor(budget * 0.25);
+
+  const statMods: Record<string, number> = {};
+  const scale = budget / rarityBudget(baseRarity);
+  for (const [key, value] of Object.entries(asRecord(base.stat_mods) ?? {})) {
+    const n = Number(value);
+    if ((STAT_KEYS as readonly string[]).includes(key) || !Number.isFinite(n)) continue;
+    statMods[key] = Math.max(0, Math.round(n * scale));
+  }
+  const statCount = Math.max(1, Math.min(4, Math.floor(budget / 16) + 1)) + (masterwork ? 1 : 0);
+  for (let i = 0; i < statCount; i += 1) {
+    // Attuned items put every other roll into the focus stat.
+    const key = focus && i % 2 === 0 ? focus : rngPick(seed, `${label}:stat:${i}`, STAT_KEYS);
+    const roll = rngInt(seed, `${label}:roll:${key}:${i}`, 1, Math.max(2, Math.floor(budget / 3)));
+    statMods[key] = (statMods[key] ?? 0) + roll;
+  }
+
+  const level = clampInt(args.level, 1, 99);
+  const name = craftedItemName(seed, label, args.flavor);
+  const baseEffects = asRecord(base.effects_json) ?? {};
+  const decay = asRecord(base.durability_json)?.decay_per_use;
+  return {
+    masterwork,
+    item: {
+      campaign_id: args.campaignId,
+      owner_character_id: args.characterId,
+      name,
+      rarity,
+      item_type: typeof base.item_type === "string" ? base.item_type : "gear",
+      slot: base.slot,
+      weapon_family: base.weapon_family ?? null,
+      weapon_profile: asRecord(base.weapon_profile) ?? {},
+      affixes: Object.entries(statMods).map(([key, value]) => ({ key, value })),
+      stat_mods: statMods,
+      effects_json: {
+        source: "crafted",
+        budget,
+        recipe: recipe.id,
+        focus,
+        masterwork,
+        base_item_id: base.id ?? null,
+        granted_abilities: Array.isArray(baseEffects.granted_abilities) ? baseEffects.granted_abilities : [],
+      },
+      drawback_json: asRecord(base.drawback_json) ?? {},
+      narrative_hook: `${name} came off the workbench ${masterwork ? "singing; a masterwork" : "still warm"}, remade from ${String(base.name ?? "old gear")}.`,
+      durability_json: { current: 100, max: 100, decay_per_use: Number.isFinite(Number(decay)) ? Number(decay) : 1 },
+      required_level: Math.max(1, level - 2),
+      item_power: Math.max(1, Math.floor(level * (1 + budget / 40))),
+      set_tag: typeof base.set_tag === "string" ? base.set_tag : null,
+      drop_tier: rarityTier(rarity),
+      bind_policy: rarity === "common" || rarity === "magical" ? "unbound" : "bind_on_equip",
+    },
+  };
+}
@@ -0,0 +1,249 @@
+import { createHash } from "node:crypto";
+
+import { createServiceClient } from "../../shared/supabase.js";
+import { vendorHoursInState } from "../environment/worldClock.js";
+import { coerceCampaignContextFromProfile, type LootFlavorProfile } from "../worldforge/index.js";
+import {
+  craftingProficiency,
+  isMaterialKey,
+  MATERIAL_NAMES,
+  type CraftingProficiency,
+  type MaterialBundle,
+  type MaterialKey,
+} from "./recipes.js";
+
+type ServiceClient = ReturnType<typeof createServiceClient>;
+
+export interface MaterialStack {
+  inventory_id: string;
+  item_id: string;
+  quantity: number;
+}
+
+function asRecord(value: unknown): Record<string, unknown> | null {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return null;
+  return value as Record<string, unknown>;
+}
+
+/** A stable row id for a crafting write, so a retried request upserts the same rows. */
+export function uuidFromKey(key: string, label: string): string {
+  const hash = createHash("sha256").update(`${label}:${key}`).digest();
+  const bytes = Uint8Array.from(hash.subarray(0, 16));
+  // Version 5-ish and RFC4122 variant.
+  bytes[6] = (bytes[6] & 0x0f) | 0x50;
+  bytes[8] = (bytes[8] & 0x3f) | 0x80;
+  const hex = Buffer.from(bytes).toString("hex");
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+/** The last 50 craft or salvage keys this character completed, from `resources[field]`. */
+export function readCraftLedger(resources: Record<string, unknown>, field: "craft_ledger" | "salvage_ledger"): string[] {
+  const raw = Array.isArray(resources[field]) ? (resources[field] as unknown[]) : [];
+  return raw.filter((v): v is string => typeof v === "string").slice(-50);
+}
+
+/** Records a key in the character's ledger; written before the steps a retry must not repeat. */
+export async function recordCraftLedger(
+  svc: ServiceClient,
+  args: { characterId: string; resources: Record<string, unknown>; field: "craft_ledger" | "salvage_ledger"; ledger: string[]; key: string },
+): Promise<void> {
+  const { error } = await svc
+    .schema("mythic")
+    .from("characters")
+    .update({
+      resources: { ...args.resources, [args.field]: [...args.ledger, args.key].slice(-50) },
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", args.characterId);
+  if (error) throw error;
+}
+
+export async function loadCraftingProficiency(
+  svc: ServiceClient,
+  character: { id: string; level?: unknown; utility?: unknown },
+): Promise<CraftingProficiency> {
+  const { count, error } = await svc
+    .schema("mythic")
+    .from("skills")
+    .select("id", { count: "exact", head: true })
+    .eq("character_id", character.id)
+    .eq("kind", "crafting");
+  if (error) throw error;
+  return craftingProficiency({
+    craftingSkills: count ?? 0,
+    level: Number(character.level ?? 1),
+    utility: Number(character.utility ?? 10),
+  });
+}
+
+/** An open vendor offering the craft service, while the party is in town. */
+export async function findWorkshop(svc: ServiceClient, campaignId: string): Promise<{ vendor_id: string; name: string } | null> {
+  const { data, error } = await svc
+    .schema("mythic")
+    .from("campaign_runtime")
+    .select("mode, state_json")
+    .eq("campaign_id", campaignId)
+    .eq("status", "active")
+    .order("updated_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (error) throw error;
+  const runtime = data as { mode?: string; state_json?: unknown } | null;
+  if (runtime?.mode !== "town") return null;
+  const state = asRecord(runtime.state_json) ?? {};
+  const vendors = Array.isArray(state.vendors) ? state.vendors : [];
+  for (const entry of vendors) {
+    const vendor = asRecord(entry);
+    const services = Array.isArray(vendor?.services) ? vendor.services : [];
+    if (!vendor || !services.some((service) => typeof service === "string" && /craft/.test(service.toLowerCase()))) continue;
+    if (vendorHoursInState(state, String(vendor.id ?? ""))?.open !== false) {
+      return { vendor_id: String(vendor.id ?? ""), name: typeof vendor.name === "string" ? vendor.name : "Workshop" };
+    }
+  }
+  return null;
+}
+
+/** The world's loot naming pools; null when the campaign has no worldforge profile. */
+export async function loadLootFlavor(svc: ServiceClient, campaignId: string): Promise<LootFlavorProfile | null> {
+  const { data, error } = await svc
+    .schema("mythic")
+    .from("world_profiles")
+    .select("seed_title, seed_description, template_key, world_profile_json")
+    .eq("campaign_id", campaignId)
+    .maybeSingle();
+  if (error) throw error;
+  if (!data) return null;
+  const row = data as Record<string, unknown>;
+  return coerceCampaignContextFromProfile({
+    seedTitle: String(row.seed_title ?? "Mythic Campaign"),
+    seedDescription: String(row.seed_description ?? "Mythic campaign"),
+    templateKey: typeof row.template_key === "string" ? row.template_key : "custom",
+    worldProfileJson: asRecord(row.world_profile_json) ?? {},
+  }).worldContext.lootFlavorProfile;
+}
+
+/** A character's material stacks by material key, one backpack row per material. */
+export async function loadMaterialStacks(svc: ServiceClient, characterId: string): Promise<Map<MaterialKey, MaterialStack>> {
+  const { data, error } = await svc
+    .schema("mythic")
+    .from("inventory")
+    .select("id, item_id, quantity, item:items(slot, effects_json)")
+    .eq("character_id", characterId)
+    .eq("container", "backpack");
+  if (error) throw error;
+  const stacks = new Map<MaterialKey, MaterialStack>();
+  for (const row of (data ?? []) as unknown as Array<Record<string, unknown>>) {
+    const item = asRecord(row.item);
+    const key = asRecord(item?.effects_json)?.material;
+    if (item?.slot !== "material" || !isMaterialKey(key) || stacks.has(key)) continue;
+    stacks.set(key, {
+      inventory_id: String(row.id),
+      item_id: String(row.item_id),
+      quantity: Math.max(0, Math.floor(Number(row.quantity ?? 0))),
+    });
+  }
+  return stacks;
+}
+
+export function stackTotals(stacks: ReadonlyMap<MaterialKey, MaterialStack>): MaterialBundle {
+  const out: MaterialBundle = {};
+  for (const [key, stack] of stacks) out[key] = stack.quantity;
+  return out;
+}
+
+export async function grantMaterials(
+  svc: ServiceClient,
+  args: { campaignId: string; characterId: string; stacks: ReadonlyMap<MaterialKey, MaterialStack>; materials: MaterialBundle },
+): Promise<void> {
+  const now = new Date().toISOString();
+  for (const [key, amount] of Object.entries(args.materials) as Array<[MaterialKey, number]>) {
+    if (!amount || amount <= 0) continue;
+    const stack = args.stacks.get(key);
+    if (stack) {
+      const { error } = await svc
+        .schema("mythic")
+        .from("inventory")
+        .update({ quantity: stack.quantity + amount, updated_at: now })
+        .eq("id", stack.inventory_id);
+      if (error) throw error;
+      continue;
+    }
+    const { data: item, error: itemErr } = await svc
+      .schema("mythic")
+      .from("items")
+      .insert({
+        campaign_id: args.campaignId,
+        owner_character_id: args.characterId,
+        name: MATERIAL_NAMES[key],
+        rarity: "common",
+        item_type: "material",
+        slot: "material",
+        effects_json: { material: key },
+        narrative_hook: "Salvaged from gear that had seen better days.",
+        item_power: 1,
+        drop_tier: "common",
+        bind_policy: "unbound",
+      })
+      .select("id")
+      .single();
+    if (itemErr) throw itemErr;
+    const { error: invErr } = await svc.schema("mythic").from("inventory").insert({
+      character_id: args.characterId,
+      item_id: (item as { id: string }).id,
+      container: "backpack",
+      quantity: amount,
+    });
+    if (invErr) throw invErr;
+  }
+}
+
+/** Spends an affordable bundle; emptied stacks lose their inventory row and item row. */
+export async function spendMaterials(
+  svc: ServiceClient,
+  stacks: ReadonlyMap<MaterialKey, MaterialStack>,
+  materials: MaterialBundle,
+): Promise<void> {
+  const now = new Date().toISOString();
+  for (const [key, amount] of Object.entries(materials) as Array<[MaterialKey, number]>) {
+    const stack = stacks.get(key);
+    if (!stack || !amount || amount <= 0) continue;
+    if (stack.quantity > amount) {
+      const { error } = await svc
+        .schema("mythic")
+        .from("inventory")
+        .update({ quantity: stack.quantity - amount, updated_at: now })
+        .eq("id", stack.inventory_id);
+      if (error) throw error;
+      continue;
+    }
+    await removeInventoryUnit(svc, { inventory_id: stack.inventory_id, item_id: stack.item_id, quantity: 1 });
+  }
+}
+
+/** Takes one unit off an inventory row; the last unit deletes the row, and the item row once nothing references it. */
+export async function removeInventoryUnit(
+  svc: ServiceClient,
+  row: { inventory_id: string; item_id: string; quantity: number },
+): Promise<void> {
+  if (row.quantity > 1) {
+    const { error } = await svc
+      .schema("mythic")
+      .from("inventory")
+      .update({ quantity: row.quantity - 1, updated_at: new Date().toISOString() })
+      .eq("id", row.inventory_id);
+    if (error) throw error;
+    return;
+  }
+  const { error: invErr } = await svc.schema("mythic").from("inventory").delete().eq("id", row.inventory_id);
+  if (invErr) throw invErr;
+  const { count, error: countErr } = await svc
+    .schema("mythic")
+    .from("inventory")
+    .select("id", { count: "exact", head: true })
+    .eq("item_id", row.item_id);
+  if (countErr) throw countErr;
+  if (!count) {
+    const { error: itemErr } = await svc.schema("mythic").from("items").delete().eq("id", row.item_id);
+    if (itemErr) throw itemErr;
+  }
+}
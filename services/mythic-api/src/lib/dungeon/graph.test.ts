@@ -0,0 +1,123 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import { DENSITY_LEVELS, LETHALITY_LEVELS } from "../worldforge/schema.js";
+import {
+  applyDungeonAction,
+  dungeonDensityLevel,
+  generateDungeonGraph,
+  initialDungeonProgress,
+  readDungeonGraph,
+  readDungeonProgress,
+  revealedDungeonRooms,
+  type DungeonGraph,
+  type DungeonProgress,
+} from "./graph.js";
+
+const nameFor = (label: string) => label.split(":").pop() ?? label;
+
+function neighbours(graph: DungeonGraph, id: string): string[] {
+  return graph.edges.flatMap((edge) => (edge.from === id ? [edge.to] : edge.to === id ? [edge.from] : []));
+}
+
+// Greedy explorer: search every room, pick up keys, open whatever it can until nothing changes.
+function explore(graph: DungeonGraph): DungeonProgress {
+  let progress = initialDungeonProgress(graph);
+  for (let changed = true; changed;) {
+    changed = false;
+    for (const roomId of [...progress.visited]) {
+      const searched = applyDungeonAction(graph, progress, { roomId, toRoomId: null, action: "loot_cache" });
+      if (searched.outcome === "secret_found") {
+        progress = searched.progress;
+        changed = true;
+      }
+      for (const next of neighbours(graph, roomId)) {
+        if (progress.visited.includes(next)) continue;
+        const moved = applyDungeonAction(graph, progress, { roomId, toRoomId: next, action: "open_door" });
+        if (moved.outcome === "moved" || moved.outcome === "unlocked") {
+          progress = moved.progress;
+          changed = true;
+        }
+      }
+    }
+  }
+  return progress;
+}
+
+test("every density and lethality yields a branching, looping, finishable dungeon", () => {
+  for (const density of DENSITY_LEVELS) {
+    for (const lethality of LETHALITY_LEVELS) {
+      for (let seed = 1; seed <= 12; seed += 1) {
+        const graph = generateDungeonGraph({ seed, density, lethality, nameFor });
+        const label = `${density}/${lethality}/${seed}`;
+        const roles = graph.rooms.map((room) => room.role);
+        assert.equal(roles.filter((role) => role === "boss").length, 1, label);
+        assert.equal(roles.filter((role) => role === "secret").length, 1, label);
+        assert.ok(roles.includes("treasure"), label);
+
+        for (const room of graph.rooms.filter((entry) => entry.role === "treasure")) {
+          assert.equal(neighbours(graph, room.id).length, 1, `${label} treasure ${room.id} is a dead end`);
+        }
+        const bossDoors = graph.edges.filter((edge) => edge.from === graph.boss_room_id || edge.to === graph.boss_room_id);
+        assert.equal(bossDoors.length, 1, label);
+        assert.equal(bossDoors[0]!.kind, "locked", label);
+        if (density !== "low") assert.ok(graph.edges.some((edge) => edge.loop), label);
+        if (lethality !== "low") assert.ok(graph.edges.filter((edge) => edge.kind === "locked").length >= 2, label);
+
+        for (const edge of graph.edges.filter((entry) => entry.kind === "locked")) {
+          assert.equal(graph.rooms.filter((room) => room.key_id === edge.key_id).length, 1, `${label} ${edge.id} key`);
+        }
+        assert.equal(explore(graph).visited.length, graph.rooms.length, `${label} fully explorable`);
+      }
+    }
+  }
+  assert.ok(
+    generateDungeonGraph({ seed: 3, density: "wild", lethality: "brutal", nameFor }).rooms.length
+      > generateDungeonGraph({ seed: 3, density: "low", lethality: "low", nameFor }).rooms.length,
+  );
+  assert.equal(dungeonDensityLevel(0.1), "low");
+  assert.equal(dungeonDensityLevel(0.8), "wild");
+});
+
+test("fog, locked doors, keys and secret doors follow the graph", () => {
+  const graph = generateDungeonGraph({ seed: 7, density: "medium", lethality: "medium", nameFor });
+  let progress = initialDungeonProgress(graph);
+  const bossDoor = graph.edges.find((edge) => edge.to === graph.boss_room_id)!;
+  const secretDoor = graph.edges.find((edge) => edge.kind === "secret")!;
+
+  const revealed = revealedDungeonRooms(graph, progress);
+  assert.deepEqual(progress.visited, [graph.entrance_id]);
+  assert.deepEqual([...revealed].sort(), [graph.entrance_id, ...neighbours(graph, graph.entrance_id)]
+    .filter((id) => id !== (secretDoor.from === graph.entrance_id ? secretDoor.to : null))
+    .sort());
+
+  const far = graph.rooms.find((room) => !revealed.includes(room.id))!;
+  assert.equal(applyDungeonAction(graph, progress, { roomId: graph.entrance_id, toRoomId: far.id, action: "open_door" }).outcome, "no_route");
+  assert.equal(applyDungeonAction(graph, progress, { roomId: far.id, toRoomId: null, action: "loot_cache" }).outcome, "unreachable");
+
+  // Walk the spine to the boss door without its key.
+  let spineRoom = graph.entrance_id;
+  while (spineRoom !== bossDoor.from) {
+    const next = graph.edges.find((edge) => edge.from === spineRoom && !edge.loop && graph.rooms.find((room) => room.id === edge.to)?.role === "chamber")!;
+    progress = applyDungeonAction(graph, progress, { roomId: spineRoom, toRoomId: next.to, action: "open_door" }).progress;
+    spineRoom = next.to;
+  }
+  const withoutKey = { ...progress, keys_held: [] };
+  const blocked = applyDungeonAction(graph, withoutKey, { roomId: bossDoor.from, toRoomId: bossDoor.to, action: "open_door" });
+  assert.equal(blocked.outcome, "locked");
+  assert.equal(blocked.progress, withoutKey);
+  const opened = applyDungeonAction(graph, { ...progress, keys_held: [bossDoor.key_id!] }, { roomId: bossDoor.from, toRoomId: bossDoor.to, action: "open_door" });
+  assert.equal(opened.outcome, "unlocked");
+  assert.equal(opened.progress.current_room_id, graph.boss_room_id);
+
+  const atSecret = { ...initialDungeonProgress(graph), visited: [secretDoor.from], current_room_id: secretDoor.from };
+  assert.ok(!revealedDungeonRooms(graph, atSecret).includes(secretDoor.to));
+  const found = applyDungeonAction(graph, atSecret, { roomId: secretDoor.from, toRoomId: null, action: "loot_cache" });
+  assert.equal(found.outcome, "secret_found");
+  assert.ok(revealedDungeonRooms(graph, found.progress).includes(secretDoor.to));
+
+  const stored = JSON.parse(JSON.stringify({ graph, progress: found.progress }));
+  assert.deepEqual(readDungeonGraph(stored.graph), graph);
+  assert.deepEqual(readDungeonProgress(graph, stored.progress), found.progress);
+  assert.equal(readDungeonGraph({ rooms: [{ id: "room_1" }], edges: [] }), null);
+});
@@ -0,0 +1,352 @@
+import { rngInt, rngPick } from "../../shared/mythic_rng.js";
+import type { DensityLevel, LethalityLevel } from "../worldforge/schema.js";
+
+export const DUNGEON_GRAPH_VERSION = "dungeon-graph.v1";
+
+export type DungeonRoomRole = "entrance" | "chamber" | "branch" | "treasure" | "boss" | "secret";
+export type DungeonEdgeKind = "open" | "locked" | "secret";
+
+export interface DungeonRoom {
+  id: string;
+  name: string;
+  role: DungeonRoomRole;
+  tags: string[];
+  danger: number;
+  depth: number;
+  // Key lying in this room; picked up when the party enters.
+  key_id: string | null;
+}
+
+export interface DungeonEdge {
+  id: string;
+  from: string;
+  to: string;
+  kind: DungeonEdgeKind;
+  key_id: string | null;
+  loop: boolean;
+}
+
+export interface DungeonGraph {
+  version: string;
+  seed: number;
+  density: DensityLevel;
+  lethality: LethalityLevel;
+  entrance_id: string;
+  boss_room_id: string;
+  rooms: DungeonRoom[];
+  edges: DungeonEdge[];
+}
+
+export interface DungeonProgress {
+  current_room_id: string;
+  visited: string[];
+  keys_held: string[];
+  unlocked_doors: string[];
+  found_secrets: string[];
+}
+
+export type DungeonActionOutcome =
+  | "moved"
+  | "unlocked"
+  | "locked"
+  | "no_route"
+  | "unreachable"
+  | "secret_found"
+  | "acted";
+
+export interface DungeonActionResult {
+  progress: DungeonProgress;
+  outcome: DungeonActionOutcome;
+  room_id: string | null;
+  edge_id: string | null;
+  keys_found: string[];
+}
+
+// Main path length, side branches and loop edges per density level.
+const DENSITY_SHAPE: Record<DensityLevel, { path: [number, number]; branches: number; loops: number }> = {
+  low: { path: [4, 5], branches: 1, loops: 0 },
+  medium: { path: [5, 6], branches: 2, loops: 1 },
+  high: { path: [6, 7], branches: 3, loops: 2 },
+  wild: { path: [7, 9], branches: 4, loops: 3 },
+};
+
+// Room danger band, boss danger and how many side branches sit behind a locked door.
+const LETHALITY_SHAPE: Record<LethalityLevel, { danger: [number, number]; boss: number; lockedBranches: number }> = {
+  low: { danger: [1, 3], boss: 5, lockedBranches: 0 },
+  medium: { danger: [1, 4], boss: 6, lockedBranches: 1 },
+  high: { danger: [2, 5], boss: 7, lockedBranches: 1 },
+  brutal: { danger: [3, 6], boss: 8, lockedBranches: 2 },
+};
+
+const CHAMBER_TAGS = ["trap", "altar", "lair", "cache", "puzzle", "vault"] as const;
+const SEARCH_ACTIONS = new Set(["loot_cache", "study_puzzle", "study_altar"]);
+
+export function dungeonDensityLevel(score: number): DensityLevel {
+  if (!Number.isFinite(score)) return "medium";
+  if (score < 0.3) return "low";
+  if (score < 0.55) return "medium";
+  if (score < 0.75) return "high";
+  return "wild";
+}
+
+export function generateDungeonGraph(args: {
+  seed: number;
+  density: DensityLevel;
+  lethality: LethalityLevel;
+  nameFor: (label: string) => string;
+}): DungeonGraph {
+  const { seed, density, lethality } = args;
+  const shape = DENSITY_SHAPE[density];
+  const threat = LETHALITY_SHAPE[lethality];
+  const rooms: DungeonRoom[] = [];
+  const edges: DungeonEdge[] = [];
+
+  const addRoom = (role: DungeonRoomRole, depth: number, tags: string[], danger: number): DungeonRoom => {
+    const index = rooms.length;
+    const room: DungeonRoom = {
+      id: `room_${index + 1}`,
+      name: args.nameFor(`dungeon:room:${index}`),
+      role,
+      tags,
+      danger: Math.max(1, Math.min(10, danger)),
+      depth,
+      key_id: null,
+    };
+    rooms.push(room);
+    return room;
+  };
+  const addEdge = (from: DungeonRoom, to: DungeonRoom, kind: DungeonEdgeKind, loop = false): DungeonEdge => {
+    const edge: DungeonEdge = { id: `door_${edges.length + 1}`, from: from.id, to: to.id, kind, key_id: null, loop };
+    edges.push(edge);
+    return edge;
+  };
+  const chamberDanger = (label: string, depth: number) =>
+    rngInt(seed, label, threat.danger[0], threat.danger[1]) + Math.floor(depth / 3);
+
+  // Spine: entrance -> chambers -> boss. The boss door is the only way into the boss room.
+  const pathLength = rngInt(seed, "dungeon:path", shape.path[0], shape.path[1]);
+  const spine: DungeonRoom[] = [addRoom("entrance", 0, ["entry"], threat.danger[0])];
+  for (let i = 1; i < pathLength - 1; i += 1) {
+    const room = addRoom("chamber", i, [rngPick(seed, `dungeon:tag:${i}`, CHAMBER_TAGS)], chamberDanger(`dungeon:danger:${i}`, i));
+    addEdge(spine[i - 1]!, room, "open");
+    spine.push(room);
+  }
+  const boss = addRoom("boss", pathLength - 1, ["lair", "boss"], threat.boss);
+  const bossDoor = addEdge(spine[spine.length - 1]!, boss, "locked");
+
+  // Branches hang off non-boss spine rooms and end in a dead-end treasure room.
+  const branchEntries: DungeonEdge[] = [];
+  for (let b = 0; b < shape.branches; b += 1) {
+    const anchor = spine[rngInt(seed, `dungeon:branch:${b}:anchor`, b === 0 ? 1 : 0, spine.length - 1)] ?? spine[0]!;
+    const length = rngInt(seed, `dungeon:branch:${b}:length`, 1, 2);
+    let previous = anchor;
+    for (let step = 1; step <= length; step += 1) {
+      const depth = anchor.depth + step;
+      const isEnd = step === length;
+      const room = isEnd
+        ? addRoom("treasure", depth, ["cache"], chamberDanger(`dungeon:branch:${b}:danger:${step}`, depth))
+        : addRoom("branch", depth, [rngPick(seed, `dungeon:branch:${b}:tag:${step}`, CHAMBER_TAGS)], chamberDanger(`dungeon:branch:${b}:danger:${step}`, depth));
+      const edge = addEdge(previous, room, "open");
+      if (step === 1) branchEntries.push(edge);
+      previous = room;
+    }
+  }
+
+  // Loops only join spine rooms, so branch and boss doors stay true chokepoints.
+  const loopCandidates: Array<[DungeonRoom, DungeonRoom]> = [];
+  for (let i = 0; i < spine.length; i += 1) {
+    for (let j = i + 2; j < spine.length; j += 1) loopCandidates.push([spine[i]!, spine[j]!]);
+  }
+  for (let l = 0; l < shape.loops && loopCandidates.length > 0; l += 1) {
+    const index = rngInt(seed, `dungeon:loop:${l}`, 0, loopCandidates.length - 1);
+    const [from, to] = loopCandidates.splice(index, 1)[0]!;
+    addEdge(from, to, "open", true);
+  }
+
+  // One secret vault behind a hidden door off the spine.
+  const secretAnchor = spine[rngInt(seed, "dungeon:secret:anchor", 0, spine.length - 1)]!;
+  const secret = addRoom("secret", secretAnchor.depth + 1, ["vault", "secret"], chamberDanger("dungeon:secret:danger", secretAnchor.depth + 1));
+  addEdge(secretAnchor, secret, "secret");
+
+  // Lock the boss door plus some branch doors. Each key is placed somewhere reachable with only the
+  // earlier locks opened, so every dungeon can be finished.
+  const locks: DungeonEdge[] = [];
+  const lockable = [...branchEntries];
+  for (let k = 0; k < threat.lockedBranches && lockable.length > 0; k += 1) {
+    const edge = lockable.splice(rngInt(seed, `dungeon:lock:${k}`, 0, lockable.length - 1), 1)[0]!;
+    edge.kind = "locked";
+    locks.push(edge);
+  }
+  locks.push(bossDoor);
+  const opened = new Set<string>();
+  locks.forEach((edge, k) => {
+    edge.key_id = `key_${k + 1}`;
+    const reachable = reachableRooms({ rooms, edges, entrance_id: spine[0]!.id }, opened)
+      .filter((id) => id !== spine[0]!.id && !rooms.some((room) => room.id === id && room.key_id));
+    const preferred = reachable.filter((id) => {
+      const role = rooms.find((room) => room.id === id)?.role;
+      return role === "treasure" || role === "branch";
+    });
+    const pool = preferred.length > 0 ? preferred : reachable.length > 0 ? reachable : [spine[0]!.id];
+    const holder = rooms.find((room) => room.id === rngPick(seed, `dungeon:key:${k}`, pool))!;
+    holder.key_id = edge.key_id;
+    opened.add(edge.id);
+  });
+
+  return {
+    version: DUNGEON_GRAPH_VERSION,
+    seed,
+    density,
+    lethality,
+    entrance_id: spine[0]!.id,
+    boss_room_id: boss.id,
+    rooms,
+    edges,
+  };
+}
+
+// Rooms reachable from the entrance through open doors and the given unlocked/found doors.
+function reachableRooms(graph: Pick<DungeonGraph, "rooms" | "edges" | "entrance_id">, passable: Set<string>): string[] {
+  const seen = new Set<string>([graph.entrance_id]);
+  const queue = [graph.entrance_id];
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    for (const edge of graph.edges) {
+      if (edge.kind !== "open" && !passable.has(edge.id)) continue;
+      const next = edge.from === id ? edge.to : edge.to === id ? edge.from : null;
+      if (!next || seen.has(next)) continue;
+      seen.add(next);
+      queue.push(next);
+    }
+  }
+  return graph.rooms.map((room) => room.id).filter((id) => seen.has(id));
+}
+
+function edgeBetween(graph: DungeonGraph, a: string, b: string): DungeonEdge | null {
+  return graph.edges.find((edge) => (edge.from === a && edge.to === b) || (edge.from === b && edge.to === a)) ?? null;
+}
+
+function uniquePush(list: string[], value: string): string[] {
+  return list.includes(value) ? list : [...list, value];
+}
+
+export function initialDungeonProgress(graph: DungeonGraph): DungeonProgress {
+  return enterRoom(graph, {
+    current_room_id: graph.entrance_id,
+    visited: [],
+    keys_held: [],
+    unlocked_doors: [],
+    found_secrets: [],
+  }, graph.entrance_id).progress;
+}
+
+function enterRoom(graph: DungeonGraph, progress: DungeonProgress, roomId: string): { progress: DungeonProgress; keys: string[] } {
+  const room = graph.rooms.find((entry) => entry.id === roomId);
+  const keys = room?.key_id && !progress.keys_held.includes(room.key_id) ? [room.key_id] : [];
+  return {
+    progress: {
+      ...progress,
+      current_room_id: roomId,
+      visited: uniquePush(progress.visited, roomId),
+      keys_held: keys.reduce(uniquePush, progress.keys_held),
+    },
+    keys,
+  };
+}
+
+// Fog lifts on visited rooms and anything one visible door away; undiscovered secret doors hide their room.
+export function revealedDungeonRooms(graph: DungeonGraph, progress: DungeonProgress): string[] {
+  const revealed = new Set(progress.visited);
+  for (const edge of graph.edges) {
+    if (edge.kind === "secret" && !progress.found_secrets.includes(edge.id)) continue;
+    if (progress.visited.includes(edge.from)) revealed.add(edge.to);
+    if (progress.visited.includes(edge.to)) revealed.add(edge.from);
+  }
+  return graph.rooms.map((room) => room.id).filter((id) => revealed.has(id));
+}
+
+export function applyDungeonAction(
+  graph: DungeonGraph,
+  progress: DungeonProgress,
+  input: { roomId: string | null; toRoomId: string | null; action: string | null },
+): DungeonActionResult {
+  const fromId = input.roomId ?? progress.current_room_id;
+  const result = (patch: Partial<DungeonActionResult> & Pick<DungeonActionResult, "outcome">): DungeonActionResult => ({
+    progress,
+    room_id: fromId,
+    edge_id: null,
+    keys_found: [],
+    ...patch,
+  });
+  if (!graph.rooms.some((room) => room.id === fromId) || !progress.visited.includes(fromId)) {
+    return result({ outcome: "unreachable" });
+  }
+
+  if (input.toRoomId) {
+    const edge = edgeBetween(graph, fromId, input.toRoomId);
+    if (!edge || (edge.kind === "secret" && !progress.found_secrets.includes(edge.id))) {
+      return result({ outcome: "no_route" });
+    }
+    let next = progress;
+    let outcome: DungeonActionOutcome = "moved";
+    if (edge.kind === "locked" && !progress.unlocked_doors.includes(edge.id)) {
+      if (!edge.key_id || !progress.keys_held.includes(edge.key_id)) {
+        return result({ outcome: "locked", edge_id: edge.id });
+      }
+      next = { ...next, unlocked_doors: uniquePush(next.unlocked_doors, edge.id) };
+      outcome = "unlocked";
+    }
+    const entered = enterRoom(graph, next, input.toRoomId);
+    return result({ progress: entered.progress, outcome, room_id: input.toRoomId, edge_id: edge.id, keys_found: entered.keys });
+  }
+
+  const moved = { ...progress, current_room_id: fromId };
+  if (input.action && SEARCH_ACTIONS.has(input.action)) {
+    const hidden = graph.edges.find((edge) =>
+      edge.kind === "secret"
+      && (edge.from === fromId || edge.to === fromId)
+      && !progress.found_secrets.includes(edge.id));
+    if (hidden) {
+      return result({
+        progress: { ...moved, found_secrets: uniquePush(moved.found_secrets, hidden.id) },
+        outcome: "secret_found",
+        edge_id: hidden.id,
+      });
+    }
+  }
+  return result({ progress: moved, outcome: "acted" });
+}
+
+function asRecord(value: unknown): Record<string, unknown> {
+  return value && typeof value === "object" && !Array.isArray(value) ? (value as Record<string, unknown>) : {};
+}
+
+function stringList(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((entry): entry is string => typeof entry === "string") : [];
+}
+
+// Older runtime rows carry the straight-chain graph; those are regenerated rather than migrated.
+export function readDungeonGraph(value: unknown): DungeonGraph | null {
+  const raw = asRecord(value);
+  if (raw.version !== DUNGEON_GRAPH_VERSION || !Array.isArray(raw.rooms) || !Array.isArray(raw.edges)) return null;
+  const graph = raw as unknown as DungeonGraph;
+  if (!graph.rooms.some((room) => asRecord(room).id === graph.entrance_id)) return null;
+  return graph;
+}
+
+export function readDungeonProgress(graph: DungeonGraph, value: unknown): DungeonProgress {
+  const raw = asRecord(value);
+  const roomIds = new Set(graph.rooms.map((room) => room.id));
+  const visited = stringList(raw.visited).filter((id) => roomIds.has(id));
+  if (visited.length === 0) return initialDungeonProgress(graph);
+  const current = typeof raw.current_room_id === "string" && visited.includes(raw.current_room_id)
+    ? raw.current_room_id
+    : visited[visited.length - 1]!;
+  return {
+    current_room_id: current,
+    visited,
+    keys_held: stringList(raw.keys_held),
+    unlocked_doors: stringList(raw.unlocked_doors),
+    found_secrets: stringList(raw.found_secrets),
+  };
+}
@@ -0,0 +1,81 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import {
+  CAMP_TICKS,
+  INTERRUPTED_CAMP_TICKS,
+  biomeDanger,
+  campAmbushChance,
+  campCheckins,
+  readCampGuard,
+  readCharacterVitals,
+  recoverVitals,
+  restQuality,
+  restScore,
+  rollCamp,
+} from "./camp.js";
+import { worldClockAt, type ClockRegion } from "./worldClock.js";
+
+const SEED = 4242;
+const MARSH: ClockRegion = { id: "region_1", dominantBiome: "ambermarsh", corruption: 0.2 };
+const CLEAR_NIGHT = { ...worldClockAt(SEED, 6, MARSH), weather: "clear" as const };
+const CLEAR_NOON = { ...worldClockAt(SEED, 2, MARSH), weather: "clear" as const };
+
+test("vitals read from resources and a night gives back a share of what is missing", () => {
+  assert.equal(readCharacterVitals({}), null);
+  assert.equal(readCharacterVitals(null), null);
+  assert.deepEqual(readCharacterVitals({ hp_max: 120, hp: 30, power_max: 40, power: 5 }), { hp: 30, hp_max: 120, power: 5, power_max: 40 });
+  assert.deepEqual(readCharacterVitals({ hp_max: 80 }), { hp: 80, hp_max: 80, power: 0, power_max: 0 });
+  assert.equal(readCharacterVitals({ hp_max: 50, hp: 90 })?.hp, 50);
+
+  const rested = recoverVitals({ hp: 30, hp_max: 120, power: 5, power_max: 40 }, { hp_recovery: 0.5, power_recovery: 0.75 });
+  assert.deepEqual(rested, { hp: 75, hp_max: 120, power: 32, power_max: 40 });
+  assert.equal(readCampGuard("vigil"), "vigil");
+  assert.equal(readCampGuard("nap"), "watch");
+});
+
+test("rest quality follows the guard, the hour and the sky, and dungeons ignore the weather", () => {
+  assert.equal(restScore({ clock: CLEAR_NIGHT, boardType: "travel", guard: "watch" }), 60);
+  assert.equal(restScore({ clock: { ...CLEAR_NIGHT, weather: "storm" }, boardType: "travel", guard: "sleep" }), 55);
+  assert.equal(restScore({ clock: { ...CLEAR_NOON, weather: "storm" }, boardType: "dungeon", guard: "vigil" }), 10);
+  assert.equal(restScore({ clock: null, boardType: "travel", guard: "sleep" }), 70);
+  assert.deepEqual([75, 60, 35, 10].map(restQuality), ["restful", "steady", "uneasy", "ragged"]);
+});
+
+test("ambush odds rise with tension, danger, sleeping guards and the dark", () => {
+  const base = { tension: 0.5, danger: 0.4, clock: CLEAR_NOON, boardType: "travel" as const };
+  assert.equal(campAmbushChance({ ...base, guard: "watch" }), 31);
+  assert.equal(campAmbushChance({ ...base, guard: "sleep" }), 43);
+  assert.equal(campAmbushChance({ ...base, guard: "vigil" }), 21);
+  assert.equal(campAmbushChance({ ...base, guard: "watch", clock: { ...CLEAR_NIGHT, weather: "fog" } }), 49);
+  assert.equal(campAmbushChance({ ...base, guard: "watch", boardType: "dungeon" }), 36);
+  assert.equal(campAmbushChance({ tension: 1, danger: 1, guard: "sleep", clock: { ...CLEAR_NIGHT, weather: "fog" }, boardType: "travel" }), 85);
+  assert.equal(campAmbushChance({ tension: 0, danger: 0, guard: "vigil", clock: CLEAR_NOON, boardType: "travel" }), 2);
+
+  assert.equal(biomeDanger({ corruption: 0.5, townDensity: 0.5 }), 0.5);
+  assert.equal(biomeDanger({ corruption: 0.5, townDensity: 0.5 }, 1), 0.7);
+  assert.equal(biomeDanger(null), 0.3);
+});
+
+test("an ambush cuts the night short and halves the recovery", () => {
+  const args = { label: "camp", clock: CLEAR_NIGHT, boardType: "travel" as const, guard: "sleep" as const, tension: 0.8, danger: 0.6 };
+  const outcomes = Array.from({ length: 40 }, (_, seed) => rollCamp({ ...args, seed }));
+  assert.deepEqual(rollCamp({ ...args, seed: 7 }), outcomes[7]);
+  assert.ok(outcomes.every((outcome) => outcome.quality === "restful" && outcome.ambush_chance === 67));
+  const ambushed = outcomes.filter((outcome) => outcome.ambushed);
+  const quiet = outcomes.filter((outcome) => !outcome.ambushed);
+  assert.ok(ambushed.length > 0 && quiet.length > 0);
+  assert.ok(ambushed.every((outcome) => outcome.ticks === INTERRUPTED_CAMP_TICKS && outcome.hp_recovery === 0.5 && outcome.power_recovery === 0.75));
+  assert.ok(quiet.every((outcome) => outcome.ticks === CAMP_TICKS && outcome.hp_recovery === 1 && outcome.power_recovery === 1));
+});
+
+test("companions check in around the fire and raise the alarm after an ambush", () => {
+  const companions = ["wolf", "sage", "bard", "squire"].map((id) => ({ companion_id: id, name: id.toUpperCase(), mood: "steady" }));
+  const quiet = campCheckins({ seed: SEED, label: "camp", outcome: { ambushed: false, quality: "steady" }, companions, turnIndex: 9 });
+  assert.equal(quiet.length, 3);
+  assert.ok(quiet.every((entry) => entry.urgency === "low" && entry.mood === "steady" && entry.hook_type === "camp_checkin" && entry.turn_index === 9));
+  assert.match(quiet[0]!.line, /^WOLF: /);
+
+  const alarm = campCheckins({ seed: SEED, label: "camp", outcome: { ambushed: true, quality: "steady" }, companions, turnIndex: 9 });
+  assert.ok(alarm.every((entry) => entry.urgency === "high" && entry.mood === "alarmed"));
+});
@@ -0,0 +1,218 @@
+import { clampInt, rngInt, rngPick } from "../../shared/mythic_rng.js";
+import { environmentModifiers, type WorldClock } from "./worldClock.js";
+
+export const CAMP_VERSION = "camp.v1";
+
+// A full night in camp spans three periods; an ambush cuts it short after the first two.
+export const CAMP_TICKS = 3;
+export const INTERRUPTED_CAMP_TICKS = 2;
+
+/** Who keeps watch: everyone sleeps, a rotating watch, or a doubled vigil that costs the sleepers rest. */
+export const CAMP_GUARDS = ["sleep", "watch", "vigil"] as const;
+export type CampGuard = (typeof CAMP_GUARDS)[number];
+
+export const REST_QUALITIES = ["ragged", "uneasy", "steady", "restful"] as const;
+export type RestQuality = (typeof REST_QUALITIES)[number];
+
+/** Share of missing HP a night of this quality restores; power comes back a quarter faster. */
+const QUALITY_RECOVERY: Record<RestQuality, number> = {
+  ragged: 0.3,
+  uneasy: 0.5,
+  steady: 0.75,
+  restful: 1,
+};
+
+const GUARD_REST: Record<CampGuard, number> = { sleep: 20, watch: 0, vigil: -20 };
+const GUARD_AMBUSH: Record<CampGuard, number> = { sleep: 12, watch: 0, vigil: -10 };
+
+const WEATHER_REST: Record<WorldClock["weather"], number> = {
+  clear: 0,
+  cloudy: 0,
+  rain: -10,
+  storm: -25,
+  snow: -20,
+  fog: -5,
+  scorching: -10,
+};
+
+const DAYLIGHT_REST: Record<WorldClock["daylight"], number> = { day: -10, twilight: 0, night: 10 };
+
+export interface CharacterVitals {
+  hp: number;
+  hp_max: number;
+  power: number;
+  power_max: number;
+}
+
+export interface CampOutcome {
+  version: string;
+  guard: CampGuard;
+  quality: RestQuality;
+  rest_score: number;
+  ambush_chance: number;
+  ambush_roll: number;
+  ambushed: boolean;
+  ticks: number;
+  hp_recovery: number;
+  power_recovery: number;
+}
+
+export interface CampCheckin {
+  companion_id: string;
+  line: string;
+  mood: string;
+  urgency: "low" | "medium" | "high";
+  hook_type: "camp_checkin";
+  turn_index: number;
+}
+
+export function readCampGuard(value: unknown): CampGuard {
+  return CAMP_GUARDS.find((entry) => entry === value) ?? "watch";
+}
+
+/** Stored out-of-combat vitals; null for a character that has not fought yet and is still fresh. */
+export function readCharacterVitals(resources: Record<string, unknown> | null): CharacterVitals | null {
+  const hpMax = Math.floor(Number(resources?.hp_max));
+  if (!Number.isFinite(hpMax) || hpMax <= 0) return null;
+  const powerMax = Math.max(0, Math.floor(Number(resources?.power_max) || 0));
+  const hp = Number(resources?.hp);
+  const power = Number(resources?.power);
+  return {
+    hp: clampInt(Number.isFinite(hp) ? hp : hpMax, 0, hpMax),
+    hp_max: hpMax,
+    power: clampInt(Number.isFinite(power) ? power : powerMax, 0, powerMax),
+    power_max: powerMax,
+  };
+}
+
+/** 0-1: corrupted, thinly settled regions are the dangerous ones, worse still inside a corruption zone. */
+export function biomeDanger(region: { corruption: number; townDensity: number } | null, zoneSeverity = 0): number {
+  if (!region) return 0.3;
+  const danger = region.corruption * 0.6 + (1 - region.townDensity) * 0.4 + Math.max(0, zoneSeverity) * 0.2;
+  return Math.max(0, Math.min(1, Number(danger.toFixed(3))));
+}
+
+/** Dungeons keep the weather off but never let anyone sleep well; the sky only matters on the road. */
+export function restScore(args: { clock: WorldClock | null; boardType: "travel" | "dungeon"; guard: CampGuard }): number {
+  let score = args.boardType === "dungeon" ? 40 : 50;
+  score += GUARD_REST[args.guard];
+  if (args.clock) {
+    score += DAYLIGHT_REST[args.clock.daylight];
+    if (args.boardType === "travel" && args.clock.climate !== "underground") score += WEATHER_REST[args.clock.weather];
+  }
+  return clampInt(score, 0, 100);
+}
+
+export function restQuality(score: number): RestQuality {
+  if (score >= 70) return "restful";
+  if (score >= 50) return "steady";
+  if (score >= 30) return "uneasy";
+  return "ragged";
+}
+
+/** Percent chance the camp is found. World tension and biome danger are 0-1; night and fog add their encounter shift. */
+export function campAmbushChance(args: {
+  tension: number;
+  danger: number;
+  guard: CampGuard;
+  clock: WorldClock | null;
+  boardType: "travel" | "dungeon";
+}): number {
+  const tension = Math.max(0, Math.min(1, Number.isFinite(args.tension) ? args.tension : 0));
+  const danger = Math.max(0, Math.min(1, Number.isFinite(args.danger) ? args.danger : 0));
+  const chance = 6
+    + Math.round(tension * 30)
+    + Math.round(danger * 25)
+    + GUARD_AMBUSH[args.guard]
+    + (args.boardType === "dungeon" ? 5 : 0)
+    + environmentModifiers(args.clock, args.boardType).encounter_chance;
+  return clampInt(chance, 2, 85);
+}
+
+/** Pure in (seed, label, inputs). An ambush wakes the camp early and halves what the night gave back. */
+export function rollCamp(args: {
+  seed: number;
+  label: string;
+  clock: WorldClock | null;
+  boardType: "travel" | "dungeon";
+  guard: CampGuard;
+  tension: number;
+  danger: number;
+}): CampOutcome {
+  const score = restScore(args);
+  const quality = restQuality(score);
+  const ambushChance = campAmbushChance(args);
+  const ambushRoll = rngInt(args.seed, `${args.label}:ambush`, 1, 100);
+  const ambushed = ambushRoll <= ambushChance;
+  const recovery = QUALITY_RECOVERY[quality] * (ambushed ? 0.5 : 1);
+  return {
+    version: CAMP_VERSION,
+    guard: args.guard,
+    quality,
+    rest_score: score,
+    ambush_chance: ambushChance,
+    ambush_roll: ambushRoll,
+    ambushed,
+    ticks: ambushed ? INTERRUPTED_CAMP_TICKS : CAMP_TICKS,
+    hp_recovery: recovery,
+    power_recovery: Math.min(1, recovery + 0.25),
+  };
+}
+
+export function recoverVitals(vitals: CharacterVitals, outcome: Pick<CampOutcome, "hp_recovery" | "power_recovery">): CharacterVitals {
+  const hpGain = Math.ceil((vitals.hp_max - vitals.hp) * outcome.hp_recovery);
+  const powerGain = Math.ceil((vitals.power_max - vitals.power) * outcome.power_recovery);
+  return {
+    ...vitals,
+    hp: clampInt(vitals.hp + hpGain, 0, vitals.hp_max),
+    power: clampInt(vitals.power + powerGain, 0, vitals.power_max),
+  };
+}
+
+const CAMP_LINES: Record<"ambushed" | RestQuality, string[]> = {
+  ambushed: [
+    "Up, now. They found the fire.",
+    "Steel out. We're not alone out here.",
+    "I heard them a breath too late. On your feet!",
+  ],
+  ragged: [
+    "Nobody slept. We move before this place gets worse.",
+    "That was no rest. Keep your blade close today.",
+    "I counted every noise out there. Let's not camp here again.",
+  ],
+  uneasy: [
+    "Got a little sleep. Not enough.",
+    "Quiet night, mostly. I didn't like the quiet.",
+    "We'll hold together, but I'd rather a roof next time.",
+  ],
+  steady: [
+    "Decent night. I checked the gear while you slept.",
+    "Fire held, watch held. We're ready.",
+    "Some rest in the legs again. Where to?",
+  ],
+  restful: [
+    "Best sleep in weeks. Let's make it count.",
+    "Calm night. I feel like myself again.",
+    "Rested and fed. Point me at the next problem.",
+  ],
+};
+
+/** Up to three companions speak up around the fire; after an ambush every one of them is urgent. */
+export function campCheckins(args: {
+  seed: number;
+  label: string;
+  outcome: Pick<CampOutcome, "ambushed" | "quality">;
+  companions: Array<{ companion_id: string; name: string; mood: string }>;
+  turnIndex: number;
+}): CampCheckin[] {
+  const key = args.outcome.ambushed ? "ambushed" : args.outcome.quality;
+  const urgency = args.outcome.ambushed ? "high" : args.outcome.quality === "ragged" ? "medium" : "low";
+  return args.companions.slice(0, 3).map((companion) => ({
+    companion_id: companion.companion_id,
+    line: `${companion.name}: ${rngPick(args.seed, `${args.label}:line:${companion.companion_id}`, CAMP_LINES[key])}`,
+    mood: args.outcome.ambushed ? "alarmed" : companion.mood,
+    urgency,
+    hook_type: "camp_checkin",
+    turn_index: args.turnIndex,
+  }));
+}
@@ -0,0 +1,90 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import {
+  WEATHER_FRONT_TICKS,
+  advanceWorldClock,
+  climateForBiome,
+  describeWorldClock,
+  environmentModifiers,
+  readWorldClock,
+  resolveClockRegion,
+  transitionClockTicks,
+  vendorHours,
+  weatherAt,
+  worldClockAt,
+  type ClockRegion,
+} from "./worldClock.js";
+
+const SEED = 4242;
+const MARSH: ClockRegion = { id: "region_1", dominantBiome: "ambermarsh", corruption: 0.2 };
+const DUNES: ClockRegion = { id: "region_2", dominantBiome: "crystal dunes", corruption: 0.2 };
+
+test("biomes map to climates", () => {
+  assert.equal(climateForBiome("frostheath"), "cold");
+  assert.equal(climateForBiome("crystal dunes"), "arid");
+  assert.equal(climateForBiome("blightfen"), "wet");
+  assert.equal(climateForBiome("obsidianridge"), "volcanic");
+  assert.equal(climateForBiome("echo caverns"), "underground");
+  assert.equal(climateForBiome("lantern valley"), "temperate");
+  assert.equal(climateForBiome(null), "temperate");
+});
+
+test("weather is seeded per region and holds for a front", () => {
+  for (let tick = 0; tick < WEATHER_FRONT_TICKS * 6; tick += WEATHER_FRONT_TICKS) {
+    const first = weatherAt(SEED, MARSH, tick);
+    assert.equal(weatherAt(SEED, MARSH, tick), first);
+    if (first !== "scorching") assert.equal(weatherAt(SEED, MARSH, tick + 1), first);
+  }
+  const dunesAtNight = Array.from({ length: 60 }, (_, index) => weatherAt(SEED, DUNES, index * 8 + 6));
+  assert.ok(!dunesAtNight.includes("scorching"));
+  const marshYear = new Set(Array.from({ length: 80 }, (_, index) => weatherAt(SEED, MARSH, index * WEATHER_FRONT_TICKS)));
+  assert.ok(!marshYear.has("scorching"));
+  assert.ok(marshYear.size >= 3);
+});
+
+test("the clock advances by transitions and travel, and survives a round trip", () => {
+  assert.equal(transitionClockTicks("town"), 1);
+  assert.equal(transitionClockTicks("travel", 7), 4);
+  assert.equal(transitionClockTicks("travel", 0), 1);
+
+  const start = advanceWorldClock({ seed: SEED, previous: null, ticks: 1, region: MARSH });
+  assert.equal(start.tick, 1);
+  assert.equal(start.period, "morning");
+  assert.equal(start.daylight, "day");
+  const later = advanceWorldClock({ seed: SEED, previous: start, ticks: 10, region: MARSH });
+  assert.deepEqual([later.day, later.period], [2, "afternoon"]);
+  assert.deepEqual(readWorldClock(JSON.parse(JSON.stringify(later))), later);
+  assert.equal(readWorldClock({ ...later, version: "old" }), null);
+  assert.match(describeWorldClock(later), /^Afternoon, day 2: .+ over the ambermarsh\.$/);
+});
+
+test("regions resolve from the request, then the clock, then the seed", () => {
+  const biomeMap = {
+    regions: [
+      { ...MARSH, name: "North March", townDensity: 0.5, dungeonDensity: 0.4, capitalTown: "Ashford", tags: [] },
+      { ...DUNES, name: "South Reach", townDensity: 0.5, dungeonDensity: 0.4, capitalTown: "Sunrest", tags: [] },
+    ],
+  };
+  assert.equal(resolveClockRegion({ seed: SEED, biomeMap, requestedRegionId: "region_2" })?.id, "region_2");
+  const previous = worldClockAt(SEED, 4, MARSH);
+  assert.equal(resolveClockRegion({ seed: SEED, biomeMap, previous })?.id, "region_1");
+  assert.ok(resolveClockRegion({ seed: SEED, biomeMap }));
+  assert.equal(resolveClockRegion({ seed: SEED, biomeMap: null }), null);
+});
+
+test("night and weather shift encounter odds, aim and footing outside dungeons", () => {
+  const night = { ...worldClockAt(SEED, 6, MARSH), weather: "fog" as const };
+  assert.deepEqual(environmentModifiers(night, "travel"), { encounter_chance: 18, accuracy: -16, mobility: 0 });
+  assert.deepEqual(environmentModifiers(night, "dungeon"), { encounter_chance: 0, accuracy: 0, mobility: 0 });
+  const snowyNoon = { ...worldClockAt(SEED, 2, MARSH), weather: "snow" as const };
+  assert.deepEqual(environmentModifiers(snowyNoon, "town"), { encounter_chance: -6, accuracy: -3, mobility: -12 });
+  assert.deepEqual(environmentModifiers(null, "travel"), { encounter_chance: 0, accuracy: 0, mobility: 0 });
+});
+
+test("stalls keep daytime hours while inns stay open late", () => {
+  assert.deepEqual(vendorHours(["notice_board"], 2), { open: true, opens_in_ticks: 0 });
+  assert.deepEqual(vendorHours(["notice_board"], 6), { open: false, opens_in_ticks: 3 });
+  assert.deepEqual(vendorHours(["inn", "healer"], 6), { open: true, opens_in_ticks: 0 });
+  assert.deepEqual(vendorHours(["inn"], 7), { open: false, opens_in_ticks: 1 });
+});
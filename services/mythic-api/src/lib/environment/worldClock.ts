@@ -0,0 +1,275 @@
+import { clampInt, rngPick, weightedPick } from "../../shared/mythic_rng.js";
+import { TOWN_DAY_PERIODS, TOWN_TICKS_PER_DAY, townDayPeriod, type TownDayPeriod } from "../town/schedule.js";
+import type { BiomeMap } from "../worldforge/schema.js";
+
+export const WORLD_CLOCK_VERSION = "world-clock.v1";
+
+// Same periods as the town clock: one tick per period, eight to a day. Weather holds for a front of three ticks.
+export const WEATHER_FRONT_TICKS = 3;
+// Two route segments of travel take one period of the day.
+export const TRAVEL_SEGMENTS_PER_TICK = 2;
+
+// Matches the client's WeatherType (src/engine/narrative/Travel.ts).
+export const WEATHER_TYPES = ["clear", "cloudy", "rain", "storm", "snow", "fog", "scorching"] as const;
+export type WeatherType = (typeof WEATHER_TYPES)[number];
+
+export const CLIMATES = ["temperate", "cold", "arid", "wet", "volcanic", "underground"] as const;
+export type Climate = (typeof CLIMATES)[number];
+
+export type Daylight = "day" | "twilight" | "night";
+
+export interface WorldClock {
+  version: string;
+  tick: number;
+  day: number;
+  period: TownDayPeriod;
+  daylight: Daylight;
+  weather: WeatherType;
+  climate: Climate;
+  region_id: string | null;
+  biome: string | null;
+}
+
+/** Percentage points on encounter rolls, aim bonus on hit rolls (status bonus scale) and flat mobility. */
+export interface EnvironmentModifiers {
+  encounter_chance: number;
+  accuracy: number;
+  mobility: number;
+}
+
+export interface ClockRegion {
+  id: string;
+  dominantBiome: string;
+  corruption: number;
+}
+
+const CLIMATE_RULES: Array<{ pattern: RegExp; climate: Climate }> = [
+  { pattern: /(catacomb|cavern|cave|crypt|undercity|tunnel)/, climate: "underground" },
+  { pattern: /(frost|snow|ice|tundra|glacier|arctic)/, climate: "cold" },
+  { pattern: /(obsidian|volcan|lava|ember|cinder|magma|ash)/, climate: "volcanic" },
+  { pattern: /(dune|desert|sand|waste|badland|sunfield)/, climate: "arid" },
+  { pattern: /(marsh|fen|bog|swamp|mire|delta|river|coast)/, climate: "wet" },
+];
+
+const CLIMATE_WEATHER: Record<Climate, Record<WeatherType, number>> = {
+  temperate: { clear: 8, cloudy: 6, rain: 4, storm: 2, snow: 1, fog: 2, scorching: 1 },
+  cold: { clear: 5, cloudy: 5, rain: 1, storm: 2, snow: 8, fog: 3, scorching: 0 },
+  arid: { clear: 9, cloudy: 2, rain: 1, storm: 2, snow: 0, fog: 1, scorching: 7 },
+  wet: { clear: 4, cloudy: 5, rain: 8, storm: 4, snow: 1, fog: 5, scorching: 0 },
+  volcanic: { clear: 4, cloudy: 5, rain: 1, storm: 4, snow: 0, fog: 4, scorching: 6 },
+  underground: { clear: 8, cloudy: 0, rain: 0, storm: 0, snow: 0, fog: 4, scorching: 0 },
+};
+
+const WEATHER_MODIFIERS: Record<WeatherType, EnvironmentModifiers> = {
+  clear: { encounter_chance: 0, accuracy: 0, mobility: 0 },
+  cloudy: { encounter_chance: 0, accuracy: 0, mobility: 0 },
+  rain: { encounter_chance: -4, accuracy: -4, mobility: -4 },
+  storm: { encounter_chance: -8, accuracy: -8, mobility: -8 },
+  snow: { encounter_chance: -6, accuracy: -3, mobility: -12 },
+  // Fog hides ambushers as well as it hides the party.
+  fog: { encounter_chance: 8, accuracy: -10, mobility: 0 },
+  scorching: { encounter_chance: -4, accuracy: -2, mobility: -6 },
+};
+
+const DAYLIGHT_MODIFIERS: Record<Daylight, EnvironmentModifiers> = {
+  day: { encounter_chance: 0, accuracy: 0, mobility: 0 },
+  twilight: { encounter_chance: 4, accuracy: -2, mobility: 0 },
+  night: { encounter_chance: 10, accuracy: -6, mobility: 0 },
+};
+
+const NO_MODIFIERS: EnvironmentModifiers = { encounter_chance: 0, accuracy: 0, mobility: 0 };
+
+// Stalls trade from morning to dusk; inns, healers and chapels only shut in the small hours.
+const DAYTIME_HOURS: TownDayPeriod[] = ["morning", "midday", "afternoon", "dusk"];
+const LATE_HOURS: TownDayPeriod[] = TOWN_DAY_PERIODS.filter((period) => period !== "small_hours");
+const LATE_SERVICE_PATTERN = /(inn|tavern|healer|clinic|med|chapel|apothecary)/;
+
+export function daylightFor(period: TownDayPeriod): Daylight {
+  if (period === "dawn" || period === "dusk") return "twilight";
+  if (period === "evening" || period === "night" || period === "small_hours") return "night";
+  return "day";
+}
+
+export function climateForBiome(biome: string | null): Climate {
+  const text = (biome ?? "").toLowerCase();
+  return CLIMATE_RULES.find((rule) => rule.pattern.test(text))?.climate ?? "temperate";
+}
+
+/**
+ * Weather of a region at a tick. Pure in (seed, region, tick): every tick of a front agrees, and corrupted
+ * regions brew more storms. The sun does not scorch at night.
+ */
+export function weatherAt(seed: number, region: ClockRegion | null, tick: number): WeatherType {
+  const climate = climateForBiome(region?.dominantBiome ?? null);
+  const front = Math.floor(Math.max(0, tick) / WEATHER_FRONT_TICKS);
+  const weights = CLIMATE_WEATHER[climate];
+  const weather = weightedPick(
+    seed,
+    `world_clock:weather:${region?.id ?? "none"}:${front}`,
+    WEATHER_TYPES.map((item) => ({
+      item,
+      weight: weights[item] + (item === "storm" && climate !== "underground" && (region?.corruption ?? 0) >= 0.62 ? 3 : 0),
+    })),
+  );
+  if (weather === "scorching" && daylightFor(townDayPeriod(tick)) === "night") return "clear";
+  return weather;
+}
+
+/** The region the clock follows: the one asked for, then the one it already tracks, then a seeded pick. */
+export function resolveClockRegion(args: {
+  seed: number;
+  biomeMap: Pick<BiomeMap, "regions"> | null;
+  requestedRegionId?: string | null;
+  previous?: WorldClock | null;
+}): ClockRegion | null {
+  const regions = args.biomeMap?.regions ?? [];
+  if (regions.length === 0) return null;
+  const region = regions.find((entry) => entry.id === args.requestedRegionId)
+    ?? regions.find((entry) => entry.id === args.previous?.region_id)
+    ?? rngPick(args.seed, "world_clock:region", regions);
+  return { id: region.id, dominantBiome: region.dominantBiome, corruption: region.corruption };
+}
+
+export function worldClockAt(seed: number, tick: number, region: ClockRegion | null): WorldClock {
+  const safeTick = Math.max(0, Math.floor(tick));
+  const period = townDayPeriod(safeTick);
+  return {
+    version: WORLD_CLOCK_VERSION,
+    tick: safeTick,
+    day: Math.floor(safeTick / TOWN_TICKS_PER_DAY) + 1,
+    period,
+    daylight: daylightFor(period),
+    weather: weatherAt(seed, region, safeTick),
+    climate: climateForBiome(region?.dominantBiome ?? null),
+    region_id: region?.id ?? null,
+    biome: region?.dominantBiome ?? null,
+  };
+}
+
+/** Moves the clock forward. A campaign without a stored clock starts at dawn of day one. */
+export function advanceWorldClock(args: {
+  seed: number;
+  previous: WorldClock | null;
+  ticks: number;
+  region: ClockRegion | null;
+}): WorldClock {
+  const start = args.previous?.tick ?? 0;
+  return worldClockAt(args.seed, start + Math.max(0, Math.floor(args.ticks)), args.region);
+}
+
+/** A board transition takes one period; a journey takes one per two route segments. */
+export function transitionClockTicks(toMode: string, routeSegmentCount = 0): number {
+  if (toMode === "travel") return Math.max(1, Math.ceil(routeSegmentCount / TRAVEL_SEGMENTS_PER_TICK));
+  return 1;
+}
+
+export function readWorldClock(value: unknown): WorldClock | null {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return null;
+  const row = value as Record<string, unknown>;
+  const tick = Number(row.tick);
+  if (row.version !== WORLD_CLOCK_VERSION || !Number.isInteger(tick) || tick < 0) return null;
+  const period = townDayPeriod(tick);
+  const weather = WEATHER_TYPES.find((entry) => entry === row.weather) ?? "clear";
+  const climate = CLIMATES.find((entry) => entry === row.climate) ?? "temperate";
+  return {
+    version: WORLD_CLOCK_VERSION,
+    tick,
+    day: Math.floor(tick / TOWN_TICKS_PER_DAY) + 1,
+    period,
+    daylight: daylightFor(period),
+    weather,
+    climate,
+    region_id: typeof row.region_id === "string" ? row.region_id : null,
+    biome: typeof row.biome === "string" ? row.biome : null,
+  };
+}
+
+/** Dungeons are sheltered: no weather and no daylight reach the rooms. */
+export function environmentModifiers(clock: WorldClock | null, boardType: string | null): EnvironmentModifiers {
+  if (!clock || boardType === "dungeon") return { ...NO_MODIFIERS };
+  const weather = clock.climate === "underground" ? NO_MODIFIERS : WEATHER_MODIFIERS[clock.weather];
+  const daylight = DAYLIGHT_MODIFIERS[clock.daylight];
+  return {
+    encounter_chance: weather.encounter_chance + daylight.encounter_chance,
+    accuracy: weather.accuracy + daylight.accuracy,
+    mobility: weather.mobility + daylight.mobility,
+  };
+}
+
+/** What a fight remembers of the sky it started under; stored on the combat session's scene_json. */
+export interface CombatEnvironment extends EnvironmentModifiers {
+  period: TownDayPeriod;
+  daylight: Daylight;
+  weather: WeatherType;
+  sheltered: boolean;
+}
+
+export function combatEnvironment(clock: WorldClock | null, boardType: string | null): CombatEnvironment | null {
+  if (!clock) return null;
+  return {
+    period: clock.period,
+    daylight: clock.daylight,
+    weather: clock.weather,
+    sheltered: boardType === "dungeon",
+    ...environmentModifiers(clock, boardType),
+  };
+}
+
+export function readCombatEnvironment(sceneJson: unknown): CombatEnvironment | null {
+  if (!sceneJson || typeof sceneJson !== "object" || Array.isArray(sceneJson)) return null;
+  const raw = (sceneJson as Record<string, unknown>).environment;
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return null;
+  const row = raw as Record<string, unknown>;
+  const period = TOWN_DAY_PERIODS.find((entry) => entry === row.period);
+  const weather = WEATHER_TYPES.find((entry) => entry === row.weather);
+  if (!period || !weather) return null;
+  return {
+    period,
+    daylight: daylightFor(period),
+    weather,
+    sheltered: row.sheltered === true,
+    encounter_chance: clampInt(Number(row.encounter_chance) || 0, -50, 50),
+    accuracy: clampInt(Number(row.accuracy) || 0, -30, 30),
+    mobility: clampInt(Number(row.mobility) || 0, -30, 30),
+  };
+}
+
+export function vendorOpenPeriods(services: readonly string[]): TownDayPeriod[] {
+  return services.some((service) => LATE_SERVICE_PATTERN.test(service.toLowerCase())) ? LATE_HOURS : DAYTIME_HOURS;
+}
+
+/** Whether a vendor trades at this tick, and how many ticks until it next opens when it does not. */
+export function vendorHours(services: readonly string[], tick: number): { open: boolean; opens_in_ticks: number } {
+  const periods = vendorOpenPeriods(services);
+  for (let offset = 0; offset < TOWN_TICKS_PER_DAY; offset += 1) {
+    if (periods.includes(townDayPeriod(tick + offset))) return { open: offset === 0, opens_in_ticks: offset };
+  }
+  return { open: false, opens_in_ticks: 0 };
+}
+
+/** A town vendor's hours from runtime state; null when the campaign has no clock yet or the vendor is unknown. */
+export function vendorHoursInState(state: Record<string, unknown>, vendorId: string): { open: boolean; opens_in_ticks: number } | null {
+  const clock = readWorldClock(state.world_clock);
+  const vendors = Array.isArray(state.vendors) ? state.vendors : [];
+  const vendor = vendors.find((entry) => Boolean(entry) && typeof entry === "object" && (entry as Record<string, unknown>).id === vendorId);
+  if (!clock || !vendor) return null;
+  const services = (vendor as Record<string, unknown>).services;
+  return vendorHours(Array.isArray(services) ? services.filter((entry): entry is string => typeof entry === "string") : [], clock.tick);
+}
+
+const WEATHER_PHRASES: Record<WeatherType, string> = {
+  clear: "clear skies",
+  cloudy: "low cloud",
+  rain: "steady rain",
+  storm: "a driving storm",
+  snow: "falling snow",
+  fog: "thick fog",
+  scorching: "scorching heat",
+};
+
+/** One short line for prompts and narration, e.g. "Dusk, day 3: thick fog over the ambermarsh." */
+export function describeWorldClock(clock: WorldClock): string {
+  const period = clock.period.replace(/_/g, " ");
+  const where = clock.biome ? ` over the ${clock.biome}` : "";
+  return `${period[0]!.toUpperCase()}${period.slice(1)}, day ${clampInt(clock.day, 1, 99999)}: ${WEATHER_PHRASES[clock.weather]}${where}.`;
+}
@@ -0,0 +1,65 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import {
+  durabilityState,
+  isItemBroken,
+  readDurability,
+  repairCost,
+  tallyCombatWear,
+  vendorRepairs,
+  wearDurability,
+  wearKindForSlot,
+} from "./durability.js";
+
+const SWORD = { name: "Storm Lance", rarity: "magical", item_power: 20 };
+
+test("durability reads clamp to max and skip items that do not wear", () => {
+  assert.equal(readDurability({}), null);
+  assert.equal(readDurability(null), null);
+  assert.deepEqual(readDurability({ current: 140, max: 100 }), { current: 100, max: 100, decay_per_use: 1 });
+  assert.deepEqual(readDurability({ max: 80, decay_per_use: 4 }), { current: 80, max: 80, decay_per_use: 4 });
+  assert.equal(durabilityState(readDurability({ current: 30, max: 100 })), "sound");
+  assert.equal(durabilityState(readDurability({ current: 24, max: 100 })), "worn");
+  assert.equal(isItemBroken({ durability_json: { current: 0, max: 100 } }), true);
+  assert.equal(isItemBroken({ durability_json: {} }), false);
+});
+
+test("wear follows the slot and bottoms out at zero", () => {
+  assert.equal(wearKindForSlot("weapon"), "weapon");
+  assert.equal(wearKindForSlot("Helm"), "armor");
+  assert.equal(wearKindForSlot("ring"), null);
+  const durability = { current: 5, max: 100, decay_per_use: 4 };
+  assert.equal(wearDurability(durability, 1).current, 1);
+  assert.equal(wearDurability(durability, 3).current, 0);
+});
+
+test("combat wear counts one swing per attacker per batch and one hit per landed blow", () => {
+  const characters = new Map([["c-hero", "char-1"], ["c-ally", "char-2"]]);
+  const events = [
+    { event_type: "damage", payload: { source_combatant_id: "c-hero", target_combatant_id: "c-goblin", damage_to_hp: 8 } },
+    { event_type: "damage", payload: { source_combatant_id: "c-hero", target_combatant_id: "c-orc", damage_to_hp: 6 } },
+    { event_type: "damage", payload: { source_combatant_id: "c-goblin", target_combatant_id: "c-ally", damage_to_hp: 0, shield_absorbed: 3 } },
+    { event_type: "damage", payload: { source_combatant_id: "c-orc", target_combatant_id: "c-ally", damage_to_hp: 0 } },
+    { event_type: "healed", payload: { source_combatant_id: "c-ally", target_combatant_id: "c-hero", amount: 5 } },
+  ];
+  const tally = tallyCombatWear(events, characters);
+  assert.deepEqual(tally.get("char-1"), { weapon_uses: 1, armor_hits: 0 });
+  assert.deepEqual(tally.get("char-2"), { weapon_uses: 0, armor_hits: 1 });
+
+  tallyCombatWear(events.slice(0, 1), characters, tally);
+  assert.equal(tally.get("char-1")?.weapon_uses, 2);
+
+  const thrown = tallyCombatWear([{ event_type: "damage", payload: { source_combatant_id: "c-ally", target_combatant_id: "c-orc", damage_to_hp: 9, item_id: "flask" } }], characters);
+  assert.equal(thrown.get("char-2"), undefined);
+});
+
+test("repairs are priced by missing durability and cost extra once broken", () => {
+  assert.equal(vendorRepairs(["rift_forge"]), true);
+  assert.equal(vendorRepairs(["inn", "notice_board"]), false);
+  assert.equal(repairCost({ ...SWORD, durability_json: { current: 100, max: 100 } }), 0);
+  assert.equal(repairCost({ ...SWORD, durability_json: {} }), 0);
+  assert.equal(repairCost({ ...SWORD, durability_json: { current: 50, max: 100 } }), 6);
+  assert.equal(repairCost({ ...SWORD, durability_json: { current: 0, max: 100 } }), 17);
+  assert.equal(repairCost({ ...SWORD, durability_json: { current: 50, max: 100 } }, 2), 12);
+});
@@ -0,0 +1,124 @@
+import { itemBaseValue } from "../shop/pricing.js";
+
+// Equipment wear. Items carry durability_json { current, max, decay_per_use }: weapons lose decay_per_use for each
+// skill use that lands a hit, armor pieces for each hit their wearer takes. At zero an item is broken and its stat
+// mods stop counting until a vendor repairs it.
+
+export const WEAPON_SLOTS = ["weapon"] as const;
+export const ARMOR_SLOTS = ["armor", "helm", "gloves", "boots", "belt"] as const;
+/** Below this share of max durability an item reads as worn. */
+export const WORN_THRESHOLD = 0.25;
+/** Share of an item's value a full repair from zero costs; broken items cost extra to bring back. */
+export const REPAIR_RATE = 0.35;
+export const BROKEN_REPAIR_SURCHARGE = 1.5;
+
+export type WearKind = "weapon" | "armor";
+export type WearState = "sound" | "worn" | "broken";
+
+export interface Durability {
+  current: number;
+  max: number;
+  decay_per_use: number;
+}
+
+export interface CombatWearTally {
+  weapon_uses: number;
+  armor_hits: number;
+}
+
+interface WearEvent {
+  event_type: string;
+  payload: Record<string, unknown>;
+}
+
+const REPAIR_SERVICE_PATTERN = /(repair|smith|forge)/;
+
+function asRecord(value: unknown): Record<string, unknown> | null {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return null;
+  return value as Record<string, unknown>;
+}
+
+/** Null when the item does not track durability (legacy rows minted with an empty object). */
+export function readDurability(raw: unknown): Durability | null {
+  const row = asRecord(raw);
+  const max = Number(row?.max);
+  if (!row || !Number.isFinite(max) || max <= 0) return null;
+  const current = Number(row.current);
+  const decay = Number(row.decay_per_use);
+  return {
+    current: Number.isFinite(current) ? Math.max(0, Math.min(Math.floor(max), Math.floor(current))) : Math.floor(max),
+    max: Math.floor(max),
+    decay_per_use: Number.isFinite(decay) && decay >= 0 ? decay : 1,
+  };
+}
+
+export function durabilityState(durability: Durability | null): WearState {
+  if (!durability) return "sound";
+  if (durability.current <= 0) return "broken";
+  return durability.current / durability.max < WORN_THRESHOLD ? "worn" : "sound";
+}
+
+export function isItemBroken(item: { durability_json?: unknown } | null | undefined): boolean {
+  return durabilityState(readDurability(item?.durability_json)) === "broken";
+}
+
+export function wearKindForSlot(slot: unknown): WearKind | null {
+  const value = typeof slot === "string" ? slot.trim().toLowerCase() : "";
+  if ((WEAPON_SLOTS as readonly string[]).includes(value)) return "weapon";
+  if ((ARMOR_SLOTS as readonly string[]).includes(value)) return "armor";
+  return null;
+}
+
+export function wearDurability(durability: Durability, uses: number): Durability {
+  const loss = Math.ceil(durability.decay_per_use * Math.max(0, Math.floor(uses)));
+  return { ...durability, current: Math.max(0, durability.current - loss) };
+}
+
+/**
+ * Folds damage events into per-character wear: one weapon use per attacker per batch (an area skill is one
+ * swing), one armor hit per damage event that reached a character, whether the shield or their HP took it.
+ * Thrown items (payload.item_id) never wear the thrower's weapon.
+ */
+export function tallyCombatWear(
+  events: readonly WearEvent[],
+  characterByCombatant: ReadonlyMap<string, string>,
+  into: Map<string, CombatWearTally> = new Map(),
+): Map<string, CombatWearTally> {
+  const entry = (characterId: string) => {
+    const existing = into.get(characterId);
+    if (existing) return existing;
+    const created = { weapon_uses: 0, armor_hits: 0 };
+    into.set(characterId, created);
+    return created;
+  };
+  const swung = new Set<string>();
+  for (const event of events) {
+    if (event.event_type !== "damage") continue;
+    const source = typeof event.payload.source_combatant_id === "string" ? event.payload.source_combatant_id : null;
+    const target = typeof event.payload.target_combatant_id === "string" ? event.payload.target_combatant_id : null;
+    const sourceCharacter = source ? characterByCombatant.get(source) : undefined;
+    const thrown = typeof event.payload.item_id === "string";
+    if (sourceCharacter && !thrown && !swung.has(sourceCharacter)) {
+      swung.add(sourceCharacter);
+      entry(sourceCharacter).weapon_uses += 1;
+    }
+    const targetCharacter = target ? characterByCombatant.get(target) : undefined;
+    const landed = Number(event.payload.damage_to_hp ?? 0) + Number(event.payload.shield_absorbed ?? 0);
+    if (targetCharacter && landed > 0) entry(targetCharacter).armor_hits += 1;
+  }
+  return into;
+}
+
+export function vendorRepairs(services: readonly string[]): boolean {
+  return services.some((service) => REPAIR_SERVICE_PATTERN.test(service.toLowerCase()));
+}
+
+/** Coins to bring an item back to full durability; zero when it is already whole or does not wear. */
+export function repairCost(item: Record<string, unknown>, inflation = 1): number {
+  const durability = readDurability(item.durability_json);
+  if (!durability || durability.current >= durability.max) return 0;
+  const missing = (durability.max - durability.current) / durability.max;
+  const surcharge = durability.current <= 0 ? BROKEN_REPAIR_SURCHARGE : 1;
+  const scale = Number.isFinite(inflation) && inflation > 0 ? inflation : 1;
+  return Math.max(1, Math.ceil(itemBaseValue(item) * REPAIR_RATE * missing * surcharge * scale));
+}
@@ -0,0 +1,50 @@
+import { createServiceClient } from "../../shared/supabase.js";
+import { readDurability, wearDurability, wearKindForSlot, type CombatWearTally } from "./durability.js";
+
+type ServiceClient = ReturnType<typeof createServiceClient>;
+
+export interface BrokenItem {
+  character_id: string;
+  item_id: string;
+  name: string;
+  slot: string;
+}
+
+/** Writes a combat's wear to each character's equipped weapons and armor; returns the items that broke. */
+export async function applyCombatWear(svc: ServiceClient, tally: ReadonlyMap<string, CombatWearTally>): Promise<BrokenItem[]> {
+  const broken: BrokenItem[] = [];
+  for (const [characterId, wear] of tally) {
+    if (wear.weapon_uses <= 0 && wear.armor_hits <= 0) continue;
+    const { data: rows, error } = await svc
+      .schema("mythic")
+      .from("inventory")
+      .select("id, item:items(id, name, slot, durability_json)")
+      .eq("character_id", characterId)
+      .eq("container", "equipment");
+    if (error) throw error;
+
+    for (const row of (rows ?? []) as unknown as Array<{ item?: Record<string, unknown> | null }>) {
+      const item = row.item;
+      if (!item) continue;
+      const kind = wearKindForSlot(item.slot);
+      const uses = kind === "weapon" ? wear.weapon_uses : kind === "armor" ? wear.armor_hits : 0;
+      const durability = readDurability(item.durability_json);
+      if (!durability || uses <= 0 || durability.current <= 0) continue;
+      const next = wearDurability(durability, uses);
+      if (next.current === durability.current) continue;
+      const { error: updateError } = await svc
+        .schema("mythic")
+        .from("items")
+        .update({
+          durability_json: { ...(item.durability_json as Record<string, unknown>), current: next.current },
+          updated_at: new Date().toISOString(),
+        })
+        .eq("id", String(item.id));
+      if (updateError) throw updateError;
+      if (next.current <= 0) {
+        broken.push({ character_id: characterId, item_id: String(item.id), name: String(item.name ?? "Item"), slot: String(item.slot ?? "other") });
+      }
+    }
+  }
+  return broken;
+}
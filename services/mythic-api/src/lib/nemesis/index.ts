@@ -0,0 +1,2 @@
+export * from "./tactics.js";
+export * from "./revengeArcs.js";
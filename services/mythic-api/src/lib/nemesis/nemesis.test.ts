@@ -0,0 +1,144 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import { reputationOpensArc } from "./revengeArcs.js";
+import {
+  buildNemesisCombatantStats,
+  buildNemesisCounterProfile,
+  buildNemesisJson,
+  nemesisFromStatuses,
+  nemesisStatusEntry,
+  observePlayerTactics,
+  readNemesisJson,
+  summarizeObservations,
+  type NemesisActionEvent,
+} from "./tactics.js";
+
+const COMBATANTS = [
+  { id: "p1", entity_type: "player" as const, player_id: "user-a" },
+  { id: "c1", entity_type: "summon" as const, player_id: "user-a" },
+  { id: "n1", entity_type: "npc" as const, player_id: null },
+];
+
+function skillEvent(turn: number, actor: string, skillId: string, targeting = "single"): NemesisActionEvent {
+  return {
+    event_type: "skill_used",
+    actor_combatant_id: actor,
+    turn_index: turn,
+    payload: { skill_id: skillId, skill_name: skillId, targeting },
+  };
+}
+
+test("observePlayerTactics attributes actions to the owning player and ignores enemies", () => {
+  const [observation] = observePlayerTactics({
+    combatSessionId: "session-1",
+    won: false,
+    combatants: COMBATANTS,
+    events: [
+      skillEvent(0, "p1", "flame_wave", "area"),
+      skillEvent(1, "c1", "basic_attack"),
+      skillEvent(2, "n1", "basic_attack"),
+      skillEvent(3, "p1", "flame_wave", "area"),
+      skillEvent(4, "p1", "basic_defend", "self"),
+      { event_type: "damage", actor_combatant_id: "p1", turn_index: 3, payload: { source_combatant_id: "p1", damage_to_hp: 30 } },
+    ],
+  });
+
+  assert.equal(observation.player_id, "user-a");
+  assert.equal(observation.actions, 3);
+  assert.equal(observation.opener, "flame_wave");
+  assert.equal(observation.opener_was_area, true);
+  assert.equal(observation.favorite_skill, "flame_wave");
+  assert.equal(observation.aoe_actions, 2);
+  assert.equal(observation.defend_actions, 1);
+  assert.equal(observation.companion_actions, 1);
+  assert.equal(observation.damage_dealt, 30);
+  assert.equal(observation.outcome, "player_lost");
+});
+
+test("summarizeObservations tags aoe openers and the counter build answers them", () => {
+  const observations = observePlayerTactics({
+    combatSessionId: "session-2",
+    won: true,
+    combatants: COMBATANTS,
+    events: [
+      skillEvent(0, "p1", "flame_wave", "area"),
+      skillEvent(1, "p1", "flame_wave", "cone"),
+      skillEvent(2, "p1", "basic_attack"),
+    ],
+  });
+  const profile = summarizeObservations(observations);
+  assert.ok(profile.signatures.includes("aoe_opener"));
+  assert.ok(profile.signatures.includes("area_spam"));
+
+  const counter = buildNemesisCounterProfile(profile, 0);
+  assert.ok(counter.counter_skills.some((skill) => skill.counters === "aoe_opener"));
+  assert.ok((counter.stat_bonus.mobility ?? 0) > 0);
+});
+
+test("summarizeObservations falls back to brawler and ignores junk rows", () => {
+  const profile = summarizeObservations([null, { kind: "other" }, {
+    kind: "tactic_signature",
+    actions: 4,
+    skill_counts: { basic_attack: 4 },
+  }]);
+  assert.equal(profile.samples, 1);
+  assert.deepEqual(profile.signatures, ["brawler"]);
+});
+
+test("nemesis json round-trips and escalation hardens the loadout", () => {
+  const profile = summarizeObservations([]);
+  const calm = buildNemesisJson({
+    seed: 42,
+    name: "Grask",
+    origin: "combat_survivor",
+    factionStyle: "independent",
+    escalation: 0,
+    profile,
+    grudge: {},
+  });
+  const angry = buildNemesisJson({
+    seed: 42,
+    name: "Grask",
+    origin: "combat_survivor",
+    factionStyle: "independent",
+    escalation: 3,
+    profile,
+    grudge: {},
+  });
+
+  assert.deepEqual(readNemesisJson(calm), calm);
+  assert.ok(angry.loadout.hp_mult > calm.loadout.hp_mult);
+  assert.ok(angry.strike_schedule.delay_minutes < calm.strike_schedule.delay_minutes);
+
+  const calmStats = buildNemesisCombatantStats({ seed: 7, nemesis: calm, partyLevel: 5 });
+  const angryStats = buildNemesisCombatantStats({ seed: 7, nemesis: angry, partyLevel: 5 });
+  assert.equal(calmStats.lvl, 6);
+  assert.ok(angryStats.lvl > calmStats.lvl);
+  assert.deepEqual(buildNemesisCombatantStats({ seed: 7, nemesis: calm, partyLevel: 5 }), calmStats);
+});
+
+test("nemesis status entry is readable back from combatant statuses", () => {
+  const nemesis = buildNemesisJson({
+    seed: 9,
+    name: "Vex Hallow",
+    origin: "faction_trust",
+    factionStyle: "guild",
+    escalation: 1,
+    profile: { ...summarizeObservations([]), signatures: ["turtle", "caster"] },
+    grudge: {},
+  });
+  const parsed = nemesisFromStatuses([{ id: "guard" }, nemesisStatusEntry("arc-1", nemesis)]);
+  assert.ok(parsed);
+  assert.equal(parsed.arcId, "arc-1");
+  assert.equal(parsed.preferTargets, "casters");
+  assert.deepEqual(parsed.counterSkills.map((skill) => skill.effect), ["armor_break", "drain"]);
+  assert.equal(nemesisFromStatuses([{ id: "guard" }]), null);
+});
+
+test("reputation thresholds follow the revenge_arcs rules", () => {
+  assert.equal(reputationOpensArc({ delta: -80, severity: 4, nextRep: -100 }), true);
+  assert.equal(reputationOpensArc({ delta: -79, severity: 4, nextRep: -100 }), false);
+  assert.equal(reputationOpensArc({ delta: -8, severity: 3, nextRep: -600 }), true);
+  assert.equal(reputationOpensArc({ delta: 6, severity: 2, nextRep: -700 }), false);
+});
@@ -0,0 +1,501 @@
+import { createServiceClient } from "../../shared/supabase.js";
+import {
+  buildNemesisJson,
+  factionChampionName,
+  observePlayerTactics,
+  readNemesisJson,
+  strikeDelayMinutes,
+  summarizeObservations,
+  type NemesisActionEvent,
+  type NemesisJson,
+  type NemesisObservedCombatant,
+  type NemesisOrigin,
+} from "./tactics.js";
+
+type ServiceClient = ReturnType<typeof createServiceClient>;
+
+export type NemesisCombatRow = {
+  id: string;
+  entity_type: "player" | "npc" | "summon";
+  is_alive: boolean;
+  player_id: string | null;
+  name?: string | null;
+  lvl?: number | null;
+  hp_max?: number | null;
+  statuses?: unknown;
+};
+
+export type RevengeArcRow = {
+  id: string;
+  campaign_id: string;
+  faction_id: string | null;
+  player_id: string;
+  nemesis_json: Record<string, unknown>;
+  status: string;
+  escalation: number;
+  next_strike_at: string | null;
+  source_combat_session_id: string | null;
+};
+
+export type NemesisOutcome = {
+  opened: string[];
+  escalated: string[];
+  resolved: string[];
+  observed: number;
+};
+
+const ARC_COLUMNS = "id,campaign_id,faction_id,player_id,nemesis_json,status,escalation,next_strike_at,source_combat_session_id";
+const MEMORY_SAMPLE_LIMIT = 12;
+const MAX_ESCALATION = 4;
+
+// Mirrors mythic.game_rules.factions.revenge_arcs.create_when.
+export const REVENGE_ARC_SEVERITY_MIN = 4;
+export const REVENGE_ARC_DELTA_MAX = -80;
+export const REVENGE_ARC_REP_FLOOR = -600;
+
+function asRecord(value: unknown): Record<string, unknown> {
+  return value && typeof value === "object" && !Array.isArray(value) ? value as Record<string, unknown> : {};
+}
+
+function hasStatus(statuses: unknown, id: string): boolean {
+  return Array.isArray(statuses) && statuses.some((entry) => String(asRecord(entry).id ?? "") === id);
+}
+
+function statusData(statuses: unknown, id: string): Record<string, unknown> | null {
+  if (!Array.isArray(statuses)) return null;
+  const match = statuses.find((entry) => String(asRecord(entry).id ?? "") === id);
+  return match ? asRecord(asRecord(match).data) : null;
+}
+
+function strikeAt(now: Date, escalation: number): string {
+  return new Date(now.getTime() + strikeDelayMinutes(escalation) * 60_000).toISOString();
+}
+
+function toArcRow(value: unknown): RevengeArcRow | null {
+  const row = asRecord(value);
+  if (typeof row.id !== "string" || typeof row.player_id !== "string") return null;
+  return {
+    id: row.id,
+    campaign_id: String(row.campaign_id ?? ""),
+    faction_id: typeof row.faction_id === "string" ? row.faction_id : null,
+    player_id: row.player_id,
+    nemesis_json: asRecord(row.nemesis_json),
+    status: String(row.status ?? "active"),
+    escalation: Math.max(0, Math.floor(Number(row.escalation ?? 0))),
+    next_strike_at: typeof row.next_strike_at === "string" ? row.next_strike_at : null,
+    source_combat_session_id: typeof row.source_combat_session_id === "string" ? row.source_combat_session_id : null,
+  };
+}
+
+async function loadActiveArcs(svc: ServiceClient, campaignId: string, playerId: string): Promise<RevengeArcRow[]> {
+  const query = await svc
+    .schema("mythic")
+    .from("revenge_arcs")
+    .select(ARC_COLUMNS)
+    .eq("campaign_id", campaignId)
+    .eq("player_id", playerId)
+    .eq("status", "active")
+    .order("created_at", { ascending: true });
+  if (query.error) throw query.error;
+  return (query.data ?? []).map(toArcRow).filter((row): row is RevengeArcRow => Boolean(row));
+}
+
+async function loadArc(svc: ServiceClient, arcId: string): Promise<RevengeArcRow | null> {
+  const query = await svc
+    .schema("mythic")
+    .from("revenge_arcs")
+    .select(ARC_COLUMNS)
+    .eq("id", arcId)
+    .maybeSingle();
+  if (query.error) throw query.error;
+  return toArcRow(query.data);
+}
+
+async function loadMemory(svc: ServiceClient, arcId: string): Promise<unknown[]> {
+  const query = await svc
+    .schema("mythic")
+    .from("nemesis_memory")
+    .select("observation")
+    .eq("arc_id", arcId)
+    .order("created_at", { ascending: false })
+    .limit(MEMORY_SAMPLE_LIMIT);
+  if (query.error) throw query.error;
+  return (query.data ?? []).map((row) => (row as { observation?: unknown }).observation);
+}
+
+async function insertMemory(svc: ServiceClient, arcId: string, observation: Record<string, unknown>) {
+  const { error } = await svc.schema("mythic").from("nemesis_memory").insert({
+    arc_id: arcId,
+    observation,
+  });
+  if (error) throw error;
+}
+
+// Re-derive the counter-build from everything the arc has remembered so far.
+async function relearnNemesis(args: {
+  svc: ServiceClient;
+  arc: RevengeArcRow;
+  seed: number;
+  escalation: number;
+  grudge?: Record<string, unknown>;
+}): Promise<NemesisJson | null> {
+  const current = readNemesisJson(args.arc.nemesis_json);
+  if (!current) return null;
+  const memory = await loadMemory(args.svc, args.arc.id);
+  return buildNemesisJson({
+    seed: args.seed,
+    name: current.name,
+    origin: current.origin,
+    factionStyle: current.faction_style,
+    escalation: args.escalation,
+    profile: summarizeObservations(memory),
+    grudge: { ...current.grudge, ...(args.grudge ?? {}) },
+    strikes: current.strike_schedule.strikes,
+    lastStrikeAt: current.strike_schedule.last_strike_at,
+  });
+}
+
+async function loadCombatEvents(svc: ServiceClient, combatSessionId: string): Promise<NemesisActionEvent[]> {
+  const query = await svc
+    .schema("mythic")
+    .from("action_events")
+    .select("event_type,actor_combatant_id,turn_index,payload")
+    .eq("combat_session_id", combatSessionId)
+    .in("event_type", ["skill_used", "status_applied", "damage"])
+    .order("created_at", { ascending: true })
+    .limit(800);
+  if (query.error) throw query.error;
+  return (query.data ?? []).map((row) => {
+    const record = asRecord(row);
+    return {
+      event_type: String(record.event_type ?? ""),
+      actor_combatant_id: typeof record.actor_combatant_id === "string" ? record.actor_combatant_id : null,
+      turn_index: Math.max(0, Math.floor(Number(record.turn_index ?? 0))),
+      payload: asRecord(record.payload),
+    };
+  });
+}
+
+function pickSurvivor(rows: NemesisCombatRow[]): NemesisCombatRow | null {
+  const candidates = rows.filter((row) => row.entity_type === "npc"
+    && (row.is_alive || hasStatus(row.statuses, "fled"))
+    && typeof row.name === "string"
+    && row.name.trim().length > 0);
+  candidates.sort((left, right) =>
+    Number(right.lvl ?? 1) - Number(left.lvl ?? 1)
+    || Number(right.hp_max ?? 0) - Number(left.hp_max ?? 0)
+    || left.id.localeCompare(right.id));
+  return candidates[0] ?? null;
+}
+
+/**
+ * Combat settlement hook. Records what each player did into their active arcs,
+ * resolves arcs whose nemesis died, escalates arcs whose nemesis survived, and
+ * opens a fresh arc when a named enemy fled or outlasted the party.
+ */
+export async function recordCombatNemesisOutcome(args: {
+  svc: ServiceClient;
+  campaignId: string;
+  combatSessionId: string;
+  seed: number;
+  won: boolean;
+  rows: NemesisCombatRow[];
+  now?: Date;
+}): Promise<NemesisOutcome> {
+  const { svc, campaignId, combatSessionId, seed, won, rows } = args;
+  const now = args.now ?? new Date();
+  const outcome: NemesisOutcome = { opened: [], escalated: [], resolved: [], observed: 0 };
+
+  const playerIds = Array.from(new Set(rows
+    .filter((row) => row.entity_type === "player" && typeof row.player_id === "string")
+    .map((row) => row.player_id as string)));
+  if (playerIds.length === 0) return outcome;
+
+  const events = await loadCombatEvents(svc, combatSessionId);
+  const observations = observePlayerTactics({
+    combatSessionId,
+    events,
+    combatants: rows.map((row): NemesisObservedCombatant => ({
+      id: row.id,
+      entity_type: row.entity_type,
+      player_id: row.player_id,
+    })),
+    won,
+  });
+  const observationByPlayer = new Map(observations.map((entry) => [entry.player_id, entry]));
+
+  const nemesisRows = rows
+    .map((row) => ({ row, data: statusData(row.statuses, "nemesis") }))
+    .filter((entry): entry is { row: NemesisCombatRow; data: Record<string, unknown> } =>
+      entry.row.entity_type === "npc" && entry.data !== null && typeof entry.data.arc_id === "string");
+  const touchedArcIds = new Set<string>();
+
+  for (const { row, data } of nemesisRows) {
+    const arc = await loadArc(svc, String(data.arc_id));
+    if (!arc || arc.status !== "active") continue;
+    touchedArcIds.add(arc.id);
+    const observation = observationByPlayer.get(arc.player_id);
+    if (observation) {
+      await insertMemory(svc, arc.id, observation);
+      outcome.observed += 1;
+    }
+
+    if (!row.is_alive && !hasStatus(row.statuses, "fled")) {
+      const { error } = await svc
+        .schema("mythic")
+        .from("revenge_arcs")
+        .update({
+          status: "resolved",
+          next_strike_at: null,
+          resolved_at: now.toISOString(),
+          updated_at: now.toISOString(),
+        })
+        .eq("id", arc.id);
+      if (error) throw error;
+      outcome.resolved.push(arc.id);
+      continue;
+    }
+
+    const escalation = Math.min(MAX_ESCALATION, arc.escalation + 1);
+    const nemesis = await relearnNemesis({
+      svc,
+      arc,
+      seed,
+      escalation,
+      grudge: { last_survived_combat_session_id: combatSessionId },
+    });
+    const { error } = await svc
+      .schema("mythic")
+      .from("revenge_arcs")
+      .update({
+        escalation,
+        nemesis_json: nemesis ?? arc.nemesis_json,
+        next_strike_at: strikeAt(now, escalation),
+        updated_at: now.toISOString(),
+      })
+      .eq("id", arc.id);
+    if (error) throw error;
+    outcome.escalated.push(arc.id);
+  }
+
+  // Every other active arc still watches the player fight.
+  for (const playerId of playerIds) {
+    const observation = observationByPlayer.get(playerId);
+    if (!observation) continue;
+    const arcs = await loadActiveArcs(svc, campaignId, playerId);
+    for (const arc of arcs) {
+      if (touchedArcIds.has(arc.id)) continue;
+      await insertMemory(svc, arc.id, observation);
+      outcome.observed += 1;
+      const nemesis = await relearnNemesis({ svc, arc, seed, escalation: arc.escalation });
+      if (!nemesis) continue;
+      const { error } = await svc
+        .schema("mythic")
+        .from("revenge_arcs")
+        .update({ nemesis_json: nemesis, updated_at: now.toISOString() })
+        .eq("id", arc.id);
+      if (error) throw error;
+    }
+  }
+
+  // A returning nemesis already carries the grudge; only fresh survivors open arcs.
+  // After a win the only possible survivor is one that fled.
+  if (nemesisRows.length > 0) return outcome;
+  const survivor = pickSurvivor(rows);
+  if (!survivor) return outcome;
+  const origin: NemesisOrigin = hasStatus(survivor.statuses, "fled") ? "combat_fled" : "combat_survivor";
+
+  for (const playerId of playerIds) {
+    const existing = await loadActiveArcs(svc, campaignId, playerId);
+    if (existing.some((arc) => readNemesisJson(arc.nemesis_json)?.name === survivor.name)) continue;
+    const observation = observationByPlayer.get(playerId);
+    const nemesis = buildNemesisJson({
+      seed,
+      name: String(survivor.name),
+      origin,
+      factionStyle: "independent",
+      escalation: 0,
+      profile: summarizeObservations(observation ? [observation] : []),
+      grudge: {
+        reason: origin === "combat_fled" ? "escaped_the_party" : "outlasted_the_party",
+        combat_session_id: combatSessionId,
+        source_combatant_id: survivor.id,
+      },
+    });
+    const insert = await svc
+      .schema("mythic")
+      .from("revenge_arcs")
+      .insert({
+        campaign_id: campaignId,
+        faction_id: null,
+        player_id: playerId,
+        nemesis_json: nemesis,
+        status: "active",
+        escalation: 0,
+        source_combat_session_id: combatSessionId,
+        next_strike_at: strikeAt(now, 0),
+      })
+      .select("id")
+      .single();
+    if (insert.error) throw insert.error;
+    const arcId = (insert.data as { id: string }).id;
+    if (observation) {
+      await insertMemory(svc, arcId, observation);
+      outcome.observed += 1;
+    }
+    outcome.opened.push(arcId);
+  }
+
+  return outcome;
+}
+
+export function reputationOpensArc(args: { delta: number; severity: number; nextRep: number }): boolean {
+  if (args.severity >= REVENGE_ARC_SEVERITY_MIN && args.delta <= REVENGE_ARC_DELTA_MAX) return true;
+  return args.delta < 0 && args.nextRep <= REVENGE_ARC_REP_FLOOR;
+}
+
+/**
+ * Faction trust hook. Opens (or escalates) a faction-backed arc once a
+ * reputation change crosses the revenge_arcs thresholds.
+ */
+export async function maybeOpenArcFromReputation(args: {
+  svc: ServiceClient;
+  campaignId: string;
+  playerId: string;
+  factionId: string;
+  delta: number;
+  severity: number;
+  nextRep: number;
+  evidence?: Record<string, unknown>;
+  now?: Date;
+}): Promise<{ arcId: string; opened: boolean } | null> {
+  if (!reputationOpensArc(args)) return null;
+  const { svc, campaignId, playerId, factionId } = args;
+  const now = args.now ?? new Date();
+
+  const existing = (await loadActiveArcs(svc, campaignId, playerId)).find((arc) => arc.faction_id === factionId);
+  if (existing) {
+    const escalation = Math.min(MAX_ESCALATION, existing.escalation + 1);
+    const nemesis = readNemesisJson(existing.nemesis_json);
+    const { error } = await svc
+      .schema("mythic")
+      .from("revenge_arcs")
+      .update({
+        escalation,
+        nemesis_json: nemesis
+          ? { ...nemesis, escalation, grudge: { ...nemesis.grudge, last_offense: args.evidence ?? {} } }
+          : existing.nemesis_json,
+        next_strike_at: strikeAt(now, escalation),
+        updated_at: now.toISOString(),
+      })
+      .eq("id", existing.id);
+    if (error) throw error;
+    return { arcId: existing.id, opened: false };
+  }
+
+  const factionQuery = await svc
+    .schema("mythic")
+    .from("factions")
+    .select("id,name,tags")
+    .eq("id", factionId)
+    .maybeSingle();
+  if (factionQuery.error) throw factionQuery.error;
+  const faction = asRecord(factionQuery.data);
+  const factionName = typeof faction.name === "string" && faction.name.trim() ? faction.name.trim() : "the faction";
+  const tags = Array.isArray(faction.tags) ? faction.tags.filter((tag): tag is string => typeof tag === "string") : [];
+
+  const arcSeed = Math.abs(Math.floor(Number.parseInt(factionId.replace(/-/g, "").slice(0, 8), 16) || 0));
+  const nemesis = buildNemesisJson({
+    seed: arcSeed,
+    name: factionChampionName(arcSeed, `${factionName}:${playerId}`),
+    origin: "faction_trust",
+    factionStyle: tags[0] ?? factionName,
+    escalation: 0,
+    profile: summarizeObservations([]),
+    grudge: {
+      reason: "faction_trust_broken",
+      faction_id: factionId,
+      faction_name: factionName,
+      rep: args.nextRep,
+      last_offense: args.evidence ?? {},
+    },
+  });
+
+  const insert = await svc
+    .schema("mythic")
+    .from("revenge_arcs")
+    .insert({
+      campaign_id: campaignId,
+      faction_id: factionId,
+      player_id: playerId,
+      nemesis_json: nemesis,
+      status: "active",
+      escalation: 0,
+      next_strike_at: strikeAt(now, 0),
+    })
+    .select("id")
+    .single();
+  if (insert.error) throw insert.error;
+  return { arcId: (insert.data as { id: string }).id, opened: true };
+}
+
+export async function findDueNemesisStrike(args: {
+  svc: ServiceClient;
+  campaignId: string;
+  playerId: string;
+  now?: Date;
+}): Promise<{ arc: RevengeArcRow; nemesis: NemesisJson } | null> {
+  const now = args.now ?? new Date();
+  const query = await args.svc
+    .schema("mythic")
+    .from("revenge_arcs")
+    .select(ARC_COLUMNS)
+    .eq("campaign_id", args.campaignId)
+    .eq("player_id", args.playerId)
+    .eq("status", "active")
+    .lte("next_strike_at", now.toISOString())
+    .order("next_strike_at", { ascending: true })
+    .limit(1);
+  if (query.error) throw query.error;
+  const arc = toArcRow((query.data ?? [])[0]);
+  if (!arc) return null;
+  const nemesis = readNemesisJson(arc.nemesis_json);
+  return nemesis ? { arc, nemesis } : null;
+}
+
+export async function loadNemesisArc(svc: ServiceClient, arcId: string): Promise<{ arc: RevengeArcRow; nemesis: NemesisJson } | null> {
+  const arc = await loadArc(svc, arcId);
+  if (!arc || arc.status !== "active") return null;
+  const nemesis = readNemesisJson(arc.nemesis_json);
+  return nemesis ? { arc, nemesis } : null;
+}
+
+// The strike is in flight; the next one is scheduled from the combat outcome.
+export async function markNemesisStrikeLaunched(args: {
+  svc: ServiceClient;
+  arc: RevengeArcRow;
+  nemesis: NemesisJson;
+  combatSessionId: string;
+  now?: Date;
+}) {
+  const now = args.now ?? new Date();
+  const nextNemesis: NemesisJson = {
+    ...args.nemesis,
+    strike_schedule: {
+      ...args.nemesis.strike_schedule,
+      strikes: args.nemesis.strike_schedule.strikes + 1,
+      last_strike_at: now.toISOString(),
+    },
+    grudge: { ...args.nemesis.grudge, last_strike_combat_session_id: args.combatSessionId },
+  };
+  const { error } = await args.svc
+    .schema("mythic")
+    .from("revenge_arcs")
+    .update({
+      nemesis_json: nextNemesis,
+      next_strike_at: null,
+      updated_at: now.toISOString(),
+    })
+    .eq("id", args.arc.id);
+  if (error) throw error;
+}
@@ -0,0 +1,551 @@
+import { clampInt, rngInt, rngPick } from "../../shared/mythic_rng.js";
+
+export type NemesisStatKey = "offense" | "defense" | "control" | "support" | "mobility" | "utility";
+
+export type NemesisActionEvent = {
+  event_type: string;
+  actor_combatant_id: string | null;
+  turn_index: number;
+  payload: Record<string, unknown>;
+};
+
+export type NemesisObservedCombatant = {
+  id: string;
+  entity_type: "player" | "npc" | "summon";
+  player_id: string | null;
+};
+
+export type NemesisObservation = {
+  kind: "tactic_signature";
+  combat_session_id: string;
+  player_id: string;
+  actions: number;
+  opener: string | null;
+  opener_was_area: boolean;
+  favorite_skill: string | null;
+  skill_counts: Record<string, number>;
+  aoe_actions: number;
+  defend_actions: number;
+  recover_actions: number;
+  move_actions: number;
+  status_applications: number;
+  damage_dealt: number;
+  companion_actions: number;
+  outcome: "player_won" | "player_lost";
+};
+
+export type NemesisTacticSignature =
+  | "aoe_opener"
+  | "area_spam"
+  | "turtle"
+  | "kiter"
+  | "controller"
+  | "burst"
+  | "caster"
+  | "companion_reliant"
+  | "brawler";
+
+export type NemesisTacticProfile = {
+  samples: number;
+  actions: number;
+  opener: string | null;
+  favorite_skill: string | null;
+  aoe_ratio: number;
+  defend_ratio: number;
+  move_ratio: number;
+  status_ratio: number;
+  recover_ratio: number;
+  companion_ratio: number;
+  damage_per_action: number;
+  signatures: NemesisTacticSignature[];
+};
+
+export type NemesisCounterEffect = "none" | "armor_break" | "vulnerable" | "drain";
+
+export type NemesisCounterSkill = {
+  id: string;
+  name: string;
+  counters: NemesisTacticSignature;
+  skill_mult: number;
+  range_tiles: number;
+  effect: NemesisCounterEffect;
+};
+
+export type NemesisTargetPreference = "weakest" | "companions" | "casters";
+
+export type NemesisCounterProfile = {
+  counter_skills: NemesisCounterSkill[];
+  stat_bonus: Partial<Record<NemesisStatKey, number>>;
+  resist_bonus: number;
+  hp_mult: number;
+  prefer_targets: NemesisTargetPreference;
+};
+
+export type NemesisOrigin = "combat_survivor" | "combat_fled" | "faction_trust";
+
+export type NemesisJson = {
+  name: string;
+  title: string;
+  faction_style: string;
+  origin: NemesisOrigin;
+  escalation: number;
+  loadout: {
+    level_bonus: number;
+    hp_mult: number;
+    resist_bonus: number;
+    stat_bonus: Partial<Record<NemesisStatKey, number>>;
+  };
+  tactics: NemesisTacticSignature[];
+  signature_counter: {
+    counter_skills: NemesisCounterSkill[];
+    prefer_targets: NemesisTargetPreference;
+  };
+  grudge: Record<string, unknown>;
+  strike_schedule: {
+    eligible_modes: Array<"travel" | "dungeon">;
+    delay_minutes: number;
+    strikes: number;
+    last_strike_at: string | null;
+  };
+};
+
+const AREA_SHAPES = new Set(["area", "line", "cone"]);
+const NEMESIS_TITLES = ["the Unforgiving", "Who Remembers", "the Returned", "of the Long Grudge", "the Patient Knife", "Scar-Keeper"];
+const FACTION_CHAMPION_A = ["Vex", "Morrow", "Kessa", "Draven", "Ilse", "Corvin", "Sable", "Rook"];
+const FACTION_CHAMPION_B = ["Hallow", "Grieve", "Thorne", "Vane", "Ashby", "Locke", "Marrow", "Quill"];
+
+const COUNTER_SKILLS: Record<NemesisTacticSignature, NemesisCounterSkill> = {
+  aoe_opener: { id: "nemesis_scatter_strike", name: "Scatter Strike", counters: "aoe_opener", skill_mult: 1.2, range_tiles: 3, effect: "none" },
+  area_spam: { id: "nemesis_spread_rend", name: "Spread Rend", counters: "area_spam", skill_mult: 1.15, range_tiles: 2, effect: "vulnerable" },
+  turtle: { id: "nemesis_guardbreaker", name: "Guardbreaker", counters: "turtle", skill_mult: 1.1, range_tiles: 1, effect: "armor_break" },
+  kiter: { id: "nemesis_hunters_pounce", name: "Hunter's Pounce", counters: "kiter", skill_mult: 1.25, range_tiles: 3, effect: "none" },
+  controller: { id: "nemesis_spiteful_lash", name: "Spiteful Lash", counters: "controller", skill_mult: 1.15, range_tiles: 2, effect: "vulnerable" },
+  burst: { id: "nemesis_grudge_hold", name: "Grudge Hold", counters: "burst", skill_mult: 1.0, range_tiles: 1, effect: "vulnerable" },
+  caster: { id: "nemesis_mana_rend", name: "Mana Rend", counters: "caster", skill_mult: 1.05, range_tiles: 2, effect: "drain" },
+  companion_reliant: { id: "nemesis_severing_cut", name: "Severing Cut", counters: "companion_reliant", skill_mult: 1.2, range_tiles: 2, effect: "none" },
+  brawler: { id: "nemesis_return_blow", name: "Return Blow", counters: "brawler", skill_mult: 1.15, range_tiles: 1, effect: "armor_break" },
+};
+
+function asRecord(value: unknown): Record<string, unknown> {
+  return value && typeof value === "object" && !Array.isArray(value) ? value as Record<string, unknown> : {};
+}
+
+function num(value: unknown, fallback = 0): number {
+  const n = Number(value);
+  return Number.isFinite(n) ? n : fallback;
+}
+
+function ratio(part: number, total: number): number {
+  if (total <= 0) return 0;
+  return Number((part / total).toFixed(3));
+}
+
+function skillLabel(payload: Record<string, unknown>): string | null {
+  const name = typeof payload.skill_name === "string" ? payload.skill_name.trim() : "";
+  if (name) return name;
+  const id = typeof payload.skill_id === "string" ? payload.skill_id.trim() : "";
+  return id || null;
+}
+
+// Reduce one combat's action log into what the enemy side "saw" of each player's play style.
+export function observePlayerTactics(args: {
+  combatSessionId: string;
+  events: NemesisActionEvent[];
+  combatants: NemesisObservedCombatant[];
+  won: boolean;
+}): NemesisObservation[] {
+  const ownerByCombatant = new Map<string, { playerId: string; companion: boolean }>();
+  for (const combatant of args.combatants) {
+    if (!combatant.player_id) continue;
+    if (combatant.entity_type === "npc") continue;
+    ownerByCombatant.set(combatant.id, {
+      playerId: combatant.player_id,
+      companion: combatant.entity_type === "summon",
+    });
+  }
+
+  const byPlayer = new Map<string, NemesisObservation>();
+  const ensure = (playerId: string): NemesisObservation => {
+    const existing = byPlayer.get(playerId);
+    if (existing) return existing;
+    const created: NemesisObservation = {
+      kind: "tactic_signature",
+      combat_session_id: args.combatSessionId,
+      player_id: playerId,
+      actions: 0,
+      opener: null,
+      opener_was_area: false,
+      favorite_skill: null,
+      skill_counts: {},
+      aoe_actions: 0,
+      defend_actions: 0,
+      recover_actions: 0,
+      move_actions: 0,
+      status_applications: 0,
+      damage_dealt: 0,
+      companion_actions: 0,
+      outcome: args.won ? "player_won" : "player_lost",
+    };
+    byPlayer.set(playerId, created);
+    return created;
+  };
+
+  const ordered = [...args.events].sort((left, right) => left.turn_index - right.turn_index);
+  for (const event of ordered) {
+    const payload = asRecord(event.payload);
+    const sourceId = typeof payload.source_combatant_id === "string"
+      ? payload.source_combatant_id
+      : event.actor_combatant_id;
+    if (!sourceId) continue;
+    const owner = ownerByCombatant.get(sourceId);
+    if (!owner) continue;
+    const observation = ensure(owner.playerId);
+
+    if (event.event_type === "skill_used") {
+      if (owner.companion) {
+        observation.companion_actions += 1;
+        continue;
+      }
+      const label = skillLabel(payload);
+      const skillId = typeof payload.skill_id === "string" ? payload.skill_id : "";
+      const targeting = typeof payload.targeting === "string" ? payload.targeting : "";
+      const isArea = AREA_SHAPES.has(targeting) || num(payload.target_count, 1) > 1;
+      observation.actions += 1;
+      if (label) {
+        observation.skill_counts[label] = (observation.skill_counts[label] ?? 0) + 1;
+        if (!observation.opener) {
+          observation.opener = label;
+          observation.opener_was_area = isArea;
+        }
+      }
+      if (isArea) observation.aoe_actions += 1;
+      if (skillId === "basic_defend") observation.defend_actions += 1;
+      if (skillId === "basic_recover_mp") observation.recover_actions += 1;
+      if (skillId === "basic_move") observation.move_actions += 1;
+      continue;
+    }
+    if (owner.companion) continue;
+    if (event.event_type === "status_applied") {
+      const targetId = typeof payload.target_combatant_id === "string" ? payload.target_combatant_id : null;
+      if (targetId && targetId !== sourceId && !ownerByCombatant.has(targetId)) observation.status_applications += 1;
+      continue;
+    }
+    if (event.event_type === "damage") {
+      observation.damage_dealt += Math.max(0, Math.floor(num(payload.damage_to_hp, 0)));
+    }
+  }
+
+  for (const observation of byPlayer.values()) {
+    const favorite = Object.entries(observation.skill_counts)
+      .sort((left, right) => right[1] - left[1] || left[0].localeCompare(right[0]))[0];
+    observation.favorite_skill = favorite ? favorite[0] : null;
+  }
+
+  return Array.from(byPlayer.values()).filter((entry) => entry.actions > 0 || entry.companion_actions > 0);
+}
+
+function readObservation(value: unknown): NemesisObservation | null {
+  const row = asRecord(value);
+  if (row.kind !== "tactic_signature") return null;
+  return {
+    kind: "tactic_signature",
+    combat_session_id: String(row.combat_session_id ?? ""),
+    player_id: String(row.player_id ?? ""),
+    actions: Math.max(0, Math.floor(num(row.actions))),
+    opener: typeof row.opener === "string" ? row.opener : null,
+    opener_was_area: row.opener_was_area === true,
+    favorite_skill: typeof row.favorite_skill === "string" ? row.favorite_skill : null,
+    skill_counts: Object.fromEntries(
+      Object.entries(asRecord(row.skill_counts)).map(([key, count]) => [key, Math.max(0, Math.floor(num(count)))]),
+    ),
+    aoe_actions: Math.max(0, Math.floor(num(row.aoe_actions))),
+    defend_actions: Math.max(0, Math.floor(num(row.defend_actions))),
+    recover_actions: Math.max(0, Math.floor(num(row.recover_actions))),
+    move_actions: Math.max(0, Math.floor(num(row.move_actions))),
+    status_applications: Math.max(0, Math.floor(num(row.status_applications))),
+    damage_dealt: Math.max(0, Math.floor(num(row.damage_dealt))),
+    companion_actions: Math.max(0, Math.floor(num(row.companion_actions))),
+    outcome: row.outcome === "player_won" ? "player_won" : "player_lost",
+  };
+}
+
+export function summarizeObservations(raw: unknown[]): NemesisTacticProfile {
+  const observations = raw.map(readObservation).filter((entry): entry is NemesisObservation => Boolean(entry));
+  const totals = observations.reduce((acc, entry) => {
+    acc.actions += entry.actions;
+    acc.aoe += entry.aoe_actions;
+    acc.defend += entry.defend_actions;
+    acc.move += entry.move_actions;
+    acc.status += entry.status_applications;
+    acc.recover += entry.recover_actions;
+    acc.companion += entry.companion_actions;
+    acc.damage += entry.damage_dealt;
+    for (const [skill, count] of Object.entries(entry.skill_counts)) {
+      acc.skills[skill] = (acc.skills[skill] ?? 0) + count;
+    }
+    if (entry.opener) acc.openers[entry.opener] = (acc.openers[entry.opener] ?? 0) + 1;
+    return acc;
+  }, {
+    actions: 0,
+    aoe: 0,
+    defend: 0,
+    move: 0,
+    status: 0,
+    recover: 0,
+    companion: 0,
+    damage: 0,
+    skills: {} as Record<string, number>,
+    openers: {} as Record<string, number>,
+  });
+
+  const topOf = (counts: Record<string, number>) => Object.entries(counts)
+    .sort((left, right) => right[1] - left[1] || left[0].localeCompare(right[0]))[0]?.[0] ?? null;
+
+  const profile: NemesisTacticProfile = {
+    samples: observations.length,
+    actions: totals.actions,
+    opener: topOf(totals.openers),
+    favorite_skill: topOf(totals.skills),
+    aoe_ratio: ratio(totals.aoe, totals.actions),
+    defend_ratio: ratio(totals.defend, totals.actions),
+    move_ratio: ratio(totals.move, totals.actions),
+    status_ratio: ratio(totals.status, totals.actions),
+    recover_ratio: ratio(totals.recover, totals.actions),
+    companion_ratio: ratio(totals.companion, totals.actions + totals.companion),
+    damage_per_action: totals.actions > 0 ? Math.floor(totals.damage / totals.actions) : 0,
+    signatures: [],
+  };
+
+  const areaOpenings = observations.filter((entry) => entry.opener_was_area).length;
+  const signatures: NemesisTacticSignature[] = [];
+  if (areaOpenings > 0 && areaOpenings * 2 >= observations.length) signatures.push("aoe_opener");
+  if (profile.aoe_ratio >= 0.4) signatures.push("area_spam");
+  if (profile.defend_ratio >= 0.3) signatures.push("turtle");
+  if (profile.move_ratio >= 0.35) signatures.push("kiter");
+  if (profile.status_ratio >= 0.3) signatures.push("controller");
+  if (profile.recover_ratio >= 0.25) signatures.push("caster");
+  if (profile.companion_ratio >= 0.45) signatures.push("companion_reliant");
+  if (profile.damage_per_action >= 40) signatures.push("burst");
+  if (signatures.length === 0 && profile.actions > 0) signatures.push("brawler");
+  profile.signatures = signatures;
+  return profile;
+}
+
+export function buildNemesisCounterProfile(profile: NemesisTacticProfile, escalation: number): NemesisCounterProfile {
+  const signatures: NemesisTacticSignature[] = profile.signatures.length > 0 ? profile.signatures : ["brawler"];
+  const statBonus: Partial<Record<NemesisStatKey, number>> = {};
+  const bump = (key: NemesisStatKey, amount: number) => {
+    statBonus[key] = (statBonus[key] ?? 0) + amount;
+  };
+  let resistBonus = 0;
+  let hpMult = 1.3 + Math.max(0, escalation) * 0.15;
+  let preferTargets: NemesisTargetPreference = "weakest";
+
+  for (const signature of signatures) {
+    if (signature === "aoe_opener" || signature === "area_spam") {
+      bump("mobility", 8);
+      resistBonus += 8;
+    } else if (signature === "turtle") {
+      bump("offense", 8);
+    } else if (signature === "kiter") {
+      bump("mobility", 14);
+    } else if (signature === "controller") {
+      bump("defense", 6);
+      resistBonus += 14;
+    } else if (signature === "burst") {
+      bump("defense", 8);
+      hpMult += 0.25;
+    } else if (signature === "caster") {
+      bump("control", 8);
+      preferTargets = "casters";
+    } else if (signature === "companion_reliant") {
+      bump("offense", 6);
+      preferTargets = "companions";
+    } else {
+      bump("offense", 5);
+      bump("defense", 5);
+    }
+  }
+
+  return {
+    counter_skills: signatures.slice(0, 3).map((signature) => ({ ...COUNTER_SKILLS[signature] })),
+    stat_bonus: statBonus,
+    resist_bonus: resistBonus,
+    hp_mult: Number(hpMult.toFixed(2)),
+    prefer_targets: preferTargets,
+  };
+}
+
+export function strikeDelayMinutes(escalation: number): number {
+  return Math.max(5, 20 - Math.max(0, Math.floor(escalation)) * 5);
+}
+
+export function factionChampionName(seed: number, factionName: string): string {
+  const first = rngPick(seed, `nemesis:champion:a:${factionName}`, FACTION_CHAMPION_A);
+  const last = rngPick(seed, `nemesis:champion:b:${factionName}`, FACTION_CHAMPION_B);
+  return `${first} ${last}`;
+}
+
+export function buildNemesisJson(args: {
+  seed: number;
+  name: string;
+  origin: NemesisOrigin;
+  factionStyle: string;
+  escalation: number;
+  profile: NemesisTacticProfile;
+  grudge: Record<string, unknown>;
+  strikes?: number;
+  lastStrikeAt?: string | null;
+}): NemesisJson {
+  const counter = buildNemesisCounterProfile(args.profile, args.escalation);
+  return {
+    name: args.name,
+    title: rngPick(args.seed, `nemesis:title:${args.name}:${args.escalation}`, NEMESIS_TITLES),
+    faction_style: args.factionStyle,
+    origin: args.origin,
+    escalation: args.escalation,
+    loadout: {
+      level_bonus: 1 + args.escalation,
+      hp_mult: counter.hp_mult,
+      resist_bonus: counter.resist_bonus,
+      stat_bonus: counter.stat_bonus,
+    },
+    tactics: args.profile.signatures,
+    signature_counter: {
+      counter_skills: counter.counter_skills,
+      prefer_targets: counter.prefer_targets,
+    },
+    grudge: args.grudge,
+    strike_schedule: {
+      eligible_modes: ["travel", "dungeon"],
+      delay_minutes: strikeDelayMinutes(args.escalation),
+      strikes: Math.max(0, Math.floor(args.strikes ?? 0)),
+      last_strike_at: args.lastStrikeAt ?? null,
+    },
+  };
+}
+
+export function readNemesisJson(value: unknown): NemesisJson | null {
+  const row = asRecord(value);
+  const name = typeof row.name === "string" ? row.name.trim() : "";
+  if (!name) return null;
+  const loadout = asRecord(row.loadout);
+  const counter = asRecord(row.signature_counter);
+  const schedule = asRecord(row.strike_schedule);
+  const counterSkills = Array.isArray(counter.counter_skills)
+    ? counter.counter_skills.map(readCounterSkill).filter((entry): entry is NemesisCounterSkill => Boolean(entry))
+    : [];
+  const preferRaw = typeof counter.prefer_targets === "string" ? counter.prefer_targets : "weakest";
+  const statBonusRaw = asRecord(loadout.stat_bonus);
+  const statBonus: Partial<Record<NemesisStatKey, number>> = {};
+  for (const key of ["offense", "defense", "control", "support", "mobility", "utility"] as const) {
+    if (statBonusRaw[key] !== undefined) statBonus[key] = Math.floor(num(statBonusRaw[key]));
+  }
+  const originRaw = typeof row.origin === "string" ? row.origin : "combat_survivor";
+  return {
+    name,
+    title: typeof row.title === "string" ? row.title : "",
+    faction_style: typeof row.faction_style === "string" ? row.faction_style : "independent",
+    origin: originRaw === "combat_fled" || originRaw === "faction_trust" ? originRaw : "combat_survivor",
+    escalation: Math.max(0, Math.floor(num(row.escalation))),
+    loadout: {
+      level_bonus: Math.max(0, Math.floor(num(loadout.level_bonus, 1))),
+      hp_mult: Math.max(1, num(loadout.hp_mult, 1.3)),
+      resist_bonus: Math.max(0, Math.floor(num(loadout.resist_bonus))),
+      stat_bonus: statBonus,
+    },
+    tactics: Array.isArray(row.tactics) ? row.tactics.filter((entry): entry is NemesisTacticSignature => typeof entry === "string" && entry in COUNTER_SKILLS) : [],
+    signature_counter: {
+      counter_skills: counterSkills,
+      prefer_targets: preferRaw === "companions" || preferRaw === "casters" ? preferRaw : "weakest",
+    },
+    grudge: asRecord(row.grudge),
+    strike_schedule: {
+      eligible_modes: ["travel", "dungeon"],
+      delay_minutes: Math.max(1, Math.floor(num(schedule.delay_minutes, 20))),
+      strikes: Math.max(0, Math.floor(num(schedule.strikes))),
+      last_strike_at: typeof schedule.last_strike_at === "string" ? schedule.last_strike_at : null,
+    },
+  };
+}
+
+function readCounterSkill(value: unknown): NemesisCounterSkill | null {
+  const row = asRecord(value);
+  const id = typeof row.id === "string" ? row.id : "";
+  if (!id.startsWith("nemesis_")) return null;
+  const effectRaw = typeof row.effect === "string" ? row.effect : "none";
+  const countersRaw = typeof row.counters === "string" ? row.counters : "brawler";
+  return {
+    id,
+    name: typeof row.name === "string" && row.name.trim() ? row.name.trim() : id.replace(/^nemesis_/, "").replaceAll("_", " "),
+    counters: (countersRaw in COUNTER_SKILLS ? countersRaw : "brawler") as NemesisTacticSignature,
+    skill_mult: Math.max(0.5, Math.min(2.5, num(row.skill_mult, 1.1))),
+    range_tiles: clampInt(num(row.range_tiles, 1), 1, 6),
+    effect: effectRaw === "armor_break" || effectRaw === "vulnerable" || effectRaw === "drain" ? effectRaw : "none",
+  };
+}
+
+// Stats for the returning nemesis, scaled off the party level and what it learned.
+export function buildNemesisCombatantStats(args: {
+  seed: number;
+  nemesis: NemesisJson;
+  partyLevel: number;
+}): Record<NemesisStatKey, number> & { lvl: number; resist: number; hp_mult: number } {
+  const base = 48 + rngInt(args.seed, `nemesis:base:${args.nemesis.name}`, 0, 14) + args.nemesis.escalation * 4;
+  const stat = (key: NemesisStatKey, jitterLo: number, jitterHi: number) => clampInt(
+    base + rngInt(args.seed, `nemesis:${key}:${args.nemesis.name}`, jitterLo, jitterHi) + num(args.nemesis.loadout.stat_bonus[key], 0),
+    0,
+    100,
+  );
+  return {
+    lvl: clampInt(args.partyLevel + args.nemesis.loadout.level_bonus, 1, 99),
+    offense: stat("offense", 0, 12),
+    defense: stat("defense", -4, 10),
+    control: stat("control", -8, 8),
+    support: stat("support", -10, 6),
+    mobility: stat("mobility", -4, 10),
+    utility: stat("utility", -6, 8),
+    resist: args.nemesis.loadout.resist_bonus,
+    hp_mult: args.nemesis.loadout.hp_mult,
+  };
+}
+
+export function nemesisStatusEntry(arcId: string, nemesis: NemesisJson): Record<string, unknown> {
+  return {
+    id: "nemesis",
+    expires_turn: null,
+    data: {
+      arc_id: arcId,
+      name: nemesis.name,
+      title: nemesis.title,
+      escalation: nemesis.escalation,
+      counter_skills: nemesis.signature_counter.counter_skills,
+      prefer_targets: nemesis.signature_counter.prefer_targets,
+    },
+  };
+}
+
+export function nemesisFromStatuses(statuses: unknown): {
+  arcId: string;
+  counterSkills: NemesisCounterSkill[];
+  preferTargets: NemesisTargetPreference;
+} | null {
+  const list = Array.isArray(statuses) ? statuses : [];
+  for (const entry of list) {
+    const row = asRecord(entry);
+    if (String(row.id ?? "") !== "nemesis") continue;
+    const data = asRecord(row.data);
+    const arcId = typeof data.arc_id === "string" ? data.arc_id.trim() : "";
+    if (!arcId) continue;
+    const counterSkills = Array.isArray(data.counter_skills)
+      ? data.counter_skills.map(readCounterSkill).filter((skill): skill is NemesisCounterSkill => Boolean(skill))
+      : [];
+    const preferRaw = typeof data.prefer_targets === "string" ? data.prefer_targets : "weakest";
+    return {
+      arcId,
+      counterSkills,
+      preferTargets: preferRaw === "companions" || preferRaw === "casters" ? preferRaw : "weakest",
+    };
+  }
+  return null;
+}
@@ -0,0 +1,105 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import {
+  COMBAT_NARRATION_GRACE_MS,
+  PARTY_ACTION_CLAIM_LEASE_MS,
+  nextResolvablePartyAction,
+  tallyPartyVotes,
+  toPartyActionView,
+  unqueuedDmTurnAllowed,
+  type PartyActionRow,
+} from "./queue.js";
+
+function row(patch: Partial<PartyActionRow>): PartyActionRow {
+  return {
+    id: "a1",
+    campaign_id: "camp",
+    proposed_by: "u1",
+    kind: "prompt",
+    prompt: "Search the shrine",
+    action_json: null,
+    status: "pending",
+    approved_by: null,
+    approved_via: null,
+    turn_id: null,
+    claimed_at: null,
+    resolved_at: null,
+    created_at: "2026-02-28T10:00:00.000Z",
+    ...patch,
+  };
+}
+
+test("votes accept on a strict majority and reject once a majority is out of reach", () => {
+  assert.equal(tallyPartyVotes({ u1: "yes" }, 1).decision, "accepted");
+  assert.equal(tallyPartyVotes({ u1: "yes" }, 2).decision, null);
+  assert.equal(tallyPartyVotes({ u1: "yes", u2: "yes" }, 2).decision, "accepted");
+  assert.equal(tallyPartyVotes({ u1: "yes", u2: "no" }, 2).decision, "rejected");
+
+  const four = tallyPartyVotes({ u1: "yes", u2: "yes", u3: "no" }, 4);
+  assert.deepEqual(four, { yes: 2, no: 1, needed: 3, decision: null });
+  assert.equal(tallyPartyVotes({ u1: "yes", u2: "no", u3: "no" }, 4).decision, "rejected");
+  assert.equal(tallyPartyVotes({ u1: "yes", u2: "yes", u3: "yes" }, 4).decision, "accepted");
+
+  const view = toPartyActionView(row({}), { u1: "yes", u2: "no" }, 3);
+  assert.deepEqual(view.votes, { yes: ["u1"], no: ["u2"] });
+  assert.equal(view.votes_needed, 2);
+});
+
+test("accepted actions resolve oldest first and one at a time", () => {
+  const now = Date.parse("2026-02-28T10:05:00.000Z");
+  const older = row({ id: "old", status: "accepted", created_at: "2026-02-28T10:00:00.000Z" });
+  const newer = row({ id: "new", status: "accepted", created_at: "2026-02-28T10:01:00.000Z" });
+  const pending = row({ id: "pending", status: "pending", created_at: "2026-02-28T09:00:00.000Z" });
+  assert.equal(nextResolvablePartyAction([newer, pending, older], now)?.id, "old");
+
+  const liveClaim = { ...older, status: "resolving" as const, claimed_at: new Date(now - 1_000).toISOString() };
+  assert.equal(nextResolvablePartyAction([liveClaim, newer], now), null);
+
+  const staleClaim = { ...liveClaim, claimed_at: new Date(now - PARTY_ACTION_CLAIM_LEASE_MS).toISOString() };
+  assert.equal(nextResolvablePartyAction([newer, staleClaim], now)?.id, "old");
+  assert.equal(nextResolvablePartyAction([pending], now), null);
+});
+
+test("a co-op party only runs unqueued DM turns for combat beats and the opening", () => {
+  const now = Date.parse("2026-02-28T10:05:00.000Z");
+  const live = {
+    status: "active",
+    updated_at: "2026-02-28T10:04:00.000Z",
+    actor: { entity_type: "player", player_id: "u1" },
+  };
+  const base = { partySize: 2, source: "typed_command", userId: "u1", firstTurn: false, combat: null, nowMs: now };
+  assert.equal(unqueuedDmTurnAllowed({ ...base, partySize: 1 }), true);
+  assert.equal(unqueuedDmTurnAllowed(base), false);
+  assert.equal(unqueuedDmTurnAllowed({ ...base, source: null }), false);
+  assert.equal(unqueuedDmTurnAllowed({ ...base, source: "board_hotspot", combat: live }), false);
+  assert.equal(unqueuedDmTurnAllowed({ ...base, source: "campaign_intro_auto" }), false);
+  assert.equal(unqueuedDmTurnAllowed({ ...base, source: "campaign_intro_auto", firstTurn: true }), true);
+
+  assert.equal(unqueuedDmTurnAllowed({ ...base, source: "combat_skill" }), false);
+  assert.equal(unqueuedDmTurnAllowed({ ...base, source: "combat_skill", combat: live }), true);
+  assert.equal(unqueuedDmTurnAllowed({ ...base, source: "combat_skill", userId: "u2", combat: live }), false);
+  assert.equal(unqueuedDmTurnAllowed({ ...base, source: "combat_skill", combat: { ...live, actor: null } }), false);
+  assert.equal(unqueuedDmTurnAllowed({ ...base, source: "combat_enemy_tick", combat: live }), false);
+  const enemy = { ...live, actor: { entity_type: "npc", player_id: null } };
+  assert.equal(unqueuedDmTurnAllowed({ ...base, source: "combat_enemy_tick", userId: "u2", combat: enemy }), true);
+  assert.equal(unqueuedDmTurnAllowed({ ...base, source: "combat_quick_cast", combat: enemy }), false);
+});
+
+test("the blow that ends a fight still narrates unqueued within the grace window", () => {
+  const endedAt = Date.parse("2026-02-28T10:05:00.000Z");
+  const ended = {
+    status: "ended",
+    updated_at: new Date(endedAt).toISOString(),
+    actor: { entity_type: "player", player_id: "u1" },
+  };
+  const base = { partySize: 3, source: "combat_skill", userId: "u1", firstTurn: false, combat: ended };
+  assert.equal(unqueuedDmTurnAllowed({ ...base, nowMs: endedAt + 2_000 }), true);
+  assert.equal(unqueuedDmTurnAllowed({
+    ...base,
+    source: "combat_enemy_tick",
+    combat: { ...ended, actor: { entity_type: "npc", player_id: null } },
+    nowMs: endedAt + 2_000,
+  }), true);
+  assert.equal(unqueuedDmTurnAllowed({ ...base, nowMs: endedAt + COMBAT_NARRATION_GRACE_MS }), false);
+});
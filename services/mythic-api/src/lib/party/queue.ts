@@ -0,0 +1,271 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+// Co-op action queue: members propose DM prompts or ui_action chips, the party votes (or the owner
+// decides), and accepted actions become DM turns one at a time, oldest first.
+
+export const PARTY_ACTION_KINDS = ["prompt", "ui_action"] as const;
+export type PartyActionKind = (typeof PARTY_ACTION_KINDS)[number];
+
+export type PartyActionStatus = "pending" | "accepted" | "resolving" | "resolved" | "rejected" | "withdrawn";
+export type PartyVote = "yes" | "no";
+export type PartyApproval = "vote" | "owner";
+
+/** A DM turn that failed after claiming its action leaves it "resolving"; after this it may be claimed again. */
+export const PARTY_ACTION_CLAIM_LEASE_MS = 120_000;
+
+const OPEN_STATUSES: PartyActionStatus[] = ["pending", "accepted", "resolving"];
+const RECENT_CLOSED_LIMIT = 10;
+
+export type PartyActionRow = {
+  id: string;
+  campaign_id: string;
+  proposed_by: string;
+  kind: PartyActionKind;
+  prompt: string;
+  action_json: Record<string, unknown> | null;
+  status: PartyActionStatus;
+  approved_by: string | null;
+  approved_via: PartyApproval | null;
+  turn_id: string | null;
+  claimed_at: string | null;
+  resolved_at: string | null;
+  created_at: string;
+};
+
+export type PartyActionView = PartyActionRow & {
+  votes: { yes: string[]; no: string[] };
+  votes_needed: number;
+};
+
+export type PartyVoteTally = {
+  yes: number;
+  no: number;
+  needed: number;
+  decision: "accepted" | "rejected" | null;
+};
+
+/** Strict majority of the party accepts; once a majority can no longer be reached the action is rejected. */
+export function tallyPartyVotes(votes: Record<string, PartyVote>, partySize: number): PartyVoteTally {
+  const size = Math.max(1, Math.floor(partySize));
+  const needed = Math.floor(size / 2) + 1;
+  const values = Object.values(votes);
+  const yes = values.filter((vote) => vote === "yes").length;
+  const no = values.filter((vote) => vote === "no").length;
+  const decision = yes >= needed ? "accepted" : size - no < needed ? "rejected" : null;
+  return { yes, no, needed, decision };
+}
+
+function isLiveClaim(row: PartyActionRow, nowMs: number): boolean {
+  return row.status === "resolving" && Boolean(row.claimed_at) && nowMs - Date.parse(row.claimed_at!) < PARTY_ACTION_CLAIM_LEASE_MS;
+}
+
+/**
+ * The next action to resolve: the oldest accepted one, or a stale claim whose DM turn never committed.
+ * Nothing is resolvable while another claim is still live.
+ */
+export function nextResolvablePartyAction(rows: PartyActionRow[], nowMs: number): PartyActionRow | null {
+  if (rows.some((row) => isLiveClaim(row, nowMs))) return null;
+  const ready = rows.filter((row) => row.status === "accepted" || row.status === "resolving");
+  return ready.sort((a, b) => a.created_at.localeCompare(b.created_at) || a.id.localeCompare(b.id))[0] ?? null;
+}
+
+/** How long after a fight ends its closing narration (the killing blow, the last enemy step) may still run unqueued. */
+export const COMBAT_NARRATION_GRACE_MS = 120_000;
+
+const COMBAT_NARRATION_SOURCES = new Set(["combat_skill", "combat_quick_cast", "combat_enemy_tick"]);
+
+/** The combat session and acting combatant a narration names, as the server has them. */
+export type CombatNarrationRecord = {
+  status: string;
+  updated_at: string;
+  actor: { entity_type: string; player_id: string | null } | null;
+};
+
+/**
+ * Whether a DM turn without a queue claim may run. A co-op party only narrates through the queue, except the opening
+ * narration before any turn exists and combat beats, which the combat turn order already serialises. A combat beat
+ * must name a session that is live or just ended, and an actor the caller controls (or an enemy, for enemy steps).
+ */
+export function unqueuedDmTurnAllowed(args: {
+  partySize: number;
+  source: string | null;
+  userId: string;
+  firstTurn: boolean;
+  combat: CombatNarrationRecord | null;
+  nowMs: number;
+}): boolean {
+  if (args.partySize <= 1) return true;
+  if (args.source === "campaign_intro_auto") return args.firstTurn;
+  if (!args.source || !COMBAT_NARRATION_SOURCES.has(args.source) || !args.combat?.actor) return false;
+  const { combat } = args;
+  const live = combat.status === "active" || args.nowMs - Date.parse(combat.updated_at) < COMBAT_NARRATION_GRACE_MS;
+  if (!live) return false;
+  return args.source === "combat_enemy_tick"
+    ? combat.actor!.entity_type !== "player"
+    : combat.actor!.player_id === args.userId;
+}
+
+/** Loads what `unqueuedDmTurnAllowed` checks a combat beat against; null when the session or actor is not this campaign's. */
+export async function loadCombatNarrationRecord(
+  svc: SupabaseClient,
+  args: { campaignId: string; combatSessionId: string; actorCombatantId: string | null },
+): Promise<CombatNarrationRecord | null> {
+  const { data: session, error: sessionErr } = await svc
+    .schema("mythic")
+    .from("combat_sessions")
+    .select("status, updated_at")
+    .eq("id", args.combatSessionId)
+    .eq("campaign_id", args.campaignId)
+    .maybeSingle();
+  if (sessionErr) throw sessionErr;
+  if (!session) return null;
+  let actor: CombatNarrationRecord["actor"] = null;
+  if (args.actorCombatantId) {
+    const { data: combatant, error: combatantErr } = await svc
+      .schema("mythic")
+      .from("combatants")
+      .select("entity_type, player_id")
+      .eq("id", args.actorCombatantId)
+      .eq("combat_session_id", args.combatSessionId)
+      .maybeSingle();
+    if (combatantErr) throw combatantErr;
+    const row = combatant as { entity_type?: unknown; player_id?: unknown } | null;
+    actor = row
+      ? { entity_type: String(row.entity_type ?? ""), player_id: typeof row.player_id === "string" ? row.player_id : null }
+      : null;
+  }
+  const row = session as { status?: unknown; updated_at?: unknown };
+  return { status: String(row.status ?? ""), updated_at: String(row.updated_at ?? ""), actor };
+}
+
+export async function loadPartyMembers(svc: SupabaseClient, campaignId: string): Promise<{ ownerId: string | null; userIds: string[] }> {
+  const [{ data: campaign, error: campaignErr }, { data: members, error: membersErr }] = await Promise.all([
+    svc.from("campaigns").select("owner_id").eq("id", campaignId).maybeSingle(),
+    svc.from("campaign_members").select("user_id").eq("campaign_id", campaignId),
+  ]);
+  if (campaignErr) throw campaignErr;
+  if (membersErr) throw membersErr;
+  const ownerId = (campaign as { owner_id?: unknown } | null)?.owner_id;
+  const ids = new Set<string>(typeof ownerId === "string" ? [ownerId] : []);
+  for (const row of (members ?? []) as Array<{ user_id?: unknown }>) {
+    if (typeof row.user_id === "string") ids.add(row.user_id);
+  }
+  return { ownerId: typeof ownerId === "string" ? ownerId : null, userIds: [...ids] };
+}
+
+export async function loadPartyVotes(svc: SupabaseClient, actionIds: string[]): Promise<Map<string, Record<string, PartyVote>>> {
+  const byAction = new Map<string, Record<string, PartyVote>>();
+  if (actionIds.length === 0) return byAction;
+  const { data, error } = await svc
+    .schema("mythic")
+    .from("party_action_votes")
+    .select("action_id, user_id, vote")
+    .in("action_id", actionIds);
+  if (error) throw error;
+  for (const row of (data ?? []) as Array<{ action_id: string; user_id: string; vote: PartyVote }>) {
+    byAction.set(row.action_id, { ...(byAction.get(row.action_id) ?? {}), [row.user_id]: row.vote });
+  }
+  return byAction;
+}
+
+export function toPartyActionView(row: PartyActionRow, votes: Record<string, PartyVote>, partySize: number): PartyActionView {
+  const entries = Object.entries(votes);
+  return {
+    ...row,
+    votes: {
+      yes: entries.filter(([, vote]) => vote === "yes").map(([userId]) => userId),
+      no: entries.filter(([, vote]) => vote === "no").map(([userId]) => userId),
+    },
+    votes_needed: tallyPartyVotes(votes, partySize).needed,
+  };
+}
+
+/** Open actions in queue order, then the most recently closed ones for the transcript. */
+export async function loadPartyQueue(svc: SupabaseClient, campaignId: string, partySize: number): Promise<PartyActionView[]> {
+  const [{ data: open, error: openErr }, { data: closed, error: closedErr }] = await Promise.all([
+    svc
+      .schema("mythic")
+      .from("party_actions")
+      .select("*")
+      .eq("campaign_id", campaignId)
+      .in("status", OPEN_STATUSES)
+      .order("created_at", { ascending: true }),
+    svc
+      .schema("mythic")
+      .from("party_actions")
+      .select("*")
+      .eq("campaign_id", campaignId)
+      .not("status", "in", `(${OPEN_STATUSES.join(",")})`)
+      .order("updated_at", { ascending: false })
+      .limit(RECENT_CLOSED_LIMIT),
+  ]);
+  if (openErr) throw openErr;
+  if (closedErr) throw closedErr;
+  const rows = [...(open ?? []), ...(closed ?? [])] as PartyActionRow[];
+  const votes = await loadPartyVotes(svc, rows.map((row) => row.id));
+  return rows.map((row) => toPartyActionView(row, votes.get(row.id) ?? {}, partySize));
+}
+
+export type PartyActionClaim =
+  | { ok: true; action: PartyActionRow }
+  | { ok: false; code: "party_action_not_found" | "party_action_not_ready" | "party_queue_order"; message: string };
+
+/**
+ * Claims an accepted action for the DM turn about to run. Only the head of the queue may be claimed,
+ * which is what serialises the party's turns; a conditional update keeps two clients from both winning.
+ */
+export async function claimPartyAction(
+  svc: SupabaseClient,
+  args: { campaignId: string; actionId: string; now?: Date },
+): Promise<PartyActionClaim> {
+  const now = args.now ?? new Date();
+  const { data, error } = await svc
+    .schema("mythic")
+    .from("party_actions")
+    .select("*")
+    .eq("campaign_id", args.campaignId)
+    .in("status", ["accepted", "resolving"])
+    .order("created_at", { ascending: true });
+  if (error) throw error;
+  const rows = (data ?? []) as PartyActionRow[];
+  const target = rows.find((row) => row.id === args.actionId);
+  if (!target) {
+    return { ok: false, code: "party_action_not_found", message: "That party action is not waiting to be resolved" };
+  }
+  const head = nextResolvablePartyAction(rows, now.getTime());
+  if (!head) {
+    return { ok: false, code: "party_action_not_ready", message: "Another party action is being resolved" };
+  }
+  if (head.id !== target.id) {
+    return { ok: false, code: "party_queue_order", message: "An earlier party action must resolve first" };
+  }
+
+  const claimedAt = now.toISOString();
+  let claim = svc
+    .schema("mythic")
+    .from("party_actions")
+    .update({ status: "resolving", claimed_at: claimedAt })
+    .eq("id", target.id)
+    .eq("status", target.status);
+  claim = target.claimed_at ? claim.eq("claimed_at", target.claimed_at) : claim.is("claimed_at", null);
+  const { data: claimed, error: claimErr } = await claim.select("*").maybeSingle();
+  if (claimErr) throw claimErr;
+  if (!claimed) {
+    return { ok: false, code: "party_action_not_ready", message: "That party action is already being resolved" };
+  }
+  return { ok: true, action: claimed as PartyActionRow };
+}
+
+export async function resolvePartyAction(
+  svc: SupabaseClient,
+  args: { actionId: string; claimedAt: string | null; turnId: string | null },
+): Promise<void> {
+  const { error } = await svc
+    .schema("mythic")
+    .from("party_actions")
+    .update({ status: "resolved", turn_id: args.turnId, resolved_at: new Date().toISOString() })
+    .eq("id", args.actionId)
+    .eq("status", "resolving")
+    .eq("claimed_at", args.claimedAt);
+  if (error) throw error;
+}
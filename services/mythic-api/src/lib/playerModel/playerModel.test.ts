@@ -0,0 +1,128 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import { buildPromptWorldContextBlock } from "../worldforge/prompt_budget.js";
+import {
+  applyPlayerModelSignal,
+  playerModelTags,
+  scoreCombatAction,
+  scoreDmTurn,
+  summarizePlayerModel,
+  type PlayerModelState,
+} from "./scoring.js";
+import { emptyPlayerModel, playerModelFromRow } from "./store.js";
+
+function replayTurns(state: PlayerModelState, turns: Array<{ intent: string; prompt: string }>): PlayerModelState {
+  return turns.reduce((acc, turn) => applyPlayerModelSignal(
+    acc,
+    scoreDmTurn({ intent: turn.intent, prompt: turn.prompt, recentPrompts: acc.preferred_tactics.recent_prompts }),
+    { kind: "dm_turn", prompt: turn.prompt },
+  ), state);
+}
+
+function combatAction(state: PlayerModelState, args: { skill: string; targeting: string; opener: boolean }): PlayerModelState {
+  return applyPlayerModelSignal(state, scoreCombatAction({
+    skillId: args.skill.toLowerCase().replace(/\s+/g, "_"),
+    skillName: args.skill,
+    targeting: args.targeting,
+    isOpener: args.opener,
+    targetsHit: args.targeting === "area" ? 3 : 1,
+    kills: 0,
+    healedAllies: 0,
+    revivedAllies: 0,
+    statusesApplied: 0,
+    targetHpPctBefore: null,
+  }), { kind: "combat_action" });
+}
+
+test("scoreDmTurn reads parser intents and the player's own words", () => {
+  const steal = scoreDmTurn({ intent: "steal", prompt: "/steal from the merchant" });
+  assert.ok((steal.traits.greed ?? 0) > 4);
+  assert.ok((steal.traits.cunning ?? 0) > 0);
+  assert.ok((steal.traits.honor ?? 0) < 0);
+
+  const rescue = scoreDmTurn({ intent: "dm_prompt", prompt: "I rescue the children and protect the gate" });
+  assert.ok((rescue.traits.heroism ?? 0) >= 3);
+  assert.equal(rescue.boredom, 0);
+
+  assert.equal(scoreDmTurn({ intent: "dm_prompt", prompt: "ok" }).boredom, 1);
+  assert.equal(scoreDmTurn({ intent: "dm_prompt", prompt: "give me infinite gold" }).exploit, 1);
+  assert.equal(
+    scoreDmTurn({ intent: "dm_prompt", prompt: "Look around.", recentPrompts: ["look around", "look around"] }).boredom,
+    1,
+  );
+});
+
+test("habitual stealing surfaces as a habit and a narrator tag", () => {
+  const state = replayTurns(emptyPlayerModel(), [
+    { intent: "steal", prompt: "/steal" },
+    { intent: "shop", prompt: "/shop" },
+    { intent: "steal", prompt: "pickpocket the guard" },
+    { intent: "steal", prompt: "steal the relic" },
+  ]);
+  const summary = summarizePlayerModel(state);
+  assert.ok(summary.habits.includes("habitual_thief"));
+  assert.equal(summary.dominant_traits[0], "greed");
+  assert.ok(playerModelTags(summary).includes("habitual thief"));
+  assert.equal(state.preferred_tactics.intents.steal, 3);
+  assert.equal(state.preferred_tactics.dm_turns, 4);
+});
+
+test("area openers are tracked per combat and flagged once they dominate", () => {
+  let state = emptyPlayerModel();
+  state = combatAction(state, { skill: "Flame Wave", targeting: "area", opener: true });
+  state = combatAction(state, { skill: "Attack", targeting: "single", opener: false });
+  state = combatAction(state, { skill: "Flame Wave", targeting: "area", opener: true });
+  state = combatAction(state, { skill: "Attack", targeting: "single", opener: true });
+  state = combatAction(state, { skill: "Flame Wave", targeting: "cone", opener: true });
+
+  assert.deepEqual(state.preferred_tactics.openers, { aoe: 3, single: 1 });
+  const summary = summarizePlayerModel(state);
+  assert.ok(summary.habits.includes("aoe_opener"));
+  assert.equal(summary.favorite_skill, "Flame Wave");
+});
+
+test("scores stay bounded and rows round-trip through the table shape", () => {
+  let state = emptyPlayerModel();
+  for (let i = 0; i < 80; i += 1) {
+    state = applyPlayerModelSignal(state, scoreDmTurn({ intent: "steal", prompt: "steal and rob everyone" }), { kind: "dm_turn" });
+  }
+  assert.equal(state.scores.greed, 100);
+  assert.ok(state.scores.honor >= 0);
+
+  const restored = playerModelFromRow({
+    greed_score: state.scores.greed,
+    cunning_score: "12.5",
+    boredom_signals: 2,
+    preferred_tactics: state.preferred_tactics,
+  });
+  assert.equal(restored.scores.greed, 100);
+  assert.equal(restored.scores.cunning, 12.5);
+  assert.equal(restored.scores.cruelty, 0);
+  assert.deepEqual(restored.preferred_tactics, state.preferred_tactics);
+});
+
+test("prompt world block carries the player model and trims its scores first", () => {
+  const state = replayTurns(emptyPlayerModel(), [
+    { intent: "steal", prompt: "/steal" },
+    { intent: "steal", prompt: "/steal" },
+    { intent: "steal", prompt: "/steal" },
+  ]);
+  const playerModel = summarizePlayerModel(state) as unknown as Record<string, unknown>;
+
+  const roomy = buildPromptWorldContextBlock({ playerModel, maxChars: 4_000 });
+  const block = roomy.payload.player_model as Record<string, unknown>;
+  assert.deepEqual(block.habits, ["habitual_thief"]);
+  assert.ok(block.scores);
+
+  const tight = buildPromptWorldContextBlock({
+    playerModel,
+    dmContext: { narrative_directives: Array.from({ length: 6 }, (_, i) => `directive ${i} `.repeat(20)) },
+    maxChars: 700,
+  });
+  assert.ok(tight.meta.reductions.includes("player_model:reduced"));
+  assert.equal((tight.payload.player_model as Record<string, unknown>).scores, undefined);
+
+  const withoutModel = buildPromptWorldContextBlock({ maxChars: 4_000 });
+  assert.equal("player_model" in withoutModel.payload, false);
+});
@@ -0,0 +1,332 @@
+export type PlayerTraitKey = "cruelty" | "heroism" | "cunning" | "chaos" | "honor" | "greed";
+
+export const PLAYER_TRAIT_KEYS: PlayerTraitKey[] = ["cruelty", "heroism", "cunning", "chaos", "honor", "greed"];
+
+export type PlayerTraitScores = Record<PlayerTraitKey, number>;
+
+export type PlayerModelSignal = {
+  traits: Partial<PlayerTraitScores>;
+  boredom: number;
+  exploit: number;
+  intent: string | null;
+  skill: string | null;
+  opener: "aoe" | "single" | "self" | "move" | null;
+  tags: string[];
+};
+
+export type PreferredTactics = {
+  version: 1;
+  dm_turns: number;
+  combat_actions: number;
+  intents: Record<string, number>;
+  skills: Record<string, number>;
+  openers: Record<string, number>;
+  recent_prompts: string[];
+};
+
+export type PlayerModelState = {
+  scores: PlayerTraitScores;
+  boredom_signals: number;
+  exploit_signals: number;
+  preferred_tactics: PreferredTactics;
+};
+
+export type PlayerModelHabit =
+  | "habitual_thief"
+  | "bargain_hunter"
+  | "aoe_opener"
+  | "turtler"
+  | "mana_hoarder"
+  | "single_skill_spammer"
+  | "explorer";
+
+export type PlayerModelSummary = {
+  dominant_traits: PlayerTraitKey[];
+  habits: PlayerModelHabit[];
+  scores: PlayerTraitScores;
+  favorite_skill: string | null;
+  boredom: "low" | "rising" | "high";
+  exploit_watch: boolean;
+  samples: { dm_turns: number; combat_actions: number };
+};
+
+const SCORE_MIN = 0;
+const SCORE_MAX = 100;
+const SCORE_DECAY = 0.985;
+const RECENT_PROMPT_LIMIT = 6;
+const COUNT_KEY_LIMIT = 24;
+
+const TRAIT_PATTERNS: Array<{ trait: PlayerTraitKey; weight: number; rx: RegExp }> = [
+  { trait: "cruelty", weight: 3, rx: /\b(torture|execute|slaughter|maim|behead|burn (them|it|him|her)|finish (them|him|her) off|no mercy)\b/i },
+  { trait: "cruelty", weight: 1.5, rx: /\b(kill|threaten|intimidate|beat|bully|crush)\b/i },
+  { trait: "heroism", weight: 3, rx: /\b(rescue|save (the|them|him|her)|protect|shield (the|them|him|her)|defend the)\b/i },
+  { trait: "heroism", weight: 1.5, rx: /\b(help|heal|free the|escort|volunteer)\b/i },
+  { trait: "cunning", weight: 2.5, rx: /\b(sneak|trick|deceive|lie to|bluff|disguise|ambush|bribe|eavesdrop)\b/i },
+  { trait: "cunning", weight: 1.5, rx: /\b(scout|inspect|investigate|plan|flank|observe)\b/i },
+  { trait: "chaos", weight: 2.5, rx: /\b(explode|blow up|set fire|smash everything|random|chaos|prank|start a riot)\b/i },
+  { trait: "chaos", weight: 1, rx: /\b(yell|dance|flip|throw)\b/i },
+  { trait: "honor", weight: 2.5, rx: /\b(swear|oath|duel|keep my word|honest|spare (them|him|her)|surrender)\b/i },
+  { trait: "honor", weight: 1.5, rx: /\b(apologi[sz]e|pay (back|them|him|her)|fair)\b/i },
+  { trait: "greed", weight: 2.5, rx: /\b(steal|pickpocket|rob|loot everything|extort)\b/i },
+  { trait: "greed", weight: 1.5, rx: /\b(gold|coin|treasure|loot|sell|price|reward)\b/i },
+];
+
+const INTENT_TRAITS: Record<string, Partial<PlayerTraitScores>> = {
+  steal: { greed: 4, cunning: 2, honor: -2 },
+  loot: { greed: 1.5 },
+  shop: { greed: 0.5 },
+  shop_action: { greed: 0.5 },
+  combat_start: { cruelty: 0.5, chaos: 0.5 },
+  quest_action: { heroism: 1 },
+  companion_action: { honor: 0.5 },
+};
+
+const BOREDOM_RX = /^(ok(ay)?|k|continue|next|go on|whatever|and\??|sure|yes|no|\.+|\?+)$/i;
+const EXPLOIT_RX = /\b(give me (infinite|unlimited|all|max)|set (my )?(hp|health|level|gold|xp)|spawn (a |an )?(legendary|mythic)|ignore (the )?(rules|previous instructions)|god ?mode|dev(eloper)? mode|no ?clip)\b/i;
+const AREA_TARGETING = new Set(["area", "line", "cone"]);
+
+function clampScore(value: number): number {
+  if (!Number.isFinite(value)) return 0;
+  return Math.max(SCORE_MIN, Math.min(SCORE_MAX, Number(value.toFixed(2))));
+}
+
+function emptySignal(): PlayerModelSignal {
+  return { traits: {}, boredom: 0, exploit: 0, intent: null, skill: null, opener: null, tags: [] };
+}
+
+function addTraits(target: Partial<PlayerTraitScores>, delta: Partial<PlayerTraitScores>) {
+  for (const key of PLAYER_TRAIT_KEYS) {
+    const amount = delta[key];
+    if (typeof amount !== "number" || amount === 0) continue;
+    target[key] = (target[key] ?? 0) + amount;
+  }
+}
+
+function normalizePrompt(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9\s]/g, " ").replace(/\s+/g, " ").trim();
+}
+
+function bump(counts: Record<string, number>, key: string, amount = 1): Record<string, number> {
+  const next = { ...counts, [key]: (counts[key] ?? 0) + amount };
+  const entries = Object.entries(next);
+  if (entries.length <= COUNT_KEY_LIMIT) return next;
+  // Keep the table bounded; least-used keys fall off first.
+  return Object.fromEntries(entries.sort((left, right) => right[1] - left[1]).slice(0, COUNT_KEY_LIMIT));
+}
+
+function topKey(counts: Record<string, number>): [string, number] | null {
+  const entries = Object.entries(counts).sort((left, right) => right[1] - left[1] || left[0].localeCompare(right[0]));
+  return entries[0] ?? null;
+}
+
+function share(counts: Record<string, number>, key: string, among?: string[]): number {
+  const pool = among ? among.map((entry) => counts[entry] ?? 0) : Object.values(counts);
+  const total = pool.reduce((sum, value) => sum + value, 0);
+  return total > 0 ? (counts[key] ?? 0) / total : 0;
+}
+
+/**
+ * Score one committed DM turn. `intent` comes from the action context (typed commands
+ * carry the `playerCommandParser` intent), `prompt` is the player's own words.
+ */
+export function scoreDmTurn(args: {
+  intent: string | null;
+  parsedIntent?: string | null;
+  prompt: string | null;
+  recentPrompts?: string[];
+}): PlayerModelSignal {
+  const signal = emptySignal();
+  const intent = (args.parsedIntent ?? args.intent ?? "").trim().toLowerCase() || null;
+  signal.intent = intent;
+  if (intent && INTENT_TRAITS[intent]) addTraits(signal.traits, INTENT_TRAITS[intent]!);
+
+  const prompt = typeof args.prompt === "string" ? args.prompt.trim() : "";
+  if (prompt) {
+    for (const pattern of TRAIT_PATTERNS) {
+      if (pattern.rx.test(prompt)) addTraits(signal.traits, { [pattern.trait]: pattern.weight });
+    }
+    const normalized = normalizePrompt(prompt);
+    if (BOREDOM_RX.test(prompt) || (args.recentPrompts ?? []).slice(-3).filter((entry) => entry === normalized).length >= 2) {
+      signal.boredom = 1;
+      signal.tags.push("low_signal_prompt");
+    }
+    if (EXPLOIT_RX.test(prompt)) {
+      signal.exploit = 1;
+      signal.tags.push("exploit_probe");
+    }
+  }
+  return signal;
+}
+
+/** Score one resolved combat skill from `mythic-combat-use-skill`. */
+export function scoreCombatAction(args: {
+  skillId: string;
+  skillName: string;
+  targeting: string;
+  isOpener: boolean;
+  targetsHit: number;
+  kills: number;
+  healedAllies: number;
+  revivedAllies: number;
+  statusesApplied: number;
+  targetHpPctBefore: number | null;
+}): PlayerModelSignal {
+  const signal = emptySignal();
+  signal.intent = "combat_action";
+  signal.skill = args.skillName.trim() || args.skillId;
+
+  const isArea = AREA_TARGETING.has(args.targeting) || args.targetsHit > 1;
+  if (args.isOpener) {
+    signal.opener = args.skillId === "basic_move"
+      ? "move"
+      : args.targeting === "self"
+        ? "self"
+        : isArea
+          ? "aoe"
+          : "single";
+  }
+
+  if (isArea) addTraits(signal.traits, { chaos: 1 });
+  if (args.kills > 0) addTraits(signal.traits, { cruelty: args.kills * 0.75 });
+  if (args.kills > 0 && args.targetHpPctBefore !== null && args.targetHpPctBefore <= 0.15) {
+    addTraits(signal.traits, { cruelty: 1 });
+  }
+  if (args.healedAllies > 0) addTraits(signal.traits, { heroism: args.healedAllies * 1.5 });
+  if (args.revivedAllies > 0) addTraits(signal.traits, { heroism: args.revivedAllies * 3, honor: 1 });
+  if (args.statusesApplied > 0) addTraits(signal.traits, { cunning: Math.min(3, args.statusesApplied) });
+  if (args.skillId === "basic_defend") addTraits(signal.traits, { honor: 0.5 });
+  return signal;
+}
+
+export function defaultPreferredTactics(): PreferredTactics {
+  return {
+    version: 1,
+    dm_turns: 0,
+    combat_actions: 0,
+    intents: {},
+    skills: {},
+    openers: {},
+    recent_prompts: [],
+  };
+}
+
+function readCounts(value: unknown): Record<string, number> {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return {};
+  const out: Record<string, number> = {};
+  for (const [key, raw] of Object.entries(value as Record<string, unknown>)) {
+    const count = Number(raw);
+    if (Number.isFinite(count) && count > 0) out[key] = Math.floor(count);
+  }
+  return out;
+}
+
+export function readPreferredTactics(value: unknown): PreferredTactics {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return defaultPreferredTactics();
+  const raw = value as Record<string, unknown>;
+  return {
+    version: 1,
+    dm_turns: Math.max(0, Math.floor(Number(raw.dm_turns ?? 0)) || 0),
+    combat_actions: Math.max(0, Math.floor(Number(raw.combat_actions ?? 0)) || 0),
+    intents: readCounts(raw.intents),
+    skills: readCounts(raw.skills),
+    openers: readCounts(raw.openers),
+    recent_prompts: Array.isArray(raw.recent_prompts)
+      ? raw.recent_prompts.filter((entry): entry is string => typeof entry === "string").slice(-RECENT_PROMPT_LIMIT)
+      : [],
+  };
+}
+
+export function applyPlayerModelSignal(
+  state: PlayerModelState,
+  signal: PlayerModelSignal,
+  args: { kind: "dm_turn" | "combat_action"; prompt?: string | null },
+): PlayerModelState {
+  const scores = { ...state.scores };
+  for (const key of PLAYER_TRAIT_KEYS) {
+    scores[key] = clampScore(scores[key] * SCORE_DECAY + (signal.traits[key] ?? 0));
+  }
+
+  let tactics: PreferredTactics = { ...state.preferred_tactics };
+  if (args.kind === "dm_turn") {
+    tactics.dm_turns += 1;
+    if (signal.intent && signal.intent !== "dm_prompt") tactics.intents = bump(tactics.intents, signal.intent);
+    const normalized = typeof args.prompt === "string" ? normalizePrompt(args.prompt) : "";
+    if (normalized) {
+      tactics.recent_prompts = [...tactics.recent_prompts, normalized.slice(0, 80)].slice(-RECENT_PROMPT_LIMIT);
+    }
+  } else {
+    tactics.combat_actions += 1;
+    if (signal.skill) tactics.skills = bump(tactics.skills, signal.skill);
+    if (signal.opener) tactics.openers = bump(tactics.openers, signal.opener);
+  }
+  tactics = { ...tactics, version: 1 };
+
+  return {
+    scores,
+    boredom_signals: Math.max(0, state.boredom_signals + signal.boredom),
+    exploit_signals: Math.max(0, state.exploit_signals + signal.exploit),
+    preferred_tactics: tactics,
+  };
+}
+
+export function summarizePlayerModel(state: PlayerModelState): PlayerModelSummary {
+  const tactics = state.preferred_tactics;
+  const dominant = [...PLAYER_TRAIT_KEYS]
+    .filter((key) => state.scores[key] >= 8)
+    .sort((left, right) => state.scores[right] - state.scores[left] || left.localeCompare(right))
+    .slice(0, 3);
+
+  const habits: PlayerModelHabit[] = [];
+  const economyIntents = ["steal", "shop", "shop_action", "loot"];
+  if ((tactics.intents.steal ?? 0) >= 3 && share(tactics.intents, "steal", economyIntents) >= 0.5) habits.push("habitual_thief");
+  const shopCount = (tactics.intents.shop ?? 0) + (tactics.intents.shop_action ?? 0);
+  if (shopCount >= 4 && (tactics.intents.steal ?? 0) === 0) habits.push("bargain_hunter");
+  if ((tactics.openers.aoe ?? 0) >= 2 && share(tactics.openers, "aoe") >= 0.5) habits.push("aoe_opener");
+  if (tactics.combat_actions >= 6 && share(tactics.skills, "Defend") >= 0.35) habits.push("turtler");
+  if (tactics.combat_actions >= 6 && share(tactics.skills, "Recover MP") >= 0.3) habits.push("mana_hoarder");
+  const favorite = topKey(tactics.skills);
+  if (favorite && tactics.combat_actions >= 8 && favorite[1] / tactics.combat_actions >= 0.6 && !habits.includes("turtler")) {
+    habits.push("single_skill_spammer");
+  }
+  const travelCount = (tactics.intents.travel ?? 0) + (tactics.intents.dungeon ?? 0);
+  const intentTotal = Object.values(tactics.intents).reduce((sum, value) => sum + value, 0);
+  if (travelCount >= 4 && travelCount / intentTotal >= 0.5) habits.push("explorer");
+
+  const boredomRatio = tactics.dm_turns > 0 ? state.boredom_signals / tactics.dm_turns : 0;
+  return {
+    dominant_traits: dominant,
+    habits,
+    scores: Object.fromEntries(PLAYER_TRAIT_KEYS.map((key) => [key, Math.round(state.scores[key])])) as PlayerTraitScores,
+    favorite_skill: favorite ? favorite[0] : null,
+    boredom: boredomRatio >= 0.35 && state.boredom_signals >= 3 ? "high" : boredomRatio >= 0.15 && state.boredom_signals >= 2 ? "rising" : "low",
+    exploit_watch: state.exploit_signals >= 2,
+    samples: { dm_turns: tactics.dm_turns, combat_actions: tactics.combat_actions },
+  };
+}
+
+const TRAIT_TAGS: Record<PlayerTraitKey, string> = {
+  cruelty: "known for cruelty",
+  heroism: "hailed as a rescuer",
+  cunning: "known as a schemer",
+  chaos: "a walking disaster",
+  honor: "keeps their word",
+  greed: "chases every coin",
+};
+
+const HABIT_TAGS: Record<PlayerModelHabit, string> = {
+  habitual_thief: "habitual thief",
+  bargain_hunter: "haggles every vendor",
+  aoe_opener: "opens with area blasts",
+  turtler: "hides behind a guard",
+  mana_hoarder: "always catching their breath",
+  single_skill_spammer: "leans on one trick",
+  explorer: "restless wanderer",
+};
+
+/** Short, narration-safe labels for the procedural narrator's reputation echo. */
+export function playerModelTags(summary: PlayerModelSummary): string[] {
+  return [
+    ...summary.habits.map((habit) => HABIT_TAGS[habit]),
+    ...summary.dominant_traits.map((trait) => TRAIT_TAGS[trait]),
+  ].slice(0, 6);
+}
@@ -0,0 +1,96 @@
+import { createServiceClient } from "../../shared/supabase.js";
+import {
+  applyPlayerModelSignal,
+  defaultPreferredTactics,
+  PLAYER_TRAIT_KEYS,
+  readPreferredTactics,
+  type PlayerModelSignal,
+  type PlayerModelState,
+  type PlayerTraitScores,
+} from "./scoring.js";
+
+type ServiceClient = ReturnType<typeof createServiceClient>;
+
+const MODEL_COLUMNS = [
+  "cruelty_score",
+  "heroism_score",
+  "cunning_score",
+  "chaos_score",
+  "honor_score",
+  "greed_score",
+  "boredom_signals",
+  "exploit_signals",
+  "preferred_tactics",
+].join(",");
+
+export function emptyPlayerModel(): PlayerModelState {
+  return {
+    scores: Object.fromEntries(PLAYER_TRAIT_KEYS.map((key) => [key, 0])) as PlayerTraitScores,
+    boredom_signals: 0,
+    exploit_signals: 0,
+    preferred_tactics: defaultPreferredTactics(),
+  };
+}
+
+export function playerModelFromRow(row: unknown): PlayerModelState {
+  if (!row || typeof row !== "object" || Array.isArray(row)) return emptyPlayerModel();
+  const raw = row as Record<string, unknown>;
+  const scores = Object.fromEntries(PLAYER_TRAIT_KEYS.map((key) => {
+    const value = Number(raw[`${key}_score`] ?? 0);
+    return [key, Number.isFinite(value) ? value : 0];
+  })) as PlayerTraitScores;
+  return {
+    scores,
+    boredom_signals: Math.max(0, Math.floor(Number(raw.boredom_signals ?? 0)) || 0),
+    exploit_signals: Math.max(0, Math.floor(Number(raw.exploit_signals ?? 0)) || 0),
+    preferred_tactics: readPreferredTactics(raw.preferred_tactics),
+  };
+}
+
+export async function loadPlayerModel(
+  svc: ServiceClient,
+  campaignId: string,
+  playerId: string,
+): Promise<PlayerModelState | null> {
+  const query = await svc
+    .schema("mythic")
+    .from("dm_player_model")
+    .select(MODEL_COLUMNS)
+    .eq("campaign_id", campaignId)
+    .eq("player_id", playerId)
+    .maybeSingle();
+  if (query.error) throw query.error;
+  return query.data ? playerModelFromRow(query.data) : null;
+}
+
+export async function recordPlayerModelSignal(args: {
+  svc: ServiceClient;
+  campaignId: string;
+  playerId: string;
+  signal: PlayerModelSignal;
+  kind: "dm_turn" | "combat_action";
+  prompt?: string | null;
+  current?: PlayerModelState | null;
+}): Promise<PlayerModelState> {
+  const current = args.current ?? await loadPlayerModel(args.svc, args.campaignId, args.playerId) ?? emptyPlayerModel();
+  const next = applyPlayerModelSignal(current, args.signal, { kind: args.kind, prompt: args.prompt ?? null });
+  const { error } = await args.svc
+    .schema("mythic")
+    .from("dm_player_model")
+    .upsert({
+      campaign_id: args.campaignId,
+      player_id: args.playerId,
+      cruelty_score: next.scores.cruelty,
+      heroism_score: next.scores.heroism,
+      cunning_score: next.scores.cunning,
+      chaos_score: next.scores.chaos,
+      honor_score: next.scores.honor,
+      greed_score: next.scores.greed,
+      boredom_signals: next.boredom_signals,
+      exploit_signals: next.exploit_signals,
+      preferred_tactics: next.preferred_tactics,
+      updated_at: new Date().toISOString(),
+    }, { onConflict: "campaign_id,player_id" });
+  if (error) throw error;
+  return next;
+}
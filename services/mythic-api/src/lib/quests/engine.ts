@@ -0,0 +1,298 @@
+import { z } from "zod";
+
+import { creatureFamily } from "../combat/bestiary.js";
+
+// Server port of the client narrative Quest engine (src/engine/narrative/Quest.ts). Objectives keep the
+// client's QuestObjective shape so the quest log renders stored quests as they are.
+
+export const DM_QUEST_SOURCE = "dm";
+
+export const QUEST_STATES = ["available", "active", "completed", "failed", "abandoned"] as const;
+export const QUEST_OBJECTIVE_TYPES = [
+  "kill",
+  "kill_type",
+  "collect",
+  "deliver",
+  "escort",
+  "explore",
+  "talk",
+  "protect",
+  "survive",
+  "craft",
+  "reach_level",
+  "use_item",
+] as const;
+export const QUEST_IMPORTANCE = ["side", "main", "legendary"] as const;
+
+export type QuestState = typeof QUEST_STATES[number];
+export type QuestObjectiveType = typeof QUEST_OBJECTIVE_TYPES[number];
+export type QuestImportance = typeof QUEST_IMPORTANCE[number];
+
+export interface QuestObjective {
+  id: string;
+  type: QuestObjectiveType;
+  description: string;
+  targetId: string | null;
+  targetType: string | null;
+  current: number;
+  required: number;
+  optional: boolean;
+  hidden: boolean;
+}
+
+export interface QuestRewards {
+  xp: number;
+  coins: number;
+  items: string[];
+}
+
+export interface QuestRecord {
+  quest_key: string;
+  title: string;
+  description: string | null;
+  brief_description: string | null;
+  giver: string | null;
+  state: QuestState;
+  importance: QuestImportance;
+  objectives: QuestObjective[];
+  rewards: QuestRewards;
+  time_limit: number | null;
+  turns_elapsed: number;
+}
+
+/** Something that happened in play that objectives can count: the server side of the client's process*Event. */
+export type QuestEvent =
+  | { kind: "kill"; targetId: string; targetType: string | null }
+  | { kind: "collect"; itemId: string }
+  | { kind: "talk"; npcId: string }
+  | { kind: "explore"; locationId: string };
+
+export interface QuestChange {
+  quest_key: string;
+  objective_id: string | null;
+  kind: "objective_completed" | "quest_completed" | "quest_failed";
+  description: string;
+}
+
+const QuestObjectiveInputSchema = z.object({
+  id: z.string().trim().min(1).max(80),
+  type: z.enum(QUEST_OBJECTIVE_TYPES),
+  description: z.string().trim().min(1).max(240),
+  targetId: z.string().trim().min(1).max(120).optional(),
+  targetType: z.string().trim().min(1).max(80).optional(),
+  current: z.number().int().min(0).optional(),
+  required: z.number().int().min(1).max(99).optional(),
+  optional: z.boolean().optional(),
+  hidden: z.boolean().optional(),
+});
+
+/** `data` of a DM QUEST_UPSERT patch. Unknown keys are dropped; a wrong type rejects the patch. */
+export const QuestUpsertDataSchema = z.object({
+  title: z.string().trim().min(1).max(160).optional(),
+  description: z.string().trim().min(1).max(900).optional(),
+  brief_description: z.string().trim().min(1).max(240).optional(),
+  giver: z.string().trim().min(1).max(120).optional(),
+  state: z.enum(QUEST_STATES).optional(),
+  importance: z.enum(QUEST_IMPORTANCE).optional(),
+  time_limit: z.number().int().min(1).max(500).nullable().optional(),
+  objectives: z.array(QuestObjectiveInputSchema).max(12).optional(),
+  rewards: z.object({
+    xp: z.number().int().min(0).max(5000).optional(),
+    coins: z.number().int().min(0).max(5000).optional(),
+    items: z.array(z.string().trim().min(1).max(120)).max(8).optional(),
+  }).optional(),
+});
+
+export type QuestUpsertData = z.infer<typeof QuestUpsertDataSchema>;
+
+const TERMINAL_STATES: QuestState[] = ["completed", "failed", "abandoned"];
+
+/** "Ash Edge", "ash-edge" and "ash_edge" name the same target. */
+export function questKey(value: string): string {
+  return value.trim().toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^_+|_+$/g, "");
+}
+
+export function isQuestComplete(quest: Pick<QuestRecord, "objectives">): boolean {
+  return quest.objectives
+    .filter((objective) => !objective.optional)
+    .every((objective) => objective.current >= objective.required);
+}
+
+export function getQuestProgress(quest: Pick<QuestRecord, "objectives">): number {
+  const required = quest.objectives.filter((objective) => !objective.optional);
+  if (required.length === 0) return 100;
+  const total = required.reduce((sum, objective) => sum + objective.required, 0);
+  const current = required.reduce((sum, objective) => sum + objective.current, 0);
+  return Math.round((current / total) * 100);
+}
+
+/** Advances one objective of an active quest; completes the quest once every required objective is met. */
+export function updateObjective(
+  quest: QuestRecord,
+  objectiveId: string,
+  delta: number,
+): { quest: QuestRecord; changes: QuestChange[] } {
+  if (quest.state !== "active") return { quest, changes: [] };
+  const changes: QuestChange[] = [];
+  const objectives = quest.objectives.map((objective) => {
+    if (objective.id !== objectiveId) return objective;
+    const current = Math.max(objective.current, Math.min(objective.required, objective.current + delta));
+    if (current >= objective.required && objective.current < objective.required) {
+      changes.push({
+        quest_key: quest.quest_key,
+        objective_id: objective.id,
+        kind: "objective_completed",
+        description: `Objective complete: ${objective.description}`,
+      });
+    }
+    return current === objective.current ? objective : { ...objective, current };
+  });
+  const next = { ...quest, objectives };
+  if (!isQuestComplete(next)) return { quest: next, changes };
+  return {
+    quest: { ...next, state: "completed" },
+    changes: [...changes, { quest_key: quest.quest_key, objective_id: null, kind: "quest_completed", description: `Quest complete: ${quest.title}` }],
+  };
+}
+
+export function revealHiddenObjective(quest: QuestRecord, objectiveId: string): QuestRecord {
+  return {
+    ...quest,
+    objectives: quest.objectives.map((objective) => (objective.id === objectiveId ? { ...objective, hidden: false } : objective)),
+  };
+}
+
+/** One turn passes. A timed quest fails when its limit runs out. */
+export function tickQuestTime(quest: QuestRecord): { quest: QuestRecord; failed: boolean } {
+  if (quest.state !== "active" || !quest.time_limit) return { quest, failed: false };
+  const turnsElapsed = quest.turns_elapsed + 1;
+  if (turnsElapsed >= quest.time_limit) {
+    return { quest: { ...quest, turns_elapsed: turnsElapsed, state: "failed" }, failed: true };
+  }
+  return { quest: { ...quest, turns_elapsed: turnsElapsed }, failed: false };
+}
+
+function objectiveMatches(objective: QuestObjective, event: QuestEvent): boolean {
+  const target = objective.targetId ? questKey(objective.targetId) : null;
+  if (event.kind === "kill") {
+    if (objective.type === "kill") return target !== null && target === questKey(event.targetId);
+    if (objective.type === "kill_type") {
+      return objective.targetType !== null && event.targetType !== null && questKey(objective.targetType) === questKey(event.targetType);
+    }
+    return false;
+  }
+  if (event.kind === "collect") return objective.type === "collect" && target === questKey(event.itemId);
+  if (event.kind === "talk") return objective.type === "talk" && target === questKey(event.npcId);
+  return objective.type === "explore" && target === questKey(event.locationId);
+}
+
+/** Feeds one event to a quest, counting each matching objective once. */
+export function applyQuestEvent(quest: QuestRecord, event: QuestEvent): { quest: QuestRecord; changes: QuestChange[] } {
+  let next = quest;
+  const changes: QuestChange[] = [];
+  for (const objective of quest.objectives) {
+    if (!objectiveMatches(objective, event)) continue;
+    const result = updateObjective(next, objective.id, 1);
+    next = result.quest;
+    changes.push(...result.changes);
+  }
+  return { quest: next, changes };
+}
+
+/** Kill events for the enemies that fell in a fight: matched by name for `kill`, by family for `kill_type`. */
+export function killEventsFor(names: string[]): QuestEvent[] {
+  return names.map((name) => ({ kind: "kill", targetId: name, targetType: creatureFamily(name) }));
+}
+
+function readObjective(input: z.infer<typeof QuestObjectiveInputSchema>, existing: QuestObjective | undefined): QuestObjective {
+  const required = input.required ?? existing?.required ?? 1;
+  return {
+    id: input.id,
+    type: input.type,
+    description: input.description,
+    targetId: input.targetId ?? existing?.targetId ?? null,
+    targetType: input.targetType ?? existing?.targetType ?? null,
+    current: Math.min(required, Math.max(existing?.current ?? 0, input.current ?? 0)),
+    required,
+    optional: input.optional ?? existing?.optional ?? false,
+    hidden: input.hidden ?? existing?.hidden ?? false,
+  };
+}
+
+/**
+ * Applies a DM QUEST_UPSERT to the stored quest. New quests need a title and an objective; finished quests
+ * stay finished, and a quest only counts as completed when its required objectives are met.
+ */
+export function applyQuestUpsert(
+  existing: QuestRecord | null,
+  questKeyRaw: string,
+  data: unknown,
+): { ok: true; quest: QuestRecord } | { ok: false; reason: string } {
+  const parsed = QuestUpsertDataSchema.safeParse(data);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    return { ok: false, reason: `invalid_data:${issue ? `${issue.path.join(".") || "data"}:${issue.message}` : "unknown"}` };
+  }
+  const input = parsed.data;
+  if (!existing && (!input.title || !input.objectives || input.objectives.length === 0)) {
+    return { ok: false, reason: "new_quest_requires_title_and_objectives" };
+  }
+  if (existing && TERMINAL_STATES.includes(existing.state) && input.state && input.state !== existing.state) {
+    return { ok: false, reason: `quest_${existing.state}` };
+  }
+  const ids = new Set<string>();
+  for (const objective of input.objectives ?? []) {
+    if (ids.has(objective.id)) return { ok: false, reason: `duplicate_objective:${objective.id}` };
+    ids.add(objective.id);
+  }
+
+  const objectives = [...(existing?.objectives ?? [])];
+  for (const objectiveInput of input.objectives ?? []) {
+    const index = objectives.findIndex((objective) => objective.id === objectiveInput.id);
+    const merged = readObjective(objectiveInput, index >= 0 ? objectives[index] : undefined);
+    if (index >= 0) objectives[index] = merged;
+    else objectives.push(merged);
+  }
+  const quest: QuestRecord = {
+    quest_key: existing?.quest_key ?? questKeyRaw.trim(),
+    title: input.title ?? existing!.title,
+    description: input.description ?? existing?.description ?? null,
+    brief_description: input.brief_description ?? existing?.brief_description ?? null,
+    giver: input.giver ?? existing?.giver ?? null,
+    state: input.state ?? existing?.state ?? "active",
+    importance: input.importance ?? existing?.importance ?? "side",
+    objectives,
+    rewards: {
+      xp: input.rewards?.xp ?? existing?.rewards.xp ?? 0,
+      coins: input.rewards?.coins ?? existing?.rewards.coins ?? 0,
+      items: input.rewards?.items ?? existing?.rewards.items ?? [],
+    },
+    time_limit: input.time_limit === undefined ? existing?.time_limit ?? null : input.time_limit,
+    turns_elapsed: existing?.turns_elapsed ?? 0,
+  };
+  if (quest.state === "completed" && !isQuestComplete(quest)) return { ok: false, reason: "objectives_incomplete" };
+  if (quest.state === "active" && isQuestComplete(quest)) quest.state = "completed";
+  return { ok: true, quest };
+}
+
+export function readQuestObjectives(value: unknown): QuestObjective[] {
+  if (!Array.isArray(value)) return [];
+  return value.flatMap((entry): QuestObjective[] => {
+    if (!entry || typeof entry !== "object" || Array.isArray(entry)) return [];
+    const row = entry as Record<string, unknown>;
+    const type = QUEST_OBJECTIVE_TYPES.find((candidate) => candidate === row.type);
+    if (typeof row.id !== "string" || !type) return [];
+    const required = Math.max(1, Math.floor(Number(row.required) || 1));
+    return [{
+      id: row.id,
+      type,
+      description: typeof row.description === "string" ? row.description : row.id,
+      targetId: typeof row.targetId === "string" ? row.targetId : null,
+      targetType: typeof row.targetType === "string" ? row.targetType : null,
+      current: Math.max(0, Math.min(required, Math.floor(Number(row.current) || 0))),
+      required,
+      optional: row.optional === true,
+      hidden: row.hidden === true,
+    }];
+  });
+}
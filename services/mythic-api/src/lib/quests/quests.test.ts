@@ -0,0 +1,130 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import {
+  applyQuestEvent,
+  applyQuestUpsert,
+  getQuestProgress,
+  killEventsFor,
+  questKey,
+  revealHiddenObjective,
+  tickQuestTime,
+  type QuestRecord,
+} from "./engine.js";
+import { questFromRow } from "./store.js";
+
+function opened(data: Record<string, unknown>): QuestRecord {
+  const result = applyQuestUpsert(null, "ember_hunt", data);
+  assert.equal(result.ok, true);
+  return (result as { ok: true; quest: QuestRecord }).quest;
+}
+
+const HUNT = {
+  title: "Ember Hunt",
+  objectives: [
+    { id: "drakes", type: "kill_type", description: "Slay 2 drakes", targetType: "drake", required: 2 },
+    { id: "warden", type: "talk", description: "Report to Warden Sel", targetId: "warden_sel" },
+    { id: "relic", type: "collect", description: "Pocket the ember relic", targetId: "Ember Relic", optional: true, hidden: true },
+  ],
+};
+
+test("new quests need a title and objectives, and get sane defaults", () => {
+  assert.deepEqual(applyQuestUpsert(null, "q", { title: "Nothing to do" }), { ok: false, reason: "new_quest_requires_title_and_objectives" });
+  const bad = applyQuestUpsert(null, "q", { title: "Odd", objectives: [{ id: "a", type: "dance", description: "Dance" }] });
+  assert.equal(bad.ok, false);
+
+  const quest = opened(HUNT);
+  assert.equal(quest.state, "active");
+  assert.equal(quest.importance, "side");
+  assert.equal(quest.time_limit, null);
+  assert.deepEqual(quest.objectives.map((objective) => objective.current), [0, 0, 0]);
+});
+
+test("upserts merge objectives by id and never roll progress back", () => {
+  const quest = applyQuestEvent(opened(HUNT), killEventsFor(["Bramble Drake"])[0]!).quest;
+  const result = applyQuestUpsert(quest, "ember_hunt", {
+    objectives: [
+      { id: "drakes", type: "kill_type", description: "Slay 3 drakes", targetType: "drake", required: 3, current: 0 },
+      { id: "escape", type: "explore", description: "Reach the gate", targetId: "gate" },
+    ],
+  });
+  assert.equal(result.ok, true);
+  const merged = (result as { ok: true; quest: QuestRecord }).quest;
+  assert.equal(merged.objectives.length, 4);
+  assert.deepEqual(merged.objectives[0], { ...quest.objectives[0], description: "Slay 3 drakes", required: 3, current: 1 });
+  assert.equal(merged.title, "Ember Hunt");
+});
+
+test("the DM cannot complete a quest early or revive a finished one", () => {
+  const quest = opened(HUNT);
+  assert.deepEqual(applyQuestUpsert(quest, "ember_hunt", { state: "completed" }), { ok: false, reason: "objectives_incomplete" });
+  const failed = { ...quest, state: "failed" as const };
+  assert.deepEqual(applyQuestUpsert(failed, "ember_hunt", { state: "active" }), { ok: false, reason: "quest_failed" });
+  const duplicate = applyQuestUpsert(quest, "ember_hunt", {
+    objectives: [
+      { id: "x", type: "explore", description: "A" },
+      { id: "x", type: "explore", description: "B" },
+    ],
+  });
+  assert.deepEqual(duplicate, { ok: false, reason: "duplicate_objective:x" });
+});
+
+test("kills, talks and pickups advance matching objectives and complete the quest", () => {
+  let quest = opened(HUNT);
+  const kills = killEventsFor(["Thunder Drake 2", "Dire Goose", "Bramble Drake", "Ashen Drake"]);
+  const changes = [];
+  for (const event of kills) {
+    const result = applyQuestEvent(quest, event);
+    quest = result.quest;
+    changes.push(...result.changes);
+  }
+  assert.equal(quest.objectives[0]!.current, 2);
+  assert.deepEqual(changes.map((change) => change.kind), ["objective_completed"]);
+  assert.equal(getQuestProgress(quest), 67);
+
+  const relic = applyQuestEvent(quest, { kind: "collect", itemId: "ember-relic" });
+  assert.equal(relic.quest.objectives[2]!.current, 1);
+
+  const talked = applyQuestEvent(relic.quest, { kind: "talk", npcId: "Warden Sel" });
+  assert.equal(talked.quest.state, "completed");
+  assert.deepEqual(talked.changes.map((change) => change.kind), ["objective_completed", "quest_completed"]);
+  assert.deepEqual(applyQuestEvent(talked.quest, kills[0]!).changes, []);
+});
+
+test("timed quests fail when their turns run out", () => {
+  let quest = opened({ ...HUNT, time_limit: 2 });
+  let tick = tickQuestTime(quest);
+  assert.equal(tick.failed, false);
+  quest = tick.quest;
+  tick = tickQuestTime(quest);
+  assert.equal(tick.failed, true);
+  assert.equal(tick.quest.state, "failed");
+  assert.equal(tick.quest.turns_elapsed, 2);
+  assert.deepEqual(tickQuestTime(opened(HUNT)).quest.turns_elapsed, 0);
+});
+
+test("hidden objectives can be revealed and keys compare loosely", () => {
+  const quest = revealHiddenObjective(opened(HUNT), "relic");
+  assert.equal(quest.objectives[2]!.hidden, false);
+  assert.equal(questKey("  Ash-Edge "), "ash_edge");
+});
+
+test("stored rows read back into quests", () => {
+  const quest = questFromRow({
+    id: "row-1",
+    source_ref: "ember_hunt",
+    title: "Ember Hunt",
+    summary: "Hunt drakes",
+    state: "bogus",
+    importance: "main",
+    objectives: [{ id: "drakes", type: "kill_type", targetType: "drake", current: 5, required: 2 }],
+    rewards: { xp: "40", coins: 12 },
+    time_limit: 0,
+  });
+  assert.equal(quest?.state, "active");
+  assert.equal(quest?.importance, "main");
+  assert.equal(quest?.objectives[0]!.current, 2);
+  assert.deepEqual(quest?.rewards, { xp: 40, coins: 12, items: [] });
+  assert.equal(quest?.time_limit, null);
+  assert.deepEqual(quest?.progress_refs, []);
+});
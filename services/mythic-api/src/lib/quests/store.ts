@@ -0,0 +1,195 @@
+import { createServiceClient } from "../../shared/supabase.js";
+import type { WorldPatch } from "../../shared/turn_contract.js";
+import {
+  DM_QUEST_SOURCE,
+  QUEST_IMPORTANCE,
+  QUEST_STATES,
+  applyQuestEvent,
+  applyQuestUpsert,
+  readQuestObjectives,
+  tickQuestTime,
+  type QuestChange,
+  type QuestEvent,
+  type QuestRecord,
+} from "./engine.js";
+
+type ServiceClient = ReturnType<typeof createServiceClient>;
+
+export type StoredQuest = QuestRecord & { id: string; progress_refs: string[] };
+
+export type QuestUpsertPlan = {
+  accepted: QuestRecord[];
+  rejected: Array<{ quest_key: string; reason: string }>;
+};
+
+const QUEST_COLUMNS = [
+  "id",
+  "source_ref",
+  "title",
+  "summary",
+  "description",
+  "giver",
+  "state",
+  "importance",
+  "objectives",
+  "rewards",
+  "time_limit",
+  "turns_elapsed",
+  "progress_refs",
+].join(",");
+// Same bound as job board contracts: enough settlements for any quest's lifetime.
+const PROGRESS_REF_LIMIT = 24;
+
+export function questFromRow(row: unknown): StoredQuest | null {
+  if (!row || typeof row !== "object" || Array.isArray(row)) return null;
+  const raw = row as Record<string, unknown>;
+  if (typeof raw.id !== "string" || typeof raw.source_ref !== "string") return null;
+  const rewards = raw.rewards && typeof raw.rewards === "object" && !Array.isArray(raw.rewards)
+    ? raw.rewards as Record<string, unknown>
+    : {};
+  const timeLimit = Math.floor(Number(raw.time_limit));
+  return {
+    id: raw.id,
+    quest_key: raw.source_ref,
+    title: typeof raw.title === "string" ? raw.title : raw.source_ref,
+    description: typeof raw.description === "string" ? raw.description : null,
+    brief_description: typeof raw.summary === "string" ? raw.summary : null,
+    giver: typeof raw.giver === "string" ? raw.giver : null,
+    state: QUEST_STATES.find((state) => state === raw.state) ?? "active",
+    importance: QUEST_IMPORTANCE.find((importance) => importance === raw.importance) ?? "side",
+    objectives: readQuestObjectives(raw.objectives),
+    rewards: {
+      xp: Math.max(0, Math.floor(Number(rewards.xp) || 0)),
+      coins: Math.max(0, Math.floor(Number(rewards.coins) || 0)),
+      items: Array.isArray(rewards.items) ? rewards.items.filter((item): item is string => typeof item === "string") : [],
+    },
+    time_limit: Number.isFinite(timeLimit) && timeLimit > 0 ? timeLimit : null,
+    turns_elapsed: Math.max(0, Math.floor(Number(raw.turns_elapsed) || 0)),
+    progress_refs: Array.isArray(raw.progress_refs) ? raw.progress_refs.filter((ref): ref is string => typeof ref === "string") : [],
+  };
+}
+
+function questRowFields(quest: QuestRecord) {
+  return {
+    title: quest.title,
+    summary: quest.brief_description,
+    description: quest.description,
+    giver: quest.giver,
+    state: quest.state,
+    importance: quest.importance,
+    objectives: quest.objectives,
+    rewards: quest.rewards,
+    time_limit: quest.time_limit,
+    turns_elapsed: quest.turns_elapsed,
+    completed_at: quest.state === "completed" ? new Date().toISOString() : null,
+  };
+}
+
+/** DM-authored quests of a campaign. Job board contracts live in the same table under their own source. */
+export async function loadDmQuests(svc: ServiceClient, campaignId: string): Promise<StoredQuest[]> {
+  const query = await svc
+    .schema("mythic")
+    .from("quests")
+    .select(QUEST_COLUMNS)
+    .eq("campaign_id", campaignId)
+    .eq("source", DM_QUEST_SOURCE)
+    .order("accepted_at", { ascending: false })
+    .limit(60);
+  if (query.error) throw query.error;
+  return ((query.data ?? []) as unknown[]).map(questFromRow).filter((row): row is StoredQuest => Boolean(row));
+}
+
+/**
+ * Checks a turn's QUEST_UPSERT patches against the stored quests before the turn commits. Patches for the
+ * same quest apply in order; a rejected patch leaves the quest as the previous patch left it.
+ */
+export async function planQuestUpserts(svc: ServiceClient, campaignId: string, patches: WorldPatch[]): Promise<QuestUpsertPlan> {
+  const upserts = patches.filter((patch): patch is Extract<WorldPatch, { op: "QUEST_UPSERT" }> => patch.op === "QUEST_UPSERT");
+  if (upserts.length === 0) return { accepted: [], rejected: [] };
+  const stored = new Map((await loadDmQuests(svc, campaignId)).map((quest) => [quest.quest_key, quest as QuestRecord]));
+  const touched = new Map<string, QuestRecord>();
+  const rejected: QuestUpsertPlan["rejected"] = [];
+  for (const patch of upserts) {
+    const key = patch.quest_key.trim();
+    const result = applyQuestUpsert(touched.get(key) ?? stored.get(key) ?? null, key, patch.data);
+    if (result.ok) touched.set(key, result.quest);
+    else rejected.push({ quest_key: key, reason: result.reason });
+  }
+  return { accepted: [...touched.values()], rejected };
+}
+
+export async function saveQuestUpserts(args: {
+  svc: ServiceClient;
+  campaignId: string;
+  playerId: string;
+  quests: QuestRecord[];
+}): Promise<void> {
+  if (args.quests.length === 0) return;
+  const { error } = await args.svc
+    .schema("mythic")
+    .from("quests")
+    .upsert(args.quests.map((quest) => ({
+      campaign_id: args.campaignId,
+      player_id: args.playerId,
+      source: DM_QUEST_SOURCE,
+      source_ref: quest.quest_key,
+      ...questRowFields(quest),
+    })), { onConflict: "campaign_id,source,source_ref" });
+  if (error) throw error;
+}
+
+async function persistProgress(svc: ServiceClient, quest: StoredQuest): Promise<boolean> {
+  const { data, error } = await svc
+    .schema("mythic")
+    .from("quests")
+    .update({ ...questRowFields(quest), progress_refs: quest.progress_refs })
+    .eq("id", quest.id)
+    .eq("state", "active")
+    .select("id")
+    .maybeSingle();
+  if (error) throw error;
+  return Boolean(data);
+}
+
+/**
+ * Feeds play events to every active DM quest and stores the ones that moved. Events with a `sourceRef`
+ * (a combat session) are counted once per quest, so a settlement that runs twice does not double count.
+ */
+export async function recordQuestEvents(args: {
+  svc: ServiceClient;
+  campaignId: string;
+  events: QuestEvent[];
+  sourceRef?: string;
+}): Promise<QuestChange[]> {
+  if (args.events.length === 0) return [];
+  const active = (await loadDmQuests(args.svc, args.campaignId)).filter((quest) => quest.state === "active");
+  const changes: QuestChange[] = [];
+  for (const quest of active) {
+    if (args.sourceRef && quest.progress_refs.includes(args.sourceRef)) continue;
+    let next: StoredQuest = quest;
+    const questChanges: QuestChange[] = [];
+    for (const event of args.events) {
+      const result = applyQuestEvent(next, event);
+      next = { ...result.quest, id: quest.id, progress_refs: quest.progress_refs };
+      questChanges.push(...result.changes);
+    }
+    if (next.objectives.every((objective, index) => objective.current === quest.objectives[index]?.current)) continue;
+    if (args.sourceRef) next = { ...next, progress_refs: [...quest.progress_refs, args.sourceRef].slice(-PROGRESS_REF_LIMIT) };
+    if (await persistProgress(args.svc, next)) changes.push(...questChanges);
+  }
+  return changes;
+}
+
+/** One committed DM turn passes for every timed quest. */
+export async function tickCampaignQuests(svc: ServiceClient, campaignId: string): Promise<QuestChange[]> {
+  const timed = (await loadDmQuests(svc, campaignId)).filter((quest) => quest.state === "active" && quest.time_limit);
+  const changes: QuestChange[] = [];
+  for (const quest of timed) {
+    const result = tickQuestTime(quest);
+    if (!(await persistProgress(svc, { ...result.quest, id: quest.id, progress_refs: quest.progress_refs }))) continue;
+    if (result.failed) {
+      changes.push({ quest_key: quest.quest_key, objective_id: null, kind: "quest_failed", description: `Quest failed: ${quest.title}` });
+    }
+  }
+  return changes;
+}
@@ -0,0 +1,67 @@
+import { createServiceClient } from "../../shared/supabase.js";
+import { maybeOpenArcFromReputation } from "../nemesis/index.js";
+
+type ServiceClient = ReturnType<typeof createServiceClient>;
+
+const clampInt = (value: number, min: number, max: number): number => Math.max(min, Math.min(max, Math.floor(value)));
+
+/**
+ * Logs a reputation event, moves the player's standing with the faction and lets a sharp enough drop open a
+ * nemesis arc. Zero deltas are a no-op.
+ */
+export async function applyReputationDelta(args: {
+  svc: ServiceClient;
+  campaignId: string;
+  playerId: string;
+  factionId: string;
+  delta: number;
+  severity: number;
+  evidence: Record<string, unknown>;
+}) {
+  if (args.delta === 0) return;
+
+  const { error: repEventError } = await args.svc.schema("mythic").from("reputation_events").insert({
+    campaign_id: args.campaignId,
+    faction_id: args.factionId,
+    player_id: args.playerId,
+    severity: clampInt(args.severity, 1, 5),
+    delta: clampInt(args.delta, -1000, 1000),
+    evidence: args.evidence,
+  });
+  if (repEventError) throw repEventError;
+
+  const currentRepQuery = await args.svc
+    .schema("mythic")
+    .from("faction_reputation")
+    .select("rep")
+    .eq("campaign_id", args.campaignId)
+    .eq("faction_id", args.factionId)
+    .eq("player_id", args.playerId)
+    .maybeSingle();
+  if (currentRepQuery.error) throw currentRepQuery.error;
+
+  const currentRep = Number((currentRepQuery.data as { rep?: number } | null)?.rep ?? 0);
+  const nextRep = clampInt(currentRep + args.delta, -1000, 1000);
+  const { error: upsertError } = await args.svc
+    .schema("mythic")
+    .from("faction_reputation")
+    .upsert({
+      campaign_id: args.campaignId,
+      faction_id: args.factionId,
+      player_id: args.playerId,
+      rep: nextRep,
+      updated_at: new Date().toISOString(),
+    }, { onConflict: "campaign_id,faction_id,player_id" });
+  if (upsertError) throw upsertError;
+
+  await maybeOpenArcFromReputation({
+    svc: args.svc,
+    campaignId: args.campaignId,
+    playerId: args.playerId,
+    factionId: args.factionId,
+    delta: args.delta,
+    severity: args.severity,
+    nextRep,
+    evidence: args.evidence,
+  });
+}
@@ -0,0 +1,107 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import { computeDamageRoll } from "../combat/damageRoll.js";
+import { buildRollAudit, replayCombatLog, type ReplayCombatant } from "../combat/replay.js";
+import { pickLootRarity } from "../../shared/loot_roll.js";
+import {
+  DEFAULT_CAMPAIGN_TUNABLES,
+  HouseRulesSchema,
+  inflationMultiplier,
+  lootRarityScale,
+  parseHouseRules,
+  resolveCampaignTunables,
+  scaleXpGrant,
+} from "./houseRules.js";
+
+test("house rules validate against the tunables subset and fall back to defaults when stored rules drift", () => {
+  const parsed = HouseRulesSchema.parse({ xpPreset: "FAST", overrides: { combat: { critMultiplier: 2 }, loot: { rarityWeights: { epic: 12 } } } });
+  assert.deepEqual(parsed.overrides.loot, { rarityWeights: { epic: 12 } });
+  assert.deepEqual(HouseRulesSchema.parse({}), { xpPreset: "STANDARD", overrides: {} });
+
+  assert.equal(HouseRulesSchema.safeParse({ overrides: { combat: { critMultiplier: 9 } } }).success, false);
+  assert.equal(HouseRulesSchema.safeParse({ overrides: { combat: { variancePct: 0.5 } } }).success, false);
+  assert.equal(HouseRulesSchema.safeParse({ overrides: { combat: { turnSeconds: 5 } } }).success, false);
+  assert.deepEqual(resolveCampaignTunables({ xpPreset: "STANDARD", overrides: { combat: { afkAction: "companion" } } }).afkAction, "companion");
+  assert.equal(HouseRulesSchema.safeParse({ overrides: { loot: { rarityWeights: { unhinged: 4 } } } }).success, false);
+
+  assert.deepEqual(parseHouseRules({ xpPreset: "LUDICROUS" }), { xpPreset: "STANDARD", overrides: {} });
+  assert.deepEqual(resolveCampaignTunables(parseHouseRules(null)), DEFAULT_CAMPAIGN_TUNABLES);
+});
+
+test("presets scale XP grants and rarity weights rescale the level-aware loot table", () => {
+  const fast = resolveCampaignTunables({ xpPreset: "FAST", overrides: {} });
+  const grindy = resolveCampaignTunables({ xpPreset: "GRINDY", overrides: {} });
+  assert.equal(scaleXpGrant(200, DEFAULT_CAMPAIGN_TUNABLES), 200);
+  assert.equal(scaleXpGrant(200, fast), 250);
+  assert.equal(scaleXpGrant(200, grindy), 148);
+  assert.equal(scaleXpGrant(0, fast), 0);
+
+  const defaults = lootRarityScale(DEFAULT_CAMPAIGN_TUNABLES);
+  assert.ok(Object.values(defaults).every((factor) => factor === 1));
+  for (let i = 0; i < 40; i += 1) {
+    assert.equal(pickLootRarity(i, `probe:${i}`, 30, defaults), pickLootRarity(i, `probe:${i}`, 30));
+  }
+
+  const commonOnly = lootRarityScale(resolveCampaignTunables({
+    xpPreset: "STANDARD",
+    overrides: { loot: { rarityWeights: { uncommon: 0, rare: 0, epic: 0, legendary: 0, mythic: 0 } } },
+  }));
+  assert.equal(commonOnly.magical, 0);
+  for (let i = 0; i < 40; i += 1) assert.equal(pickLootRarity(i, `probe:${i}`, 80, commonOnly), "common");
+
+  const inflated = resolveCampaignTunables({ xpPreset: "STANDARD", overrides: { economy: { inflationPerAct: 0.5 } } });
+  assert.equal(inflationMultiplier({ act: 2, chapter: 1 }, inflated), 2.03);
+  assert.equal(inflationMultiplier({ act: Number.NaN, chapter: 0 }, inflated), 1);
+});
+
+test("campaign crit tuning changes the roll and replays from the audit", () => {
+  const attacker: ReplayCombatant = {
+    id: "hero", name: "hero", entity_type: "player", hp: 100, hp_max: 100, armor: 0, power: 0, x: 0, y: 0, is_alive: true,
+    lvl: 10, offense: 80, defense: 20, mobility: 90, utility: 90, weapon_power: 10, resist: 0,
+  };
+  const target: ReplayCombatant = { ...attacker, id: "ogre", name: "ogre", entity_type: "npc", hp: 400, hp_max: 400, x: 1 };
+  const base = { lvl: 10, offense: 80, mobility: 90, utility: 90, weaponPower: 10, skillMult: 1, resist: 0 };
+
+  assert.deepEqual(
+    computeDamageRoll({ ...base, seed: 3, label: "x" }),
+    computeDamageRoll({ ...base, seed: 3, label: "x", critMultBase: 1.5, critChanceMax: 0.6 }),
+  );
+  const tuned = computeDamageRoll({ ...base, seed: 3, label: "x", critMultBase: 2.5, critChanceMax: 0.3 });
+  assert.equal(tuned.crit_chance, 0.3);
+  assert.equal(tuned.crit_mult, 3.35);
+
+  let label = "";
+  let roll = tuned;
+  for (let i = 0; i < 64; i += 1) {
+    label = `probe:${i}`;
+    roll = computeDamageRoll({ ...base, seed: 3, label, critMultBase: 2.5 });
+    if (roll.is_crit) break;
+  }
+  assert.equal(roll.is_crit, true);
+  assert.ok(roll.final_damage > computeDamageRoll({ ...base, seed: 3, label }).final_damage);
+
+  const audit = buildRollAudit({
+    hitLabel: `${label}:hit`,
+    damageLabel: label,
+    skillMult: 1,
+    spreadPct: 0.1,
+    critMultBase: 2.5,
+    attacker: { ...attacker },
+    defender: { ...target },
+  });
+  const hpAfter = target.hp - roll.final_damage;
+  const report = replayCombatLog({
+    seed: 3,
+    combatants: [attacker, target],
+    events: [{
+      id: "e0",
+      turn_index: 0,
+      actor_combatant_id: "hero",
+      event_type: "damage",
+      payload: { source_combatant_id: "hero", target_combatant_id: "ogre", roll, shield_absorbed: 0, damage_to_hp: roll.final_damage, hp_after: hpAfter, armor_after: 0, audit },
+    }],
+    current: [attacker, { ...target, hp: hpAfter }],
+  });
+  assert.ok(report.mismatches.every((mismatch) => !mismatch.field.startsWith("roll.")), JSON.stringify(report.mismatches));
+});
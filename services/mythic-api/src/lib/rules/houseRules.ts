@@ -0,0 +1,157 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { z } from "zod";
+
+import { LOOT_RARITIES, type LootRarity } from "../../shared/loot_roll.js";
+import { RULE_VERSION } from "./version.js";
+
+// Per-campaign house rules: the subset of RuleTunables (src/rules/constants.ts) a campaign owner may
+// override. Keep keys, bounds and defaults in sync with houseRulesSchema in src/rules/schema.ts.
+
+export const HOUSE_RULE_XP_PRESETS = ["FAST", "STANDARD", "GRINDY"] as const;
+export type HouseRuleXpPreset = (typeof HOUSE_RULE_XP_PRESETS)[number];
+
+// Rule-engine rarity keys; the API's loot tiers line up with them by index (see lootRarityScale).
+export const HOUSE_RULE_RARITY_KEYS = ["common", "uncommon", "rare", "epic", "legendary", "mythic"] as const;
+export type HouseRuleRarity = (typeof HOUSE_RULE_RARITY_KEYS)[number];
+
+// What a player's character does when their turn timer runs out: brace, or fight on like a companion.
+export const HOUSE_RULE_AFK_ACTIONS = ["defend", "companion"] as const;
+export type HouseRuleAfkAction = (typeof HOUSE_RULE_AFK_ACTIONS)[number];
+
+const rarityWeight = z.number().min(0).max(1000);
+
+export const HouseRulesSchema = z.object({
+  xpPreset: z.enum(HOUSE_RULE_XP_PRESETS).default("STANDARD"),
+  overrides: z.object({
+    combat: z.object({
+      critMultiplier: z.number().min(1).max(4),
+      turnSeconds: z.number().int().min(15).max(600),
+      afkAction: z.enum(HOUSE_RULE_AFK_ACTIONS),
+    }).partial().strict().optional(),
+    caps: z.object({
+      critChanceMax: z.number().min(0.02).max(0.95),
+    }).partial().strict().optional(),
+    loot: z.object({
+      rarityWeights: z.object({
+        common: rarityWeight,
+        uncommon: rarityWeight,
+        rare: rarityWeight,
+        epic: rarityWeight,
+        legendary: rarityWeight,
+        mythic: rarityWeight,
+      }).partial().strict(),
+    }).partial().strict().optional(),
+    economy: z.object({
+      inflationPerAct: z.number().min(0).max(1),
+      inflationPerChapter: z.number().min(0).max(0.5),
+    }).partial().strict().optional(),
+  }).strict().default({}),
+}).strict();
+
+export type HouseRules = z.infer<typeof HouseRulesSchema>;
+
+export type CampaignTunables = {
+  xpPreset: HouseRuleXpPreset;
+  xpMultiplier: number;
+  critMultiplier: number;
+  critChanceMax: number;
+  turnSeconds: number;
+  afkAction: HouseRuleAfkAction;
+  rarityWeights: Record<HouseRuleRarity, number>;
+  inflationPerAct: number;
+  inflationPerChapter: number;
+};
+
+export type CampaignRules = {
+  ruleVersion: string;
+  houseRules: HouseRules;
+  tunables: CampaignTunables;
+};
+
+// Mirrors DEFAULT_RULE_TUNABLES; crit values match the constants baked into mythic.compute_damage.
+const XP_PRESET_MULTIPLIER: Record<HouseRuleXpPreset, number> = { FAST: 0.8, STANDARD: 1, GRINDY: 1.35 };
+
+export const DEFAULT_CAMPAIGN_TUNABLES: CampaignTunables = {
+  xpPreset: "STANDARD",
+  xpMultiplier: 1,
+  critMultiplier: 1.5,
+  critChanceMax: 0.6,
+  turnSeconds: 90,
+  afkAction: "defend",
+  rarityWeights: { common: 54, uncommon: 24, rare: 12, epic: 6, legendary: 3, mythic: 1 },
+  inflationPerAct: 0.08,
+  inflationPerChapter: 0.03,
+};
+
+export const DEFAULT_HOUSE_RULES: HouseRules = { xpPreset: "STANDARD", overrides: {} };
+
+/** Stored rules are re-validated on read; anything that no longer parses falls back to the defaults. */
+export function parseHouseRules(raw: unknown): HouseRules {
+  const parsed = HouseRulesSchema.safeParse(raw ?? {});
+  return parsed.success ? parsed.data : DEFAULT_HOUSE_RULES;
+}
+
+export function resolveCampaignTunables(rules: HouseRules): CampaignTunables {
+  const { combat, caps, loot, economy } = rules.overrides;
+  return {
+    xpPreset: rules.xpPreset,
+    xpMultiplier: XP_PRESET_MULTIPLIER[rules.xpPreset],
+    critMultiplier: combat?.critMultiplier ?? DEFAULT_CAMPAIGN_TUNABLES.critMultiplier,
+    critChanceMax: caps?.critChanceMax ?? DEFAULT_CAMPAIGN_TUNABLES.critChanceMax,
+    turnSeconds: combat?.turnSeconds ?? DEFAULT_CAMPAIGN_TUNABLES.turnSeconds,
+    afkAction: combat?.afkAction ?? DEFAULT_CAMPAIGN_TUNABLES.afkAction,
+    rarityWeights: { ...DEFAULT_CAMPAIGN_TUNABLES.rarityWeights, ...(loot?.rarityWeights ?? {}) },
+    inflationPerAct: economy?.inflationPerAct ?? DEFAULT_CAMPAIGN_TUNABLES.inflationPerAct,
+    inflationPerChapter: economy?.inflationPerChapter ?? DEFAULT_CAMPAIGN_TUNABLES.inflationPerChapter,
+  };
+}
+
+export const DEFAULT_CAMPAIGN_RULES: CampaignRules = {
+  ruleVersion: RULE_VERSION,
+  houseRules: DEFAULT_HOUSE_RULES,
+  tunables: DEFAULT_CAMPAIGN_TUNABLES,
+};
+
+export async function loadCampaignRules(svc: SupabaseClient, campaignId: string): Promise<CampaignRules> {
+  const { data, error } = await svc
+    .from("campaigns")
+    .select("house_rules, rule_version")
+    .eq("id", campaignId)
+    .maybeSingle();
+  if (error) throw error;
+  if (!data) return DEFAULT_CAMPAIGN_RULES;
+  const houseRules = parseHouseRules((data as { house_rules?: unknown }).house_rules);
+  const ruleVersion = (data as { rule_version?: unknown }).rule_version;
+  return {
+    ruleVersion: typeof ruleVersion === "string" && ruleVersion.trim() ? ruleVersion : RULE_VERSION,
+    houseRules,
+    tunables: resolveCampaignTunables(houseRules),
+  };
+}
+
+/**
+ * The SQL level curve stays canonical, so presets scale each grant instead: a FAST campaign needs 80% of the
+ * XP per level, which is the same as every grant counting 1/0.8 as much.
+ */
+export function scaleXpGrant(amount: number, tunables: CampaignTunables): number {
+  const base = Math.max(0, Math.floor(amount));
+  if (base === 0) return 0;
+  return Math.max(1, Math.round(base / tunables.xpMultiplier));
+}
+
+/** Per-tier factors relative to the default weights, so level-scaled rarity tables keep their shape. */
+export function lootRarityScale(tunables: CampaignTunables): Record<LootRarity, number> {
+  const out = {} as Record<LootRarity, number>;
+  LOOT_RARITIES.forEach((rarity, idx) => {
+    const key = HOUSE_RULE_RARITY_KEYS[idx]!;
+    const base = DEFAULT_CAMPAIGN_TUNABLES.rarityWeights[key];
+    out[rarity] = base > 0 ? tunables.rarityWeights[key] / base : 1;
+  });
+  return out;
+}
+
+export function inflationMultiplier(context: { act: number; chapter: number }, tunables: CampaignTunables): number {
+  const act = Math.max(0, Math.floor(Number.isFinite(context.act) ? context.act : 0));
+  const chapter = Math.max(0, Math.floor(Number.isFinite(context.chapter) ? context.chapter : 0));
+  return 1 + (act * tunables.inflationPerAct) + (chapter * tunables.inflationPerChapter);
+}
@@ -0,0 +1,79 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import {
+  BASE_SELL_RATE,
+  BUYBACK_LIMIT,
+  HAGGLE_SOUR_PENALTY,
+  MAX_SELL_RATE,
+  applyHaggle,
+  itemBaseValue,
+  pushBuyback,
+  quoteSellPrice,
+  readBuyback,
+  rollHaggle,
+  vendorSellRate,
+  type BuybackEntry,
+} from "./pricing.js";
+
+const SWORD = { name: "Storm Lance", rarity: "magical", item_power: 20 };
+
+test("items are valued at what they cost, or by power and rarity", () => {
+  assert.equal(itemBaseValue({ ...SWORD, effects_json: { purchase: { price: 77 } } }), 77);
+  assert.equal(itemBaseValue(SWORD), 32);
+  assert.equal(itemBaseValue({ rarity: "mythic", item_power: 10 }), 36);
+  assert.equal(itemBaseValue({}), 5);
+});
+
+test("sell rates follow vendor services, reputation, relationship and inflation", () => {
+  assert.equal(vendorSellRate(["notice_board"]), BASE_SELL_RATE);
+  assert.ok(vendorSellRate(["rift_forge", "chaos_board"]) > vendorSellRate(["inn", "healer"]));
+  const base = quoteSellPrice({ item: SWORD, services: ["notice_board"] });
+  assert.equal(base, Math.floor(32 * BASE_SELL_RATE));
+  assert.ok(quoteSellPrice({ item: SWORD, services: ["notice_board"], reputation: 600 }) > base);
+  assert.ok(quoteSellPrice({ item: SWORD, services: ["notice_board"], relationship: -80 }) < base);
+  assert.ok(quoteSellPrice({ item: SWORD, services: ["notice_board"], inflation: 1.5 }) > base);
+  assert.equal(
+    quoteSellPrice({ item: { ...SWORD, item_power: 100 }, services: ["scrap_trade"], reputation: 1000, relationship: 100 }),
+    Math.floor(160 * MAX_SELL_RATE),
+  );
+});
+
+test("haggles are fixed per visit and can go either way", () => {
+  const args = { seed: 99, visit: 3, vendorId: "vendor_1", kind: "sell" as const, itemKey: "inv_1" };
+  assert.deepEqual(rollHaggle(args), rollHaggle(args));
+  const outcomes = new Set(Array.from({ length: 200 }, (_, visit) => rollHaggle({ ...args, visit }).outcome));
+  assert.deepEqual([...outcomes].sort(), ["even", "lose", "soured", "win"]);
+  for (let visit = 0; visit < 50; visit += 1) {
+    const sale = rollHaggle({ ...args, visit });
+    const buy = rollHaggle({ ...args, visit, kind: "buy" });
+    if (sale.outcome === "win") assert.ok(applyHaggle(100, sale) > 100);
+    if (buy.outcome === "win") assert.ok(applyHaggle(100, buy) < 100);
+    if (sale.outcome === "soured") assert.equal(sale.relationship_delta, -HAGGLE_SOUR_PENALTY);
+    else assert.equal(sale.relationship_delta, 0);
+  }
+  const wins = (relationship: number) =>
+    Array.from({ length: 300 }, (_, visit) => rollHaggle({ ...args, visit, relationship })).filter((roll) => roll.outcome === "win").length;
+  assert.ok(wins(90) > wins(-90));
+  assert.equal(applyHaggle(40, null), 40);
+});
+
+test("the buyback shelf keeps the newest sales", () => {
+  const entry = (index: number): BuybackEntry => ({
+    id: `bb_${index}`,
+    item_id: `item_${index}`,
+    name: "Item",
+    rarity: "common",
+    slot: "ring",
+    price: index,
+    sold_at: "",
+    character_id: "char",
+  });
+  let shelf: BuybackEntry[] = [];
+  for (let index = 0; index < BUYBACK_LIMIT + 3; index += 1) shelf = pushBuyback(shelf, entry(index));
+  assert.equal(shelf.length, BUYBACK_LIMIT);
+  assert.equal(shelf[0]!.id, `bb_${BUYBACK_LIMIT + 2}`);
+  assert.equal(pushBuyback(shelf, { ...entry(BUYBACK_LIMIT + 2), bought_back: true }).length, BUYBACK_LIMIT);
+  assert.deepEqual(readBuyback({ buyback: [...shelf, { id: 4 }, null] }), shelf);
+  assert.deepEqual(readBuyback(null), []);
+});
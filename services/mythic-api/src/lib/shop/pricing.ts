@@ -0,0 +1,153 @@
+import { clampInt, rng01 } from "../../shared/mythic_rng.js";
+
+// Vendor pricing for selling loot back, the buyback shelf and haggling. Quotes are pure so the stock endpoint can
+// show the same numbers the sell endpoint pays.
+
+/** Mirrors DEFAULT_RULE_TUNABLES.economy.sellRate in the client rules. */
+export const BASE_SELL_RATE = 0.25;
+export const MIN_SELL_RATE = 0.1;
+export const MAX_SELL_RATE = 0.45;
+/** Sold items a vendor keeps on the buyback shelf until the next restock. */
+export const BUYBACK_LIMIT = 8;
+/** Relationship lost with a vendor when a haggle sours. */
+export const HAGGLE_SOUR_PENALTY = 8;
+
+export type HaggleKind = "buy" | "sell";
+export type HaggleOutcome = "win" | "even" | "lose" | "soured";
+
+export interface HaggleRoll {
+  key: string;
+  outcome: HaggleOutcome;
+  /** Applied to the quoted price; below 1 on a buy and above 1 on a sale favour the player. */
+  multiplier: number;
+  relationship_delta: number;
+}
+
+export interface BuybackEntry {
+  id: string;
+  item_id: string;
+  name: string;
+  rarity: string;
+  slot: string;
+  price: number;
+  sold_at: string;
+  character_id: string;
+  bought_back?: boolean;
+  /** Idempotency key of the buyback purchase, so a retried request is not turned away as sold out. */
+  purchase_key?: string;
+}
+
+// Traders who resell gear pay more for it; inns and healers only take loot as a favour.
+const SERVICE_SELL_RATES: Array<{ pattern: RegExp; shift: number }> = [
+  { pattern: /(forge|smith|scrap|salvage|repair)/, shift: 0.06 },
+  { pattern: /(trade|shop|market|bazaar)/, shift: 0.04 },
+  { pattern: /(apothecary|alchemist|oracle)/, shift: 0.01 },
+  { pattern: /(inn|healer|medic|clinic|chapel|med_station)/, shift: -0.03 },
+];
+
+const RARITY_VALUE: Record<string, number> = {
+  common: 1.2,
+  magical: 1.6,
+  unique: 2.2,
+  legendary: 3.0,
+};
+
+function asRecord(value: unknown): Record<string, unknown> | null {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return null;
+  return value as Record<string, unknown>;
+}
+
+/** What an item cost at the counter: its purchase price when it came from a shop, else the stock price formula. */
+export function itemBaseValue(item: Record<string, unknown>): number {
+  const purchase = asRecord(asRecord(item.effects_json)?.purchase);
+  const paid = Number(purchase?.price);
+  if (Number.isFinite(paid) && paid > 0) return Math.floor(paid);
+  const power = Math.max(1, Number(item.item_power) || 1);
+  const rarity = typeof item.rarity === "string" ? item.rarity : "common";
+  return Math.max(5, Math.floor(power * (RARITY_VALUE[rarity] ?? 3.6)));
+}
+
+/** The share of an item's value this vendor pays, before reputation and relationship. */
+export function vendorSellRate(services: readonly string[]): number {
+  let shift = 0;
+  for (const { pattern, shift: serviceShift } of SERVICE_SELL_RATES) {
+    if (services.some((service) => pattern.test(service.toLowerCase()))) shift += serviceShift;
+  }
+  return BASE_SELL_RATE + shift;
+}
+
+export function quoteSellPrice(args: {
+  item: Record<string, unknown>;
+  services: readonly string[];
+  /** Faction reputation with the vendor's faction, -1000..1000. */
+  reputation?: number;
+  /** The vendor's town relationship score, -100..100. */
+  relationship?: number;
+  inflation?: number;
+}): number {
+  const reputation = Math.max(-1000, Math.min(1000, Number(args.reputation ?? 0) || 0));
+  const relationship = Math.max(-100, Math.min(100, Number(args.relationship ?? 0) || 0));
+  const rate = Math.max(
+    MIN_SELL_RATE,
+    Math.min(MAX_SELL_RATE, vendorSellRate(args.services) + (reputation / 1000) * 0.1 + (relationship / 100) * 0.05),
+  );
+  const inflation = Number.isFinite(Number(args.inflation)) && Number(args.inflation) > 0 ? Number(args.inflation) : 1;
+  return Math.max(1, Math.floor(itemBaseValue(args.item) * inflation * rate));
+}
+
+/**
+ * One haggle per item per visit: the roll is keyed off the stock seed and the town clock tick, so asking again
+ * during the same visit gets the same answer. A warm relationship tilts the odds toward a better price. Callers apply
+ * it only while `key` is not yet in the stock's `haggled` list, so a won roll moves one price, not every repeat.
+ */
+export function rollHaggle(args: {
+  seed: number;
+  visit: number;
+  vendorId: string;
+  kind: HaggleKind;
+  itemKey: string;
+  relationship?: number;
+}): HaggleRoll {
+  const key = `${args.visit}:${args.kind}:${args.itemKey}`;
+  const relationship = Math.max(-100, Math.min(100, Number(args.relationship ?? 0) || 0));
+  const roll = rng01(args.seed, `haggle:${args.vendorId}:${key}`);
+  const soured = Math.max(0.04, 0.12 - relationship / 1000);
+  const win = Math.max(0.15, Math.min(0.55, 0.35 + relationship / 400));
+  const outcome: HaggleOutcome = roll < soured ? "soured" : roll < soured + win ? "win" : roll < soured + win + 0.2 ? "lose" : "even";
+  const favour = outcome === "win" ? 0.15 : outcome === "even" ? 0 : -0.1;
+  return {
+    key,
+    outcome,
+    multiplier: args.kind === "sell" ? 1 + favour : 1 - favour,
+    relationship_delta: outcome === "soured" ? -HAGGLE_SOUR_PENALTY : 0,
+  };
+}
+
+export function applyHaggle(price: number, roll: HaggleRoll | null): number {
+  if (!roll) return price;
+  return Math.max(1, Math.floor(price * roll.multiplier));
+}
+
+export function readBuyback(stock: Record<string, unknown> | null | undefined): BuybackEntry[] {
+  const raw = Array.isArray(stock?.buyback) ? stock.buyback : [];
+  return raw
+    .map((row) => asRecord(row))
+    .filter((row): row is Record<string, unknown> => row !== null && typeof row.id === "string" && typeof row.item_id === "string")
+    .map((row) => ({
+      id: String(row.id),
+      item_id: String(row.item_id),
+      name: typeof row.name === "string" ? row.name : "Item",
+      rarity: typeof row.rarity === "string" ? row.rarity : "common",
+      slot: typeof row.slot === "string" ? row.slot : "other",
+      price: clampInt(Number(row.price) || 0, 0, 1_000_000),
+      sold_at: typeof row.sold_at === "string" ? row.sold_at : "",
+      character_id: typeof row.character_id === "string" ? row.character_id : "",
+      ...(row.bought_back === true ? { bought_back: true } : {}),
+      ...(typeof row.purchase_key === "string" ? { purchase_key: row.purchase_key } : {}),
+    }));
+}
+
+/** Newest sale first; the shelf drops the oldest entries past BUYBACK_LIMIT. Re-pushing an id replaces it. */
+export function pushBuyback(list: readonly BuybackEntry[], entry: BuybackEntry): BuybackEntry[] {
+  return [entry, ...list.filter((row) => row.id !== entry.id)].slice(0, BUYBACK_LIMIT);
+}
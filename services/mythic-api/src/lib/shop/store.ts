@@ -0,0 +1,80 @@
+import { createServiceClient } from "../../shared/supabase.js";
+import type { BuybackEntry } from "./pricing.js";
+
+type ServiceClient = ReturnType<typeof createServiceClient>;
+
+export interface VendorStanding {
+  services: string[];
+  faction: string | null;
+  /** The player's reputation with the vendor's faction, -1000..1000. */
+  reputation: number;
+  /** town_relationships[vendorId], -100..100. */
+  relationship: number;
+}
+
+function asRecord(value: unknown): Record<string, unknown> | null {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return null;
+  return value as Record<string, unknown>;
+}
+
+export function findVendor(state: Record<string, unknown>, vendorId: string): Record<string, unknown> | null {
+  const vendors = Array.isArray(state.vendors) ? state.vendors : [];
+  return vendors.map((row) => asRecord(row)).find((row) => String(row?.id ?? "").trim() === vendorId) ?? null;
+}
+
+export function vendorRelationship(state: Record<string, unknown>, vendorId: string): number {
+  const raw = Number(asRecord(state.town_relationships)?.[vendorId] ?? 0);
+  return Number.isFinite(raw) ? Math.max(-100, Math.min(100, raw)) : 0;
+}
+
+/** How the player stands with a vendor: its services, its faction's reputation and the town's relationship score. */
+export async function loadVendorStanding(
+  svc: ServiceClient,
+  args: { campaignId: string; playerId: string; state: Record<string, unknown>; vendorId: string },
+): Promise<VendorStanding> {
+  const vendor = findVendor(args.state, args.vendorId);
+  const services = Array.isArray(vendor?.services) ? vendor.services.filter((entry): entry is string => typeof entry === "string") : [];
+  const faction = typeof vendor?.faction === "string" && vendor.faction.trim().length > 0 ? vendor.faction.trim() : null;
+  const relationship = vendorRelationship(args.state, args.vendorId);
+  if (!faction) return { services, faction, reputation: 0, relationship };
+
+  const factionQuery = await svc
+    .schema("mythic")
+    .from("factions")
+    .select("id")
+    .eq("campaign_id", args.campaignId)
+    .eq("name", faction)
+    .limit(1)
+    .maybeSingle();
+  if (factionQuery.error) throw factionQuery.error;
+  const factionId = (factionQuery.data as { id?: string } | null)?.id;
+  if (!factionId) return { services, faction, reputation: 0, relationship };
+
+  const repQuery = await svc
+    .schema("mythic")
+    .from("faction_reputation")
+    .select("rep")
+    .eq("campaign_id", args.campaignId)
+    .eq("faction_id", factionId)
+    .eq("player_id", args.playerId)
+    .maybeSingle();
+  if (repQuery.error) throw repQuery.error;
+  const reputation = Number((repQuery.data as { rep?: number } | null)?.rep ?? 0);
+  return { services, faction, reputation: Number.isFinite(reputation) ? reputation : 0, relationship };
+}
+
+/**
+ * A restock clears the buyback shelf. Items sold whole were handed to the vendor (no owner); those rows are
+ * deleted. Best effort: a failure leaves orphaned item rows, never a broken shop.
+ */
+export async function discardBuyback(svc: ServiceClient, campaignId: string, entries: readonly BuybackEntry[]): Promise<void> {
+  const itemIds = [...new Set(entries.filter((entry) => !entry.bought_back).map((entry) => entry.item_id))];
+  if (itemIds.length === 0) return;
+  await svc
+    .schema("mythic")
+    .from("items")
+    .delete()
+    .eq("campaign_id", campaignId)
+    .in("id", itemIds)
+    .is("owner_character_id", null);
+}
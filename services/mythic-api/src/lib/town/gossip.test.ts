@@ -0,0 +1,92 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import {
+  gossipFactionModifier,
+  readTownGossip,
+  spreadTownGossip,
+  syncTownSocialTies,
+  type TownGossip,
+  type TownSocialNpc,
+  type TownSocialTie,
+} from "./gossip.js";
+
+const SEED = 77;
+const NPCS: TownSocialNpc[] = [
+  { id: "merchant", name: "Pip", faction: "Ash Guild" },
+  { id: "friend", name: "Oona", faction: "Ash Guild" },
+  { id: "friend_of_friend", name: "Bram", faction: "Ash Guild" },
+  { id: "stranger", name: "Rook", faction: "Iron Choir" },
+];
+const TIES: TownSocialTie[] = [
+  { a: "friend", b: "merchant", affinity: 100 },
+  { a: "friend", b: "friend_of_friend", affinity: 100 },
+  { a: "merchant", b: "stranger", affinity: -60 },
+];
+
+test("ties are stable, survive reloads and only roll for newcomers", () => {
+  const ties = syncTownSocialTies(SEED, NPCS, null);
+  assert.deepEqual(syncTownSocialTies(SEED, NPCS, JSON.parse(JSON.stringify(ties))), ties);
+  assert.ok(ties.ties.every((tie) => Math.abs(tie.affinity) >= 25 && tie.a < tie.b));
+
+  const edited = { ...ties, ties: [{ a: "friend", b: "merchant", affinity: 90 }] };
+  const grown = syncTownSocialTies(SEED, [...NPCS, { id: "newcomer", name: "Lyra", faction: "Ash Guild" }], edited);
+  assert.deepEqual(grown.ties.find((tie) => tie.a === "friend" && tie.b === "merchant"), { a: "friend", b: "merchant", affinity: 90 });
+  assert.ok(grown.npc_ids.includes("newcomer"));
+  assert.ok(grown.ties.every((tie) => (tie.a === "newcomer" || tie.b === "newcomer") || edited.ties.some((kept) => kept.a === tie.a && kept.b === tie.b)));
+});
+
+test("a threat reaches friends one retelling per tick and never crosses a hostile tie", () => {
+  const present = ["Ash Guild"];
+  const started = spreadTownGossip({
+    seed: SEED,
+    tick: 1,
+    npcs: NPCS,
+    ties: TIES,
+    gossip: [],
+    factionsPresent: present,
+    started: { kind: "threat", about_npc_id: "merchant" },
+  });
+  assert.equal(started.hearings.length, 0);
+  assert.equal(started.gossip.length, 1);
+
+  const second = spreadTownGossip({ seed: SEED, tick: 2, npcs: NPCS, ties: TIES, gossip: readTownGossip(started.gossip), factionsPresent: present });
+  assert.deepEqual(second.hearings.map((hearing) => hearing.npc_id), ["friend"]);
+  assert.equal(second.hearings[0]!.from_npc_id, "merchant");
+  assert.ok(second.hearings[0]!.relationship_delta < 0 && second.hearings[0]!.grudge_delta > 0);
+  assert.match(second.hearings[0]!.detail, /Oona hears from Pip that you threatened Pip/);
+
+  const third = spreadTownGossip({ seed: SEED, tick: 3, npcs: NPCS, ties: TIES, gossip: second.gossip, factionsPresent: present });
+  assert.deepEqual(third.hearings.map((hearing) => hearing.npc_id), ["friend_of_friend"]);
+  assert.ok(!("stranger" in (third.gossip[0] as TownGossip).heard));
+
+  const expired = spreadTownGossip({ seed: SEED, tick: 20, npcs: NPCS, ties: TIES, gossip: third.gossip, factionsPresent: present });
+  assert.deepEqual(expired.gossip, []);
+});
+
+test("factions in town amplify their own members and dampen rivals", () => {
+  assert.equal(gossipFactionModifier("Ash Guild", "Ash Guild", ["Ash Guild"]), 1.5);
+  assert.equal(gossipFactionModifier("Ash Guild", "Ash Guild", []), 1.15);
+  assert.equal(gossipFactionModifier("Ash Guild", "Iron Choir", ["Ash Guild", "Iron Choir"]), 0.5);
+  assert.equal(gossipFactionModifier("Ash Guild", "Iron Choir", ["Ash Guild"]), 1);
+
+  const rivals: TownSocialNpc[] = [
+    { id: "a", name: "A", faction: "Ash Guild" },
+    { id: "b", name: "B", faction: "Iron Choir" },
+    { id: "c", name: "C", faction: "Iron Choir" },
+  ];
+  const chain: TownSocialTie[] = [{ a: "a", b: "b", affinity: 100 }, { a: "b", b: "c", affinity: 100 }];
+  const gossip: TownGossip[] = [{
+    id: "g",
+    kind: "threat",
+    about_npc_id: "a",
+    about_npc_name: "A",
+    started_tick: 1,
+    heard: { a: { tick: 1, from: null, strength: 0.5 } },
+  }];
+  // At half strength a rival-faction retelling falls below what anyone repeats.
+  const dampened = spreadTownGossip({ seed: SEED, tick: 2, npcs: rivals, ties: chain, gossip, factionsPresent: ["Ash Guild", "Iron Choir"] });
+  assert.equal(dampened.hearings.length, 0);
+  const neutral = spreadTownGossip({ seed: SEED, tick: 2, npcs: rivals, ties: chain, gossip, factionsPresent: [] });
+  assert.deepEqual(neutral.hearings.map((hearing) => hearing.npc_id), ["b"]);
+});
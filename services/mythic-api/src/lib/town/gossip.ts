@@ -0,0 +1,245 @@
+import { rng01, rngInt } from "../../shared/mythic_rng.js";
+
+export const TOWN_SOCIAL_TIES_VERSION = "town-ties.v1";
+
+export type TownGossipKind = "threat" | "slight" | "kindness";
+
+// Gossip loses force with every retelling and is forgotten once it is this weak or this old.
+const GOSSIP_HOP_DECAY = 0.65;
+const GOSSIP_MIN_STRENGTH = 0.2;
+export const TOWN_GOSSIP_TTL_TICKS = 6;
+const GOSSIP_LIMIT = 8;
+// Pairs weaker than this in either direction are strangers and carry nothing.
+const TIE_THRESHOLD = 25;
+
+// Stance shift on someone hearing the story at full strength; scaled down by how worn the story is.
+const GOSSIP_SHIFT: Record<TownGossipKind, { relationship: number; grudge: number }> = {
+  threat: { relationship: -6, grudge: 5 },
+  slight: { relationship: -3, grudge: 2 },
+  kindness: { relationship: 4, grudge: -1 },
+};
+
+const GOSSIP_PHRASES: Record<TownGossipKind, (name: string) => string> = {
+  threat: (name) => `you threatened ${name}`,
+  slight: (name) => `you leaned on ${name}`,
+  kindness: (name) => `you did right by ${name}`,
+};
+
+export interface TownSocialTie {
+  a: string;
+  b: string;
+  // -100 (enemies) to 100 (close friends).
+  affinity: number;
+}
+
+export interface TownSocialTies {
+  version: string;
+  npc_ids: string[];
+  ties: TownSocialTie[];
+}
+
+export interface TownGossipHeard {
+  tick: number;
+  from: string | null;
+  strength: number;
+}
+
+export interface TownGossip {
+  id: string;
+  kind: TownGossipKind;
+  about_npc_id: string;
+  about_npc_name: string;
+  started_tick: number;
+  heard: Record<string, TownGossipHeard>;
+}
+
+export interface TownGossipHearing {
+  gossip_id: string;
+  npc_id: string;
+  from_npc_id: string;
+  relationship_delta: number;
+  grudge_delta: number;
+  detail: string;
+}
+
+export interface TownSocialNpc {
+  id: string;
+  name: string;
+  faction: string;
+  workplace?: string | null;
+}
+
+function asRecord(value: unknown): Record<string, unknown> | null {
+  return value && typeof value === "object" && !Array.isArray(value) ? value as Record<string, unknown> : null;
+}
+
+function pairKey(a: string, b: string): [string, string] {
+  return a < b ? [a, b] : [b, a];
+}
+
+/** Maps an NPC's interaction tone to the story the town tells about it; plain talk is not news. */
+export function gossipKindForTone(tone: string): TownGossipKind | null {
+  if (tone === "hostile") return "threat";
+  if (tone === "tense") return "slight";
+  if (tone === "helpful") return "kindness";
+  return null;
+}
+
+/**
+ * Keeps stored ties between NPCs that are still in town and rolls ties for anyone new.
+ * Shared faction and shared workplace pull a pair together; the seed decides the rest.
+ */
+export function syncTownSocialTies(seed: number, npcs: TownSocialNpc[], stored: unknown): TownSocialTies {
+  const row = asRecord(stored);
+  const known = new Set(
+    row?.version === TOWN_SOCIAL_TIES_VERSION && Array.isArray(row.npc_ids)
+      ? row.npc_ids.filter((id): id is string => typeof id === "string")
+      : [],
+  );
+  const ids = new Set(npcs.map((npc) => npc.id));
+  const ties = new Map<string, TownSocialTie>();
+  for (const entry of Array.isArray(row?.ties) ? row.ties : []) {
+    const tie = asRecord(entry);
+    if (!tie || typeof tie.a !== "string" || typeof tie.b !== "string") continue;
+    if (!known.has(tie.a) || !known.has(tie.b) || !ids.has(tie.a) || !ids.has(tie.b)) continue;
+    const [a, b] = pairKey(tie.a, tie.b);
+    const affinity = Math.max(-100, Math.min(100, Math.round(Number(tie.affinity) || 0)));
+    ties.set(`${a}|${b}`, { a, b, affinity });
+  }
+
+  for (let i = 0; i < npcs.length; i += 1) {
+    for (let j = i + 1; j < npcs.length; j += 1) {
+      const left = npcs[i]!;
+      const right = npcs[j]!;
+      if (known.has(left.id) && known.has(right.id)) continue;
+      const [a, b] = pairKey(left.id, right.id);
+      let affinity = rngInt(seed, `town:tie:${a}:${b}`, -40, 40);
+      if (left.faction === right.faction) affinity += 35;
+      if (left.workplace && left.workplace === right.workplace) affinity += 20;
+      if (Math.abs(affinity) < TIE_THRESHOLD) continue;
+      ties.set(`${a}|${b}`, { a, b, affinity: Math.max(-100, Math.min(100, affinity)) });
+    }
+  }
+
+  return {
+    version: TOWN_SOCIAL_TIES_VERSION,
+    npc_ids: [...ids].sort(),
+    ties: [...ties.values()].sort((x, y) => `${x.a}|${x.b}`.localeCompare(`${y.a}|${y.b}`)),
+  };
+}
+
+/**
+ * How factions in town bend a retelling. Members of the same faction close ranks, hardest when
+ * that faction holds the town; two different factions that are both present discount each other.
+ */
+export function gossipFactionModifier(speaker: string, listener: string, factionsPresent: string[]): number {
+  const present = new Set(factionsPresent.map((name) => name.trim().toLowerCase()));
+  const speakerPresent = present.has(speaker.trim().toLowerCase());
+  const listenerPresent = present.has(listener.trim().toLowerCase());
+  if (speaker.trim().toLowerCase() === listener.trim().toLowerCase()) return speakerPresent ? 1.5 : 1.15;
+  if (speakerPresent && listenerPresent) return 0.5;
+  return 1;
+}
+
+export function readTownGossip(value: unknown): TownGossip[] {
+  if (!Array.isArray(value)) return [];
+  return value.flatMap((entry): TownGossip[] => {
+    const row = asRecord(entry);
+    if (!row || typeof row.id !== "string" || typeof row.about_npc_id !== "string") return [];
+    if (row.kind !== "threat" && row.kind !== "slight" && row.kind !== "kindness") return [];
+    const heard: Record<string, TownGossipHeard> = {};
+    for (const [npcId, raw] of Object.entries(asRecord(row.heard) ?? {})) {
+      const hearing = asRecord(raw);
+      if (!hearing) continue;
+      heard[npcId] = {
+        tick: Math.floor(Number(hearing.tick) || 0),
+        from: typeof hearing.from === "string" ? hearing.from : null,
+        strength: Math.max(0, Math.min(1, Number(hearing.strength) || 0)),
+      };
+    }
+    return [{
+      id: row.id,
+      kind: row.kind,
+      about_npc_id: row.about_npc_id,
+      about_npc_name: typeof row.about_npc_name === "string" ? row.about_npc_name : row.about_npc_id,
+      started_tick: Math.floor(Number(row.started_tick) || 0),
+      heard,
+    }];
+  });
+}
+
+export function describeTownGossip(gossip: Pick<TownGossip, "kind" | "about_npc_name">): string {
+  return GOSSIP_PHRASES[gossip.kind](gossip.about_npc_name);
+}
+
+/**
+ * Advances every live story one retelling. Anyone who heard a story on an earlier tick may pass it
+ * to a friend (positive tie); the chance and the force carried both follow tie strength and factions.
+ * A new story starts with `started`, told first by the NPC it happened to.
+ */
+export function spreadTownGossip(args: {
+  seed: number;
+  tick: number;
+  npcs: TownSocialNpc[];
+  ties: TownSocialTie[];
+  gossip: TownGossip[];
+  factionsPresent: string[];
+  started?: { kind: TownGossipKind; about_npc_id: string } | null;
+}): { gossip: TownGossip[]; hearings: TownGossipHearing[] } {
+  const byId = new Map(args.npcs.map((npc) => [npc.id, npc]));
+  const friends = new Map<string, Array<{ id: string; affinity: number }>>();
+  for (const tie of args.ties) {
+    if (tie.affinity <= 0 || !byId.has(tie.a) || !byId.has(tie.b)) continue;
+    friends.set(tie.a, [...(friends.get(tie.a) ?? []), { id: tie.b, affinity: tie.affinity }]);
+    friends.set(tie.b, [...(friends.get(tie.b) ?? []), { id: tie.a, affinity: tie.affinity }]);
+  }
+
+  const hearings: TownGossipHearing[] = [];
+  let live = args.gossip
+    .filter((entry) => args.tick - entry.started_tick <= TOWN_GOSSIP_TTL_TICKS && byId.has(entry.about_npc_id))
+    .map((entry) => ({ ...entry, heard: { ...entry.heard } }));
+
+  for (const entry of live) {
+    const tellers = Object.entries(entry.heard)
+      .filter(([npcId, hearing]) => hearing.tick < args.tick && byId.has(npcId))
+      .sort(([a], [b]) => a.localeCompare(b));
+    for (const [tellerId, telling] of tellers) {
+      const teller = byId.get(tellerId)!;
+      for (const friend of (friends.get(tellerId) ?? []).sort((a, b) => a.id.localeCompare(b.id))) {
+        if (entry.heard[friend.id]) continue;
+        const listener = byId.get(friend.id)!;
+        const modifier = gossipFactionModifier(teller.faction, listener.faction, args.factionsPresent);
+        const strength = Math.min(1, telling.strength * GOSSIP_HOP_DECAY * modifier);
+        if (strength < GOSSIP_MIN_STRENGTH) continue;
+        const chance = Math.min(0.95, (friend.affinity / 100) * modifier);
+        if (rng01(args.seed, `town:gossip:${entry.id}:${tellerId}:${friend.id}:${args.tick}`) >= chance) continue;
+        entry.heard[friend.id] = { tick: args.tick, from: tellerId, strength };
+        const shift = GOSSIP_SHIFT[entry.kind];
+        hearings.push({
+          gossip_id: entry.id,
+          npc_id: friend.id,
+          from_npc_id: tellerId,
+          relationship_delta: Math.round(shift.relationship * strength),
+          grudge_delta: Math.round(shift.grudge * strength),
+          detail: `${listener.name} hears from ${teller.name} that ${describeTownGossip(entry)}.`,
+        });
+      }
+    }
+  }
+
+  const origin = args.started ? byId.get(args.started.about_npc_id) : null;
+  if (args.started && origin) {
+    const id = `gossip_${args.tick}_${origin.id}`;
+    live = live.filter((entry) => entry.id !== id);
+    live.push({
+      id,
+      kind: args.started.kind,
+      about_npc_id: origin.id,
+      about_npc_name: origin.name,
+      started_tick: args.tick,
+      heard: { [origin.id]: { tick: args.tick, from: null, strength: 1 } },
+    });
+  }
+
+  return { gossip: live.slice(-GOSSIP_LIMIT), hearings };
+}
@@ -0,0 +1,78 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import { manhattan } from "../combat/pathfinding.js";
+import {
+  TOWN_NPC_STEPS_PER_TICK,
+  TOWN_TICKS_PER_DAY,
+  buildTownNpcSchedule,
+  readTownNpcSchedule,
+  stepTownNpc,
+  townClockState,
+  type TownNpcWhereabouts,
+} from "./schedule.js";
+
+const SEED = 4242;
+
+test("schedules are stable per NPC and keep stock titles at their trade", () => {
+  const smith = buildTownNpcSchedule(SEED, { id: "npc_1", role: "gate marshal" });
+  assert.deepEqual(buildTownNpcSchedule(SEED, { id: "npc_1", role: "gate marshal" }), smith);
+  assert.equal(smith.workplace, "gate");
+  assert.equal(smith.routine.length, TOWN_TICKS_PER_DAY);
+  assert.equal(smith.routine[1], "work");
+  assert.equal(smith.routine[TOWN_TICKS_PER_DAY - 1], "home");
+  assert.deepEqual(readTownNpcSchedule(JSON.parse(JSON.stringify(smith))), smith);
+  assert.equal(readTownNpcSchedule({ ...smith, routine: ["home"] }), null);
+
+  assert.deepEqual(townClockState(9), { tick: 9, day: 2, period: "morning" });
+});
+
+test("NPCs walk a bounded path each tick and report when they are back at work", () => {
+  const schedule = buildTownNpcSchedule(SEED, { id: "npc_2", role: "bellwarden" });
+  let location = schedule.home_tile;
+  let last: TownNpcWhereabouts | null = null;
+  // Morning, afternoon and the next morning are all spent at the chapel; the walk from home takes more than one tick.
+  for (const tick of [1, 3, 9]) {
+    last = stepTownNpc({ seed: SEED, npcId: "npc_2", tick, schedule, location, errand: null, interaction: null });
+    assert.ok(manhattan(location, last.location_tile) <= TOWN_NPC_STEPS_PER_TICK);
+    location = last.location_tile;
+  }
+  assert.equal(last?.schedule_state, "working");
+  assert.deepEqual(last?.location_tile, schedule.work_tile);
+  assert.equal(last?.back_at_work, null);
+
+  const night = stepTownNpc({ seed: SEED, npcId: "npc_2", tick: 7, schedule, location: schedule.home_tile, errand: null, interaction: null });
+  assert.equal(night.schedule_state, "at_home");
+  assert.equal(night.back_at_work?.period, schedule.routine[0] === "work" ? "dawn" : "morning");
+});
+
+test("talking holds an NPC in place and a favor sends them on an errand", () => {
+  const schedule = buildTownNpcSchedule(SEED, { id: "npc_3", role: "cartographer" });
+  const talk = stepTownNpc({
+    seed: SEED,
+    npcId: "npc_3",
+    tick: 1,
+    schedule,
+    location: schedule.home_tile,
+    errand: null,
+    interaction: { action: "talk", tone: "neutral" },
+  });
+  assert.equal(talk.schedule_state, "talking");
+  assert.deepEqual(talk.location_tile, schedule.home_tile);
+  assert.equal(talk.back_at_work?.in_ticks, 1);
+
+  const favor = stepTownNpc({
+    seed: SEED,
+    npcId: "npc_3",
+    tick: 1,
+    schedule,
+    location: schedule.work_tile,
+    errand: null,
+    interaction: { action: "favor", tone: "helpful" },
+  });
+  assert.notEqual(favor.destination, "work");
+  assert.equal(favor.errand?.until_tick, 2);
+  const after = stepTownNpc({ seed: SEED, npcId: "npc_3", tick: 3, schedule, location: favor.location_tile, errand: favor.errand, interaction: null });
+  assert.equal(after.errand, null);
+  assert.equal(after.destination, "work");
+});
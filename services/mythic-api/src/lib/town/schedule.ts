@@ -0,0 +1,314 @@
+import { rngInt, rngPick } from "../../shared/mythic_rng.js";
+import { findGridPath, type GridPoint, type PathGrid } from "../combat/pathfinding.js";
+
+export const TOWN_SCHEDULE_VERSION = "town-schedule.v1";
+
+// Each town_clock tick is one period of the day; eight ticks make a full day.
+export const TOWN_DAY_PERIODS = ["dawn", "morning", "midday", "afternoon", "dusk", "evening", "night", "small_hours"] as const;
+export type TownDayPeriod = (typeof TOWN_DAY_PERIODS)[number];
+export const TOWN_TICKS_PER_DAY = TOWN_DAY_PERIODS.length;
+
+// How far an NPC walks between two ticks: across the square in one, the far side of town in two or three.
+export const TOWN_NPC_STEPS_PER_TICK = 7;
+
+export const TOWN_PUBLIC_PLACES = ["market", "square", "gate", "alley", "notice_board", "chapel"] as const;
+export type TownPublicPlace = (typeof TOWN_PUBLIC_PLACES)[number];
+export type TownRoutineStop = "home" | "work" | TownPublicPlace;
+export type TownNpcActivity = "at_home" | "working" | "visiting" | "errand" | "walking" | "talking";
+
+export interface TownNpcSchedule {
+  version: string;
+  home_tile: GridPoint;
+  workplace: TownPublicPlace;
+  work_tile: GridPoint;
+  // One stop per day period, indexed like TOWN_DAY_PERIODS.
+  routine: TownRoutineStop[];
+}
+
+export interface TownNpcErrand {
+  place: TownRoutineStop;
+  until_tick: number;
+  reason: string;
+}
+
+export interface TownNpcBackAtWork {
+  tick: number;
+  period: TownDayPeriod;
+  in_ticks: number;
+}
+
+export interface TownNpcWhereabouts {
+  location_tile: GridPoint;
+  schedule_state: TownNpcActivity;
+  destination: TownRoutineStop;
+  destination_tile: GridPoint;
+  errand: TownNpcErrand | null;
+  back_at_work: TownNpcBackAtWork | null;
+}
+
+export interface TownNpcInteraction {
+  action: string;
+  tone: string;
+}
+
+// Same 12x8 grid the board renders. Stalls and the notice board are solid, so routes bend around them; the gate is walkable.
+export const TOWN_GRID_WIDTH = 12;
+export const TOWN_GRID_HEIGHT = 8;
+const TOWN_BUILDINGS = [
+  { x: 1, y: 1, w: 3, h: 2 },
+  { x: 4, y: 1, w: 3, h: 2 },
+  { x: 7, y: 1, w: 3, h: 2 },
+  { x: 1, y: 3, w: 3, h: 2 },
+  { x: 4, y: 4, w: 4, h: 2 },
+];
+
+// Open tiles people stand on at each place. Home tiles line the bottom row.
+const PLACE_TILES: Record<TownPublicPlace, GridPoint[]> = {
+  market: [{ x: 4, y: 3 }, { x: 5, y: 3 }, { x: 6, y: 3 }, { x: 7, y: 3 }],
+  square: [{ x: 8, y: 5 }, { x: 8, y: 6 }, { x: 9, y: 6 }, { x: 7, y: 6 }],
+  gate: [{ x: 10, y: 3 }, { x: 10, y: 4 }, { x: 10, y: 5 }, { x: 11, y: 4 }],
+  alley: [{ x: 0, y: 4 }, { x: 0, y: 5 }, { x: 1, y: 5 }, { x: 0, y: 6 }],
+  notice_board: [{ x: 4, y: 6 }, { x: 5, y: 6 }, { x: 6, y: 6 }],
+  chapel: [{ x: 10, y: 0 }, { x: 11, y: 0 }, { x: 10, y: 1 }, { x: 11, y: 1 }],
+};
+const HOME_ROW = TOWN_GRID_HEIGHT - 1;
+
+// Where each stock title keeps shop; anyone else picks a place from their seed.
+const ROLE_WORKPLACES: Record<string, TownPublicPlace> = {
+  lanternwright: "market",
+  rumorkeeper: "alley",
+  "gate marshal": "gate",
+  cartographer: "notice_board",
+  "hex broker": "alley",
+  bellwarden: "chapel",
+  "route scribe": "notice_board",
+  "dusk herbalist": "market",
+};
+
+const PLACE_LABELS: Record<TownPublicPlace, string> = {
+  market: "the market",
+  square: "the square",
+  gate: "the gate",
+  alley: "the back alley",
+  notice_board: "the notice board",
+  chapel: "the chapel",
+};
+
+let townGrid: PathGrid | null = null;
+
+function townPathGrid(): PathGrid {
+  if (townGrid) return townGrid;
+  const blocked = new Set<string>();
+  for (const rect of TOWN_BUILDINGS) {
+    for (let y = rect.y; y < rect.y + rect.h; y += 1) {
+      for (let x = rect.x; x < rect.x + rect.w; x += 1) blocked.add(`${x},${y}`);
+    }
+  }
+  townGrid = { width: TOWN_GRID_WIDTH, height: TOWN_GRID_HEIGHT, blocked, occupied: new Set() };
+  return townGrid;
+}
+
+function isTownPublicPlace(value: unknown): value is TownPublicPlace {
+  return typeof value === "string" && (TOWN_PUBLIC_PLACES as readonly string[]).includes(value);
+}
+
+function isRoutineStop(value: unknown): value is TownRoutineStop {
+  return value === "home" || value === "work" || isTownPublicPlace(value);
+}
+
+function readTile(value: unknown): GridPoint | null {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return null;
+  const row = value as Record<string, unknown>;
+  const x = Number(row.x);
+  const y = Number(row.y);
+  if (!Number.isInteger(x) || !Number.isInteger(y)) return null;
+  if (x < 0 || y < 0 || x >= TOWN_GRID_WIDTH || y >= TOWN_GRID_HEIGHT) return null;
+  if (townPathGrid().blocked.has(`${x},${y}`)) return null;
+  return { x, y };
+}
+
+export function townDayPeriod(tick: number): TownDayPeriod {
+  const index = ((Math.floor(tick) % TOWN_TICKS_PER_DAY) + TOWN_TICKS_PER_DAY) % TOWN_TICKS_PER_DAY;
+  return TOWN_DAY_PERIODS[index]!;
+}
+
+export function townClockState(tick: number): { tick: number; day: number; period: TownDayPeriod } {
+  return { tick, day: Math.floor(tick / TOWN_TICKS_PER_DAY) + 1, period: townDayPeriod(tick) };
+}
+
+/** A fresh routine for an NPC. Pure in (seed, id, role), so an NPC without a stored schedule always gets the same one. */
+export function buildTownNpcSchedule(seed: number, npc: { id: string; role: string }): TownNpcSchedule {
+  const label = `town:schedule:${npc.id}`;
+  const workplace = ROLE_WORKPLACES[npc.role.trim().toLowerCase()] ?? rngPick(seed, `${label}:workplace`, TOWN_PUBLIC_PLACES);
+  const errandPlaces = TOWN_PUBLIC_PLACES.filter((place) => place !== workplace);
+  const routine: TownRoutineStop[] = [
+    rngInt(seed, `${label}:early`, 0, 3) === 0 ? "work" : "home",
+    "work",
+    rngPick(seed, `${label}:midday`, ["work", "work", ...errandPlaces] as TownRoutineStop[]),
+    "work",
+    rngPick(seed, `${label}:dusk`, ["work", "square", "market"] as TownRoutineStop[]),
+    rngPick(seed, `${label}:evening`, ["home", ...errandPlaces] as TownRoutineStop[]),
+    rngInt(seed, `${label}:late`, 0, 5) === 0 ? rngPick(seed, `${label}:late:place`, errandPlaces) : "home",
+    "home",
+  ];
+  return {
+    version: TOWN_SCHEDULE_VERSION,
+    home_tile: { x: rngInt(seed, `${label}:home`, 0, TOWN_GRID_WIDTH - 1), y: HOME_ROW },
+    workplace,
+    work_tile: rngPick(seed, `${label}:work_tile`, PLACE_TILES[workplace]),
+    routine,
+  };
+}
+
+/** Reads a stored schedule back; anything malformed returns null so the caller rebuilds it from the seed. */
+export function readTownNpcSchedule(value: unknown): TownNpcSchedule | null {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return null;
+  const row = value as Record<string, unknown>;
+  if (row.version !== TOWN_SCHEDULE_VERSION) return null;
+  const homeTile = readTile(row.home_tile);
+  const workTile = readTile(row.work_tile);
+  const routine = Array.isArray(row.routine) ? row.routine : [];
+  if (!homeTile || !workTile || !isTownPublicPlace(row.workplace)) return null;
+  if (routine.length !== TOWN_TICKS_PER_DAY || !routine.every(isRoutineStop)) return null;
+  return {
+    version: TOWN_SCHEDULE_VERSION,
+    home_tile: homeTile,
+    workplace: row.workplace,
+    work_tile: workTile,
+    routine: routine as TownRoutineStop[],
+  };
+}
+
+export function readTownNpcErrand(value: unknown): TownNpcErrand | null {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return null;
+  const row = value as Record<string, unknown>;
+  const untilTick = Number(row.until_tick);
+  if (!isRoutineStop(row.place) || !Number.isInteger(untilTick)) return null;
+  return { place: row.place, until_tick: untilTick, reason: typeof row.reason === "string" ? row.reason : "errand" };
+}
+
+function stopTile(seed: number, npcId: string, schedule: TownNpcSchedule, stop: TownRoutineStop): GridPoint {
+  if (stop === "home") return schedule.home_tile;
+  if (stop === "work") return schedule.work_tile;
+  return rngPick(seed, `town:schedule:${npcId}:tile:${stop}`, PLACE_TILES[stop]);
+}
+
+function arrivedActivity(stop: TownRoutineStop, errand: TownNpcErrand | null): TownNpcActivity {
+  if (errand) return "errand";
+  if (stop === "home") return "at_home";
+  if (stop === "work") return "working";
+  return "visiting";
+}
+
+function errandFor(args: {
+  seed: number;
+  npcId: string;
+  tick: number;
+  schedule: TownNpcSchedule;
+  interaction: TownNpcInteraction;
+}): TownNpcErrand | null {
+  // Being threatened sends someone home to shut the door; a favor sends them off to see to it.
+  if (args.interaction.tone === "hostile") {
+    return { place: "home", until_tick: args.tick + 1, reason: "keeping out of sight" };
+  }
+  if (args.interaction.action === "favor") {
+    const places = TOWN_PUBLIC_PLACES.filter((place) => place !== args.schedule.workplace);
+    const place = rngPick(args.seed, `town:schedule:${args.npcId}:favor:${args.tick}`, places);
+    return { place, until_tick: args.tick + 1, reason: "seeing to a favor" };
+  }
+  return null;
+}
+
+function nextWorkTick(schedule: TownNpcSchedule, tick: number, busyUntil: number): TownNpcBackAtWork | null {
+  for (let ahead = 1; ahead <= TOWN_TICKS_PER_DAY * 2; ahead += 1) {
+    const at = tick + ahead;
+    if (at <= busyUntil) continue;
+    if (schedule.routine[at % TOWN_TICKS_PER_DAY] === "work") {
+      return { tick: at, period: townDayPeriod(at), in_ticks: ahead };
+    }
+  }
+  return null;
+}
+
+/**
+ * Advances one NPC to `tick`: pick the routine stop (or the errand that overrides it) and walk
+ * up to TOWN_NPC_STEPS_PER_TICK tiles toward it around the buildings. Talking to someone holds them in place.
+ */
+export function stepTownNpc(args: {
+  seed: number;
+  npcId: string;
+  tick: number;
+  schedule: TownNpcSchedule;
+  // Stored location_tile; anything off the grid or inside a building starts them from home.
+  location: unknown;
+  errand: TownNpcErrand | null;
+  interaction: TownNpcInteraction | null;
+}): TownNpcWhereabouts {
+  const { seed, npcId, tick, schedule } = args;
+  const fromInteraction = args.interaction ? errandFor({ seed, npcId, tick, schedule, interaction: args.interaction }) : null;
+  const carried = args.errand && args.errand.until_tick >= tick ? args.errand : null;
+  const errand = fromInteraction ?? carried;
+  const stop = errand?.place ?? schedule.routine[tick % TOWN_TICKS_PER_DAY] ?? "home";
+  const target = stopTile(seed, npcId, schedule, stop);
+  const start = readTile(args.location) ?? schedule.home_tile;
+  const holding = Boolean(args.interaction) && !fromInteraction;
+
+  let location = start;
+  let remaining = 0;
+  const path = findGridPath(townPathGrid(), start, target, { seed, label: `town:schedule:${npcId}:path:${tick}` });
+  if (path) {
+    const stepIndex = holding ? 0 : Math.min(TOWN_NPC_STEPS_PER_TICK, path.length - 1);
+    location = path[stepIndex]!;
+    remaining = path.length - 1 - stepIndex;
+  }
+  const arrived = location.x === target.x && location.y === target.y;
+  const scheduleState: TownNpcActivity = holding ? "talking" : arrived ? arrivedActivity(stop, errand) : "walking";
+
+  let backAtWork: TownNpcBackAtWork | null = null;
+  if (stop === "work" && !arrived) {
+    const inTicks = Math.max(1, Math.ceil(remaining / TOWN_NPC_STEPS_PER_TICK));
+    backAtWork = { tick: tick + inTicks, period: townDayPeriod(tick + inTicks), in_ticks: inTicks };
+  } else if (stop !== "work") {
+    backAtWork = nextWorkTick(schedule, tick, errand?.until_tick ?? tick);
+  }
+
+  return {
+    location_tile: location,
+    schedule_state: scheduleState,
+    destination: stop,
+    destination_tile: target,
+    errand,
+    back_at_work: backAtWork,
+  };
+}
+
+function stopLabel(schedule: TownNpcSchedule, stop: TownRoutineStop): string {
+  if (stop === "home") return "home";
+  if (stop === "work") return `work at ${PLACE_LABELS[schedule.workplace]}`;
+  return PLACE_LABELS[stop];
+}
+
+/** Activity-log line for a change in what an NPC is doing, or null when they carry on as before. */
+export function describeTownNpcMove(args: {
+  name: string;
+  schedule: TownNpcSchedule;
+  before: { schedule_state: string; destination: string } | null;
+  after: TownNpcWhereabouts;
+}): string | null {
+  const { name, schedule, before, after } = args;
+  if (before && before.schedule_state === after.schedule_state && before.destination === after.destination) return null;
+  switch (after.schedule_state) {
+    case "walking":
+      return `${name} heads for ${stopLabel(schedule, after.destination)}.`;
+    case "working":
+      return `${name} opens up at ${PLACE_LABELS[schedule.workplace]}.`;
+    case "at_home":
+      return `${name} turns in at home.`;
+    case "errand":
+      return `${name} is ${after.errand?.reason ?? "on an errand"} at ${stopLabel(schedule, after.destination)}.`;
+    case "visiting":
+      return `${name} lingers at ${stopLabel(schedule, after.destination)}.`;
+    case "talking":
+      return null;
+  }
+}
@@ -1,4 +1,5 @@
 import { md5Hex, rng01, rngInt, rngPick, weightedPick } from "../../shared/mythic_rng.js";
+import { behaviorProfileIdForCreature } from "../combat/behavior.js";
 import {
   CampaignContextSchema,
   CharacterForgeInputSchema,
@@ -1226,6 +1227,11 @@ export function generateCreaturePools(seed: WorldSeed, biomeMap: BiomeMap): Worl
   const high = globalPool.filter((entry) => highKeywords.some((key) => entry.toLowerCase().includes(key)));
   const medium = globalPool.filter((entry) => !low.includes(entry) && !high.includes(entry));
 
+  const behaviorProfiles: Record<string, string> = {};
+  for (const creature of uniqueStrings([...globalPool, ...Object.values(byBiome).flat()])) {
+    behaviorProfiles[creature] = behaviorProfileIdForCreature(creature);
+  }
+
   return {
     featuredFocus: focus.slice(0, 6),
     globalPool,
@@ -1235,6 +1241,7 @@ export function generateCreaturePools(seed: WorldSeed, biomeMap: BiomeMap): Worl
       medium: ensureMinUniqueStrings((medium.length > 0 ? medium : globalPool).slice(0, 8), 2, worldCreatureFallbackByTone(seed.toneVector)),
       high: ensureMinUniqueStrings((high.length > 0 ? high : globalPool.slice(-8)).slice(0, 8), 2, worldCreatureFallbackByTone(seed.toneVector)),
     },
+    behaviorProfiles,
   };
 }
 
@@ -9,6 +9,7 @@ export interface WorldPromptContextInput {
   dmContext?: Record<string, unknown> | null;
   worldState?: Record<string, unknown> | null;
   campaignContext?: Record<string, unknown> | null;
+  playerModel?: Record<string, unknown> | null;
   maxChars?: number;
 }
 
@@ -324,6 +325,31 @@ function compactCampaignContext(raw: Record<string, unknown> | null): Record<str
   return Object.keys(out).length > 0 ? out : null;
 }
 
+function compactPlayerModel(raw: Record<string, unknown> | null): Record<string, unknown> | null {
+  if (!raw) return null;
+  const dominantTraits = asStringArray(raw.dominant_traits ?? raw.dominantTraits).slice(0, 3);
+  const habits = asStringArray(raw.habits).slice(0, 4);
+  const favoriteSkill = trunc(raw.favorite_skill ?? raw.favoriteSkill, 48);
+  const boredom = trunc(raw.boredom, 12);
+  const scores = asRecord(raw.scores);
+
+  const out: Record<string, unknown> = {};
+  if (dominantTraits.length > 0) out.dominant_traits = dominantTraits;
+  if (habits.length > 0) out.habits = habits;
+  if (favoriteSkill) out.favorite_skill = favoriteSkill;
+  if (boredom && boredom !== "low") out.boredom = boredom;
+  if (raw.exploit_watch === true || raw.exploitWatch === true) out.exploit_watch = true;
+  if (scores) {
+    const compactScores: Record<string, number> = {};
+    for (const [key, value] of Object.entries(scores)) {
+      const n = Number(value);
+      if (Number.isFinite(n) && n > 0) compactScores[key] = Math.round(n);
+    }
+    if (Object.keys(compactScores).length > 0) out.scores = compactScores;
+  }
+  return Object.keys(out).length > 0 ? out : null;
+}
+
 function reduceDmContext(raw: Record<string, unknown> | null): Record<string, unknown> | null {
   if (!raw) return null;
   const reduced = { ...raw };
@@ -350,6 +376,7 @@ export function buildPromptWorldContextBlock(input: WorldPromptContextInput): Wo
   const dmContext = compactDmContext(input.dmContext ?? null);
   const worldState = compactWorldState(input.worldState ?? null);
   const campaignContext = compactCampaignContext(input.campaignContext ?? null);
+  const playerModel = compactPlayerModel(input.playerModel ?? null);
 
   const basePayload: Record<string, unknown> = {
     world_forge_version: trunc(input.worldForgeVersion, 48) ?? WORLD_FORGE_VERSION,
@@ -359,6 +386,7 @@ export function buildPromptWorldContextBlock(input: WorldPromptContextInput): Wo
     world_state: worldState,
     campaign_context: campaignContext,
   };
+  if (playerModel) basePayload.player_model = playerModel;
 
   const droppedSections: string[] = [];
   const reductions: string[] = [];
@@ -420,6 +448,14 @@ export function buildPromptWorldContextBlock(input: WorldPromptContextInput): Wo
     recompute();
   }
 
+  if (finalChars > maxChars && nextPayload.player_model) {
+    const playerModelReduced = { ...asRecord(nextPayload.player_model) };
+    delete playerModelReduced.scores;
+    nextPayload.player_model = playerModelReduced;
+    reductions.push("player_model:reduced");
+    recompute();
+  }
+
   if (finalChars > maxChars && nextPayload.world_state) {
     delete nextPayload.world_state;
     droppedSections.push("world_state");
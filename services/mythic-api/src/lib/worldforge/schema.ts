@@ -164,6 +164,8 @@ export const CreaturePoolsSchema = z.object({
     medium: z.array(z.string().min(1)).min(2).max(12),
     high: z.array(z.string().min(1)).min(2).max(12),
   }).strict(),
+  // Creature name -> combat behaviour profile id (see lib/combat/behavior.ts).
+  behaviorProfiles: z.record(z.string().min(1).max(40)).default({}),
 }).strict();
 export type CreaturePools = z.infer<typeof CreaturePoolsSchema>;
 
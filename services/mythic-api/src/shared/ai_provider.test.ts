@@ -0,0 +1,191 @@
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import http from "node:http";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import test from "node:test";
+import { fileURLToPath } from "node:url";
+
+import {
+  AiProviderError,
+  getLlmProvider,
+  listLlmProviders,
+  mythicOpenAIChatCompletions,
+  mythicOpenAIChatCompletionsStream,
+  resolveProvider,
+} from "./ai_provider.js";
+import { fixtureRequestHash, readChatStreamContent } from "./llm_fixture.js";
+import { parseDmNarratorOutput } from "./turn_contract.js";
+
+const ENV_KEYS = [
+  "LLM_PROVIDER",
+  "LLM_MODEL",
+  "LLM_BASE_URL",
+  "LLM_API_KEY",
+  "LLM_API_KEY_FILE",
+  "LLM_FIXTURE_PATH",
+  "LLM_FIXTURE_RECORD_PATH",
+  "OPENAI_API_KEY",
+  "OPENAI_API_KEY_FILE",
+  "OPENAI_BASE_URL",
+  "TAILSCALE_OPENAI_BASE_URL",
+  "TAILSCALE_AI_BASE_URL",
+  "TAILSCALE_OPENAI_API_KEY",
+  "TAILSCALE_OPENAI_API_KEY_FILE",
+  "GROQ_API_KEY",
+  "LOCAL_LLM_BASE_URL",
+  "LOCAL_LLM_MODEL",
+  "LOCAL_LLM_JSON_MODE",
+] as const;
+
+function withEnv(values: Partial<Record<(typeof ENV_KEYS)[number], string>>) {
+  const saved = new Map(ENV_KEYS.map((key) => [key, process.env[key]]));
+  for (const key of ENV_KEYS) delete process.env[key];
+  Object.assign(process.env, values);
+  return () => {
+    for (const [key, value] of saved) {
+      if (value === undefined) delete process.env[key];
+      else process.env[key] = value;
+    }
+  };
+}
+
+const OFFLINE_FIXTURES = fileURLToPath(new URL("../../fixtures/llm/offline.json", import.meta.url));
+
+const chat = (content: string) => ({ messages: [{ role: "system", content: "Respond with JSON." }, { role: "user", content }] });
+
+test("providers resolve from LLM_PROVIDER or the hosted-first auto order, never to fixtures implicitly", () => {
+  let restore = withEnv({ GROQ_API_KEY: "gsk_test", LOCAL_LLM_BASE_URL: "http://127.0.0.1:9" });
+  try {
+    assert.equal(resolveProvider().id, "groq");
+    process.env.LLM_PROVIDER = "ollama";
+    assert.equal(resolveProvider().id, "local");
+    process.env.LLM_PROVIDER = "fixture";
+    assert.throws(() => resolveProvider(), (error: unknown) =>
+      error instanceof AiProviderError && error.code === "openai_not_configured" && error.details?.provider === "fixture");
+    process.env.LLM_PROVIDER = "mistral-cloud";
+    assert.throws(() => resolveProvider(), /not a registered provider/);
+  } finally {
+    restore();
+  }
+
+  restore = withEnv({ LLM_FIXTURE_PATH: OFFLINE_FIXTURES });
+  try {
+    assert.throws(() => resolveProvider(), (error: unknown) => error instanceof AiProviderError && error.status === 503);
+    const fixture = listLlmProviders().find((provider) => provider.id === "fixture");
+    assert.deepEqual(fixture && { configured: fixture.configured, base_url: fixture.base_url }, { configured: true, base_url: null });
+    assert.equal(getLlmProvider("llama.cpp")?.id, "local");
+  } finally {
+    restore();
+  }
+});
+
+test("the fixture provider replays exact, matched and catch-all completions deterministically", async () => {
+  const dir = mkdtempSync(join(tmpdir(), "mythic-llm-fixture-"));
+  const path = join(dir, "fixtures.json");
+  const exactRequest = chat("Describe the gate.");
+  writeFileSync(path, JSON.stringify({
+    version: 1,
+    completions: [
+      { request_hash: fixtureRequestHash(exactRequest), content: "{\"exact\":true}" },
+      { match: ["vault"], content: "{\"matched\":\"vault\"}" },
+      { label: "catch-all-a", content: "{\"fallback\":\"a\"}" },
+      { label: "catch-all-b", content: "{\"fallback\":\"b\"}" },
+    ],
+  }));
+  const restore = withEnv({ LLM_PROVIDER: "fixture", LLM_FIXTURE_PATH: path });
+  try {
+    const exact = await mythicOpenAIChatCompletions({ ...exactRequest, temperature: 0.9 });
+    assert.equal(exact.provider, "fixture");
+    assert.equal((exact.data as any).choices[0].message.content, "{\"exact\":true}");
+
+    const matched = await mythicOpenAIChatCompletions(chat("Open the vault door."));
+    assert.equal((matched.data as any).choices[0].message.content, "{\"matched\":\"vault\"}");
+
+    const first = await mythicOpenAIChatCompletions(chat("Something unrecorded."));
+    const again = await mythicOpenAIChatCompletions(chat("Something unrecorded."));
+    assert.deepEqual(first.data, again.data);
+
+    const streamed = await mythicOpenAIChatCompletionsStream({ ...chat("Open the vault door."), stream: true });
+    assert.equal(await readChatStreamContent(streamed.response.body!), "{\"matched\":\"vault\"}");
+
+    writeFileSync(path, JSON.stringify({ version: 1, completions: [{ match: ["never"], content: "x" }] }));
+    await assert.rejects(mythicOpenAIChatCompletions(chat("Miss.")), (error: unknown) =>
+      error instanceof AiProviderError
+      && error.details?.reason === "fixture_miss"
+      && error.details?.request_hash === fixtureRequestHash(chat("Miss.")));
+  } finally {
+    restore();
+    rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test("a local OpenAI-compatible server gets its own model, JSON mode, and can be recorded for replay", async () => {
+  const seen: Array<{ url: string; body: Record<string, unknown> }> = [];
+  const server = http.createServer((req, res) => {
+    let raw = "";
+    req.on("data", (chunk) => {
+      raw += chunk;
+    });
+    req.on("end", () => {
+      const body = JSON.parse(raw) as Record<string, unknown>;
+      seen.push({ url: req.url ?? "", body });
+      const content = "{\"narration\":\"The forge hisses.\"}";
+      if (body.stream) {
+        res.writeHead(200, { "Content-Type": "text/event-stream" });
+        res.write(`data: ${JSON.stringify({ choices: [{ delta: { content: content.slice(0, 10) } }] })}\n\n`);
+        res.end(`data: ${JSON.stringify({ choices: [{ delta: { content: content.slice(10) } }] })}\n\ndata: [DONE]\n\n`);
+        return;
+      }
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ choices: [{ message: { role: "assistant", content } }] }));
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as { port: number };
+  const dir = mkdtempSync(join(tmpdir(), "mythic-llm-record-"));
+  const recordPath = join(dir, "recorded.json");
+  const restore = withEnv({
+    LOCAL_LLM_BASE_URL: `http://127.0.0.1:${port}`,
+    LOCAL_LLM_MODEL: "qwen2.5:7b-instruct",
+    LLM_FIXTURE_RECORD_PATH: recordPath,
+  });
+  try {
+    const result = await mythicOpenAIChatCompletions(chat("Name the smith."), "gpt-4o-mini", { jsonMode: true });
+    assert.equal(result.provider, "local");
+    assert.equal(result.model, "qwen2.5:7b-instruct");
+    assert.equal(seen[0]!.url, "/v1/chat/completions");
+    assert.deepEqual(seen[0]!.body.response_format, { type: "json_object" });
+
+    process.env.LOCAL_LLM_JSON_MODE = "off";
+    const streamed = await mythicOpenAIChatCompletionsStream({ ...chat("Stream the forge."), stream: true }, "gpt-4o-mini", { jsonMode: true });
+    assert.equal(await readChatStreamContent(streamed.response.body!), "{\"narration\":\"The forge hisses.\"}");
+    assert.equal(seen[1]!.body.response_format, undefined);
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    process.env.LLM_PROVIDER = "fixture";
+    process.env.LLM_FIXTURE_PATH = recordPath;
+    const replayed = await mythicOpenAIChatCompletionsStream({ ...chat("Stream the forge."), stream: true });
+    assert.equal(await readChatStreamContent(replayed.response.body!), "{\"narration\":\"The forge hisses.\"}");
+    assert.equal(seen.length, 2);
+  } finally {
+    restore();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+    rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test("the offline fixture set gives the DM narrator a contract-valid turn", async () => {
+  const restore = withEnv({ LLM_PROVIDER: "fixture", LLM_FIXTURE_PATH: OFFLINE_FIXTURES });
+  try {
+    const { response } = await mythicOpenAIChatCompletionsStream({
+      messages: [{ role: "system", content: "...\nOUTPUT CONTRACT (STRICT)\n- Respond with ONE JSON object ONLY." }, { role: "user", content: "I look around." }],
+      stream: true,
+    });
+    const parsed = parseDmNarratorOutput(await readChatStreamContent(response.body!));
+    assert.equal(parsed.ok, true);
+    if (parsed.ok) assert.ok((parsed.value.ui_actions ?? []).length >= 2);
+  } finally {
+    restore();
+  }
+});
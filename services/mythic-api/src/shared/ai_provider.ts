@@ -1,11 +1,39 @@
-import { groqChatCompletions, groqChatCompletionsStream } from "./groq.js";
+import { existsSync } from "node:fs";
+
+import {
+  groqChatCompletions,
+  groqChatCompletionsStream,
+  isGroqConfigured,
+  resolveGroqTimeoutMs,
+} from "./groq.js";
+import {
+  fixtureChatCompletion,
+  fixtureChatCompletionStream,
+  loadLlmFixtures,
+  readChatStreamContent,
+  recordLlmFixture,
+  selectFixtureCompletion,
+} from "./llm_fixture.js";
+import {
+  isLocalLlmConfigured,
+  localChatCompletions,
+  localChatCompletionsStream,
+  localLlmSupportsJsonMode,
+  resolveLocalLlmBaseUrl,
+  resolveLocalLlmTimeoutMs,
+} from "./local_llm.js";
 import {
   isOpenAiRuntimeConfigured,
   openaiChatCompletions,
   openaiChatCompletionsStream,
+  resolveOpenAiChatTimeoutMs,
+  resolveOpenAiRuntimeConfig,
 } from "./openai.js";
 
-export type LlmProvider = "openai" | "groq";
+export const BUILTIN_LLM_PROVIDERS = ["openai", "groq", "local", "fixture"] as const;
+
+// Built-ins autocomplete; registerLlmProvider() accepts any other id.
+export type LlmProvider = (typeof BUILTIN_LLM_PROVIDERS)[number] | (string & {});
 
 export class AiProviderError extends Error {
   code: string;
@@ -21,6 +49,41 @@ export class AiProviderError extends Error {
   }
 }
 
+export type LlmCallOptions = {
+  timeoutMs?: number;
+  /** Ask for `response_format: json_object`; ignored by providers that cannot honour it. */
+  jsonMode?: boolean;
+};
+
+/**
+ * One chat-completions backend. Every provider speaks the OpenAI wire format (payload in, `choices[]` or
+ * SSE deltas out), so callers never branch on which one answered.
+ */
+export interface LlmProviderSpec {
+  id: LlmProvider;
+  aliases?: string[];
+  /** Env var overriding the model for this provider (LLM_MODEL still wins). */
+  modelEnvKey: string | null;
+  defaultModel: string;
+  /** Hosted OpenAI understands the caller's model names (e.g. gpt-4o-mini); other backends use their own default. */
+  acceptsCallerModel: boolean;
+  supportsJsonMode: () => boolean;
+  baseUrl: () => string | null;
+  timeoutMs: (override?: number) => number;
+  isConfigured: () => boolean;
+  chatCompletions: (payload: Record<string, unknown>, options: { timeoutMs?: number }) => Promise<unknown>;
+  chatCompletionsStream: (payload: Record<string, unknown>, options: { timeoutMs?: number }) => Promise<Response>;
+}
+
+export type LlmProviderInfo = {
+  id: LlmProvider;
+  configured: boolean;
+  base_url: string | null;
+  default_model: string;
+  json_mode: boolean;
+  timeout_ms: number;
+};
+
 const errMessage = (error: unknown): string => {
   if (error instanceof Error && error.message.trim().length > 0) return error.message;
   if (error && typeof error === "object" && "message" in error) {
@@ -30,117 +93,256 @@ const errMessage = (error: unknown): string => {
   return String(error);
 };
 
-const normalizeProvider = (value: string | null | undefined): LlmProvider | null => {
-  const v = (value ?? "").trim().toLowerCase();
-  if (v === "openai") return "openai";
-  if (v === "groq" || v === "grok") return "groq";
-  return null;
+const safeBaseUrl = (resolve: () => string): string | null => {
+  try {
+    return resolve();
+  } catch {
+    return null;
+  }
+};
+
+const fixturePath = (): string | null => {
+  const value = (process.env.LLM_FIXTURE_PATH ?? "").trim();
+  return value.length > 0 ? value : null;
 };
 
-export const resolveProvider = (): LlmProvider => {
-  const explicit = normalizeProvider(process.env.LLM_PROVIDER);
-  if (explicit === "openai") {
-    if (!isOpenAiRuntimeConfigured()) {
-      throw new Error(
-        "LLM_PROVIDER=openai is set, but OpenAI runtime is not configured. Set OPENAI_API_KEY for api.openai.com or set OPENAI_BASE_URL to a reachable OpenAI-compatible endpoint.",
+function replayFixture(payload: Record<string, unknown>) {
+  const path = fixturePath();
+  if (!path) {
+    throw new AiProviderError("openai_not_configured", "LLM_PROVIDER=fixture requires LLM_FIXTURE_PATH.", 503, { provider: "fixture" });
+  }
+  const { entry, requestHash } = selectFixtureCompletion(loadLlmFixtures(path), payload);
+  if (!entry) {
+    throw new AiProviderError(
+      "openai_request_failed",
+      `No recorded completion in ${path} matches this request. Record one with LLM_FIXTURE_RECORD_PATH.`,
+      502,
+      { provider: "fixture", reason: "fixture_miss", request_hash: requestHash },
+    );
+  }
+  const model = entry.model ?? (typeof payload.model === "string" ? payload.model : "fixture");
+  return { content: entry.content, model, requestHash };
+}
+
+const registry = new Map<LlmProvider, LlmProviderSpec>();
+
+export function registerLlmProvider(spec: LlmProviderSpec) {
+  registry.set(spec.id, spec);
+}
+
+registerLlmProvider({
+  id: "openai",
+  modelEnvKey: "OPENAI_MODEL",
+  defaultModel: "gpt-4o-mini",
+  acceptsCallerModel: true,
+  supportsJsonMode: () => true,
+  baseUrl: () => safeBaseUrl(() => resolveOpenAiRuntimeConfig().baseUrl),
+  timeoutMs: resolveOpenAiChatTimeoutMs,
+  isConfigured: isOpenAiRuntimeConfigured,
+  chatCompletions: openaiChatCompletions,
+  chatCompletionsStream: openaiChatCompletionsStream,
+});
+
+registerLlmProvider({
+  id: "groq",
+  aliases: ["grok"],
+  modelEnvKey: "GROQ_MODEL",
+  defaultModel: "llama-3.3-70b-versatile",
+  acceptsCallerModel: false,
+  supportsJsonMode: () => true,
+  baseUrl: () => (process.env.GROQ_BASE_URL ?? "").trim() || "https://api.groq.com/openai",
+  timeoutMs: resolveGroqTimeoutMs,
+  isConfigured: isGroqConfigured,
+  chatCompletions: groqChatCompletions,
+  chatCompletionsStream: groqChatCompletionsStream,
+});
+
+registerLlmProvider({
+  id: "local",
+  aliases: ["ollama", "llamacpp", "llama.cpp"],
+  modelEnvKey: "LOCAL_LLM_MODEL",
+  defaultModel: "llama3.1:8b",
+  acceptsCallerModel: false,
+  supportsJsonMode: localLlmSupportsJsonMode,
+  baseUrl: () => safeBaseUrl(resolveLocalLlmBaseUrl),
+  timeoutMs: resolveLocalLlmTimeoutMs,
+  isConfigured: isLocalLlmConfigured,
+  chatCompletions: localChatCompletions,
+  chatCompletionsStream: localChatCompletionsStream,
+});
+
+registerLlmProvider({
+  id: "fixture",
+  modelEnvKey: null,
+  defaultModel: "fixture",
+  acceptsCallerModel: true,
+  supportsJsonMode: () => false,
+  baseUrl: () => null,
+  timeoutMs: () => 0,
+  isConfigured: () => {
+    const path = fixturePath();
+    return Boolean(path && existsSync(path));
+  },
+  chatCompletions: async (payload) => {
+    const { content, model, requestHash } = replayFixture(payload);
+    return fixtureChatCompletion(content, model, requestHash);
+  },
+  chatCompletionsStream: async (payload) => {
+    const { content, model, requestHash } = replayFixture(payload);
+    return fixtureChatCompletionStream(content, model, requestHash);
+  },
+});
+
+// Fixtures are never picked implicitly: replayed output in a live deployment would look like a working model.
+const AUTO_DETECT_ORDER: LlmProvider[] = ["openai", "groq", "local"];
+
+export function getLlmProvider(value: string | null | undefined): LlmProviderSpec | null {
+  const key = (value ?? "").trim().toLowerCase();
+  if (!key) return null;
+  for (const spec of registry.values()) {
+    if (spec.id === key || spec.aliases?.includes(key)) return spec;
+  }
+  return null;
+}
+
+export function listLlmProviders(): LlmProviderInfo[] {
+  return [...registry.values()].map((spec) => ({
+    id: spec.id,
+    configured: spec.isConfigured(),
+    base_url: spec.baseUrl(),
+    default_model: (spec.modelEnvKey ? (process.env[spec.modelEnvKey] ?? "").trim() : "") || spec.defaultModel,
+    json_mode: spec.supportsJsonMode(),
+    timeout_ms: spec.timeoutMs(),
+  }));
+}
+
+export const resolveProvider = (): LlmProviderSpec => {
+  const requested = (process.env.LLM_PROVIDER ?? "").trim();
+  if (requested) {
+    const explicit = getLlmProvider(requested);
+    if (!explicit) {
+      throw new AiProviderError(
+        "openai_not_configured",
+        `LLM_PROVIDER=${requested} is not a registered provider (${[...registry.keys()].join(", ")}).`,
+        503,
+        { provider: requested },
+      );
+    }
+    if (!explicit.isConfigured()) {
+      throw new AiProviderError(
+        "openai_not_configured",
+        `LLM_PROVIDER=${explicit.id} is set, but that provider is not configured. Check its base URL / API key / fixture path settings.`,
+        503,
+        { provider: explicit.id },
       );
     }
-    return "openai";
+    return explicit;
   }
-  if (explicit === "groq") return "groq";
 
-  if (isOpenAiRuntimeConfigured()) return "openai";
-  if ((process.env.GROQ_API_KEY ?? "").trim()) return "groq";
-  throw new Error(
-    "No LLM provider configured. Set OPENAI_API_KEY (or OPENAI_BASE_URL for a local/Tailscale OpenAI-compatible endpoint) or GROQ_API_KEY.",
+  for (const id of AUTO_DETECT_ORDER) {
+    const spec = registry.get(id);
+    if (spec?.isConfigured()) return spec;
+  }
+  throw new AiProviderError(
+    "openai_not_configured",
+    "No LLM provider configured. Set OPENAI_API_KEY (or OPENAI_BASE_URL for a Tailscale OpenAI-compatible gateway), GROQ_API_KEY, LOCAL_LLM_BASE_URL, or LLM_PROVIDER=fixture with LLM_FIXTURE_PATH.",
+    503,
   );
 };
 
-export const resolveModel = (defaults: { openai: string; groq: string }): string => {
-  const provider = resolveProvider();
+export const resolveModel = (spec: LlmProviderSpec, callerDefault?: string): string => {
   const universal = (process.env.LLM_MODEL ?? "").trim();
   if (universal) return universal;
-  if (provider === "openai") {
-    return (process.env.OPENAI_MODEL ?? "").trim() || defaults.openai;
-  }
-  return (process.env.GROQ_MODEL ?? "").trim() || defaults.groq;
+  const explicit = spec.modelEnvKey ? (process.env[spec.modelEnvKey] ?? "").trim() : "";
+  if (explicit) return explicit;
+  return spec.acceptsCallerModel && callerDefault ? callerDefault : spec.defaultModel;
 };
 
-export async function aiChatCompletions(payload: unknown) {
-  const provider = resolveProvider();
-  if (provider === "openai") {
-    return await openaiChatCompletions(payload);
+function preparePayload(spec: LlmProviderSpec, payload: Record<string, unknown>, model: string, options: LlmCallOptions) {
+  const next: Record<string, unknown> = typeof payload.model === "string" && payload.model.trim().length > 0
+    ? { ...payload }
+    : { ...payload, model };
+  if (options.jsonMode && spec.supportsJsonMode() && next.response_format === undefined) {
+    next.response_format = { type: "json_object" };
   }
-  return await groqChatCompletions(payload);
+  return next;
 }
 
-export async function aiChatCompletionsStream(payload: unknown) {
-  const provider = resolveProvider();
-  if (provider === "openai") {
-    return await openaiChatCompletionsStream(payload);
+const recordPath = (spec: LlmProviderSpec): string | null => {
+  if (spec.id === "fixture") return null;
+  const value = (process.env.LLM_FIXTURE_RECORD_PATH ?? "").trim();
+  return value.length > 0 ? value : null;
+};
+
+function recordQuietly(path: string, payload: Record<string, unknown>, content: string, model: string) {
+  try {
+    recordLlmFixture(path, payload, content, model);
+  } catch {
+    // Recording is a dev convenience; it must never fail the request it observed.
   }
-  return await groqChatCompletionsStream(payload);
 }
 
-function ensureOpenAiConfigured() {
-  if (isOpenAiRuntimeConfigured()) return;
-  throw new AiProviderError(
-    "openai_not_configured",
-    "OpenAI runtime is not configured. Set OPENAI_API_KEY for api.openai.com or set OPENAI_BASE_URL to your local/Tailscale OpenAI-compatible endpoint.",
-    503,
+function requestFailed(spec: LlmProviderSpec, error: unknown, model: string): AiProviderError {
+  if (error instanceof AiProviderError) return error;
+  return new AiProviderError(
+    "openai_request_failed",
+    `${spec.id === "openai" ? "OpenAI" : `LLM provider ${spec.id}`} request failed: ${errMessage(error)}`,
+    502,
+    { provider: spec.id, model },
   );
 }
 
-function resolveOpenAiModel(defaultModel: string): string {
-  const universal = (process.env.LLM_MODEL ?? "").trim();
-  if (universal) return universal;
-  const explicit = (process.env.OPENAI_MODEL ?? "").trim();
-  return explicit || defaultModel;
+export async function aiChatCompletions(payload: Record<string, unknown>, defaultModel?: string, options: LlmCallOptions = {}) {
+  return (await mythicOpenAIChatCompletions(payload, defaultModel, options)).data;
 }
 
-function withModel(payload: Record<string, unknown>, model: string): Record<string, unknown> {
-  if (typeof payload.model === "string" && payload.model.trim().length > 0) return payload;
-  return { ...payload, model };
+export async function aiChatCompletionsStream(payload: Record<string, unknown>, defaultModel?: string, options: LlmCallOptions = {}) {
+  return (await mythicOpenAIChatCompletionsStream(payload, defaultModel, options)).response;
 }
 
 export async function mythicOpenAIChatCompletions(
   payload: Record<string, unknown>,
   defaultModel = "gpt-4o-mini",
-  options: { timeoutMs?: number } = {},
-): Promise<{ data: unknown; provider: "openai"; model: string }> {
-  ensureOpenAiConfigured();
-  const model = resolveOpenAiModel(defaultModel);
+  options: LlmCallOptions = {},
+): Promise<{ data: unknown; provider: LlmProvider; model: string }> {
+  const spec = resolveProvider();
+  const model = resolveModel(spec, defaultModel);
+  const body = preparePayload(spec, payload, model, options);
   try {
-    const data = await openaiChatCompletions(withModel(payload, model), options);
-    return { data, provider: "openai", model };
+    const data = await spec.chatCompletions(body, { timeoutMs: options.timeoutMs });
+    const record = recordPath(spec);
+    if (record) {
+      const content = (data as { choices?: Array<{ message?: { content?: unknown } }> })?.choices?.[0]?.message?.content;
+      if (typeof content === "string") recordQuietly(record, body, content, model);
+    }
+    return { data, provider: spec.id, model };
   } catch (error) {
-    if (error instanceof AiProviderError) throw error;
-    throw new AiProviderError(
-      "openai_request_failed",
-      `OpenAI request failed: ${errMessage(error)}`,
-      502,
-      { model },
-    );
+    throw requestFailed(spec, error, model);
   }
 }
 
 export async function mythicOpenAIChatCompletionsStream(
   payload: Record<string, unknown>,
   defaultModel = "gpt-4o-mini",
-  options: { timeoutMs?: number } = {},
-): Promise<{ response: Response; provider: "openai"; model: string }> {
-  ensureOpenAiConfigured();
-  const model = resolveOpenAiModel(defaultModel);
+  options: LlmCallOptions = {},
+): Promise<{ response: Response; provider: LlmProvider; model: string }> {
+  const spec = resolveProvider();
+  const model = resolveModel(spec, defaultModel);
+  const body = preparePayload(spec, payload, model, options);
   try {
-    const response = await openaiChatCompletionsStream(withModel(payload, model), options);
-    return { response, provider: "openai", model };
+    const response = await spec.chatCompletionsStream(body, { timeoutMs: options.timeoutMs });
+    const record = recordPath(spec);
+    if (!record || !response.body) return { response, provider: spec.id, model };
+    const [forCaller, forRecord] = response.body.tee();
+    void readChatStreamContent(forRecord)
+      .then((content) => recordQuietly(record, body, content, model))
+      .catch(() => undefined);
+    return {
+      response: new Response(forCaller, { status: response.status, headers: response.headers }),
+      provider: spec.id,
+      model,
+    };
   } catch (error) {
-    if (error instanceof AiProviderError) throw error;
-    throw new AiProviderError(
-      "openai_request_failed",
-      `OpenAI request failed: ${errMessage(error)}`,
-      502,
-      { model },
-    );
+    throw requestFailed(spec, error, model);
   }
 }
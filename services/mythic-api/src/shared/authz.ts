@@ -46,6 +46,26 @@ export async function assertCampaignAccess(
   return { campaignId, isDm: Boolean(member.is_dm) };
 }
 
+export async function assertCampaignOwner(
+  svc: SupabaseClient,
+  campaignId: string,
+  userId: string,
+): Promise<{ campaignId: string }> {
+  const { data: campaign, error } = await svc
+    .from("campaigns")
+    .select("id, owner_id")
+    .eq("id", campaignId)
+    .maybeSingle();
+  if (error) throw error;
+  if (!campaign) {
+    throw new AuthzError("campaign_not_found", "Campaign not found", 404);
+  }
+  if (campaign.owner_id !== userId) {
+    throw new AuthzError("campaign_owner_required", "Only the campaign owner can change this", 403);
+  }
+  return { campaignId: campaign.id };
+}
+
 export async function assertCharacterAccess(
   svc: SupabaseClient,
   args: { characterId: string; campaignId: string; userId: string },
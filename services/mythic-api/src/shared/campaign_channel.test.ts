@@ -0,0 +1,73 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import {
+  CAMPAIGN_CHANNEL_PROTOCOL,
+  campaignTopic,
+  configureCampaignChannel,
+  createCampaignChannel,
+  createMemoryCampaignChannel,
+  createSupabaseCampaignChannel,
+  publishCampaignEvent,
+  type CampaignEvent,
+} from "./campaign_channel.js";
+
+test("memory channel fans events out per campaign until unsubscribed", async () => {
+  const channel = createMemoryCampaignChannel();
+  configureCampaignChannel(channel);
+  const seenA: CampaignEvent[] = [];
+  const seenB: CampaignEvent[] = [];
+  const stopA = channel.subscribe("camp-a", (event) => seenA.push(event));
+  channel.subscribe("camp-b", (event) => seenB.push(event));
+
+  await publishCampaignEvent({
+    campaignId: "camp-a",
+    type: "combat.action",
+    actorUserId: "user-1",
+    payload: { combat_session_id: "combat-1", next_actor_combatant_id: "c2" },
+  });
+  assert.equal(seenA.length, 1);
+  assert.equal(seenB.length, 0);
+  assert.equal(seenA[0]!.protocol, CAMPAIGN_CHANNEL_PROTOCOL);
+  assert.equal(seenA[0]!.actor_user_id, "user-1");
+  assert.deepEqual(seenA[0]!.payload, { combat_session_id: "combat-1", next_actor_combatant_id: "c2" });
+
+  stopA();
+  await publishCampaignEvent({ campaignId: "camp-a", type: "dm.turn", actorUserId: null, payload: {} });
+  assert.equal(seenA.length, 1);
+  await channel.close();
+});
+
+test("supabase channel broadcasts privately to the campaign topic and failures never throw", async () => {
+  const calls: Array<{ url: string; init: RequestInit }> = [];
+  let status = 202;
+  const channel = createSupabaseCampaignChannel({
+    supabaseUrl: "https://example.supabase.co/",
+    serviceRoleKey: "service-key",
+    fetchImpl: (async (url: string, init: RequestInit) => {
+      calls.push({ url, init });
+      return new Response(status === 202 ? null : "nope", { status });
+    }) as unknown as typeof fetch,
+  });
+  const errors: unknown[] = [];
+  configureCampaignChannel(channel, (error) => errors.push(error));
+
+  await publishCampaignEvent({ campaignId: "camp-1", type: "board.transition", actorUserId: "u", payload: { mode: "dungeon" } });
+  assert.equal(calls.length, 1);
+  assert.equal(calls[0]!.url, "https://example.supabase.co/realtime/v1/api/broadcast");
+  assert.equal((calls[0]!.init.headers as Record<string, string>).apikey, "service-key");
+  const body = JSON.parse(String(calls[0]!.init.body));
+  assert.equal(body.messages[0].topic, campaignTopic("camp-1"));
+  assert.equal(body.messages[0].event, "board.transition");
+  assert.equal(body.messages[0].private, true);
+  assert.equal(body.messages[0].payload.payload.mode, "dungeon");
+  assert.deepEqual(errors, []);
+
+  status = 500;
+  await publishCampaignEvent({ campaignId: "camp-1", type: "dm.turn", actorUserId: "u", payload: {} });
+  assert.equal(errors.length, 1);
+  assert.match(String((errors[0] as Error).message), /500/);
+
+  assert.equal(createCampaignChannel({ campaignChannel: "memory", supabaseUrl: "", supabaseServiceRoleKey: "" }).driver, "memory");
+  configureCampaignChannel(createMemoryCampaignChannel());
+});
@@ -0,0 +1,163 @@
+import type { CampaignChannelDriver, MythicApiConfig } from "./env.js";
+
+export type { CampaignChannelDriver } from "./env.js";
+
+export const CAMPAIGN_CHANNEL_PROTOCOL = "mythic.campaign.v1";
+
+/**
+ * `combat.action` follows every committed skill/tick (clients refetch and animate the batch),
+ * `board.transition` every runtime mode change, `dm.turn` every committed DM turn and `party.queue` every
+ * proposal, vote or decision on the party action queue.
+ */
+export type CampaignEventType = "combat.action" | "combat.ended" | "board.transition" | "dm.turn" | "party.queue";
+
+export type CampaignEvent = {
+  protocol: typeof CAMPAIGN_CHANNEL_PROTOCOL;
+  type: CampaignEventType;
+  campaign_id: string;
+  actor_user_id: string | null;
+  at: string;
+  payload: Record<string, unknown>;
+};
+
+export type CampaignEventListener = (event: CampaignEvent) => void;
+
+/**
+ * Fan-out for campaign events. Browsers listen on the Supabase Realtime topic from `campaignTopic`;
+ * the memory driver keeps everything in-process for tests and offline dev.
+ */
+export interface CampaignChannel {
+  readonly driver: CampaignChannelDriver;
+  publish(event: CampaignEvent): Promise<void>;
+  /** In-process listeners only; remote clients subscribe through Supabase Realtime. */
+  subscribe(campaignId: string, listener: CampaignEventListener): () => void;
+  close(): Promise<void>;
+}
+
+export function campaignTopic(campaignId: string): string {
+  return `mythic:campaign:${campaignId}`;
+}
+
+function createListenerSet() {
+  const listeners = new Map<string, Set<CampaignEventListener>>();
+  return {
+    add(campaignId: string, listener: CampaignEventListener) {
+      const set = listeners.get(campaignId) ?? new Set<CampaignEventListener>();
+      set.add(listener);
+      listeners.set(campaignId, set);
+      return () => {
+        set.delete(listener);
+        if (set.size === 0) listeners.delete(campaignId);
+      };
+    },
+    emit(event: CampaignEvent) {
+      for (const listener of listeners.get(event.campaign_id) ?? []) listener(event);
+    },
+    clear() {
+      listeners.clear();
+    },
+  };
+}
+
+export function createMemoryCampaignChannel(): CampaignChannel {
+  const listeners = createListenerSet();
+  return {
+    driver: "memory",
+    async publish(event) {
+      listeners.emit(event);
+    },
+    subscribe: listeners.add,
+    async close() {
+      listeners.clear();
+    },
+  };
+}
+
+export function createSupabaseCampaignChannel(args: {
+  supabaseUrl: string;
+  serviceRoleKey: string;
+  timeoutMs?: number;
+  fetchImpl?: typeof fetch;
+}): CampaignChannel {
+  const endpoint = `${args.supabaseUrl.replace(/\/$/, "")}/realtime/v1/api/broadcast`;
+  const fetchImpl = args.fetchImpl ?? fetch;
+  const timeoutMs = args.timeoutMs ?? 3_000;
+  const listeners = createListenerSet();
+
+  return {
+    driver: "supabase",
+    async publish(event) {
+      listeners.emit(event);
+      // REST broadcast: no socket to hold open per campaign, and `private` limits delivery to members.
+      const response = await fetchImpl(endpoint, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          apikey: args.serviceRoleKey,
+          Authorization: `Bearer ${args.serviceRoleKey}`,
+        },
+        body: JSON.stringify({
+          messages: [{ topic: campaignTopic(event.campaign_id), event: event.type, payload: event, private: true }],
+        }),
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+      if (!response.ok) {
+        const detail = await response.text().catch(() => "");
+        throw new Error(`realtime broadcast failed (${response.status}) ${detail.slice(0, 200)}`.trim());
+      }
+    },
+    subscribe: listeners.add,
+    async close() {
+      listeners.clear();
+    },
+  };
+}
+
+export function createCampaignChannel(
+  config: Pick<MythicApiConfig, "campaignChannel" | "supabaseUrl" | "supabaseServiceRoleKey">,
+): CampaignChannel {
+  if (config.campaignChannel === "supabase") {
+    return createSupabaseCampaignChannel({ supabaseUrl: config.supabaseUrl, serviceRoleKey: config.supabaseServiceRoleKey });
+  }
+  return createMemoryCampaignChannel();
+}
+
+let activeChannel: CampaignChannel = createMemoryCampaignChannel();
+let onPublishError: ((error: unknown, event: CampaignEvent) => void) | null = null;
+
+export function configureCampaignChannel(
+  channel: CampaignChannel,
+  onError?: (error: unknown, event: CampaignEvent) => void,
+): void {
+  activeChannel = channel;
+  onPublishError = onError ?? null;
+}
+
+export function getCampaignChannel(): CampaignChannel {
+  return activeChannel;
+}
+
+/**
+ * Pushes an already-committed change to every connected party member. Delivery is best effort:
+ * the change is in the database either way, so a failed push is logged and never fails the request.
+ */
+export async function publishCampaignEvent(args: {
+  campaignId: string;
+  type: CampaignEventType;
+  actorUserId: string | null;
+  payload: Record<string, unknown>;
+}): Promise<void> {
+  const event: CampaignEvent = {
+    protocol: CAMPAIGN_CHANNEL_PROTOCOL,
+    type: args.type,
+    campaign_id: args.campaignId,
+    actor_user_id: args.actorUserId,
+    at: new Date().toISOString(),
+    payload: args.payload,
+  };
+  try {
+    await activeChannel.publish(event);
+  } catch (error) {
+    onPublishError?.(error, event);
+  }
+}
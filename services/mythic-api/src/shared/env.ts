@@ -56,6 +56,30 @@ function parseDmNarratorMode(value: string | undefined): DmNarratorMode | null {
   return null;
 }
 
+export type GuardStoreDriver = "memory" | "redis";
+
+function parseGuardStoreDriver(value: string | undefined): GuardStoreDriver | null {
+  const key = (value ?? "").trim().toLowerCase();
+  if (key === "memory" || key === "redis") return key;
+  return null;
+}
+
+export type CampaignChannelDriver = "supabase" | "memory";
+
+function parseCampaignChannelDriver(value: string | undefined): CampaignChannelDriver | null {
+  const key = (value ?? "").trim().toLowerCase();
+  if (key === "supabase" || key === "memory") return key;
+  return null;
+}
+
+function parseSweepInterval(value: string | undefined): number {
+  const raw = (value ?? "").trim();
+  if (!raw) return 15_000;
+  const parsed = Math.floor(Number(raw));
+  if (!Number.isFinite(parsed) || parsed <= 0) return 0;
+  return Math.max(1_000, parsed);
+}
+
 export interface MythicApiConfig {
   port: number;
   host: string;
@@ -74,6 +98,11 @@ export interface MythicApiConfig {
   mythicTurnSalt: string;
   openaiApiKey: string | null;
   openaiBaseUrl: string;
+  guardStore: GuardStoreDriver;
+  guardRedisUrl: string | null;
+  campaignChannel: CampaignChannelDriver;
+  /** How often the combat turn sweeper looks for expired turns; 0 turns it off. */
+  combatSweepIntervalMs: number;
 }
 
 export function getConfig(): MythicApiConfig {
@@ -107,6 +136,9 @@ export function getConfig(): MythicApiConfig {
     "TAILSCALE_AI_BASE_URL",
     "LLM_BASE_URL",
   ]) ?? DEFAULT_OPENAI_BASE_URL;
+  const guardRedisUrl = readFirstSet(["MYTHIC_REDIS_URL", "REDIS_URL"]);
+  const guardStore = parseGuardStoreDriver(process.env.MYTHIC_GUARD_STORE) ?? (guardRedisUrl ? "redis" : "memory");
+  if (guardStore === "redis" && !guardRedisUrl) throw new Error("MYTHIC_GUARD_STORE=redis requires MYTHIC_REDIS_URL");
 
   return {
     port: Number.isFinite(port) ? port : 3001,
@@ -126,5 +158,9 @@ export function getConfig(): MythicApiConfig {
     mythicTurnSalt,
     openaiApiKey,
     openaiBaseUrl,
+    guardStore,
+    guardRedisUrl,
+    campaignChannel: parseCampaignChannelDriver(process.env.MYTHIC_REALTIME) ?? "supabase",
+    combatSweepIntervalMs: parseSweepInterval(process.env.MYTHIC_COMBAT_SWEEP_MS),
   };
 }
@@ -23,6 +23,10 @@ function buildGroqEndpointUrl(baseUrl: string, endpointPath: string): string {
   return parsed.toString();
 }
 
+export function isGroqConfigured(): boolean {
+  return (process.env.GROQ_API_KEY ?? "").trim().length > 0;
+}
+
 function getGroqConfig() {
   const apiKey = (process.env.GROQ_API_KEY ?? "").trim();
   if (!apiKey) {
@@ -47,15 +51,15 @@ async function readErrorSnippet(response: Response) {
   }
 }
 
-function resolveTimeoutMs() {
-  const parsed = Number(process.env.GROQ_TIMEOUT_MS ?? "");
+export function resolveGroqTimeoutMs(override?: number) {
+  const parsed = Number(override ?? process.env.GROQ_TIMEOUT_MS ?? "");
   if (!Number.isFinite(parsed)) return DEFAULT_GROQ_TIMEOUT_MS;
   return Math.max(5_000, Math.min(120_000, Math.floor(parsed)));
 }
 
-export async function groqChatCompletions(payload: unknown) {
+export async function groqChatCompletions(payload: unknown, options: { timeoutMs?: number } = {}) {
   const { apiKey, baseUrl } = getGroqConfig();
-  const timeoutMs = resolveTimeoutMs();
+  const timeoutMs = resolveGroqTimeoutMs(options.timeoutMs);
   const { controller, timeout } = withTimeout(timeoutMs);
 
   try {
@@ -88,9 +92,9 @@ export async function groqChatCompletions(payload: unknown) {
   }
 }
 
-export async function groqChatCompletionsStream(payload: unknown) {
+export async function groqChatCompletionsStream(payload: unknown, options: { timeoutMs?: number } = {}) {
   const { apiKey, baseUrl } = getGroqConfig();
-  const timeoutMs = resolveTimeoutMs();
+  const timeoutMs = resolveGroqTimeoutMs(options.timeoutMs);
   const { controller, timeout } = withTimeout(timeoutMs);
 
   try {
@@ -0,0 +1,138 @@
+import type { GuardStoreDriver, MythicApiConfig } from "./env.js";
+import { createRespClient, type RespClient } from "./redis.js";
+
+export type { GuardStoreDriver } from "./env.js";
+
+export type CachedResponse = {
+  status: number;
+  headers: Array<[string, string]>;
+  body: string;
+};
+
+export type RateWindow = {
+  count: number;
+  resetAt: number;
+};
+
+/**
+ * Backing store for request_guard. Rate windows and idempotent responses must be shared
+ * by every mythic-api instance behind the proxy, so anything beyond a single process uses Redis.
+ */
+export interface GuardStore {
+  readonly driver: GuardStoreDriver;
+  /** Counts one hit against `key`'s fixed window, opening a new window when the last one expired. */
+  hitWindow(key: string, windowMs: number): Promise<RateWindow>;
+  getResponse(key: string): Promise<CachedResponse | null>;
+  putResponse(key: string, value: CachedResponse, ttlMs: number): Promise<void>;
+  close(): Promise<void>;
+}
+
+const MEMORY_SWEEP_THRESHOLD = 5_000;
+
+function parseCachedResponse(raw: unknown): CachedResponse | null {
+  if (typeof raw !== "string") return null;
+  try {
+    const parsed = JSON.parse(raw) as Partial<CachedResponse>;
+    if (typeof parsed.status !== "number" || typeof parsed.body !== "string" || !Array.isArray(parsed.headers)) return null;
+    const headers = parsed.headers.filter((entry): entry is [string, string] =>
+      Array.isArray(entry) && typeof entry[0] === "string" && typeof entry[1] === "string");
+    return { status: parsed.status, headers, body: parsed.body };
+  } catch {
+    return null;
+  }
+}
+
+export function createMemoryGuardStore(now: () => number = Date.now): GuardStore {
+  const windows = new Map<string, RateWindow>();
+  const responses = new Map<string, { value: CachedResponse; expiresAt: number }>();
+
+  const sweep = (ts: number) => {
+    if (windows.size > MEMORY_SWEEP_THRESHOLD) {
+      for (const [key, entry] of windows) if (ts >= entry.resetAt) windows.delete(key);
+    }
+    if (responses.size > MEMORY_SWEEP_THRESHOLD) {
+      for (const [key, entry] of responses) if (ts > entry.expiresAt) responses.delete(key);
+    }
+  };
+
+  return {
+    driver: "memory",
+    async hitWindow(key, windowMs) {
+      const ts = now();
+      sweep(ts);
+      const bucket = windows.get(key);
+      if (!bucket || ts >= bucket.resetAt) {
+        const fresh = { count: 1, resetAt: ts + windowMs };
+        windows.set(key, fresh);
+        return { ...fresh };
+      }
+      bucket.count += 1;
+      return { ...bucket };
+    },
+    async getResponse(key) {
+      const found = responses.get(key);
+      if (!found) return null;
+      if (now() > found.expiresAt) {
+        responses.delete(key);
+        return null;
+      }
+      return found.value;
+    },
+    async putResponse(key, value, ttlMs) {
+      responses.set(key, { value, expiresAt: now() + ttlMs });
+    },
+    async close() {
+      windows.clear();
+      responses.clear();
+    },
+  };
+}
+
+export function createRedisGuardStore(args: {
+  url: string;
+  keyPrefix?: string;
+  timeoutMs?: number;
+  client?: RespClient;
+  now?: () => number;
+}): GuardStore {
+  const client = args.client ?? createRespClient(args.url, { timeoutMs: args.timeoutMs });
+  const prefix = args.keyPrefix ?? "mythic:guard:";
+  const now = args.now ?? Date.now;
+
+  return {
+    driver: "redis",
+    async hitWindow(key, windowMs) {
+      const redisKey = `${prefix}rl:${key}`;
+      // Pipelined: NX opens the window with its TTL, INCR keeps that TTL, PTTL reports when it closes.
+      const [, count, ttl] = await Promise.all([
+        client.command("SET", redisKey, "0", "PX", windowMs, "NX"),
+        client.command("INCR", redisKey),
+        client.command("PTTL", redisKey),
+      ]);
+      let remaining = Number(ttl);
+      if (!Number.isFinite(remaining) || remaining < 0) {
+        // The window expired between SET and INCR, leaving a counter without a TTL.
+        await client.command("PEXPIRE", redisKey, windowMs);
+        remaining = windowMs;
+      }
+      return { count: Number(count), resetAt: now() + remaining };
+    },
+    async getResponse(key) {
+      return parseCachedResponse(await client.command("GET", `${prefix}idem:${key}`));
+    },
+    async putResponse(key, value, ttlMs) {
+      await client.command("SET", `${prefix}idem:${key}`, JSON.stringify(value), "PX", Math.max(1, Math.floor(ttlMs)));
+    },
+    async close() {
+      await client.close();
+    },
+  };
+}
+
+export function createGuardStore(config: Pick<MythicApiConfig, "guardStore" | "guardRedisUrl">): GuardStore {
+  if (config.guardStore === "redis") {
+    if (!config.guardRedisUrl) throw new Error("MYTHIC_GUARD_STORE=redis requires MYTHIC_REDIS_URL");
+    return createRedisGuardStore({ url: config.guardRedisUrl });
+  }
+  return createMemoryGuardStore();
+}
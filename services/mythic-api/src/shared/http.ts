@@ -1,3 +1,5 @@
+import { Readable } from "node:stream";
+import type { ReadableStream as NodeReadableStream } from "node:stream/web";
 import type { FastifyReply, FastifyRequest } from "fastify";
 
 function normalizeHeaderValue(value: unknown): string {
@@ -41,8 +43,8 @@ export async function sendWebResponse(reply: FastifyReply, response: Response) {
   const isEventStream = contentType.includes("text/event-stream");
 
   if (isEventStream) {
-    const payload = await response.text();
-    reply.send(payload);
+    // Forward events as the handler emits them; the DM turn stream stays open across model and commit work.
+    reply.send(Readable.fromWeb(response.body as unknown as NodeReadableStream<Uint8Array>));
     return;
   }
 
@@ -0,0 +1,145 @@
+import { createHash } from "node:crypto";
+import { existsSync, readFileSync, statSync, writeFileSync } from "node:fs";
+
+// Recorded chat completions replayed by the "fixture" LLM provider, so DM turns, class forge and field
+// generation run in tests and offline dev without a network. Entries are picked deterministically:
+// exact request hash first, then `match` substrings, then a hash-stable pick among catch-all entries.
+
+export type LlmFixtureEntry = {
+  /** fixtureRequestHash() of the recorded request; wins over every other rule. */
+  request_hash?: string;
+  /** Every substring must appear in the request's message text. */
+  match?: string[];
+  label?: string;
+  model?: string;
+  content: string;
+};
+
+export type LlmFixtureFile = {
+  version: 1;
+  completions: LlmFixtureEntry[];
+};
+
+type ChatMessage = { role?: unknown; content?: unknown };
+
+const FIXTURE_STREAM_CHUNK_CHARS = 48;
+
+const cache = new Map<string, { mtimeMs: number; file: LlmFixtureFile }>();
+
+function requestMessages(payload: Record<string, unknown>): Array<{ role: string; content: string }> {
+  const messages = Array.isArray(payload.messages) ? payload.messages as ChatMessage[] : [];
+  return messages.map((message) => ({
+    role: typeof message?.role === "string" ? message.role : "user",
+    content: typeof message?.content === "string" ? message.content : JSON.stringify(message?.content ?? ""),
+  }));
+}
+
+/** Hashes only the conversation: sampling knobs, model and stream mode do not change which recording applies. */
+export function fixtureRequestHash(payload: Record<string, unknown>): string {
+  return createHash("sha256").update(JSON.stringify(requestMessages(payload))).digest("hex");
+}
+
+function parseFixtureFile(raw: unknown, path: string): LlmFixtureFile {
+  const record = raw && typeof raw === "object" && !Array.isArray(raw) ? raw as Record<string, unknown> : null;
+  const entries = Array.isArray(record?.completions) ? record.completions : null;
+  if (!entries) throw new Error(`LLM fixture file ${path} must be { "version": 1, "completions": [...] }`);
+  const completions: LlmFixtureEntry[] = [];
+  for (const entry of entries) {
+    const rec = entry && typeof entry === "object" ? entry as Record<string, unknown> : null;
+    if (!rec || typeof rec.content !== "string") continue;
+    completions.push({
+      request_hash: typeof rec.request_hash === "string" ? rec.request_hash : undefined,
+      match: Array.isArray(rec.match) ? rec.match.filter((value): value is string => typeof value === "string") : undefined,
+      label: typeof rec.label === "string" ? rec.label : undefined,
+      model: typeof rec.model === "string" ? rec.model : undefined,
+      content: rec.content,
+    });
+  }
+  return { version: 1, completions };
+}
+
+export function loadLlmFixtures(path: string): LlmFixtureFile {
+  const mtimeMs = statSync(path).mtimeMs;
+  const cached = cache.get(path);
+  if (cached && cached.mtimeMs === mtimeMs) return cached.file;
+  const file = parseFixtureFile(JSON.parse(readFileSync(path, "utf8")), path);
+  cache.set(path, { mtimeMs, file });
+  return file;
+}
+
+export function selectFixtureCompletion(
+  file: LlmFixtureFile,
+  payload: Record<string, unknown>,
+): { entry: LlmFixtureEntry | null; requestHash: string } {
+  const requestHash = fixtureRequestHash(payload);
+  const exact = file.completions.find((entry) => entry.request_hash === requestHash);
+  if (exact) return { entry: exact, requestHash };
+
+  const text = requestMessages(payload).map((message) => message.content).join("\n");
+  const matched = file.completions.find((entry) =>
+    !entry.request_hash && (entry.match?.length ?? 0) > 0 && entry.match!.every((needle) => text.includes(needle)));
+  if (matched) return { entry: matched, requestHash };
+
+  const catchAll = file.completions.filter((entry) => !entry.request_hash && (entry.match?.length ?? 0) === 0);
+  if (catchAll.length === 0) return { entry: null, requestHash };
+  return { entry: catchAll[Number.parseInt(requestHash.slice(0, 8), 16) % catchAll.length]!, requestHash };
+}
+
+export function fixtureChatCompletion(content: string, model: string, requestHash: string) {
+  return {
+    id: `fixture-${requestHash.slice(0, 16)}`,
+    object: "chat.completion",
+    created: 0,
+    model,
+    choices: [{ index: 0, message: { role: "assistant", content }, finish_reason: "stop" }],
+  };
+}
+
+/** Replays a completion as OpenAI-style SSE in small chunks, the same shape streaming callers parse live. */
+export function fixtureChatCompletionStream(content: string, model: string, requestHash: string): Response {
+  const encoder = new TextEncoder();
+  const id = `fixture-${requestHash.slice(0, 16)}`;
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (let i = 0; i < content.length; i += FIXTURE_STREAM_CHUNK_CHARS) {
+        const chunk = { id, object: "chat.completion.chunk", model, choices: [{ index: 0, delta: { content: content.slice(i, i + FIXTURE_STREAM_CHUNK_CHARS) } }] };
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(chunk)}\n\n`));
+      }
+      controller.enqueue(encoder.encode("data: [DONE]\n\n"));
+      controller.close();
+    },
+  });
+  return new Response(body, { status: 200, headers: { "Content-Type": "text/event-stream" } });
+}
+
+/** Concatenates assistant content from an OpenAI-style SSE body (used when recording streamed completions). */
+export async function readChatStreamContent(body: ReadableStream<Uint8Array>): Promise<string> {
+  const text = await new Response(body).text();
+  let out = "";
+  for (const line of text.split("\n")) {
+    const payload = line.replace(/\r$/, "").startsWith("data:") ? line.slice(5).trim() : "";
+    if (!payload || payload === "[DONE]") continue;
+    try {
+      const parsed = JSON.parse(payload) as { choices?: Array<{ delta?: { content?: unknown } }> };
+      const delta = parsed.choices?.[0]?.delta?.content;
+      if (typeof delta === "string") out += delta;
+    } catch {
+      // Ignore keep-alives and partial frames.
+    }
+  }
+  return out;
+}
+
+/** Upserts the completion under its request hash so the next identical request replays it. */
+export function recordLlmFixture(path: string, payload: Record<string, unknown>, content: string, model: string) {
+  const file: LlmFixtureFile = existsSync(path)
+    ? parseFixtureFile(JSON.parse(readFileSync(path, "utf8")), path)
+    : { version: 1, completions: [] };
+  const requestHash = fixtureRequestHash(payload);
+  const entry: LlmFixtureEntry = { request_hash: requestHash, model, content };
+  const index = file.completions.findIndex((candidate) => candidate.request_hash === requestHash);
+  if (index >= 0) file.completions[index] = entry;
+  else file.completions.push(entry);
+  writeFileSync(path, `${JSON.stringify(file, null, 2)}\n`, "utf8");
+  cache.delete(path);
+}
@@ -0,0 +1,115 @@
+// Generic OpenAI-compatible server on the operator's own hardware (llama.cpp `llama-server`, Ollama, vLLM, LM Studio).
+const DEFAULT_LOCAL_LLM_BASE_URL = "http://127.0.0.1:11434";
+const DEFAULT_LOCAL_LLM_TIMEOUT_MS = 90_000;
+
+function normalizeLocalBaseUrl(raw: string): string {
+  let parsed: URL;
+  try {
+    parsed = new URL(raw);
+  } catch {
+    throw new Error("LOCAL_LLM_BASE_URL must be a valid absolute URL");
+  }
+  parsed.search = "";
+  parsed.hash = "";
+  return parsed.toString().replace(/\/+$/, "");
+}
+
+function buildLocalEndpointUrl(baseUrl: string, endpointPath: string): string {
+  const parsed = new URL(baseUrl);
+  const rawPath = parsed.pathname.replace(/\/+$/, "");
+  const versionedBasePath = rawPath.endsWith("/v1") ? rawPath : `${rawPath || ""}/v1`;
+  const normalizedBasePath = versionedBasePath.startsWith("/") ? versionedBasePath : `/${versionedBasePath}`;
+  const normalizedEndpoint = endpointPath.replace(/^\/+/, "");
+  parsed.pathname = `${normalizedBasePath}/${normalizedEndpoint}`.replace(/\/{2,}/g, "/");
+  return parsed.toString();
+}
+
+export function resolveLocalLlmBaseUrl(): string {
+  const raw = (process.env.LOCAL_LLM_BASE_URL ?? "").trim() || DEFAULT_LOCAL_LLM_BASE_URL;
+  return normalizeLocalBaseUrl(raw);
+}
+
+/** Only an explicit base URL opts in: a default localhost guess must never shadow a hosted provider. */
+export function isLocalLlmConfigured(): boolean {
+  const raw = (process.env.LOCAL_LLM_BASE_URL ?? "").trim();
+  if (!raw) return false;
+  try {
+    normalizeLocalBaseUrl(raw);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Ollama and llama-server honour `response_format: json_object`; older builds reject it, so it can be switched off. */
+export function localLlmSupportsJsonMode(): boolean {
+  const raw = (process.env.LOCAL_LLM_JSON_MODE ?? "").trim().toLowerCase();
+  return !(raw === "0" || raw === "false" || raw === "off");
+}
+
+export function resolveLocalLlmTimeoutMs(override?: number): number {
+  const parsed = Number(override ?? process.env.LOCAL_LLM_TIMEOUT_MS ?? "");
+  if (!Number.isFinite(parsed) || parsed <= 0) return DEFAULT_LOCAL_LLM_TIMEOUT_MS;
+  // Local models on CPU are slow; allow more headroom than hosted providers.
+  return Math.max(5_000, Math.min(300_000, Math.floor(parsed)));
+}
+
+function withTimeout(timeoutMs: number) {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), timeoutMs);
+  return { controller, timeout };
+}
+
+async function readErrorSnippet(response: Response) {
+  try {
+    const text = await response.text();
+    return text.slice(0, 500);
+  } catch {
+    return "";
+  }
+}
+
+async function requestLocal(payload: unknown, options: { timeoutMs?: number }): Promise<Response> {
+  const baseUrl = resolveLocalLlmBaseUrl();
+  const apiKey = (process.env.LOCAL_LLM_API_KEY ?? "").trim();
+  const timeoutMs = resolveLocalLlmTimeoutMs(options.timeoutMs);
+  const { controller, timeout } = withTimeout(timeoutMs);
+
+  try {
+    let response: Response;
+    try {
+      response = await fetch(buildLocalEndpointUrl(baseUrl, "chat/completions"), {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+        },
+        body: JSON.stringify(payload),
+        signal: controller.signal,
+      });
+    } catch (error) {
+      if (controller.signal.aborted) {
+        throw new Error(`Local LLM request timed out after ${timeoutMs}ms`);
+      }
+      throw error;
+    }
+
+    if (!response.ok) {
+      const snippet = await readErrorSnippet(response);
+      throw new Error(`Local LLM error ${response.status}: ${snippet || "Request failed"}`);
+    }
+
+    return response;
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+export async function localChatCompletions(payload: unknown, options: { timeoutMs?: number } = {}) {
+  const response = await requestLocal(payload, options);
+  return await response.json();
+}
+
+export async function localChatCompletionsStream(payload: unknown, options: { timeoutMs?: number } = {}) {
+  return await requestLocal(payload, options);
+}
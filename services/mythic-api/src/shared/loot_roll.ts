@@ -22,16 +22,25 @@ export function rarityBudget(rarity: LootRarity): number {
   return BUDGETS[rarity];
 }
 
-export function pickLootRarity(seed: number, label: string, level: number): LootRarity {
+export function pickLootRarity(
+  seed: number,
+  label: string,
+  level: number,
+  scale?: Partial<Record<LootRarity, number>>,
+): LootRarity {
   const late = Math.max(0, level - 25);
-  return weightedPick(seed, label, [
-    { item: "common" as const, weight: Math.max(5, 65 - late) },
-    { item: "magical" as const, weight: Math.max(10, 26 + Math.floor(late * 0.3)) },
-    { item: "unique" as const, weight: Math.max(6, 8 + Math.floor(late * 0.25)) },
-    { item: "legendary" as const, weight: Math.max(2, Math.floor(level / 12)) },
-    { item: "mythic" as const, weight: Math.max(1, Math.floor(level / 20)) },
-    { item: "unhinged" as const, weight: level >= 70 ? 1 : 0 },
-  ]);
+  const weights: Array<{ item: LootRarity; weight: number }> = [
+    { item: "common", weight: Math.max(5, 65 - late) },
+    { item: "magical", weight: Math.max(10, 26 + Math.floor(late * 0.3)) },
+    { item: "unique", weight: Math.max(6, 8 + Math.floor(late * 0.25)) },
+    { item: "legendary", weight: Math.max(2, Math.floor(level / 12)) },
+    { item: "mythic", weight: Math.max(1, Math.floor(level / 20)) },
+    { item: "unhinged", weight: level >= 70 ? 1 : 0 },
+  ];
+  if (!scale) return weightedPick(seed, label, weights);
+  // House-rule factors; falls back to the unscaled table if they zero out every tier.
+  const scaled = weights.map((entry) => ({ item: entry.item, weight: entry.weight * Math.max(0, scale[entry.item] ?? 1) }));
+  return weightedPick(seed, label, scaled.some((entry) => entry.weight > 0) ? scaled : weights);
 }
 
 export function rarityTier(rarity: LootRarity): "common" | "elite" | "boss" | "mythic" | "event" {
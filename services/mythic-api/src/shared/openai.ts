@@ -32,6 +32,13 @@ const clampTimeoutMs = (value: string | null | undefined, fallback: number) => {
   return Math.max(5_000, Math.min(120_000, Math.floor(parsed)));
 };
 
+export function resolveOpenAiChatTimeoutMs(override?: number): number {
+  return clampTimeoutMs(
+    override === undefined ? process.env.OPENAI_CHAT_TIMEOUT_MS : String(override),
+    DEFAULT_OPENAI_CHAT_TIMEOUT_MS,
+  );
+}
+
 function withTimeout(timeoutMs: number) {
   const controller = new AbortController();
   const timeout = setTimeout(() => controller.abort(), timeoutMs);
@@ -180,10 +187,7 @@ export async function openaiChatCompletions(
   payload: unknown,
   options: { timeoutMs?: number } = {},
 ) {
-  const timeoutMs = clampTimeoutMs(
-    options.timeoutMs === undefined ? process.env.OPENAI_CHAT_TIMEOUT_MS : String(options.timeoutMs),
-    DEFAULT_OPENAI_CHAT_TIMEOUT_MS,
-  );
+  const timeoutMs = resolveOpenAiChatTimeoutMs(options.timeoutMs);
   const response = await requestOpenAi(
     "chat/completions",
     payload,
@@ -198,10 +202,7 @@ export async function openaiChatCompletionsStream(
   payload: unknown,
   options: { timeoutMs?: number } = {},
 ) {
-  const timeoutMs = clampTimeoutMs(
-    options.timeoutMs === undefined ? process.env.OPENAI_CHAT_TIMEOUT_MS : String(options.timeoutMs),
-    DEFAULT_OPENAI_CHAT_TIMEOUT_MS,
-  );
+  const timeoutMs = resolveOpenAiChatTimeoutMs(options.timeoutMs);
   return await requestOpenAi(
     "chat/completions",
     payload,
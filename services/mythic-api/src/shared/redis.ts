@@ -0,0 +1,163 @@
+import net from "node:net";
+import tls from "node:tls";
+
+// Minimal RESP2 client: enough for the guard store's GET/SET/INCR/PTTL traffic without a driver dependency.
+
+export type RespValue = string | number | null | RespValue[];
+
+export class RespError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RespError";
+  }
+}
+
+type Pending = {
+  resolve: (value: RespValue) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+};
+
+export type RespClient = {
+  command: (...args: Array<string | number>) => Promise<RespValue>;
+  close: () => Promise<void>;
+};
+
+export function encodeCommand(args: Array<string | number>): Buffer {
+  const parts = [`*${args.length}\r\n`];
+  for (const arg of args) {
+    const value = String(arg);
+    parts.push(`$${Buffer.byteLength(value)}\r\n${value}\r\n`);
+  }
+  return Buffer.from(parts.join(""), "utf8");
+}
+
+/** Decodes one reply starting at `start`; returns null until the buffer holds a complete frame. */
+export function decodeReply(buf: Buffer, start = 0): { value: RespValue | RespError; next: number } | null {
+  if (start >= buf.length) return null;
+  const lineEnd = buf.indexOf("\r\n", start);
+  if (lineEnd < 0) return null;
+  const type = String.fromCharCode(buf[start]!);
+  const line = buf.toString("utf8", start + 1, lineEnd);
+  const afterLine = lineEnd + 2;
+
+  if (type === "+") return { value: line, next: afterLine };
+  if (type === "-") return { value: new RespError(line), next: afterLine };
+  if (type === ":") return { value: Number(line), next: afterLine };
+  if (type === "$") {
+    const len = Number(line);
+    if (len < 0) return { value: null, next: afterLine };
+    if (buf.length < afterLine + len + 2) return null;
+    return { value: buf.toString("utf8", afterLine, afterLine + len), next: afterLine + len + 2 };
+  }
+  if (type === "*") {
+    const count = Number(line);
+    if (count < 0) return { value: null, next: afterLine };
+    const items: RespValue[] = [];
+    let cursor = afterLine;
+    for (let i = 0; i < count; i += 1) {
+      const item = decodeReply(buf, cursor);
+      if (!item) return null;
+      items.push(item.value instanceof RespError ? item.value.message : item.value);
+      cursor = item.next;
+    }
+    return { value: items, next: cursor };
+  }
+  throw new RespError(`Unexpected RESP frame type: ${type}`);
+}
+
+export function createRespClient(rawUrl: string, opts: { timeoutMs?: number } = {}): RespClient {
+  const url = new URL(rawUrl);
+  if (url.protocol !== "redis:" && url.protocol !== "rediss:") {
+    throw new Error(`Unsupported Redis URL protocol: ${url.protocol}`);
+  }
+  const timeoutMs = Math.max(50, opts.timeoutMs ?? 2_000);
+  const host = url.hostname || "127.0.0.1";
+  const port = Number(url.port || 6379);
+  const username = decodeURIComponent(url.username);
+  const password = decodeURIComponent(url.password);
+  const db = Number(url.pathname.replace(/^\//, "") || 0);
+
+  let socket: net.Socket | null = null;
+  let buffer: Buffer = Buffer.alloc(0);
+  let closed = false;
+  const pending: Pending[] = [];
+
+  const failAll = (error: Error) => {
+    socket = null;
+    buffer = Buffer.alloc(0);
+    for (const entry of pending.splice(0)) {
+      clearTimeout(entry.timer);
+      entry.reject(error);
+    }
+  };
+
+  const onData = (chunk: Buffer) => {
+    buffer = buffer.length === 0 ? chunk : Buffer.concat([buffer, chunk]);
+    let offset = 0;
+    for (;;) {
+      let decoded: ReturnType<typeof decodeReply>;
+      try {
+        decoded = decodeReply(buffer, offset);
+      } catch (error) {
+        socket?.destroy();
+        failAll(error as Error);
+        return;
+      }
+      if (!decoded) break;
+      offset = decoded.next;
+      const entry = pending.shift();
+      if (!entry) continue;
+      clearTimeout(entry.timer);
+      if (decoded.value instanceof RespError) entry.reject(decoded.value);
+      else entry.resolve(decoded.value);
+    }
+    buffer = offset >= buffer.length ? Buffer.alloc(0) : buffer.subarray(offset);
+  };
+
+  const enqueue = (args: Array<string | number>): Promise<RespValue> =>
+    new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        // Replies are positional, so a timed-out command poisons the connection; drop it and reconnect next time.
+        socket?.destroy();
+        failAll(new RespError(`Redis command timed out after ${timeoutMs}ms`));
+      }, timeoutMs);
+      pending.push({ resolve, reject, timer });
+      socket!.write(encodeCommand(args));
+    });
+
+  const connect = () => {
+    const next = url.protocol === "rediss:"
+      ? tls.connect({ host, port, servername: host })
+      : net.connect({ host, port });
+    next.setNoDelay(true);
+    next.on("data", onData);
+    next.on("error", (error) => {
+      if (socket === next) failAll(error);
+    });
+    next.on("close", () => {
+      if (socket === next) failAll(new RespError("Redis connection closed"));
+    });
+    socket = next;
+    // Socket writes queue until connected, so the handshake is simply the first commands on the wire.
+    if (password) void enqueue(username ? ["AUTH", username, password] : ["AUTH", password]).catch(() => undefined);
+    if (Number.isFinite(db) && db > 0) void enqueue(["SELECT", db]).catch(() => undefined);
+  };
+
+  return {
+    command(...args) {
+      if (closed) return Promise.reject(new RespError("Redis client is closed"));
+      if (!socket) connect();
+      return enqueue(args);
+    },
+    async close() {
+      closed = true;
+      const current = socket;
+      if (!current) return;
+      await new Promise<void>((resolve) => {
+        current.once("close", () => resolve());
+        current.end();
+      });
+    },
+  };
+}
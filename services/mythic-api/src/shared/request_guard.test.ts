@@ -0,0 +1,180 @@
+import assert from "node:assert/strict";
+import net from "node:net";
+import test from "node:test";
+
+import { createGuardStore, createMemoryGuardStore, createRedisGuardStore, type GuardStore } from "./guard_store.js";
+import { decodeReply, type RespValue } from "./redis.js";
+import {
+  configureGuardStore,
+  enforceRateLimit,
+  getIdempotentResponse,
+  storeIdempotentResponse,
+} from "./request_guard.js";
+
+// Local stand-in speaking just enough RESP for the guard store; one instance plays the shared Redis.
+async function startStandIn(): Promise<{ url: string; commands: string[]; close: () => Promise<void> }> {
+  const data = new Map<string, { value: string; expiresAt: number | null }>();
+  const commands: string[] = [];
+  const live = (key: string) => {
+    const entry = data.get(key);
+    if (entry && entry.expiresAt !== null && Date.now() >= entry.expiresAt) data.delete(key);
+    return data.get(key) ?? null;
+  };
+  const encode = (value: RespValue | Error): string => {
+    if (value instanceof Error) return `-ERR ${value.message}\r\n`;
+    if (value === null) return "$-1\r\n";
+    if (typeof value === "number") return `:${value}\r\n`;
+    if (Array.isArray(value)) return `*${value.length}\r\n${value.map((item) => encode(item)).join("")}`;
+    return `$${Buffer.byteLength(value)}\r\n${value}\r\n`;
+  };
+  const run = (args: string[]): RespValue | Error => {
+    const [name = "", key = "", ...rest] = args;
+    commands.push(name.toUpperCase());
+    switch (name.toUpperCase()) {
+      case "PING":
+        return "PONG";
+      case "GET":
+        return live(key)?.value ?? null;
+      case "SET": {
+        const pxAt = rest.findIndex((arg) => arg.toUpperCase() === "PX");
+        const px = pxAt >= 0 ? Number(rest[pxAt + 1]) : null;
+        if (rest.some((arg) => arg.toUpperCase() === "NX") && live(key)) return null;
+        data.set(key, { value: rest[0] ?? "", expiresAt: px === null ? null : Date.now() + px });
+        return "OK";
+      }
+      case "INCR": {
+        const entry = live(key);
+        const next = Number(entry?.value ?? 0) + 1;
+        data.set(key, { value: String(next), expiresAt: entry?.expiresAt ?? null });
+        return next;
+      }
+      case "PTTL": {
+        const entry = live(key);
+        if (!entry) return -2;
+        return entry.expiresAt === null ? -1 : Math.max(0, entry.expiresAt - Date.now());
+      }
+      case "PEXPIRE": {
+        const entry = live(key);
+        if (!entry) return 0;
+        entry.expiresAt = Date.now() + Number(rest[0]);
+        return 1;
+      }
+      default:
+        return new Error(`unknown command '${name}'`);
+    }
+  };
+
+  const sockets = new Set<net.Socket>();
+  const server = net.createServer((socket) => {
+    sockets.add(socket);
+    socket.on("close", () => sockets.delete(socket));
+    let buffer = Buffer.alloc(0);
+    socket.on("data", (chunk) => {
+      buffer = Buffer.concat([buffer, chunk]);
+      let offset = 0;
+      for (;;) {
+        const frame = decodeReply(buffer, offset);
+        if (!frame) break;
+        offset = frame.next;
+        socket.write(encode(run((frame.value as string[]).map(String))));
+      }
+      buffer = buffer.subarray(offset);
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as net.AddressInfo;
+  return {
+    url: `redis://127.0.0.1:${port}`,
+    commands,
+    close: () => new Promise<void>((resolve) => {
+      for (const socket of sockets) socket.destroy();
+      server.close(() => resolve());
+    }),
+  };
+}
+
+function request(ip: string): Request {
+  return new Request("http://mythic.test/functions/v1/mythic-dungeon-master", {
+    method: "POST",
+    headers: { "x-forwarded-for": ip },
+  });
+}
+
+const limitArgs = (req: Request) => ({ req, route: "mythic-dungeon-master", limit: 2, windowMs: 60_000, corsHeaders: {}, requestId: "r1" });
+
+test("the default memory store keeps the existing fixed-window behaviour", async () => {
+  configureGuardStore(createMemoryGuardStore());
+  assert.equal(await enforceRateLimit(limitArgs(request("10.0.0.1"))), null);
+  assert.equal(await enforceRateLimit(limitArgs(request("10.0.0.1"))), null);
+  const blocked = await enforceRateLimit(limitArgs(request("10.0.0.1")));
+  assert.equal(blocked?.status, 429);
+  assert.equal(blocked?.headers.get("Retry-After"), "60");
+  assert.equal((await blocked!.json()).code, "rate_limited");
+  assert.equal(await enforceRateLimit(limitArgs(request("10.0.0.2"))), null);
+});
+
+test("two instances on one Redis share rate windows and idempotent DM replays", async () => {
+  const redis = await startStandIn();
+  const instanceA = createRedisGuardStore({ url: redis.url });
+  const instanceB = createRedisGuardStore({ url: redis.url });
+  try {
+    configureGuardStore(instanceA);
+    assert.equal(await enforceRateLimit(limitArgs(request("10.0.0.9"))), null);
+    configureGuardStore(instanceB);
+    assert.equal(await enforceRateLimit(limitArgs(request("10.0.0.9"))), null);
+    assert.equal((await enforceRateLimit(limitArgs(request("10.0.0.9"))))?.status, 429);
+
+    const body = "data: {\"choices\":[{\"delta\":{\"content\":\"The bell tolls.\"}}]}\n\ndata: [DONE]\n\n";
+    const original = new Response(body, {
+      status: 200,
+      headers: { "Content-Type": "text/event-stream", "x-request-id": "turn-1" },
+    });
+    configureGuardStore(instanceA);
+    await storeIdempotentResponse("user-1:turn-key", original, 20_000);
+    assert.equal(await original.text(), body);
+
+    configureGuardStore(instanceB);
+    const replay = await getIdempotentResponse("user-1:turn-key");
+    assert.ok(replay);
+    assert.equal(replay.status, 200);
+    assert.equal(replay.headers.get("content-type"), "text/event-stream");
+    assert.equal(await replay.text(), body);
+
+    await storeIdempotentResponse("user-1:short", new Response("x"), 30);
+    await new Promise((resolve) => setTimeout(resolve, 60));
+    assert.equal(await getIdempotentResponse("user-1:short"), null);
+    assert.ok(redis.commands.includes("INCR"));
+  } finally {
+    configureGuardStore(createMemoryGuardStore());
+    await instanceA.close();
+    await instanceB.close();
+    await redis.close();
+  }
+});
+
+test("an unreachable store degrades to the local window and reports the error", async () => {
+  const redis = await startStandIn();
+  const url = redis.url;
+  await redis.close();
+  const errors: string[] = [];
+  const store: GuardStore = createRedisGuardStore({ url, timeoutMs: 200 });
+  configureGuardStore(store, (_error, op) => errors.push(op));
+  try {
+    assert.equal(await enforceRateLimit(limitArgs(request("10.0.0.77"))), null);
+    assert.equal(await getIdempotentResponse("missing"), null);
+    assert.deepEqual(errors, ["rate_limit", "idempotency_get"]);
+  } finally {
+    configureGuardStore(createMemoryGuardStore());
+    await store.close();
+  }
+});
+
+test("createGuardStore follows the configured driver", async () => {
+  const memory = createGuardStore({ guardStore: "memory", guardRedisUrl: null });
+  assert.equal(memory.driver, "memory");
+  await memory.close();
+  assert.throws(() => createGuardStore({ guardStore: "redis", guardRedisUrl: null }), /MYTHIC_REDIS_URL/);
+  const redis = createGuardStore({ guardStore: "redis", guardRedisUrl: "redis://127.0.0.1:6390/2" });
+  assert.equal(redis.driver, "redis");
+  await redis.close();
+});
@@ -1,8 +1,28 @@
-const rateBuckets = new Map<string, { count: number; resetAt: number }>();
-const idempotencyResponses = new Map<string, { response: Response; expiresAt: number }>();
+import { createMemoryGuardStore, type CachedResponse, type GuardStore } from "./guard_store.js";
 
-function now() {
-  return Date.now();
+// Used until buildApp() configures the shared store, and whenever the shared store is unreachable:
+// degrading to per-instance limits beats failing every request while Redis is down.
+const localStore = createMemoryGuardStore();
+let activeStore: GuardStore = localStore;
+let onStoreError: ((error: unknown, op: string) => void) | null = null;
+
+export function configureGuardStore(store: GuardStore, onError?: (error: unknown, op: string) => void) {
+  activeStore = store;
+  onStoreError = onError ?? null;
+}
+
+export function getGuardStore(): GuardStore {
+  return activeStore;
+}
+
+async function withStore<T>(op: string, run: (store: GuardStore) => Promise<T>): Promise<T> {
+  if (activeStore === localStore) return run(localStore);
+  try {
+    return await run(activeStore);
+  } catch (error) {
+    onStoreError?.(error, op);
+    return run(localStore);
+  }
 }
 
 function getClientIp(req: Request): string {
@@ -11,46 +31,38 @@ function getClientIp(req: Request): string {
   return req.headers.get("cf-connecting-ip") ?? "unknown";
 }
 
-export function enforceRateLimit(args: {
+export async function enforceRateLimit(args: {
   req: Request;
   route: string;
   limit: number;
   windowMs: number;
   corsHeaders: Record<string, string>;
   requestId: string;
-}): Response | null {
+}): Promise<Response | null> {
   const { req, route, limit, windowMs, corsHeaders, requestId } = args;
   const clientIp = getClientIp(req);
   const key = `${route}:${clientIp}`;
-  const ts = now();
-  const bucket = rateBuckets.get(key);
-  if (!bucket || ts >= bucket.resetAt) {
-    rateBuckets.set(key, { count: 1, resetAt: ts + windowMs });
-    return null;
-  }
-  if (bucket.count >= limit) {
-    const retryAfterMs = Math.max(0, bucket.resetAt - ts);
-    return new Response(
-      JSON.stringify({
-        ok: false,
-        error: "Rate limit exceeded. Retry shortly.",
-        code: "rate_limited",
-        retry_after_ms: retryAfterMs,
-        requestId,
-      }),
-      {
-        status: 429,
-        headers: {
-          ...corsHeaders,
-          "Content-Type": "application/json",
-          "Retry-After": String(Math.ceil(retryAfterMs / 1000)),
-        },
+  const bucket = await withStore("rate_limit", (store) => store.hitWindow(key, windowMs));
+  if (bucket.count <= limit) return null;
+
+  const retryAfterMs = Math.max(0, bucket.resetAt - Date.now());
+  return new Response(
+    JSON.stringify({
+      ok: false,
+      error: "Rate limit exceeded. Retry shortly.",
+      code: "rate_limited",
+      retry_after_ms: retryAfterMs,
+      requestId,
+    }),
+    {
+      status: 429,
+      headers: {
+        ...corsHeaders,
+        "Content-Type": "application/json",
+        "Retry-After": String(Math.ceil(retryAfterMs / 1000)),
       },
-    );
-  }
-  bucket.count += 1;
-  rateBuckets.set(key, bucket);
-  return null;
+    },
+  );
 }
 
 export function idempotencyKeyFromRequest(req: Request): string | null {
@@ -60,17 +72,20 @@ export function idempotencyKeyFromRequest(req: Request): string | null {
   return trimmed.length > 0 ? trimmed : null;
 }
 
-export function getIdempotentResponse(key: string): Response | null {
-  const found = idempotencyResponses.get(key);
+export async function getIdempotentResponse(key: string): Promise<Response | null> {
+  const found = await withStore("idempotency_get", (store) => store.getResponse(key));
   if (!found) return null;
-  if (now() > found.expiresAt) {
-    idempotencyResponses.delete(key);
-    return null;
-  }
-  return found.response.clone();
+  return new Response(found.body, { status: found.status, headers: found.headers });
 }
 
-export function storeIdempotentResponse(key: string, response: Response, ttlMs = 30_000) {
-  idempotencyResponses.set(key, { response: response.clone(), expiresAt: now() + ttlMs });
+export async function storeIdempotentResponse(key: string, response: Response, ttlMs = 30_000) {
+  // Buffer a clone so the caller can still stream the original body to the client.
+  const headers: Array<[string, string]> = [];
+  response.headers.forEach((value, name) => headers.push([name, value]));
+  const cached: CachedResponse = {
+    status: response.status,
+    headers,
+    body: await response.clone().text(),
+  };
+  await withStore("idempotency_put", (store) => store.putResponse(key, cached, ttlMs));
 }
-
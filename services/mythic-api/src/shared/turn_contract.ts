@@ -12,6 +12,7 @@ export const UiActionIntentSchema = z.enum([
   "shop_action",
   "open_panel",
   "companion_action",
+  "camp_action",
   "dm_prompt",
   "refresh",
 ]);
@@ -30,6 +31,7 @@ function normalizeUiIntent(value: unknown): UiActionIntent | null {
     key === "shop_action" ||
     key === "open_panel" ||
     key === "companion_action" ||
+    key === "camp_action" ||
     key === "dm_prompt" ||
     key === "refresh"
   ) {
@@ -71,6 +73,10 @@ function normalizeUiIntent(value: unknown): UiActionIntent | null {
     return "companion_action";
   }
 
+  if (key === "camp" || key === "rest" || key === "make_camp") {
+    return "camp_action";
+  }
+
   if (key === "prompt" || key === "narrate") {
     return "dm_prompt";
   }
@@ -0,0 +1,96 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+
+import {
+  DM_STREAM_PROTOCOL,
+  buildDmTurnEvents,
+  createDmTurnStream,
+  createNarrationExtractor,
+  encodeDmTurnReplay,
+  encodeSseEvent,
+} from "./turn_stream.js";
+
+function parseFrames(body: string): Array<{ event: string; data: any }> {
+  return body
+    .split("\n\n")
+    .filter((frame) => frame.trim().length > 0)
+    .map((frame) => {
+      const lines = frame.split("\n");
+      const event = lines.find((line) => line.startsWith("event: "))!.slice(7);
+      const data = JSON.parse(lines.find((line) => line.startsWith("data: "))!.slice(6));
+      return { event, data };
+    });
+}
+
+const committed = {
+  narration: "Rain hammers the gate while the warden counts your coin twice.",
+  scene: { environment: "gatehouse", mood: "tense" },
+  ui_actions: [
+    { id: "bribe", label: "Bribe The Warden", intent: "dm_prompt", prompt: "I slide another coin across the ledger." },
+    { id: "shop", label: "Visit The Smith", intent: "shop_action", payload: { vendorId: "smith" } },
+  ],
+  runtime_delta: { rumors: ["The warden owes the smith."] },
+  roll_log: [{ i: 0, label: "warden_mood", value01: 0.42 }],
+  meta: { turn_index: 7 },
+};
+
+test("narration is extracted from partial model JSON across awkward chunk boundaries", () => {
+  const raw = JSON.stringify({ scene: { mood: "grim" }, narration: "The \"bell\" tolls\ntwice — é ☃.", ui_actions: [] });
+  for (const size of [1, 3, 7, raw.length]) {
+    const extractor = createNarrationExtractor();
+    let out = "";
+    for (let i = 0; i < raw.length; i += size) out += extractor.push(raw.slice(i, i + size));
+    assert.equal(out, "The \"bell\" tolls\ntwice — é ☃.", `chunk size ${size}`);
+  }
+
+  const escaped = createNarrationExtractor();
+  assert.equal(escaped.push("```json\n{\"narration\": \"Fog\\u00"), "Fog");
+  assert.equal(escaped.push("e9 rolls\", \"narration\": \"ignored\"}"), "é rolls");
+  assert.equal(escaped.push("more"), "");
+});
+
+test("validated turns release world_patch, ui_actions and roll_log before done", () => {
+  const patches = [{ op: "FACT_CREATE" as const, fact_key: "warden_debt", data: { owed_to: "smith" } }];
+  const { events, errors } = buildDmTurnEvents({ payload: committed, patches });
+  assert.deepEqual(errors, []);
+  assert.deepEqual(events.map((event) => event.event), ["world_patch", "ui_actions", "roll_log", "done"]);
+  assert.deepEqual(events[0]!.data, { patches, runtime_delta: { rumors: ["The warden owes the smith."] } });
+  assert.equal((events[1]!.data as { ui_actions: unknown[] }).ui_actions.length, 2);
+  assert.deepEqual(events[3]!.data, { ok: true, protocol: DM_STREAM_PROTOCOL, payload: committed });
+
+  const drifted = buildDmTurnEvents({ payload: { ...committed, narration: "" }, patches: [] });
+  assert.deepEqual(drifted.events.map((event) => event.event), ["done"]);
+  assert.ok(drifted.errors.includes("field:narration"));
+});
+
+test("the replay body reads back as the same typed events", () => {
+  const { events } = buildDmTurnEvents({ payload: committed, patches: [] });
+  const frames = parseFrames(encodeDmTurnReplay(committed.narration, events));
+  assert.deepEqual(frames.map((frame) => frame.event), ["phase", "narration_delta", "world_patch", "ui_actions", "roll_log", "done"]);
+  assert.equal(frames[1]!.data.text, committed.narration);
+  assert.equal(frames[5]!.data.payload.meta.turn_index, 7);
+  assert.equal(encodeSseEvent({ event: "phase", data: { phase: "committing_turn" } }), "event: phase\ndata: {\"phase\":\"committing_turn\"}\n\n");
+});
+
+test("the live stream opens on its first event and ignores anything after done", async () => {
+  const stream = createDmTurnStream();
+  let opened = false;
+  void stream.opened.then(() => {
+    opened = true;
+  });
+  await Promise.resolve();
+  assert.equal(opened, false);
+
+  stream.emit({ event: "phase", data: { phase: "resolving_narration", attempt: 1 } });
+  stream.emit({ event: "narration_delta", data: { text: "Smoke " } });
+  stream.emit({ event: "done", data: { ok: false, protocol: DM_STREAM_PROTOCOL, error: "conflict", code: "turn_conflict", status: 409 } });
+  stream.emit({ event: "narration_delta", data: { text: "late" } });
+  stream.close();
+  await stream.opened;
+  assert.equal(opened, true);
+  assert.equal(stream.finished, true);
+
+  const frames = parseFrames(await new Response(stream.readable).text());
+  assert.deepEqual(frames.map((frame) => frame.event), ["phase", "narration_delta", "done"]);
+  assert.equal(frames[2]!.data.code, "turn_conflict");
+});
@@ -0,0 +1,196 @@
+import {
+  DmNarratorOutputSchema,
+  type BoardDelta,
+  type RollLogEntry,
+  type UiAction,
+  type WorldPatch,
+} from "./turn_contract.js";
+
+export const DM_STREAM_PROTOCOL = "mythic.dm.stream.v1";
+
+export const DM_STREAM_HEADERS: Record<string, string> = {
+  "Content-Type": "text/event-stream",
+  "Cache-Control": "no-cache",
+  "X-Accel-Buffering": "no",
+  "x-mythic-stream": DM_STREAM_PROTOCOL,
+};
+
+/**
+ * `resolving_narration` is re-sent for every model attempt; clients drop narration streamed by the
+ * previous attempt when they see it.
+ */
+export type DmTurnPhase = "resolving_narration" | "validating" | "committing_turn";
+
+export type DmStreamDone =
+  | { ok: true; protocol: typeof DM_STREAM_PROTOCOL; payload: Record<string, unknown> }
+  | { ok: false; protocol: typeof DM_STREAM_PROTOCOL; error: string; code: string; status: number; details?: unknown; requestId?: string };
+
+export type DmStreamEvent =
+  | { event: "phase"; data: { phase: DmTurnPhase; attempt?: number } }
+  | { event: "narration_delta"; data: { text: string } }
+  | { event: "world_patch"; data: { patches: WorldPatch[]; runtime_delta: BoardDelta | null } }
+  | { event: "ui_actions"; data: { ui_actions: UiAction[] } }
+  | { event: "roll_log"; data: { roll_log: RollLogEntry[] } }
+  | { event: "done"; data: DmStreamDone };
+
+export function encodeSseEvent(event: DmStreamEvent): string {
+  return `event: ${event.event}\ndata: ${JSON.stringify(event.data)}\n\n`;
+}
+
+/**
+ * Events released once a turn has validated and committed. They are cut from the committed response
+ * through DmNarratorOutputSchema, so clients only ever see contract-shaped patches, actions and rolls;
+ * `done` still carries the full payload (meta, turn) even if the schema rejects a field.
+ */
+export function buildDmTurnEvents(args: {
+  payload: Record<string, unknown>;
+  patches: WorldPatch[];
+}): { events: DmStreamEvent[]; errors: string[] } {
+  const events: DmStreamEvent[] = [];
+  const errors: string[] = [];
+  const parsed = DmNarratorOutputSchema.safeParse(args.payload);
+  if (parsed.success) {
+    const output = parsed.data;
+    events.push(
+      { event: "world_patch", data: { patches: args.patches, runtime_delta: output.runtime_delta ?? output.board_delta ?? null } },
+      { event: "ui_actions", data: { ui_actions: output.ui_actions ?? [] } },
+      { event: "roll_log", data: { roll_log: output.roll_log ?? [] } },
+    );
+  } else {
+    const flat = parsed.error.flatten();
+    errors.push(...Object.keys(flat.fieldErrors).map((key) => `field:${key}`), ...flat.formErrors.map((msg) => `form:${msg}`));
+  }
+  events.push({ event: "done", data: { ok: true, protocol: DM_STREAM_PROTOCOL, payload: args.payload } });
+  return { events, errors };
+}
+
+/** Body cached for idempotent retries: the committed turn as one narration chunk plus the released events. */
+export function encodeDmTurnReplay(narration: string, events: DmStreamEvent[]): string {
+  return [
+    { event: "phase", data: { phase: "resolving_narration", attempt: 1 } } satisfies DmStreamEvent,
+    { event: "narration_delta", data: { text: narration } } satisfies DmStreamEvent,
+    ...events,
+  ].map(encodeSseEvent).join("");
+}
+
+const NARRATION_KEY_RX = /"narration"\s*:\s*"/;
+
+/**
+ * Pulls the `narration` string out of model JSON while it is still streaming, so players read the
+ * scene before the rest of the object (patches, actions) has arrived or been validated.
+ */
+export function createNarrationExtractor(): { push: (chunk: string) => string } {
+  let state: "seek" | "string" | "done" = "seek";
+  let seekBuffer = "";
+  let carry = "";
+
+  const decode = (input: string): string => {
+    let out = "";
+    let i = 0;
+    while (i < input.length) {
+      const ch = input[i]!;
+      if (ch === "\"") {
+        state = "done";
+        return out;
+      }
+      if (ch !== "\\") {
+        out += ch;
+        i += 1;
+        continue;
+      }
+      const code = input[i + 1];
+      if (code === undefined) break;
+      if (code === "u") {
+        const hex = input.slice(i + 2, i + 6);
+        if (hex.length < 4) break;
+        out += String.fromCharCode(Number.parseInt(hex, 16) || 0xfffd);
+        i += 6;
+        continue;
+      }
+      out += code === "n" ? "\n" : code === "t" ? "\t" : code === "r" ? "\r" : code === "b" ? "\b" : code === "f" ? "\f" : code;
+      i += 2;
+    }
+    // An escape split across chunks waits for the rest of its bytes.
+    carry = input.slice(i);
+    return out;
+  };
+
+  return {
+    push(chunk) {
+      if (state === "done" || !chunk) return "";
+      if (state === "seek") {
+        seekBuffer += chunk;
+        const match = NARRATION_KEY_RX.exec(seekBuffer);
+        if (!match) {
+          // Keep enough tail to match a key split across chunks.
+          if (seekBuffer.length > 64) seekBuffer = seekBuffer.slice(-64);
+          return "";
+        }
+        state = "string";
+        const rest = seekBuffer.slice(match.index + match[0].length);
+        seekBuffer = "";
+        return decode(rest);
+      }
+      const input = carry + chunk;
+      carry = "";
+      return decode(input);
+    },
+  };
+}
+
+export type DmTurnStream = {
+  readonly readable: ReadableStream<Uint8Array>;
+  /** Resolves with the first emitted event; until then the handler can still answer with a plain JSON error. */
+  readonly opened: Promise<void>;
+  readonly started: boolean;
+  readonly finished: boolean;
+  emit: (event: DmStreamEvent) => void;
+  close: () => void;
+};
+
+export function createDmTurnStream(): DmTurnStream {
+  const encoder = new TextEncoder();
+  let controller: ReadableStreamDefaultController<Uint8Array> | null = null;
+  let started = false;
+  let finished = false;
+  let closed = false;
+  let markOpened: () => void = () => undefined;
+  const opened = new Promise<void>((resolve) => {
+    markOpened = resolve;
+  });
+  const readable = new ReadableStream<Uint8Array>({
+    start(next) {
+      controller = next;
+    },
+    cancel() {
+      // The player navigated away; the turn still commits, there is just nobody left to tell.
+      closed = true;
+    },
+  });
+
+  return {
+    readable,
+    opened,
+    get started() {
+      return started;
+    },
+    get finished() {
+      return finished;
+    },
+    emit(event) {
+      if (finished) return;
+      if (event.event === "done") finished = true;
+      if (!started) {
+        started = true;
+        markOpened();
+      }
+      if (closed) return;
+      controller?.enqueue(encoder.encode(encodeSseEvent(event)));
+    },
+    close() {
+      if (closed) return;
+      closed = true;
+      controller?.close();
+    },
+  };
+}
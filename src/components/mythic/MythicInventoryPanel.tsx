@@ -2,7 +2,7 @@ import { useState } from "react";
 import { Button } from "@/components/ui/button";
 import { formatError } from "@/ui/data/async";
 import { callEdgeFunction } from "@/lib/edge";
-import { getGrantedAbilities, splitInventory, sumStatMods, type MythicInventoryRow } from "@/lib/mythicEquipment";
+import { getGrantedAbilities, itemWear, splitInventory, sumStatMods, type MythicInventoryRow } from "@/lib/mythicEquipment";
 
 function itemSummary(row: MythicInventoryRow) {
   const item = row.item;
@@ -11,6 +11,16 @@ function itemSummary(row: MythicInventoryRow) {
   return `${label} · ${item.slot} · ${item.rarity}`;
 }
 
+function WearNote(props: { row: MythicInventoryRow }) {
+  const wear = itemWear(props.row.item);
+  if (!wear || wear.state === "sound") return null;
+  return wear.state === "broken" ? (
+    <div className="text-xs text-destructive">Broken · stat mods inactive until repaired</div>
+  ) : (
+    <div className="text-xs text-amber-500">Worn · durability {wear.current}/{wear.max}</div>
+  );
+}
+
 export function MythicInventoryPanel(props: {
   campaignId: string;
   characterId: string;
@@ -125,6 +135,7 @@ export function MythicInventoryPanel(props: {
               equipment.map((row) => (
                 <div key={row.id} className="rounded-md border border-border bg-background/30 p-2">
                   <div className="text-sm font-medium">{itemSummary(row)}</div>
+                  <WearNote row={row} />
                   <div className="text-xs text-muted-foreground">
                     abilities: {getGrantedAbilities(row.item).join(", ") || "none"}
                   </div>
@@ -148,11 +159,12 @@ export function MythicInventoryPanel(props: {
               backpack.map((row) => (
                 <div key={row.id} className="rounded-md border border-border bg-background/30 p-2">
                   <div className="text-sm font-medium">{itemSummary(row)}</div>
+                  <WearNote row={row} />
                   <div className="text-xs text-muted-foreground">
                     abilities: {getGrantedAbilities(row.item).join(", ") || "none"}
                   </div>
                   <div className="mt-2 flex gap-2">
-                    <Button size="sm" onClick={() => equip(row)} disabled={isWorking}>
+                    <Button size="sm" onClick={() => equip(row)} disabled={isWorking || row.item?.slot === "material" || row.item?.slot === "consumable"}>
                       Equip
                     </Button>
                   </div>
@@ -1,9 +1,10 @@
 /**
  * Quest Log UI component - displays active, available, and completed quests.
+ * Reads the given quests (the server quest store in Mythic) or, without them, the unified engine.
  */
 
 import { useState } from "react";
-import { useUnifiedEngineContext } from "@/contexts/UnifiedEngineContext";
+import { useUnifiedEngineOptional } from "@/contexts/UnifiedEngineContext";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
@@ -16,16 +17,20 @@ import { getProgress, getRemainingTime, getActiveObjectives } from "@/engine/nar
 
 interface QuestLogProps {
   playerId: string;
+  quests?: readonly Quest[];
   onAcceptQuest?: (questId: string) => void;
   onViewQuest?: (quest: Quest) => void;
 }
 
-export function QuestLog({ playerId, onAcceptQuest, onViewQuest }: QuestLogProps) {
-  const { activeQuests, availableQuests, completedQuests, acceptQuest } = useUnifiedEngineContext();
+export function QuestLog({ playerId, quests, onAcceptQuest, onViewQuest }: QuestLogProps) {
+  const engine = useUnifiedEngineOptional();
   const [selectedTab, setSelectedTab] = useState("active");
+  const activeQuests = quests ? quests.filter(quest => quest.state === "active") : engine?.activeQuests ?? [];
+  const availableQuests = quests ? quests.filter(quest => quest.state === "available") : engine?.availableQuests ?? [];
+  const completedQuests = quests ? quests.filter(quest => quest.state === "completed") : engine?.completedQuests ?? [];
 
   const handleAccept = (questId: string) => {
-    acceptQuest(playerId, questId);
+    if (!quests) engine?.acceptQuest(playerId, questId);
     onAcceptQuest?.(questId);
   };
 
@@ -79,7 +84,7 @@ export function QuestLog({ playerId, onAcceptQuest, onViewQuest }: QuestLogProps
                   <QuestCard 
                     key={quest.id} 
                     quest={quest}
-                    showAccept
+                    showAccept={!quests || Boolean(onAcceptQuest)}
                     onAccept={() => handleAccept(quest.id)}
                     onClick={() => onViewQuest?.(quest)}
                   />
@@ -11,6 +11,12 @@ import {
   DEFAULT_RULE_TUNABLES,
   type RuleTunables,
 } from "@/rules";
+import {
+  ENCOUNTER_LETHALITY_LEVELS,
+  previewMythicEncounter,
+  type EncounterLethality,
+  type EncounterPreviewResult,
+} from "@/lib/mythicCampaigns";
 import {
   readLatestMythicDebugSnapshot,
   readMythicDebugHistory,
@@ -306,6 +312,15 @@ export function BalancePanel() {
   const [epicWeight, setEpicWeight] = useState(DEFAULT_RULE_TUNABLES.loot.rarityWeights.epic);
   const [legendaryWeight, setLegendaryWeight] = useState(DEFAULT_RULE_TUNABLES.loot.rarityWeights.legendary);
 
+  const [encounterSeed, setEncounterSeed] = useState(1);
+  const [encounterPartySize, setEncounterPartySize] = useState(1);
+  const [encounterPartyLevel, setEncounterPartyLevel] = useState(5);
+  const [encounterLethality, setEncounterLethality] = useState<EncounterLethality | null>(null);
+  const [encounterRegionId, setEncounterRegionId] = useState("");
+  const [encounterBossRoom, setEncounterBossRoom] = useState(false);
+  const [encounterPreview, setEncounterPreview] = useState<EncounterPreviewResult | null>(null);
+  const [encounterError, setEncounterError] = useState<string | null>(null);
+
   const [latestSnapshot, setLatestSnapshot] = useState<MythicDebugSnapshot | null>(() => readLatestMythicDebugSnapshot());
   const [snapshotHistory, setSnapshotHistory] = useState<MythicDebugSnapshot[]>(() => readMythicDebugHistory());
 
@@ -482,6 +497,37 @@ export function BalancePanel() {
     tunables,
   }), [tunables]);
 
+  // The server composes the group with the same table and rng as mythic-combat-start, so a seed previews its fight.
+  const encounterCampaignId = latestSnapshot?.campaignId ?? null;
+  useEffect(() => {
+    if (!import.meta.env.DEV || !open || !encounterCampaignId) return () => undefined;
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      previewMythicEncounter(encounterCampaignId, {
+        seed: encounterSeed,
+        partySize: encounterPartySize,
+        partyLevel: encounterPartyLevel,
+        lethality: encounterLethality ?? undefined,
+        regionId: encounterRegionId || null,
+        bossRoom: encounterBossRoom,
+      })
+        .then((preview) => {
+          if (cancelled) return;
+          setEncounterPreview(preview);
+          setEncounterError(null);
+        })
+        .catch((error: unknown) => {
+          if (cancelled) return;
+          setEncounterPreview(null);
+          setEncounterError(error instanceof Error ? error.message : "Encounter preview failed");
+        });
+    }, 250);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [encounterBossRoom, encounterCampaignId, encounterLethality, encounterPartyLevel, encounterPartySize, encounterRegionId, encounterSeed, open]);
+
   if (!import.meta.env.DEV) return null;
 
   return (
@@ -646,6 +692,78 @@ export function BalancePanel() {
             </div>
           </div>
 
+          <div style={{ marginTop: 14, paddingTop: 10, borderTop: "1px solid rgba(242, 201, 76, 0.2)" }}>
+            <div style={{ fontWeight: 700, marginBottom: 6 }}>Encounter Preview</div>
+            <div style={{ display: "grid", gap: 8, gridTemplateColumns: "repeat(auto-fit, minmax(140px, 1fr))", marginBottom: 8 }}>
+              <label>
+                Seed
+                <input type="number" value={encounterSeed} onChange={(event) => setEncounterSeed(Math.floor(num(event.target.value, encounterSeed)))} />
+              </label>
+              <label>
+                Party size ({encounterPartySize})
+                <input type="range" min={1} max={4} step={1} value={encounterPartySize} onChange={(event) => setEncounterPartySize(Math.floor(clamp(num(event.target.value, encounterPartySize), 1, 4)))} />
+              </label>
+              <label>
+                Party level ({encounterPartyLevel})
+                <input type="range" min={1} max={60} step={1} value={encounterPartyLevel} onChange={(event) => setEncounterPartyLevel(Math.floor(clamp(num(event.target.value, encounterPartyLevel), 1, 60)))} />
+              </label>
+              <label>
+                Lethality
+                <select value={encounterLethality ?? ""} onChange={(event) => setEncounterLethality(ENCOUNTER_LETHALITY_LEVELS.find((level) => level === event.target.value) ?? null)}>
+                  <option value="">World ({encounterPreview?.worldLethality ?? "medium"})</option>
+                  {ENCOUNTER_LETHALITY_LEVELS.map((level) => (
+                    <option key={level} value={level}>{level}</option>
+                  ))}
+                </select>
+              </label>
+              <label>
+                Region
+                <select value={encounterRegionId} onChange={(event) => setEncounterRegionId(event.target.value)}>
+                  <option value="">World pool</option>
+                  {(encounterPreview?.regions ?? []).map((regionId) => (
+                    <option key={regionId} value={regionId}>{regionId}</option>
+                  ))}
+                </select>
+              </label>
+              <label>
+                <input type="checkbox" checked={encounterBossRoom} onChange={(event) => setEncounterBossRoom(event.target.checked)} /> Boss room
+              </label>
+            </div>
+            <table style={{ width: "100%", borderCollapse: "collapse" }}>
+              <thead>
+                <tr>
+                  <th align="left">Enemy</th>
+                  <th align="left">Role</th>
+                  <th align="left">Rank</th>
+                  <th align="right">Lv</th>
+                  <th align="right">HP x</th>
+                </tr>
+              </thead>
+              <tbody>
+                {(encounterPreview?.slots ?? []).map((row, index) => (
+                  <tr key={`encounter-${index}`}>
+                    <td>{row.name}</td>
+                    <td>{row.role}</td>
+                    <td>{row.rank}</td>
+                    <td align="right">{row.lvl}</td>
+                    <td align="right">{row.hp_mult.toFixed(2)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <div style={{ marginTop: 6, opacity: 0.8 }}>
+              {!encounterCampaignId
+                ? "No campaign captured; open a campaign to preview its encounters."
+                : encounterError
+                  ? `Preview failed: ${encounterError}`
+                  : encounterPreview?.pool === "biome"
+                    ? `Draws from the ${encounterPreview.regionId} creature pool, as combat start does for this seed.`
+                    : encounterPreview?.pool === "global"
+                      ? "Draws from the campaign's world creature pool, as combat start does for this seed."
+                      : "Campaign has no creature pools; draws from the themed bestiary."}
+            </div>
+          </div>
+
           <div style={{ marginTop: 14, paddingTop: 10, borderTop: "1px solid rgba(242, 201, 76, 0.2)" }}>
             <div style={{ fontWeight: 700, marginBottom: 6 }}>Forge Inspector</div>
             {latestSnapshot ? (
@@ -347,6 +347,67 @@ export function processExploreEvent(
   return { quest: updated, events, completed: anyCompleted, failed: false };
 }
 
+// ============= Server Quest Store =============
+
+/** A mythic.quests row as far as the quest model needs it; the server owns progress, the client only renders. */
+export interface StoredQuestRow {
+  id: string;
+  title: string;
+  summary: string | null;
+  description: string | null;
+  giver: string | null;
+  state: QuestState;
+  importance: "side" | "main" | "legendary";
+  objectives: unknown;
+  rewards: Record<string, unknown>;
+  time_limit: number | null;
+  turns_elapsed: number;
+}
+
+const OBJECTIVE_TYPES: readonly ObjectiveType[] = [
+  "kill", "kill_type", "collect", "deliver", "escort", "explore", "talk", "protect", "survive", "craft", "reach_level", "use_item",
+];
+
+export function questFromStoredRow(row: StoredQuestRow): Quest {
+  const objectives = (Array.isArray(row.objectives) ? row.objectives : []).flatMap((entry): QuestObjective[] => {
+    if (!entry || typeof entry !== "object") return [];
+    const obj = entry as Record<string, unknown>;
+    const type = OBJECTIVE_TYPES.find(candidate => candidate === obj.type);
+    if (typeof obj.id !== "string" || !type) return [];
+    const required = Math.max(1, Math.floor(Number(obj.required) || 1));
+    return [{
+      id: obj.id,
+      type,
+      description: typeof obj.description === "string" ? obj.description : obj.id,
+      targetId: typeof obj.targetId === "string" ? obj.targetId : undefined,
+      targetType: typeof obj.targetType === "string" ? obj.targetType : undefined,
+      current: Math.min(required, Math.max(0, Math.floor(Number(obj.current) || 0))),
+      required,
+      optional: obj.optional === true,
+      hidden: obj.hidden === true,
+    }];
+  });
+  return {
+    id: row.id,
+    title: row.title,
+    description: row.description ?? row.summary ?? row.title,
+    briefDescription: row.summary ?? row.title,
+    giverId: row.giver ?? "",
+    state: row.state,
+    objectives,
+    rewards: {
+      xp: Math.max(0, Math.floor(Number(row.rewards.xp) || 0)),
+      gold: Math.max(0, Math.floor(Number(row.rewards.coins) || 0)),
+      items: Array.isArray(row.rewards.items) ? row.rewards.items.filter((item): item is string => typeof item === "string") : [],
+    },
+    timeLimit: row.time_limit ?? undefined,
+    turnsElapsed: row.turns_elapsed,
+    prerequisites: [],
+    conflictsWith: [],
+    importance: row.importance,
+  };
+}
+
 // ============= Quest Generation Templates =============
 
 export function createKillQuest(
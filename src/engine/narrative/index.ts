@@ -160,7 +160,9 @@ export {
   createKillQuest,
   createFetchQuest,
   createEscortQuest,
+  questFromStoredRow,
   type QuestUpdateResult,
+  type StoredQuestRow,
 } from "./Quest";
 
 // ============= Progression Module =============
@@ -0,0 +1,106 @@
+import { useEffect, useRef, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { createLogger } from "@/lib/observability/logger";
+
+const logger = createLogger("mythic-campaign-channel");
+
+export const CAMPAIGN_CHANNEL_PROTOCOL = "mythic.campaign.v1";
+
+export type MythicCampaignEventType = "combat.action" | "combat.ended" | "board.transition" | "dm.turn" | "party.queue";
+
+export interface MythicCampaignEvent {
+  protocol: typeof CAMPAIGN_CHANNEL_PROTOCOL;
+  type: MythicCampaignEventType;
+  campaign_id: string;
+  actor_user_id: string | null;
+  at: string;
+  payload: Record<string, unknown>;
+}
+
+export interface MythicPartyMember {
+  userId: string;
+  name: string;
+  onlineAt: string;
+}
+
+export type MythicCampaignChannelStatus = "idle" | "connecting" | "live" | "offline";
+
+const EVENT_TYPES = new Set<MythicCampaignEventType>(["combat.action", "combat.ended", "board.transition", "dm.turn", "party.queue"]);
+
+function parseCampaignEvent(raw: unknown, campaignId: string): MythicCampaignEvent | null {
+  if (!raw || typeof raw !== "object") return null;
+  const event = raw as Partial<MythicCampaignEvent>;
+  if (event.protocol !== CAMPAIGN_CHANNEL_PROTOCOL || event.campaign_id !== campaignId) return null;
+  if (!event.type || !EVENT_TYPES.has(event.type)) return null;
+  return {
+    protocol: CAMPAIGN_CHANNEL_PROTOCOL,
+    type: event.type,
+    campaign_id: campaignId,
+    actor_user_id: typeof event.actor_user_id === "string" ? event.actor_user_id : null,
+    at: typeof event.at === "string" ? event.at : new Date().toISOString(),
+    payload: event.payload && typeof event.payload === "object" ? event.payload : {},
+  };
+}
+
+/**
+ * Joins the campaign's realtime topic: server-pushed broadcasts (see services/mythic-api campaign_channel)
+ * plus presence for who is at the table. Polling callers should back off while `status` is "live".
+ */
+export function useMythicCampaignChannel(
+  campaignId: string | undefined,
+  options: { userId: string | null | undefined; displayName?: string | null; onEvent: (event: MythicCampaignEvent) => void },
+) {
+  const [status, setStatus] = useState<MythicCampaignChannelStatus>("idle");
+  const [members, setMembers] = useState<MythicPartyMember[]>([]);
+  const onEventRef = useRef(options.onEvent);
+  onEventRef.current = options.onEvent;
+  const { userId, displayName } = options;
+
+  useEffect(() => {
+    if (!campaignId || !userId) {
+      setStatus("idle");
+      setMembers([]);
+      return;
+    }
+    setStatus("connecting");
+    const channel = supabase.channel(`mythic:campaign:${campaignId}`, {
+      config: { private: true, presence: { key: userId } },
+    });
+
+    channel
+      .on("broadcast", { event: "*" }, ({ payload }) => {
+        const event = parseCampaignEvent(payload, campaignId);
+        if (event) onEventRef.current(event);
+      })
+      .on("presence", { event: "sync" }, () => {
+        const state = channel.presenceState<{ name?: string; online_at?: string }>();
+        setMembers(
+          Object.entries(state)
+            .map(([key, metas]) => ({
+              userId: key,
+              name: metas[0]?.name?.trim() || "Adventurer",
+              onlineAt: metas[0]?.online_at ?? "",
+            }))
+            .sort((a, b) => a.onlineAt.localeCompare(b.onlineAt) || a.userId.localeCompare(b.userId)),
+        );
+      })
+      .subscribe((next, error) => {
+        if (next === "SUBSCRIBED") {
+          setStatus("live");
+          void channel.track({ name: displayName ?? null, online_at: new Date().toISOString() });
+          return;
+        }
+        if (next === "CHANNEL_ERROR" || next === "TIMED_OUT" || next === "CLOSED") {
+          setStatus("offline");
+          if (error) logger.warn("campaign_channel.subscribe_failed", { campaign_id: campaignId, error: error.message });
+        }
+      });
+
+    return () => {
+      setMembers([]);
+      void supabase.removeChannel(channel);
+    };
+  }, [campaignId, displayName, userId]);
+
+  return { status, isLive: status === "live", members };
+}
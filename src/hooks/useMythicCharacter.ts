@@ -4,6 +4,7 @@ import { formatError } from "@/ui/data/async";
 import type {
   MythicCharacterBundle,
   MythicQuestThreadRow,
+  MythicQuestRow,
   MythicCharacterRow,
   MythicProgressionEventRow,
   MythicSkill,
@@ -136,6 +137,7 @@ export function useMythicCharacter(campaignId: string | undefined) {
         { data: lootDrops, error: lootError },
         { data: reputationEvents, error: reputationError },
         { data: factions, error: factionsError },
+        { data: quests, error: questsError },
       ] =
         await Promise.all([
           supabase
@@ -179,6 +181,12 @@ export function useMythicCharacter(campaignId: string | undefined) {
             .from("factions")
             .select("id,name")
             .eq("campaign_id", campaignId),
+          mythic
+            .from("quests")
+            .select("id,source,source_ref,title,summary,description,giver,state,importance,objectives,rewards,time_limit,turns_elapsed,accepted_at,completed_at,turned_in_at")
+            .eq("campaign_id", campaignId)
+            .order("accepted_at", { ascending: false })
+            .limit(60),
         ]);
 
       if (progressionError) throw progressionError;
@@ -187,6 +195,7 @@ export function useMythicCharacter(campaignId: string | undefined) {
       if (lootError) throw lootError;
       if (reputationError) throw reputationError;
       if (factionsError) throw factionsError;
+      if (questsError) throw questsError;
 
       const factionNameById = new Map<string, string>(
         (factions ?? [])
@@ -324,6 +333,7 @@ export function useMythicCharacter(campaignId: string | undefined) {
           items: ((inv ?? []).map((row) => row)) as unknown as Array<Record<string, unknown>>,
           progressionEvents: (progressionEvents ?? []) as unknown as MythicProgressionEventRow[],
           questThreads: sortedThreads,
+          quests: (quests ?? []) as MythicQuestRow[],
         });
       }
     } catch (e) {
@@ -419,6 +429,7 @@ export function useMythicCharacter(campaignId: string | undefined) {
     items: bundle?.items ?? [],
     progressionEvents: bundle?.progressionEvents ?? [],
     questThreads: bundle?.questThreads ?? [],
+    quests: bundle?.quests ?? [],
     isInitialLoading,
     isRefreshing,
     isLoading: isInitialLoading,
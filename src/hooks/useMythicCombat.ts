@@ -93,7 +93,7 @@ export function useMythicCombat() {
       supabase
         .schema("mythic")
         .from("combat_sessions")
-        .select("id,campaign_id,seed,status,current_turn_index,scene_json,updated_at")
+        .select("id,campaign_id,seed,status,current_turn_index,turn_deadline_at,scene_json,updated_at")
         .eq("id", combatSessionId)
         .eq("campaign_id", campaignId)
         .maybeSingle(),
@@ -175,6 +175,8 @@ export function useMythicCombat() {
     combatSessionId: string;
     actorCombatantId: string;
     skillId: string;
+    /** Backpack row of the consumable when skillId is "use_item". */
+    inventoryId?: string;
     currentTurnIndex?: number;
     target:
       | { kind: "self" }
@@ -206,7 +208,7 @@ export function useMythicCombat() {
             {
               requireAuth: true,
               signal,
-              idempotencyKey: `${args.combatSessionId}:use:t${turnKey}:actor${args.actorCombatantId}:skill${args.skillId}:target${targetSig}`,
+              idempotencyKey: `${args.combatSessionId}:use:t${turnKey}:actor${args.actorCombatantId}:skill${args.skillId}${args.inventoryId ? `:inv${args.inventoryId}` : ""}:target${targetSig}`,
               body: args,
             },
           );
@@ -228,9 +230,11 @@ export function useMythicCombat() {
       };
     } catch (e) {
       const parsed = parseEdgeError(e, "Failed to use skill");
-      const msg = parsed.message.toLowerCase().includes("not your turn")
+      const msg = parsed.code === "not_your_turn" || parsed.message.toLowerCase().includes("not your turn")
         ? "Not your turn. Wait for the current turn to finish."
-        : parsed.message;
+        : parsed.code === "turn_owned_by_other_player"
+          ? "That combatant belongs to another player."
+          : parsed.message;
       logger.error("combat.use_skill.failed", e);
       toast.error(msg);
       return { ok: false as const, error: msg };
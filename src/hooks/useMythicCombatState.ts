@@ -9,6 +9,8 @@ export interface MythicCombatSessionRow {
   seed: number;
   status: string;
   current_turn_index: number;
+  /** Server turn clock; when it passes, the sweeper takes the turn with the campaign's AFK action. */
+  turn_deadline_at: string | null;
   scene_json: Record<string, unknown>;
   updated_at: string;
 }
@@ -67,7 +69,14 @@ export interface MythicCombatStateSnapshot {
   activeTurnCombatantId: string | null;
 }
 
-export function useMythicCombatState(campaignId: string | undefined, combatSessionId: string | null | undefined) {
+// With the campaign channel live, pushes drive refreshes and polling only backstops missed broadcasts.
+const LIVE_BACKSTOP_POLL_MS = 15_000;
+
+export function useMythicCombatState(
+  campaignId: string | undefined,
+  combatSessionId: string | null | undefined,
+  options: { live?: boolean } = {},
+) {
   const [session, setSession] = useState<MythicCombatSessionRow | null>(null);
   const [combatants, setCombatants] = useState<MythicCombatantRow[]>([]);
   const [turnOrder, setTurnOrder] = useState<MythicTurnOrderRow[]>([]);
@@ -117,7 +126,7 @@ export function useMythicCombatState(campaignId: string | undefined, combatSessi
           supabase
             .schema("mythic")
             .from("combat_sessions")
-            .select("id,campaign_id,seed,status,current_turn_index,scene_json,updated_at")
+            .select("id,campaign_id,seed,status,current_turn_index,turn_deadline_at,scene_json,updated_at")
             .eq("id", combatSessionId)
             .eq("campaign_id", campaignId)
             .maybeSingle(),
@@ -200,7 +209,7 @@ export function useMythicCombatState(campaignId: string | undefined, combatSessi
 
   useEffect(() => {
     if (!campaignId || !combatSessionId) return;
-    const pollMs = session?.status === "active" ? 2500 : 4500;
+    const pollMs = options.live ? LIVE_BACKSTOP_POLL_MS : session?.status === "active" ? 2500 : 4500;
     const interval = setInterval(() => {
       if (typeof document !== "undefined" && document.visibilityState === "hidden") {
         return;
@@ -208,7 +217,7 @@ export function useMythicCombatState(campaignId: string | undefined, combatSessi
       void fetchState();
     }, pollMs);
     return () => clearInterval(interval);
-  }, [campaignId, combatSessionId, fetchState, session?.status]);
+  }, [campaignId, combatSessionId, fetchState, options.live, session?.status]);
 
   return {
     ruleVersion: RULE_VERSION,
@@ -18,6 +18,7 @@ export type MythicUiIntent =
   | "combat_action"
   | "shop_action"
   | "companion_action"
+  | "camp_action"
   | "shop"
   | "focus_target"
   | "open_panel"
@@ -42,6 +43,8 @@ export interface MythicDmParsedPayload {
   ui_actions?: MythicUiAction[];
   scene?: Record<string, unknown>;
   effects?: Record<string, unknown>;
+  runtime_delta?: Record<string, unknown>;
+  patches?: Array<Record<string, unknown>>;
   meta?: MythicDmResponseMeta;
 }
 
@@ -61,6 +64,8 @@ interface SendOptions {
   suppressErrorToast?: boolean;
   abortPrevious?: boolean;
   narratorModeOverride?: DmNarratorMode | null;
+  /** Resolves this accepted party-queue action; the server claims it before narrating. */
+  partyActionId?: string;
 }
 
 export type MythicDmErrorKind =
@@ -90,7 +95,7 @@ export interface MythicDmLastResponseMeta {
   latencyMs: number | null;
 }
 
-export type MythicDmPhase = "assembling_context" | "resolving_narration" | "committing_turn";
+export type MythicDmPhase = "assembling_context" | "resolving_narration" | "validating" | "committing_turn";
 export type DmNarratorMode = "ai" | "procedural" | "hybrid";
 export type DmNarratorSource = "ai" | "procedural";
 
@@ -189,6 +194,7 @@ function defaultLabelForIntent(intent: MythicUiIntent): string {
   if (intent === "combat_action") return "Combat Action";
   if (intent === "shop_action") return "Open Shop";
   if (intent === "companion_action") return "Companion Follow-Up";
+  if (intent === "camp_action") return "Make Camp";
   if (intent === "open_panel") return "Open Panel";
   if (intent === "dm_prompt") return "Press The Lead";
   if (intent === "focus_target") return "Focus Target";
@@ -283,6 +289,7 @@ function normalizeIntent(raw: string): MythicUiIntent | null {
   if (key === "open_panel" || key === "panel" || key === "open_menu") return "open_panel";
   if (key === "loadout_action" || key === "gear" || key === "loadout") return "open_panel";
   if (key === "companion_action" || key === "companion") return "companion_action";
+  if (key === "camp_action" || key === "camp" || key === "rest" || key === "make_camp") return "camp_action";
   if (key === "dm_prompt" || key === "prompt" || key === "narrate") return "dm_prompt";
   if (key === "refresh") return "refresh";
   // One-release ingress normalization for legacy board intents.
@@ -426,6 +433,10 @@ function parseAssistantPayload(text: string): MythicDmParsedPayload {
           : [];
         const scene = asRecord(raw.scene) ?? undefined;
         const effects = asRecord(raw.effects) ?? undefined;
+        const runtimeDelta = asRecord(raw.runtime_delta) ?? asRecord(raw.board_delta) ?? undefined;
+        const patches = Array.isArray(raw.patches)
+          ? raw.patches.map((entry) => asRecord(entry)).filter((entry): entry is Record<string, unknown> => Boolean(entry))
+          : undefined;
         const meta = asRecord(raw.meta) as MythicDmResponseMeta | undefined;
         const sanitizedActions = actions.length > 0
           ? dedupeUiActions(actions.filter((entry) => !isLowSignalAction(entry)))
@@ -438,6 +449,8 @@ function parseAssistantPayload(text: string): MythicDmParsedPayload {
           ui_actions: uiActions,
           scene,
           effects,
+          runtime_delta: runtimeDelta,
+          patches,
           meta,
         };
       }
@@ -464,6 +477,15 @@ function parseAssistantPayload(text: string): MythicDmParsedPayload {
   };
 }
 
+function isDmPhase(value: unknown): value is MythicDmPhase {
+  return value === "assembling_context" || value === "resolving_narration" || value === "validating" || value === "committing_turn";
+}
+
+function formatDmError(message: string, code: string | null, requestId: string | null): string {
+  const withCode = code ? `${message} [${code}]` : message;
+  return requestId ? `${withCode} (requestId: ${requestId})` : withCode;
+}
+
 function classifyDmError(message: string, code: string | null): MythicDmErrorKind {
   const normalized = message.toLowerCase();
   if (code === "turn_conflict") return "turn_conflict";
@@ -529,34 +551,11 @@ export function useMythicDungeonMaster(campaignId: string | undefined) {
       }
       const controller = new AbortController();
       abortRef.current = controller;
-      const phaseTimers: number[] = [];
-      const clearPhaseTimers = () => {
-        while (phaseTimers.length > 0) {
-          const timer = phaseTimers.pop();
-          if (typeof timer === "number" && typeof window !== "undefined") {
-            window.clearTimeout(timer);
-          }
-        }
-      };
-      const schedulePhase = (nextPhase: MythicDmPhase, delayMs: number) => {
-        if (typeof window === "undefined") return;
-        const timer = window.setTimeout(() => {
-          if (requestSeq !== activeSeqRef.current) return;
-          if (controller.signal.aborted) return;
-          setPhase((prev) => {
-            if (prev === "committing_turn") return prev;
-            return nextPhase;
-          });
-        }, delayMs);
-        phaseTimers.push(timer);
-      };
       setIsLoading(true);
       setCurrentResponse("");
       setOperation(null);
       setLastError(null);
       setPhase("assembling_context");
-      schedulePhase("resolving_narration", 1_200);
-      schedulePhase("committing_turn", 5_800);
 
       let assistantContent = "";
       try {
@@ -583,6 +582,7 @@ export function useMythicDungeonMaster(campaignId: string | undefined) {
                   .slice(-MAX_HISTORY_MESSAGES)
                   .map((m) => ({ role: m.role, content: trimMessage(m.content) })),
                 actionContext: actionContextPayload,
+                ...(options?.partyActionId ? { partyActionId: options.partyActionId } : {}),
               },
             }),
         });
@@ -596,19 +596,81 @@ export function useMythicDungeonMaster(campaignId: string | undefined) {
           const code = typeof errorData.code === "string" ? errorData.code : null;
           const requestId = response.headers.get("x-request-id")
             ?? (typeof errorData.requestId === "string" ? errorData.requestId : null);
-          const withCode = code ? `${baseMessage} [${code}]` : baseMessage;
-          throw new Error(requestId ? `${withCode} (requestId: ${requestId})` : withCode);
+          throw new Error(formatDmError(baseMessage, code, requestId));
         }
 
         if (!response.body) throw new Error("No response body");
         const requestId = response.headers.get("x-request-id");
-        if (requestSeq === activeSeqRef.current) {
-          setPhase("resolving_narration");
-        }
-
         const reader = response.body.getReader();
         const decoder = new TextDecoder();
         let textBuffer = "";
+        let narrationText = "";
+        let typedStream = false;
+        // Patches and actions arrive before `done` but only count once the server reports the turn committed.
+        const released: {
+          committed: Record<string, unknown> | null;
+          worldPatch: Record<string, unknown> | null;
+          uiActions: unknown[] | null;
+        } = { committed: null, worldPatch: null, uiActions: null };
+        let frameEvent: string | null = null;
+        let frameData: string[] = [];
+
+        const dispatchFrame = () => {
+          const eventName = frameEvent;
+          const dataText = frameData.join("\n");
+          frameEvent = null;
+          frameData = [];
+          if (!dataText || dataText === "[DONE]") return;
+          let data: Record<string, unknown> | null = null;
+          try {
+            data = asRecord(JSON.parse(dataText));
+          } catch {
+            return;
+          }
+          if (!data) return;
+          const isActive = requestSeq === activeSeqRef.current;
+
+          if (!eventName) {
+            // Legacy servers re-stream the whole payload as OpenAI-style deltas.
+            const delta = (data as { choices?: Array<{ delta?: { content?: unknown } }> }).choices?.[0]?.delta?.content;
+            if (typeof delta === "string" && delta) {
+              assistantContent += delta;
+              if (isActive) setCurrentResponse(assistantContent);
+            }
+            return;
+          }
+
+          typedStream = true;
+          if (eventName === "phase") {
+            if (data.phase === "resolving_narration") {
+              // Each model attempt streams from scratch.
+              narrationText = "";
+              if (isActive) setCurrentResponse("");
+            }
+            if (isActive && isDmPhase(data.phase)) setPhase(data.phase);
+          } else if (eventName === "narration_delta") {
+            if (typeof data.text === "string" && data.text) {
+              narrationText += data.text;
+              if (isActive) setCurrentResponse(narrationText);
+            }
+          } else if (eventName === "world_patch") {
+            released.worldPatch = data;
+          } else if (eventName === "ui_actions") {
+            released.uiActions = Array.isArray(data.ui_actions) ? data.ui_actions : null;
+          } else if (eventName === "done") {
+            if (data.ok === true) {
+              released.committed = asRecord(data.payload);
+              return;
+            }
+            const code = typeof data.code === "string" ? data.code : null;
+            const streamRequestId = typeof data.requestId === "string" ? data.requestId : requestId;
+            throw new Error(formatDmError(
+              typeof data.error === "string" && data.error ? data.error : "Mythic DM turn failed",
+              code,
+              streamRequestId,
+            ));
+          }
+        };
 
         while (true) {
           const { done, value } = await reader.read();
@@ -625,28 +687,32 @@ export function useMythicDungeonMaster(campaignId: string | undefined) {
             textBuffer = textBuffer.slice(newlineIndex + 1);
 
             if (line.endsWith("\r")) line = line.slice(0, -1);
+            if (line === "") {
+              dispatchFrame();
+              continue;
+            }
             if (line.startsWith(":")) continue;
-            if (!line.startsWith("data: ")) continue;
-
-            const jsonStr = line.slice(6).trim();
-            if (jsonStr === "[DONE]") break;
-
-            try {
-              const parsed = JSON.parse(jsonStr);
-              const delta = parsed.choices?.[0]?.delta?.content;
-              if (delta) {
-                assistantContent += delta;
-                if (requestSeq === activeSeqRef.current) {
-                  setCurrentResponse(assistantContent);
-                }
-              }
-            } catch {
-              // Incomplete chunk; put back.
-              textBuffer = line + "\n" + textBuffer;
-              break;
+            if (line.startsWith("event:")) {
+              frameEvent = line.slice(6).trim();
+            } else if (line.startsWith("data:")) {
+              frameData.push(line.slice(5).trim());
             }
           }
         }
+        dispatchFrame();
+
+        if (typedStream) {
+          const { committed, worldPatch, uiActions } = released;
+          if (!committed) {
+            throw new Error(formatDmError("DM stream ended before the turn committed", "dm_stream_incomplete", requestId));
+          }
+          assistantContent = JSON.stringify({
+            ...committed,
+            ui_actions: uiActions ?? committed.ui_actions,
+            runtime_delta: worldPatch?.runtime_delta ?? committed.runtime_delta,
+            patches: worldPatch?.patches ?? committed.patches,
+          });
+        }
 
         const parsedResponse = parseAssistantPayload(assistantContent);
         const assistantMessage: MythicDMMessage = {
@@ -658,7 +724,6 @@ export function useMythicDungeonMaster(campaignId: string | undefined) {
         };
 
         if (requestSeq === activeSeqRef.current) {
-          setPhase("committing_turn");
           setMessages((prev) => [...prev, assistantMessage]);
           setCurrentResponse("");
           setLastResponseMeta({
@@ -718,7 +783,6 @@ export function useMythicDungeonMaster(campaignId: string | undefined) {
         }
         throw error;
       } finally {
-        clearPhaseTimers();
         if (abortRef.current === controller) {
           abortRef.current = null;
         }
@@ -744,6 +808,32 @@ export function useMythicDungeonMaster(campaignId: string | undefined) {
     abortRef.current?.abort();
   }, []);
 
+  // Turns committed by another party member arrive over the campaign channel instead of our own stream.
+  const receiveRemoteTurn = useCallback((turn: {
+    turnId: string | null;
+    playerMessage: string | null;
+    narration: string;
+    scene?: Record<string, unknown> | null;
+  }) => {
+    const assistantId = `remote-turn-${turn.turnId ?? crypto.randomUUID()}`;
+    const assistantContent = JSON.stringify({ narration: turn.narration, scene: turn.scene ?? undefined });
+    setMessages((prev) => {
+      if (prev.some((entry) => entry.id === assistantId)) return prev;
+      const next = [...prev];
+      if (turn.playerMessage) {
+        next.push({ id: `${assistantId}-prompt`, role: "user", content: turn.playerMessage, timestamp: new Date() });
+      }
+      next.push({
+        id: assistantId,
+        role: "assistant",
+        content: assistantContent,
+        timestamp: new Date(),
+        parsed: parseAssistantPayload(assistantContent) || undefined,
+      });
+      return next;
+    });
+  }, []);
+
   return {
     messages,
     isLoading,
@@ -757,5 +847,6 @@ export function useMythicDungeonMaster(campaignId: string | undefined) {
     sendMessage,
     clearMessages,
     cancelMessage,
+    receiveRemoteTurn,
   };
 }
@@ -0,0 +1,65 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { syncMythicCampaignRules, type CampaignHouseRulesResult } from "@/lib/mythicCampaigns";
+import { tunablesForHouseRules, type HouseRules } from "@/rules";
+import { formatError } from "@/ui/data/async";
+
+export function useMythicHouseRules(campaignId: string | undefined) {
+  const [result, setResult] = useState<CampaignHouseRulesResult | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const campaignRef = useRef<string | undefined>(campaignId);
+
+  const load = useCallback(async () => {
+    if (!campaignId) {
+      setResult(null);
+      return;
+    }
+    setIsLoading(true);
+    setError(null);
+    try {
+      const next = await syncMythicCampaignRules(campaignId);
+      if (campaignRef.current === campaignId) setResult(next);
+    } catch (err) {
+      if (campaignRef.current === campaignId) setError(formatError(err, "Failed to load house rules"));
+    } finally {
+      if (campaignRef.current === campaignId) setIsLoading(false);
+    }
+  }, [campaignId]);
+
+  const save = useCallback(async (houseRules: HouseRules) => {
+    if (!campaignId) return false;
+    setIsSaving(true);
+    setError(null);
+    try {
+      const next = await syncMythicCampaignRules(campaignId, houseRules);
+      if (campaignRef.current === campaignId) setResult(next);
+      return true;
+    } catch (err) {
+      if (campaignRef.current === campaignId) setError(formatError(err, "Failed to save house rules"));
+      return false;
+    } finally {
+      if (campaignRef.current === campaignId) setIsSaving(false);
+    }
+  }, [campaignId]);
+
+  useEffect(() => {
+    campaignRef.current = campaignId;
+    setResult(null);
+    void load();
+  }, [campaignId, load]);
+
+  const tunables = useMemo(() => tunablesForHouseRules(result?.houseRules), [result]);
+
+  return {
+    houseRules: result?.houseRules ?? null,
+    ruleVersion: result?.ruleVersion ?? null,
+    canEdit: result?.canEdit ?? false,
+    tunables,
+    isLoading,
+    isSaving,
+    error,
+    reload: load,
+    save,
+  };
+}
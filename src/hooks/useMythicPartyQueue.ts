@@ -0,0 +1,99 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { toast } from "sonner";
+import { callEdgeFunction } from "@/lib/edge";
+import { parseEdgeError } from "@/lib/edgeError";
+import { formatError } from "@/ui/data/async";
+import type { MythicPartyAction, MythicPartyQueueResponse } from "@/types/mythic";
+
+type PartyQueueOp =
+  | { op: "list" }
+  | { op: "propose"; kind: MythicPartyAction["kind"]; prompt: string; action?: Record<string, unknown> | null }
+  | { op: "vote"; actionId: string; vote: "yes" | "no" }
+  | { op: "decide"; actionId: string; decision: "accept" | "reject" }
+  | { op: "withdraw"; actionId: string };
+
+export function useMythicPartyQueue(campaignId: string | undefined) {
+  const [result, setResult] = useState<MythicPartyQueueResponse | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [busyActionId, setBusyActionId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const campaignRef = useRef<string | undefined>(campaignId);
+
+  const run = useCallback(async (request: PartyQueueOp): Promise<MythicPartyQueueResponse | null> => {
+    if (!campaignId) return null;
+    const { data, error: edgeError } = await callEdgeFunction<MythicPartyQueueResponse>("mythic-party-queue", {
+      requireAuth: true,
+      timeoutMs: 15_000,
+      maxRetries: request.op === "list" ? 1 : 0,
+      body: { campaignId, ...request },
+    });
+    if (edgeError) throw edgeError;
+    if (!data?.ok) throw new Error("Party queue request returned an invalid payload.");
+    if (campaignRef.current === campaignId) setResult(data);
+    return data;
+  }, [campaignId]);
+
+  const refetch = useCallback(async () => {
+    if (!campaignId) {
+      setResult(null);
+      return;
+    }
+    setIsLoading(true);
+    setError(null);
+    try {
+      await run({ op: "list" });
+    } catch (err) {
+      if (campaignRef.current === campaignId) setError(formatError(err, "Failed to load party queue"));
+    } finally {
+      if (campaignRef.current === campaignId) setIsLoading(false);
+    }
+  }, [campaignId, run]);
+
+  const mutate = useCallback(async (request: Exclude<PartyQueueOp, { op: "list" }>) => {
+    setBusyActionId("actionId" in request ? request.actionId : "new");
+    setError(null);
+    try {
+      return await run(request);
+    } catch (err) {
+      const message = parseEdgeError(err, "Party queue update failed").message;
+      if (campaignRef.current === campaignId) setError(message);
+      toast.error(message);
+      return null;
+    } finally {
+      if (campaignRef.current === campaignId) setBusyActionId(null);
+    }
+  }, [campaignId, run]);
+
+  const propose = useCallback(
+    (kind: MythicPartyAction["kind"], prompt: string, action?: Record<string, unknown> | null) =>
+      mutate({ op: "propose", kind, prompt, action: action ?? null }),
+    [mutate],
+  );
+  const vote = useCallback((actionId: string, choice: "yes" | "no") => mutate({ op: "vote", actionId, vote: choice }), [mutate]);
+  const decide = useCallback(
+    (actionId: string, decision: "accept" | "reject") => mutate({ op: "decide", actionId, decision }),
+    [mutate],
+  );
+  const withdraw = useCallback((actionId: string) => mutate({ op: "withdraw", actionId }), [mutate]);
+
+  useEffect(() => {
+    campaignRef.current = campaignId;
+    setResult(null);
+    void refetch();
+  }, [campaignId, refetch]);
+
+  return {
+    queue: result?.queue ?? [],
+    partySize: result?.party_size ?? 1,
+    canDecide: result?.can_decide ?? false,
+    nextActionId: result?.next_action_id ?? null,
+    isLoading,
+    busyActionId,
+    error,
+    refetch,
+    propose,
+    vote,
+    decide,
+    withdraw,
+  };
+}
@@ -423,6 +423,8 @@ export type Database = {
           scene_json: Json
           seed: number
           status: string
+          turn_deadline_at: string | null
+          turn_started_at: string | null
           updated_at: string
         }
         Insert: {
@@ -434,6 +436,8 @@ export type Database = {
           scene_json?: Json
           seed?: number
           status?: string
+          turn_deadline_at?: string | null
+          turn_started_at?: string | null
           updated_at?: string
         }
         Update: {
@@ -445,6 +449,8 @@ export type Database = {
           scene_json?: Json
           seed?: number
           status?: string
+          turn_deadline_at?: string | null
+          turn_started_at?: string | null
           updated_at?: string
         }
         Relationships: []
@@ -288,6 +288,74 @@ export async function executePlayerCommand(args: ExecutorArgs): Promise<PlayerCo
     return result;
   }
 
+  if (command.intent === "camp") {
+    const combatLocked = Boolean(args.combatSessionId) && !args.combatResolutionPending;
+    const campBoard = args.boardType === "travel" || args.boardType === "dungeon" ? args.boardType : null;
+    if (combatLocked || !campBoard) {
+      return {
+        handled: true,
+        error: combatLocked
+          ? "Combat is active. Finish the encounter before making camp."
+          : "You can only make camp on travel and dungeon boards.",
+        stateChanges: result.stateChanges,
+        narrationContext: {
+          ...narrativeBase(args),
+          state_changes: result.stateChanges,
+          camp_blocked: true,
+          suppress_narration_on_error: true,
+        },
+      };
+    }
+    const guard = command.campGuard ?? "watch";
+    const transition = await args.transitionBoard(campBoard, "command:camp", {
+      camp: { guard },
+      reason_code: "camp",
+      from_chat: true,
+    });
+    if (!transition.ok) {
+      return {
+        handled: true,
+        error: "Failed to make camp.",
+        stateChanges: result.stateChanges,
+        narrationContext: {
+          ...narrativeBase(args),
+          state_changes: result.stateChanges,
+          guard,
+          transition_failed: true,
+          suppress_narration_on_error: true,
+        },
+      };
+    }
+    const camp = transition.data && typeof transition.data.camp === "object" && transition.data.camp
+      ? transition.data.camp as Record<string, unknown>
+      : {};
+    const ambushed = camp.ambushed === true;
+    result.stateChanges.push(`Made camp with guard posture ${guard} (${String(camp.quality ?? "uneasy")} rest).`);
+    if (ambushed) {
+      result.stateChanges.push("The camp was ambushed.");
+      const started = await args.startCombat(args.campaignId);
+      if (started.ok === false) {
+        result.combatStartError = {
+          message: started.message || "Combat session failed to start.",
+          code: started.code ?? null,
+          requestId: started.requestId ?? null,
+        };
+      } else {
+        result.stateChanges.push("Combat auto-started from encounter trigger.");
+      }
+    }
+    await Promise.all([args.refetchBoard(), args.refetchCombat(), args.refetchCharacter()]);
+    result.handled = true;
+    result.narrationContext = {
+      ...narrativeBase(args),
+      state_changes: result.stateChanges,
+      guard,
+      camp,
+      combat_autostart_triggered: ambushed,
+    };
+    return result;
+  }
+
   if (command.intent === "use_skill") {
     if (!args.combatSessionId) {
       return {
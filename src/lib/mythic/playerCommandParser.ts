@@ -2,6 +2,7 @@ export type PlayerCommandIntent =
   | "shop"
   | "loot"
   | "steal"
+  | "camp"
   | "travel"
   | "dungeon"
   | "town"
@@ -35,6 +36,7 @@ export interface PlayerCommandParseResult {
   probeKind?: "scout" | "search" | "forage" | "loot";
   searchTarget?: "dungeon" | "cave" | "ruin" | "treasure" | "landmark";
   travelGoal?: "find_dungeon" | "explore_wilds" | "return_town" | "enter_dungeon";
+  campGuard?: "sleep" | "watch" | "vigil";
 }
 
 function cleanText(value: string): string {
@@ -113,6 +115,11 @@ function parseSlashCommand(input: string): PlayerCommandParseResult | null {
     };
   }
   if (command === "steal") return { raw: input, cleaned, explicit: true, intent: "steal" };
+  if (command === "camp" || command === "rest") {
+    const guard = tail.toLowerCase();
+    const campGuard = guard === "sleep" || guard === "vigil" ? guard : "watch";
+    return { raw: input, cleaned, explicit: true, intent: "camp", campGuard };
+  }
   if (command === "skills") return { raw: input, cleaned, explicit: true, intent: "skills_list" };
   if (command === "status") return { raw: input, cleaned, explicit: true, intent: "status_check" };
   if (command === "menu") {
@@ -1,4 +1,5 @@
 import { callEdgeFunction } from "@/lib/edge";
+import type { HouseRules } from "@/rules";
 
 export type CampaignHealthStatus = "ready" | "needs_migration" | "broken";
 
@@ -45,6 +46,45 @@ export interface JoinCampaignResult {
   already_member: boolean;
 }
 
+export interface CampaignHouseRulesResult {
+  campaignId: string;
+  ruleVersion: string;
+  houseRules: HouseRules;
+  canEdit: boolean;
+}
+
+export const ENCOUNTER_LETHALITY_LEVELS = ["low", "medium", "high", "brutal"] as const;
+export type EncounterLethality = (typeof ENCOUNTER_LETHALITY_LEVELS)[number];
+
+export interface EncounterPreviewInput {
+  seed: number;
+  partySize: number;
+  partyLevel: number;
+  /** Omit to use the world's lethality. */
+  lethality?: EncounterLethality;
+  regionId?: string | null;
+  themeHint?: string;
+  bossRoom?: boolean;
+}
+
+export interface EncounterPreviewSlot {
+  name: string;
+  creature: string;
+  role: "brute" | "skirmisher" | "caster";
+  rank: "standard" | "elite" | "boss";
+  lvl: number;
+  hp_mult: number;
+}
+
+export interface EncounterPreviewResult {
+  lethality: EncounterLethality;
+  worldLethality: EncounterLethality | null;
+  pool: "biome" | "global" | "theme";
+  regionId: string | null;
+  regions: string[];
+  slots: EncounterPreviewSlot[];
+}
+
 const DEFAULT_TIMEOUT_MS = 30_000;
 const MAX_RETRIES = 2;
 
@@ -186,3 +226,88 @@ export async function joinMythicCampaign(inviteCode: string, timeoutMs = DEFAULT
     already_member: Boolean(data.already_member),
   };
 }
+
+/** Reads the campaign's house rules; passing `houseRules` saves them first (campaign owner only). */
+export async function syncMythicCampaignRules(
+  campaignId: string,
+  houseRules?: HouseRules,
+  timeoutMs = DEFAULT_TIMEOUT_MS,
+): Promise<CampaignHouseRulesResult> {
+  const label = houseRules ? "House rules save" : "House rules load";
+  const { data, error } = await invokeEdgeWithRetry(label, timeoutMs, () =>
+    withAbortTimeout(
+      (signal) => callEdgeFunction<{
+        ok: boolean;
+        campaign_id?: string;
+        rule_version?: string;
+        house_rules?: HouseRules;
+        can_edit?: boolean;
+        error?: string;
+      }>(
+      "mythic-campaign-rules",
+      {
+        requireAuth: true,
+        signal,
+        timeoutMs,
+        body: houseRules ? { campaignId, houseRules } : { campaignId },
+      },
+    ),
+      timeoutMs,
+      label,
+    ));
+  if (error) throw error;
+  if (!data?.ok || !data.house_rules) {
+    throw new Error(data?.error ?? `${label} failed`);
+  }
+  return {
+    campaignId: data.campaign_id ?? campaignId,
+    ruleVersion: data.rule_version ?? "",
+    houseRules: data.house_rules,
+    canEdit: Boolean(data.can_edit),
+  };
+}
+
+/** The group mythic-combat-start would field for this seed, composed server-side from the campaign's pools. */
+export async function previewMythicEncounter(
+  campaignId: string,
+  input: EncounterPreviewInput,
+  timeoutMs = DEFAULT_TIMEOUT_MS,
+): Promise<EncounterPreviewResult> {
+  const { data, error } = await invokeEdgeWithRetry("Encounter preview", timeoutMs, () =>
+    withAbortTimeout(
+      (signal) => callEdgeFunction<{
+        ok: boolean;
+        world_lethality?: EncounterLethality | null;
+        regions?: string[];
+        encounter?: {
+          lethality: EncounterLethality;
+          pool: EncounterPreviewResult["pool"];
+          region_id: string | null;
+          slots: EncounterPreviewSlot[];
+        };
+        error?: string;
+      }>(
+      "mythic-encounter-preview",
+      {
+        requireAuth: true,
+        signal,
+        timeoutMs,
+        body: { campaignId, ...input },
+      },
+    ),
+      timeoutMs,
+      "Encounter preview",
+    ));
+  if (error) throw error;
+  if (!data?.ok || !data.encounter) {
+    throw new Error(data?.error ?? "Encounter preview failed");
+  }
+  return {
+    lethality: data.encounter.lethality,
+    worldLethality: data.world_lethality ?? null,
+    pool: data.encounter.pool,
+    regionId: data.encounter.region_id,
+    regions: Array.isArray(data.regions) ? data.regions : [],
+    slots: data.encounter.slots,
+  };
+}
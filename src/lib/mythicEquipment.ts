@@ -7,6 +7,8 @@ export interface MythicItemRow {
   stat_mods: Record<string, unknown>;
   effects_json: Record<string, unknown>;
   rarity: string;
+  /** { current, max, decay_per_use }; empty on items that do not wear. */
+  durability_json?: Record<string, unknown> | null;
 }
 
 export interface MythicInventoryRow {
@@ -17,10 +19,66 @@ export interface MythicInventoryRow {
   item: MythicItemRow | null;
 }
 
+export type ItemWearState = "sound" | "worn" | "broken";
+
+export interface ItemWear {
+  current: number;
+  max: number;
+  state: ItemWearState;
+}
+
+/** Mirrors the server's WORN_THRESHOLD: below a quarter of max durability an item reads as worn. */
+const WORN_THRESHOLD = 0.25;
+
+export function itemWear(item: MythicItemRow | null | undefined): ItemWear | null {
+  const raw = item?.durability_json;
+  const max = Math.floor(Number(raw?.max));
+  if (!raw || !Number.isFinite(max) || max <= 0) return null;
+  const currentRaw = Number(raw.current);
+  const current = Number.isFinite(currentRaw) ? Math.max(0, Math.min(max, Math.floor(currentRaw))) : max;
+  const state: ItemWearState = current <= 0 ? "broken" : current / max < WORN_THRESHOLD ? "worn" : "sound";
+  return { current, max, state };
+}
+
+export type ConsumableTargeting = "self" | "ally" | "area";
+
+export interface ItemConsumable {
+  key: string;
+  targeting: ConsumableTargeting;
+  rangeTiles: number;
+  /** Short effect line, e.g. "Heal 32 · Cleanse". */
+  summary: string;
+}
+
+/** Reads the server's effects_json.consumable profile; null for anything that is not a usable consumable. */
+export function itemConsumable(item: MythicItemRow | null | undefined): ItemConsumable | null {
+  if (!item || item.slot !== "consumable") return null;
+  const raw = item.effects_json?.consumable as Record<string, unknown> | undefined;
+  if (!raw || typeof raw !== "object" || typeof raw.key !== "string") return null;
+  const targeting = raw.targeting === "self" || raw.targeting === "ally" || raw.targeting === "area" ? raw.targeting : null;
+  const effects = Array.isArray(raw.effects) ? (raw.effects as Array<Record<string, unknown>>) : [];
+  if (!targeting || effects.length === 0) return null;
+  const parts = effects.map((effect) => {
+    const amount = Math.max(0, Math.floor(Number(effect?.amount ?? 0)));
+    if (effect?.kind === "heal") return `Heal ${amount}`;
+    if (effect?.kind === "restore_power") return `+${amount} MP`;
+    if (effect?.kind === "cleanse") return "Cleanse";
+    if (effect?.kind === "blast") return `${amount} dmg · radius ${Math.max(0, Math.floor(Number(effect.radius ?? 0)))}`;
+    return null;
+  }).filter((part): part is string => Boolean(part));
+  return {
+    key: raw.key,
+    targeting,
+    rangeTiles: Math.max(0, Math.floor(Number(raw.range_tiles ?? 0))),
+    summary: parts.join(" · "),
+  };
+}
+
 export function sumStatMods(items: Array<MythicItemRow | null | undefined>): StatTotals {
   const totals: StatTotals = {};
   for (const item of items) {
-    if (!item) continue;
+    // Broken gear stays equipped but contributes nothing until it is repaired.
+    if (!item || itemWear(item)?.state === "broken") continue;
     const mods = item.stat_mods ?? {};
     for (const [key, value] of Object.entries(mods)) {
       const n = Number(value);
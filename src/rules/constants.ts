@@ -1,10 +1,13 @@
-import type { EquipmentSlot, RarityKey } from "@/rules/schema";
+import type { EquipmentSlot, HouseRules, RarityKey } from "@/rules/schema";
 
 export const RULE_VERSION = "rpg-rules.v1.0.0";
 
 export const XP_PRESETS = ["FAST", "STANDARD", "GRINDY"] as const;
 export type XpPreset = (typeof XP_PRESETS)[number];
 
+export const AFK_ACTIONS = ["defend", "companion"] as const;
+export type AfkAction = (typeof AFK_ACTIONS)[number];
+
 export interface XpCurveTuning {
   maxLevel: number;
   base: number;
@@ -68,6 +71,9 @@ export interface RuleTunables {
     physicalStrScale: number;
     magicalIntScale: number;
     barrierBreakSpillover: boolean;
+    /** Seconds a player has to act before the server takes their turn with `afkAction`. */
+    turnSeconds: number;
+    afkAction: AfkAction;
   };
   skills: {
     mpCostMax: number;
@@ -111,6 +117,12 @@ export interface RuleTunables {
   };
 }
 
+type DeepPartial<T> = {
+  [K in keyof T]?: T[K] extends Record<string, unknown> ? DeepPartial<T[K]> : T[K];
+};
+
+export type RuleTunableOverrides = DeepPartial<RuleTunables>;
+
 export const DEFAULT_RULE_TUNABLES: RuleTunables = {
   ruleVersion: RULE_VERSION,
   levels: {
@@ -177,6 +189,8 @@ export const DEFAULT_RULE_TUNABLES: RuleTunables = {
     physicalStrScale: 0.01,
     magicalIntScale: 0.01,
     barrierBreakSpillover: true,
+    turnSeconds: 90,
+    afkAction: "defend",
   },
   skills: {
     mpCostMax: 99,
@@ -283,11 +297,11 @@ function deepMerge<T>(base: T, patch?: Partial<T>): T {
   return out as T;
 }
 
-export function buildTunables(overrides?: Partial<RuleTunables>): RuleTunables {
-  return deepMerge(DEFAULT_RULE_TUNABLES, overrides);
+export function buildTunables(overrides?: RuleTunableOverrides): RuleTunables {
+  return deepMerge(DEFAULT_RULE_TUNABLES, overrides as Partial<RuleTunables> | undefined);
 }
 
-export function tunablesForPreset(preset: XpPreset, overrides?: Partial<RuleTunables>): RuleTunables {
+export function tunablesForPreset(preset: XpPreset, overrides?: RuleTunableOverrides): RuleTunables {
   const merged = buildTunables(overrides);
   const curve = merged.levels.xpPresets[preset];
   return buildTunables({
@@ -298,3 +312,7 @@ export function tunablesForPreset(preset: XpPreset, overrides?: Partial<RuleTuna
     },
   });
 }
+
+export function tunablesForHouseRules(rules?: HouseRules | null): RuleTunables {
+  return tunablesForPreset(rules?.xpPreset ?? "STANDARD", rules?.overrides);
+}
@@ -1,5 +1,7 @@
 import { z } from "zod";
 
+import { AFK_ACTIONS, XP_PRESETS } from "@/rules/constants";
+
 export const BASE_STAT_KEYS = ["str", "dex", "int", "vit", "wis"] as const;
 export type BaseStatKey = (typeof BASE_STAT_KEYS)[number];
 
@@ -316,6 +318,31 @@ export const characterSheetViewSchema = z.object({
   tooltips: z.record(z.string(), z.string()),
 });
 
+const houseRuleRarityWeight = z.number().min(0).max(1000);
+
+// The RuleTunables a campaign owner may override. The API validates the same shape
+// (services/mythic-api/src/lib/rules/houseRules.ts); keep bounds in sync.
+export const houseRulesSchema = z.object({
+  xpPreset: z.enum(XP_PRESETS).default("STANDARD"),
+  overrides: z.object({
+    combat: z.object({
+      critMultiplier: z.number().min(1).max(4),
+      turnSeconds: z.number().int().min(15).max(600),
+      afkAction: z.enum(AFK_ACTIONS),
+    }).partial().strict().optional(),
+    caps: z.object({
+      critChanceMax: z.number().min(0.02).max(0.95),
+    }).partial().strict().optional(),
+    loot: z.object({
+      rarityWeights: z.record(z.enum(RARITY_KEYS), houseRuleRarityWeight),
+    }).partial().strict().optional(),
+    economy: z.object({
+      inflationPerAct: z.number().min(0).max(1),
+      inflationPerChapter: z.number().min(0).max(0.5),
+    }).partial().strict().optional(),
+  }).strict().default({}),
+}).strict();
+
 export type BaseStats = z.infer<typeof baseStatsSchema>;
 export type DerivedStats = z.infer<typeof derivedStatsSchema>;
 export type Resistances = z.infer<typeof resistanceSchema>;
@@ -328,6 +355,7 @@ export type Skill = z.infer<typeof skillSchema>;
 export type Actor = z.infer<typeof actorSchema>;
 export type InventoryFilter = z.infer<typeof inventoryFilterSchema>;
 export type CharacterSheetView = z.infer<typeof characterSheetViewSchema>;
+export type HouseRules = z.infer<typeof houseRulesSchema>;
 
 export interface LootRollContext {
   seed: number;
@@ -18,6 +18,7 @@ export type MythicUiIntent =
   | "combat_action"
   | "shop_action"
   | "companion_action"
+  | "camp_action"
   | "shop"
   | "focus_target"
   | "open_panel"
@@ -85,6 +86,8 @@ export interface MythicBoardState {
   town_grudges?: Record<string, unknown>;
   town_activity_log?: Array<Record<string, unknown> | string>;
   town_clock?: Record<string, unknown>;
+  town_social_ties?: Record<string, unknown>;
+  town_gossip?: Array<Record<string, unknown>>;
   reason_code?: string;
   rumors?: unknown[];
   objectives?: unknown[];
@@ -311,12 +314,33 @@ export interface MythicQuestThreadRow {
   created_at: string;
 }
 
+/** Row of mythic.quests: DM quests (source "dm") and job board contracts (source "job_board"). */
+export interface MythicQuestRow {
+  id: string;
+  source: "dm" | "job_board";
+  source_ref: string;
+  title: string;
+  summary: string | null;
+  description: string | null;
+  giver: string | null;
+  state: "available" | "active" | "completed" | "failed" | "abandoned";
+  importance: "side" | "main" | "legendary";
+  objectives: unknown;
+  rewards: Record<string, unknown>;
+  time_limit: number | null;
+  turns_elapsed: number;
+  accepted_at: string;
+  completed_at: string | null;
+  turned_in_at: string | null;
+}
+
 export interface MythicCharacterBundle {
   character: MythicCharacterRow;
   skills: MythicSkill[];
   items: Array<Record<string, unknown>>;
   progressionEvents: MythicProgressionEventRow[];
   questThreads: MythicQuestThreadRow[];
+  quests: MythicQuestRow[];
 }
 
 export interface MythicCreateCharacterRequest {
@@ -394,3 +418,32 @@ export interface MythicBootstrapRequest {
 export interface MythicBootstrapResponse {
   ok: boolean;
 }
+
+export type MythicPartyActionStatus = "pending" | "accepted" | "resolving" | "resolved" | "rejected" | "withdrawn";
+
+export interface MythicPartyAction {
+  id: string;
+  campaign_id: string;
+  proposed_by: string;
+  kind: "prompt" | "ui_action";
+  prompt: string;
+  action_json: Record<string, unknown> | null;
+  status: MythicPartyActionStatus;
+  approved_by: string | null;
+  approved_via: "vote" | "owner" | null;
+  turn_id: string | null;
+  claimed_at: string | null;
+  resolved_at: string | null;
+  created_at: string;
+  votes: { yes: string[]; no: string[] };
+  votes_needed: number;
+}
+
+export interface MythicPartyQueueResponse {
+  ok: boolean;
+  campaign_id: string;
+  party_size: number;
+  can_decide: boolean;
+  next_action_id: string | null;
+  queue: MythicPartyAction[];
+}
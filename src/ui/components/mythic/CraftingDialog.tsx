@@ -0,0 +1,335 @@
+import { useEffect, useMemo, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Loader2 } from "lucide-react";
+import { callEdgeFunction } from "@/lib/edge";
+import { parseEdgeError } from "@/lib/edgeError";
+
+type MaterialBundle = Record<string, number>;
+
+type BenchRecipe = {
+  id: string;
+  name: string;
+  description: string;
+  materials: MaterialBundle;
+  focus_shards: number;
+  rarity_step: number;
+  min_base_rarity: string;
+  max_base_rarity: string;
+  min_rank: number;
+  locked: boolean;
+};
+
+type BenchGear = {
+  inventory_id: string;
+  item_id: string;
+  quantity: number;
+  name: string;
+  rarity: string;
+  slot: string;
+  item_power: number;
+  salvage: MaterialBundle;
+};
+
+type BenchPayload = {
+  ok: boolean;
+  proficiency: { rank: number; budget_bonus: number; yield_bonus: number; masterwork_chance: number; field_crafting: boolean };
+  workshop: { vendor_id: string; name: string } | null;
+  canCraft: boolean;
+  recipes: BenchRecipe[];
+  materials: Array<{ key: string; name: string; quantity: number }>;
+  gear: BenchGear[];
+  requestId?: string;
+};
+
+type SalvagePayload = { ok: boolean; itemId: string | null; materials: MaterialBundle | null; replayed?: boolean; requestId?: string };
+
+type CraftPayload = {
+  ok: boolean;
+  itemId: string;
+  item: Record<string, unknown>;
+  masterwork: boolean;
+  recipeId: string;
+  spent: MaterialBundle | null;
+  replayed?: boolean;
+  requestId?: string;
+};
+
+const FOCUS_STATS = ["offense", "defense", "control", "support", "mobility", "utility"] as const;
+const RARITY_ORDER = ["common", "magical", "unique", "legendary", "mythic", "unhinged"];
+
+function labelRarity(r: unknown): string {
+  const s = typeof r === "string" ? r : "";
+  return s ? s[0]!.toUpperCase() + s.slice(1) : "Common";
+}
+
+function labelMaterial(key: string): string {
+  return key.split("_").map((part) => (part ? part[0]!.toUpperCase() + part.slice(1) : part)).join(" ");
+}
+
+function formatBundle(bundle: MaterialBundle): string {
+  const parts = Object.entries(bundle).filter(([, amount]) => amount > 0).map(([key, amount]) => `${amount} ${labelMaterial(key)}`);
+  return parts.length > 0 ? parts.join(" · ") : "nothing";
+}
+
+function baseFits(recipe: BenchRecipe, gear: BenchGear): boolean {
+  const tier = RARITY_ORDER.indexOf(gear.rarity);
+  return tier >= RARITY_ORDER.indexOf(recipe.min_base_rarity) && tier <= RARITY_ORDER.indexOf(recipe.max_base_rarity);
+}
+
+export function CraftingDialog(props: {
+  open: boolean;
+  campaignId: string;
+  characterId: string;
+  onOpenChange: (open: boolean) => void;
+  /** Called after a salvage or craft so the caller can refetch inventory. */
+  onCrafted: () => Promise<void>;
+}) {
+  const [isLoading, setIsLoading] = useState(false);
+  const [busyKey, setBusyKey] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [note, setNote] = useState<string | null>(null);
+  const [tab, setTab] = useState<"craft" | "salvage">("craft");
+  const [bench, setBench] = useState<BenchPayload | null>(null);
+  const [recipeId, setRecipeId] = useState<string>("reforge");
+  const [baseId, setBaseId] = useState<string | null>(null);
+  const [focus, setFocus] = useState<(typeof FOCUS_STATS)[number]>("offense");
+
+  const loadBench = useMemo(() => {
+    return async () => {
+      setIsLoading(true);
+      setError(null);
+      try {
+        const { data, error: edgeError } = await callEdgeFunction<BenchPayload>("mythic-crafting-bench", {
+          requireAuth: true,
+          timeoutMs: 25_000,
+          maxRetries: 0,
+          body: { campaignId: props.campaignId, characterId: props.characterId },
+        });
+        if (edgeError) throw edgeError;
+        if (!data?.ok) throw new Error("Failed to load the crafting bench");
+        setBench(data);
+      } catch (e) {
+        const parsed = parseEdgeError(e, "Failed to load the crafting bench");
+        setError(parsed.message);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+  }, [props.campaignId, props.characterId]);
+
+  useEffect(() => {
+    if (!props.open) return;
+    void loadBench();
+  }, [loadBench, props.open]);
+
+  const recipe = bench?.recipes.find((entry) => entry.id === recipeId) ?? null;
+  const haveMaterials = useMemo(() => {
+    const out: MaterialBundle = {};
+    for (const entry of bench?.materials ?? []) out[entry.key] = entry.quantity;
+    return out;
+  }, [bench?.materials]);
+  const materialCount = useMemo(() => Object.values(haveMaterials).reduce((sum, quantity) => sum + (quantity ?? 0), 0), [haveMaterials]);
+  const recipeCost = useMemo(() => {
+    if (!recipe) return {};
+    return recipe.focus_shards > 0
+      ? { ...recipe.materials, [`${focus}_shard`]: (recipe.materials[`${focus}_shard`] ?? 0) + recipe.focus_shards }
+      : recipe.materials;
+  }, [focus, recipe]);
+  const affordable = Object.entries(recipeCost).every(([key, amount]) => (haveMaterials[key] ?? 0) >= amount);
+  const bases = (bench?.gear ?? []).filter((gear) => (recipe ? baseFits(recipe, gear) : false));
+  const base = bases.find((gear) => gear.inventory_id === baseId) ?? null;
+
+  const handleSalvage = async (gear: BenchGear) => {
+    setBusyKey(gear.inventory_id);
+    setError(null);
+    setNote(null);
+    try {
+      const { data, error: edgeError } = await callEdgeFunction<SalvagePayload>("mythic-craft-salvage", {
+        requireAuth: true,
+        timeoutMs: 25_000,
+        maxRetries: 0,
+        // Stacks salvage one at a time; the remaining quantity and the material count keep each salvage distinct.
+        idempotencyKey: `craft-salvage:${props.characterId}:${gear.inventory_id}:${gear.quantity}:${materialCount}`,
+        body: { campaignId: props.campaignId, characterId: props.characterId, inventoryId: gear.inventory_id },
+      });
+      if (edgeError) throw edgeError;
+      if (!data?.ok) throw new Error("Salvage failed");
+      setNote(data.materials ? `Salvaged ${gear.name} into ${formatBundle(data.materials)}.` : `${gear.name} was already salvaged.`);
+      await Promise.all([loadBench(), props.onCrafted()]);
+    } catch (e) {
+      const parsed = parseEdgeError(e, "Salvage failed");
+      setError(parsed.message);
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  const handleCraft = async () => {
+    if (!recipe || !base) return;
+    setBusyKey("craft");
+    setError(null);
+    setNote(null);
+    try {
+      const { data, error: edgeError } = await callEdgeFunction<CraftPayload>("mythic-craft-item", {
+        requireAuth: true,
+        timeoutMs: 25_000,
+        maxRetries: 0,
+        idempotencyKey: `craft-item:${props.characterId}:${base.inventory_id}:${base.quantity}:${materialCount}:${recipe.id}:${recipe.focus_shards > 0 ? focus : "none"}`,
+        body: {
+          campaignId: props.campaignId,
+          characterId: props.characterId,
+          recipeId: recipe.id,
+          inventoryId: base.inventory_id,
+          ...(recipe.focus_shards > 0 ? { focus } : {}),
+        },
+      });
+      if (edgeError) throw edgeError;
+      if (!data?.ok) throw new Error("Crafting failed");
+      const name = String(data.item.name ?? "Item");
+      setNote(`${data.masterwork ? "Masterwork! " : ""}Crafted ${name} (${labelRarity(data.item.rarity)}).`);
+      setBaseId(null);
+      await Promise.all([loadBench(), props.onCrafted()]);
+    } catch (e) {
+      const parsed = parseEdgeError(e, "Crafting failed");
+      setError(parsed.message);
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  return (
+    <Dialog open={props.open} onOpenChange={props.onOpenChange}>
+      <DialogContent className="max-h-[90vh] max-w-3xl overflow-hidden border border-border bg-card/90 backdrop-blur-md">
+        <DialogHeader>
+          <DialogTitle className="font-display text-xl">Crafting</DialogTitle>
+          <DialogDescription className="text-xs text-muted-foreground">
+            {bench
+              ? `Rank ${bench.proficiency.rank} · ${bench.workshop ? `Workshop: ${bench.workshop.name}` : bench.proficiency.field_crafting ? "Field crafting" : "No workshop nearby"}`
+              : "Salvage gear into materials and remake it at the bench."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-[70vh] overflow-auto pr-1">
+          <div className="mb-3 rounded border border-border bg-background/20 px-3 py-2 text-[11px] text-muted-foreground">
+            Materials:{" "}
+            <span className="text-foreground">
+              {(bench?.materials ?? []).length > 0 ? bench!.materials.map((entry) => `${entry.quantity} ${entry.name}`).join(" · ") : "none yet"}
+            </span>
+          </div>
+
+          {error ? (
+            <div className="mb-3 rounded border border-destructive/40 bg-destructive/10 px-3 py-2 text-xs text-destructive">{error}</div>
+          ) : null}
+
+          {note ? (
+            <div className="mb-3 rounded border border-border bg-background/30 px-3 py-2 text-xs text-foreground">{note}</div>
+          ) : null}
+
+          {isLoading ? (
+            <div className="flex items-center gap-2 py-4 text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              <span>Loading bench...</span>
+            </div>
+          ) : null}
+
+          <Tabs value={tab} onValueChange={(value) => setTab(value as typeof tab)}>
+            <TabsList className="mb-3">
+              <TabsTrigger value="craft">Craft</TabsTrigger>
+              <TabsTrigger value="salvage">Salvage</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="craft">
+              {bench && !bench.canCraft ? (
+                <div className="mb-3 text-xs text-muted-foreground">Find a town workshop, or learn a crafting skill to work in the field.</div>
+              ) : null}
+              <div className="mb-3 grid gap-2 md:grid-cols-2">
+                {(bench?.recipes ?? []).map((entry) => (
+                  <button
+                    key={entry.id}
+                    type="button"
+                    disabled={entry.locked}
+                    onClick={() => { setRecipeId(entry.id); setBaseId(null); }}
+                    className={`rounded-lg border p-3 text-left text-xs ${entry.id === recipeId ? "border-primary bg-primary/10" : "border-border bg-background/30"} ${entry.locked ? "opacity-50" : ""}`}
+                  >
+                    <div className="text-sm font-semibold text-foreground">{entry.name}</div>
+                    <div className="text-muted-foreground">{entry.description}</div>
+                    <div className="mt-1 text-muted-foreground">
+                      Needs {formatBundle(entry.materials)}
+                      {entry.focus_shards > 0 ? ` + ${entry.focus_shards} shards of the focus stat` : ""}
+                    </div>
+                    {entry.locked ? <div className="mt-1 text-destructive">Requires crafting rank {entry.min_rank}</div> : null}
+                  </button>
+                ))}
+              </div>
+
+              {recipe && recipe.focus_shards > 0 ? (
+                <div className="mb-3 flex flex-wrap gap-2">
+                  {FOCUS_STATS.map((stat) => (
+                    <Button key={stat} size="sm" variant={stat === focus ? "default" : "secondary"} onClick={() => setFocus(stat)}>
+                      {labelMaterial(stat)}
+                    </Button>
+                  ))}
+                </div>
+              ) : null}
+
+              <div className="mb-2 text-xs font-semibold text-muted-foreground">Base item</div>
+              {!isLoading && bases.length === 0 ? (
+                <div className="text-sm text-muted-foreground">No backpack gear fits this recipe.</div>
+              ) : null}
+              <div className="grid gap-2 md:grid-cols-2">
+                {bases.map((gear) => (
+                  <button
+                    key={gear.inventory_id}
+                    type="button"
+                    onClick={() => setBaseId(gear.inventory_id)}
+                    className={`rounded-lg border p-3 text-left text-xs ${gear.inventory_id === baseId ? "border-primary bg-primary/10" : "border-border bg-background/30"}`}
+                  >
+                    <div className="text-sm font-semibold text-foreground">{gear.name}</div>
+                    <div className="text-muted-foreground">{labelRarity(gear.rarity)} · {gear.slot} · power {gear.item_power}</div>
+                  </button>
+                ))}
+              </div>
+
+              <div className="mt-3 flex items-center justify-between gap-2">
+                <div className="text-[11px] text-muted-foreground">Costs {formatBundle(recipeCost)} and consumes the base item.</div>
+                <Button
+                  size="sm"
+                  onClick={() => void handleCraft()}
+                  disabled={!bench?.canCraft || !recipe || recipe.locked || !base || !affordable || Boolean(busyKey) || isLoading}
+                >
+                  {busyKey === "craft" ? "Crafting..." : "Craft"}
+                </Button>
+              </div>
+              {recipe && !affordable ? <div className="mt-1 text-right text-[11px] text-destructive">Not enough materials.</div> : null}
+            </TabsContent>
+
+            <TabsContent value="salvage">
+              {!isLoading && (bench?.gear ?? []).length === 0 ? (
+                <div className="text-sm text-muted-foreground">No gear in your backpack to salvage. Equipped gear has to come off first.</div>
+              ) : null}
+              <div className="grid gap-2 md:grid-cols-2">
+                {(bench?.gear ?? []).map((gear) => (
+                  <div key={gear.inventory_id} className="rounded-lg border border-border bg-background/30 p-3">
+                    <div className="text-sm font-semibold">{gear.name}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {labelRarity(gear.rarity)} · {gear.slot} · power {gear.item_power}
+                      {gear.quantity > 1 ? ` · x${gear.quantity}` : ""}
+                    </div>
+                    <div className="mt-1 text-[11px] text-muted-foreground">Yields {formatBundle(gear.salvage)}</div>
+                    <div className="mt-3">
+                      <Button size="sm" variant="secondary" onClick={() => void handleSalvage(gear)} disabled={Boolean(busyKey) || isLoading}>
+                        {busyKey === gear.inventory_id ? "Salvaging..." : "Salvage"}
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </TabsContent>
+          </Tabs>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
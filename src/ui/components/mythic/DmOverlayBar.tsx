@@ -11,6 +11,7 @@ interface DmOverlayBarProps {
 function phaseLabel(phase: MythicDmPhase | null | undefined): string {
   if (phase === "assembling_context") return "Context";
   if (phase === "resolving_narration") return "Narrating";
+  if (phase === "validating") return "Checking";
   if (phase === "committing_turn") return "Commit";
   return "Ready";
 }
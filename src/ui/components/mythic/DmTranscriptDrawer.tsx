@@ -1,3 +1,4 @@
+import type { ReactNode } from "react";
 import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
 import { MythicDMChat } from "@/components/MythicDMChat";
 import type { MythicDMMessage, MythicDmPhase } from "@/hooks/useMythicDungeonMaster";
@@ -19,11 +20,13 @@ interface DmTranscriptDrawerProps {
   onStopVoice?: () => void;
   autoFollow?: boolean;
   onSendMessage: (message: string) => void;
+  partyQueue?: ReactNode;
 }
 
 function phaseLabel(phase: MythicDmPhase | null | undefined): string {
   if (phase === "assembling_context") return "assembling context";
   if (phase === "resolving_narration") return "resolving narration";
+  if (phase === "validating") return "validating turn";
   if (phase === "committing_turn") return "committing turn";
   return "idle";
 }
@@ -33,7 +36,7 @@ export function DmTranscriptDrawer(props: DmTranscriptDrawerProps) {
     <Sheet open={props.open} onOpenChange={props.onOpenChange}>
       <SheetContent
         side="bottom"
-        className="h-[74vh] border-amber-200/25 bg-[linear-gradient(180deg,rgba(17,14,10,0.95),rgba(8,10,16,0.98))] p-0 text-amber-50"
+        className="flex h-[74vh] flex-col border-amber-200/25 bg-[linear-gradient(180deg,rgba(17,14,10,0.95),rgba(8,10,16,0.98))] p-0 text-amber-50"
       >
         <SheetHeader className="border-b border-amber-200/20 px-4 py-3">
           <SheetTitle className="font-display text-amber-100">Narrative Transcript</SheetTitle>
@@ -43,7 +46,13 @@ export function DmTranscriptDrawer(props: DmTranscriptDrawerProps) {
             {props.operationNextRetryAt ? ` · retry ${new Date(props.operationNextRetryAt).toLocaleTimeString()}` : ""}
           </SheetDescription>
         </SheetHeader>
-        <div className="h-[calc(74vh-72px)]">
+        {props.partyQueue ? (
+          <div className="max-h-[30vh] overflow-y-auto border-b border-amber-200/20 px-4 py-2">
+            <div className="mb-1 text-xs font-semibold text-amber-100">Party queue</div>
+            {props.partyQueue}
+          </div>
+        ) : null}
+        <div className={props.partyQueue ? "min-h-0 flex-1" : "h-[calc(74vh-72px)]"}>
           <MythicDMChat
             messages={props.messages}
             isLoading={props.isDmLoading}
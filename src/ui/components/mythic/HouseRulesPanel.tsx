@@ -0,0 +1,257 @@
+import { useEffect, useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Slider } from "@/components/ui/slider";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  AFK_ACTIONS,
+  RARITY_KEYS,
+  XP_PRESETS,
+  houseRulesSchema,
+  tunablesForHouseRules,
+  type AfkAction,
+  type HouseRules,
+  type RarityKey,
+  type XpPreset,
+} from "@/rules";
+
+interface HouseRulesPanelProps {
+  houseRules: HouseRules | null;
+  ruleVersion: string | null;
+  canEdit: boolean;
+  isLoading: boolean;
+  isSaving: boolean;
+  error: string | null;
+  onSave: (next: HouseRules) => void;
+}
+
+interface HouseRulesDraft {
+  xpPreset: XpPreset;
+  critMultiplier: number;
+  critChanceMax: number;
+  turnSeconds: number;
+  afkAction: AfkAction;
+  rarityWeights: Record<RarityKey, number>;
+  inflationPerAct: number;
+  inflationPerChapter: number;
+}
+
+const XP_PRESET_LABELS: Record<XpPreset, string> = {
+  FAST: "Fast (less XP per level)",
+  STANDARD: "Standard",
+  GRINDY: "Grindy (more XP per level)",
+};
+
+const AFK_ACTION_LABELS: Record<AfkAction, string> = {
+  defend: "Defend",
+  companion: "Fight on like a companion",
+};
+
+function draftFromRules(rules: HouseRules | null): HouseRulesDraft {
+  const tunables = tunablesForHouseRules(rules);
+  return {
+    xpPreset: rules?.xpPreset ?? "STANDARD",
+    critMultiplier: tunables.combat.critMultiplier,
+    critChanceMax: tunables.caps.critChanceMax,
+    turnSeconds: tunables.combat.turnSeconds,
+    afkAction: tunables.combat.afkAction,
+    rarityWeights: { ...tunables.loot.rarityWeights },
+    inflationPerAct: tunables.economy.inflationPerAct,
+    inflationPerChapter: tunables.economy.inflationPerChapter,
+  };
+}
+
+// Only values that differ from the defaults are stored, so later default changes still reach the campaign.
+function rulesFromDraft(draft: HouseRulesDraft): HouseRules {
+  const defaults = draftFromRules(null);
+  const overrides: HouseRules["overrides"] = {};
+  const combat: NonNullable<HouseRules["overrides"]["combat"]> = {};
+  if (draft.critMultiplier !== defaults.critMultiplier) combat.critMultiplier = draft.critMultiplier;
+  if (draft.turnSeconds !== defaults.turnSeconds) combat.turnSeconds = draft.turnSeconds;
+  if (draft.afkAction !== defaults.afkAction) combat.afkAction = draft.afkAction;
+  if (Object.keys(combat).length > 0) overrides.combat = combat;
+  if (draft.critChanceMax !== defaults.critChanceMax) overrides.caps = { critChanceMax: draft.critChanceMax };
+  const rarityWeights = Object.fromEntries(
+    RARITY_KEYS.filter((key) => draft.rarityWeights[key] !== defaults.rarityWeights[key]).map((key) => [key, draft.rarityWeights[key]]),
+  );
+  if (Object.keys(rarityWeights).length > 0) overrides.loot = { rarityWeights };
+  const economy: NonNullable<HouseRules["overrides"]["economy"]> = {};
+  if (draft.inflationPerAct !== defaults.inflationPerAct) economy.inflationPerAct = draft.inflationPerAct;
+  if (draft.inflationPerChapter !== defaults.inflationPerChapter) economy.inflationPerChapter = draft.inflationPerChapter;
+  if (Object.keys(economy).length > 0) overrides.economy = economy;
+  return houseRulesSchema.parse({ xpPreset: draft.xpPreset, overrides });
+}
+
+function RuleSlider(props: {
+  label: string;
+  display: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  disabled: boolean;
+  onChange: (value: number) => void;
+}) {
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between text-xs text-muted-foreground">
+        <span>{props.label}</span>
+        <span>{props.display}</span>
+      </div>
+      <Slider
+        value={[props.value]}
+        min={props.min}
+        max={props.max}
+        step={props.step}
+        disabled={props.disabled}
+        onValueChange={(value) => props.onChange(Number((value[0] ?? props.value).toFixed(4)))}
+      />
+    </div>
+  );
+}
+
+export function HouseRulesPanel(props: HouseRulesPanelProps) {
+  const [draft, setDraft] = useState<HouseRulesDraft>(() => draftFromRules(props.houseRules));
+
+  useEffect(() => {
+    setDraft(draftFromRules(props.houseRules));
+  }, [props.houseRules]);
+
+  const dirty = useMemo(
+    () => JSON.stringify(rulesFromDraft(draft)) !== JSON.stringify(rulesFromDraft(draftFromRules(props.houseRules))),
+    [draft, props.houseRules],
+  );
+  const locked = !props.canEdit || props.isSaving || props.isLoading;
+  const weightTotal = RARITY_KEYS.reduce((sum, key) => sum + draft.rarityWeights[key], 0);
+  const update = (patch: Partial<HouseRulesDraft>) => setDraft((prev) => ({ ...prev, ...patch }));
+
+  return (
+    <div className="rounded-lg border border-border bg-background/30 p-3">
+      <div className="mb-1 flex items-center justify-between gap-2">
+        <div className="text-sm font-semibold">House Rules</div>
+        {props.ruleVersion ? <span className="text-[10px] text-muted-foreground">{props.ruleVersion}</span> : null}
+      </div>
+      <div className="mb-3 text-xs text-muted-foreground">
+        {props.canEdit
+          ? "Applies to XP, loot, shops and combat for everyone in this campaign."
+          : "Set by the campaign owner."}
+      </div>
+
+      <div className="space-y-3">
+        <div className="grid max-w-[240px] gap-1 text-xs">
+          <span className="text-muted-foreground">XP pace</span>
+          <Select value={draft.xpPreset} onValueChange={(value) => update({ xpPreset: value as XpPreset })} disabled={locked}>
+            <SelectTrigger className="h-8 border-amber-200/20 bg-background/30 text-xs">
+              <SelectValue placeholder="Choose XP pace" />
+            </SelectTrigger>
+            <SelectContent>
+              {XP_PRESETS.map((preset) => (
+                <SelectItem key={preset} value={preset}>{XP_PRESET_LABELS[preset]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <RuleSlider
+          label="Crit multiplier"
+          display={`${draft.critMultiplier.toFixed(2)}x`}
+          value={draft.critMultiplier}
+          min={1}
+          max={4}
+          step={0.05}
+          disabled={locked}
+          onChange={(critMultiplier) => update({ critMultiplier })}
+        />
+        <RuleSlider
+          label="Crit chance cap"
+          display={`${Math.round(draft.critChanceMax * 100)}%`}
+          value={draft.critChanceMax}
+          min={0.02}
+          max={0.95}
+          step={0.01}
+          disabled={locked}
+          onChange={(critChanceMax) => update({ critChanceMax })}
+        />
+        <RuleSlider
+          label="Turn timer"
+          display={`${draft.turnSeconds}s`}
+          value={draft.turnSeconds}
+          min={15}
+          max={600}
+          step={15}
+          disabled={locked}
+          onChange={(turnSeconds) => update({ turnSeconds: Math.round(turnSeconds) })}
+        />
+        <div className="grid max-w-[240px] gap-1 text-xs">
+          <span className="text-muted-foreground">When the timer runs out</span>
+          <Select value={draft.afkAction} onValueChange={(value) => update({ afkAction: value as AfkAction })} disabled={locked}>
+            <SelectTrigger className="h-8 border-amber-200/20 bg-background/30 text-xs">
+              <SelectValue placeholder="Choose default action" />
+            </SelectTrigger>
+            <SelectContent>
+              {AFK_ACTIONS.map((action) => (
+                <SelectItem key={action} value={action}>{AFK_ACTION_LABELS[action]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <div className="text-xs text-muted-foreground">Loot rarity weights</div>
+          {RARITY_KEYS.map((key) => (
+            <RuleSlider
+              key={key}
+              label={key}
+              display={weightTotal > 0 ? `${draft.rarityWeights[key]} (${((draft.rarityWeights[key] / weightTotal) * 100).toFixed(1)}%)` : "0"}
+              value={draft.rarityWeights[key]}
+              min={0}
+              max={100}
+              step={1}
+              disabled={locked}
+              onChange={(weight) => update({ rarityWeights: { ...draft.rarityWeights, [key]: weight } })}
+            />
+          ))}
+        </div>
+
+        <RuleSlider
+          label="Shop inflation per act"
+          display={`+${(draft.inflationPerAct * 100).toFixed(0)}%`}
+          value={draft.inflationPerAct}
+          min={0}
+          max={1}
+          step={0.01}
+          disabled={locked}
+          onChange={(inflationPerAct) => update({ inflationPerAct })}
+        />
+        <RuleSlider
+          label="Shop inflation per chapter"
+          display={`+${(draft.inflationPerChapter * 100).toFixed(0)}%`}
+          value={draft.inflationPerChapter}
+          min={0}
+          max={0.5}
+          step={0.01}
+          disabled={locked}
+          onChange={(inflationPerChapter) => update({ inflationPerChapter })}
+        />
+      </div>
+
+      {props.error ? <div className="mt-2 text-xs text-destructive">{props.error}</div> : null}
+
+      {props.canEdit ? (
+        <div className="mt-3 flex flex-wrap gap-2">
+          <Button size="sm" onClick={() => props.onSave(rulesFromDraft(draft))} disabled={locked || !dirty}>
+            {props.isSaving ? "Saving..." : "Save house rules"}
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => setDraft(draftFromRules(null))} disabled={locked}>
+            Reset to defaults
+          </Button>
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import { useRef, useState } from "react";
+import { useRef, useState, type ReactNode } from "react";
 import { Loader2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 
@@ -17,6 +17,8 @@ interface MythicCommandBarProps {
   onSendMessage: (message: string) => void;
   onOpenTranscript: () => void;
   onFocusChange?: (focused: boolean) => void;
+  /** Co-op campaigns: typed input is proposed to the party instead of sent straight to the DM. */
+  partyQueue?: ReactNode;
 }
 
 export function MythicCommandBar(props: MythicCommandBarProps) {
@@ -95,6 +97,8 @@ export function MythicCommandBar(props: MythicCommandBarProps) {
         </div>
       ) : null}
 
+      {props.partyQueue ? <div className="mb-2">{props.partyQueue}</div> : null}
+
       {props.voiceBlocked ? (
         <div className="mb-2 rounded border border-amber-200/30 bg-amber-400/10 px-2 py-1 text-xs text-amber-100/85">
           Audio is ready; press Speak Latest after interacting with the page.
@@ -119,7 +123,7 @@ export function MythicCommandBar(props: MythicCommandBarProps) {
               props.onCancelMessage();
             }
           }}
-          placeholder="Type your action or narration..."
+          placeholder={props.partyQueue ? "Propose an action to the party..." : "Type your action or narration..."}
           disabled={props.disabled}
           rows={1}
           className="min-h-[40px] w-full resize-none rounded-md border border-amber-200/25 bg-black/35 px-3 py-2 text-sm text-amber-50 placeholder:text-amber-100/45 focus:border-amber-200/40 focus:outline-none"
@@ -129,7 +133,7 @@ export function MythicCommandBar(props: MythicCommandBarProps) {
           disabled={props.disabled || input.trim().length === 0}
           className="h-10 border border-amber-200/35 bg-amber-300/20 text-amber-50 hover:bg-amber-300/30"
         >
-          Send
+          {props.partyQueue ? "Propose" : "Send"}
         </Button>
         {props.isDmLoading ? (
           <Button
@@ -0,0 +1,131 @@
+import { Button } from "@/components/ui/button";
+import type { MythicPartyAction, MythicPartyActionStatus } from "@/types/mythic";
+
+interface PartyQueueListProps {
+  actions: MythicPartyAction[];
+  userId: string | null;
+  canDecide: boolean;
+  busyActionId: string | null;
+  nextActionId: string | null;
+  nameFor: (userId: string) => string;
+  /** Command-bar strip: the first three open actions in queue order. */
+  compact?: boolean;
+  onVote: (actionId: string, vote: "yes" | "no") => void;
+  onDecide: (actionId: string, decision: "accept" | "reject") => void;
+  onWithdraw: (actionId: string) => void;
+  onResolve?: (actionId: string) => void;
+}
+
+const OPEN_STATUSES: MythicPartyActionStatus[] = ["pending", "accepted", "resolving"];
+
+const STATUS_LABELS: Record<MythicPartyActionStatus, string> = {
+  pending: "Voting",
+  accepted: "Up next",
+  resolving: "DM narrating",
+  resolved: "Resolved",
+  rejected: "Rejected",
+  withdrawn: "Withdrawn",
+};
+
+const STATUS_TONES: Record<MythicPartyActionStatus, string> = {
+  pending: "border-amber-200/40 text-amber-100",
+  accepted: "border-emerald-300/40 text-emerald-200",
+  resolving: "border-sky-300/40 text-sky-200",
+  resolved: "border-border text-muted-foreground",
+  rejected: "border-destructive/40 text-destructive",
+  withdrawn: "border-border text-muted-foreground",
+};
+
+export function PartyQueueList(props: PartyQueueListProps) {
+  const open = props.actions.filter((action) => OPEN_STATUSES.includes(action.status));
+  const visible = props.compact ? open.slice(0, 3) : props.actions;
+  if (visible.length === 0) {
+    return (
+      <div className="text-[11px] text-amber-100/60">
+        {props.compact ? "Nothing waiting on a vote. What you send is proposed to the party." : "No party actions yet."}
+      </div>
+    );
+  }
+
+  return (
+    <div data-testid="party-queue" className={props.compact ? "space-y-1" : "space-y-2"}>
+      {visible.map((action) => {
+        const busy = props.busyActionId === action.id;
+        const myVote = props.userId
+          ? action.votes.yes.includes(props.userId) ? "yes" : action.votes.no.includes(props.userId) ? "no" : null
+          : null;
+        const approval = action.approved_by
+          ? `${action.approved_via === "owner" ? "accepted by" : "carried by"} ${props.nameFor(action.approved_by)}`
+          : null;
+        return (
+          <div
+            key={action.id}
+            className="rounded border border-amber-200/20 bg-black/30 px-2 py-1.5 text-xs text-amber-50"
+          >
+            <div className="flex flex-wrap items-center gap-2">
+              <span className={`rounded border px-1.5 py-0.5 text-[10px] ${STATUS_TONES[action.status]}`}>
+                {STATUS_LABELS[action.status]}
+              </span>
+              <span className="min-w-0 flex-1 truncate" title={action.prompt}>{action.prompt}</span>
+              {action.status === "pending" ? (
+                <span className="text-[10px] text-amber-100/70">
+                  {action.votes.yes.length}/{action.votes_needed} yes{action.votes.no.length > 0 ? ` · ${action.votes.no.length} no` : ""}
+                </span>
+              ) : null}
+            </div>
+            {!props.compact ? (
+              <div className="mt-1 text-[10px] text-amber-100/60">
+                {action.kind === "ui_action" ? "Action" : "Prompt"} proposed by {props.nameFor(action.proposed_by)}
+                {approval ? ` · ${approval}` : ""}
+              </div>
+            ) : null}
+            {action.status === "pending" ? (
+              <div className="mt-1 flex flex-wrap gap-1">
+                <Button
+                  size="sm"
+                  variant={myVote === "yes" ? "secondary" : "outline"}
+                  className="h-6 px-2 text-[10px]"
+                  disabled={busy}
+                  onClick={() => props.onVote(action.id, "yes")}
+                >
+                  Yes
+                </Button>
+                <Button
+                  size="sm"
+                  variant={myVote === "no" ? "secondary" : "outline"}
+                  className="h-6 px-2 text-[10px]"
+                  disabled={busy}
+                  onClick={() => props.onVote(action.id, "no")}
+                >
+                  No
+                </Button>
+                {props.canDecide ? (
+                  <>
+                    <Button size="sm" variant="outline" className="h-6 px-2 text-[10px]" disabled={busy} onClick={() => props.onDecide(action.id, "accept")}>
+                      Accept
+                    </Button>
+                    <Button size="sm" variant="outline" className="h-6 px-2 text-[10px]" disabled={busy} onClick={() => props.onDecide(action.id, "reject")}>
+                      Reject
+                    </Button>
+                  </>
+                ) : null}
+                {action.proposed_by === props.userId ? (
+                  <Button size="sm" variant="ghost" className="h-6 px-2 text-[10px]" disabled={busy} onClick={() => props.onWithdraw(action.id)}>
+                    Withdraw
+                  </Button>
+                ) : null}
+              </div>
+            ) : null}
+            {action.id === props.nextActionId && props.onResolve ? (
+              <div className="mt-1">
+                <Button size="sm" variant="secondary" className="h-6 px-2 text-[10px]" onClick={() => props.onResolve?.(action.id)}>
+                  Resolve now
+                </Button>
+              </div>
+            ) : null}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -1,17 +1,58 @@
 import { useEffect, useMemo, useState } from "react";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Loader2 } from "lucide-react";
 import { callEdgeFunction } from "@/lib/edge";
 import { parseEdgeError } from "@/lib/edgeError";
+import { itemConsumable, type MythicItemRow } from "@/lib/mythicEquipment";
 
 type ShopStockItem = {
   id: string;
   price: number;
   item: Record<string, unknown>;
   sold?: boolean;
+  /** Consumable stacks sell one unit at a time; gear has no quantity. */
+  quantity?: number;
 };
 
+type BuybackEntry = {
+  id: string;
+  item_id: string;
+  name: string;
+  rarity: string;
+  slot: string;
+  price: number;
+  sold_at: string;
+  character_id: string;
+  bought_back?: boolean;
+};
+
+type SellQuote = {
+  inventory_id: string;
+  item_id: string;
+  quantity: number;
+  name: string;
+  rarity: string;
+  slot: string;
+  item_power: number;
+  price: number;
+};
+
+type RepairQuote = {
+  inventory_id: string;
+  item_id: string;
+  container: "backpack" | "equipment";
+  name: string;
+  slot: string;
+  durability: { current: number; max: number };
+  state: "sound" | "worn" | "broken";
+  price: number;
+};
+
+type HaggleOutcome = "win" | "even" | "lose" | "soured";
+
 type ShopStockPayload = {
   ok: boolean;
   vendorId: string;
@@ -24,7 +65,11 @@ type ShopStockPayload = {
     generated_at: string;
     seed: number;
     items: ShopStockItem[];
+    buyback?: BuybackEntry[];
   };
+  sellQuotes?: SellQuote[];
+  /** Null when the vendor does not take repairs. */
+  repairQuotes?: RepairQuote[] | null;
   requestId?: string;
 };
 
@@ -33,10 +78,44 @@ type BuyPayload = {
   itemId: string;
   coins: number;
   vendorId: string;
-  stockItemId: string;
+  stockItemId: string | null;
+  buybackId: string | null;
+  price: number;
+  haggle: { outcome: HaggleOutcome; relationship: number } | null;
+  requestId?: string;
+};
+
+type SellPayload = {
+  ok: boolean;
+  itemId: string | null;
+  buybackId: string;
+  price: number | null;
+  quote: number | null;
+  haggle: { outcome: HaggleOutcome; relationship: number } | null;
+  coins: number;
+  vendorId: string;
+  replayed?: boolean;
+  requestId?: string;
+};
+
+type RepairPayload = {
+  ok: boolean;
+  repaired: Array<{ itemId: string; name: string; cost: number }>;
+  price: number | null;
+  coins: number;
+  vendorId: string;
+  replayed?: boolean;
   requestId?: string;
 };
 
+const HAGGLE_NOTES: Record<HaggleOutcome, string> = {
+  win: "You talked the price your way.",
+  even: "The vendor would not budge.",
+  lose: "The haggle backfired; the price moved against you.",
+  soured: "The vendor took offence. They will remember this.",
+};
+const HAGGLE_SPENT_NOTE = "You already haggled over this today; the vendor holds to their price.";
+
 function toInt(v: unknown, fallback = 0): number {
   const n = Number(v);
   return Number.isFinite(n) ? Math.floor(n) : fallback;
@@ -79,12 +158,18 @@ export function ShopDialog(props: {
   vendorName?: string | null;
   coins: number;
   onOpenChange: (open: boolean) => void;
+  /** Called after any purchase, sale, buyback or repair so the caller can refetch coins and inventory. */
   onPurchased: () => Promise<void>;
 }) {
   const [isLoading, setIsLoading] = useState(false);
   const [isBuying, setIsBuying] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [tab, setTab] = useState<"buy" | "sell" | "buyback" | "repair">("buy");
+  const [haggle, setHaggle] = useState(false);
+  const [haggleNote, setHaggleNote] = useState<string | null>(null);
   const [stock, setStock] = useState<ShopStockPayload["stock"] | null>(null);
+  const [sellQuotes, setSellQuotes] = useState<SellQuote[]>([]);
+  const [repairQuotes, setRepairQuotes] = useState<RepairQuote[] | null>(null);
   const [stockSource, setStockSource] = useState<ShopStockPayload["source"] | null>(null);
   const [repairsApplied, setRepairsApplied] = useState<number>(0);
 
@@ -107,12 +192,15 @@ export function ShopDialog(props: {
           body: {
             campaignId: props.campaignId,
             vendorId: props.vendorId,
+            characterId: props.characterId,
             refresh,
           },
         });
         if (edgeError) throw edgeError;
         if (!data?.ok) throw new Error("Failed to load shop stock");
         setStock(data.stock);
+        setSellQuotes(Array.isArray(data.sellQuotes) ? data.sellQuotes : []);
+        setRepairQuotes(Array.isArray(data.repairQuotes) ? data.repairQuotes : null);
         setStockSource(data.source ?? null);
         setRepairsApplied(Number.isFinite(Number(data.repairs_applied)) ? Math.max(0, Math.floor(Number(data.repairs_applied))) : 0);
       } catch (e) {
@@ -122,7 +210,7 @@ export function ShopDialog(props: {
         setIsLoading(false);
       }
     };
-  }, [props.campaignId, props.vendorId]);
+  }, [props.campaignId, props.characterId, props.vendorId]);
 
   useEffect(() => {
     if (!props.open) return;
@@ -131,37 +219,49 @@ export function ShopDialog(props: {
   }, [loadStock, props.open, props.vendorId]);
 
   const items = stock?.items ?? [];
+  const repairTotal = (repairQuotes ?? []).reduce((sum, quote) => sum + toInt(quote.price, 0), 0);
+  const buyback = (stock?.buyback ?? []).filter((entry) => entry.character_id === props.characterId && !entry.bought_back);
 
-  const handleBuy = async (stockItemId: string) => {
+  const handleBuy = async (stockItemId: string, shelfQuantity?: number) => {
     if (!props.vendorId) return;
     setIsBuying(stockItemId);
     setError(null);
+    setHaggleNote(null);
     try {
       const { data, error: edgeError } = await callEdgeFunction<BuyPayload>("mythic-shop-buy", {
         requireAuth: true,
         timeoutMs: 25_000,
         maxRetries: 0,
-        idempotencyKey: `shop-buy:${props.characterId}:${props.vendorId}:${stockItemId}`,
+        // Stacks sell one unit at a time, so the shelf quantity keeps each purchase distinct.
+        idempotencyKey: `shop-buy:${props.characterId}:${props.vendorId}:${stockItemId}${shelfQuantity ? `:${shelfQuantity}` : ""}`,
         body: {
           campaignId: props.campaignId,
           characterId: props.characterId,
           vendorId: props.vendorId,
           stockItemId,
+          haggle,
         },
       });
       if (edgeError) throw edgeError;
       if (!data?.ok) throw new Error("Purchase failed");
+      if (data.haggle) setHaggleNote(`${HAGGLE_NOTES[data.haggle.outcome]} Paid ${data.price} coins.`);
+      else if (haggle) setHaggleNote(`${HAGGLE_SPENT_NOTE} Paid ${data.price} coins.`);
 
       // Optimistically mark sold in local stock.
       setStock((prev) => {
         if (!prev) return prev;
         return {
           ...prev,
-          items: prev.items.map((it) => (it.id === stockItemId ? { ...it, sold: true } : it)),
+          items: prev.items.map((it) => {
+            if (it.id !== stockItemId) return it;
+            if (!shelfQuantity) return { ...it, sold: true };
+            return { ...it, quantity: shelfQuantity - 1, sold: shelfQuantity <= 1 };
+          }),
         };
       });
 
-      await props.onPurchased();
+      // Reload so the Sell tab quotes the new item.
+      await Promise.all([loadStock(false), props.onPurchased()]);
     } catch (e) {
       const parsed = parseEdgeError(e, "Purchase failed");
       setError(parsed.message);
@@ -170,6 +270,104 @@ export function ShopDialog(props: {
     }
   };
 
+  const handleSell = async (quote: SellQuote) => {
+    if (!props.vendorId) return;
+    setIsBuying(quote.inventory_id);
+    setError(null);
+    setHaggleNote(null);
+    try {
+      const { data, error: edgeError } = await callEdgeFunction<SellPayload>("mythic-shop-sell", {
+        requireAuth: true,
+        timeoutMs: 25_000,
+        maxRetries: 0,
+        // Stacks sell one at a time; the remaining quantity and the purse keep each sale distinct, so only a retry repeats a key.
+        idempotencyKey: `shop-sell:${props.characterId}:${props.vendorId}:${quote.inventory_id}:${quote.quantity}:${props.coins}`,
+        body: {
+          campaignId: props.campaignId,
+          characterId: props.characterId,
+          vendorId: props.vendorId,
+          inventoryId: quote.inventory_id,
+          haggle,
+        },
+      });
+      if (edgeError) throw edgeError;
+      if (!data?.ok) throw new Error("Sale failed");
+      if (data.haggle) setHaggleNote(`${HAGGLE_NOTES[data.haggle.outcome]} Sold for ${data.price} coins.`);
+      else if (haggle && !data.replayed) setHaggleNote(`${HAGGLE_SPENT_NOTE} Sold for ${data.price} coins.`);
+      await Promise.all([loadStock(false), props.onPurchased()]);
+    } catch (e) {
+      const parsed = parseEdgeError(e, "Sale failed");
+      setError(parsed.message);
+    } finally {
+      setIsBuying(null);
+    }
+  };
+
+  const handleBuyback = async (entry: BuybackEntry) => {
+    if (!props.vendorId) return;
+    setIsBuying(entry.id);
+    setError(null);
+    setHaggleNote(null);
+    try {
+      const { data, error: edgeError } = await callEdgeFunction<BuyPayload>("mythic-shop-buy", {
+        requireAuth: true,
+        timeoutMs: 25_000,
+        maxRetries: 0,
+        idempotencyKey: `shop-buyback:${props.characterId}:${props.vendorId}:${entry.id}`,
+        body: {
+          campaignId: props.campaignId,
+          characterId: props.characterId,
+          vendorId: props.vendorId,
+          buybackId: entry.id,
+        },
+      });
+      if (edgeError) throw edgeError;
+      if (!data?.ok) throw new Error("Buyback failed");
+      await Promise.all([loadStock(false), props.onPurchased()]);
+    } catch (e) {
+      const parsed = parseEdgeError(e, "Buyback failed");
+      setError(parsed.message);
+    } finally {
+      setIsBuying(null);
+    }
+  };
+
+  const handleRepair = async (quote: RepairQuote | null) => {
+    if (!props.vendorId) return;
+    const busyKey = quote?.inventory_id ?? "repair-all";
+    setIsBuying(busyKey);
+    setError(null);
+    setHaggleNote(null);
+    try {
+      const { data, error: edgeError } = await callEdgeFunction<RepairPayload>("mythic-shop-repair", {
+        requireAuth: true,
+        timeoutMs: 25_000,
+        maxRetries: 0,
+        // Durability left and the purse are part of the key so wearing the item down again makes a new repair.
+        idempotencyKey: quote
+          ? `shop-repair:${props.characterId}:${props.vendorId}:${quote.inventory_id}:${quote.durability.current}:${props.coins}`
+          : `shop-repair:${props.characterId}:${props.vendorId}:all:${(repairQuotes ?? []).map((entry) => `${entry.item_id}.${entry.durability.current}`).join(",")}:${props.coins}`,
+        body: {
+          campaignId: props.campaignId,
+          characterId: props.characterId,
+          vendorId: props.vendorId,
+          ...(quote ? { inventoryId: quote.inventory_id } : {}),
+        },
+      });
+      if (edgeError) throw edgeError;
+      if (!data?.ok) throw new Error("Repair failed");
+      if (!data.replayed) {
+        setHaggleNote(`Repaired ${data.repaired.length === 1 ? data.repaired[0]!.name : `${data.repaired.length} items`} for ${data.price} coins.`);
+      }
+      await Promise.all([loadStock(false), props.onPurchased()]);
+    } catch (e) {
+      const parsed = parseEdgeError(e, "Repair failed");
+      setError(parsed.message);
+    } finally {
+      setIsBuying(null);
+    }
+  };
+
   return (
     <Dialog open={props.open} onOpenChange={props.onOpenChange}>
       <DialogContent className="max-h-[90vh] max-w-3xl overflow-hidden border border-border bg-card/90 backdrop-blur-md">
@@ -191,9 +389,15 @@ export function ShopDialog(props: {
                 <span>Generated: <span className="text-foreground">{new Date(stock.generated_at).toLocaleString()}</span></span>
               ) : null}
             </div>
-            <Button size="sm" variant="outline" onClick={() => void loadStock(true)} disabled={isLoading || !props.vendorId}>
-              Regenerate vendor stock
-            </Button>
+            <div className="flex items-center gap-3">
+              <label className="flex items-center gap-2">
+                <Switch checked={haggle} onCheckedChange={setHaggle} aria-label="Haggle" />
+                <span>Haggle</span>
+              </label>
+              <Button size="sm" variant="outline" onClick={() => void loadStock(true)} disabled={isLoading || !props.vendorId}>
+                Regenerate vendor stock
+              </Button>
+            </div>
           </div>
 
           {error ? (
@@ -202,6 +406,10 @@ export function ShopDialog(props: {
             </div>
           ) : null}
 
+          {haggleNote ? (
+            <div className="mb-3 rounded border border-border bg-background/30 px-3 py-2 text-xs text-foreground">{haggleNote}</div>
+          ) : null}
+
           {isLoading ? (
             <div className="flex items-center gap-2 py-4 text-sm text-muted-foreground">
               <Loader2 className="h-4 w-4 animate-spin" />
@@ -209,65 +417,187 @@ export function ShopDialog(props: {
             </div>
           ) : null}
 
-          {!isLoading && items.length === 0 ? (
-            <div className="text-sm text-muted-foreground">No stock available.</div>
-          ) : null}
+          <Tabs value={tab} onValueChange={(value) => setTab(value as typeof tab)}>
+            <TabsList className="mb-3">
+              <TabsTrigger value="buy">Buy</TabsTrigger>
+              <TabsTrigger value="sell">Sell</TabsTrigger>
+              <TabsTrigger value="buyback">Buyback{buyback.length > 0 ? ` (${buyback.length})` : ""}</TabsTrigger>
+              {repairQuotes ? (
+                <TabsTrigger value="repair">Repair{repairQuotes.length > 0 ? ` (${repairQuotes.length})` : ""}</TabsTrigger>
+              ) : null}
+            </TabsList>
+
+            <TabsContent value="buy">
+              {!isLoading && items.length === 0 ? (
+                <div className="text-sm text-muted-foreground">No stock available.</div>
+              ) : null}
+
+              <div className="grid gap-2 md:grid-cols-2">
+                {items.map((entry) => {
+                  const item = entry.item ?? {};
+                  const name = String((item as Record<string, unknown>).name ?? "Item");
+                  const rarity = labelRarity((item as Record<string, unknown>).rarity);
+                  const slot = String((item as Record<string, unknown>).slot ?? "other");
+                  const requiredLevel = toInt((item as Record<string, unknown>).required_level, 1);
+                  const itemPower = toInt((item as Record<string, unknown>).item_power, 0);
+                  const mods = readStatMods(item as Record<string, unknown>);
+                  const sold = Boolean(entry.sold);
+                  const price = toInt(entry.price, 0);
+                  const canAfford = props.coins >= price;
+                  const consumable = itemConsumable(item as unknown as MythicItemRow);
+                  const shelfQuantity = typeof entry.quantity === "number" ? toInt(entry.quantity, 0) : undefined;
+
+                  return (
+                    <div key={entry.id} className="rounded-lg border border-border bg-background/30 p-3">
+                      <div className="flex items-start justify-between gap-2">
+                        <div>
+                          <div className="text-sm font-semibold">{name}</div>
+                          <div className="text-xs text-muted-foreground">{rarity} · {slot} · req lvl {requiredLevel} · power {itemPower}</div>
+                        </div>
+                        <div className="text-right text-xs text-muted-foreground">
+                          <div className="font-medium text-foreground">{price} coins</div>
+                          {sold ? <div className="text-[11px] text-muted-foreground">Sold</div> : null}
+                          {!sold && shelfQuantity !== undefined ? <div className="text-[11px] text-muted-foreground">{shelfQuantity} left</div> : null}
+                        </div>
+                      </div>
+
+                      {consumable ? (
+                        <div className="mt-2 text-[11px] text-muted-foreground">
+                          {consumable.summary} · {consumable.targeting === "area" ? `throw ${consumable.rangeTiles} tiles` : consumable.targeting === "ally" ? `self or ally within ${consumable.rangeTiles}` : "self"}
+                        </div>
+                      ) : null}
 
-          <div className="grid gap-2 md:grid-cols-2">
-            {items.map((entry) => {
-              const item = entry.item ?? {};
-              const name = String((item as Record<string, unknown>).name ?? "Item");
-              const rarity = labelRarity((item as Record<string, unknown>).rarity);
-              const slot = String((item as Record<string, unknown>).slot ?? "other");
-              const requiredLevel = toInt((item as Record<string, unknown>).required_level, 1);
-              const itemPower = toInt((item as Record<string, unknown>).item_power, 0);
-              const mods = readStatMods(item as Record<string, unknown>);
-              const sold = Boolean(entry.sold);
-              const price = toInt(entry.price, 0);
-              const canAfford = props.coins >= price;
-
-              return (
-                <div key={entry.id} className="rounded-lg border border-border bg-background/30 p-3">
-                  <div className="flex items-start justify-between gap-2">
-                    <div>
-                      <div className="text-sm font-semibold">{name}</div>
-                      <div className="text-xs text-muted-foreground">{rarity} · {slot} · req lvl {requiredLevel} · power {itemPower}</div>
+                      {mods.length > 0 ? (
+                        <div className="mt-2 grid grid-cols-2 gap-1 text-[11px] text-muted-foreground">
+                          {mods
+                            .filter(([k]) => !k.startsWith("_"))
+                            .slice(0, 6)
+                            .map(([k, v]) => (
+                              <div key={k}>
+                                {k}: <span className="text-foreground">{String(v)}</span>
+                              </div>
+                            ))}
+                        </div>
+                      ) : null}
+
+                      <div className="mt-3 flex items-center justify-between gap-2">
+                        <Button
+                          size="sm"
+                          onClick={() => void handleBuy(entry.id, shelfQuantity)}
+                          disabled={sold || Boolean(isBuying) || !canAfford}
+                        >
+                          {isBuying === entry.id ? "Buying..." : sold ? "Sold" : "Buy"}
+                        </Button>
+                        {!sold && !canAfford ? (
+                          <div className="text-[11px] text-destructive">Need {Math.max(0, price - props.coins)} more coins</div>
+                        ) : null}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </TabsContent>
+
+            <TabsContent value="sell">
+              {!isLoading && sellQuotes.length === 0 ? (
+                <div className="text-sm text-muted-foreground">Nothing in your backpack to sell. Equipped gear has to come off first.</div>
+              ) : null}
+              <div className="grid gap-2 md:grid-cols-2">
+                {sellQuotes.map((quote) => (
+                  <div key={quote.inventory_id} className="rounded-lg border border-border bg-background/30 p-3">
+                    <div className="flex items-start justify-between gap-2">
+                      <div>
+                        <div className="text-sm font-semibold">{quote.name}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {labelRarity(quote.rarity)} · {quote.slot} · power {toInt(quote.item_power, 0)}
+                          {quote.quantity > 1 ? ` · x${quote.quantity}` : ""}
+                        </div>
+                      </div>
+                      <div className="text-right text-xs font-medium text-foreground">{toInt(quote.price, 0)} coins</div>
                     </div>
-                    <div className="text-right text-xs text-muted-foreground">
-                      <div className="font-medium text-foreground">{price} coins</div>
-                      {sold ? <div className="text-[11px] text-muted-foreground">Sold</div> : null}
+                    <div className="mt-3">
+                      <Button size="sm" variant="secondary" onClick={() => void handleSell(quote)} disabled={Boolean(isBuying) || isLoading}>
+                        {isBuying === quote.inventory_id ? "Selling..." : "Sell"}
+                      </Button>
                     </div>
                   </div>
+                ))}
+              </div>
+            </TabsContent>
 
-                  {mods.length > 0 ? (
-                    <div className="mt-2 grid grid-cols-2 gap-1 text-[11px] text-muted-foreground">
-                      {mods
-                        .filter(([k]) => !k.startsWith("_"))
-                        .slice(0, 6)
-                        .map(([k, v]) => (
-                          <div key={k}>
-                            {k}: <span className="text-foreground">{String(v)}</span>
-                          </div>
-                        ))}
+            <TabsContent value="buyback">
+              {!isLoading && buyback.length === 0 ? (
+                <div className="text-sm text-muted-foreground">Items you sell here stay on the shelf until the vendor restocks.</div>
+              ) : null}
+              <div className="grid gap-2 md:grid-cols-2">
+                {buyback.map((entry) => {
+                  const price = toInt(entry.price, 0);
+                  const canAfford = props.coins >= price;
+                  return (
+                    <div key={entry.id} className="rounded-lg border border-border bg-background/30 p-3">
+                      <div className="flex items-start justify-between gap-2">
+                        <div>
+                          <div className="text-sm font-semibold">{entry.name}</div>
+                          <div className="text-xs text-muted-foreground">{labelRarity(entry.rarity)} · {entry.slot}</div>
+                        </div>
+                        <div className="text-right text-xs font-medium text-foreground">{price} coins</div>
+                      </div>
+                      <div className="mt-3 flex items-center justify-between gap-2">
+                        <Button size="sm" onClick={() => void handleBuyback(entry)} disabled={Boolean(isBuying) || !canAfford}>
+                          {isBuying === entry.id ? "Buying..." : "Buy back"}
+                        </Button>
+                        {!canAfford ? (
+                          <div className="text-[11px] text-destructive">Need {Math.max(0, price - props.coins)} more coins</div>
+                        ) : null}
+                      </div>
                     </div>
-                  ) : null}
-
-                  <div className="mt-3 flex items-center justify-between gap-2">
-                    <Button
-                      size="sm"
-                      onClick={() => void handleBuy(entry.id)}
-                      disabled={sold || Boolean(isBuying) || !canAfford}
-                    >
-                      {isBuying === entry.id ? "Buying..." : sold ? "Sold" : "Buy"}
-                    </Button>
-                    {!sold && !canAfford ? (
-                      <div className="text-[11px] text-destructive">Need {Math.max(0, price - props.coins)} more coins</div>
-                    ) : null}
-                  </div>
+                  );
+                })}
+              </div>
+            </TabsContent>
+
+            <TabsContent value="repair">
+              {!isLoading && (repairQuotes ?? []).length === 0 ? (
+                <div className="text-sm text-muted-foreground">Your gear is in good shape.</div>
+              ) : null}
+              {(repairQuotes ?? []).length > 1 ? (
+                <div className="mb-2 flex items-center justify-between gap-2 rounded border border-border bg-background/20 px-3 py-2 text-xs">
+                  <span>Repair everything for <span className="font-medium text-foreground">{repairTotal} coins</span></span>
+                  <Button size="sm" onClick={() => void handleRepair(null)} disabled={Boolean(isBuying) || isLoading || props.coins < repairTotal}>
+                    {isBuying === "repair-all" ? "Repairing..." : "Repair all"}
+                  </Button>
                 </div>
-              );
-            })}
-          </div>
+              ) : null}
+              <div className="grid gap-2 md:grid-cols-2">
+                {(repairQuotes ?? []).map((quote) => {
+                  const price = toInt(quote.price, 0);
+                  const canAfford = props.coins >= price;
+                  return (
+                    <div key={quote.inventory_id} className="rounded-lg border border-border bg-background/30 p-3">
+                      <div className="flex items-start justify-between gap-2">
+                        <div>
+                          <div className="text-sm font-semibold">{quote.name}</div>
+                          <div className="text-xs text-muted-foreground">
+                            {quote.slot} · {quote.container === "equipment" ? "equipped" : "backpack"} · durability {quote.durability.current}/{quote.durability.max}
+                          </div>
+                          {quote.state === "broken" ? <div className="text-[11px] text-destructive">Broken: its stat mods are inactive.</div> : null}
+                        </div>
+                        <div className="text-right text-xs font-medium text-foreground">{price} coins</div>
+                      </div>
+                      <div className="mt-3 flex items-center justify-between gap-2">
+                        <Button size="sm" variant="secondary" onClick={() => void handleRepair(quote)} disabled={Boolean(isBuying) || isLoading || !canAfford}>
+                          {isBuying === quote.inventory_id ? "Repairing..." : "Repair"}
+                        </Button>
+                        {!canAfford ? (
+                          <div className="text-[11px] text-destructive">Need {Math.max(0, price - props.coins)} more coins</div>
+                        ) : null}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </TabsContent>
+          </Tabs>
         </div>
       </DialogContent>
     </Dialog>
@@ -4,9 +4,11 @@ interface BoardGridLayerProps {
   cols: number;
   rows: number;
   blockedTiles?: Array<{ x: number; y: number }>;
+  hazardTiles?: Array<{ x: number; y: number; kind: string }>;
   className?: string;
   gridLineColor?: string;
   blockedTileClassName?: string;
+  hazardTileClassName?: string;
   testId?: string;
   onSelectMiss: (point: { x: number; y: number }) => void;
   children?: ReactNode;
@@ -36,6 +38,7 @@ export function BoardGridLayer(props: BoardGridLayerProps) {
   const rows = Math.max(1, Math.floor(props.rows));
   const gridLineColor = props.gridLineColor ?? "rgba(255,255,255,0.08)";
   const blockedTileClassName = props.blockedTileClassName ?? "border border-amber-200/40 bg-amber-300/20";
+  const hazardTileClassName = props.hazardTileClassName ?? "border border-dashed border-orange-300/45 bg-orange-500/15";
 
   return (
     <div
@@ -66,6 +69,20 @@ export function BoardGridLayer(props: BoardGridLayerProps) {
         />
       ))}
 
+      {(props.hazardTiles ?? []).map((tile) => (
+        <div
+          key={`hazard-${tile.x}-${tile.y}`}
+          data-hazard-kind={tile.kind}
+          className={`pointer-events-none absolute ${hazardTileClassName}`}
+          style={{
+            left: toPercent(tile.x, cols),
+            top: toPercent(tile.y, rows),
+            width: toPercent(1, cols),
+            height: toPercent(1, rows),
+          }}
+        />
+      ))}
+
       {props.children}
     </div>
   );
@@ -98,6 +98,8 @@ export function BoardInspectCard(props: BoardInspectCardProps) {
   const statusFamilies = asStringList(target.meta?.status_families);
   const statuses = asStringList(target.meta?.statuses);
   const tacticalStatuses = statusFamilies.length > 0 ? statusFamilies : statuses;
+  const whereabouts = asString(target.meta?.whereabouts);
+  const backAtWork = asString(target.meta?.back_at_work);
   const metaRows = Object.entries(target.meta ?? {})
     .filter(([key]) => !key.startsWith("_"))
     .slice(0, 10);
@@ -132,6 +134,12 @@ export function BoardInspectCard(props: BoardInspectCardProps) {
           {inRangeAttack !== null ? ` · ${inRangeAttack ? "In range" : "Out of range"}` : ""}
         </div>
       ) : null}
+      {whereabouts || backAtWork ? (
+        <div data-testid="inspect-whereabouts" className="mt-2 rounded border border-amber-200/25 bg-black/20 px-2 py-1.5 text-[11px] text-amber-100/80">
+          {whereabouts ? <div><span className="font-semibold text-amber-100">Now</span>: {whereabouts}</div> : null}
+          {backAtWork ? <div><span className="font-semibold text-amber-100">Shop</span>: {backAtWork}</div> : null}
+        </div>
+      ) : null}
       {fullName || team || intent || turnState || hpCurrent !== null || mpCurrent !== null || armor !== null || tacticalStatuses.length > 0 ? (
         <div className="mt-2 rounded border border-amber-200/25 bg-black/20 px-2 py-1.5 text-[11px] text-amber-100/80">
           <div data-testid="inspect-tactical-header" className="mb-1 text-[10px] uppercase tracking-wide text-amber-100/70">Tactical</div>
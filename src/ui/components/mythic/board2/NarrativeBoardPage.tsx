@@ -32,6 +32,7 @@ interface NarrativeBoardPageProps {
   showDevDetails: boolean;
   onRetryCombatStart: () => void;
   onQuickCast: (skillId: string, targeting: string) => void;
+  onUseItem: (inventoryId: string, targeting: string) => void;
   onContinueCombatResolution: () => void;
   onAction: (action: MythicUiAction, source: "board_hotspot" | "console_action") => void;
 }
@@ -70,13 +71,13 @@ function primaryWarning(args: {
 
 export function NarrativeBoardPage(props: NarrativeBoardPageProps) {
   const [inspectTarget, setInspectTarget] = useState<NarrativeInspectTarget | null>(null);
-  const [skillsExpanded, setSkillsExpanded] = useState(false);
+  const [openTray, setOpenTray] = useState<"skills" | "items" | null>(null);
   const topSafeInsetPx = Math.max(0, Math.floor(props.topSafeInsetPx ?? 58));
   const bottomSafeInsetPx = Math.max(0, Math.floor(props.bottomSafeInsetPx ?? 92));
 
   useEffect(() => {
     setInspectTarget(null);
-    setSkillsExpanded(false);
+    setOpenTray(null);
   }, [props.scene.mode]);
 
   useEffect(() => {
@@ -120,7 +121,7 @@ export function NarrativeBoardPage(props: NarrativeBoardPageProps) {
   const popupModel = props.scene.popup;
   const syncActive = props.isBusy || props.isStateRefreshing;
   const inspectBottomOffsetClass = combatDetails
-    ? (skillsExpanded ? "bottom-[332px]" : "bottom-[216px]")
+    ? (openTray ? "bottom-[332px]" : "bottom-[216px]")
     : "bottom-[100px]";
 
   return (
@@ -234,19 +235,28 @@ export function NarrativeBoardPage(props: NarrativeBoardPageProps) {
             ))}
           </div>
 
-          <div className="mt-2">
+          <div className="mt-2 flex gap-1">
             <Button
               size="sm"
               variant="secondary"
               className="h-7 text-[11px]"
               disabled={Boolean(resolutionPending)}
-              onClick={() => setSkillsExpanded((prev) => !prev)}
+              onClick={() => setOpenTray((prev) => (prev === "skills" ? null : "skills"))}
             >
-              {skillsExpanded ? "Hide Skills" : `Skills (${combatDetails.quickCast.length})`}
+              {openTray === "skills" ? "Hide Skills" : `Skills (${combatDetails.quickCast.length})`}
+            </Button>
+            <Button
+              size="sm"
+              variant="secondary"
+              className="h-7 text-[11px]"
+              disabled={Boolean(resolutionPending)}
+              onClick={() => setOpenTray((prev) => (prev === "items" ? null : "items"))}
+            >
+              {openTray === "items" ? "Hide Items" : `Items (${combatDetails.items.length})`}
             </Button>
           </div>
 
-          {skillsExpanded ? (
+          {openTray === "skills" ? (
             <div className="mt-2 grid max-h-[190px] gap-1 overflow-auto pr-1 sm:grid-cols-2">
               {combatDetails.quickCast.length === 0 ? (
                 <div className="text-xs text-red-100/75">No active skills available.</div>
@@ -267,6 +277,29 @@ export function NarrativeBoardPage(props: NarrativeBoardPageProps) {
               ))}
             </div>
           ) : null}
+
+          {openTray === "items" ? (
+            <div className="mt-2 grid max-h-[190px] gap-1 overflow-auto pr-1 sm:grid-cols-2">
+              {combatDetails.items.length === 0 ? (
+                <div className="text-xs text-red-100/75">No consumables in your backpack.</div>
+              ) : combatDetails.items.map((entry) => (
+                <Button
+                  key={`combat-item-${entry.inventoryId}`}
+                  size="sm"
+                  variant={entry.usableNow ? "secondary" : "ghost"}
+                  disabled={!entry.usableNow || props.isBusy || Boolean(resolutionPending)}
+                  className="h-7 justify-between text-[11px]"
+                  title={entry.summary}
+                  onClick={() => props.onUseItem(entry.inventoryId, entry.targeting)}
+                >
+                  <span className="truncate">{entry.name} x{entry.quantity}</span>
+                  <span className="ml-2 text-[10px] uppercase tracking-wide">
+                    {entry.usableNow ? (entry.targeting === "area" ? "throw" : "use") : (entry.reason ?? "locked")}
+                  </span>
+                </Button>
+              ))}
+            </div>
+          ) : null}
         </div>
       ) : null}
 
@@ -274,7 +307,7 @@ export function NarrativeBoardPage(props: NarrativeBoardPageProps) {
         <div
           data-testid="board-inspect-popup"
           className={`absolute inset-x-2 z-30 ${inspectBottomOffsetClass}`}
-          style={{ bottom: `${bottomSafeInsetPx + (combatDetails ? (skillsExpanded ? 240 : 126) : 8)}px` }}
+          style={{ bottom: `${bottomSafeInsetPx + (combatDetails ? (openTray ? 240 : 126) : 8)}px` }}
         >
           <BoardInspectCard
             target={inspectTarget}
@@ -194,7 +194,7 @@ export function buildMissClickInspectTarget(args: {
   }
 
   if (mode === "dungeon") {
-    const firstRoom = args.dungeon?.rooms[0]?.id ?? null;
+    const currentRoom = args.dungeon?.currentRoomId ?? args.dungeon?.rooms[0]?.id ?? null;
     const actions: MythicUiAction[] = [
       {
         id: `dungeon-probe-${x}-${y}`,
@@ -202,7 +202,7 @@ export function buildMissClickInspectTarget(args: {
         intent: "dm_prompt",
         prompt: `I assess this dungeon position (${x}, ${y}) for danger signals, exits, and leverage.`,
         payload: {
-          room_id: firstRoom,
+          room_id: currentRoom,
           action: "assess_room",
           probe_point: { x, y },
         },
@@ -213,7 +213,7 @@ export function buildMissClickInspectTarget(args: {
         intent: "dm_prompt",
         prompt: `I run a focused trap sweep around dungeon point (${x}, ${y}) and map the safe path forward.`,
         payload: {
-          room_id: firstRoom,
+          room_id: currentRoom,
           action: "disarm_traps",
           probe_point: { x, y },
         },
@@ -340,6 +340,7 @@ export function buildTownVendorActions(vendor: { id: string; name: string; servi
 
 export function buildTownNoticeBoardActions(jobPostings: Array<{ id: string; title: string; status: string }>): MythicUiAction[] {
   const openJob = jobPostings.find((entry) => entry.status === "open") ?? null;
+  const readyJob = jobPostings.find((entry) => entry.status === "ready") ?? null;
   return [
     {
       id: "town-notice-read",
@@ -366,6 +367,21 @@ export function buildTownNoticeBoardActions(jobPostings: Array<{ id: string; tit
           },
         ]
       : []),
+    ...(readyJob
+      ? [
+          {
+            id: `town-notice-turn-in-${slugToken(readyJob.id)}`,
+            label: `Turn in: ${compactLabel(readyJob.title, 32)}`,
+            intent: "dm_prompt" as const,
+            prompt: `I turn in the contract "${readyJob.title}" and collect what I am owed.`,
+            payload: {
+              board_feature: "notice_board",
+              job_action: "complete",
+              job_posting_id: readyJob.id,
+            },
+          },
+        ]
+      : []),
     {
       id: "town-notice-open-quests",
       label: "Open quest ledger",
@@ -608,13 +624,24 @@ export function buildDungeonDoorActions(args: {
   fromRoomId: string;
   toRoomId: string;
   toRoomName: string;
+  lock?: "needs_key" | "has_key" | null;
 }): MythicUiAction[] {
+  const label = args.lock === "has_key"
+    ? `Unlock route to ${args.toRoomName}`
+    : args.lock === "needs_key"
+      ? `Try locked door to ${args.toRoomName}`
+      : `Open to ${args.toRoomName}`;
+  const prompt = args.lock === "has_key"
+    ? `I use our key on the locked door from ${args.fromRoomId} and push into ${args.toRoomName}.`
+    : args.lock === "needs_key"
+      ? `I test the locked door from ${args.fromRoomId} to ${args.toRoomName} and look for what opens it.`
+      : `I open the route from ${args.fromRoomId} to ${args.toRoomName} and commit to controlled entry.`;
   return [
     {
       id: `dungeon-door-${slugToken(args.fromRoomId)}-${slugToken(args.toRoomId)}`,
-      label: `Open to ${args.toRoomName}`,
+      label,
       intent: "dm_prompt",
-      prompt: `I open the route from ${args.fromRoomId} to ${args.toRoomName} and commit to controlled entry.`,
+      prompt,
       payload: {
         room_id: args.fromRoomId,
         to_room_id: args.toRoomId,
@@ -817,19 +844,19 @@ export function buildTravelFallbackActions(data: TravelSceneData): MythicUiActio
 }
 
 export function buildDungeonFallbackActions(data: DungeonSceneData): MythicUiAction[] {
-  const firstRoom = data.rooms[0] ?? null;
+  const currentRoom = data.rooms.find((room) => room.id === data.currentRoomId) ?? data.rooms[0] ?? null;
   return dedupeBoardActions([
-    ...(firstRoom
+    ...(currentRoom
       ? buildDungeonRoomActions({
-          roomId: firstRoom.id,
-          roomName: firstRoom.name,
-          roomStatus: typeof data.roomState[firstRoom.id] === "object"
-            ? String((data.roomState[firstRoom.id] as Record<string, unknown>).status ?? "") || null
+          roomId: currentRoom.id,
+          roomName: currentRoom.name,
+          roomStatus: typeof data.roomState[currentRoom.id] === "object"
+            ? String((data.roomState[currentRoom.id] as Record<string, unknown>).status ?? "") || null
             : null,
         })
       : []),
-    ...buildDungeonFeatureActions({ roomId: firstRoom?.id ?? null, feature: "trap" }),
-    ...buildDungeonFeatureActions({ roomId: firstRoom?.id ?? null, feature: "chest" }),
+    ...buildDungeonFeatureActions({ roomId: currentRoom?.id ?? null, feature: "trap" }),
+    ...buildDungeonFeatureActions({ roomId: currentRoom?.id ?? null, feature: "chest" }),
   ], 6);
 }
 
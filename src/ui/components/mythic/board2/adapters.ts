@@ -14,13 +14,18 @@ import {
 } from "@/ui/components/mythic/board2/actionBuilders";
 import type {
   CombatSceneData,
+  DungeonDoorKind,
   DungeonSceneData,
+  DungeonSceneEdge,
+  DungeonSceneRoom,
   NarrativeBoardAdapterInput,
   NarrativeBoardSceneModel,
   NarrativeDockCardModel,
   NarrativeFeedItem,
+  NarrativeHazardTile,
   NarrativeHeroModel,
   NarrativeHotspot,
+  NarrativeSceneEnvironment,
   NarrativeSceneLegendItem,
   NarrativeSceneMetric,
   NarrativeTone,
@@ -91,6 +96,49 @@ function summarySamples(summary: Record<string, unknown>, key: string): string[]
   return normalizeTextList(summary[key]);
 }
 
+const TOWN_PLACE_LABELS: Record<string, string> = {
+  market: "the market",
+  square: "the square",
+  gate: "the gate",
+  alley: "the back alley",
+  notice_board: "the notice board",
+  chapel: "the chapel",
+};
+
+function townPlaceLabel(place: string): string {
+  return TOWN_PLACE_LABELS[place] ?? place.replace(/_/g, " ");
+}
+
+function describeNpcWhereabouts(args: { state: string; destination: string; workplace: string | null }): string {
+  const work = args.workplace ? townPlaceLabel(args.workplace) : "their post";
+  const stop = args.destination === "home" ? "home" : args.destination === "work" ? work : townPlaceLabel(args.destination);
+  switch (args.state) {
+    case "at_home":
+      return "At home";
+    case "working":
+      return `Working at ${work}`;
+    case "visiting":
+      return `At ${stop}`;
+    case "errand":
+      return `On an errand at ${stop}`;
+    case "walking":
+      return `Walking to ${stop}`;
+    case "talking":
+      return "Talking with you";
+    default:
+      return `Around ${townPlaceLabel(args.state)}`;
+  }
+}
+
+function describeNpcBackAtWork(value: unknown, workplace: string | null): string | null {
+  const row = asRecord(value);
+  const period = asString(row.period);
+  if (!period) return null;
+  const inTicks = Math.max(1, Math.floor(asNumber(row.in_ticks, 1)));
+  const place = workplace ? townPlaceLabel(workplace) : "their post";
+  return `Back at ${place} by ${period.replace(/_/g, " ")}${inTicks > 1 ? ` (${inTicks} turns)` : ""}`;
+}
+
 function parseTownData(args: {
   boardState: Record<string, unknown>;
   summary: Record<string, unknown>;
@@ -121,7 +169,7 @@ function parseTownData(args: {
         id,
         title,
         summary,
-        status: status === "completed" || status === "accepted" ? status : "open",
+        status: ["accepted", "ready", "completed", "failed"].includes(status) ? status : "open",
       };
     })
     .filter((entry) => entry.title.length > 0)
@@ -148,6 +196,8 @@ function parseTownData(args: {
       const locationPayload = asRecord(row.location_tile);
       const x = Math.max(0, Math.min(11, Math.floor(asNumber(locationPayload.x, index % 4))));
       const y = Math.max(0, Math.min(7, Math.floor(asNumber(locationPayload.y, 5 + Math.floor(index / 4)))));
+      const scheduleState = asString(row.schedule_state, "idle");
+      const workplace = asString(asRecord(row.schedule).workplace) || null;
       return {
         id,
         name: asString(row.name, `Town NPC ${index + 1}`),
@@ -157,7 +207,9 @@ function parseTownData(args: {
         relationship: Math.max(-100, Math.min(100, Math.round(relationshipRaw))),
         grudge: Math.max(0, Math.min(100, Math.round(grudgeRaw))),
         locationTile: { x, y },
-        scheduleState: asString(row.schedule_state, "idle"),
+        scheduleState,
+        whereabouts: describeNpcWhereabouts({ state: scheduleState, destination: asString(row.destination, "home"), workplace }),
+        backAtWork: scheduleState === "working" ? null : describeNpcBackAtWork(row.back_at_work, workplace),
       };
     })
     .slice(0, 12);
@@ -169,10 +221,17 @@ function parseTownData(args: {
       const actor = asString(row.npc_name) || asString(row.npc_id) || "Someone";
       const action = asString(row.action) || asString(row.kind) || "moves";
       const detail = asString(row.detail);
+      // Schedule and gossip lines are already full sentences about the actor.
+      if (detail.startsWith(actor)) return detail;
       return `${actor} ${action}${detail ? ` · ${detail}` : ""}`;
     })
     .filter((entry) => entry.length > 0)
     .slice(-12);
+  const clockRow = asRecord(args.boardState.town_clock);
+  const clockPeriod = asString(clockRow.period);
+  const clock = clockPeriod
+    ? { day: Math.max(1, Math.floor(asNumber(clockRow.day, 1))), period: clockPeriod.replace(/_/g, " ") }
+    : null;
   const relationshipPressure = npcs
     .slice(0, 8)
     .reduce((acc, entry) => acc + Math.abs(entry.relationship), 0);
@@ -187,6 +246,7 @@ function parseTownData(args: {
     rumors: rumors.length > 0 ? rumors : fallbackRumors,
     factionsPresent: factions,
     npcs,
+    clock,
     relationshipPressure,
     grudgePressure,
     activityLog,
@@ -233,54 +293,74 @@ function parseTravelData(args: {
   };
 }
 
+function parseDungeonRoom(entry: unknown, index: number): Omit<DungeonSceneRoom, "visited"> {
+  const row = asRecord(entry);
+  return {
+    id: asString(row.id, `room_${index + 1}`),
+    name: asString(row.name, `Room ${index + 1}`),
+    tags: asArray(row.tags).map((tag) => asString(tag)).filter((tag) => tag.length > 0),
+    danger: Math.max(0, Math.min(10, Math.floor(asNumber(row.danger, 0)))),
+    role: asString(row.role, "chamber"),
+    depth: Math.max(0, Math.floor(asNumber(row.depth, index))),
+  };
+}
+
 function parseDungeonData(args: {
   boardState: Record<string, unknown>;
   summary: Record<string, unknown>;
 }): DungeonSceneData {
   const roomGraph = asRecord(args.boardState.room_graph);
+  const progress = asRecord(args.boardState.dungeon_progress);
+  const fog = asRecord(args.boardState.fog_of_war);
+  const visited = normalizeTextList(progress.visited);
+  const unlockedDoors = normalizeTextList(progress.unlocked_doors);
+  const foundSecrets = normalizeTextList(progress.found_secrets);
+  // Runtime rows from before the graph generator have no progress; show their whole chain.
+  const revealed = visited.length > 0 ? new Set(normalizeTextList(fog.revealed)) : null;
+
   const rooms = asArray(roomGraph.rooms)
-    .map((entry, index) => {
-      const row = asRecord(entry);
-      return {
-        id: asString(row.id, `room_${index + 1}`),
-        name: asString(row.name, `Room ${index + 1}`),
-        tags: asArray(row.tags).map((tag) => asString(tag)).filter((tag) => tag.length > 0),
-        danger: Math.max(0, Math.min(10, Math.floor(asNumber(row.danger, 0)))),
-      };
-    })
-    .filter((entry) => entry.id.length > 0)
-    .sort((a, b) => a.id.localeCompare(b.id));
+    .map(parseDungeonRoom)
+    .filter((entry) => entry.id.length > 0 && (!revealed || revealed.has(entry.id)))
+    .map((entry) => ({ ...entry, visited: visited.includes(entry.id) }))
+    .sort((a, b) => a.depth - b.depth || a.id.localeCompare(b.id, undefined, { numeric: true }));
 
   const fallbackRooms = asArray(args.summary.room_samples)
-    .map((entry, index) => {
-      const row = asRecord(entry);
-      return {
-        id: asString(row.id, `room_${index + 1}`),
-        name: asString(row.name, `Room ${index + 1}`),
-        tags: asArray(row.tags).map((tag) => asString(tag)).filter((tag) => tag.length > 0),
-        danger: Math.max(0, Math.min(10, Math.floor(asNumber(row.danger, 0)))),
-      };
-    })
+    .map(parseDungeonRoom)
     .filter((entry) => entry.id.length > 0)
-    .sort((a, b) => a.id.localeCompare(b.id))
+    .map((entry) => ({ ...entry, visited: false }))
+    .sort((a, b) => a.depth - b.depth || a.id.localeCompare(b.id, undefined, { numeric: true }))
     .slice(0, 8);
 
+  const roomIds = new Set(rooms.map((room) => room.id));
   const edges = asArray(roomGraph.edges)
-    .map((entry) => {
+    .map((entry, index) => {
       const row = asRecord(entry);
       const from = asString(row.from);
       const to = asString(row.to);
-      if (!from || !to) return null;
-      return { from, to };
+      if (!from || !to || !roomIds.has(from) || !roomIds.has(to)) return null;
+      const id = asString(row.id, `door_${index + 1}`);
+      const kind: DungeonDoorKind = row.kind === "locked" || row.kind === "secret" ? row.kind : "open";
+      if (kind === "secret" && revealed && !foundSecrets.includes(id)) return null;
+      return {
+        id,
+        from,
+        to,
+        kind,
+        keyId: asString(row.key_id) || null,
+        unlocked: unlockedDoors.includes(id),
+      };
     })
-    .filter((entry): entry is { from: string; to: string } => Boolean(entry));
+    .filter((entry): entry is DungeonSceneEdge => Boolean(entry));
 
   const roomState = asRecord(args.boardState.room_state);
   const factionPresence = normalizeTextList(args.boardState.faction_presence);
+  const currentRoomId = asString(progress.current_room_id) || asString(fog.current_room_id) || null;
 
   return {
     rooms: rooms.length > 0 ? rooms : fallbackRooms,
     edges,
+    currentRoomId: currentRoomId && roomIds.has(currentRoomId) ? currentRoomId : rooms[0]?.id ?? null,
+    keysHeld: normalizeTextList(progress.keys_held),
     roomState,
     trapSignals: Math.max(0, Math.floor(asNumber(args.boardState.trap_signals, asNumber(args.summary.trap_signals, 0)))),
     lootNodes: Math.max(0, Math.floor(asNumber(args.boardState.loot_nodes, asNumber(args.summary.loot_nodes, 0)))),
@@ -301,6 +381,35 @@ function parseBlockedTiles(boardState: Record<string, unknown>): Array<{ x: numb
     .slice(0, 180);
 }
 
+// Combat arenas are sized per encounter; older runtimes without a grid keep the 14x10 bounds the server used.
+function parseCombatArena(boardState: Record<string, unknown>): { cols: number; rows: number } {
+  const grid = asRecord(boardState.grid);
+  const cols = Math.floor(asNumber(grid.width, 14));
+  const rows = Math.floor(asNumber(grid.height, 10));
+  return {
+    cols: Math.max(1, Math.min(32, cols)),
+    rows: Math.max(1, Math.min(32, rows)),
+  };
+}
+
+function parseHazardTiles(boardState: Record<string, unknown>): NarrativeHazardTile[] {
+  return asArray(boardState.hazard_tiles)
+    .map((entry) => {
+      const row = asRecord(entry);
+      const x = Math.floor(asNumber(row.x, Number.NaN));
+      const y = Math.floor(asNumber(row.y, Number.NaN));
+      if (!Number.isFinite(x) || !Number.isFinite(y)) return null;
+      return {
+        x,
+        y,
+        kind: asString(row.kind, "hazard"),
+        damage: Math.max(0, Math.floor(asNumber(row.damage, 0))),
+      };
+    })
+    .filter((entry): entry is NarrativeHazardTile => Boolean(entry))
+    .slice(0, 120);
+}
+
 function isAllyCombatant(entry: { player_id: string | null }): boolean {
   return typeof entry.player_id === "string" && entry.player_id.trim().length > 0;
 }
@@ -567,6 +676,17 @@ function parseCombatDelta(event: NarrativeBoardAdapterInput["combat"]["events"][
       label: amount > 0 ? `Armor -${amount}` : "Armor shredded",
     };
   }
+  if (event.event_type === "gear_broken") {
+    return {
+      id: event.id,
+      eventType: "gear_broken" as const,
+      targetCombatantId,
+      amount: null,
+      turnIndex: Math.floor(event.turn_index),
+      createdAt: event.created_at,
+      label: `${asString(payload.item_name, "Gear")} broke`,
+    };
+  }
   if (event.event_type === "death") {
     return {
       id: event.id,
@@ -682,13 +802,15 @@ function parseCombatData(args: {
       : !inRangeEnemy
         ? "Target out of range. Move first."
         : null);
+  const arena = parseCombatArena(args.boardState);
   const blockedTiles = parseBlockedTiles(args.boardState);
+  const hazardTiles = parseHazardTiles(args.boardState);
   const movementTiles = playerCombatant
     ? reachableMovementTiles({
         origin: { x: Math.floor(playerCombatant.x), y: Math.floor(playerCombatant.y) },
         budget: moveBudget,
-        cols: 14,
-        rows: 10,
+        cols: arena.cols,
+        rows: arena.rows,
         blockedTiles,
         occupiedTiles: combatants
           .filter((entry) => entry.is_alive)
@@ -724,7 +846,9 @@ function parseCombatData(args: {
     activeTurnCombatantId: args.combatInput.activeTurnCombatantId,
     playerCombatantId: args.combatInput.playerCombatantId,
     focusedCombatantId: args.combatInput.focusedCombatantId,
+    arena,
     blockedTiles,
+    hazardTiles,
     playerHud: playerCombatant
       ? toHudEntity({
           combatant: playerCombatant,
@@ -789,6 +913,13 @@ function parseCombatData(args: {
       usableNow: entry.usableNow,
       reason: entry.reason,
     })),
+    items: (args.combatInput.consumables ?? []).map((entry) => {
+      const reason = coreReason
+        ?? (entry.targeting === "area" && !(playerCombatant && enemies.some((enemy) => enemy.is_alive && tileDistance(playerCombatant, enemy) <= entry.rangeTiles))
+          ? "No enemy in throw range."
+          : null);
+      return { ...entry, usableNow: reason === null, reason };
+    }),
   };
 }
 
@@ -924,7 +1055,7 @@ function toneForCombatDelta(type: CombatSceneData["recentDeltas"][number]["event
   if (type === "damage" || type === "power_drain") return "danger";
   if (type === "miss") return "warn";
   if (type === "healed" || type === "power_gain") return "good";
-  if (type === "status_applied" || type === "status_tick" || type === "armor_shred") return "warn";
+  if (type === "status_applied" || type === "status_tick" || type === "armor_shred" || type === "gear_broken") return "warn";
   if (type === "death") return "danger";
   return "neutral";
 }
@@ -985,7 +1116,7 @@ function buildSceneSummaryCard(args: {
       ],
       detailLines: [
         ...town.vendors.slice(0, 6).map((entry) => `Vendor: ${entry.name}`),
-        ...town.npcs.slice(0, 6).map((entry) => `Local: ${entry.name} · rel ${entry.relationship} · grudge ${entry.grudge}`),
+        ...town.npcs.slice(0, 6).map((entry) => `Local: ${entry.name} · ${entry.whereabouts} · rel ${entry.relationship} · grudge ${entry.grudge}`),
         ...town.rumors.slice(0, 4).map((entry) => `Rumor: ${entry}`),
         ...town.activityLog.slice(-4).map((entry) => `Activity: ${entry}`),
       ],
@@ -1281,7 +1412,7 @@ function buildTownScene(args: {
       kind: "hotspot",
       title: npc.name,
       subtitle: undefined,
-      description: `Relationship ${npc.relationship} · Grudge ${npc.grudge}`,
+      description: `${npc.whereabouts} · Relationship ${npc.relationship} · Grudge ${npc.grudge}`,
       rect: {
         x: npc.locationTile.x,
         y: npc.locationTile.y,
@@ -1305,6 +1436,8 @@ function buildTownScene(args: {
         relationship: npc.relationship,
         grudge: npc.grudge,
         schedule_state: npc.scheduleState,
+        whereabouts: npc.whereabouts,
+        back_at_work: npc.backAtWork,
       },
       visual: {
         tier: npc.grudge >= 35 ? "primary" : npc.relationship >= 30 ? "secondary" : "tertiary",
@@ -1571,6 +1704,20 @@ function buildTravelScene(args: {
   };
 }
 
+function dungeonRoomIcon(room: DungeonSceneRoom): string {
+  if (room.role === "entrance") return "EN";
+  if (room.role === "boss") return "BS";
+  if (room.role === "treasure") return "TX";
+  if (room.role === "secret") return "SC";
+  return "RM";
+}
+
+function dungeonDoorIcon(kind: DungeonDoorKind, locked: boolean): string {
+  if (locked) return "LK";
+  if (kind === "secret") return "HD";
+  return "DR";
+}
+
 function buildDungeonScene(args: {
   boardState: Record<string, unknown>;
   summary: Record<string, unknown>;
@@ -1580,37 +1727,83 @@ function buildDungeonScene(args: {
   const data = parseDungeonData({ boardState: args.boardState, summary: args.summary });
   const hotspots: NarrativeHotspot[] = [];
   const roomPositions = new Map<string, { x: number; y: number }>();
+  const roomNames = new Map(data.rooms.map((room) => [room.id, room.name]));
+  const currentRoomId = data.currentRoomId;
+
+  // Rooms sit in columns by depth from the entrance, so branches fan out and loops cut across.
+  const depthRows = new Map<number, number>();
+  data.rooms.forEach((room) => {
+    const row = depthRows.get(room.depth) ?? 0;
+    depthRows.set(room.depth, row + 1);
+    roomPositions.set(room.id, { x: 1 + room.depth * 3, y: 1 + row * 2 });
+  });
+  const maxDepth = Math.max(0, ...data.rooms.map((room) => room.depth));
+  const maxRows = Math.max(1, ...depthRows.values());
+  const gridCols = Math.max(12, 3 * (maxDepth + 1) + 1);
+  const gridRows = Math.max(8, 2 * maxRows + 3);
+
+  // A door is usable from whichever side the party has already reached.
+  const doorSide = (edge: DungeonSceneEdge): { from: string; to: string } | null => {
+    const fromVisited = data.rooms.some((room) => room.id === edge.from && room.visited);
+    const toVisited = data.rooms.some((room) => room.id === edge.to && room.visited);
+    if (fromVisited && toVisited) return edge.to === currentRoomId ? { from: edge.to, to: edge.from } : { from: edge.from, to: edge.to };
+    if (fromVisited) return { from: edge.from, to: edge.to };
+    if (toVisited) return { from: edge.to, to: edge.from };
+    return null;
+  };
+  const doorActions = (edge: DungeonSceneEdge) => {
+    const side = doorSide(edge);
+    if (!side) return [];
+    return buildDungeonDoorActions({
+      fromRoomId: side.from,
+      toRoomId: side.to,
+      toRoomName: roomNames.get(side.to) ?? side.to,
+      lock: edge.kind === "locked" && !edge.unlocked
+        ? (edge.keyId && data.keysHeld.includes(edge.keyId) ? "has_key" : "needs_key")
+        : null,
+    });
+  };
 
-  const cols = Math.max(2, Math.min(4, Math.ceil(Math.sqrt(Math.max(1, data.rooms.length)))));
-  data.rooms.forEach((room, index) => {
-    const col = index % cols;
-    const row = Math.floor(index / cols);
-    const x = 1 + col * 3;
-    const y = 1 + row * 2;
-    roomPositions.set(room.id, { x, y });
+  data.rooms.forEach((room) => {
+    const { x, y } = roomPositions.get(room.id)!;
     const stateEntry = asRecord(data.roomState[room.id]);
     const status = asString(stateEntry.status) || null;
+    const approach = room.visited ? null : data.edges.find((edge) => edge.from === room.id || edge.to === room.id) ?? null;
+    const tags = [
+      room.id === currentRoomId ? "you are here" : null,
+      room.visited ? status : "unexplored",
+      `danger ${room.danger}`,
+    ].filter(Boolean);
     hotspots.push({
       id: `dungeon-room-${room.id}`,
       kind: "room",
       title: room.name,
-      subtitle: status ? `${status} • danger ${room.danger}` : `danger ${room.danger}`,
-      description: "Inspect, search, or secure this room.",
+      subtitle: tags.join(" • "),
+      description: room.visited
+        ? "Inspect, search, or secure this room."
+        : "Seen through an open doorway. Move in before acting here.",
       rect: { x, y, w: 2, h: 1 },
-      actions: buildDungeonRoomActions({
-        roomId: room.id,
-        roomName: room.name,
-        roomStatus: status,
-      }),
+      actions: room.visited
+        ? buildDungeonRoomActions({
+            roomId: room.id,
+            roomName: room.name,
+            roomStatus: status,
+          })
+        : approach
+          ? doorActions(approach)
+          : [],
       meta: {
         room_id: room.id,
         tags: room.tags,
         danger: room.danger,
         status,
+        role: room.role,
+        visited: room.visited,
+        current: room.id === currentRoomId,
       },
       visual: {
-        tier: "primary",
-        icon: "RM",
+        tier: room.id === currentRoomId ? "primary" : room.visited ? "secondary" : "tertiary",
+        icon: dungeonRoomIcon(room),
       },
     });
   });
@@ -1619,29 +1812,33 @@ function buildDungeonScene(args: {
     const from = roomPositions.get(edge.from);
     const to = roomPositions.get(edge.to);
     if (!from || !to) return;
+    const locked = edge.kind === "locked" && !edge.unlocked;
     hotspots.push({
       id: `dungeon-door-${index + 1}`,
       kind: "door",
-      title: `${edge.from} -> ${edge.to}`,
-      subtitle: "transition",
+      title: `${roomNames.get(edge.from) ?? edge.from} -> ${roomNames.get(edge.to) ?? edge.to}`,
+      subtitle: locked
+        ? (edge.keyId && data.keysHeld.includes(edge.keyId) ? "locked • key in hand" : "locked • key elsewhere")
+        : edge.kind === "secret"
+          ? "hidden passage"
+          : "transition",
       rect: {
-        x: Math.max(0, Math.min(11, Math.floor((from.x + to.x) / 2))),
-        y: Math.max(0, Math.min(7, Math.floor((from.y + to.y) / 2))),
+        x: Math.max(0, Math.min(gridCols - 1, Math.floor((from.x + to.x) / 2) + 1)),
+        y: Math.max(0, Math.min(gridRows - 1, Math.floor((from.y + to.y) / 2))),
         w: 1,
         h: 1,
       },
-      actions: buildDungeonDoorActions({
-        fromRoomId: edge.from,
-        toRoomId: edge.to,
-        toRoomName: data.rooms.find((entry) => entry.id === edge.to)?.name ?? edge.to,
-      }),
+      actions: doorActions(edge),
       meta: {
+        door_id: edge.id,
         from_room_id: edge.from,
         to_room_id: edge.to,
+        door_kind: edge.kind,
+        locked,
       },
       visual: {
         tier: "secondary",
-        icon: "DR",
+        icon: dungeonDoorIcon(edge.kind, locked),
       },
     });
   });
@@ -1652,8 +1849,8 @@ function buildDungeonScene(args: {
       kind: "trap",
       title: "Trap Signals",
       subtitle: `${data.trapSignals} detected`,
-      rect: { x: 10, y: 1, w: 2, h: 2 },
-      actions: buildDungeonFeatureActions({ roomId: data.rooms[0]?.id ?? null, feature: "trap" }),
+      rect: { x: gridCols - 2, y: gridRows - 2, w: 2, h: 2 },
+      actions: buildDungeonFeatureActions({ roomId: currentRoomId, feature: "trap" }),
       meta: {
         trap_signals: data.trapSignals,
       },
@@ -1670,8 +1867,8 @@ function buildDungeonScene(args: {
       kind: "chest",
       title: "Loot Nodes",
       subtitle: `${data.lootNodes} active`,
-      rect: { x: 10, y: 4, w: 2, h: 2 },
-      actions: buildDungeonFeatureActions({ roomId: data.rooms[0]?.id ?? null, feature: "chest" }),
+      rect: { x: gridCols - 4, y: gridRows - 2, w: 2, h: 2 },
+      actions: buildDungeonFeatureActions({ roomId: currentRoomId, feature: "chest" }),
       meta: {
         loot_nodes: data.lootNodes,
       },
@@ -1688,8 +1885,8 @@ function buildDungeonScene(args: {
       kind: "altar",
       title: "Ancient Altar",
       subtitle: "volatile effect node",
-      rect: { x: 8, y: 6, w: 2, h: 2 },
-      actions: buildDungeonFeatureActions({ roomId: data.rooms[0]?.id ?? null, feature: "altar" }),
+      rect: { x: gridCols - 6, y: gridRows - 2, w: 2, h: 2 },
+      actions: buildDungeonFeatureActions({ roomId: currentRoomId, feature: "altar" }),
       visual: {
         tier: "tertiary",
         icon: "AL",
@@ -1703,8 +1900,8 @@ function buildDungeonScene(args: {
       kind: "puzzle",
       title: "Puzzle Lock",
       subtitle: "progress gate",
-      rect: { x: 6, y: 6, w: 2, h: 2 },
-      actions: buildDungeonFeatureActions({ roomId: data.rooms[0]?.id ?? null, feature: "puzzle" }),
+      rect: { x: gridCols - 8, y: gridRows - 2, w: 2, h: 2 },
+      actions: buildDungeonFeatureActions({ roomId: currentRoomId, feature: "puzzle" }),
       visual: {
         tier: "tertiary",
         icon: "PZ",
@@ -1713,7 +1910,8 @@ function buildDungeonScene(args: {
   }
 
   const metrics: NarrativeSceneMetric[] = [
-    { id: "rooms", label: "Rooms", value: String(data.rooms.length) },
+    { id: "rooms", label: "Rooms", value: `${data.rooms.filter((room) => room.visited).length}/${data.rooms.length}` },
+    { id: "keys", label: "Keys", value: String(data.keysHeld.length), tone: data.keysHeld.length > 0 ? "good" : "neutral" },
     { id: "traps", label: "Trap Signals", value: String(data.trapSignals), tone: data.trapSignals > 0 ? "warn" : "good" },
     { id: "loot", label: "Loot Nodes", value: String(data.lootNodes), tone: data.lootNodes > 0 ? "good" : "neutral" },
     { id: "factions", label: "Factions", value: String(data.factionPresence.length) },
@@ -1721,6 +1919,8 @@ function buildDungeonScene(args: {
   const legend: NarrativeSceneLegendItem[] = [
     { id: "legend-dungeon-room", label: "RM Room", detail: "core node", tone: "neutral" },
     { id: "legend-dungeon-door", label: "DR Door", detail: "transition link", tone: "warn" },
+    { id: "legend-dungeon-lock", label: "LK Locked", detail: "needs a key found in another room", tone: "warn" },
+    { id: "legend-dungeon-boss", label: "BS Boss", detail: "final chamber", tone: "danger" },
     { id: "legend-dungeon-trap", label: "TR Trap", detail: "hazard pressure", tone: data.trapSignals > 0 ? "warn" : "good" },
     { id: "legend-dungeon-loot", label: "LT Loot", detail: "resource node", tone: data.lootNodes > 0 ? "good" : "neutral" },
   ];
@@ -1777,8 +1977,8 @@ function buildDungeonScene(args: {
       skillsLabel: "Skills",
     },
     grid: {
-      cols: 12,
-      rows: 8,
+      cols: gridCols,
+      rows: gridRows,
       blockedTiles: [],
     },
     details: data,
@@ -1792,10 +1992,8 @@ function buildCombatScene(args: {
   combatInput: NarrativeBoardAdapterInput["combat"];
 }): NarrativeBoardSceneModel {
   const data = parseCombatData({ boardState: args.boardState, combatInput: args.combatInput });
-  const maxX = Math.max(8, ...data.combatants.map((entry) => Math.floor(entry.x) + 1), ...data.blockedTiles.map((tile) => tile.x + 1));
-  const maxY = Math.max(6, ...data.combatants.map((entry) => Math.floor(entry.y) + 1), ...data.blockedTiles.map((tile) => tile.y + 1));
-  const gridCols = Math.min(14, Math.max(8, maxX + 1));
-  const gridRows = Math.min(10, Math.max(6, maxY + 1));
+  const gridCols = data.arena.cols;
+  const gridRows = data.arena.rows;
   const playerCombatant = data.playerCombatantId
     ? data.combatants.find((entry) => entry.id === data.playerCombatantId) ?? null
     : null;
@@ -1892,6 +2090,7 @@ function buildCombatScene(args: {
     { id: "legend-combat-ally", label: "ALY Ally", detail: "controlled unit", tone: "good" },
     { id: "legend-combat-active", label: "ACT Active", detail: "active turn", tone: "neutral" },
     { id: "legend-combat-blocked", label: "BLK Tile", detail: "movement obstacle", tone: "danger" },
+    { id: "legend-combat-hazard", label: "HZD Tile", detail: "damage over time", tone: data.hazardTiles.length > 0 ? "warn" : "neutral" },
   ];
   const feed = buildCombatFeed(data);
   const effectiveFeed = feed.length > 0
@@ -1952,11 +2151,45 @@ function buildCombatScene(args: {
       cols: gridCols,
       rows: gridRows,
       blockedTiles: data.blockedTiles,
+      hazardTiles: data.hazardTiles,
     },
     details: data,
   };
 }
 
+function readSceneEnvironment(value: unknown): NarrativeSceneEnvironment | null {
+  const raw = asRecord(value);
+  const daylight = raw.daylight === "day" || raw.daylight === "twilight" || raw.daylight === "night" ? raw.daylight : null;
+  const weather = asString(raw.weather);
+  if (!daylight || !weather) return null;
+  return {
+    period: asString(raw.period, daylight),
+    daylight,
+    weather,
+    biome: asString(raw.biome) || null,
+  };
+}
+
+function buildModeScene(args: {
+  input: NarrativeBoardAdapterInput;
+  boardState: Record<string, unknown>;
+  summary: Record<string, unknown>;
+  warnings: string[];
+  contextSource: NarrativeBoardSceneModel["contextSource"];
+}): NarrativeBoardSceneModel {
+  const { input, boardState, summary, warnings, contextSource } = args;
+  if (input.mode === "town") {
+    return buildTownScene({ boardState, summary, warnings, contextSource });
+  }
+  if (input.mode === "travel") {
+    return buildTravelScene({ boardState, summary, warnings, contextSource });
+  }
+  if (input.mode === "dungeon") {
+    return buildDungeonScene({ boardState, summary, warnings, contextSource });
+  }
+  return buildCombatScene({ boardState, warnings, contextSource, combatInput: input.combat });
+}
+
 export function buildNarrativeBoardScene(input: NarrativeBoardAdapterInput): NarrativeBoardSceneModel {
   const boardState = asRecord(input.boardState);
   const contextWarnings = Array.isArray(input.dmContext?.warnings)
@@ -1966,14 +2199,9 @@ export function buildNarrativeBoardScene(input: NarrativeBoardAdapterInput): Nar
   const summary = asRecord(dmBoard.state_summary);
   const contextSource = input.dmContext ? "runtime_and_dm_context" : "runtime_only";
 
-  if (input.mode === "town") {
-    return buildTownScene({ boardState, summary, warnings: contextWarnings, contextSource });
-  }
-  if (input.mode === "travel") {
-    return buildTravelScene({ boardState, summary, warnings: contextWarnings, contextSource });
-  }
-  if (input.mode === "dungeon") {
-    return buildDungeonScene({ boardState, summary, warnings: contextWarnings, contextSource });
-  }
-  return buildCombatScene({ boardState, warnings: contextWarnings, contextSource, combatInput: input.combat });
+  const scene = buildModeScene({ input, boardState, summary, warnings: contextWarnings, contextSource });
+  const environment = readSceneEnvironment(boardState.world_clock)
+    ?? readSceneEnvironment(input.mode === "combat" ? asRecord(input.combat?.session?.scene_json).environment : null)
+    ?? readSceneEnvironment(summary.environment);
+  return { ...scene, environment };
 }
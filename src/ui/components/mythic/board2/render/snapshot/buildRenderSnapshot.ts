@@ -14,6 +14,8 @@ import type {
   RenderTelegraph,
   RenderTile,
   RenderBoardType,
+  RenderLighting,
+  RenderWeather,
 } from "@/ui/components/mythic/board2/render/types";
 import { hashString, seededFloat } from "@/ui/components/mythic/board2/render/deterministic";
 import { biomeSkinFor } from "@/ui/components/mythic/board2/render/BiomeSkinRegistry";
@@ -25,8 +27,10 @@ function mapBoardType(mode: NarrativeBoardSceneModel["mode"]): RenderBoardType {
   return "town";
 }
 
+const RENDER_WEATHER: RenderWeather[] = ["clear", "cloudy", "rain", "storm", "snow", "fog", "scorching"];
+
 function mapBiome(mode: NarrativeBoardSceneModel["mode"], scene: NarrativeBoardSceneModel): BiomeSkinId {
-  const seed = scene.layout.seed.toLowerCase();
+  const seed = `${scene.layout.seed} ${scene.environment?.biome ?? ""}`.toLowerCase();
   if (mode === "town") return "town_cobble_lantern";
   if (mode === "dungeon") return "dungeon_stone_torch";
   if (mode === "combat") {
@@ -41,6 +45,58 @@ function mapBiome(mode: NarrativeBoardSceneModel["mode"], scene: NarrativeBoardS
   return "plains_road_dust";
 }
 
+function mixColor(from: number, to: number, amount: number): number {
+  const channel = (shift: number) => {
+    const a = (from >> shift) & 0xff;
+    const b = (to >> shift) & 0xff;
+    return Math.round(a + ((b - a) * amount)) << shift;
+  };
+  return channel(16) | channel(8) | channel(0);
+}
+
+// Dungeons keep their torchlight; everywhere else the campaign clock and weather shade the biome's lighting.
+function environmentLighting(base: RenderLighting, scene: NarrativeBoardSceneModel, boardType: RenderBoardType): RenderLighting {
+  const environment = scene.environment;
+  if (!environment || boardType === "dungeon") return base;
+  let { tint, vignetteAlpha, fogAlpha, saturation } = base;
+  if (environment.daylight === "night") {
+    tint = mixColor(tint, 0x1c2444, 0.55);
+    vignetteAlpha += 0.14;
+    saturation -= 0.22;
+  } else if (environment.daylight === "twilight") {
+    tint = mixColor(tint, 0x6c4a70, 0.3);
+    vignetteAlpha += 0.06;
+    saturation -= 0.08;
+  }
+  if (environment.weather === "fog") fogAlpha += 0.14;
+  if (environment.weather === "rain") {
+    tint = mixColor(tint, 0x50627a, 0.2);
+    fogAlpha += 0.04;
+    saturation -= 0.1;
+  }
+  if (environment.weather === "storm") {
+    tint = mixColor(tint, 0x3a4250, 0.3);
+    fogAlpha += 0.06;
+    vignetteAlpha += 0.1;
+    saturation -= 0.2;
+  }
+  if (environment.weather === "snow") {
+    tint = mixColor(tint, 0xdfe8f0, 0.2);
+    fogAlpha += 0.08;
+  }
+  if (environment.weather === "cloudy") saturation -= 0.06;
+  if (environment.weather === "scorching") {
+    tint = mixColor(tint, 0xe0a050, 0.15);
+    saturation += 0.05;
+  }
+  return {
+    tint,
+    vignetteAlpha: Math.min(0.5, vignetteAlpha),
+    fogAlpha: Math.min(0.4, fogAlpha),
+    saturation: Math.max(0.5, saturation),
+  };
+}
+
 function hotspotToOverlayType(kind: string): RenderOverlayMarker["type"] {
   if (kind === "vendor") return "merchant";
   if (kind === "notice_board") return "notice";
@@ -70,6 +126,11 @@ function buildTiles(scene: NarrativeBoardSceneModel, biomeId: BiomeSkinId): Rend
   const blocked = new Set(scene.grid.blockedTiles.map((tile) => `${Math.floor(tile.x)}:${Math.floor(tile.y)}`));
   const overlays = new Map<string, Set<string>>();
 
+  for (const tile of scene.grid.hazardTiles ?? []) {
+    const key = `${Math.floor(tile.x)}:${Math.floor(tile.y)}`;
+    overlays.set(key, new Set([...(overlays.get(key) ?? []), "hazard"]));
+  }
+
   for (const hotspot of scene.hotspots) {
     const minX = Math.max(0, Math.floor(hotspot.rect.x));
     const minY = Math.max(0, Math.floor(hotspot.rect.y));
@@ -233,13 +294,16 @@ function buildTravelEntities(scene: NarrativeBoardSceneModel): RenderEntity[] {
 
 function buildDungeonEntities(scene: NarrativeBoardSceneModel): RenderEntity[] {
   const details = scene.details as DungeonSceneData;
+  const roomRects = new Map(
+    scene.hotspots.filter((spot) => spot.kind === "room").map((spot) => [spot.meta?.room_id, spot.rect]),
+  );
   const rooms = details.rooms.map((room, index) => ({
     id: `room:${room.id}`,
     kind: "building" as const,
     team: "neutral" as const,
     visualClass: "structure" as const,
-    x: index % Math.max(1, Math.floor(scene.grid.cols / 3)),
-    y: Math.floor(index / Math.max(1, Math.floor(scene.grid.cols / 3))),
+    x: Math.floor(roomRects.get(room.id)?.x ?? index % Math.max(1, Math.floor(scene.grid.cols / 3))),
+    y: Math.floor(roomRects.get(room.id)?.y ?? Math.floor(index / Math.max(1, Math.floor(scene.grid.cols / 3)))),
     spriteId: "building:dungeon",
     displayName: room.name,
     fullName: room.tags.length > 0 ? `${room.name} · ${room.tags.join(", ")}` : room.name,
@@ -316,7 +380,9 @@ export function buildRenderSnapshot(scene: NarrativeBoardSceneModel, tickHint =
     tick: tickHint > 0 ? tickHint : hashString(`${scene.layout.seed}:${scene.mode}:${scene.title}`),
     seed: scene.layout.seed,
     styleProfile: "gba_tactics_v1" as const,
-    lighting: biomeSkinFor(biomeId).lighting,
+    lighting: environmentLighting(biomeSkinFor(biomeId).lighting, scene, boardType),
+    weather: RENDER_WEATHER.find((entry) => entry === scene.environment?.weather),
+    daylight: scene.environment?.daylight,
   } as const;
 
   return {
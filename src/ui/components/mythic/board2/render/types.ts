@@ -29,6 +29,9 @@ export interface RenderLighting {
   saturation: number;
 }
 
+export type RenderWeather = "clear" | "cloudy" | "rain" | "storm" | "snow" | "fog" | "scorching";
+export type RenderDaylight = "day" | "twilight" | "night";
+
 export interface RenderBoardMeta {
   id: string;
   type: RenderBoardType;
@@ -40,6 +43,8 @@ export interface RenderBoardMeta {
   seed: string;
   styleProfile?: RenderStyleProfile;
   lighting?: RenderLighting;
+  weather?: RenderWeather;
+  daylight?: RenderDaylight;
 }
 
 export type TileOverlayKind =
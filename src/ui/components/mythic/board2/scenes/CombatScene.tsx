@@ -302,6 +302,14 @@ export function CombatScene(props: CombatSceneProps) {
     [details.activeTurnCombatantId, details.combatants],
   );
 
+  // Player turns run against the server clock; at zero the sweeper acts for them.
+  const turnSecondsLeft = useMemo(() => {
+    if (activeTurnCombatant?.entity_type !== "player") return null;
+    const deadlineMs = Date.parse(details.session?.turn_deadline_at ?? "");
+    if (!Number.isFinite(deadlineMs)) return null;
+    return Math.max(0, Math.ceil((deadlineMs - nowMs) / 1000));
+  }, [activeTurnCombatant, details.session?.turn_deadline_at, nowMs]);
+
   const turnCue = useMemo(() => {
     if (!activeTurnCombatant) {
       return {
@@ -359,16 +367,22 @@ export function CombatScene(props: CombatSceneProps) {
       cols={cols}
       rows={rows}
       blockedTiles={props.scene.grid.blockedTiles}
+      hazardTiles={props.scene.grid.hazardTiles}
       className="h-full border-red-200/35 bg-[radial-gradient(circle_at_50%_14%,rgba(248,113,113,0.2),rgba(8,8,16,0.95))]"
       gridLineColor="rgba(254,205,211,0.12)"
       blockedTileClassName="border border-amber-200/35 bg-amber-400/20"
+      hazardTileClassName="border border-dashed border-orange-300/45 bg-orange-500/18"
       onSelectMiss={props.onSelectMiss}
     >
       <div className="pointer-events-none absolute left-2 top-2 rounded border border-red-200/35 bg-black/35 px-2 py-1 text-[10px] uppercase tracking-wide text-red-100/85">
         Combat {details.status}
       </div>
       <div className={`pointer-events-none absolute right-2 top-2 rounded border bg-black/35 px-2 py-1 text-[10px] uppercase tracking-wide ${turnCue.tone}`}>
-        {props.isActing ? "Action Committed" : turnCue.label}
+        {props.isActing
+          ? "Action Committed"
+          : turnSecondsLeft === null
+            ? turnCue.label
+            : turnSecondsLeft > 0 ? `${turnCue.label} · ${turnSecondsLeft}s` : `${turnCue.label} · Auto-acting`}
       </div>
       {paceBadge ? (
         <div
@@ -44,9 +44,14 @@ export function DungeonScene(props: DungeonSceneProps) {
       const from = typeof hotspot.meta?.from_room_id === "string" ? hotspot.meta.from_room_id : null;
       const to = typeof hotspot.meta?.to_room_id === "string" ? hotspot.meta.to_room_id : null;
       if (!from || !to) return null;
-      return { from, to };
+      return {
+        from,
+        to,
+        locked: hotspot.meta?.locked === true,
+        secret: hotspot.meta?.door_kind === "secret",
+      };
     })
-    .filter((entry): entry is { from: string; to: string } => Boolean(entry));
+    .filter((entry): entry is { from: string; to: string; locked: boolean; secret: boolean } => Boolean(entry));
 
   return (
     <BoardGridLayer
@@ -72,8 +77,9 @@ export function DungeonScene(props: DungeonSceneProps) {
                 y1={toView(from.y, rows)}
                 x2={toView(to.x, cols)}
                 y2={toView(to.y, rows)}
-                stroke="rgba(52,211,153,0.8)"
+                stroke={edge.locked ? "rgba(251,191,36,0.85)" : edge.secret ? "rgba(196,181,253,0.8)" : "rgba(52,211,153,0.8)"}
                 strokeWidth="1.15"
+                strokeDasharray={edge.locked || edge.secret ? "2 1.5" : undefined}
               />
             );
           })}
@@ -3,6 +3,15 @@ import { HotspotOverlay } from "@/ui/components/mythic/board2/HotspotOverlay";
 import { readGridPointFromEvent } from "@/ui/components/mythic/board2/BoardGridLayer";
 import type { NarrativeBoardSceneModel, NarrativeHotspot, TownSceneData } from "@/ui/components/mythic/board2/types";
 
+const NPC_STATE_LABELS: Record<string, string> = {
+  at_home: "home",
+  working: "at work",
+  visiting: "out",
+  errand: "errand",
+  walking: "walking",
+  talking: "talking",
+};
+
 interface TownSceneProps {
   scene: NarrativeBoardSceneModel;
   onSelectHotspot: (hotspot: NarrativeHotspot, point: { x: number; y: number }) => void;
@@ -30,7 +39,7 @@ export function TownScene(props: TownSceneProps) {
     >
       <div className="pointer-events-none absolute inset-0 bg-[linear-gradient(90deg,rgba(245,158,11,0.12)_0%,transparent_30%,transparent_70%,rgba(245,158,11,0.12)_100%)]" />
       <div className="pointer-events-none absolute left-2 top-2 rounded border border-amber-200/30 bg-black/35 px-2 py-1 text-[10px] uppercase tracking-wide text-amber-100/80">
-        Town
+        Town{details.clock ? ` · Day ${details.clock.day} · ${details.clock.period}` : ""}
       </div>
       {buildingHotspots.map((hotspot) => {
         const styleClass = hotspot.kind === "vendor"
@@ -68,6 +77,7 @@ export function TownScene(props: TownSceneProps) {
         const hotspot = props.scene.hotspots.find((entry) => entry.id === `town-npc-${npc.id}`) ?? null;
         const danger = npc.grudge >= 35;
         const shortName = npc.name.trim().length > 11 ? `${npc.name.trim().slice(0, 11)}...` : npc.name.trim();
+        const stateLabel = NPC_STATE_LABELS[npc.scheduleState] ?? null;
         return (
           <button
             key={`town-npc-token-${npc.id}`}
@@ -78,6 +88,7 @@ export function TownScene(props: TownSceneProps) {
                 ? "border-rose-200/75 bg-rose-400/25 text-rose-50"
                 : "border-sky-200/70 bg-sky-300/20 text-sky-50"
             }`}
+            title={[npc.whereabouts, npc.backAtWork].filter(Boolean).join(" · ")}
             style={{
               left: `${((npc.locationTile.x + 0.05) / cols) * 100}%`,
               top: `${((npc.locationTile.y + 0.12) / rows) * 100}%`,
@@ -90,6 +101,7 @@ export function TownScene(props: TownSceneProps) {
             }}
           >
             <div className="truncate font-semibold leading-tight">{shortName}</div>
+            {stateLabel ? <div className="truncate text-[8px] leading-tight opacity-75">{stateLabel}</div> : null}
           </button>
         );
       })}
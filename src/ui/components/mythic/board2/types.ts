@@ -157,7 +157,12 @@ export interface TownSceneData {
     grudge: number;
     locationTile: { x: number; y: number };
     scheduleState: string;
+    /** Where they are or are heading, e.g. "Walking to the chapel". */
+    whereabouts: string;
+    /** When they are next at their workplace; null while they are working there. */
+    backAtWork: string | null;
   }>;
+  clock: { day: number; period: string } | null;
   relationshipPressure: number;
   grudgePressure: number;
   activityLog: string[];
@@ -177,9 +182,33 @@ export interface TravelSceneData {
   dungeonTracesFound: boolean;
 }
 
+export type DungeonDoorKind = "open" | "locked" | "secret";
+
+export interface DungeonSceneRoom {
+  id: string;
+  name: string;
+  tags: string[];
+  danger: number;
+  role: string;
+  depth: number;
+  visited: boolean;
+}
+
+export interface DungeonSceneEdge {
+  id: string;
+  from: string;
+  to: string;
+  kind: DungeonDoorKind;
+  keyId: string | null;
+  unlocked: boolean;
+}
+
 export interface DungeonSceneData {
-  rooms: Array<{ id: string; name: string; tags: string[]; danger: number }>;
-  edges: Array<{ from: string; to: string }>;
+  // Only rooms lifted out of the fog of war; hidden rooms never reach the board.
+  rooms: DungeonSceneRoom[];
+  edges: DungeonSceneEdge[];
+  currentRoomId: string | null;
+  keysHeld: string[];
   roomState: Record<string, unknown>;
   trapSignals: number;
   lootNodes: number;
@@ -202,6 +231,17 @@ export interface NarrativeCombatCoreAction {
   reason: string | null;
 }
 
+export interface NarrativeCombatItemAction {
+  inventoryId: string;
+  name: string;
+  quantity: number;
+  summary: string;
+  targeting: "self" | "ally" | "area";
+  rangeTiles: number;
+  usableNow: boolean;
+  reason: string | null;
+}
+
 export interface NarrativeCombatHudEntity {
   id: string;
   displayLabel: string;
@@ -230,6 +270,7 @@ export interface NarrativeCombatDelta {
     | "status_tick"
     | "status_expired"
     | "armor_shred"
+    | "gear_broken"
     | "death"
     | "moved";
   targetCombatantId: string | null;
@@ -288,7 +329,9 @@ export interface CombatSceneData {
   activeTurnCombatantId: string | null;
   playerCombatantId: string | null;
   focusedCombatantId: string | null;
+  arena: { cols: number; rows: number };
   blockedTiles: Array<{ x: number; y: number }>;
+  hazardTiles: NarrativeHazardTile[];
   playerHud: NarrativeCombatHudEntity | null;
   focusedHud: NarrativeCombatHudEntity | null;
   displayNames: Record<string, { displayLabel: string; fullName: string }>;
@@ -302,10 +345,26 @@ export interface CombatSceneData {
   movementTiles: Array<{ x: number; y: number }>;
   coreActions: NarrativeCombatCoreAction[];
   quickCast: NarrativeCombatQuickCast[];
+  items: NarrativeCombatItemAction[];
+}
+
+export interface NarrativeHazardTile {
+  x: number;
+  y: number;
+  kind: string;
+  damage: number;
 }
 
 export type NarrativeSceneDetails = TownSceneData | TravelSceneData | DungeonSceneData | CombatSceneData;
 
+/** Campaign clock and weather at the board, from the runtime's world clock or the combat scene. */
+export interface NarrativeSceneEnvironment {
+  period: string;
+  daylight: "day" | "twilight" | "night";
+  weather: string;
+  biome: string | null;
+}
+
 export interface NarrativeBoardSceneModel {
   mode: NarrativeBoardMode;
   title: string;
@@ -335,8 +394,10 @@ export interface NarrativeBoardSceneModel {
     cols: number;
     rows: number;
     blockedTiles: Array<{ x: number; y: number }>;
+    hazardTiles?: NarrativeHazardTile[];
   };
   details: NarrativeSceneDetails;
+  environment?: NarrativeSceneEnvironment | null;
 }
 
 export interface NarrativeBoardCombatInput {
@@ -348,6 +409,8 @@ export interface NarrativeBoardCombatInput {
   playerCombatantId: string | null;
   focusedCombatantId: string | null;
   quickCastAvailability: SkillAvailabilityEntry[];
+  /** Backpack consumables the player can use as a turn action. */
+  consumables?: Array<Omit<NarrativeCombatItemAction, "usableNow" | "reason">>;
   paceState?: CombatPaceStateModel | null;
   rewardSummary?: CombatRewardSummaryModel | null;
   resolutionPending?: CombatResolutionPendingModel | null;
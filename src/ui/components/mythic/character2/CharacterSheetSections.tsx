@@ -12,6 +12,7 @@ import {
 } from "@/components/ui/select";
 import type {
   CharacterCompanionSummary,
+  CharacterEquipmentItemSummary,
   CharacterProfileDraft,
   CharacterSheetSaveState,
   CharacterSheetSection,
@@ -29,6 +30,7 @@ interface CharacterSheetSectionsProps {
   equipmentError: string | null;
   onEquipItem: (inventoryId: string) => void;
   onUnequipItem: (inventoryId: string) => void;
+  onOpenCrafting: () => void;
   partyBusy: boolean;
   partyError: string | null;
   onIssueCompanionCommand: (payload: {
@@ -68,6 +70,12 @@ function fmtStatMods(mods: Record<string, number>): string {
     .join(" · ");
 }
 
+function wearWarning(wear: CharacterEquipmentItemSummary["wear"]): string | null {
+  if (!wear || wear.state === "sound") return null;
+  if (wear.state === "broken") return `Broken (0/${wear.max}) · stat mods inactive until repaired`;
+  return `Worn (${wear.current}/${wear.max}) · repair soon`;
+}
+
 function slotLabel(slot: string): string {
   return slot.replace(/_/g, " ").replace(/\b\w/g, (ch) => ch.toUpperCase());
 }
@@ -337,7 +345,12 @@ export function CharacterSheetSections(props: CharacterSheetSectionsProps) {
 
       <TabsContent value="equipment" className="space-y-3">
         <div className="rounded-lg border border-amber-200/25 bg-amber-100/5 p-3">
-          <div className="mb-2 text-sm font-semibold text-amber-100">Equipped Totals</div>
+          <div className="mb-2 flex items-center justify-between gap-2">
+            <div className="text-sm font-semibold text-amber-100">Equipped Totals</div>
+            <Button size="sm" variant="secondary" onClick={props.onOpenCrafting}>
+              Crafting
+            </Button>
+          </div>
           {Object.keys(props.model.equipmentTotals).length === 0 ? (
             <div className="text-xs text-amber-100/70">No active equipment bonuses.</div>
           ) : (
@@ -370,6 +383,9 @@ export function CharacterSheetSections(props: CharacterSheetSectionsProps) {
                       <div className="text-[10px] uppercase tracking-wide">equipped</div>
                     </div>
                     <div className="mt-1 text-emerald-100/80">{item.rarity} · {fmtStatMods(item.statMods)}</div>
+                    {wearWarning(item.wear) ? (
+                      <div className={`mt-1 text-[11px] ${item.wear?.state === "broken" ? "text-red-200" : "text-amber-200"}`}>{wearWarning(item.wear)}</div>
+                    ) : null}
                     {item.grantedAbilities.length > 0 ? (
                       <div className="mt-1 text-[11px] text-emerald-100/80">Abilities: {item.grantedAbilities.join(", ")}</div>
                     ) : null}
@@ -388,16 +404,27 @@ export function CharacterSheetSections(props: CharacterSheetSectionsProps) {
                       <div className="text-[10px] uppercase tracking-wide">{item.rarity}</div>
                     </div>
                     <div className="mt-1">{fmtStatMods(item.statMods)}</div>
+                    {wearWarning(item.wear) ? (
+                      <div className={`mt-1 text-[11px] ${item.wear?.state === "broken" ? "text-red-200" : "text-amber-200"}`}>{wearWarning(item.wear)}</div>
+                    ) : null}
                     {Object.keys(item.deltaMods).length > 0 ? (
                       <div className="mt-1 text-[11px]">
                         Delta: {Object.entries(item.deltaMods).map(([key, value]) => `${key} ${value >= 0 ? `+${value}` : value}`).join(" · ")}
                       </div>
                     ) : null}
-                    <div className="mt-2">
-                      <Button size="sm" disabled={props.equipmentBusy} onClick={() => props.onEquipItem(item.inventoryId)}>
-                        Equip
-                      </Button>
-                    </div>
+                    {item.slot === "material" ? (
+                      <div className="mt-1 text-[11px]">Crafting material · x{item.quantity}</div>
+                    ) : item.slot === "consumable" ? (
+                      <div className="mt-1 text-[11px]">
+                        Consumable · x{item.quantity}{item.consumableSummary ? ` · ${item.consumableSummary}` : ""} · use from Items in combat
+                      </div>
+                    ) : (
+                      <div className="mt-2">
+                        <Button size="sm" disabled={props.equipmentBusy} onClick={() => props.onEquipItem(item.inventoryId)}>
+                          Equip
+                        </Button>
+                      </div>
+                    )}
                   </div>
                 ))}
               </div>
@@ -26,6 +26,7 @@ interface CharacterSheetSurfaceProps {
   equipmentError: string | null;
   onEquipItem: (inventoryId: string) => void;
   onUnequipItem: (inventoryId: string) => void;
+  onOpenCrafting: () => void;
   partyBusy: boolean;
   partyError: string | null;
   onIssueCompanionCommand: (payload: {
@@ -62,6 +63,7 @@ export function CharacterSheetSurface(props: CharacterSheetSurfaceProps) {
             equipmentError={props.equipmentError}
             onEquipItem={props.onEquipItem}
             onUnequipItem={props.onUnequipItem}
+            onOpenCrafting={props.onOpenCrafting}
             partyBusy={props.partyBusy}
             partyError={props.partyError}
             onIssueCompanionCommand={props.onIssueCompanionCommand}
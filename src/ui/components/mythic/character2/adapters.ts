@@ -1,6 +1,6 @@
 import type { MythicCombatantRow } from "@/hooks/useMythicCombatState";
 import type { SkillAvailabilityEntry } from "@/lib/mythic/skillAvailability";
-import { getGrantedAbilities, splitInventory, sumStatMods, type MythicInventoryRow } from "@/lib/mythicEquipment";
+import { getGrantedAbilities, itemConsumable, itemWear, splitInventory, sumStatMods, type MythicInventoryRow } from "@/lib/mythicEquipment";
 import {
   autoSortInventory,
   buildCharacterSheetView,
@@ -549,7 +549,7 @@ export function buildCharacterSheetViewModel(args: BuildCharacterSheetViewModelA
   const equipmentTotals = sumStatMods(equipment.map((entry) => entry.item));
   const equippedTotalsBySlot = new Map<string, Record<string, number>>();
   for (const row of equipment) {
-    if (!row.item) continue;
+    if (!row.item || itemWear(row.item)?.state === "broken") continue;
     const slot = asString(row.item.slot || row.equip_slot, "other").toLowerCase();
     const current = equippedTotalsBySlot.get(slot) ?? {};
     const next: Record<string, number> = { ...current };
@@ -587,6 +587,8 @@ export function buildCharacterSheetViewModel(args: BuildCharacterSheetViewModelA
       statMods: itemMods,
       deltaMods: deltaMods(itemMods, baseline),
       grantedAbilities: getGrantedAbilities(row.item),
+      wear: itemWear(row.item),
+      consumableSummary: itemConsumable(row.item)?.summary ?? null,
     };
     if (equippedState) {
       target.equippedItems.push(item);
@@ -613,6 +615,7 @@ export function buildCharacterSheetViewModel(args: BuildCharacterSheetViewModelA
     accessory2: null,
   };
   for (const row of equipment) {
+    if (itemWear(row.item)?.state === "broken") continue;
     const mapped = mythicItemToRuleItem(row, accessoryIndex);
     if (!mapped) continue;
     if (mapped.slot === "accessory1" || mapped.slot === "accessory2") {
@@ -1,5 +1,6 @@
 import type { MythicBoardType, MythicQuestThreadRow, MythicSkill } from "@/types/mythic";
 import type { CharacterSheetView } from "@/rules/schema";
+import type { ItemWear } from "@/lib/mythicEquipment";
 
 export type CharacterSheetSection = "overview" | "combat" | "skills" | "equipment" | "party" | "quests";
 
@@ -70,6 +71,10 @@ export interface CharacterEquipmentItemSummary {
   statMods: Record<string, number>;
   deltaMods: Record<string, number>;
   grantedAbilities: string[];
+  /** Null when the item does not wear. */
+  wear: ItemWear | null;
+  /** Effect line for usable consumables, otherwise null. */
+  consumableSummary: string | null;
 }
 
 export interface CharacterEquipmentSlotGroup {
@@ -20,10 +20,15 @@ import {
   type MythicUiAction,
 } from "@/hooks/useMythicDungeonMaster";
 import { useMythicDmVoice } from "@/hooks/useMythicDmVoice";
+import { useMythicHouseRules } from "@/hooks/useMythicHouseRules";
 import { useMythicCombat } from "@/hooks/useMythicCombat";
 import { useMythicCombatState } from "@/hooks/useMythicCombatState";
+import { useMythicCampaignChannel, type MythicCampaignEvent } from "@/hooks/useMythicCampaignChannel";
+import { useMythicPartyQueue } from "@/hooks/useMythicPartyQueue";
+import { QuestLog } from "@/components/narrative/QuestLog";
+import { questFromStoredRow } from "@/engine/narrative/Quest";
 import { callEdgeFunction } from "@/lib/edge";
-import { sumStatMods, splitInventory, type MythicInventoryRow } from "@/lib/mythicEquipment";
+import { itemConsumable, sumStatMods, splitInventory, type MythicInventoryRow } from "@/lib/mythicEquipment";
 import { parsePlayerCommand, type PlayerCommandPanel } from "@/lib/mythic/playerCommandParser";
 import { executePlayerCommand } from "@/lib/mythic/playerCommandExecutor";
 import { useMythicBoardRenderer, useMythicDevSurfaces } from "@/lib/mythic/featureFlags";
@@ -35,8 +40,11 @@ import { toast } from "sonner";
 import { DmOverlayBar } from "@/ui/components/mythic/DmOverlayBar";
 import { DmTranscriptDrawer } from "@/ui/components/mythic/DmTranscriptDrawer";
 import { MythicCommandBar } from "@/ui/components/mythic/MythicCommandBar";
+import { PartyQueueList } from "@/ui/components/mythic/PartyQueueList";
 import { ShopDialog } from "@/ui/components/mythic/ShopDialog";
+import { CraftingDialog } from "@/ui/components/mythic/CraftingDialog";
 import { SettingsPanel, type MythicRuntimeSettings } from "@/ui/components/mythic/SettingsPanel";
+import { HouseRulesPanel } from "@/ui/components/mythic/HouseRulesPanel";
 import { actionSignature as boardActionSignature } from "@/ui/components/mythic/board2/actionBuilders";
 import { buildNarrativeBoardScene } from "@/ui/components/mythic/board2/adapters";
 import { NarrativeBoardPage } from "@/ui/components/mythic/board2/NarrativeBoardPage";
@@ -202,7 +210,8 @@ type UnifiedActionSource =
   | "board_hotspot"
   | "combat_skill"
   | "combat_quick_cast"
-  | "combat_enemy_tick";
+  | "combat_enemy_tick"
+  | "party_queue";
 
 type CombatAutoPacePhase = "idle" | "step_committed" | "narrating" | "waiting_voice_end" | "next_step_ready";
 
@@ -249,6 +258,7 @@ function isUiIntent(value: string): value is MythicUiAction["intent"] {
     || value === "combat_action"
     || value === "shop_action"
     || value === "companion_action"
+    || value === "camp_action"
     || value === "town"
     || value === "travel"
     || value === "dungeon"
@@ -598,6 +608,9 @@ function synthesizePromptFromAction(action: MythicUiAction, args: {
   if (action.intent === "companion_action") {
     return "I follow companion guidance and commit the next step from current runtime state.";
   }
+  if (action.intent === "camp_action") {
+    return "I make camp here, set the watch and rest before we move on.";
+  }
   if (action.intent === "refresh") {
     return "Refresh the current state and narrate what changed in runtime.";
   }
@@ -669,6 +682,7 @@ export default function MythicGameScreen() {
     items,
     progressionEvents,
     questThreads,
+    quests,
     isInitialLoading: charInitialLoading,
     isRefreshing: charRefreshing,
     error: charError,
@@ -677,10 +691,12 @@ export default function MythicGameScreen() {
   } = useMythicCharacter(campaignId);
   const mythicDm = useMythicDungeonMaster(campaignId);
   const dmVoice = useMythicDmVoice(campaignId);
+  const houseRules = useMythicHouseRules(campaignId);
   const combat = useMythicCombat();
   const [transitionError, setTransitionError] = useState<string | null>(null);
   const [combatStartError, setCombatStartError] = useState<{ message: string; code: string | null; requestId: string | null } | null>(null);
   const [shopOpen, setShopOpen] = useState(false);
+  const [craftingOpen, setCraftingOpen] = useState(false);
   const [shopVendor, setShopVendor] = useState<{ id: string; name: string | null } | null>(null);
   const [dmContextRefreshSignal, setDmContextRefreshSignal] = useState(0);
   const introTriggerRef = useRef<string | null>(null);
@@ -745,13 +761,50 @@ export default function MythicGameScreen() {
     return board.combat_session_id ?? stateSessionId;
   }, [board]);
 
-  const combatState = useMythicCombatState(campaignId, board?.board_type === "combat" ? combatSessionId : null);
+  const campaignEventHandlerRef = useRef<(event: MythicCampaignEvent) => void>(() => {});
+  const campaignChannel = useMythicCampaignChannel(campaignId, {
+    userId: user?.id,
+    displayName: character?.name ?? null,
+    onEvent: (event) => campaignEventHandlerRef.current(event),
+  });
+  const partyQueue = useMythicPartyQueue(campaignId);
+  const refetchPartyQueue = partyQueue.refetch;
+  // Co-op tables route prompts and chips through the party queue so only one DM turn runs at a time.
+  const partyQueueActive = partyQueue.partySize > 1;
+  const proposePartyAction = partyQueue.propose;
+  const combatState = useMythicCombatState(campaignId, board?.board_type === "combat" ? combatSessionId : null, {
+    live: campaignChannel.isLive,
+  });
   const refetchCombatState = combatState.refetch;
   const mythicDmContext = useMythicDmContext(campaignId, {
     boardUpdatedAt: board?.updated_at ?? null,
     refreshSignal: dmContextRefreshSignal,
-    pollMsVisible: 15_000,
+    pollMsVisible: campaignChannel.isLive ? 60_000 : 15_000,
   });
+  const receiveRemoteTurn = mythicDm.receiveRemoteTurn;
+  // Our own pushes are already applied by the request that caused them; only other players' changes need pulling.
+  campaignEventHandlerRef.current = (event) => {
+    if (event.type === "party.queue" || (event.type === "dm.turn" && event.payload.party_action_id)) {
+      void refetchPartyQueue();
+    }
+    if (!user || event.actor_user_id === user.id || event.type === "party.queue") return;
+    if (event.type === "combat.action") {
+      void refetchCombatState();
+      return;
+    }
+    if (event.type === "dm.turn") {
+      receiveRemoteTurn({
+        turnId: typeof event.payload.turn_id === "string" ? event.payload.turn_id : null,
+        playerMessage: typeof event.payload.player_message === "string" ? event.payload.player_message : null,
+        narration: typeof event.payload.narration === "string" ? event.payload.narration : "",
+        scene: event.payload.scene && typeof event.payload.scene === "object"
+          ? event.payload.scene as Record<string, unknown>
+          : null,
+      });
+      setDmContextRefreshSignal((prev) => prev + 1);
+    }
+    void Promise.all([refetch(), refetchCombatState()]);
+  };
   const playerCombatantId = useMemo(() => {
     if (!user) return null;
     const c = combatState.combatants.find((x) => x.entity_type === "player" && x.player_id === user.id);
@@ -913,6 +966,7 @@ export default function MythicGameScreen() {
     : 1;
 
   const boardHooks = useMemo(() => summarizeBoardHooks(boardStateRecord), [boardStateRecord]);
+  const narrativeQuests = useMemo(() => quests.map(questFromStoredRow), [quests]);
 
   const persistedRuntimeActions = useMemo(() => {
     const raw = Array.isArray(boardStateRecord.action_chips) ? boardStateRecord.action_chips : [];
@@ -1094,7 +1148,17 @@ export default function MythicGameScreen() {
     () => combatState.combatants.find((c) => c.id === combatState.activeTurnCombatantId) ?? null,
     [combatState.activeTurnCombatantId, combatState.combatants],
   );
+  // One client drives NPC turns for the whole table: the longest-connected member, or us when offline.
+  const isNpcTurnDriver = !campaignChannel.isLive
+    || !user
+    || (campaignChannel.members[0]?.userId ?? user.id) === user.id;
+  const waitingOnPartyMember = activeTurnCombatant
+    && activeTurnCombatant.entity_type === "player"
+    && activeTurnCombatant.player_id !== user?.id
+    ? activeTurnCombatant.name
+    : null;
   const canAdvanceNpcTurn = Boolean(
+    isNpcTurnDriver &&
     board?.board_type === "combat" &&
     combatSessionId &&
     !combatResolutionPending &&
@@ -1500,6 +1564,7 @@ export default function MythicGameScreen() {
     payload?: Record<string, unknown>;
     prompt: string;
     appendUser?: boolean;
+    partyActionId?: string;
     execute?: () => Promise<{
       stateChanges?: string[];
       context?: Record<string, unknown>;
@@ -1665,9 +1730,11 @@ export default function MythicGameScreen() {
           suppressErrorToast: true,
           abortPrevious: false,
           idempotencyKey: `${campaignId}:${actionTraceId}`,
+          partyActionId: args.partyActionId,
           actionContext: {
             rule_version: RULE_VERSION,
             action_trace_id: actionTraceId,
+            party_action_id: args.partyActionId ?? null,
             source: args.source,
             intent: args.intent,
             action_id: args.actionId ?? null,
@@ -1692,6 +1759,8 @@ export default function MythicGameScreen() {
           const parsed = parseEdgeError(error, "Failed to reach Mythic DM.");
           const classified = parsed.code === "turn_conflict"
             ? "Turn conflict. Retry the action."
+            : parsed.code === "party_queue_order" || parsed.code === "party_action_not_ready"
+              ? "Another party action is resolving first."
             : parsed.code === "turn_commit_failed"
               ? "Turn commit failed. Retry or refresh state."
               : parsed.message.toLowerCase().includes("timed out")
@@ -1731,10 +1800,14 @@ export default function MythicGameScreen() {
     });
   }, [campaignId, combatState.combatants, enqueueNarratedAction, mythicDm, refetch, refetchCombatState, refreshAllState]);
 
-  const handlePlayerInput = useCallback(async (message: string) => {
+  const handlePlayerInput = useCallback(async (message: string, options?: { partyActionId?: string }) => {
     if (!campaignId) return;
     const rawMessage = message.trim();
     if (!rawMessage) return;
+    if (partyQueueActive && !options?.partyActionId) {
+      await proposePartyAction("prompt", rawMessage);
+      return;
+    }
     lastPlayerInputRef.current = rawMessage;
     setActionError(null);
     setCombatStartError(null);
@@ -1746,9 +1819,10 @@ export default function MythicGameScreen() {
       : { ...command, intent: normalizedIntent };
     const isFreeformPrompt = commandForExecution.intent === "dm_prompt";
     await runNarratedAction({
-      source: "typed_command",
+      source: options?.partyActionId ? "party_queue" : "typed_command",
       intent: normalizedIntent,
       actionId: isFreeformPrompt ? "typed-freeform" : `command:${normalizedIntent}`,
+      partyActionId: options?.partyActionId,
       payload: {
         command: rawMessage,
         parsed_intent: normalizedIntent,
@@ -1830,7 +1904,9 @@ export default function MythicGameScreen() {
     focusedCombatantId,
     openCharacterSheet,
     openUtility,
+    partyQueueActive,
     playerCombatantId,
+    proposePartyAction,
     refetch,
     refetchCharacter,
     refetchCombatState,
@@ -1871,7 +1947,11 @@ export default function MythicGameScreen() {
     return ordered[0] ?? null;
   }, [activeTurnCombatant, combatState.combatants, focusedCombatantId, playerCombatantId]);
 
-  const executeBoardAction = useCallback(async (action: MythicUiAction, source: UnifiedActionSource = "console_action") => {
+  const executeBoardAction = useCallback(async (
+    action: MythicUiAction,
+    source: UnifiedActionSource = "console_action",
+    options?: { partyActionId?: string },
+  ) => {
     if (!campaignId || !board) return;
     const resolvedIntent = resolveActionIntent(action, board.board_type);
     setActionError(null);
@@ -1897,6 +1977,7 @@ export default function MythicGameScreen() {
       actionId: action.id,
       payload: action.payload,
       prompt,
+      partyActionId: options?.partyActionId,
       execute: async () => {
         if (resolvedIntent === "refresh") {
           return {
@@ -2280,6 +2361,64 @@ export default function MythicGameScreen() {
           };
         }
 
+        if (resolvedIntent === "camp_action") {
+          if (board.board_type !== "travel" && board.board_type !== "dungeon") {
+            return {
+              stateChanges: [],
+              context: { camp: null, authoritative_mutation_applied: false },
+              error: "You can only make camp on travel and dungeon boards.",
+            };
+          }
+          const guard = typeof action.payload?.guard === "string" ? action.payload.guard : "watch";
+          const reasonLabel = action.label?.trim() || "Make Camp";
+          const transitionPayload = { camp: { guard }, reason_code: "camp", reason_label: reasonLabel };
+          const transitionResult = await transitionRuntime(board.board_type, reasonLabel, transitionPayload);
+          if (!transitionResult.ok) {
+            return {
+              stateChanges: [],
+              context: { mode_target: board.board_type, transition_payload: transitionPayload, authoritative_mutation_applied: false },
+              error: "Camp failed to apply authoritative state mutation.",
+            };
+          }
+          const camp = transitionResult.data && typeof transitionResult.data.camp === "object" && transitionResult.data.camp
+            ? transitionResult.data.camp as Record<string, unknown>
+            : {};
+          const ambushed = camp.ambushed === true;
+          let autoCombat = null as { combat_session_id: string } | null;
+          if (ambushed) {
+            const started = await combat.startCombat(campaignId);
+            if (started.ok === false) {
+              setCombatStartError({ message: started.message, code: started.code, requestId: started.requestId });
+            } else {
+              autoCombat = { combat_session_id: started.combatSessionId };
+            }
+            screenLogger.info("mythic.action.combat_autostart", {
+              source,
+              intent: action.intent,
+              combat_autostart_triggered: true,
+              board_type: board.board_type,
+              combat_started: Boolean(autoCombat),
+            });
+          }
+          await refetchCharacter();
+          return {
+            stateChanges: [
+              `Made camp on the ${board.board_type} board (${String(camp.quality ?? "uneasy")} rest).`,
+              ...(ambushed ? ["The camp was ambushed before dawn."] : []),
+              ...(autoCombat ? ["Combat auto-started from encounter trigger."] : []),
+            ],
+            context: {
+              mode_target: board.board_type,
+              transition_payload: transitionPayload,
+              transition_result: transitionResult.data,
+              camp,
+              authoritative_mutation_applied: true,
+              combat_autostart_triggered: ambushed,
+              ...autoCombat,
+            },
+          };
+        }
+
         if (resolvedIntent === "combat_start") {
           if (board.board_type !== "combat") {
             const started = await combat.startCombat(campaignId);
@@ -2329,6 +2468,7 @@ export default function MythicGameScreen() {
     openShop,
     playerCombatantId,
     refetch,
+    refetchCharacter,
     refetchCombatState,
     resolveActionIntent,
     runNarratedAction,
@@ -2339,8 +2479,53 @@ export default function MythicGameScreen() {
   ]);
 
   const triggerConsoleAction = useCallback((action: MythicUiAction, source: UnifiedActionSource = "console_action") => {
+    if (partyQueueActive && (source === "console_action" || source === "board_hotspot") && board) {
+      const prompt = synthesizePromptFromAction(action, {
+        boardType: board.board_type,
+        vendorName: null,
+        activeTurnCombatantName: activeTurnCombatant?.name ?? null,
+      });
+      void proposePartyAction("ui_action", prompt, action as unknown as Record<string, unknown>);
+      return;
+    }
     void executeBoardAction(action, source);
-  }, [executeBoardAction]);
+  }, [activeTurnCombatant?.name, board, executeBoardAction, partyQueueActive, proposePartyAction]);
+
+  // The member who carried or accepted an action narrates it; if they dropped off, the NPC turn driver does.
+  const partyResolveAttemptsRef = useRef(new Set<string>());
+  const nextPartyAction = partyQueue.queue.find((entry) => entry.id === partyQueue.nextActionId) ?? null;
+  const partyApproverOnline = Boolean(
+    nextPartyAction?.approved_by && campaignChannel.members.some((member) => member.userId === nextPartyAction.approved_by),
+  );
+  const shouldResolveNextPartyAction = Boolean(
+    nextPartyAction
+      && user
+      && (nextPartyAction.approved_by === user.id || (!partyApproverOnline && isNpcTurnDriver)),
+  );
+  const resolvePartyQueueAction = useCallback(async (actionId: string) => {
+    const action = partyQueue.queue.find((entry) => entry.id === actionId);
+    if (!action) return;
+    partyResolveAttemptsRef.current.add(action.id);
+    if (action.kind === "ui_action" && action.action_json) {
+      await executeBoardAction(action.action_json as unknown as MythicUiAction, "party_queue", { partyActionId: action.id });
+    } else {
+      await handlePlayerInput(action.prompt, { partyActionId: action.id });
+    }
+    await refetchPartyQueue();
+  }, [executeBoardAction, handlePlayerInput, partyQueue.queue, refetchPartyQueue]);
+
+  useEffect(() => {
+    if (!nextPartyAction || !shouldResolveNextPartyAction) return;
+    if (isNarratedActionBusy || mythicDm.isLoading) return;
+    // One automatic attempt per action; a failed turn is retried from the queue's "Resolve now".
+    if (partyResolveAttemptsRef.current.has(nextPartyAction.id)) return;
+    void resolvePartyQueueAction(nextPartyAction.id);
+  }, [isNarratedActionBusy, mythicDm.isLoading, nextPartyAction, resolvePartyQueueAction, shouldResolveNextPartyAction]);
+
+  const partyMemberName = useCallback((userId: string) => {
+    if (userId === user?.id) return "you";
+    return campaignChannel.members.find((member) => member.userId === userId)?.name ?? "a party member";
+  }, [campaignChannel.members, user?.id]);
 
   const advanceNpcTurn = useCallback(async () => {
     if (!campaignId || !combatSessionId || !canAdvanceNpcTurn) return;
@@ -2523,6 +2708,8 @@ export default function MythicGameScreen() {
     source: "combat_skill" | "combat_quick_cast";
     actorCombatantId: string;
     skillId: string;
+    inventoryId?: string;
+    itemName?: string;
     target: { kind: "self" } | { kind: "combatant"; combatant_id: string } | { kind: "tile"; x: number; y: number };
   }) => {
     if (!campaignId || !combatSessionId) return;
@@ -2534,7 +2721,7 @@ export default function MythicGameScreen() {
       toast.error("Not your turn. Wait for the current turn to finish.");
       return;
     }
-    const skillName = skills.find((skill) => skill.id === args.skillId)?.name ?? "skill";
+    const skillName = args.itemName ?? skills.find((skill) => skill.id === args.skillId)?.name ?? "skill";
     const targetLabel = describeCombatTarget(args.target);
     await runNarratedAction({
       source: args.source,
@@ -2544,6 +2731,7 @@ export default function MythicGameScreen() {
         combat_session_id: combatSessionId,
         actor_combatant_id: args.actorCombatantId,
         skill_id: args.skillId,
+        ...(args.inventoryId ? { inventory_id: args.inventoryId } : {}),
         target: args.target,
       },
       prompt: `I use ${skillName} on ${targetLabel}. Narrate the committed combat result and board consequences.`,
@@ -2553,6 +2741,7 @@ export default function MythicGameScreen() {
           combatSessionId,
           actorCombatantId: args.actorCombatantId,
           skillId: args.skillId,
+          inventoryId: args.inventoryId,
           currentTurnIndex: Number(combatState.session?.current_turn_index ?? 0),
           target: args.target,
         });
@@ -2573,6 +2762,7 @@ export default function MythicGameScreen() {
             event.event_type === "damage"
             || event.event_type === "miss"
             || event.event_type === "healed"
+            || event.event_type === "cleanse"
             || event.event_type === "moved"
             || event.event_type === "status_applied"
             || event.event_type === "power_gain"
@@ -2589,6 +2779,7 @@ export default function MythicGameScreen() {
                 if (event.event_type === "damage") return `Hit landed on ${targetLabel}.`;
                 if (event.event_type === "miss") return `Attack on ${targetLabel} missed.`;
                 if (event.event_type === "healed") return `Healing resolved for ${targetLabel}.`;
+                if (event.event_type === "cleanse") return `Afflictions purged from ${targetLabel}.`;
                 if (event.event_type === "moved") return "Movement resolved.";
                 if (event.event_type === "status_applied") return "Status effect applied.";
                 if (event.event_type === "power_gain") return "MP gained.";
@@ -2629,6 +2820,22 @@ export default function MythicGameScreen() {
     [commandSkillAvailability],
   );
 
+  const combatConsumables = useMemo(
+    () => invRowsSafe.flatMap((row) => {
+      const consumable = row.container === "backpack" ? itemConsumable(row.item) : null;
+      if (!consumable || !row.item) return [];
+      return [{
+        inventoryId: row.id,
+        name: row.item.name ?? "Consumable",
+        quantity: Math.max(1, Math.floor(Number(row.quantity ?? 1))),
+        summary: consumable.summary,
+        targeting: consumable.targeting,
+        rangeTiles: consumable.rangeTiles,
+      }];
+    }),
+    [invRowsSafe],
+  );
+
   const characterSheetModel = useMemo(() => {
     if (!character || !board) return null;
     return buildCharacterSheetViewModel({
@@ -2694,6 +2901,7 @@ export default function MythicGameScreen() {
         playerCombatantId,
         focusedCombatantId,
         quickCastAvailability,
+        consumables: combatConsumables,
         paceState: combatPaceModel,
         rewardSummary: combatRewardSummary,
         resolutionPending: combatResolutionPending,
@@ -2710,6 +2918,7 @@ export default function MythicGameScreen() {
     combatPaceModel,
     combatRewardSummary,
     combatResolutionPending,
+    combatConsumables,
     focusedCombatantId,
     mythicDmContext.context,
     playerCombatantId,
@@ -2790,6 +2999,58 @@ export default function MythicGameScreen() {
     skills,
   ]);
 
+  const triggerUseItem = useCallback(async (inventoryId: string, targeting: string) => {
+    if (!playerCombatantId || !combatSessionId) return;
+    if (combatResolutionPending) {
+      toast.error("Combat has resolved. Continue to leave the battlefield.");
+      return;
+    }
+    if (combatState.activeTurnCombatantId !== playerCombatantId) {
+      toast.error("Not your turn. Wait for the current turn to finish.");
+      return;
+    }
+    const entry = combatConsumables.find((row) => row.inventoryId === inventoryId) ?? null;
+    const player = combatState.combatants.find((row) => row.id === playerCombatantId && row.is_alive) ?? null;
+    if (!entry || !player) return;
+    let target: { kind: "self" } | { kind: "combatant"; combatant_id: string } | { kind: "tile"; x: number; y: number } | null = null;
+    if (targeting === "self") {
+      target = { kind: "self" };
+    } else if (targeting === "ally") {
+      // Potions go to the most wounded ally within reach, falling back to the player.
+      const wounded = combatState.combatants
+        .filter((row) => row.is_alive && row.player_id !== null)
+        .filter((row) => Math.abs(row.x - player.x) + Math.abs(row.y - player.y) <= entry.rangeTiles)
+        .sort((a, b) => (a.hp / Math.max(1, a.hp_max)) - (b.hp / Math.max(1, b.hp_max)))[0] ?? player;
+      target = { kind: "combatant", combatant_id: wounded.id };
+    } else {
+      const enemy = selectBestQuickCastEnemy();
+      if (enemy && Math.abs(enemy.x - player.x) + Math.abs(enemy.y - player.y) <= entry.rangeTiles) {
+        target = { kind: "tile", x: enemy.x, y: enemy.y };
+      }
+    }
+    if (!target) {
+      toast.error("No enemy in throw range. Move closer first.");
+      return;
+    }
+    await executeCombatSkillNarration({
+      source: "combat_quick_cast",
+      actorCombatantId: playerCombatantId,
+      skillId: "use_item",
+      inventoryId,
+      itemName: entry.name,
+      target,
+    });
+  }, [
+    combatConsumables,
+    combatResolutionPending,
+    combatSessionId,
+    combatState.activeTurnCombatantId,
+    combatState.combatants,
+    executeCombatSkillNarration,
+    playerCombatantId,
+    selectBestQuickCastEnemy,
+  ]);
+
   const retryLastAction = useCallback(() => {
     if (!lastPlayerInputRef.current) return;
     void handlePlayerInput(lastPlayerInputRef.current);
@@ -2976,6 +3237,22 @@ export default function MythicGameScreen() {
     );
   }
 
+  const renderPartyQueue = (compact: boolean) => (partyQueueActive ? (
+    <PartyQueueList
+      actions={partyQueue.queue}
+      userId={user?.id ?? null}
+      canDecide={partyQueue.canDecide}
+      busyActionId={partyQueue.busyActionId}
+      nextActionId={partyQueue.nextActionId}
+      nameFor={partyMemberName}
+      compact={compact}
+      onVote={(actionId, vote) => { void partyQueue.vote(actionId, vote); }}
+      onDecide={(actionId, decision) => { void partyQueue.decide(actionId, decision); }}
+      onWithdraw={(actionId) => { void partyQueue.withdraw(actionId); }}
+      onResolve={(actionId) => { void resolvePartyQueueAction(actionId); }}
+    />
+  ) : undefined);
+
   const panelControlsContent = (
     <div className="space-y-3">
       {transitionError ? (
@@ -2999,6 +3276,20 @@ export default function MythicGameScreen() {
         </div>
       ) : null}
 
+      <div className="flex flex-wrap items-center gap-2 text-[11px] text-muted-foreground">
+        <span
+          className={`h-2 w-2 rounded-full ${campaignChannel.isLive ? "bg-emerald-400" : campaignChannel.status === "connecting" ? "bg-amber-300" : "bg-muted-foreground/50"}`}
+          title={campaignChannel.isLive ? "Live party sync" : "Party sync offline; polling for updates"}
+        />
+        <span>{campaignChannel.isLive ? "Party" : "Party (offline)"}</span>
+        {campaignChannel.members.map((member) => (
+          <span key={member.userId} className="rounded border border-border bg-background/30 px-1.5 py-0.5">
+            {member.userId === user?.id ? `${member.name} (you)` : member.name}
+          </span>
+        ))}
+        {waitingOnPartyMember ? <span className="text-amber-200">Waiting on {waitingOnPartyMember}&apos;s turn</span> : null}
+      </div>
+
       <div className="flex flex-wrap gap-2">
         <Button size="sm" variant={activePanel === "status" ? "default" : "secondary"} onClick={() => setActivePanel("status")}>Status</Button>
         <Button size="sm" variant={activePanel === "skills" ? "default" : "secondary"} onClick={() => setActivePanel("skills")}>Skills</Button>
@@ -3177,6 +3468,7 @@ export default function MythicGameScreen() {
 
       {activePanel === "quests" ? (
         <div className="space-y-3">
+          <QuestLog playerId={user?.id ?? ""} quests={narrativeQuests} />
           <div className="rounded-lg border border-border bg-background/30 p-3">
             <div className="mb-1 text-sm font-semibold">Persistent Threads</div>
             {questThreads.length === 0 ? (
@@ -3274,7 +3566,7 @@ export default function MythicGameScreen() {
                   <Button
                     size="sm"
                     variant="secondary"
-                    onClick={() => void executeBoardAction({
+                    onClick={() => triggerConsoleAction({
                       id: `shop-open-${vendor.id}`,
                       label: `Open ${vendor.name}`,
                       intent: "shop_action",
@@ -3351,6 +3643,7 @@ export default function MythicGameScreen() {
                   showDevDetails={devSurfaces.enabled}
                   onRetryCombatStart={() => void retryCombatStart()}
                   onQuickCast={(skillId, targeting) => void triggerQuickCast(skillId, targeting)}
+                  onUseItem={(inventoryId, targeting) => void triggerUseItem(inventoryId, targeting)}
                   onContinueCombatResolution={() => void continueAfterCombatResolution()}
                   onAction={(action, source) => triggerConsoleAction(action, source === "board_hotspot" ? "board_hotspot" : "console_action")}
                 />
@@ -3379,6 +3672,7 @@ export default function MythicGameScreen() {
                   onSendMessage={(message) => { void handlePlayerInput(message); }}
                   onOpenTranscript={() => setDmOverlayExpanded(true)}
                   onFocusChange={setCommandBarFocused}
+                  partyQueue={renderPartyQueue(true)}
                 />
               </div>
             </section>
@@ -3410,6 +3704,7 @@ export default function MythicGameScreen() {
         onStopVoice={dmVoice.stop}
         autoFollow={runtimeSettings.chatAutoFollow}
         onSendMessage={(message) => { void handlePlayerInput(message); }}
+        partyQueue={renderPartyQueue(false)}
       />
 
       {characterSheetModel && profileDraft ? (
@@ -3426,6 +3721,7 @@ export default function MythicGameScreen() {
           equipmentError={equipmentActionError}
           onEquipItem={(inventoryId) => { void equipInventoryItem(inventoryId); }}
           onUnequipItem={(inventoryId) => { void unequipInventoryItem(inventoryId); }}
+          onOpenCrafting={() => setCraftingOpen(true)}
           partyBusy={isPartyCommandBusy}
           partyError={partyCommandError}
           onIssueCompanionCommand={(payload) => { void issueCompanionCommand(payload); }}
@@ -3480,6 +3776,16 @@ export default function MythicGameScreen() {
                     setRuntimeSettings((prev) => ({ ...prev, narratorMode: mode }))}
                 />
 
+                <HouseRulesPanel
+                  houseRules={houseRules.houseRules}
+                  ruleVersion={houseRules.ruleVersion}
+                  canEdit={houseRules.canEdit}
+                  isLoading={houseRules.isLoading}
+                  isSaving={houseRules.isSaving}
+                  error={houseRules.error}
+                  onSave={(next) => { void houseRules.save(next); }}
+                />
+
                 {devSurfaces.allowed ? (
                   <div className="rounded-lg border border-border bg-background/30 p-3">
                     <div className="mb-1 text-sm font-semibold">Developer Surfaces</div>
@@ -3508,6 +3814,7 @@ export default function MythicGameScreen() {
                     <div><span className="font-medium text-amber-100">Freeform:</span> Any normal text goes straight to DM narration/context.</div>
                     <div><span className="font-medium text-amber-100">Slash:</span> <code>/travel town|travel|dungeon</code></div>
                     <div><span className="font-medium text-amber-100">Slash:</span> <code>/combat start</code></div>
+                    <div><span className="font-medium text-amber-100">Slash:</span> <code>/camp sleep|watch|vigil</code></div>
                     <div><span className="font-medium text-amber-100">Slash:</span> <code>/skills</code> <code>/status</code> <code>/menu skills</code></div>
                     <div><span className="font-medium text-amber-100">Slash:</span> <code>/skill &lt;name&gt; @&lt;target&gt;</code></div>
                   </div>
@@ -3584,6 +3891,17 @@ export default function MythicGameScreen() {
           if (!open) setShopVendor(null);
         }}
         onPurchased={async () => {
+          // Sales and repairs can change which equipped items count, so derived stats are recomputed too.
+          await recomputeCharacter();
+        }}
+      />
+
+      <CraftingDialog
+        open={craftingOpen}
+        campaignId={campaignId}
+        characterId={character.id}
+        onOpenChange={setCraftingOpen}
+        onCrafted={async () => {
           await refetchCharacter();
         }}
       />
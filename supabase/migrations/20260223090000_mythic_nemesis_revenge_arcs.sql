@@ -0,0 +1,40 @@
+-- Nemesis / revenge-arc runtime:
+-- 1) Arcs can be opened by combat survivors that do not belong to a faction.
+-- 2) Track the originating combat session, escalation tier and lifecycle timestamps.
+-- 3) Index the hot lookups (active arcs per player, memory per arc).
+
+create schema if not exists mythic;
+
+alter table mythic.revenge_arcs
+  alter column faction_id drop not null;
+
+alter table mythic.revenge_arcs
+  add column if not exists source_combat_session_id uuid references mythic.combat_sessions(id) on delete set null,
+  add column if not exists escalation int not null default 0,
+  add column if not exists updated_at timestamptz not null default now(),
+  add column if not exists resolved_at timestamptz;
+
+do $$
+begin
+  if not exists (
+    select 1
+    from pg_constraint
+    where conname = 'revenge_arcs_status_contract'
+      and conrelid = 'mythic.revenge_arcs'::regclass
+  ) then
+    alter table mythic.revenge_arcs
+      add constraint revenge_arcs_status_contract
+      check (status in ('active', 'resolved', 'abandoned'));
+  end if;
+end
+$$;
+
+create index if not exists idx_mythic_revenge_arcs_campaign_player_status
+  on mythic.revenge_arcs(campaign_id, player_id, status);
+
+create index if not exists idx_mythic_revenge_arcs_next_strike
+  on mythic.revenge_arcs(campaign_id, next_strike_at)
+  where status = 'active';
+
+create index if not exists idx_mythic_nemesis_memory_arc_created
+  on mythic.nemesis_memory(arc_id, created_at desc);
@@ -0,0 +1,55 @@
+-- Enemy behaviour profiles:
+-- 1) Enemy templates keyed by display name, each carrying a behaviour profile for combat-tick.
+-- 2) Boss templates carry their own behaviour profile next to phases_json.
+-- Profiles are either a built-in id ("shambler") or {"extends": "<built-in>", ...overrides}.
+
+create schema if not exists mythic;
+
+create table if not exists mythic.enemy_templates (
+  id uuid primary key default gen_random_uuid(),
+  slug text not null unique,
+  name text not null,
+  behavior_profile jsonb not null default '{}'::jsonb,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  check (jsonb_typeof(behavior_profile) in ('object', 'string'))
+);
+
+create unique index if not exists idx_mythic_enemy_templates_name
+  on mythic.enemy_templates(lower(name));
+
+alter table mythic.boss_templates
+  add column if not exists behavior_profile jsonb not null default '{}'::jsonb;
+
+insert into mythic.enemy_templates (slug, name, behavior_profile)
+values
+  ('lantern-wraith', 'Lantern Wraith', '"shambler"'::jsonb),
+  ('moonflare-revenant', 'Moonflare Revenant', '"shambler"'::jsonb),
+  ('grave-choir-hound', 'Grave Choir Hound', '{"extends":"hunter","movement":"advance"}'::jsonb),
+  ('velvet-cryptmimic', 'Velvet Cryptmimic', '"assassin"'::jsonb),
+  ('dusk-bell-specter', 'Dusk Bell Specter', '{"extends":"kiter","id":"bell_caller","reach":3,"kite_range":2}'::jsonb),
+  ('arc-golem', 'Arc Golem', '"sentinel"'::jsonb),
+  ('crystal-spider', 'Crystal Spider', '"hunter"'::jsonb),
+  ('turbo-prism-drone', 'Turbo Prism Drone', '"kiter"'::jsonb),
+  ('storm-sprite', 'Storm Sprite', '"kiter"'::jsonb),
+  ('thunder-drake', 'Thunder Drake', '"hunter"'::jsonb),
+  ('thornbound-stalker', 'Thornbound Stalker', '"assassin"'::jsonb),
+  ('bubble-wyrm', 'Bubble Wyrm', '"brute"'::jsonb),
+  ('bramble-drake', 'Bramble Drake', '"hunter"'::jsonb),
+  ('dire-goose', 'Dire Goose', '{"extends":"skirmisher","retreat_below_hp_pct":0.2}'::jsonb),
+  ('storm-kitty', 'Storm Kitty', '"skirmisher"'::jsonb),
+  ('cinder-marauder', 'Cinder Marauder', '"skirmisher"'::jsonb),
+  ('rainbow-treant', 'Rainbow Treant', '"sentinel"'::jsonb),
+  ('thunder-crab', 'Thunder Crab', '{"extends":"sentinel","guard":{"ward":"strongest","radius":1}}'::jsonb),
+  ('shadow-mimic', 'Shadow Mimic', '"assassin"'::jsonb),
+  ('ancient-slime', 'Ancient Slime', '"shambler"'::jsonb)
+on conflict (slug) do update
+set name = excluded.name,
+    behavior_profile = excluded.behavior_profile,
+    updated_at = now();
+
+update mythic.boss_templates
+set behavior_profile = '"warlord"'::jsonb,
+    updated_at = now()
+where slug = 'steel-widow-prime'
+  and behavior_profile = '{}'::jsonb;
@@ -0,0 +1,12 @@
+-- Combat replay ordering:
+-- 1) action_events gains a monotonically increasing seq so a session's log has one total order
+--    (created_at ties are possible when several events land inside the same millisecond).
+-- 2) Index for reading a session's log in seq order.
+
+create schema if not exists mythic;
+
+alter table mythic.action_events
+  add column if not exists seq bigint generated by default as identity;
+
+create index if not exists idx_mythic_action_events_session_seq
+  on mythic.action_events(combat_session_id, seq);
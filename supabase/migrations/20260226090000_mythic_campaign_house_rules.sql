@@ -0,0 +1,115 @@
+-- Per-campaign house rules:
+-- 1) public.campaigns carries the owner's RuleTunables overrides and the rule version they were written against.
+-- 2) mythic.compute_damage takes the campaign's crit multiplier base and crit chance cap; the defaults keep
+--    every existing caller (and stored roll) on the previous constants.
+-- 3) public.mythic_compute_damage forwards the two new arguments.
+
+create schema if not exists mythic;
+
+alter table public.campaigns
+  add column if not exists house_rules jsonb not null default '{}'::jsonb,
+  add column if not exists rule_version text not null default 'rpg-rules.v1.0.0';
+
+alter table public.campaigns
+  drop constraint if exists campaigns_house_rules_object;
+alter table public.campaigns
+  add constraint campaigns_house_rules_object check (jsonb_typeof(house_rules) = 'object');
+
+-- Adding defaulted parameters would create an ambiguous overload, so replace the signatures outright.
+drop function if exists public.mythic_compute_damage(int, text, int, int, int, int, numeric, numeric, numeric, double precision);
+drop function if exists mythic.compute_damage(int, text, int, int, int, int, numeric, numeric, numeric, double precision);
+
+create or replace function mythic.compute_damage(
+  seed int,
+  label text,
+  lvl int,
+  offense int,
+  mobility int,
+  utility int,
+  weapon_power numeric,
+  skill_mult numeric,
+  resist numeric,
+  spread_pct double precision default 0.10,
+  crit_mult_base double precision default 1.5,
+  crit_chance_max double precision default 0.60
+)
+returns jsonb
+language plpgsql
+immutable
+as $$
+declare
+  ar numeric;
+  base_before_spread numeric;
+  spread double precision;
+  pre numeric;
+  r numeric := greatest(coalesce(resist, 0), 0);
+  m double precision := mythic.clamp_double(coalesce(mobility, 0), 0, 100);
+  o double precision := mythic.clamp_double(coalesce(offense, 0), 0, 100);
+  u double precision := mythic.clamp_double(coalesce(utility, 0), 0, 100);
+  cm_base double precision := mythic.clamp_double(coalesce(crit_mult_base, 1.5), 1.0, 4.0);
+  cc_max double precision := mythic.clamp_double(coalesce(crit_chance_max, 0.60), 0.02, 0.95);
+  cc double precision;
+  cm double precision;
+  is_crit boolean;
+  mitigated numeric;
+  final_damage numeric;
+begin
+  ar := mythic.attack_rating(lvl, offense, weapon_power);
+  base_before_spread := ar * greatest(coalesce(skill_mult, 1), 0);
+
+  spread := (mythic.rng01(seed, coalesce(label, '') || ':spread') - 0.5) * 2.0 * mythic.clamp_double(coalesce(spread_pct, 0.10), 0.0, 0.50);
+  pre := base_before_spread * (1.0 + spread);
+
+  -- Same curves as mythic.crit_chance / mythic.crit_mult, with the campaign's cap and base.
+  cc := mythic.clamp_double(0.02 + (m + u) / 400.0, 0.02, cc_max);
+  cm := mythic.clamp_double(cm_base + (o + u) / 200.0, cm_base, cm_base + 1.5);
+  is_crit := mythic.rng01(seed, coalesce(label, '') || ':crit') < cc;
+
+  if is_crit then
+    pre := pre * cm;
+  end if;
+
+  mitigated := mythic.mitigate(pre, r);
+
+  if pre <= 0 then
+    final_damage := 0;
+  else
+    final_damage := greatest(1, round(mitigated));
+  end if;
+
+  return jsonb_build_object(
+    'attack_rating', ar,
+    'base_before_spread', base_before_spread,
+    'spread', spread,
+    'pre_mitigation', pre,
+    'resist', r,
+    'is_crit', is_crit,
+    'crit_chance', cc,
+    'crit_mult', cm,
+    'final_damage', final_damage
+  );
+end;
+$$;
+
+create or replace function public.mythic_compute_damage(
+  seed int,
+  label text,
+  lvl int,
+  offense int,
+  mobility int,
+  utility int,
+  weapon_power numeric,
+  skill_mult numeric,
+  resist numeric,
+  spread_pct double precision default 0.10,
+  crit_mult_base double precision default 1.5,
+  crit_chance_max double precision default 0.60
+)
+returns jsonb
+language sql
+immutable
+as $$
+  select mythic.compute_damage(seed, label, lvl, offense, mobility, utility, weapon_power, skill_mult, resist, spread_pct, crit_mult_base, crit_chance_max);
+$$;
+
+grant execute on function public.mythic_compute_damage(int, text, int, int, int, int, numeric, numeric, numeric, double precision, double precision, double precision) to anon, authenticated, service_role;
@@ -0,0 +1,47 @@
+-- Live party sync:
+-- 1) Private Realtime topics `mythic:campaign:<campaign_id>` carry the API's broadcasts and party presence.
+-- 2) Only the campaign owner and members may read them or publish their own presence; broadcasts come
+--    from mythic-api with the service role, so clients get no broadcast insert rights.
+
+create schema if not exists mythic;
+
+create or replace function mythic.campaign_id_from_topic(topic text)
+returns uuid
+language plpgsql
+immutable
+as $$
+begin
+  if topic is null or topic not like 'mythic:campaign:%' then
+    return null;
+  end if;
+  return split_part(topic, ':', 3)::uuid;
+exception
+  when invalid_text_representation then
+    return null;
+end;
+$$;
+
+drop policy if exists "Mythic campaign members receive party sync" on realtime.messages;
+create policy "Mythic campaign members receive party sync"
+on realtime.messages for select to authenticated
+using (
+  mythic.campaign_id_from_topic(realtime.topic()) is not null
+  and (
+    public.is_campaign_member((select auth.uid()), mythic.campaign_id_from_topic(realtime.topic()))
+    or public.is_campaign_owner((select auth.uid()), mythic.campaign_id_from_topic(realtime.topic()))
+  )
+);
+
+drop policy if exists "Mythic campaign members share presence" on realtime.messages;
+create policy "Mythic campaign members share presence"
+on realtime.messages for insert to authenticated
+with check (
+  realtime.messages.extension = 'presence'
+  and mythic.campaign_id_from_topic(realtime.topic()) is not null
+  and (
+    public.is_campaign_member((select auth.uid()), mythic.campaign_id_from_topic(realtime.topic()))
+    or public.is_campaign_owner((select auth.uid()), mythic.campaign_id_from_topic(realtime.topic()))
+  )
+);
+
+grant execute on function mythic.campaign_id_from_topic(text) to authenticated;
@@ -0,0 +1,65 @@
+-- Party action queue for co-op campaigns:
+-- 1) mythic.party_actions holds DM prompts and ui_action chips proposed by campaign members.
+-- 2) mythic.party_action_votes holds one yes/no vote per member and action.
+-- 3) Accepted actions are claimed one at a time, oldest first, and become DM turns. turn_id, proposed_by
+--    and approved_by record who asked for each resolved turn and who let it through.
+
+create schema if not exists mythic;
+
+create table if not exists mythic.party_actions (
+  id uuid primary key default gen_random_uuid(),
+  campaign_id uuid not null references public.campaigns(id) on delete cascade,
+  proposed_by uuid not null references auth.users(id) on delete cascade,
+  kind text not null,
+  prompt text not null,
+  action_json jsonb,
+  status text not null default 'pending',
+  approved_by uuid references auth.users(id) on delete set null,
+  approved_via text,
+  turn_id uuid references mythic.turns(id) on delete set null,
+  claimed_at timestamptz,
+  resolved_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  check (kind in ('prompt', 'ui_action')),
+  check (status in ('pending', 'accepted', 'resolving', 'resolved', 'rejected', 'withdrawn')),
+  check (approved_via is null or approved_via in ('vote', 'owner')),
+  check (action_json is null or jsonb_typeof(action_json) = 'object'),
+  check (char_length(prompt) between 1 and 2000)
+);
+
+create index if not exists idx_mythic_party_actions_campaign_status
+  on mythic.party_actions(campaign_id, status, created_at);
+
+create table if not exists mythic.party_action_votes (
+  action_id uuid not null references mythic.party_actions(id) on delete cascade,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  vote text not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  primary key (action_id, user_id),
+  check (vote in ('yes', 'no'))
+);
+
+create or replace function mythic.touch_party_actions_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at := now();
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_party_actions_updated_at on mythic.party_actions;
+create trigger trg_party_actions_updated_at
+before update on mythic.party_actions
+for each row execute function mythic.touch_party_actions_updated_at();
+
+drop trigger if exists trg_party_action_votes_updated_at on mythic.party_action_votes;
+create trigger trg_party_action_votes_updated_at
+before update on mythic.party_action_votes
+for each row execute function mythic.touch_party_actions_updated_at();
+
+alter table if exists mythic.party_actions disable row level security;
+alter table if exists mythic.party_action_votes disable row level security;
@@ -0,0 +1,68 @@
+-- Server-side combat turn clock:
+-- 1) combat_sessions.turn_started_at / turn_deadline_at are set whenever current_turn_index moves.
+-- 2) Once a player's deadline passes, mythic-api's turn sweeper takes the turn for them with the
+--    campaign's AFK action and logs a `turn_timeout` event.
+-- 3) Active sessions from before the clock get a fresh deadline so stalled fights resume.
+
+create schema if not exists mythic;
+
+alter table mythic.combat_sessions
+  add column if not exists turn_started_at timestamptz,
+  add column if not exists turn_deadline_at timestamptz;
+
+create index if not exists idx_mythic_combat_sessions_turn_deadline
+  on mythic.combat_sessions(turn_deadline_at)
+  where status = 'active';
+
+update mythic.combat_sessions
+set turn_started_at = now(),
+    turn_deadline_at = now() + interval '90 seconds'
+where status = 'active'
+  and turn_deadline_at is null;
+
+do $$
+begin
+  if exists (
+    select 1
+    from pg_constraint
+    where conname = 'action_events_event_type_contract'
+      and conrelid = 'mythic.action_events'::regclass
+  ) then
+    alter table mythic.action_events drop constraint action_events_event_type_contract;
+  end if;
+
+  alter table mythic.action_events
+    add constraint action_events_event_type_contract
+    check (
+      event_type in (
+        'combat_start',
+        'round_start',
+        'turn_start',
+        'turn_timeout',
+        'skill_used',
+        'moved',
+        'miss',
+        'damage',
+        'status_roll',
+        'status_applied',
+        'status_tick',
+        'status_expired',
+        'armor_shred',
+        'power_drain',
+        'power_gain',
+        'healed',
+        'cleanse',
+        'revive',
+        'phase_shift',
+        'summon_spawn',
+        'death',
+        'loot_drop',
+        'xp_gain',
+        'level_up',
+        'turn_end',
+        'round_end',
+        'combat_end',
+        'board_transition'
+      )
+    );
+end $$;
@@ -0,0 +1,57 @@
+-- Job board contracts:
+-- 1) Accepting a notice board posting creates a mythic.quests row (source 'job_board') with typed
+--    objectives: kill_type, explore, escort and deliver.
+-- 2) Combat settlement and runtime transitions advance the objectives; a contract whose objectives are
+--    all met moves to 'completed' and waits on the board. progress_refs remembers which combat sessions
+--    were already counted, so a settlement that runs twice does not count kills twice.
+-- 3) Turning it in stamps turned_in_at once and pays out XP, coins and faction reputation through
+--    turn_reward_grants (reward_key 'contract:<quest id>') and faction_reputation.
+
+create schema if not exists mythic;
+
+create table if not exists mythic.quests (
+  id uuid primary key default gen_random_uuid(),
+  campaign_id uuid not null references public.campaigns(id) on delete cascade,
+  player_id uuid references auth.users(id) on delete set null,
+  character_id uuid references mythic.characters(id) on delete set null,
+  source text not null,
+  source_ref text not null,
+  title text not null,
+  summary text,
+  state text not null default 'active',
+  objectives jsonb not null default '[]'::jsonb,
+  rewards jsonb not null default '{}'::jsonb,
+  progress_refs text[] not null default '{}'::text[],
+  issuer_faction_id uuid references mythic.factions(id) on delete set null,
+  accepted_at timestamptz not null default now(),
+  completed_at timestamptz,
+  turned_in_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (campaign_id, source, source_ref),
+  check (source in ('job_board')),
+  check (state in ('active', 'completed', 'failed', 'abandoned')),
+  check (jsonb_typeof(objectives) = 'array'),
+  check (jsonb_typeof(rewards) = 'object'),
+  check (turned_in_at is null or state = 'completed')
+);
+
+create index if not exists idx_mythic_quests_campaign_state
+  on mythic.quests(campaign_id, state, accepted_at);
+
+create or replace function mythic.touch_quests_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at := now();
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_quests_updated_at on mythic.quests;
+create trigger trg_quests_updated_at
+before update on mythic.quests
+for each row execute function mythic.touch_quests_updated_at();
+
+alter table if exists mythic.quests disable row level security;
@@ -0,0 +1,28 @@
+-- Canonical quest store:
+-- 1) mythic.quests also holds DM-authored quests (source 'dm', source_ref = QUEST_UPSERT quest_key), shaped like
+--    the narrative Quest model: objectives with hidden/optional flags, importance and an optional turn limit.
+-- 2) QUEST_UPSERT patches are validated against the stored quest before the turn commits; combat settlement
+--    and runtime transitions advance objectives, and each committed DM turn ticks timed quests.
+
+alter table if exists mythic.quests
+  add column if not exists description text,
+  add column if not exists giver text,
+  add column if not exists importance text not null default 'side',
+  add column if not exists time_limit int,
+  add column if not exists turns_elapsed int not null default 0;
+
+alter table if exists mythic.quests drop constraint if exists quests_source_check;
+alter table if exists mythic.quests
+  add constraint quests_source_check check (source in ('job_board', 'dm'));
+
+alter table if exists mythic.quests drop constraint if exists quests_state_check;
+alter table if exists mythic.quests
+  add constraint quests_state_check check (state in ('available', 'active', 'completed', 'failed', 'abandoned'));
+
+alter table if exists mythic.quests drop constraint if exists quests_importance_check;
+alter table if exists mythic.quests
+  add constraint quests_importance_check check (importance in ('side', 'main', 'legendary'));
+
+alter table if exists mythic.quests drop constraint if exists quests_time_limit_check;
+alter table if exists mythic.quests
+  add constraint quests_time_limit_check check (time_limit is null or time_limit > 0);
@@ -38,6 +38,7 @@ test.describe("mythic town board liveness", () => {
     if (await npcToken.count()) {
       await npcToken.click();
       await expect(page.getByTestId("board-inspect-card")).toBeVisible();
+      await expect(page.getByTestId("inspect-whereabouts")).toBeVisible();
       await page.getByTestId("board-inspect-card").getByRole("button", { name: "Close" }).click();
       await expect(page.getByTestId("board-inspect-card")).toHaveCount(0);
     }